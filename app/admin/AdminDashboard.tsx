@@ -8,19 +8,53 @@ import { brandConfig } from "@/lib/brandConfig";
 import type { Product } from "@/lib/products";
 import { ConfirmationModal } from "@/components/ConfirmationModal";
 import { InvoiceHistoryPanel, type PersonaAdditional } from "@/components/InvoiceHistoryPanel";
+import { SalesTrendChart } from "@/components/SalesTrendChart";
 import { getProvincias } from "@/lib/locationData";
 import { IMPORT_ONLY_PRODUCT_NAME, isImportOnlyProduct } from "@/lib/products";
 import { getRecurringDayName } from "@/lib/weeklyReset";
 import type { DayOfWeek } from "@/lib/weeklyReset";
-import { UNLIMITED_STOCK } from "@/lib/validation";
-import { formatDateTime } from "@/lib/formatDate";
+import {
+  UNLIMITED_STOCK,
+  BASE_CURRENCY,
+  CURRENCIES,
+  CURRENCY_LABELS,
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  SEAT_HOLD_MAX_HOURS,
+  WHATSAPP_MESSAGE_TYPES,
+  STATS_DATE_FIELDS,
+  STATS_DATE_FIELD_LABELS,
+  STATS_GROUPINGS,
+  STATS_GROUPING_LABELS,
+  type CancellationTier,
+  type PaymentMethod,
+  type StatsDateField,
+  type StatsGrouping,
+  type WhatsAppMessageType,
+} from "@/lib/validation";
+import { formatDate, formatDateTime } from "@/lib/formatDate";
 import { formatPhoneForDisplay } from "@/lib/phone";
-import { canSeeResumen, canSeeProducts, canDeleteVoidedInvoices } from "@/lib/permissions";
+import { canSeeResumen, canSeeProducts, canArchiveVoidedInvoices, canUnvoidInvoices, canReversePayments, canSeeAudit, canEditPrice, canManageCommissions, canManageCashClosings } from "@/lib/permissions";
 import { AdminNav } from "./AdminNav";
 import { NewsManagementSection } from "./NewsManagementSection";
 import { HotelOffersManagementSection } from "./HotelOffersManagementSection";
 import { FlightRequestsManagementSection } from "./FlightRequestsManagementSection";
+import { WhatsAppInboxSection, formatWhatsAppError } from "./WhatsAppInboxSection";
+import { WhatsAppCampaignsSection } from "./WhatsAppCampaignsSection";
+import { AuditLogSection } from "./AuditLogSection";
+import { CommissionsSection } from "./CommissionsSection";
+import { CashClosingSection } from "./CashClosingSection";
+import { CustomersSection } from "./CustomersSection";
+import { ReceivablesSection } from "./ReceivablesSection";
+import { ManifestSection } from "./ManifestSection";
+import { WaitlistSection } from "./WaitlistSection";
+import { CancellationPolicyFields } from "./CancellationPolicyFields";
+import { parseCancellationPolicy } from "@/lib/cancellationPolicy";
 import type { SessionRole } from "@/lib/permissions";
+import type { CustomerDTO } from "@/lib/customers";
+import type { AttendanceStat } from "@/lib/salesAnalytics";
+import type { PromoQuote } from "@/lib/promoCodes";
+import type { SalesTrend } from "@/lib/salesAnalytics";
 
 interface AdminDashboardProps {
   initialProducts: Product[];
@@ -53,6 +87,8 @@ interface SaleItem {
   pendiente?: number;
   /** "kid" when unitPrice matches tour childPrice; "adult" otherwise. Used for display. */
   priceLabel?: "adult" | "kid";
+  /** Why unitPrice differs from the tour's price for priceLabel (sent as priceOverrideReason). */
+  priceOverrideReason?: string;
 }
 
 /**
@@ -63,6 +99,11 @@ interface CompletedSale {
   id: string;
   items: SaleItem[];
   subtotal: number;
+  /** Promo code discount taken off the subtotal. */
+  discount?: number;
+  promoCode?: string;
+  /** Currency of the items' tours (one per invoice). */
+  currency: string;
   customerName: string;
   customerPhone: string;
   cedula: string;
@@ -81,7 +122,7 @@ interface CompletedSale {
   date: string;
 }
 
-type AdminView = "overview" | "products" | "sales" | "messages" | "news" | "hotelOffers" | "flightRequests";
+type AdminView = "overview" | "products" | "sales" | "customers" | "receivables" | "messages" | "news" | "hotelOffers" | "flightRequests" | "commissions" | "cashClosing" | "audit";
 
 export function AdminDashboard({
   initialProducts,
@@ -101,9 +142,14 @@ export function AdminDashboard({
       tourId: string;
       quantity: number;
       total: number;
+      discount?: number;
+      passengerType?: "adult" | "kid";
+      listPrice?: number | null;
+      priceOverrideReason?: string | null;
+      currency?: string;
       abono?: number | null;
       pendiente?: number | null;
-      tour?: { name?: string; line?: string };
+      tour?: { name?: string; line?: string; price?: number; childPrice?: number | null };
     }>;
   } | null>(null);
   const defaultView: AdminView = canSeeResumen(role) ? "overview" : "sales";
@@ -116,8 +162,16 @@ export function AdminDashboard({
     voidedInvoiceCount: number;
     paidInvoiceCount: number;
     occupancyPercent: number | null;
-    topTours: Array<{ tourId: string; tourName: string; revenue: number; seatsSold: number }>;
+    topTours: Array<{ tourId: string; tourName: string; revenue: number; seatsSold: number; adultsSold: number; kidsSold: number }>;
+    passengerTypeStats: Array<{ passengerType: "adult" | "kid"; seatsSold: number; revenue: number }>;
     voidRate: number;
+    baseCurrency: string;
+    currencyStats: Array<{ currency: string; bookedRevenue: number; paidRevenue: number; pendingRevenue: number }>;
+    missingRates: string[];
+    attendanceStats: AttendanceStat[];
+    promoStats: Array<{ code: string; redemptions: number; discount: number; revenue: number }>;
+    promoDiscount: number;
+    trend: SalesTrend | null;
   }>({
     paidRevenue: 0,
     paidUnits: 0,
@@ -127,9 +181,27 @@ export function AdminDashboard({
     paidInvoiceCount: 0,
     occupancyPercent: null,
     topTours: [],
+    passengerTypeStats: [],
     voidRate: 0,
+    baseCurrency: BASE_CURRENCY,
+    currencyStats: [],
+    missingRates: [],
+    attendanceStats: [],
+    promoStats: [],
+    promoDiscount: 0,
+    trend: null,
   });
+  /** Resumen range: empty from/to = all time (no comparison). */
+  const [statsRange, setStatsRange] = useState<{
+    from: string;
+    to: string;
+    dateField: StatsDateField;
+    groupBy: StatsGrouping;
+  }>({ from: "", to: "", dateField: "booking", groupBy: "day" });
+  /** Query string of the last complete Resumen range (what refreshPaidStats loads). */
+  const statsQueryRef = useRef("dateField=booking&groupBy=day");
   const [invoiceListRefreshKey, setInvoiceListRefreshKey] = useState(0);
+  const [whatsAppUnread, setWhatsAppUnread] = useState(0);
   const [confirmModal, setConfirmModal] = useState<{
     title: string;
     message: string;
@@ -139,10 +211,10 @@ export function AdminDashboard({
   } | null>(null);
 
   /**
-   * Refreshes paid-invoice stats (revenue from fully paid invoices only).
+   * Refreshes paid-invoice stats (revenue from fully paid invoices only) for the Resumen range.
    */
   async function refreshPaidStats() {
-    const res = await fetch("/api/sales/stats");
+    const res = await fetch(`/api/sales/stats?${statsQueryRef.current}`);
     if (res.ok) {
       const data = await res.json();
       setPaidStats({
@@ -154,11 +226,48 @@ export function AdminDashboard({
         paidInvoiceCount: data.paidInvoiceCount ?? 0,
         occupancyPercent: data.occupancyPercent ?? null,
         topTours: data.topTours ?? [],
+        passengerTypeStats: data.passengerTypeStats ?? [],
         voidRate: data.voidRate ?? 0,
+        baseCurrency: data.baseCurrency ?? BASE_CURRENCY,
+        currencyStats: data.currencyStats ?? [],
+        missingRates: data.missingRates ?? [],
+        attendanceStats: data.attendanceStats ?? [],
+        promoStats: data.promoStats ?? [],
+        promoDiscount: data.promoDiscount ?? 0,
+        trend: data.trend ?? null,
       });
     }
   }
 
+  /**
+   * Changes the Resumen range and reloads the stats (a half-filled range waits for both dates).
+   */
+  function updateStatsRange(patch: Partial<typeof statsRange>) {
+    const next = { ...statsRange, ...patch };
+    setStatsRange(next);
+    if (Boolean(next.from) !== Boolean(next.to) || next.from > next.to) return;
+    const params = new URLSearchParams({ dateField: next.dateField, groupBy: next.groupBy });
+    if (next.from) {
+      params.set("from", next.from);
+      params.set("to", next.to);
+    }
+    statsQueryRef.current = params.toString();
+    void refreshPaidStats();
+  }
+
+  /**
+   * Range of the last `days` days up to today (UTC), or all time when days is null.
+   */
+  function applyStatsPreset(days: number | null) {
+    if (days === null) {
+      updateStatsRange({ from: "", to: "" });
+      return;
+    }
+    const to = new Date();
+    const from = new Date(to.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+    updateStatsRange({ from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) });
+  }
+
   /**
    * Refreshes product list from API.
    * Supervisor uses public endpoint (no ?all=true) since they cannot access products management.
@@ -258,6 +367,14 @@ export function AdminDashboard({
     if (activeView === "overview") refreshPaidStats();
   }, [activeView]);
 
+  /** Unread WhatsApp count for the Mensajes nav badge (the inbox updates it while open). */
+  useEffect(() => {
+    fetch("/api/whatsapp/threads?limit=1")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: { unreadTotal?: number } | null) => setWhatsAppUnread(data?.unreadTotal ?? 0))
+      .catch(() => {});
+  }, []);
+
   return (
     <>
     <div className="flex flex-col md:flex-row md:gap-6 md:items-start">
@@ -265,22 +382,103 @@ export function AdminDashboard({
         activeView={activeView}
         onViewChange={setActiveView}
         role={role}
+        badges={{ messages: whatsAppUnread }}
       />
       <div className="flex-1 min-w-0 w-full space-y-4 sm:space-y-6 tablet-lg:space-y-8 mt-4 md:mt-0">
       {/* KPI Section */}
       {activeView === "overview" && (
         <div className="space-y-4">
+        {/* Range: sales KPIs below only count bookings in it (by booking or tour date) */}
+        <div className="bg-porcelain rounded-xl border border-gold-200/50 p-3 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Desde</label>
+            <input
+              type="date"
+              value={statsRange.from}
+              onChange={(e) => updateStatsRange({ from: e.target.value })}
+              className="bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Hasta</label>
+            <input
+              type="date"
+              value={statsRange.to}
+              onChange={(e) => updateStatsRange({ to: e.target.value })}
+              className="bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Filtrar por</label>
+            <select
+              value={statsRange.dateField}
+              onChange={(e) => updateStatsRange({ dateField: e.target.value as StatsDateField })}
+              className="bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            >
+              {STATS_DATE_FIELDS.map((f) => (
+                <option key={f} value={f}>
+                  {STATS_DATE_FIELD_LABELS[f]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Agrupar por</label>
+            <select
+              value={statsRange.groupBy}
+              onChange={(e) => updateStatsRange({ groupBy: e.target.value as StatsGrouping })}
+              className="bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            >
+              {STATS_GROUPINGS.map((g) => (
+                <option key={g} value={g}>
+                  {STATS_GROUPING_LABELS[g]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {([
+              [7, "7 días"],
+              [30, "30 días"],
+              [90, "90 días"],
+              [null, "Todo"],
+            ] as const).map(([days, label]) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => applyStatsPreset(days)}
+                className="px-3 py-1.5 rounded-lg text-sm border border-gold-200/50 bg-white text-jet hover:bg-gold-200/20"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Tourism-focused KPIs: Ingresos, Tours Activos, Plazas vendidas */}
         <div className="bg-gradient-to-r from-aqua-700 to-aqua-500 rounded-xl p-4 tablet:p-5 tablet-lg:p-6 text-white">
           <div className="flex flex-col landscape:flex-row landscape:items-center landscape:justify-between tablet:flex-row tablet:items-center tablet:justify-between gap-4">
             <div>
               <p className="text-white/80 text-sm font-medium" title="Incluye total de facturas pagadas y depósitos (abonos) de facturas pendientes">Ingresos cobrados</p>
               <p className="text-2xl mobile-landscape:text-3xl tablet:text-3xl tablet-lg:text-4xl font-bold mt-1">
-                RD$ {paidStats.paidRevenue.toLocaleString()}
+                {paidStats.baseCurrency} {paidStats.paidRevenue.toLocaleString()}
               </p>
               <p className="text-white/70 text-sm mt-2">
                 {paidStats.paidUnits} plazas en facturas pagadas
               </p>
+              {paidStats.currencyStats.length > 1 && (
+                <p className="text-white/70 text-xs mt-1">
+                  {paidStats.currencyStats
+                    .map((c) => `${c.currency} ${c.paidRevenue.toLocaleString()}`)
+                    .join(" · ")}{" "}
+                  (convertido a {paidStats.baseCurrency} con la tasa de la fecha de cada venta)
+                </p>
+              )}
+              {paidStats.missingRates.length > 0 && (
+                <p className="text-white text-xs mt-1 font-medium">
+                  Sin tasa de cambio para {paidStats.missingRates.join(", ")}: regístrala en Ajustes para incluirlas en los totales.
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -290,7 +488,7 @@ export function AdminDashboard({
           <StatCard
             label="Cobro pendiente"
             value={paidStats.pendingRevenue}
-            valueDisplay={`RD$ ${paidStats.pendingRevenue.toLocaleString()}`}
+            valueDisplay={`${paidStats.baseCurrency} ${paidStats.pendingRevenue.toLocaleString()}`}
           />
         </div>
 
@@ -301,7 +499,7 @@ export function AdminDashboard({
             value={paidStats.paidUnits}
             valueDisplay={
               paidStats.paidUnits > 0
-                ? `RD$ ${Math.round(paidStats.paidRevenue / paidStats.paidUnits).toLocaleString()}`
+                ? `${paidStats.baseCurrency} ${Math.round(paidStats.paidRevenue / paidStats.paidUnits).toLocaleString()}`
                 : "—"
             }
           />
@@ -322,6 +520,16 @@ export function AdminDashboard({
           />
         </div>
 
+        {paidStats.trend && (
+          <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+            <h3 className="text-sm font-semibold text-jet mb-1">Evolución vs período anterior</h3>
+            <p className="text-jet/60 text-xs mb-3">
+              {STATS_DATE_FIELD_LABELS[paidStats.trend.dateField]}, por {STATS_GROUPING_LABELS[paidStats.trend.groupBy].toLowerCase()}
+            </p>
+            <SalesTrendChart trend={paidStats.trend} baseCurrency={paidStats.baseCurrency} />
+          </div>
+        )}
+
         {/* Top sellers + Top tours */}
         <div className="grid gap-4 tablet:gap-6">
           <div className="grid gap-4 sm:grid-cols-2">
@@ -340,7 +548,7 @@ export function AdminDashboard({
                         {i + 1}. {s.nombreVendedor}
                       </span>
                       <span className="text-jet font-medium shrink-0 ml-2">
-                        RD$ {s.totalRevenue.toLocaleString()} ({s.invoiceCount})
+                        {paidStats.baseCurrency} {s.totalRevenue.toLocaleString()} ({s.invoiceCount})
                       </span>
                     </div>
                   ))}
@@ -362,7 +570,8 @@ export function AdminDashboard({
                         {i + 1}. {t.tourName}
                       </span>
                       <span className="text-jet font-medium shrink-0 ml-2">
-                        RD$ {t.revenue.toLocaleString()} ({t.seatsSold} plz.)
+                        {paidStats.baseCurrency} {t.revenue.toLocaleString()} ({t.seatsSold} plz.
+                        {t.kidsSold > 0 ? ` · ${t.adultsSold} ad. / ${t.kidsSold} niñ.` : ""})
                       </span>
                     </div>
                   ))}
@@ -370,6 +579,69 @@ export function AdminDashboard({
               )}
             </div>
           </div>
+          {paidStats.passengerTypeStats.some((t) => t.seatsSold > 0) && (
+            <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+              <h3 className="text-sm font-semibold text-jet mb-3">Adultos vs niños</h3>
+              <div className="space-y-2">
+                {paidStats.passengerTypeStats.map((t) => {
+                  const seats = paidStats.passengerTypeStats.reduce((sum, x) => sum + x.seatsSold, 0);
+                  return (
+                    <div key={t.passengerType} className="flex justify-between items-center text-sm gap-2">
+                      <span className="text-jet">
+                        {t.passengerType === "kid" ? "Niños" : "Adultos"}: {t.seatsSold} plz.
+                        {seats > 0 ? ` (${Math.round((t.seatsSold / seats) * 100)}%)` : ""}
+                      </span>
+                      <span className="text-jet font-medium shrink-0">
+                        {paidStats.baseCurrency} {t.revenue.toLocaleString()}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          {paidStats.promoStats.length > 0 && (
+            <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+              <h3 className="text-sm font-semibold text-jet mb-1">Códigos promocionales</h3>
+              <p className="text-jet/60 text-xs mb-3">
+                Descuento total: {paidStats.baseCurrency} {paidStats.promoDiscount.toLocaleString()}
+              </p>
+              <div className="space-y-2">
+                {paidStats.promoStats.slice(0, 8).map((p) => (
+                  <div key={p.code} className="flex justify-between items-center text-sm gap-2">
+                    <span className="text-jet truncate">
+                      <span className="font-mono">{p.code}</span>: {p.redemptions} reservas
+                    </span>
+                    <span className="text-jet/80 shrink-0">
+                      <span className="text-jet font-medium">{paidStats.baseCurrency} {p.revenue.toLocaleString()}</span>
+                      {" · "}
+                      <span className="text-danger">−{paidStats.baseCurrency} {p.discount.toLocaleString()}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {paidStats.attendanceStats.length > 0 && (
+            <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+              <h3 className="text-sm font-semibold text-jet mb-3">Asistencia por tour (check-in)</h3>
+              <div className="space-y-2">
+                {paidStats.attendanceStats.slice(0, 8).map((a) => (
+                  <div key={a.tourId} className="flex justify-between items-center text-sm gap-2">
+                    <span className="text-jet truncate">{a.tourName}</span>
+                    <span className="text-jet/80 shrink-0">
+                      <span className="text-success font-medium">{a.boarded} abordaron</span>
+                      {" · "}
+                      <span className="text-danger">{a.noShow} no se presentaron</span>
+                      {" · "}
+                      {a.unmarked} sin marcar
+                      {a.expected > 0 && ` (${Math.round((a.boarded / a.expected) * 100)}%)`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <InvoiceHistoryPanel
@@ -378,9 +650,15 @@ export function AdminDashboard({
           showVoidActions={false}
           showRefresh={false}
           showSupervisorFilter={false}
-          showDeleteVoidedActions={canDeleteVoidedInvoices(role)}
+          showArchiveVoidedActions={canArchiveVoidedInvoices(role)}
+          canUnvoidInvoices={canUnvoidInvoices(role)}
+          canReversePayments={canReversePayments(role)}
           onPaymentUpdated={() => void refreshPaidStats()}
-          onInvoiceDeleted={() => void refreshPaidStats()}
+          onInvoiceArchived={() => void refreshPaidStats()}
+          onInvoiceUnvoided={() => {
+            refreshProducts();
+            void refreshPaidStats();
+          }}
           title="Últimas 5 facturas"
           subtitle="Vista rápida de las ventas recientes"
         />
@@ -474,6 +752,12 @@ export function AdminDashboard({
               Gestión de Reservas
             </h2>
             <div className="flex gap-2 w-full landscape:w-auto tablet:w-auto">
+              <a
+                href="/admin/checkin"
+                className="bg-aqua-700/10 text-aqua-700 w-full landscape:w-auto tablet:w-auto px-4 py-3 tablet:py-2 rounded-lg text-sm font-semibold text-center"
+              >
+                📷 Check-in
+              </a>
               <button
                 onClick={() => setIsCreatingSale(true)}
                 className="bg-success hover:bg-success/90 text-white w-full landscape:w-auto tablet:w-auto px-4 py-3 tablet:py-2 rounded-lg text-sm font-semibold transition-colors"
@@ -487,6 +771,7 @@ export function AdminDashboard({
           {isCreatingSale && (
             <SaleForm
               products={products.filter((p) => p.isActive && !isImportOnlyProduct(p) && (p.stock > 0 || p.stock === UNLIMITED_STOCK))}
+              canEditPrice={canEditPrice(role)}
               onClose={() => setIsCreatingSale(false)}
               onComplete={(sale) => {
                 setCompletedSale(sale);
@@ -504,6 +789,16 @@ export function AdminDashboard({
             />
           )}
 
+          <ManifestSection products={products.filter((p) => !isImportOnlyProduct(p))} />
+
+          <WaitlistSection
+            products={products.filter((p) => p.isActive && !isImportOnlyProduct(p))}
+            onBooked={() => {
+              refreshProducts();
+              setInvoiceListRefreshKey((k) => k + 1);
+            }}
+          />
+
           <InvoiceHistoryPanel
             refreshTrigger={invoiceListRefreshKey}
             onInvoiceVoided={() => {
@@ -511,7 +806,11 @@ export function AdminDashboard({
               void refreshPaidStats();
             }}
             onPaymentUpdated={() => void refreshPaidStats()}
-            onInvoiceDeleted={() => {
+            onInvoiceArchived={() => {
+              void refreshPaidStats();
+            }}
+            onInvoiceUnvoided={() => {
+              refreshProducts();
               void refreshPaidStats();
             }}
             onEditInvoice={async (inv) => {
@@ -526,7 +825,9 @@ export function AdminDashboard({
             }}
             showMonthFilter
             showSupervisorFilter={false}
-            showDeleteVoidedActions={canDeleteVoidedInvoices(role)}
+            showArchiveVoidedActions={canArchiveVoidedInvoices(role)}
+            canUnvoidInvoices={canUnvoidInvoices(role)}
+            canReversePayments={canReversePayments(role)}
             pageSize={10}
           />
 
@@ -534,6 +835,7 @@ export function AdminDashboard({
             <EditInvoiceModal
               invoice={editingInvoice}
               products={products.filter((p) => p.isActive && !isImportOnlyProduct(p) && (p.stock > 0 || p.stock === UNLIMITED_STOCK))}
+              canEditPrice={canEditPrice(role)}
               onClose={() => setEditingInvoice(null)}
               onSaved={() => {
                 refreshProducts();
@@ -545,8 +847,15 @@ export function AdminDashboard({
         </>
       )}
 
+      {activeView === "customers" && <CustomersSection />}
+
+      {activeView === "receivables" && <ReceivablesSection />}
+
       {activeView === "messages" && (
-        <MessagesSection products={products.filter((p) => p.isActive && !isImportOnlyProduct(p))} />
+        <MessagesSection
+          products={products.filter((p) => p.isActive && !isImportOnlyProduct(p))}
+          onUnreadChange={setWhatsAppUnread}
+        />
       )}
 
       {activeView === "news" && (role === "admin" || role === "support") && (
@@ -560,6 +869,14 @@ export function AdminDashboard({
       {activeView === "flightRequests" && (role === "admin" || role === "support") && (
         <FlightRequestsManagementSection />
       )}
+
+      {activeView === "commissions" && canManageCommissions(role) && (
+        <CommissionsSection products={products.filter((p) => !isImportOnlyProduct(p))} />
+      )}
+
+      {activeView === "cashClosing" && canManageCashClosings(role) && <CashClosingSection />}
+
+      {activeView === "audit" && canSeeAudit(role) && <AuditLogSection />}
       </div>
     </div>
 
@@ -578,49 +895,73 @@ export function AdminDashboard({
   );
 }
 
-/** WhatsApp message log entry for display. */
-interface WhatsAppLogEntry {
-  id: string;
-  direction: string;
-  customerPhone: string;
-  body: string | null;
-  status: string;
-  createdAt: string;
-  batchId: string | null;
-  productId: string | null;
-}
+/** Spanish labels for outbound WhatsApp message types. */
+const WHATSAPP_MESSAGE_TYPE_LABELS: Record<WhatsAppMessageType, string> = {
+  text: "Texto",
+  template: "Plantilla",
+  image: "Imagen",
+  document: "Documento",
+};
 
 /**
- * Messages (WhatsApp) section: single send, mass send to tour, and message interactions list.
+ * Messages (WhatsApp) section: single send, bulk campaigns (sent in the background), and the conversation inbox.
+ * Content can be free text (24-hour window only), an approved template, or an image/document by URL.
  * Requires WhatsApp Cloud API env (WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN).
  */
-function MessagesSection({ products }: { products: Product[] }) {
+function MessagesSection({
+  products,
+  onUnreadChange,
+}: {
+  products: Product[];
+  onUnreadChange?: (total: number) => void;
+}) {
   const [phone, setPhone] = useState("");
+  const [messageType, setMessageType] = useState<WhatsAppMessageType>("text");
   const [message, setMessage] = useState("");
-  const [productId, setProductId] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [templateLanguage, setTemplateLanguage] = useState("es");
+  const [templateParams, setTemplateParams] = useState("");
+  const [mediaUrl, setMediaUrl] = useState("");
+  const [caption, setCaption] = useState("");
+  const [filename, setFilename] = useState("");
   const [singleLoading, setSingleLoading] = useState(false);
-  const [tourLoading, setTourLoading] = useState(false);
   const [singleResult, setSingleResult] = useState<string | null>(null);
-  const [tourResult, setTourResult] = useState<{ sent: number; failed: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [interactions, setInteractions] = useState<WhatsAppLogEntry[]>([]);
-  const [interactionsLoading, setInteractionsLoading] = useState(false);
 
-  useEffect(() => {
-    let cancelled = false;
-    setInteractionsLoading(true);
-    fetch("/api/whatsapp/messages?limit=50")
-      .then((r) => (r.ok ? r.json() : []))
-      .then((data: WhatsAppLogEntry[]) => {
-        if (!cancelled) setInteractions(data);
-      })
-      .catch(() => { if (!cancelled) setInteractions([]); })
-      .finally(() => { if (!cancelled) setInteractionsLoading(false); });
-    return () => { cancelled = true; };
-  }, [singleResult, tourResult]);
+  /**
+   * Builds the message content for the send APIs, or null when required fields are empty.
+   */
+  function buildContent(): Record<string, unknown> | null {
+    switch (messageType) {
+      case "template":
+        if (!templateName.trim()) return null;
+        return {
+          type: "template",
+          template: {
+            name: templateName.trim(),
+            language: templateLanguage.trim() || "es",
+            parameters: templateParams.split("\n").map((p) => p.trim()).filter(Boolean),
+          },
+        };
+      case "image":
+      case "document":
+        if (!mediaUrl.trim()) return null;
+        return {
+          type: messageType,
+          mediaUrl: mediaUrl.trim(),
+          caption: caption.trim() || undefined,
+          filename: messageType === "document" ? filename.trim() || undefined : undefined,
+        };
+      default:
+        if (!message.trim()) return null;
+        return { type: "text", message: message.trim() };
+    }
+  }
+
+  const content = buildContent();
 
   async function handleSendSingle() {
-    if (!phone.trim() || !message.trim()) return;
+    if (!phone.trim() || !content) return;
     setError(null);
     setSingleResult(null);
     setSingleLoading(true);
@@ -628,10 +969,10 @@ function MessagesSection({ products }: { products: Product[] }) {
       const res = await fetch("/api/whatsapp/send", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ to: phone.trim(), message: message.trim() }),
+        body: JSON.stringify({ to: phone.trim(), ...content }),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data.error ?? "Error al enviar");
+      if (!res.ok) throw new Error(formatWhatsAppError(data.error ?? "Error al enviar", data.code));
       setSingleResult("Enviado.");
     } catch (e) {
       setError(e instanceof Error ? e.message : "Error al enviar");
@@ -640,26 +981,8 @@ function MessagesSection({ products }: { products: Product[] }) {
     }
   }
 
-  async function handleSendTour() {
-    if (!productId || !message.trim()) return;
-    setError(null);
-    setTourResult(null);
-    setTourLoading(true);
-    try {
-      const res = await fetch("/api/whatsapp/send-tour", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ tourId: productId, message: message.trim() }),
-      });
-      const data = await res.json();
-      if (!res.ok) throw new Error(data.error ?? "Error al enviar");
-      setTourResult({ sent: data.sent ?? 0, failed: data.failed ?? 0, total: data.total ?? 0 });
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Error al enviar");
-    } finally {
-      setTourLoading(false);
-    }
-  }
+  const inputClass =
+    "w-full bg-white border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500";
 
   return (
     <div className="space-y-6">
@@ -669,100 +992,112 @@ function MessagesSection({ products }: { products: Product[] }) {
           {error}
         </div>
       )}
-      <div className="grid gap-6 tablet:grid-cols-2">
-        <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
-          <h3 className="text-sm font-semibold text-jet mb-3">Enviar a un número</h3>
-          <input
-            type="text"
-            placeholder="Teléfono (ej. 18297188926)"
-            value={phone}
-            onChange={(e) => setPhone(e.target.value)}
-            className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-aqua-500"
-          />
-          <textarea
-            placeholder="Mensaje"
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            rows={3}
-            className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-aqua-500"
-          />
-          <button
-            type="button"
-            onClick={handleSendSingle}
-            disabled={singleLoading}
-            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
-          >
-            {singleLoading ? "Enviando..." : "Enviar"}
-          </button>
-          {singleResult && <p className="text-success text-sm mt-2">{singleResult}</p>}
-        </div>
-        <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
-          <h3 className="text-sm font-semibold text-jet mb-3">Enviar a participantes de un tour</h3>
-          <select
-            value={productId}
-            onChange={(e) => setProductId(e.target.value)}
-            className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-aqua-500"
-          >
-            <option value="">Seleccionar tour</option>
-            {products.map((p) => (
-              <option key={p.id} value={p.id}>{p.name}</option>
+      <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold text-jet">Contenido</h3>
+          <div className="flex gap-1">
+            {WHATSAPP_MESSAGE_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setMessageType(type)}
+                className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                  messageType === type ? "bg-aqua-700 text-white" : "bg-white border border-gold-200/50 text-jet/80 hover:bg-pearl"
+                }`}
+              >
+                {WHATSAPP_MESSAGE_TYPE_LABELS[type]}
+              </button>
             ))}
-          </select>
-          <textarea
-            placeholder="Mensaje (mismo para todos)"
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            rows={3}
-            className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-aqua-500"
-          />
-          <button
-            type="button"
-            onClick={handleSendTour}
-            disabled={tourLoading || !productId}
-            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
-          >
-            {tourLoading ? "Enviando..." : "Enviar a participantes"}
-          </button>
-          {tourResult && (
-            <p className="text-jet/80 text-sm mt-2">
-              Enviados: {tourResult.sent}, fallidos: {tourResult.failed}, total: {tourResult.total}
-            </p>
-          )}
+          </div>
         </div>
-      </div>
-      <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 mt-6">
-        <h3 className="text-sm font-semibold text-jet mb-3">Interacciones (mensajes recientes)</h3>
-        {interactionsLoading ? (
-          <p className="text-jet/50 text-sm">Cargando...</p>
-        ) : interactions.length === 0 ? (
-          <p className="text-jet/50 text-sm">No hay mensajes registrados.</p>
-        ) : (
-          <div className="overflow-x-auto max-h-64 overflow-y-auto">
-            <table className="w-full text-sm text-left">
-              <thead className="text-jet/60 border-b border-gold-200/50">
-                <tr>
-                  <th className="py-2 pr-2">Fecha</th>
-                  <th className="py-2 pr-2">Teléfono</th>
-                  <th className="py-2 pr-2">Dirección</th>
-                  <th className="py-2 pr-2">Estado</th>
-                  <th className="py-2">Mensaje</th>
-                </tr>
-              </thead>
-              <tbody>
-                {interactions.map((row) => (
-                  <tr key={row.id} className="border-b border-gold-200/30">
-                    <td className="py-1.5 pr-2 text-jet/80">{new Date(row.createdAt).toLocaleString("es")}</td>
-                    <td className="py-1.5 pr-2">{row.customerPhone}</td>
-                    <td className="py-1.5 pr-2">{row.direction === "inbound" ? "Entrante" : "Saliente"}</td>
-                    <td className="py-1.5 pr-2">{row.status}</td>
-                    <td className="py-1.5 truncate max-w-[200px]">{row.body ?? "—"}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+        {messageType === "text" && (
+          <>
+            <textarea
+              placeholder="Mensaje"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+              className={inputClass}
+            />
+            <p className="text-xs text-jet/60">
+              WhatsApp solo entrega texto libre si el cliente escribió en las últimas 24 horas. Para clientes anteriores use una plantilla.
+            </p>
+          </>
+        )}
+        {messageType === "template" && (
+          <div className="grid gap-3 tablet:grid-cols-[1fr_8rem]">
+            <input
+              type="text"
+              placeholder="Nombre de la plantilla (ej. recordatorio_tour)"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Idioma"
+              value={templateLanguage}
+              onChange={(e) => setTemplateLanguage(e.target.value)}
+              className={inputClass}
+            />
+            <textarea
+              placeholder={"Parámetros del cuerpo, uno por línea ({{1}}, {{2}}, ...)"}
+              value={templateParams}
+              onChange={(e) => setTemplateParams(e.target.value)}
+              rows={3}
+              className={`${inputClass} tablet:col-span-2`}
+            />
           </div>
         )}
+        {(messageType === "image" || messageType === "document") && (
+          <div className="grid gap-3 tablet:grid-cols-2">
+            <input
+              type="url"
+              placeholder={messageType === "image" ? "URL pública de la imagen (JPG/PNG)" : "URL pública del documento (PDF)"}
+              value={mediaUrl}
+              onChange={(e) => setMediaUrl(e.target.value)}
+              className={`${inputClass} tablet:col-span-2`}
+            />
+            <input
+              type="text"
+              placeholder="Texto (opcional)"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              className={inputClass}
+            />
+            {messageType === "document" && (
+              <input
+                type="text"
+                placeholder="Nombre del archivo (ej. Itinerario.pdf)"
+                value={filename}
+                onChange={(e) => setFilename(e.target.value)}
+                className={inputClass}
+              />
+            )}
+          </div>
+        )}
+      </div>
+      <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+        <h3 className="text-sm font-semibold text-jet mb-3">Enviar a un número</h3>
+        <input
+          type="text"
+          placeholder="Teléfono (ej. 18297188926)"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          className={`${inputClass} mb-3`}
+        />
+        <button
+          type="button"
+          onClick={handleSendSingle}
+          disabled={singleLoading || !content || !phone.trim()}
+          className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+        >
+          {singleLoading ? "Enviando..." : "Enviar"}
+        </button>
+        {singleResult && <p className="text-success text-sm mt-2">{singleResult}</p>}
       </div>
+      <WhatsAppCampaignsSection products={products} content={content} />
+      <WhatsAppInboxSection onUnreadChange={onUnreadChange} />
     </div>
   );
 }
@@ -876,7 +1211,7 @@ function ProductCard({
         </div>
         {showStock && (
           <div className="bg-pearl rounded-lg p-2.5 text-center tablet-landscape:p-1.5">
-            <p className="text-jet/50 text-xs tablet-landscape:text-[10px]">Plazas</p>
+            <p className="text-jet/50 text-xs tablet-landscape:text-[10px]">Plazas por salida</p>
             <p className={`font-medium text-sm tablet-landscape:text-xs ${product.stock === 0 ? "text-danger" : "text-jet"}`}>
               {product.stock}
             </p>
@@ -888,6 +1223,18 @@ function ProductCard({
         </div>
       </div>
 
+      {/* Upcoming departures: booked / capacity per date */}
+      {product.departures && product.departures.length > 0 && (
+        <div className="mb-4 tablet-landscape:mb-2">
+          <p className="text-jet/50 text-xs tablet-landscape:text-[10px] mb-1">Próximas salidas</p>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {product.departures.map((departure) => (
+              <DepartureCapacityRow key={departure.id} tourId={product.id} departure={departure} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Edit + Delete buttons */}
       <div className="flex gap-2 tablet-landscape:gap-1.5">
         <button
@@ -910,6 +1257,64 @@ function ProductCard({
   );
 }
 
+/**
+ * One departure in the admin tour card: date, booked seats and editable capacity ("-" = unlimited).
+ * Saves capacity through PATCH /api/products/[id]/stock on blur.
+ */
+function DepartureCapacityRow({
+  tourId,
+  departure,
+}: {
+  tourId: string;
+  departure: NonNullable<Product["departures"]>[number];
+}) {
+  const [capacity, setCapacity] = useState(departure.capacity);
+  const [draft, setDraft] = useState(departure.capacity === UNLIMITED_STOCK ? "-" : String(departure.capacity));
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSave() {
+    const value = draft.trim() === "-" ? UNLIMITED_STOCK : parseInt(draft, 10);
+    if (Number.isNaN(value) || value === capacity) {
+      setDraft(capacity === UNLIMITED_STOCK ? "-" : String(capacity));
+      return;
+    }
+    setError(null);
+    try {
+      const res = await fetch(`/api/products/${tourId}/stock`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ departureId: departure.id, capacity: value }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Error al actualizar");
+      setCapacity(value);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al actualizar");
+      setDraft(capacity === UNLIMITED_STOCK ? "-" : String(capacity));
+    }
+  }
+
+  const isFull = capacity !== UNLIMITED_STOCK && departure.booked >= capacity;
+  return (
+    <div title={error ?? undefined} className="flex items-center justify-between gap-2 bg-pearl rounded px-2 py-1 text-xs">
+      <span className="text-jet">{formatDate(departure.date)}</span>
+      <span className="flex items-center gap-1">
+        <span className={isFull ? "text-danger font-medium" : "text-gold-500 font-medium"}>{departure.booked}</span>
+        <span className="text-jet/40">/</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={handleSave}
+          className={`w-10 bg-white border rounded px-1 py-0.5 text-center text-jet focus:outline-none focus:ring-1 focus:ring-aqua-500 ${error ? "border-danger" : "border-gold-200/50"}`}
+          aria-label={`Capacidad ${formatDate(departure.date)}`}
+        />
+      </span>
+    </div>
+  );
+}
+
 /**
  * New product form component.
  * Mobile-optimized with full-width inputs and larger touch targets.
@@ -930,6 +1335,7 @@ function ProductForm({
   const [tourDateYyyyMmDd, setTourDateYyyyMmDd] = useState("");
   const [isRecurringWeekly, setIsRecurringWeekly] = useState(false);
   const [recurringDay, setRecurringDay] = useState<DayOfWeek>(0);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationTier[] | null>(null);
 
   /**
    * Uploads a single file and appends its URL to imageUrls.
@@ -989,11 +1395,13 @@ function ProductForm({
       description: formData.get("description") as string,
       price: parseInt(formData.get("price") as string) || 0,
       childPrice,
+      currency: formData.get("currency") as string,
       stock,
       sequence: 0,
       lowSeatsThreshold,
       tourDate,
       recurringWeeklyDay: isRecurringWeekly ? recurringDay : null,
+      cancellationPolicy,
       imageUrls: imageUrls.length ? imageUrls : undefined,
     };
 
@@ -1068,7 +1476,7 @@ function ProductForm({
               onChange={(e) => setIsRecurringWeekly(e.target.checked)}
               className="rounded border-gold-200 text-aqua-600 focus:ring-aqua-500"
             />
-            <span className="text-sm text-jet/80">Excursión semanal (reiniciar plazas cada semana)</span>
+            <span className="text-sm text-jet/80">Excursión semanal (genera una salida cada semana)</span>
           </label>
           {isRecurringWeekly && (
             <div className="pl-6">
@@ -1083,13 +1491,26 @@ function ProductForm({
                   <option key={d} value={d}>{getRecurringDayName(d)}</option>
                 ))}
               </select>
-              <p className="text-xs text-jet/50 mt-1">Tras esa fecha, las plazas se reinician automáticamente para la siguiente semana.</p>
+              <p className="text-xs text-jet/50 mt-1">Se crean automáticamente las salidas de las próximas semanas, cada una con su propia capacidad.</p>
             </div>
           )}
         </div>
-        <FormField label="Precio Adultos (RD$)" name="price" type="number" required />
         <div>
-          <label htmlFor="create-childPrice" className="block text-sm font-medium text-jet/80 mb-1">Precio Niños (RD$)</label>
+          <label htmlFor="create-currency" className="block text-sm font-medium text-jet/80 mb-1">Moneda</label>
+          <select
+            id="create-currency"
+            name="currency"
+            defaultValue={BASE_CURRENCY}
+            className="w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500"
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>{CURRENCY_LABELS[c]}</option>
+            ))}
+          </select>
+        </div>
+        <FormField label="Precio Adultos" name="price" type="number" required />
+        <div>
+          <label htmlFor="create-childPrice" className="block text-sm font-medium text-jet/80 mb-1">Precio Niños</label>
           <input
             id="create-childPrice"
             name="childPrice"
@@ -1121,6 +1542,10 @@ function ProductForm({
           />
         </div>
 
+        <div className="mobile-landscape:col-span-2 tablet:col-span-2">
+          <CancellationPolicyFields value={cancellationPolicy} onChange={setCancellationPolicy} />
+        </div>
+
         {/* Multiple image upload */}
         <div className="mobile-landscape:col-span-2 tablet:col-span-2">
           <label className="block text-sm font-medium text-jet/80 mb-1.5">
@@ -1209,6 +1634,9 @@ function EditProductForm({
   const productRecurring = (product as Product & { recurringWeeklyDay?: number | null }).recurringWeeklyDay;
   const [isRecurringWeekly, setIsRecurringWeekly] = useState(productRecurring != null);
   const [recurringDay, setRecurringDay] = useState<DayOfWeek>((productRecurring ?? 0) as DayOfWeek);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationTier[] | null>(
+    product.cancellationPolicy ? parseCancellationPolicy(product.cancellationPolicy) : null
+  );
 
   /**
    * Uploads selected files and appends URLs to imageUrls.
@@ -1265,12 +1693,14 @@ function EditProductForm({
       description: formData.get("description") as string,
       price: parseInt(formData.get("price") as string) || 0,
       childPrice,
+      currency: formData.get("currency") as string,
       stock,
       sold: product.sold,
       sequence: productExt.sequence ?? 0,
       lowSeatsThreshold,
       tourDate,
       recurringWeeklyDay: isRecurringWeekly ? recurringDay : null,
+      cancellationPolicy,
       imageUrls,
     };
 
@@ -1342,7 +1772,7 @@ function EditProductForm({
               onChange={(e) => setIsRecurringWeekly(e.target.checked)}
               className="rounded border-gold-200 text-aqua-600 focus:ring-aqua-500"
             />
-            <span className="text-sm text-jet/80">Excursión semanal (reiniciar plazas cada semana)</span>
+            <span className="text-sm text-jet/80">Excursión semanal (genera una salida cada semana)</span>
           </label>
           {isRecurringWeekly && (
             <div className="pl-6">
@@ -1357,13 +1787,27 @@ function EditProductForm({
                   <option key={d} value={d}>{getRecurringDayName(d)}</option>
                 ))}
               </select>
-              <p className="text-xs text-jet/50 mt-1">Tras esa fecha, las plazas se reinician automáticamente para la siguiente semana.</p>
+              <p className="text-xs text-jet/50 mt-1">Se crean automáticamente las salidas de las próximas semanas, cada una con su propia capacidad.</p>
             </div>
           )}
         </div>
-        <FormField label="Precio Adultos (RD$)" name="price" type="number" defaultValue={product.price.toString()} required />
         <div>
-          <label htmlFor="edit-childPrice" className="block text-sm font-medium text-jet/80 mb-1">Precio Niños (RD$)</label>
+          <label htmlFor="edit-currency" className="block text-sm font-medium text-jet/80 mb-1">Moneda</label>
+          <select
+            id="edit-currency"
+            name="currency"
+            defaultValue={product.currency}
+            className="w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500"
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>{CURRENCY_LABELS[c]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-jet/50 mt-1">Las reservas ya hechas conservan su moneda.</p>
+        </div>
+        <FormField label="Precio Adultos" name="price" type="number" defaultValue={product.price.toString()} required />
+        <div>
+          <label htmlFor="edit-childPrice" className="block text-sm font-medium text-jet/80 mb-1">Precio Niños</label>
           <input
             id="edit-childPrice"
             name="childPrice"
@@ -1398,6 +1842,10 @@ function EditProductForm({
           />
         </div>
 
+        <div className="mobile-landscape:col-span-2 tablet:col-span-2">
+          <CancellationPolicyFields value={cancellationPolicy} onChange={setCancellationPolicy} />
+        </div>
+
         {/* Multiple image upload */}
         <div className="mobile-landscape:col-span-2 tablet:col-span-2">
           <label className="block text-sm font-medium text-jet/80 mb-1.5">Imágenes del Tour o Viaje</label>
@@ -1670,8 +2118,12 @@ interface EditInvoiceRow {
   productId: string;
   productName: string;
   productLine: string;
+  passengerType: "adult" | "kid";
   quantity: number;
   unitPrice: number;
+  /** Tour price per seat for passengerType (what the line was sold at); a different unitPrice is a manual price. */
+  listPrice: number;
+  priceOverrideReason?: string;
   total: number;
   abono: number;
   pendiente: number;
@@ -1679,30 +2131,55 @@ interface EditInvoiceRow {
 
 /**
  * Modal to edit an existing invoice: add/remove products, change quantity/price per line.
+ * Lines left without seats by a passenger cancellation (retained fee only) are not editable and are not listed.
  */
 function EditInvoiceModal({
   invoice,
   products,
+  canEditPrice,
   onClose,
   onSaved,
 }: {
-  invoice: { batchId: string; items: Array<{ id: string; tourId: string; quantity: number; total: number; abono?: number | null; pendiente?: number | null; tour?: { name?: string; line?: string } }> };
+  invoice: {
+    batchId: string;
+    items: Array<{
+      id: string;
+      tourId: string;
+      quantity: number;
+      total: number;
+      discount?: number;
+      passengerType?: "adult" | "kid";
+      listPrice?: number | null;
+      priceOverrideReason?: string | null;
+      currency?: string;
+      abono?: number | null;
+      pendiente?: number | null;
+      tour?: { name?: string; line?: string; price?: number; childPrice?: number | null };
+    }>;
+  };
   products: Product[];
+  canEditPrice: boolean;
   onClose: () => void;
   onSaved: () => void;
 }) {
   const [rows, setRows] = useState<EditInvoiceRow[]>(
-    invoice.items.map((i) => {
+    invoice.items.filter((i) => i.quantity > 0).map((i) => {
       const abono = i.abono ?? 0;
       const total = i.total;
       const pendiente = Math.max(0, total - abono);
+      const passengerType = i.passengerType ?? "adult";
+      const unitPrice = Math.round((total + (i.discount ?? 0)) / i.quantity);
+      const tourPrice = passengerType === "kid" ? i.tour?.childPrice ?? i.tour?.price : i.tour?.price;
       return {
         id: i.id,
         productId: i.tourId,
         productName: i.tour?.name ?? "Producto",
         productLine: i.tour?.line ?? "",
+        passengerType,
         quantity: i.quantity,
-        unitPrice: i.quantity ? Math.round(total / i.quantity) : 0,
+        unitPrice,
+        listPrice: i.listPrice ?? tourPrice ?? unitPrice,
+        priceOverrideReason: i.priceOverrideReason ?? undefined,
         total,
         abono: Math.min(abono, total),
         pendiente,
@@ -1716,7 +2193,9 @@ function EditInvoiceModal({
   const dropdownToursRef = useRef<HTMLDivElement>(null);
 
   const subtotal = rows.reduce((sum, r) => sum + r.total, 0);
-  const productsWithCatalog = products as ProductWithCatalog[];
+  // Lines can only be added from tours in the invoice's currency
+  const currency = invoice.items[0]?.currency ?? BASE_CURRENCY;
+  const productsWithCatalog = (products as ProductWithCatalog[]).filter((p) => p.currency === currency);
   const filterBySearch = (list: ProductWithCatalog[], term: string) =>
     term.trim()
       ? list.filter(
@@ -1738,17 +2217,20 @@ function EditInvoiceModal({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  /** Adds a product. When unitPrice is provided (e.g. special offer), uses that; else product.price. */
+  /** Adds a product at its adult price, or at its kid price when unitPrice is the tour's childPrice. */
   function addProduct(productId: string, unitPrice?: number) {
-    const product = products.find((p) => p.id === productId);
+    const product = products.find((p) => p.id === productId) as ProductWithCatalog | undefined;
     if (!product) return;
     const price = unitPrice ?? product.price;
+    const passengerType: "adult" | "kid" = product.childPrice != null && price === product.childPrice ? "kid" : "adult";
 
-    const existing = rows.find((r) => r.productId === productId && r.unitPrice === price);
+    const isSameLine = (r: EditInvoiceRow) =>
+      r.productId === productId && r.passengerType === passengerType && r.unitPrice === price;
+    const existing = rows.find(isSameLine);
     if (existing) {
       setRows(
         rows.map((r) => {
-          if (r.productId !== productId || r.unitPrice !== price) return r;
+          if (!isSameLine(r)) return r;
           const newQty = r.quantity + 1;
           const total = newQty * r.unitPrice;
           const abono = Math.min(r.abono, total);
@@ -1762,8 +2244,10 @@ function EditInvoiceModal({
           productId: product.id,
           productName: product.name,
           productLine: product.line,
+          passengerType,
           quantity: 1,
           unitPrice: price,
+          listPrice: price,
           total: price,
           abono: 0,
           pendiente: price, // total - abono
@@ -1818,23 +2302,23 @@ function EditInvoiceModal({
     );
   }
 
-  /** Updates abono; pendiente is auto-calculated as total - abono. */
-  function updateAbono(index: number, abono: number) {
-    setRows(
-      rows.map((r, i) => {
-        if (i !== index) return r;
-        const capped = Math.min(r.total, Math.max(0, abono));
-        return { ...r, abono: capped, pendiente: Math.max(0, r.total - capped) };
-      })
-    );
+  function updatePriceReason(index: number, reason: string) {
+    setRows(rows.map((r, i) => (i === index ? { ...r, priceOverrideReason: reason } : r)));
   }
 
+  const isPriceOverride = (row: EditInvoiceRow) => row.unitPrice !== row.listPrice;
+
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (rows.length === 0) {
       setError("Debe haber al menos un producto.");
       return;
     }
+    if (rows.some((r) => isPriceOverride(r) && !r.priceOverrideReason?.trim())) {
+      setError("Indique el motivo del cambio de precio");
+      return;
+    }
     setIsSubmitting(true);
     setError(null);
     try {
@@ -1842,14 +2326,19 @@ function EditInvoiceModal({
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          items: rows.map((r) => ({
-            ...(r.id ? { id: r.id } : {}),
-            tourId: r.productId,
-            quantity: r.quantity,
-            total: r.quantity * r.unitPrice,
-            abono: r.abono || undefined,
-            pendiente: r.pendiente || undefined,
-          })),
+          // Seats by passenger type, with the unit price only when it differs from the tour's
+          items: rows.map((r) => {
+            const isKid = r.passengerType === "kid";
+            return {
+              ...(r.id ? { id: r.id } : {}),
+              tourId: r.productId,
+              adults: isKid ? 0 : r.quantity,
+              kids: isKid ? r.quantity : 0,
+              ...(isPriceOverride(r)
+                ? { [isKid ? "childPrice" : "adultPrice"]: r.unitPrice, priceOverrideReason: r.priceOverrideReason?.trim() }
+                : {}),
+            };
+          }),
         }),
       });
       if (!res.ok) {
@@ -1962,34 +2451,30 @@ function EditInvoiceModal({
                         />
                       </div>
                       <div>
-                        <label className="block text-xs text-jet/60 mb-0.5">Precio unit. (RD$)</label>
+                        <label className="block text-xs text-jet/60 mb-0.5">Precio unit. ({currency})</label>
                         <div className="flex items-center gap-1.5">
                           <input
                             type="number"
                             min={0}
                             value={row.unitPrice}
                             onChange={(e) => updateUnitPrice(index, parseInt(e.target.value) || 0)}
-                            className="w-full bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm"
+                            className="w-full bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm read-only:bg-pearl/70 read-only:cursor-default"
+                            readOnly={!canEditPrice}
+                            title={canEditPrice ? undefined : "Precio del tour"}
                           />
-                          {(() => {
-                            const p = products.find((x) => x.id === row.productId) as ProductWithCatalog | undefined;
-                            const isKid = p?.childPrice != null && row.unitPrice === p.childPrice;
-                            return (
-                              <span className={`text-xs font-medium flex-shrink-0 ${isKid ? "text-amber-600" : "text-jet/70"}`}>
-                                ({isKid ? "Niño" : "Adulto"})
-                              </span>
-                            );
-                          })()}
+                          <span className={`text-xs font-medium flex-shrink-0 ${row.passengerType === "kid" ? "text-amber-600" : "text-jet/70"}`}>
+                            ({row.passengerType === "kid" ? "Niño" : "Adulto"})
+                          </span>
                         </div>
                       </div>
                       <div>
                         <label className="block text-xs text-jet/60 mb-0.5">Abono</label>
                         <input
                           type="number"
-                          min={0}
                           value={row.abono || ""}
-                          onChange={(e) => updateAbono(index, parseInt(e.target.value) || 0)}
-                          className="w-full bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm"
+                          readOnly
+                          className="w-full bg-pearl/70 border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm cursor-default"
+                          title="Los abonos se registran en Pagos (detalle de la factura)"
                         />
                       </div>
                       <div>
@@ -2003,11 +2488,26 @@ function EditInvoiceModal({
                         />
                       </div>
                     </div>
-                    <p className="text-jet font-semibold text-sm mt-2">Total línea: RD$ {row.total.toLocaleString()}</p>
+                    {isPriceOverride(row) && (
+                      <div className="mt-2">
+                        <label className="block text-xs text-jet/60 mb-0.5">
+                          Motivo del cambio de precio (tour: {currency} {row.listPrice.toLocaleString()}) <span className="text-danger">*</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={row.priceOverrideReason ?? ""}
+                          onChange={(e) => updatePriceReason(index, e.target.value)}
+                          maxLength={300}
+                          placeholder="Ej. descuento de grupo autorizado"
+                          className="w-full bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm"
+                        />
+                      </div>
+                    )}
+                    <p className="text-jet font-semibold text-sm mt-2">Total línea: {currency} {row.total.toLocaleString()}</p>
                   </div>
               ))}
             </div>
-            <p className="mt-4 text-jet font-semibold">Subtotal: RD$ {subtotal.toLocaleString()}</p>
+            <p className="mt-4 text-jet font-semibold">Subtotal: {currency} {subtotal.toLocaleString()}</p>
           </div>
           <div className="p-4 border-t border-gold-200/50 flex gap-2 justify-end">
             <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-jet bg-jet/10 hover:bg-jet/20">
@@ -2030,6 +2530,26 @@ function EditInvoiceModal({
 /** Product type with optional catalog fields for sale form. */
 type ProductWithCatalog = Product & { sequence?: number; lowSeatsThreshold?: number | null; childPrice?: number | null };
 
+/** YYYY-MM-DD of a departure date (UTC, departures are stored at noon UTC). */
+function departureDay(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Seats left for a tour on a date: from its loaded departure, else the tour's default seats per departure.
+ * @param product - Tour with upcoming departures (when loaded)
+ * @param yyyyMmDd - Tour date (Fecha del Tour)
+ * @returns Seats left; UNLIMITED_STOCK (-1) when always available
+ */
+function getSeatsForDate(product: Product, yyyyMmDd: string): number {
+  const departure = yyyyMmDd
+    ? product.departures?.find((d) => departureDay(d.date) === yyyyMmDd)
+    : undefined;
+  if (!departure) return product.stock;
+  if (departure.capacity === UNLIMITED_STOCK) return UNLIMITED_STOCK;
+  return Math.max(0, departure.capacity - departure.booked);
+}
+
 /** Option for product picker: one row per price type (adult and/or kid). */
 interface ProductOption {
   product: ProductWithCatalog;
@@ -2093,7 +2613,7 @@ function ProductDropdownPanel({
                   </div>
                   <div className="text-right flex-shrink-0">
                     <p className={`font-semibold text-sm ${isKid ? "text-amber-600" : "text-jet"}`}>
-                      RD$ {price.toLocaleString()} <span className="font-normal text-jet/70">({isKid ? "Niño" : "Adulto"})</span>
+                      {p.currency} {price.toLocaleString()} <span className="font-normal text-jet/70">({isKid ? "Niño" : "Adulto"})</span>
                     </p>
                     <p className={`text-xs ${outOfStock ? "text-danger" : "text-jet/50"}`}>
                       {outOfStock ? "Sin plazas" : p.stock === UNLIMITED_STOCK ? "Siempre disponible" : `Plazas: ${p.stock}`}
@@ -2131,16 +2651,64 @@ function buildProductOptions(products: ProductWithCatalog[]): ProductOption[] {
   return options;
 }
 
+/** SaleForm customer fields that search the customer directory while typing. */
+type CustomerLookupField = "customerName" | "customerPhone" | "cedula";
+
+/** Minimum characters typed before searching customers. */
+const CUSTOMER_LOOKUP_MIN_CHARS = 3;
+
+/**
+ * Dropdown of customer directory matches under a SaleForm field.
+ * Uses onMouseDown so the choice lands before the input's blur closes the list.
+ */
+function CustomerSuggestions({
+  customers,
+  onSelect,
+}: {
+  customers: CustomerDTO[];
+  onSelect: (customer: CustomerDTO) => void;
+}) {
+  if (customers.length === 0) return null;
+  return (
+    <ul className="absolute z-20 left-0 right-0 mt-1 bg-porcelain border border-gold-200/50 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+      {customers.map((c) => (
+        <li key={c.id}>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onSelect(c);
+            }}
+            className="w-full text-left px-3 py-2 hover:bg-pearl border-b border-gold-200/30 last:border-b-0"
+          >
+            <span className="block text-sm text-jet font-medium">{c.name || "Sin nombre"}</span>
+            <span className="block text-xs text-jet/60">
+              {[c.phone ? formatPhoneForDisplay(c.phone) : null, c.cedula, c.provincia]
+                .filter(Boolean)
+                .join(" · ")}
+              {c.bookingsCount > 0 && ` · ${c.bookingsCount} reserva${c.bookingsCount === 1 ? "" : "s"}`}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 /**
  * Sale form component for creating new sales.
  * Allows selecting products, quantities, and all customer/sale info.
+ * Typing a name, phone or cédula suggests known customers; picking one fills the customer fields.
  */
 function SaleForm({
   products,
+  canEditPrice,
   onClose,
   onComplete,
 }: {
   products: Product[];
+  /** Whether unit prices can be changed from the tour's price (with a reason). */
+  canEditPrice: boolean;
   onClose: () => void;
   onComplete: (sale: CompletedSale) => void;
 }) {
@@ -2157,6 +2725,55 @@ function SaleForm({
   const [provincia, setProvincia] = useState("");
   const [municipio, setMunicipio] = useState("");
 
+  // Customer directory lookup while typing name/phone/cédula
+  const [customerLookup, setCustomerLookup] = useState<{ field: CustomerLookupField; value: string } | null>(null);
+  const [customerMatches, setCustomerMatches] = useState<CustomerDTO[]>([]);
+
+  useEffect(() => {
+    if (!customerLookup || customerLookup.value.trim().length < CUSTOMER_LOOKUP_MIN_CHARS) return;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ search: customerLookup.value.trim(), limit: "5" });
+      fetch(`/api/customers?${params.toString()}`)
+        .then((r) => (r.ok ? r.json() : { customers: [] }))
+        .then((data: { customers?: CustomerDTO[] }) => setCustomerMatches(data.customers ?? []))
+        .catch(() => setCustomerMatches([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [customerLookup]);
+
+  /**
+   * Updates a customer field and searches the directory with the typed value.
+   */
+  function handleCustomerFieldChange(field: CustomerLookupField, value: string) {
+    if (field === "customerName") setCustomerName(value);
+    else if (field === "customerPhone") setCustomerPhone(value);
+    else setCedula(value);
+    setCustomerLookup({ field, value });
+  }
+
+  /**
+   * Fills the customer fields from a directory entry.
+   */
+  function handleSelectCustomer(customer: CustomerDTO) {
+    setCustomerName(customer.name);
+    if (customer.phone) setCustomerPhone(formatPhoneForDisplay(customer.phone));
+    setCedula(customer.cedula ?? "");
+    setProvincia(customer.provincia ?? "");
+    setMunicipio(customer.municipio ?? "");
+    setCustomerAddress(customer.address ?? "");
+    setCustomerLookup(null);
+    setCustomerMatches([]);
+    for (const field of ["customerName", "customerPhone", "cedula", "provincia", "municipio"]) {
+      clearFieldError(field);
+    }
+  }
+
+  /** Suggestions for a field, shown only while it is the one being typed in. */
+  const suggestionsFor = (field: CustomerLookupField) =>
+    customerLookup?.field === field && customerLookup.value.trim().length >= CUSTOMER_LOOKUP_MIN_CHARS ? (
+      <CustomerSuggestions customers={customerMatches} onSelect={handleSelectCustomer} />
+    ) : null;
+
   // Computed location options based on selections
   const provinciasOptions = useMemo(() => getProvincias(), []);
 
@@ -2176,9 +2793,20 @@ function SaleForm({
   const [personasAdditional, setPersonasAdditional] = useState<PersonaAdditional[]>([]);
   const [notes, setNotes] = useState("");
   const [isPaid, setIsPaid] = useState(false);
+  /** Temporary hold: seats reserved without abono, released automatically after holdHours. */
+  const [isHold, setIsHold] = useState(false);
+  const [holdHours, setHoldHours] = useState(24);
 
   /** Single abono (deposit) for the whole reservation; distributed across lines on submit. */
   const [reservationAbono, setReservationAbono] = useState(0);
+  /** Method of the initial abono (recorded as the first payment). */
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+
+  /** Promo code as typed; appliedPromo is its quote for the items it was checked with. */
+  const [promoCode, setPromoCode] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<{ quote: PromoQuote; itemsKey: string } | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
 
   // Form state
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -2194,7 +2822,13 @@ function SaleForm({
             p.line.toLowerCase().includes(term.toLowerCase())
         )
       : list;
-  const filteredTours = filterBySearch(productsWithCatalog, searchTerm);
+  // One currency per invoice: once a tour is added, only tours in its currency can be added
+  const saleCurrency =
+    products.find((p) => p.id === items[0]?.productId)?.currency ?? BASE_CURRENCY;
+  const filteredTours = filterBySearch(
+    items.length > 0 ? productsWithCatalog.filter((p) => p.currency === saleCurrency) : productsWithCatalog,
+    searchTerm
+  );
   const tourOptions = buildProductOptions(filteredTours);
 
   useEffect(() => {
@@ -2208,8 +2842,50 @@ function SaleForm({
   }, []);
 
   const subtotal = items.reduce((sum, item) => sum + item.total, 0);
-  const totalAbono = Math.min(reservationAbono, subtotal);
-  const totalPendiente = Math.max(0, subtotal - totalAbono);
+  // A quote only holds for the lines it was checked with; changing them asks to apply the code again
+  const itemsKey = JSON.stringify(items.map((i) => [i.productId, i.priceLabel, i.quantity, i.unitPrice]));
+  const activePromo = appliedPromo?.itemsKey === itemsKey ? appliedPromo.quote : null;
+  const promoDiscount = activePromo?.discount ?? 0;
+  const netTotal = subtotal - promoDiscount;
+  const totalAbono = isHold ? 0 : Math.min(reservationAbono, netTotal);
+  const totalPendiente = Math.max(0, netTotal - totalAbono);
+
+  /**
+   * Seats of an item as sent to the API: by passenger type, with the unit price only when it was changed.
+   */
+  function toSeatItem(item: SaleItem) {
+    const isKid = item.priceLabel === "kid";
+    return {
+      tourId: item.productId,
+      adults: isKid ? 0 : item.quantity,
+      kids: isKid ? item.quantity : 0,
+      ...(isPriceOverride(item) ? { [isKid ? "childPrice" : "adultPrice"]: item.unitPrice } : {}),
+    };
+  }
+
+  /**
+   * Checks the typed promo code against the current lines and shows its discount.
+   */
+  async function handleApplyPromo() {
+    if (!promoCode.trim() || items.length === 0) return;
+    setIsCheckingPromo(true);
+    setPromoError(null);
+    try {
+      const res = await fetch("/api/promo-codes/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: promoCode.trim(), items: items.map(toSeatItem) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Código no válido");
+      setAppliedPromo({ quote: data as PromoQuote, itemsKey });
+    } catch (err) {
+      setAppliedPromo(null);
+      setPromoError(err instanceof Error ? err.message : "Código no válido");
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  }
 
   /**
    * Distributes a single abono amount across line totals (each line gets up to its total).
@@ -2231,7 +2907,7 @@ function SaleForm({
   /**
    * Adds a product to the sale. When unitPrice is provided (e.g. special offer), uses that price;
    * otherwise uses product.price. Same product with different prices creates separate line items.
-   * If the product has tourDate and "Fecha del Tour" is empty, pre-fills it from the tour.
+   * If "Fecha del Tour" is empty, pre-fills it from the tour's next departure with seats (or tourDate).
    */
   function handleAddProduct(productId: string, unitPrice?: number) {
     const product = products.find((p) => p.id === productId);
@@ -2240,7 +2916,7 @@ function SaleForm({
 
     const existing = items.find((i) => i.productId === productId && i.unitPrice === price);
     if (existing) {
-      if (product.stock === UNLIMITED_STOCK || existing.quantity < product.stock) {
+      if (hasSeatsFor(product, 1)) {
         setItems(
           items.map((i) => {
             if (i.productId !== productId || i.unitPrice !== price) return i;
@@ -2267,21 +2943,37 @@ function SaleForm({
         },
       ]);
       // Pre-fill Fecha del Tour from the selected tour when empty
-      const p = product as Product & { tourDate?: Date | string | null };
-      if (p.tourDate && !fechaVisita) {
-        const d = typeof p.tourDate === "string" ? new Date(p.tourDate) : p.tourDate;
-        if (!isNaN(d.getTime())) setFechaVisita(d.toISOString().slice(0, 10));
+      if (!fechaVisita) {
+        const nextDeparture = product.departures?.find(
+          (d) => d.capacity === UNLIMITED_STOCK || d.booked < d.capacity
+        );
+        const d = nextDeparture ? new Date(nextDeparture.date) : product.tourDate ? new Date(product.tourDate) : null;
+        if (d && !isNaN(d.getTime())) setFechaVisita(d.toISOString().slice(0, 10));
       }
     }
   }
 
+  /**
+   * True when the tour's departure on Fecha del Tour has room for `extra` more seats,
+   * counting adult and kid lines of the same tour together.
+   */
+  function hasSeatsFor(product: Product, extra: number): boolean {
+    const seats = getSeatsForDate(product, fechaVisita);
+    if (seats === UNLIMITED_STOCK) return true;
+    const inForm = items
+      .filter((i) => i.productId === product.id)
+      .reduce((sum, i) => sum + i.quantity, 0);
+    return inForm + extra <= seats;
+  }
+
   /**
    * Updates quantity for an item. Matches by productId + unitPrice so adult and kid lines stay separate.
    */
   function handleUpdateQuantity(productId: string, unitPrice: number, quantity: number) {
     const product = products.find((p) => p.id === productId);
     if (!product || quantity < 1) return;
-    if (product.stock !== UNLIMITED_STOCK && quantity > product.stock) return;
+    const current = items.find((i) => i.productId === productId && i.unitPrice === unitPrice);
+    if (current && quantity > current.quantity && !hasSeatsFor(product, quantity - current.quantity)) return;
 
     setItems(
       items.map((i) => {
@@ -2306,6 +2998,29 @@ function SaleForm({
     );
   }
 
+  /**
+   * Updates the reason of an item's manual unit price.
+   */
+  function handleUpdatePriceReason(productId: string, unitPrice: number, reason: string) {
+    setItems(
+      items.map((i) => (i.productId === productId && i.unitPrice === unitPrice ? { ...i, priceOverrideReason: reason } : i))
+    );
+  }
+
+  /**
+   * Tour price of an item's passenger type; a different unitPrice is a manual override.
+   */
+  function getListPrice(item: SaleItem): number | null {
+    const product = products.find((p) => p.id === item.productId) as ProductWithCatalog | undefined;
+    if (!product) return null;
+    return item.priceLabel === "kid" ? product.childPrice ?? product.price : product.price;
+  }
+
+  const isPriceOverride = (item: SaleItem) => {
+    const listPrice = getListPrice(item);
+    return listPrice !== null && item.unitPrice !== listPrice;
+  };
+
   /**
    * Removes an item from the sale.
    */
@@ -2325,6 +3040,8 @@ function SaleForm({
     if (!customerPhone.trim()) invalid.add("customerPhone");
     if (!fechaVisita) invalid.add("fechaVisita");
     if (personasAdditional.length > 0 && personasAdditional.some((p) => !p.name.trim())) invalid.add("personasAdditional");
+    if (items.some((i) => isPriceOverride(i) && !i.priceOverrideReason?.trim())) invalid.add("priceOverrideReason");
+    if (promoCode.trim() && !activePromo) invalid.add("promoCode");
 
     if (invalid.size === 0) {
       return { error: null, invalidFields: invalid };
@@ -2336,6 +3053,8 @@ function SaleForm({
     if (invalid.has("customerPhone")) return { error: "El teléfono es requerido", invalidFields: invalid };
     if (invalid.has("fechaVisita")) return { error: "La fecha del tour es requerida", invalidFields: invalid };
     if (invalid.has("personasAdditional")) return { error: "Cada persona adicional debe tener un nombre", invalidFields: invalid };
+    if (invalid.has("priceOverrideReason")) return { error: "Indique el motivo del cambio de precio", invalidFields: invalid };
+    if (invalid.has("promoCode")) return { error: "Aplique el código promocional o bórrelo", invalidFields: invalid };
 
     return { error: "Por favor completa los campos requeridos", invalidFields: invalid };
   }
@@ -2388,14 +3107,13 @@ function SaleForm({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          // Seats by passenger type; the server prices them from the tour unless the price was changed
           items: items.map((i, idx) => {
             const abono = abonoPerLine[idx] ?? 0;
             return {
-              tourId: i.productId,
-              quantity: i.quantity,
-              total: i.total,
+              ...toSeatItem(i),
+              priceOverrideReason: isPriceOverride(i) ? i.priceOverrideReason?.trim() : undefined,
               abono: abono > 0 ? abono : undefined,
-              pendiente: i.total - abono,
             };
           }),
           customerName: customerName.trim(),
@@ -2412,6 +3130,9 @@ function SaleForm({
           fechaVisita,
           fechaLimitePago: fechaLimitePago || undefined,
           isPaid,
+          paymentMethod,
+          holdHours: isHold ? holdHours : undefined,
+          promoCode: activePromo?.code,
         }),
       });
 
@@ -2427,6 +3148,9 @@ function SaleForm({
         id: data.id,
         items,
         subtotal,
+        discount: promoDiscount || undefined,
+        promoCode: activePromo?.code,
+        currency: saleCurrency,
         customerName: customerName.trim(),
         customerPhone: customerPhone.trim(),
         cedula: cedula.trim(),
@@ -2554,21 +3278,23 @@ function SaleForm({
                         <button
                           type="button"
                           onClick={() => handleUpdateQuantity(item.productId, item.unitPrice, item.quantity + 1)}
-                          disabled={product?.stock !== UNLIMITED_STOCK && item.quantity >= (product?.stock ?? 0)}
+                          disabled={!product || !hasSeatsFor(product, 1)}
                           className="w-8 h-8 rounded bg-aqua-500 text-jet disabled:opacity-30 flex items-center justify-center text-lg font-medium"
                         >
                           +
                         </button>
                       </div>
                       <div>
-                        <label className="block text-xs text-jet/60 mb-0.5">Precio unit. (RD$)</label>
+                        <label className="block text-xs text-jet/60 mb-0.5">Precio unit. ({saleCurrency})</label>
                         <div className="flex items-center gap-1.5">
                           <input
                             type="number"
                             value={item.unitPrice}
                             onChange={(e) => handleUpdateUnitPrice(item.productId, item.unitPrice, parseInt(e.target.value) || 0)}
-                            className="w-20 bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm focus:outline-none focus:ring-1 focus:ring-aqua-500"
+                            className="w-20 bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm focus:outline-none focus:ring-1 focus:ring-aqua-500 read-only:bg-pearl/70 read-only:cursor-default"
                             min="0"
+                            readOnly={!canEditPrice}
+                            title={canEditPrice ? undefined : "Precio del tour"}
                           />
                           {(() => {
                             const p = product as ProductWithCatalog | undefined;
@@ -2582,34 +3308,106 @@ function SaleForm({
                         </div>
                       </div>
                       <p className="text-jet font-semibold text-sm self-end pb-1">
-                        Total: RD$ {item.total.toLocaleString()}
+                        Total: {saleCurrency} {item.total.toLocaleString()}
                       </p>
                     </div>
 
+                    {isPriceOverride(item) && (
+                      <div className="mb-3">
+                        <label className="block text-xs text-jet/60 mb-0.5">
+                          Motivo del cambio de precio (tour: {saleCurrency} {getListPrice(item)?.toLocaleString()}) <span className="text-danger">*</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={item.priceOverrideReason ?? ""}
+                          onChange={(e) => handleUpdatePriceReason(item.productId, item.unitPrice, e.target.value)}
+                          onFocus={() => clearFieldError("priceOverrideReason")}
+                          maxLength={300}
+                          placeholder="Ej. descuento de grupo autorizado"
+                          className={`w-full bg-white border rounded px-2 py-1.5 text-jet text-sm focus:outline-none focus:ring-1 focus:ring-aqua-500 ${fieldErrors.has("priceOverrideReason") && !item.priceOverrideReason?.trim() ? "border-danger" : "border-gold-200/50"}`}
+                        />
+                      </div>
+                    )}
+
                   </div>
                 );
               })
             )}
 
+            {/* Promo code: checked against the current lines, applied server-side on submit */}
+            {items.length > 0 && (
+              <div className="mt-4 p-3 bg-pearl rounded-lg border border-gold-200/50">
+                <p className="text-xs font-medium text-jet/70 uppercase tracking-wider mb-2">Código promocional</p>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={promoCode}
+                    onChange={(e) => {
+                      setPromoCode(e.target.value.toUpperCase());
+                      setAppliedPromo(null);
+                      setPromoError(null);
+                      clearFieldError("promoCode");
+                    }}
+                    maxLength={40}
+                    placeholder="Ej. VERANO10"
+                    className={`flex-1 bg-white border rounded px-2 py-1.5 text-jet text-sm font-mono focus:outline-none focus:ring-1 focus:ring-aqua-500 ${fieldErrors.has("promoCode") ? "border-danger" : "border-gold-200/50"}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleApplyPromo}
+                    disabled={isCheckingPromo || !promoCode.trim()}
+                    className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-3 py-1.5 rounded text-sm font-medium disabled:opacity-50"
+                  >
+                    {isCheckingPromo ? "..." : "Aplicar"}
+                  </button>
+                </div>
+                {promoError && <p className="text-danger text-xs mt-1">{promoError}</p>}
+                {activePromo && (
+                  <p className="text-success text-xs mt-1">
+                    {activePromo.code}: −{saleCurrency} {activePromo.discount.toLocaleString()}
+                    {activePromo.description ? ` (${activePromo.description})` : ""}
+                  </p>
+                )}
+                {appliedPromo && !activePromo && (
+                  <p className="text-jet/60 text-xs mt-1">Las líneas cambiaron; aplique el código de nuevo.</p>
+                )}
+              </div>
+            )}
+
             {/* Single Abono for the whole reservation */}
             {items.length > 0 && (
               <div className="mt-4 p-3 bg-pearl rounded-lg border border-gold-200/50">
                 <p className="text-xs font-medium text-jet/70 uppercase tracking-wider mb-2">Abono de la reserva</p>
-                <div className="grid grid-cols-2 gap-2">
+                <div className="grid grid-cols-3 gap-2">
                   <div>
-                    <label className="block text-xs text-jet/60 mb-1">Abono (RD$)</label>
+                    <label className="block text-xs text-jet/60 mb-1">Abono ({saleCurrency})</label>
                     <input
                       type="number"
-                      value={reservationAbono || ""}
+                      value={totalAbono || ""}
                       onChange={(e) => setReservationAbono(Math.max(0, parseInt(e.target.value) || 0))}
-                      className="w-full bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm focus:outline-none focus:ring-1 focus:ring-aqua-500"
+                      className="w-full bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm focus:outline-none focus:ring-1 focus:ring-aqua-500 disabled:opacity-50"
                       placeholder="0"
                       min={0}
-                      max={subtotal}
+                      max={netTotal}
+                      disabled={isHold}
                     />
                   </div>
                   <div>
-                    <label className="block text-xs text-jet/60 mb-1">Pendiente (RD$)</label>
+                    <label className="block text-xs text-jet/60 mb-1">Método</label>
+                    <select
+                      value={paymentMethod}
+                      onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                      className="w-full bg-white border border-gold-200/50 rounded px-2 py-1.5 text-jet text-sm focus:outline-none focus:ring-1 focus:ring-aqua-500"
+                    >
+                      {PAYMENT_METHODS.map((m) => (
+                        <option key={m} value={m}>
+                          {PAYMENT_METHOD_LABELS[m]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-jet/60 mb-1">Pendiente ({saleCurrency})</label>
                     <input
                       type="number"
                       value={totalPendiente}
@@ -2628,46 +3426,55 @@ function SaleForm({
         <div className="space-y-3">
           <p className="text-xs font-semibold text-jet/60 uppercase tracking-wider">Datos del Cliente</p>
           
-          <div>
+          <div className="relative">
             <label className="block text-sm font-medium text-jet/80 mb-1">
               Nombre <span className="text-danger">*</span>
             </label>
             <input
               type="text"
               value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
+              onChange={(e) => handleCustomerFieldChange("customerName", e.target.value)}
               onFocus={() => clearFieldError("customerName")}
+              onBlur={() => setCustomerLookup(null)}
+              autoComplete="off"
               className={`w-full bg-pearl border rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500 ${getBorderClass("customerName", customerName)}`}
               placeholder="Nombre completo"
             />
+            {suggestionsFor("customerName")}
           </div>
 
-          <div>
+          <div className="relative">
             <label className="block text-sm font-medium text-jet/80 mb-1">
               Teléfono <span className="text-danger">*</span>
             </label>
             <input
               type="tel"
               value={customerPhone}
-              onChange={(e) => setCustomerPhone(e.target.value)}
+              onChange={(e) => handleCustomerFieldChange("customerPhone", e.target.value)}
               onFocus={() => clearFieldError("customerPhone")}
+              onBlur={() => setCustomerLookup(null)}
+              autoComplete="off"
               className={`w-full bg-pearl border rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500 ${getBorderClass("customerPhone", customerPhone)}`}
               placeholder="809-000-0000"
             />
+            {suggestionsFor("customerPhone")}
           </div>
 
-          <div>
+          <div className="relative">
             <label className="block text-sm font-medium text-jet/80 mb-1">
               Cédula/Passaporte
             </label>
             <input
               type="text"
               value={cedula}
-              onChange={(e) => setCedula(e.target.value)}
+              onChange={(e) => handleCustomerFieldChange("cedula", e.target.value)}
               onFocus={() => clearFieldError("cedula")}
+              onBlur={() => setCustomerLookup(null)}
+              autoComplete="off"
               className={`w-full bg-pearl border rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500 ${getBorderClass("cedula", cedula)}`}
               placeholder="001-0000000-0 o pasaporte"
             />
+            {suggestionsFor("cedula")}
           </div>
 
           <div>
@@ -2872,6 +3679,46 @@ function SaleForm({
               className={`w-full bg-pearl border rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500 ${fieldErrors.has("fechaVisita") ? "border-danger" : fechaVisita ? "border-success/50" : "border-gold-200/50"}`}
               title="Puede completarse desde el tour seleccionado si tiene fecha definida"
             />
+            {(() => {
+              const tourIds = Array.from(new Set(items.map((i) => i.productId)));
+              const selectedTours = products.filter((p) => tourIds.includes(p.id) && p.departures?.length);
+              if (selectedTours.length === 0) return null;
+              return (
+                <div className="mt-1.5 space-y-1">
+                  {selectedTours.map((p) => (
+                    <div key={p.id} className="flex flex-wrap items-center gap-1">
+                      {selectedTours.length > 1 && (
+                        <span className="text-jet/50 text-xs mr-1 truncate max-w-[8rem]">{p.name}:</span>
+                      )}
+                      {p.departures!.map((d) => {
+                        const day = departureDay(d.date);
+                        const seats = d.capacity === UNLIMITED_STOCK ? null : Math.max(0, d.capacity - d.booked);
+                        const isSelected = day === fechaVisita;
+                        return (
+                          <button
+                            key={d.id}
+                            type="button"
+                            disabled={seats === 0}
+                            onClick={() => {
+                              setFechaVisita(day);
+                              clearFieldError("fechaVisita");
+                            }}
+                            className={`px-2 py-0.5 rounded-full text-xs border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                              isSelected
+                                ? "bg-aqua-700 border-aqua-700 text-white"
+                                : "border-gold-200/50 text-jet/80 hover:border-aqua-500"
+                            }`}
+                            title={seats === null ? "Siempre disponible" : `${seats} plazas disponibles`}
+                          >
+                            {formatDate(day)} · {seats === null ? "∞" : seats}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              );
+            })()}
           </div>
 
           <div>
@@ -2893,7 +3740,8 @@ function SaleForm({
                 type="checkbox"
                 checked={isPaid}
                 onChange={(e) => setIsPaid(e.target.checked)}
-                className="w-5 h-5 rounded border-gold-200/50 text-success focus:ring-success"
+                disabled={isHold}
+                className="w-5 h-5 rounded border-gold-200/50 text-success focus:ring-success disabled:opacity-50"
               />
               <span className="text-sm font-medium text-jet/80">
                 {isPaid ? "✓ Pagado" : "No Pagado"}
@@ -2901,21 +3749,55 @@ function SaleForm({
             </label>
           </div>
 
+          <div className="flex flex-wrap items-center gap-3 py-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isHold}
+                onChange={(e) => {
+                  setIsHold(e.target.checked);
+                  if (e.target.checked) setIsPaid(false);
+                }}
+                className="w-5 h-5 rounded border-gold-200/50 text-aqua-700 focus:ring-aqua-500"
+              />
+              <span className="text-sm font-medium text-jet/80">Reserva temporal (sin abono)</span>
+            </label>
+            {isHold && (
+              <label className="flex items-center gap-2 text-sm text-jet/80">
+                Liberar en
+                <input
+                  type="number"
+                  min={1}
+                  max={SEAT_HOLD_MAX_HOURS}
+                  value={holdHours}
+                  onChange={(e) => setHoldHours(Math.min(SEAT_HOLD_MAX_HOURS, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="w-20 bg-pearl border border-gold-200/50 rounded-lg px-2 py-1 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500"
+                />
+                horas si no se registra abono
+              </label>
+            )}
+          </div>
+
           {/* Summary */}
           <div className="bg-gradient-to-r from-aqua-700 to-aqua-500 rounded-lg p-4 text-white">
             <p className="text-white/80 text-sm">Total</p>
-            <p className="text-2xl font-bold">RD$ {subtotal.toLocaleString()}</p>
+            <p className="text-2xl font-bold">{saleCurrency} {netTotal.toLocaleString()}</p>
+            {promoDiscount > 0 && (
+              <p className="text-white/80 text-xs">
+                Subtotal {saleCurrency} {subtotal.toLocaleString()} − Descuento {activePromo?.code} {saleCurrency} {promoDiscount.toLocaleString()}
+              </p>
+            )}
             <p className="text-white/70 text-xs mt-1">
               {items.reduce((sum, i) => sum + i.quantity, 0)} cupos
             </p>
             {totalAbono > 0 && (
               <p className="text-white/80 text-xs mt-2">
-                Abono Total: RD$ {totalAbono.toLocaleString()}
+                Abono Total: {saleCurrency} {totalAbono.toLocaleString()}
               </p>
             )}
             {totalPendiente > 0 && (
               <p className="text-white/80 text-xs">
-                Pendiente Total: RD$ {totalPendiente.toLocaleString()}
+                Pendiente Total: {saleCurrency} {totalPendiente.toLocaleString()}
               </p>
             )}
           </div>
@@ -3045,23 +3927,33 @@ function Invoice({
                   <td className="py-3 text-center text-jet">{item.quantity}</td>
                   <td className="py-3 text-right">
                     <span className={isKid ? "text-amber-600" : "text-jet/70"}>
-                      RD$ {item.unitPrice.toLocaleString()} ({isKid ? "Niño" : "Adulto"})
+                      {sale.currency} {item.unitPrice.toLocaleString()} ({isKid ? "Niño" : "Adulto"})
                     </span>
                   </td>
                   <td className="py-3 text-right text-jet font-medium">
-                    RD$ {item.total.toLocaleString()}
+                    {sale.currency} {item.total.toLocaleString()}
                   </td>
                 </tr>
               );
             })}
           </tbody>
           <tfoot>
+            {sale.discount ? (
+              <tr>
+                <td colSpan={3} className="pt-4 text-right text-jet/70">
+                  Descuento {sale.promoCode}:
+                </td>
+                <td className="pt-4 text-right text-jet/70">
+                  −{sale.currency} {sale.discount.toLocaleString()}
+                </td>
+              </tr>
+            ) : null}
             <tr>
               <td colSpan={3} className="py-4 text-right text-jet font-semibold text-lg">
                 Total:
               </td>
               <td className="py-4 text-right text-jet font-bold text-xl">
-                RD$ {sale.subtotal.toLocaleString()}
+                {sale.currency} {(sale.subtotal - (sale.discount ?? 0)).toLocaleString()}
               </td>
             </tr>
           </tfoot>
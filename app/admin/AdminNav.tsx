@@ -1,17 +1,22 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { canSeeResumen, canSeeProducts } from "@/lib/permissions";
+import { canSeeResumen, canSeeProducts, canSeeAudit, canManageCommissions, canManageCashClosings } from "@/lib/permissions";
 import type { SessionRole } from "@/lib/permissions";
 
 export type AdminView =
   | "overview"
   | "products"
   | "sales"
+  | "customers"
+  | "receivables"
   | "messages"
   | "news"
   | "hotelOffers"
-  | "flightRequests";
+  | "flightRequests"
+  | "commissions"
+  | "cashClosing"
+  | "audit";
 
 interface NavItem {
   id: AdminView;
@@ -42,6 +47,19 @@ const Icons = {
       <path d="M16 2v4M8 2v4M3 10h18" />
     </svg>
   ),
+  customers: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 shrink-0">
+      <path d="M17 21v-2a4 4 0 00-4-4H5a4 4 0 00-4 4v2" />
+      <circle cx="9" cy="7" r="4" />
+      <path d="M23 21v-2a4 4 0 00-3-3.87M16 3.13a4 4 0 010 7.75" />
+    </svg>
+  ),
+  receivables: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 shrink-0">
+      <circle cx="12" cy="12" r="9" />
+      <path d="M12 7v5l3 3" />
+    </svg>
+  ),
   messages: (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 shrink-0">
       <path d="M21 11.5a8.38 8.38 0 01-.9 3.8 8.5 8.5 0 01-7.6 4.7 8.38 8.38 0 01-3.8-.9L3 21l1.9-5.7a8.38 8.38 0 01-.9-3.8 8.5 8.5 0 014.7-7.6 8.38 8.38 0 013.8-.9h.5a8.48 8.48 0 018 8v.5z" />
@@ -64,6 +82,25 @@ const Icons = {
       <path d="M17.8 19.2L16 11l3.5-3.5C21 6 21.5 4 21 3c-1-.5-3 0-4.5 1.5L13 8 4.8 6.2c-.5-.1-.9.1-1.1.5l-.3.5c-.2.5-.1 1 .3 1.3L9 12l-2 3H4l-1 1 3 2 2 3 1-1v-3l3-2 3.5 5.3c.3.4.8.5 1.3.3l.5-.2c.4-.3.6-.7.5-1.2z" />
     </svg>
   ),
+  commissions: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 shrink-0">
+      <path d="M12 1v22M17 5H9.5a3.5 3.5 0 000 7h5a3.5 3.5 0 010 7H6" />
+    </svg>
+  ),
+  cashClosing: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 shrink-0">
+      <rect x="2" y="6" width="20" height="12" rx="2" />
+      <circle cx="12" cy="12" r="2.5" />
+      <path d="M6 12h.01M18 12h.01" />
+    </svg>
+  ),
+  audit: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 shrink-0">
+      <path d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2" />
+      <rect x="9" y="3" width="6" height="4" rx="1" />
+      <path d="M9 12h6M9 16h4" />
+    </svg>
+  ),
 };
 
 /**
@@ -78,8 +115,13 @@ function getNavItems(role: SessionRole): NavItem[] {
     { id: "hotelOffers", label: "Ofertas Hoteles", shortLabel: "Hoteles", icon: Icons.hotelOffers, show: (r) => r === "admin" || r === "support" },
     { id: "flightRequests", label: "Reservas Vuelo", shortLabel: "Vuelo", icon: Icons.flightRequests, show: (r) => r === "admin" || r === "support" },
     { id: "sales", label: "Reservas", shortLabel: "Reservas", icon: Icons.sales, show: () => true },
+    { id: "customers", label: "Clientes", shortLabel: "Clientes", icon: Icons.customers, show: () => true },
+    { id: "receivables", label: "Cuentas por cobrar", shortLabel: "Por cobrar", icon: Icons.receivables, show: () => true },
     { id: "messages", label: "Mensajes", shortLabel: "Mensajes", icon: Icons.messages, show: () => true },
     { id: "news", label: "Noticias", shortLabel: "Noticias", icon: Icons.news, show: (r) => r === "admin" || r === "support" },
+    { id: "commissions", label: "Comisiones", shortLabel: "Comisiones", icon: Icons.commissions, show: canManageCommissions },
+    { id: "cashClosing", label: "Cierre de caja", shortLabel: "Caja", icon: Icons.cashClosing, show: canManageCashClosings },
+    { id: "audit", label: "Auditoría", shortLabel: "Auditoría", icon: Icons.audit, show: canSeeAudit },
   ];
   return items.filter((item) => item.show(role));
 }
@@ -89,13 +131,15 @@ interface AdminNavProps {
   onViewChange: (view: AdminView) => void;
   /** Current session role; null is treated as supervisor for nav visibility. */
   role: SessionRole | null;
+  /** Optional counters shown next to nav labels (e.g. unread WhatsApp messages). */
+  badges?: Partial<Record<AdminView, number>>;
 }
 
 /**
  * Admin navigation: mobile-first drawer on small screens, sticky sidebar on md+.
  * Role-based visibility; icons + labels for clarity.
  */
-export function AdminNav({ activeView, onViewChange, role }: AdminNavProps) {
+export function AdminNav({ activeView, onViewChange, role, badges }: AdminNavProps) {
   const [drawerOpen, setDrawerOpen] = useState(false);
   const effectiveRole: SessionRole = role ?? "supervisor";
   const items = getNavItems(effectiveRole);
@@ -147,6 +191,15 @@ export function AdminNav({ activeView, onViewChange, role }: AdminNavProps) {
             >
               {item.icon}
               <span className="truncate">{item.label}</span>
+              {(badges?.[item.id] ?? 0) > 0 && (
+                <span
+                  className={`ml-auto text-[10px] font-semibold min-w-5 h-5 px-1.5 rounded-full flex items-center justify-center ${
+                    isActive ? "bg-white text-aqua-700" : "bg-aqua-700 text-white"
+                  }`}
+                >
+                  {badges?.[item.id]}
+                </span>
+              )}
             </button>
           </li>
         );
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { formatDateTime } from "@/lib/formatDate";
+import { AUDIT_ACTIONS } from "@/lib/validation";
+import { formatAuditChanges, getAuditActionLabel } from "@/lib/auditFormat";
+import type { AuditEventDTO } from "@/lib/audit";
+
+interface AuditFilters {
+  action: string;
+  entityType: string;
+  entityId: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: "", entityType: "", entityId: "", actor: "", from: "", to: "" };
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  invoice: "Factura",
+  tour: "Tour",
+};
+
+/**
+ * Builds the /api/audit query string from the filters and an optional cursor.
+ */
+function buildAuditQuery(filters: AuditFilters, cursor?: string | null): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+/**
+ * Admin section: audit log of invoice, payment and tour changes (who changed what and when).
+ * Admin and support only.
+ */
+export function AuditLogSection() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEventDTO[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(
+    (cursor: string | null) =>
+      fetch(`/api/audit?${buildAuditQuery(appliedFilters, cursor)}`, { credentials: "include" }).then((res) => {
+        if (!res.ok) throw new Error("Error al cargar auditoría");
+        return res.json() as Promise<{ events: AuditEventDTO[]; nextCursor: string | null }>;
+      }),
+    [appliedFilters]
+  );
+
+  useEffect(() => {
+    fetchPage(null)
+      .then((data) => {
+        setEvents(data.events);
+        setNextCursor(data.nextCursor);
+        setError(null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Error"))
+      .finally(() => setLoading(false));
+  }, [fetchPage]);
+
+  /** Applies the filter form (reloads from the first page). */
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setAppliedFilters({ ...filters });
+  }
+
+  /** Clears every filter. */
+  function handleClear() {
+    setFilters(EMPTY_FILTERS);
+    setLoading(true);
+    setAppliedFilters({ ...EMPTY_FILTERS });
+  }
+
+  /** Appends the next page of older events. */
+  function handleLoadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    fetchPage(nextCursor)
+      .then((data) => {
+        setEvents((prev) => [...prev, ...data.events]);
+        setNextCursor(data.nextCursor);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Error"))
+      .finally(() => setLoadingMore(false));
+  }
+
+  const inputClass = "w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm";
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg tablet:text-xl font-semibold text-jet">Auditoría</h2>
+      <p className="text-jet/60 text-sm">
+        Registro de cambios en facturas, abonos y tours: quién hizo qué y cuándo.
+      </p>
+
+      <form onSubmit={handleSearch} className="bg-porcelain rounded-xl border border-gold-200/50 p-4 space-y-3">
+        <div className="grid grid-cols-2 tablet:grid-cols-3 tablet-lg:grid-cols-6 gap-3">
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Acción</label>
+            <select
+              value={filters.action}
+              onChange={(e) => setFilters((f) => ({ ...f, action: e.target.value }))}
+              className={inputClass}
+            >
+              <option value="">Todas</option>
+              {AUDIT_ACTIONS.map((action) => (
+                <option key={action} value={action}>
+                  {getAuditActionLabel(action)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Tipo</label>
+            <select
+              value={filters.entityType}
+              onChange={(e) => setFilters((f) => ({ ...f, entityType: e.target.value }))}
+              className={inputClass}
+            >
+              <option value="">Todos</option>
+              {Object.entries(ENTITY_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">ID (factura o tour)</label>
+            <input
+              type="text"
+              value={filters.entityId}
+              onChange={(e) => setFilters((f) => ({ ...f, entityId: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Usuario</label>
+            <input
+              type="text"
+              value={filters.actor}
+              onChange={(e) => setFilters((f) => ({ ...f, actor: e.target.value }))}
+              placeholder="Nombre o rol"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Desde</label>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Hasta</label>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold transition-colors"
+          >
+            Buscar
+          </button>
+          <button
+            type="button"
+            onClick={handleClear}
+            className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50 hover:bg-pearl"
+          >
+            Limpiar
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 rounded-lg px-4 py-2 text-danger text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-jet/60 text-sm">Cargando…</p>
+      ) : events.length === 0 ? (
+        <p className="text-jet/60 text-sm">No hay eventos para estos filtros.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border border-gold-200/50 rounded-lg overflow-hidden">
+            <thead className="bg-jet/5">
+              <tr>
+                <th className="text-left p-3 font-medium text-jet">Fecha</th>
+                <th className="text-left p-3 font-medium text-jet">Usuario</th>
+                <th className="text-left p-3 font-medium text-jet">Acción</th>
+                <th className="text-left p-3 font-medium text-jet">Referencia</th>
+                <th className="text-left p-3 font-medium text-jet">Cambios</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => {
+                const changeLines = formatAuditChanges(event.changes);
+                return (
+                  <tr key={event.id} className="border-t border-gold-200/50 align-top">
+                    <td className="p-3 text-jet/80 whitespace-nowrap">{formatDateTime(event.createdAt)}</td>
+                    <td className="p-3">
+                      {event.actorName ?? "sistema"}
+                      {event.actorRole && event.actorRole !== event.actorName && (
+                        <span className="block text-jet/50 text-xs">{event.actorRole}</span>
+                      )}
+                    </td>
+                    <td className="p-3">{getAuditActionLabel(event.action)}</td>
+                    <td className="p-3">
+                      <span className="text-jet/60 text-xs">{ENTITY_TYPE_LABELS[event.entityType] ?? event.entityType}</span>
+                      <span className="block font-mono text-xs break-all">{event.entityId}</span>
+                    </td>
+                    <td className="p-3 text-jet/70 text-xs">
+                      {changeLines.length > 0
+                        ? changeLines.map((line) => <p key={line}>{line}</p>)
+                        : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <button
+          type="button"
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50 hover:bg-pearl disabled:opacity-50"
+        >
+          {loadingMore ? "Cargando..." : "Cargar más"}
+        </button>
+      )}
+    </div>
+  );
+}
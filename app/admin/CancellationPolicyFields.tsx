@@ -0,0 +1,97 @@
+"use client";
+
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  parseCancellationPolicy,
+} from "@/lib/cancellationPolicy";
+import type { CancellationTier } from "@/lib/validation";
+
+/**
+ * Cancellation policy editor of the tour form: the default policy, or the tour's own refund tiers
+ * ("N días o más antes del tour → X% de los abonos").
+ * @param value - Tour's tiers; null = default policy
+ * @param onChange - Called with the new tiers (null to go back to the default)
+ */
+export function CancellationPolicyFields({
+  value,
+  onChange,
+}: {
+  value: CancellationTier[] | null;
+  onChange: (value: CancellationTier[] | null) => void;
+}) {
+  const inputClass =
+    "w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500";
+
+  function updateTier(index: number, field: keyof CancellationTier, raw: string) {
+    const n = Math.max(0, parseInt(raw, 10) || 0);
+    const next = (value ?? []).map((t, i) =>
+      i === index ? { ...t, [field]: field === "refundPercent" ? Math.min(100, n) : Math.min(365, n) } : t
+    );
+    onChange(next);
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-jet/80">Política de cancelación</label>
+      <label className="flex items-center gap-2 text-sm text-jet/80">
+        <input
+          type="checkbox"
+          checked={value === null}
+          onChange={(e) => onChange(e.target.checked ? null : DEFAULT_CANCELLATION_POLICY.map((t) => ({ ...t })))}
+        />
+        Usar la política por defecto
+      </label>
+      {value === null ? (
+        <ul className="text-xs text-jet/60 list-disc pl-5">
+          {describeCancellationPolicy(parseCancellationPolicy(null)).map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="space-y-2">
+          {value.map((tier, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                max={365}
+                value={tier.minDaysBefore}
+                onChange={(e) => updateTier(i, "minDaysBefore", e.target.value)}
+                className={inputClass}
+                aria-label="Días antes del tour"
+              />
+              <span className="text-xs text-jet/60 whitespace-nowrap">días o más →</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={tier.refundPercent}
+                onChange={(e) => updateTier(i, "refundPercent", e.target.value)}
+                className={inputClass}
+                aria-label="Porcentaje de reembolso"
+              />
+              <span className="text-xs text-jet/60">%</span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, j) => j !== i))}
+                className="text-danger text-sm px-2"
+                aria-label="Quitar tramo"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange([...value, { minDaysBefore: 0, refundPercent: 0 }])}
+            className="text-aqua-700 text-sm font-medium"
+          >
+            + Agregar tramo
+          </button>
+          <p className="text-xs text-jet/50">Fuera de estos tramos no hay reembolso.</p>
+        </div>
+      )}
+    </div>
+  );
+}
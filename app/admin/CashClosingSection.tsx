@@ -0,0 +1,444 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatDate, formatDateTime } from "@/lib/formatDate";
+import { formatCurrencyAmounts, formatMoney, type CurrencyAmounts } from "@/lib/currency";
+import { CURRENCIES, PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from "@/lib/validation";
+import type { CashClosingDTO, CashCollectorDayDTO, CashDayDTO } from "@/lib/cashClosings";
+
+/** History filters (YYYY-MM-DD days, collector name, only closings with differences). */
+interface HistoryFilters {
+  from: string;
+  to: string;
+  collector: string;
+  discrepancies: boolean;
+}
+
+/**
+ * Signed amount with its currency, e.g. "+RD$ 500" or "-US$ 20".
+ */
+function formatDifference(amount: number, currency: string): string {
+  if (amount === 0) return formatMoney(0, currency);
+  return `${amount > 0 ? "+" : "-"}${formatMoney(Math.abs(amount), currency)}`;
+}
+
+/**
+ * Cash differences of a closing, e.g. "-RD$ 500"; "Cuadrado" when there are none.
+ */
+function formatDifferences(difference: CurrencyAmounts): string {
+  const entries = Object.entries(difference).filter(([, amount]) => amount !== 0);
+  if (entries.length === 0) return "Cuadrado";
+  return entries.map(([currency, amount]) => formatDifference(amount, currency)).join(" · ");
+}
+
+/**
+ * Currencies to count for a collector: the ones with cash collected or refunded, or the base currency when there is none.
+ */
+function getCountCurrencies(group: CashCollectorDayDTO): string[] {
+  const currencies = CURRENCIES.filter((c) => (group.expected.cash[c] ?? 0) > 0 || (group.cashRefunds[c] ?? 0) > 0);
+  return currencies.length > 0 ? currencies : [CURRENCIES[0]];
+}
+
+/**
+ * Key of a collector's group: staff users by ID, sellers and shared logins by name.
+ */
+function getCollectorKey(group: CashCollectorDayDTO): string {
+  return group.collectorUserId ? `user:${group.collectorUserId}` : `name:${group.collector}`;
+}
+
+/**
+ * Daily cash closing (Cierre de caja): the day's open payments per collector and method with their sellers,
+ * their cash refunds, the cash counted at hand-in with its difference, closing (which locks them) and the
+ * history of closings. Money recorded without a staff user is held by the booking's seller (or its recorder).
+ */
+export function CashClosingSection() {
+  const [day, setDay] = useState(() => new Date().toISOString().slice(0, 10));
+  const [cashDay, setCashDay] = useState<CashDayDTO | null>(null);
+  const [counted, setCounted] = useState<Record<string, Record<string, string>>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [closingCollector, setClosingCollector] = useState<string | null>(null);
+  const [filters, setFilters] = useState<HistoryFilters>({ from: "", to: "", collector: "", discrepancies: false });
+  const [history, setHistory] = useState<CashClosingDTO[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/cash-closings/day?date=${day}`, { credentials: "include" })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Error al cargar los pagos del día");
+        return data as CashDayDTO;
+      })
+      .then((data) => {
+        setCashDay(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Error al cargar los pagos del día"));
+  }, [day, reloadKey]);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (filters.from) params.set("from", filters.from);
+    if (filters.to) params.set("to", filters.to);
+    if (filters.collector.trim()) params.set("collector", filters.collector.trim());
+    if (filters.discrepancies) params.set("discrepancies", "1");
+    fetch(`/api/cash-closings?${params}`, { credentials: "include" })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Error al cargar los cierres de caja");
+        return data as CashClosingDTO[];
+      })
+      .then((data) => {
+        setHistory(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Error al cargar los cierres de caja"));
+  }, [filters, reloadKey]);
+
+  const changeDay = (value: string) => {
+    if (!value) return;
+    setDay(value);
+    setCashDay(null);
+    setCounted({});
+    setNotes({});
+  };
+
+  const setCountedAmount = (collector: string, currency: string, value: string) => {
+    setCounted((prev) => ({ ...prev, [collector]: { ...prev[collector], [currency]: value } }));
+  };
+
+  const closeCash = async (group: CashCollectorDayDTO) => {
+    const key = getCollectorKey(group);
+    const countedCash = getCountCurrencies(group).map((currency) => ({
+      currency,
+      amount: Number(counted[key]?.[currency] || 0),
+    }));
+    setClosingCollector(key);
+    setError(null);
+    try {
+      const res = await fetch("/api/cash-closings", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: day,
+          collectorUserId: group.collectorUserId ?? undefined,
+          collector: group.collector,
+          countedCash,
+          notes: notes[key]?.trim() || undefined,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Error al registrar el cierre de caja");
+      const closing = data as CashClosingDTO;
+      window.open(`/api/cash-closings/${closing.id}?format=pdf`, "_blank", "noopener,noreferrer");
+      setCounted((prev) => ({ ...prev, [key]: {} }));
+      setNotes((prev) => ({ ...prev, [key]: "" }));
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al registrar el cierre de caja");
+    } finally {
+      setClosingCollector(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col tablet:flex-row tablet:items-center tablet:justify-between gap-3">
+        <div>
+          <h2 className="text-lg tablet:text-xl font-semibold text-jet">Cierre de caja</h2>
+          <p className="text-jet/60 text-xs">
+            Pagos del día por cobrador y método, menos sus reembolsos en efectivo; al cerrar, los pagos quedan
+            bloqueados y no se pueden anular.
+          </p>
+        </div>
+        <input
+          type="date"
+          value={day}
+          onChange={(e) => changeDay(e.target.value)}
+          className="bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {!cashDay ? (
+        <p className="text-jet/50 text-sm">Cargando...</p>
+      ) : cashDay.open.length === 0 ? (
+        <div className="bg-porcelain rounded-xl border border-gold-200/50 px-4 py-6 text-center text-jet/50 text-sm">
+          No hay pagos pendientes de cierre el {formatDate(cashDay.date)}.
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {cashDay.open.map((group) => {
+            const key = getCollectorKey(group);
+            const currencies = getCountCurrencies(group);
+            return (
+              <div key={key} className="bg-porcelain rounded-xl border border-gold-200/50 p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-jet">{group.collector}</h3>
+                  <span className="text-xs text-jet/60">{group.paymentCount} pagos</span>
+                </div>
+
+                <table className="w-full text-sm">
+                  <tbody>
+                    {PAYMENT_METHODS.map((method) => (
+                      <tr key={method} className="border-b border-gold-200/30">
+                        <td className="py-1.5 text-jet/70">{PAYMENT_METHOD_LABELS[method]}</td>
+                        <td className="py-1.5 text-right text-jet font-medium">
+                          {formatCurrencyAmounts(group.expected[method])}
+                        </td>
+                      </tr>
+                    ))}
+                    {group.refunds.length > 0 && (
+                      <tr className="border-b border-gold-200/30">
+                        <td className="py-1.5 text-jet/70">Reembolsos en efectivo</td>
+                        <td className="py-1.5 text-right text-danger font-medium">
+                          -{formatCurrencyAmounts(group.cashRefunds)}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+
+                {group.sellers.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-jet/70">Por vendedor</p>
+                    <table className="w-full text-xs">
+                      <tbody>
+                        {group.sellers.map((s) => (
+                          <tr key={s.seller} className="border-b border-gold-200/30">
+                            <td className="py-1 pr-2 text-jet/80">{s.seller}</td>
+                            <td className="py-1 pr-2 text-jet/60">{s.paymentCount} pagos</td>
+                            <td className="py-1 text-right text-jet">
+                              {PAYMENT_METHODS.filter((m) => Object.keys(s.expected[m]).length > 0)
+                                .map((m) => `${PAYMENT_METHOD_LABELS[m]} ${formatCurrencyAmounts(s.expected[m])}`)
+                                .join(" · ")}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <p className="text-xs font-medium text-jet/70">Efectivo contado</p>
+                  {currencies.map((currency) => {
+                    const expected = group.expectedCash[currency] ?? 0;
+                    const value = counted[key]?.[currency] ?? "";
+                    const difference = value === "" ? null : Number(value) - expected;
+                    return (
+                      <div key={currency} className="flex items-center gap-3">
+                        <span className="w-10 text-sm text-jet/70">{currency}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={value}
+                          onChange={(e) => setCountedAmount(key, currency, e.target.value)}
+                          placeholder={String(expected)}
+                          className="w-32 bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+                        />
+                        {difference !== null && (
+                          <span className={`text-sm ${difference === 0 ? "text-aqua-700" : "text-danger font-semibold"}`}>
+                            {difference === 0 ? "Cuadrado" : formatDifference(difference, currency)}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <textarea
+                  value={notes[key] ?? ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [key]: e.target.value }))}
+                  placeholder="Notas (opcional)"
+                  rows={2}
+                  maxLength={500}
+                  className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+                />
+
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-jet/60">Ver pagos</summary>
+                  <table className="w-full mt-2">
+                    <tbody>
+                      {group.payments.map((p) => (
+                        <tr key={p.id} className="border-t border-gold-200/30">
+                          <td className="py-1 pr-2">
+                            <a
+                              href={`/api/invoices/${p.batchId}/pdf`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-aqua-700 hover:text-aqua-500 font-medium"
+                            >
+                              #{p.reference}
+                            </a>
+                          </td>
+                          <td className="py-1 pr-2 text-jet/80">{p.customerName || "—"}</td>
+                          <td className="py-1 pr-2 text-jet/60">
+                            {PAYMENT_METHOD_LABELS[p.method]}
+                            {p.paymentReference && ` · ${p.paymentReference}`}
+                          </td>
+                          <td className="py-1 text-right text-jet">{formatMoney(p.amount, p.currency)}</td>
+                        </tr>
+                      ))}
+                      {group.refunds.map((r) => (
+                        <tr key={r.id} className="border-t border-gold-200/30">
+                          <td className="py-1 pr-2">
+                            <a
+                              href={`/api/invoices/${r.batchId}/pdf`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-aqua-700 hover:text-aqua-500 font-medium"
+                            >
+                              #{r.reference}
+                            </a>
+                          </td>
+                          <td className="py-1 pr-2 text-jet/80">{r.passengerName || "—"}</td>
+                          <td className="py-1 pr-2 text-jet/60">Reembolso · {r.creditNote}</td>
+                          <td className="py-1 text-right text-danger">-{formatMoney(r.amount, r.currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+
+                <button
+                  type="button"
+                  onClick={() => closeCash(group)}
+                  disabled={closingCollector !== null}
+                  className="w-full bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+                >
+                  {closingCollector === key ? "Cerrando..." : "Cerrar caja"}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {cashDay && cashDay.closings.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold text-jet text-sm">Cierres del {formatDate(cashDay.date)}</h3>
+          <ul className="space-y-1 text-sm">
+            {cashDay.closings.map((c) => (
+              <li key={c.id} className="flex flex-wrap items-center gap-x-3">
+                <a
+                  href={`/api/cash-closings/${c.id}?format=pdf`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-aqua-700 hover:text-aqua-500 font-medium"
+                >
+                  #{c.number}
+                </a>
+                <span className="text-jet">{c.collector}</span>
+                <span className="text-jet/60">{c.paymentCount} pagos</span>
+                <span className={c.hasDiscrepancy ? "text-danger font-semibold" : "text-aqua-700"}>
+                  {formatDifferences(c.difference)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="font-semibold text-jet">Historial de cierres</h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-xs text-jet/70">
+            Desde
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+              className="block bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            />
+          </label>
+          <label className="text-xs text-jet/70">
+            Hasta
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+              className="block bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            />
+          </label>
+          <label className="text-xs text-jet/70">
+            Cobrador
+            <input
+              type="text"
+              value={filters.collector}
+              onChange={(e) => setFilters((f) => ({ ...f, collector: e.target.value }))}
+              className="block bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-jet/80 pb-1.5">
+            <input
+              type="checkbox"
+              checked={filters.discrepancies}
+              onChange={(e) => setFilters((f) => ({ ...f, discrepancies: e.target.checked }))}
+            />
+            Solo con diferencias
+          </label>
+        </div>
+
+        <div className="bg-porcelain rounded-xl border border-gold-200/50 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-jet/60 uppercase tracking-wider border-b border-gold-200/50">
+                <th className="px-4 py-3">Cierre</th>
+                <th className="px-4 py-3">Día</th>
+                <th className="px-4 py-3">Cobrador</th>
+                <th className="px-4 py-3 text-right">Pagos</th>
+                <th className="px-4 py-3 text-right">Efectivo esperado</th>
+                <th className="px-4 py-3 text-right">Contado</th>
+                <th className="px-4 py-3 text-right">Diferencia</th>
+                <th className="px-4 py-3">Cerrado por</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!history ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-jet/50">Cargando...</td>
+                </tr>
+              ) : history.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-jet/50">No hay cierres de caja.</td>
+                </tr>
+              ) : (
+                history.map((c) => (
+                  <tr key={c.id} className={`border-b border-gold-200/30 ${c.hasDiscrepancy ? "bg-danger/5" : ""}`}>
+                    <td className="px-4 py-2.5">
+                      <a
+                        href={`/api/cash-closings/${c.id}?format=pdf`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-aqua-700 hover:text-aqua-500 font-medium"
+                      >
+                        #{c.number}
+                      </a>
+                    </td>
+                    <td className="px-4 py-2.5 text-jet/80">{formatDate(c.date)}</td>
+                    <td className="px-4 py-2.5 text-jet">{c.collector}</td>
+                    <td className="px-4 py-2.5 text-right text-jet/80">{c.paymentCount}</td>
+                    <td className="px-4 py-2.5 text-right text-jet/80">{formatCurrencyAmounts(c.expectedCash)}</td>
+                    <td className="px-4 py-2.5 text-right text-jet/80">{formatCurrencyAmounts(c.countedCash)}</td>
+                    <td className={`px-4 py-2.5 text-right ${c.hasDiscrepancy ? "text-danger font-semibold" : "text-aqua-700"}`}>
+                      {formatDifferences(c.difference)}
+                    </td>
+                    <td className="px-4 py-2.5 text-jet/60 text-xs" title={c.notes ?? undefined}>
+                      {c.closedBy} · {formatDateTime(c.createdAt)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
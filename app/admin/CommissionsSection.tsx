@@ -0,0 +1,638 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatDate } from "@/lib/formatDate";
+import { formatCurrencyAmounts, formatMoney } from "@/lib/currency";
+import {
+  COMMISSION_RULE_TYPES,
+  COMMISSION_RULE_TYPE_LABELS,
+  CURRENCIES,
+  type CommissionRuleType,
+} from "@/lib/validation";
+import type { Product } from "@/lib/products";
+import type { CommissionPayoutDTO, CommissionRuleDTO, CommissionStatementDTO } from "@/lib/commissions";
+
+/**
+ * Commission as shown in the rules list ("10%" or "US$ 5 por pasajero").
+ */
+function formatRuleValue(rule: { type: CommissionRuleType; value: number; currency: string | null }): string {
+  return rule.type === "percent" ? `${rule.value}%` : `${formatMoney(rule.value, rule.currency ?? undefined)} por pasajero`;
+}
+
+/** First day of the current month and today (YYYY-MM-DD), the default statement period. */
+function getCurrentMonthPeriod(): { from: string; to: string } {
+  const today = new Date().toISOString().slice(0, 10);
+  return { from: `${today.slice(0, 8)}01`, to: today };
+}
+
+const EMPTY_RULE_FORM = {
+  sellerName: "",
+  tourId: "",
+  type: "percent" as CommissionRuleType,
+  value: "",
+  currency: CURRENCIES[0] as string,
+};
+
+/**
+ * Seller commissions: rules per seller and/or tour, the period statement of a seller (fully paid invoices only)
+ * with PDF/CSV export, marking it as paid out, and the payout history.
+ * Admin and support only.
+ */
+export function CommissionsSection({ products }: { products: Product[] }) {
+  const [sellers, setSellers] = useState<string[]>([]);
+  const [rules, setRules] = useState<CommissionRuleDTO[]>([]);
+  const [payouts, setPayouts] = useState<CommissionPayoutDTO[]>([]);
+  const [loadingRules, setLoadingRules] = useState(true);
+  const [addingRule, setAddingRule] = useState(false);
+  const [ruleForm, setRuleForm] = useState(EMPTY_RULE_FORM);
+  const [savingRule, setSavingRule] = useState(false);
+
+  const [seller, setSeller] = useState("");
+  const [period, setPeriod] = useState(getCurrentMonthPeriod);
+  const [statement, setStatement] = useState<CommissionStatementDTO | null>(null);
+  const [loadingStatement, setLoadingStatement] = useState(false);
+  const [payoutNotes, setPayoutNotes] = useState("");
+  const [payingOut, setPayingOut] = useState(false);
+
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const query = `seller=${encodeURIComponent(seller)}&from=${period.from}&to=${period.to}`;
+
+  async function loadRules() {
+    try {
+      const res = await fetch("/api/commissions/rules");
+      if (!res.ok) throw new Error("Error al cargar reglas de comisión");
+      const data = await res.json();
+      setRules(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setLoadingRules(false);
+    }
+  }
+
+  async function loadPayouts() {
+    try {
+      const res = await fetch("/api/commissions/payouts");
+      if (!res.ok) throw new Error("Error al cargar liquidaciones");
+      const data = await res.json();
+      setPayouts(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  useEffect(() => {
+    loadRules();
+    loadPayouts();
+    fetch("/api/sellers")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setSellers(Array.isArray(data) ? data.map((s: { name: string }) => s.name) : []))
+      .catch(() => setSellers([]));
+  }, []);
+
+  /**
+   * Creates a commission rule.
+   */
+  async function handleAddRule(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingRule(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/commissions/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sellerName: ruleForm.sellerName || null,
+          tourId: ruleForm.tourId || null,
+          type: ruleForm.type,
+          value: parseInt(ruleForm.value, 10),
+          currency: ruleForm.type === "per_passenger" ? ruleForm.currency : undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al crear regla");
+      }
+      setAddingRule(false);
+      setRuleForm(EMPTY_RULE_FORM);
+      setSuccess("Regla creada");
+      await loadRules();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setSavingRule(false);
+    }
+  }
+
+  /**
+   * Activates or deactivates a rule.
+   */
+  async function handleToggleRule(rule: CommissionRuleDTO) {
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/commissions/rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !rule.isActive }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al actualizar regla");
+      }
+      await loadRules();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  /**
+   * Deletes a rule (payouts keep the rule they were computed with).
+   */
+  async function handleDeleteRule(rule: CommissionRuleDTO) {
+    if (!confirm("¿Eliminar esta regla de comisión?")) return;
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/commissions/rules/${rule.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al eliminar regla");
+      }
+      setSuccess("Regla eliminada");
+      await loadRules();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  /**
+   * Loads the statement of the selected seller and period.
+   */
+  async function handleLoadStatement(e?: React.FormEvent) {
+    e?.preventDefault();
+    if (!seller) return;
+    setLoadingStatement(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/commissions/statement?${query}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al cargar el estado de comisiones");
+      setStatement(data as CommissionStatementDTO);
+    } catch (err) {
+      setStatement(null);
+      setError(err instanceof Error ? err.message : "Error al cargar el estado de comisiones");
+    } finally {
+      setLoadingStatement(false);
+    }
+  }
+
+  /**
+   * Records the pending commissions of the statement as paid out.
+   */
+  async function handlePayout() {
+    if (!statement) return;
+    const pending = formatCurrencyAmounts(statement.totals.pending);
+    if (!confirm(`¿Marcar como pagadas las comisiones pendientes de ${statement.seller} (${pending})?`)) return;
+    setPayingOut(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/commissions/payouts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ seller, from: period.from, to: period.to, notes: payoutNotes || undefined }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Error al registrar la liquidación");
+      const payout = data as CommissionPayoutDTO;
+      setSuccess(`Liquidación #${payout.number} registrada`);
+      setPayoutNotes("");
+      await Promise.all([handleLoadStatement(), loadPayouts()]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setPayingOut(false);
+    }
+  }
+
+  const inputClass =
+    "w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500";
+  const sellerOptions = Array.from(new Set([...sellers, ...rules.flatMap((r) => (r.sellerName ? [r.sellerName] : []))])).sort(
+    (a, b) => a.localeCompare(b)
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+      {success && (
+        <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm">{success}</div>
+      )}
+
+      {/* Rules */}
+      <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 tablet:p-6 space-y-4">
+        <div>
+          <h3 className="text-base font-semibold text-jet">Reglas de comisión</h3>
+          <p className="text-jet/60 text-sm">
+            Porcentaje del total de la línea o monto fijo por pasajero, por vendedor, por tour o por vendedor en un tour.
+            Se aplica la regla más específica: vendedor y tour, luego vendedor, luego tour. Solo cuentan facturas pagadas por completo.
+          </p>
+        </div>
+
+        {!addingRule ? (
+          <button
+            type="button"
+            onClick={() => {
+              setAddingRule(true);
+              setError(null);
+              setSuccess(null);
+            }}
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium"
+          >
+            + Nueva regla
+          </button>
+        ) : (
+          <form onSubmit={handleAddRule} className="p-4 bg-pearl rounded-lg border border-gold-200/30 space-y-3">
+            <div className="grid grid-cols-2 tablet:grid-cols-5 gap-3">
+              <div>
+                <label className="block text-xs text-jet/60 mb-1">Vendedor</label>
+                <select
+                  value={ruleForm.sellerName}
+                  onChange={(e) => setRuleForm((f) => ({ ...f, sellerName: e.target.value }))}
+                  className={inputClass}
+                >
+                  <option value="">Todos los vendedores</option>
+                  {sellers.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-jet/60 mb-1">Tour</label>
+                <select
+                  value={ruleForm.tourId}
+                  onChange={(e) => setRuleForm((f) => ({ ...f, tourId: e.target.value }))}
+                  className={inputClass}
+                >
+                  <option value="">Todos los tours</option>
+                  {products.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-jet/60 mb-1">Tipo</label>
+                <select
+                  value={ruleForm.type}
+                  onChange={(e) => setRuleForm((f) => ({ ...f, type: e.target.value as CommissionRuleType }))}
+                  className={inputClass}
+                >
+                  {COMMISSION_RULE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {COMMISSION_RULE_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-jet/60 mb-1">
+                  {ruleForm.type === "percent" ? "Porcentaje" : "Monto por pasajero"}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={ruleForm.type === "percent" ? 100 : undefined}
+                  value={ruleForm.value}
+                  onChange={(e) => setRuleForm((f) => ({ ...f, value: e.target.value }))}
+                  required
+                  className={inputClass}
+                />
+              </div>
+              {ruleForm.type === "per_passenger" && (
+                <div>
+                  <label className="block text-xs text-jet/60 mb-1">Moneda</label>
+                  <select
+                    value={ruleForm.currency}
+                    onChange={(e) => setRuleForm((f) => ({ ...f, currency: e.target.value }))}
+                    className={inputClass}
+                  >
+                    {CURRENCIES.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={savingRule || (!ruleForm.sellerName && !ruleForm.tourId)}
+                className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                {savingRule ? "Guardando..." : "Guardar"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setAddingRule(false)}
+                className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50 hover:bg-porcelain"
+              >
+                Cancelar
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loadingRules ? (
+          <p className="text-jet/50 text-sm">Cargando...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-jet/50 text-sm">No hay reglas de comisión.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-jet/60 text-xs uppercase tracking-wider">
+                  <th className="py-2 pr-3">Vendedor</th>
+                  <th className="py-2 pr-3">Tour</th>
+                  <th className="py-2 pr-3">Comisión</th>
+                  <th className="py-2 pr-3">Estado</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((r) => (
+                  <tr key={r.id} className="border-t border-gold-200/30">
+                    <td className="py-2 pr-3">{r.sellerName ?? "Todos"}</td>
+                    <td className="py-2 pr-3">{r.tourName ?? "Todos"}</td>
+                    <td className="py-2 pr-3">{formatRuleValue(r)}</td>
+                    <td className="py-2 pr-3">
+                      <span
+                        className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${
+                          r.isActive ? "bg-success/20 text-success" : "bg-jet/10 text-jet/60"
+                        }`}
+                      >
+                        {r.isActive ? "Activa" : "Inactiva"}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => handleToggleRule(r)}
+                        className="text-aqua-700 text-xs hover:underline mr-3"
+                      >
+                        {r.isActive ? "Desactivar" : "Activar"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteRule(r)}
+                        className="text-danger text-xs hover:underline"
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Statement */}
+      <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 tablet:p-6 space-y-4">
+        <div>
+          <h3 className="text-base font-semibold text-jet">Estado de comisiones</h3>
+          <p className="text-jet/60 text-sm">
+            Ventas del vendedor en el período cuya factura está pagada por completo. Las ventas ya liquidadas muestran su liquidación y no se vuelven a pagar.
+          </p>
+        </div>
+
+        <form
+          onSubmit={handleLoadStatement}
+          className="grid grid-cols-1 tablet:grid-cols-[1fr_10rem_10rem_auto] gap-3 items-end"
+        >
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Vendedor</label>
+            <select
+              value={seller}
+              onChange={(e) => {
+                setSeller(e.target.value);
+                setStatement(null);
+              }}
+              className={inputClass}
+            >
+              <option value="">Seleccionar vendedor</option>
+              {sellerOptions.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Desde</label>
+            <input
+              type="date"
+              value={period.from}
+              onChange={(e) => {
+                setPeriod((p) => ({ ...p, from: e.target.value }));
+                setStatement(null);
+              }}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Hasta</label>
+            <input
+              type="date"
+              value={period.to}
+              onChange={(e) => {
+                setPeriod((p) => ({ ...p, to: e.target.value }));
+                setStatement(null);
+              }}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!seller || !period.from || !period.to || loadingStatement}
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+          >
+            {loadingStatement ? "Cargando..." : "Ver estado"}
+          </button>
+        </form>
+
+        {statement && (
+          <div className="space-y-3">
+            <div className="flex flex-col tablet:flex-row tablet:items-center tablet:justify-between gap-2">
+              <p className="text-sm text-jet/80">
+                {statement.lines.length} líneas · Pendiente:{" "}
+                <span className="font-semibold text-jet">{formatCurrencyAmounts(statement.totals.pending)}</span>
+                {Object.keys(statement.totals.paidOut).length > 0 && (
+                  <> · Ya pagado: {formatCurrencyAmounts(statement.totals.paidOut)}</>
+                )}
+              </p>
+              <div className="flex gap-2">
+                <a
+                  href={`/api/commissions/statement?${query}&format=pdf`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-aqua-700/10 text-aqua-700 px-3 py-1.5 rounded-lg text-sm font-medium"
+                >
+                  PDF
+                </a>
+                <a
+                  href={`/api/commissions/statement?${query}&format=csv`}
+                  className="bg-aqua-700/10 text-aqua-700 px-3 py-1.5 rounded-lg text-sm font-medium"
+                >
+                  CSV
+                </a>
+              </div>
+            </div>
+
+            {statement.lines.length === 0 ? (
+              <p className="text-jet/50 text-sm">No hay ventas pagadas con comisión en este período.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-jet/60 uppercase tracking-wider border-b border-gold-200/50">
+                      <th className="px-3 py-2">Fecha</th>
+                      <th className="px-3 py-2">Factura</th>
+                      <th className="px-3 py-2">Cliente</th>
+                      <th className="px-3 py-2">Tour</th>
+                      <th className="px-3 py-2">Pax</th>
+                      <th className="px-3 py-2">Total</th>
+                      <th className="px-3 py-2">Regla</th>
+                      <th className="px-3 py-2">Comisión</th>
+                      <th className="px-3 py-2">Liquidación</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statement.lines.map((line) => (
+                      <tr key={line.saleId} className="border-b border-gold-200/30">
+                        <td className="px-3 py-2 whitespace-nowrap">{formatDate(line.createdAt)}</td>
+                        <td className="px-3 py-2 font-mono text-xs">#{line.reference}</td>
+                        <td className="px-3 py-2">{line.customerName ?? "—"}</td>
+                        <td className="px-3 py-2">{line.tourName}</td>
+                        <td className="px-3 py-2">{line.quantity}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">{formatMoney(line.total, line.currency)}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {formatRuleValue({ type: line.ruleType, value: line.ruleValue, currency: line.currency })}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap font-semibold">
+                          {formatMoney(line.amount, line.currency)}
+                        </td>
+                        <td className="px-3 py-2">
+                          {line.payoutNumber === null ? (
+                            <span className="text-[10px] font-semibold px-2 py-0.5 rounded-full bg-gold-200/40 text-jet/70">
+                              Pendiente
+                            </span>
+                          ) : (
+                            <span className="text-[10px] font-semibold px-2 py-0.5 rounded-full bg-success/20 text-success">
+                              #{line.payoutNumber}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {statement.totals.pendingLines > 0 && (
+              <div className="flex flex-col tablet:flex-row gap-2 tablet:items-end">
+                <div className="flex-1">
+                  <label className="block text-xs text-jet/60 mb-1">Notas de la liquidación</label>
+                  <input
+                    type="text"
+                    value={payoutNotes}
+                    onChange={(e) => setPayoutNotes(e.target.value)}
+                    maxLength={500}
+                    placeholder="Ej. Transferencia del 15/03"
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handlePayout}
+                  disabled={payingOut}
+                  className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+                >
+                  {payingOut ? "Registrando..." : "Marcar como pagado"}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Payouts */}
+      <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 tablet:p-6 space-y-4">
+        <h3 className="text-base font-semibold text-jet">Liquidaciones</h3>
+        {payouts.length === 0 ? (
+          <p className="text-jet/50 text-sm">No hay liquidaciones registradas.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-jet/60 text-xs uppercase tracking-wider">
+                  <th className="py-2 pr-3">#</th>
+                  <th className="py-2 pr-3">Vendedor</th>
+                  <th className="py-2 pr-3">Período</th>
+                  <th className="py-2 pr-3">Líneas</th>
+                  <th className="py-2 pr-3">Total</th>
+                  <th className="py-2 pr-3">Pagada</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {payouts.map((p) => (
+                  <tr key={p.id} className="border-t border-gold-200/30">
+                    <td className="py-2 pr-3 font-mono">{p.number}</td>
+                    <td className="py-2 pr-3">
+                      {p.sellerName}
+                      {p.notes && <span className="block text-jet/50 text-xs">{p.notes}</span>}
+                    </td>
+                    <td className="py-2 pr-3 text-xs whitespace-nowrap">
+                      {formatDate(p.from)} – {formatDate(p.to)}
+                    </td>
+                    <td className="py-2 pr-3">{p.lineCount}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{formatCurrencyAmounts(p.totals)}</td>
+                    <td className="py-2 pr-3 text-xs whitespace-nowrap">
+                      {formatDate(p.createdAt)} · {p.paidBy}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <a
+                        href={`/api/commissions/payouts/${p.id}?format=pdf`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-aqua-700 text-xs hover:underline mr-3"
+                      >
+                        PDF
+                      </a>
+                      <a href={`/api/commissions/payouts/${p.id}?format=csv`} className="text-aqua-700 text-xs hover:underline">
+                        CSV
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
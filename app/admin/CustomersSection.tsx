@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { formatDate } from "@/lib/formatDate";
+import { formatPhoneForDisplay } from "@/lib/phone";
+import type { CustomerDTO } from "@/lib/customers";
+
+/** Delay before searching while typing (ms). */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Customer directory: search by name, phone or cédula and open a customer's profile.
+ * Supervisors only see customers with their own bookings.
+ */
+export function CustomersSection() {
+  const [search, setSearch] = useState("");
+  const [customers, setCustomers] = useState<CustomerDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ limit: "50" });
+      if (search.trim()) params.set("search", search.trim());
+      fetch(`/api/customers?${params.toString()}`, { credentials: "include" })
+        .then((res) => {
+          if (!res.ok) throw new Error("Error al cargar clientes");
+          return res.json() as Promise<{ customers: CustomerDTO[] }>;
+        })
+        .then((data) => {
+          setCustomers(data.customers ?? []);
+          setError(null);
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : "Error al cargar clientes"))
+        .finally(() => setLoading(false));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col tablet:flex-row tablet:items-center tablet:justify-between gap-3">
+        <h2 className="text-lg tablet:text-xl font-semibold text-jet">Clientes</h2>
+        <input
+          type="text"
+          placeholder="Buscar nombre, teléfono o cédula"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full tablet:w-80 bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="bg-porcelain rounded-xl border border-gold-200/50 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-jet/60 uppercase tracking-wider border-b border-gold-200/50">
+              <th className="px-4 py-3">Cliente</th>
+              <th className="px-4 py-3">Teléfono</th>
+              <th className="px-4 py-3">Cédula/Pasaporte</th>
+              <th className="px-4 py-3">Provincia</th>
+              <th className="px-4 py-3 text-right">Reservas</th>
+              <th className="px-4 py-3">Última reserva</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-jet/50">Cargando...</td>
+              </tr>
+            ) : customers.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-jet/50">No hay clientes.</td>
+              </tr>
+            ) : (
+              customers.map((c) => (
+                <tr key={c.id} className="border-b border-gold-200/30 hover:bg-pearl">
+                  <td className="px-4 py-2.5">
+                    <Link href={`/admin/customers/${c.id}`} className="text-aqua-700 hover:text-aqua-500 font-medium">
+                      {c.name || "Sin nombre"}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-2.5 text-jet/80">{c.phone ? formatPhoneForDisplay(c.phone) : "—"}</td>
+                  <td className="px-4 py-2.5 text-jet/80">{c.cedula ?? "—"}</td>
+                  <td className="px-4 py-2.5 text-jet/80">{c.provincia ?? "—"}</td>
+                  <td className="px-4 py-2.5 text-right text-jet">{c.bookingsCount}</td>
+                  <td className="px-4 py-2.5 text-jet/80">{c.lastBookingAt ? formatDate(c.lastBookingAt) : "—"}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
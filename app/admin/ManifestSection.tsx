@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { formatDate } from "@/lib/formatDate";
+import { formatMoney } from "@/lib/currency";
+import { MANIFEST_PASSENGER_LABELS } from "@/lib/validation";
+import type { Product } from "@/lib/products";
+import type { ManifestDTO } from "@/lib/manifestPdf";
+
+/**
+ * Passenger manifest of a tour date for guides: preview plus PDF/CSV download.
+ * Lists lead customers and additional persons of non-voided bookings with seller and pending balance.
+ */
+export function ManifestSection({ products }: { products: Product[] }) {
+  const [tourId, setTourId] = useState("");
+  const [date, setDate] = useState("");
+  const [manifest, setManifest] = useState<ManifestDTO | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = `date=${encodeURIComponent(date)}`;
+  const baseUrl = `/api/products/${encodeURIComponent(tourId)}/manifest`;
+  const canLoad = Boolean(tourId && date);
+
+  async function handleLoad(e: React.FormEvent) {
+    e.preventDefault();
+    if (!canLoad) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${baseUrl}?${query}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al cargar el manifiesto");
+      setManifest(data as ManifestDTO);
+    } catch (err) {
+      setManifest(null);
+      setError(err instanceof Error ? err.message : "Error al cargar el manifiesto");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const inputClass =
+    "w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500";
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 tablet:p-6 space-y-4">
+      <div>
+        <h3 className="text-base font-semibold text-jet">Manifiesto de pasajeros</h3>
+        <p className="text-jet/60 text-sm">Lista para el guía: titular y acompañantes de cada reserva, vendedor y saldo pendiente.</p>
+      </div>
+
+      <form onSubmit={handleLoad} className="grid grid-cols-1 tablet:grid-cols-[1fr_12rem_auto] gap-3 items-end">
+        <div>
+          <label className="block text-xs text-jet/60 mb-1">Tour</label>
+          <select
+            value={tourId}
+            onChange={(e) => {
+              setTourId(e.target.value);
+              setManifest(null);
+            }}
+            className={inputClass}
+          >
+            <option value="">Seleccionar tour</option>
+            {products.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-jet/60 mb-1">Fecha del tour</label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => {
+              setDate(e.target.value);
+              setManifest(null);
+            }}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!canLoad || loading}
+          className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+        >
+          {loading ? "Cargando..." : "Ver manifiesto"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {manifest && (
+        <div className="space-y-3">
+          <div className="flex flex-col tablet:flex-row tablet:items-center tablet:justify-between gap-2">
+            <p className="text-sm text-jet/80">
+              {manifest.tour.name} · {formatDate(manifest.fechaVisita)} · {manifest.totals.bookings} reservas ·{" "}
+              {manifest.totals.seats} plazas · {manifest.totals.passengers} pasajeros
+              {manifest.totals.pendingBookings > 0 && (
+                <span className="text-danger">
+                  {" "}
+                  · {manifest.totals.pendingBookings} con saldo ({formatMoney(manifest.totals.pendingAmount, manifest.currency)})
+                </span>
+              )}
+            </p>
+            <div className="flex gap-2">
+              <a
+                href={`${baseUrl}?${query}&format=pdf`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-aqua-700/10 text-aqua-700 px-3 py-1.5 rounded-lg text-sm font-medium"
+              >
+                PDF
+              </a>
+              <a
+                href={`${baseUrl}?${query}&format=csv`}
+                className="bg-aqua-700/10 text-aqua-700 px-3 py-1.5 rounded-lg text-sm font-medium"
+              >
+                CSV
+              </a>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-jet/60 uppercase tracking-wider border-b border-gold-200/50">
+                  <th className="px-3 py-2">Pasajero</th>
+                  <th className="px-3 py-2">Tipo</th>
+                  <th className="px-3 py-2">Nacimiento</th>
+                  <th className="px-3 py-2">Cédula/Pasaporte</th>
+                  <th className="px-3 py-2">Teléfono</th>
+                  <th className="px-3 py-2">Factura</th>
+                  <th className="px-3 py-2">Vendedor</th>
+                  <th className="px-3 py-2">Pago</th>
+                </tr>
+              </thead>
+              <tbody>
+                {manifest.bookings.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-3 py-6 text-center text-jet/50">No hay reservas para esta fecha.</td>
+                  </tr>
+                ) : (
+                  manifest.bookings.flatMap((b) =>
+                    b.passengers.map((p, i) => (
+                      <tr
+                        key={`${b.batchId}-${i}`}
+                        className={`border-b border-gold-200/30 ${i === 0 ? "font-medium" : "text-jet/80"}`}
+                      >
+                        <td className="px-3 py-2">{p.name || "—"}</td>
+                        <td className="px-3 py-2">{MANIFEST_PASSENGER_LABELS[p.type]}</td>
+                        <td className="px-3 py-2">{p.dateOfBirth ?? ""}</td>
+                        <td className="px-3 py-2">{p.cedulaPassport ?? ""}</td>
+                        <td className="px-3 py-2">{p.phone ?? ""}</td>
+                        <td className="px-3 py-2">{i === 0 ? `#${b.reference}` : ""}</td>
+                        <td className="px-3 py-2">{i === 0 ? b.seller ?? "" : ""}</td>
+                        <td className="px-3 py-2">
+                          {i === 0 &&
+                            (b.pendiente > 0 ? (
+                              <span className="text-danger">Debe {formatMoney(b.pendiente, manifest.currency)}</span>
+                            ) : (
+                              <span className="text-success">Pagado</span>
+                            ))}
+                        </td>
+                      </tr>
+                    ))
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
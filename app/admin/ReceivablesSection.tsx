@@ -0,0 +1,256 @@
+"use client";
+
+import { Fragment, useState, useEffect } from "react";
+import { formatDate } from "@/lib/formatDate";
+import { formatCurrencyAmounts, formatMoney } from "@/lib/currency";
+import { formatPhoneForDisplay } from "@/lib/phone";
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  AGING_GROUPINGS,
+  AGING_GROUPING_LABELS,
+  type AgingBucket,
+  type AgingGrouping,
+} from "@/lib/validation";
+import type { ReceivablesAgingDTO } from "@/lib/receivables";
+
+/** Text color per bucket: older balances stand out. */
+const BUCKET_CLASSES: Record<AgingBucket, string> = {
+  current: "text-jet",
+  "1_7": "text-gold-500",
+  "8_30": "text-danger/80",
+  over_30: "text-danger font-semibold",
+};
+
+/**
+ * Accounts receivable (Cuentas por cobrar): outstanding balances aged by days past the payment deadline,
+ * grouped by supervisor, seller or tour; a group opens its invoices. Supervisors only see their own portfolio.
+ */
+export function ReceivablesSection() {
+  const [groupBy, setGroupBy] = useState<AgingGrouping>("supervisor");
+  const [report, setReport] = useState<ReceivablesAgingDTO | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ReceivablesAgingDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/sales/aging?groupBy=${groupBy}`, { credentials: "include" })
+      .then((res) => {
+        if (!res.ok) throw new Error("Error al cargar cuentas por cobrar");
+        return res.json() as Promise<ReceivablesAgingDTO>;
+      })
+      .then((data) => {
+        setReport(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Error al cargar cuentas por cobrar"));
+  }, [groupBy]);
+
+  useEffect(() => {
+    if (selectedKey === null) return;
+    const params = new URLSearchParams({ groupBy, key: selectedKey });
+    fetch(`/api/sales/aging?${params}`, { credentials: "include" })
+      .then((res) => {
+        if (!res.ok) throw new Error("Error al cargar las facturas");
+        return res.json() as Promise<ReceivablesAgingDTO>;
+      })
+      .then((data) => {
+        setDetail(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Error al cargar las facturas"));
+  }, [groupBy, selectedKey]);
+
+  const changeGrouping = (value: AgingGrouping) => {
+    setGroupBy(value);
+    setReport(null);
+    setSelectedKey(null);
+    setDetail(null);
+  };
+
+  const toggleGroup = (key: string) => {
+    setDetail(null);
+    setSelectedKey((current) => (current === key ? null : key));
+  };
+
+  const csvQuery = new URLSearchParams({ groupBy, format: "csv" });
+  if (selectedKey !== null) csvQuery.set("key", selectedKey);
+  const baseCurrency = report?.baseCurrency;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col tablet:flex-row tablet:items-center tablet:justify-between gap-3">
+        <div>
+          <h2 className="text-lg tablet:text-xl font-semibold text-jet">Cuentas por cobrar</h2>
+          {report && (
+            <p className="text-jet/60 text-xs">
+              Saldos pendientes por días de atraso sobre la fecha límite de pago, al {formatDate(report.asOf)}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={groupBy}
+            onChange={(e) => changeGrouping(e.target.value as AgingGrouping)}
+            className="bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+          >
+            {AGING_GROUPINGS.map((g) => (
+              <option key={g} value={g}>
+                Por {AGING_GROUPING_LABELS[g].toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <a
+            href={`/api/sales/aging?${csvQuery}`}
+            className="bg-aqua-700/10 text-aqua-700 px-3 py-1.5 rounded-lg text-sm font-medium"
+            title={selectedKey !== null ? "Facturas del grupo seleccionado" : "Todas las facturas pendientes"}
+          >
+            CSV
+          </a>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+      {report && report.missingRates.length > 0 && (
+        <p className="text-xs text-gold-500">
+          Sin tasa de cambio para {report.missingRates.join(", ")}: regístrala en Ajustes para incluirlas en los totales.
+        </p>
+      )}
+
+      {report && (
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+          {AGING_BUCKETS.map((bucket) => (
+            <div key={bucket} className="bg-porcelain rounded-xl border border-gold-200/50 p-3">
+              <p className="text-xs text-jet/60">{AGING_BUCKET_LABELS[bucket]}</p>
+              <p className={`text-lg font-semibold ${BUCKET_CLASSES[bucket]}`}>
+                {formatMoney(report.totals.buckets[bucket], baseCurrency)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-porcelain rounded-xl border border-gold-200/50 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-jet/60 uppercase tracking-wider border-b border-gold-200/50">
+              <th className="px-4 py-3">{AGING_GROUPING_LABELS[groupBy]}</th>
+              <th className="px-4 py-3 text-right">Facturas</th>
+              {AGING_BUCKETS.map((bucket) => (
+                <th key={bucket} className="px-4 py-3 text-right">{AGING_BUCKET_LABELS[bucket]}</th>
+              ))}
+              <th className="px-4 py-3 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!report ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-jet/50">Cargando...</td>
+              </tr>
+            ) : report.groups.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-jet/50">No hay saldos pendientes.</td>
+              </tr>
+            ) : (
+              <>
+                {report.groups.map((g) => (
+                  <Fragment key={g.key}>
+                    <tr
+                      onClick={() => toggleGroup(g.key)}
+                      className={`border-b border-gold-200/30 cursor-pointer ${selectedKey === g.key ? "bg-aqua-500/10" : "hover:bg-pearl"}`}
+                    >
+                      <td className="px-4 py-2.5 text-jet font-medium">
+                        {selectedKey === g.key ? "▾" : "▸"} {g.name}
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-jet/80">{g.invoiceCount}</td>
+                      {AGING_BUCKETS.map((bucket) => (
+                        <td key={bucket} className={`px-4 py-2.5 text-right ${g.buckets[bucket] > 0 ? BUCKET_CLASSES[bucket] : "text-jet/30"}`}>
+                          {g.buckets[bucket].toLocaleString()}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2.5 text-right text-jet font-semibold" title={formatCurrencyAmounts(g.totalByCurrency)}>
+                        {formatMoney(g.total, baseCurrency)}
+                      </td>
+                    </tr>
+                    {selectedKey === g.key && (
+                      <tr className="border-b border-gold-200/30 bg-pearl">
+                        <td colSpan={7} className="px-4 py-3">
+                          {!detail ? (
+                            <p className="text-jet/50 text-sm">Cargando facturas...</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-jet/60 uppercase tracking-wider">
+                                  <th className="py-1.5 pr-3">Factura</th>
+                                  <th className="py-1.5 pr-3">Cliente</th>
+                                  <th className="py-1.5 pr-3">Tours</th>
+                                  {groupBy !== "seller" && <th className="py-1.5 pr-3">Vendedor</th>}
+                                  <th className="py-1.5 pr-3">Límite pago</th>
+                                  <th className="py-1.5 pr-3">Antigüedad</th>
+                                  <th className="py-1.5 text-right">Pendiente</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {detail.invoices.map((invoice) => (
+                                  <tr key={invoice.batchId} className="border-t border-gold-200/30">
+                                    <td className="py-1.5 pr-3">
+                                      <a
+                                        href={`/api/invoices/${invoice.batchId}/pdf`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-aqua-700 hover:text-aqua-500 font-medium"
+                                      >
+                                        #{invoice.reference}
+                                      </a>
+                                    </td>
+                                    <td className="py-1.5 pr-3 text-jet">
+                                      {invoice.customerName || "—"}
+                                      {invoice.customerPhone && (
+                                        <span className="text-jet/50"> · {formatPhoneForDisplay(invoice.customerPhone)}</span>
+                                      )}
+                                    </td>
+                                    <td className="py-1.5 pr-3 text-jet/80">{invoice.tours.join(", ")}</td>
+                                    {groupBy !== "seller" && <td className="py-1.5 pr-3 text-jet/80">{invoice.seller || "—"}</td>}
+                                    <td className="py-1.5 pr-3 text-jet/80">
+                                      {invoice.fechaLimitePago ? formatDate(invoice.fechaLimitePago) : "Sin fecha"}
+                                    </td>
+                                    <td className={`py-1.5 pr-3 ${BUCKET_CLASSES[invoice.bucket]}`}>
+                                      {invoice.daysPastDue !== null && invoice.daysPastDue > 0
+                                        ? `${invoice.daysPastDue} días vencida`
+                                        : AGING_BUCKET_LABELS[invoice.bucket]}
+                                    </td>
+                                    <td className="py-1.5 text-right text-jet font-medium">
+                                      {formatMoney(invoice.pending, invoice.currency)}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+                <tr className="bg-white/50">
+                  <td className="px-4 py-2.5 text-jet font-semibold">Total</td>
+                  <td className="px-4 py-2.5 text-right text-jet">{report.totals.invoiceCount}</td>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <td key={bucket} className="px-4 py-2.5 text-right text-jet font-semibold">
+                      {report.totals.buckets[bucket].toLocaleString()}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2.5 text-right text-jet font-semibold" title={formatCurrencyAmounts(report.totals.totalByCurrency)}>
+                    {formatMoney(report.totals.total, baseCurrency)}
+                  </td>
+                </tr>
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
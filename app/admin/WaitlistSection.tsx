@@ -0,0 +1,286 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatDate, formatDateTime } from "@/lib/formatDate";
+import { formatPhoneForDisplay } from "@/lib/phone";
+import { WAITLIST_STATUS_LABELS } from "@/lib/validation";
+import type { Product } from "@/lib/products";
+import type { WaitlistEntryDTO } from "@/lib/waitlist";
+
+/** Badge colors per waitlist status. */
+const STATUS_CLASSES: Record<WaitlistEntryDTO["status"], string> = {
+  waiting: "bg-gold-200/40 text-jet",
+  offered: "bg-aqua-700/10 text-aqua-700",
+  booked: "bg-success/10 text-success",
+  expired: "bg-danger/10 text-danger",
+  cancelled: "bg-jet/10 text-jet/60",
+};
+
+/**
+ * Waitlist of sold-out tour dates: add customers, see queue positions and offers with their hold expiry,
+ * book an offer or cancel an entry. Released seats are offered automatically in join order.
+ */
+export function WaitlistSection({ products, onBooked }: { products: Product[]; onBooked: () => void }) {
+  const [entries, setEntries] = useState<WaitlistEntryDTO[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState({ tourId: "", fechaVisita: "", seats: 1, customerName: "", customerPhone: "" });
+
+  useEffect(() => {
+    fetch(`/api/waitlist${showAll ? "?all=true" : ""}`, { credentials: "include" })
+      .then((res) => {
+        if (!res.ok) throw new Error("Error al cargar la lista de espera");
+        return res.json() as Promise<WaitlistEntryDTO[]>;
+      })
+      .then((data) => {
+        setEntries(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Error al cargar la lista de espera"))
+      .finally(() => setLoading(false));
+  }, [showAll, reloadKey]);
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al agregar a la lista de espera");
+      setForm({ tourId: form.tourId, fechaVisita: form.fechaVisita, seats: 1, customerName: "", customerPhone: "" });
+      setIsAdding(false);
+      setSuccess("Cliente agregado a la lista de espera");
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al agregar a la lista de espera");
+    }
+  }
+
+  async function handleBook(entry: WaitlistEntryDTO) {
+    setBusyId(entry.id);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/waitlist/${encodeURIComponent(entry.id)}/book`, { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al crear la reserva");
+      setSuccess(`Reserva creada para ${entry.customerName}. Complete los datos y el abono en la factura.`);
+      setReloadKey((k) => k + 1);
+      onBooked();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al crear la reserva");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleCancel(entry: WaitlistEntryDTO) {
+    if (!confirm(`¿Quitar a ${entry.customerName} de la lista de espera?`)) return;
+    setBusyId(entry.id);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/waitlist/${encodeURIComponent(entry.id)}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al cancelar");
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al cancelar");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const inputClass =
+    "w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500";
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 tablet:p-6 space-y-4">
+      <div className="flex flex-col tablet:flex-row tablet:items-center tablet:justify-between gap-2">
+        <div>
+          <h3 className="text-base font-semibold text-jet">Lista de espera</h3>
+          <p className="text-jet/60 text-sm">
+            Las plazas liberadas se ofrecen por orden de llegada y se guardan por tiempo limitado (aviso por WhatsApp).
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <label className="flex items-center gap-2 text-sm text-jet/80">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Historial
+          </label>
+          <button
+            type="button"
+            onClick={() => setIsAdding((v) => !v)}
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-3 py-1.5 rounded-lg text-sm font-semibold"
+          >
+            {isAdding ? "Cerrar" : "+ Agregar"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+      {success && (
+        <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm">{success}</div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleAdd} className="grid grid-cols-1 tablet:grid-cols-2 lg:grid-cols-3 gap-3 items-end">
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Tour</label>
+            <select
+              value={form.tourId}
+              onChange={(e) => setForm({ ...form, tourId: e.target.value })}
+              className={inputClass}
+              required
+            >
+              <option value="">Seleccionar tour</option>
+              {products.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Fecha del tour</label>
+            <input
+              type="date"
+              value={form.fechaVisita}
+              onChange={(e) => setForm({ ...form, fechaVisita: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Plazas</label>
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={form.seats}
+              onChange={(e) => setForm({ ...form, seats: Math.max(1, Number(e.target.value) || 1) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Nombre</label>
+            <input
+              type="text"
+              value={form.customerName}
+              onChange={(e) => setForm({ ...form, customerName: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Teléfono</label>
+            <input
+              type="tel"
+              value={form.customerPhone}
+              onChange={(e) => setForm({ ...form, customerPhone: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold"
+          >
+            Agregar a la lista
+          </button>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-jet/60 uppercase tracking-wider border-b border-gold-200/50">
+              <th className="px-3 py-2">Tour / Fecha</th>
+              <th className="px-3 py-2">Cliente</th>
+              <th className="px-3 py-2 text-right">Plazas</th>
+              <th className="px-3 py-2">Estado</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-6 text-center text-jet/50">Cargando...</td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-6 text-center text-jet/50">No hay clientes en lista de espera.</td>
+              </tr>
+            ) : (
+              entries.map((e) => {
+                const isActive = e.status === "waiting" || e.status === "offered";
+                return (
+                  <tr key={e.id} className="border-b border-gold-200/30">
+                    <td className="px-3 py-2.5 text-jet">
+                      {e.tourName}
+                      <span className="block text-xs text-jet/60">{formatDate(e.fechaVisita)}</span>
+                    </td>
+                    <td className="px-3 py-2.5 text-jet">
+                      {e.customerName}
+                      <span className="block text-xs text-jet/60">
+                        {formatPhoneForDisplay(e.customerPhone)}
+                        {e.source === "web" ? " · Web" : ""}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2.5 text-right text-jet">{e.seats}</td>
+                    <td className="px-3 py-2.5">
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[e.status]}`}>
+                        {WAITLIST_STATUS_LABELS[e.status]}
+                        {e.position !== null ? ` #${e.position}` : ""}
+                      </span>
+                      {e.status === "offered" && (
+                        <span className="block text-xs text-jet/60 mt-0.5">
+                          Hasta {formatDateTime(e.holdExpiresAt)}
+                          {!e.notifiedAt && <span className="text-danger"> · WhatsApp no enviado</span>}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2.5 text-right whitespace-nowrap">
+                      {e.status === "offered" && (
+                        <button
+                          type="button"
+                          disabled={busyId === e.id}
+                          onClick={() => handleBook(e)}
+                          className="bg-success/10 text-success px-2.5 py-1 rounded-lg text-xs font-semibold disabled:opacity-50 mr-1"
+                        >
+                          Reservar
+                        </button>
+                      )}
+                      {isActive && (
+                        <button
+                          type="button"
+                          disabled={busyId === e.id}
+                          onClick={() => handleCancel(e)}
+                          className="bg-danger/10 text-danger px-2.5 py-1 rounded-lg text-xs font-semibold disabled:opacity-50"
+                        >
+                          Quitar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
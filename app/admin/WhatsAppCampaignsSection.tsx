@@ -0,0 +1,344 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type { Product } from "@/lib/products";
+import { getProvincias } from "@/lib/locationData";
+import { formatDateTime } from "@/lib/formatDate";
+import { formatPhoneForDisplay } from "@/lib/phone";
+import { formatWhatsAppError } from "./WhatsAppInboxSection";
+
+/** Campaign stats as returned by the campaigns API. */
+interface CampaignStats {
+  total: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  cancelled: number;
+}
+
+/** Campaign row from GET /api/whatsapp/campaigns. */
+interface CampaignRow {
+  id: string;
+  name: string;
+  status: string;
+  audience: { tourId?: string; fechaVisitaFrom?: string; fechaVisitaTo?: string; provincia?: string; paymentStatus?: string };
+  messageType: string;
+  preview: string;
+  createdBy: string;
+  totalRecipients: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  stats: CampaignStats;
+}
+
+/** Delivery row from GET /api/whatsapp/campaigns/[id]. */
+interface RecipientRow {
+  id: string;
+  phone: string;
+  customerName: string | null;
+  status: string;
+  attempts: number;
+  errorCode: number | null;
+  errorMessage: string | null;
+  sentAt: string | null;
+}
+
+/** Campaign list refresh interval while a campaign is sending (ms). */
+const REFRESH_MS = 15_000;
+
+/** Spanish labels for campaign status. */
+const CAMPAIGN_STATUS_LABELS: Record<string, string> = {
+  queued: "En cola",
+  sending: "Enviando",
+  completed: "Completada",
+  cancelled: "Cancelada",
+};
+
+/** Spanish labels for recipient status. */
+const RECIPIENT_STATUS_LABELS: Record<string, string> = {
+  pending: "Pendiente",
+  sending: "Enviando",
+  sent: "Enviado",
+  delivered: "Entregado",
+  read: "Leído",
+  failed: "Fallido",
+  cancelled: "Cancelado",
+};
+
+/**
+ * Percentage label (0 when total is 0).
+ */
+function percent(value: number, total: number): string {
+  return total > 0 ? `${Math.round((value / total) * 100)}%` : "0%";
+}
+
+/**
+ * Bulk WhatsApp campaigns: audience filters (tour, tour date, province, payment status), creation with the
+ * content composed in Mensajes, and progress with delivery/read stats. Sending runs in the background cron.
+ */
+export function WhatsAppCampaignsSection({
+  products,
+  content,
+}: {
+  products: Product[];
+  /** Message content from the composer (null while required fields are empty). */
+  content: Record<string, unknown> | null;
+}) {
+  const provincias = useMemo(() => getProvincias(), []);
+  const [name, setName] = useState("");
+  const [tourId, setTourId] = useState("");
+  const [fechaVisitaFrom, setFechaVisitaFrom] = useState("");
+  const [fechaVisitaTo, setFechaVisitaTo] = useState("");
+  const [provincia, setProvincia] = useState("");
+  const [paymentStatus, setPaymentStatus] = useState("");
+  const [audienceCount, setAudienceCount] = useState<number | null>(null);
+  const [campaigns, setCampaigns] = useState<CampaignRow[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [recipients, setRecipients] = useState<RecipientRow[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const audience = useMemo(
+    () => ({
+      tourId: tourId || undefined,
+      fechaVisitaFrom: fechaVisitaFrom || undefined,
+      fechaVisitaTo: fechaVisitaTo || undefined,
+      provincia: provincia || undefined,
+      paymentStatus: paymentStatus || undefined,
+    }),
+    [tourId, fechaVisitaFrom, fechaVisitaTo, provincia, paymentStatus]
+  );
+
+  const loadCampaigns = useCallback(() => {
+    return fetch("/api/whatsapp/campaigns")
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: CampaignRow[]) => setCampaigns(data))
+      .catch(() => setCampaigns([]));
+  }, []);
+
+  const loadRecipients = useCallback((campaignId: string) => {
+    return fetch(`/api/whatsapp/campaigns/${campaignId}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: { recipients: RecipientRow[] } | null) => setRecipients(data?.recipients ?? []))
+      .catch(() => setRecipients([]));
+  }, []);
+
+  useEffect(() => {
+    void loadCampaigns();
+  }, [loadCampaigns]);
+
+  const hasActive = campaigns.some((c) => c.status === "queued" || c.status === "sending");
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(() => {
+      void loadCampaigns();
+      if (expandedId) void loadRecipients(expandedId);
+    }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [hasActive, expandedId, loadCampaigns, loadRecipients]);
+
+  /** Audience size preview (distinct phones). */
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/whatsapp/campaigns/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(audience),
+    })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: { count: number } | null) => {
+        if (!cancelled) setAudienceCount(data?.count ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setAudienceCount(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audience]);
+
+  async function handleCreate() {
+    if (!content || !name.trim()) return;
+    if (!confirm(`¿Crear la campaña y enviar a ${audienceCount ?? "?"} clientes?`)) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/whatsapp/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), audience, ...content }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al crear la campaña");
+      setName("");
+      await loadCampaigns();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error al crear la campaña");
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleCancel(campaignId: string) {
+    if (!confirm("¿Cancelar la campaña? Los mensajes no enviados se descartan.")) return;
+    const res = await fetch(`/api/whatsapp/campaigns/${campaignId}/cancel`, { method: "POST" });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error ?? "Error al cancelar la campaña");
+    }
+    await loadCampaigns();
+  }
+
+  function handleToggle(campaignId: string) {
+    if (expandedId === campaignId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(campaignId);
+    setRecipients([]);
+    void loadRecipients(campaignId);
+  }
+
+  const inputClass =
+    "w-full bg-white border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500";
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 space-y-4">
+      <h3 className="text-sm font-semibold text-jet">Campañas</h3>
+      {error && <p className="text-danger text-sm">{error}</p>}
+
+      <div className="grid gap-3 tablet:grid-cols-2 tablet-lg:grid-cols-3">
+        <input
+          type="text"
+          placeholder="Nombre de la campaña"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClass}
+        />
+        <select value={tourId} onChange={(e) => setTourId(e.target.value)} className={inputClass}>
+          <option value="">Todos los tours</option>
+          {products.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <select value={provincia} onChange={(e) => setProvincia(e.target.value)} className={inputClass}>
+          <option value="">Todas las provincias</option>
+          {provincias.map((p) => (
+            <option key={p} value={p}>{p}</option>
+          ))}
+        </select>
+        <label className="text-xs text-jet/70">
+          Fecha del tour desde
+          <input type="date" value={fechaVisitaFrom} onChange={(e) => setFechaVisitaFrom(e.target.value)} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="text-xs text-jet/70">
+          Fecha del tour hasta
+          <input type="date" value={fechaVisitaTo} onChange={(e) => setFechaVisitaTo(e.target.value)} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="text-xs text-jet/70">
+          Estado de pago
+          <select value={paymentStatus} onChange={(e) => setPaymentStatus(e.target.value)} className={`${inputClass} mt-1`}>
+            <option value="">Todos</option>
+            <option value="paid">Pagadas</option>
+            <option value="pending">Pendientes</option>
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isCreating || !content || !name.trim() || !audienceCount}
+          className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+        >
+          {isCreating ? "Creando..." : "Crear campaña"}
+        </button>
+        <span className="text-sm text-jet/70">
+          {audienceCount == null ? "—" : `${audienceCount} clientes con teléfono`}
+        </span>
+        {!content && <span className="text-xs text-jet/50">Complete el contenido del mensaje.</span>}
+      </div>
+
+      {campaigns.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-jet/60 border-b border-gold-200/50">
+              <tr>
+                <th className="py-2 pr-2">Campaña</th>
+                <th className="py-2 pr-2">Estado</th>
+                <th className="py-2 pr-2">Progreso</th>
+                <th className="py-2 pr-2">Entregados</th>
+                <th className="py-2 pr-2">Leídos</th>
+                <th className="py-2 pr-2">Fallidos</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {campaigns.map((c) => {
+                const done = c.stats.sent + c.stats.failed + c.stats.cancelled;
+                const isActive = c.status === "queued" || c.status === "sending";
+                return (
+                  <tr key={c.id} className="border-b border-gold-200/30 align-top">
+                    <td className="py-2 pr-2">
+                      <button type="button" onClick={() => handleToggle(c.id)} className="text-left hover:text-aqua-700">
+                        <span className="font-medium text-jet">{c.name}</span>
+                        <span className="block text-xs text-jet/50 truncate max-w-[240px]">{c.preview}</span>
+                        <span className="block text-[10px] text-jet/40">
+                          {formatDateTime(c.createdAt)} · {c.createdBy}
+                        </span>
+                      </button>
+                      {expandedId === c.id && (
+                        <ul className="mt-2 max-h-48 overflow-y-auto text-xs space-y-0.5">
+                          {recipients.map((r) => (
+                            <li key={r.id} className="flex gap-2">
+                              <span className="text-jet/80">{r.customerName || formatPhoneForDisplay(r.phone)}</span>
+                              <span className={r.status === "failed" ? "text-danger" : "text-jet/50"}>
+                                {RECIPIENT_STATUS_LABELS[r.status] ?? r.status}
+                                {r.status === "failed" && ` · ${formatWhatsAppError(r.errorMessage ?? "Error", r.errorCode)}`}
+                                {r.attempts > 1 && ` · ${r.attempts} intentos`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">{CAMPAIGN_STATUS_LABELS[c.status] ?? c.status}</td>
+                    <td className="py-2 pr-2 min-w-[120px]">
+                      <div className="h-2 rounded-full bg-gold-200/40 overflow-hidden">
+                        <div className="h-full bg-aqua-700" style={{ width: percent(done, c.stats.total) }} />
+                      </div>
+                      <span className="text-xs text-jet/60">
+                        {done}/{c.stats.total}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-2">
+                      {c.stats.delivered} <span className="text-xs text-jet/50">({percent(c.stats.delivered, c.stats.sent)})</span>
+                    </td>
+                    <td className="py-2 pr-2">
+                      {c.stats.read} <span className="text-xs text-jet/50">({percent(c.stats.read, c.stats.sent)})</span>
+                    </td>
+                    <td className={`py-2 pr-2 ${c.stats.failed > 0 ? "text-danger" : ""}`}>{c.stats.failed}</td>
+                    <td className="py-2">
+                      {isActive && (
+                        <button
+                          type="button"
+                          onClick={() => void handleCancel(c.id)}
+                          className="text-xs text-danger hover:underline"
+                        >
+                          Cancelar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
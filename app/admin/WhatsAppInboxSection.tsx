@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { formatDate } from "@/lib/formatDate";
+import { formatPhoneForDisplay } from "@/lib/phone";
+
+/** Inbox thread (one per customer phone), as returned by GET /api/whatsapp/threads. */
+interface ThreadRow {
+  id: string;
+  phone: string;
+  profileName: string | null;
+  lastMessageAt: string | null;
+  lastMessagePreview: string | null;
+  unreadCount: number;
+}
+
+/** Message of a thread. */
+interface ThreadMessage {
+  id: string;
+  direction: string;
+  body: string | null;
+  status: string;
+  batchId: string | null;
+  kind: string | null;
+  messageType: string;
+  errorCode: number | null;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+/** Sale batch linked to a thread by phone. */
+interface LinkedBatch {
+  batchId: string;
+  reference: string;
+  customerName: string | null;
+  tourNames: string[];
+  fechaVisita: string | null;
+  total: number;
+  pendiente: number;
+  isPaid: boolean;
+  isVoided: boolean;
+}
+
+/** Thread detail from GET /api/whatsapp/threads/[phone]. */
+interface ThreadDetail {
+  phone: string;
+  contact: ThreadRow | null;
+  messages: ThreadMessage[];
+  batches: LinkedBatch[];
+}
+
+/** Inbox list refresh interval (ms). */
+const REFRESH_MS = 30_000;
+
+/** Spanish labels for message delivery status. */
+const STATUS_LABELS: Record<string, string> = {
+  sent: "Enviado",
+  delivered: "Entregado",
+  read: "Leído",
+  failed: "Fallido",
+};
+
+/** Hints for common Meta error codes. */
+const WHATSAPP_ERROR_HINTS: Record<number, string> = {
+  131047: "Fuera de la ventana de 24 horas: envíe una plantilla",
+  131026: "El número no puede recibir mensajes de WhatsApp",
+  132001: "La plantilla no existe o no está aprobada en ese idioma",
+  132000: "Los parámetros no coinciden con la plantilla",
+  131053: "No se pudo cargar el archivo",
+};
+
+/**
+ * Error text with Meta's error code and a hint when known.
+ * @param message - Error message from the API
+ * @param code - Meta error code (null when not from Meta)
+ */
+export function formatWhatsAppError(message: string, code: number | null | undefined): string {
+  if (code == null) return message;
+  const hint = WHATSAPP_ERROR_HINTS[code];
+  return hint ? `${hint} (código ${code})` : `${message} (código ${code})`;
+}
+
+/**
+ * Time label for the thread list: hour for today, date otherwise.
+ */
+function formatThreadTime(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const isToday = d.toDateString() === new Date().toDateString();
+  return isToday
+    ? d.toLocaleTimeString("es", { hour: "2-digit", minute: "2-digit" })
+    : formatDate(d);
+}
+
+/**
+ * WhatsApp inbox: threads grouped by customer phone with unread counts, the conversation,
+ * bookings linked by phone, and replies sent through the Cloud API.
+ */
+export function WhatsAppInboxSection({ onUnreadChange }: { onUnreadChange?: (total: number) => void }) {
+  const [threads, setThreads] = useState<ThreadRow[]>([]);
+  const [search, setSearch] = useState("");
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ThreadDetail | null>(null);
+  const [reply, setReply] = useState("");
+  const [replyBatchId, setReplyBatchId] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadThreads = useCallback(() => {
+    const params = new URLSearchParams();
+    if (search.trim()) params.set("search", search.trim());
+    if (unreadOnly) params.set("unread", "1");
+    return fetch(`/api/whatsapp/threads?${params.toString()}`)
+      .then((r) => (r.ok ? r.json() : { threads: [], unreadTotal: 0 }))
+      .then((data: { threads: ThreadRow[]; unreadTotal: number }) => {
+        setThreads(data.threads ?? []);
+        onUnreadChange?.(data.unreadTotal ?? 0);
+      })
+      .catch(() => setThreads([]));
+  }, [search, unreadOnly, onUnreadChange]);
+
+  const loadThread = useCallback((phone: string) => {
+    return fetch(`/api/whatsapp/threads/${encodeURIComponent(phone)}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: ThreadDetail | null) => setDetail(data))
+      .catch(() => setDetail(null));
+  }, []);
+
+  useEffect(() => {
+    void loadThreads();
+    const timer = setInterval(() => void loadThreads(), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [loadThreads]);
+
+  /**
+   * Opens a thread and marks it as read.
+   */
+  async function handleOpenThread(phone: string) {
+    setSelectedPhone(phone);
+    setReply("");
+    setReplyBatchId("");
+    setError(null);
+    await loadThread(phone);
+    const thread = threads.find((t) => t.phone === phone);
+    if (thread && thread.unreadCount > 0) {
+      await fetch(`/api/whatsapp/threads/${encodeURIComponent(phone)}/read`, { method: "POST" });
+      await loadThreads();
+    }
+  }
+
+  /**
+   * Sends the reply in the open thread.
+   */
+  async function handleSendReply(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selectedPhone || !reply.trim()) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/whatsapp/threads/${encodeURIComponent(selectedPhone)}/reply`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: reply.trim(), batchId: replyBatchId || undefined }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(formatWhatsAppError(data.error ?? "Error al enviar", data.code));
+      setReply("");
+      await Promise.all([loadThread(selectedPhone), loadThreads()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al enviar");
+      if (selectedPhone) void loadThread(selectedPhone);
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  const contactName = detail?.contact?.profileName || detail?.batches[0]?.customerName || null;
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 overflow-hidden">
+      <div className="grid tablet:grid-cols-[18rem_1fr] min-h-[28rem]">
+        {/* Thread list */}
+        <div className="border-b tablet:border-b-0 tablet:border-r border-gold-200/50 flex flex-col">
+          <div className="p-3 border-b border-gold-200/50 space-y-2">
+            <h3 className="text-sm font-semibold text-jet">Bandeja de entrada</h3>
+            <input
+              type="text"
+              placeholder="Buscar nombre o teléfono"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500"
+            />
+            <label className="flex items-center gap-2 text-xs text-jet/70">
+              <input
+                type="checkbox"
+                checked={unreadOnly}
+                onChange={(e) => setUnreadOnly(e.target.checked)}
+                className="rounded border-gold-200/50"
+              />
+              Solo no leídos
+            </label>
+          </div>
+          <ul className="flex-1 overflow-y-auto max-h-[32rem]">
+            {threads.length === 0 ? (
+              <li className="p-4 text-jet/50 text-sm">No hay conversaciones.</li>
+            ) : (
+              threads.map((t) => (
+                <li key={t.id}>
+                  <button
+                    type="button"
+                    onClick={() => void handleOpenThread(t.phone)}
+                    className={`w-full text-left px-3 py-2.5 border-b border-gold-200/30 transition-colors ${
+                      selectedPhone === t.phone ? "bg-aqua-700/10" : "hover:bg-pearl"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-sm truncate ${t.unreadCount > 0 ? "font-semibold text-jet" : "text-jet/80"}`}>
+                        {t.profileName || formatPhoneForDisplay(t.phone)}
+                      </span>
+                      <span className="text-[10px] text-jet/50 flex-shrink-0">{formatThreadTime(t.lastMessageAt)}</span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 mt-0.5">
+                      <span className="text-xs text-jet/60 truncate">{t.lastMessagePreview ?? "—"}</span>
+                      {t.unreadCount > 0 && (
+                        <span className="text-[10px] font-semibold min-w-5 h-5 px-1.5 rounded-full bg-aqua-700 text-white flex items-center justify-center flex-shrink-0">
+                          {t.unreadCount}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+
+        {/* Conversation */}
+        <div className="flex flex-col min-w-0">
+          {!selectedPhone || !detail ? (
+            <div className="flex-1 flex items-center justify-center p-6 text-jet/50 text-sm">
+              Selecciona una conversación.
+            </div>
+          ) : (
+            <>
+              <div className="p-3 border-b border-gold-200/50">
+                <p className="text-sm font-semibold text-jet">{contactName ?? formatPhoneForDisplay(detail.phone)}</p>
+                <p className="text-xs text-jet/60">{formatPhoneForDisplay(detail.phone)}</p>
+                {detail.batches.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {detail.batches.map((b) => (
+                      <span
+                        key={b.batchId}
+                        className={`text-[11px] px-2 py-0.5 rounded-full border ${
+                          b.isVoided
+                            ? "border-danger/30 text-danger/80 line-through"
+                            : b.isPaid
+                              ? "border-success/30 text-success"
+                              : "border-gold-500/40 text-gold-500"
+                        }`}
+                        title={b.tourNames.join(", ")}
+                      >
+                        Factura #{b.reference}
+                        {b.fechaVisita ? ` · ${formatDate(b.fechaVisita)}` : ""}
+                        {!b.isVoided && !b.isPaid && b.pendiente > 0 ? ` · debe RD$ ${b.pendiente.toLocaleString()}` : ""}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 overflow-y-auto max-h-[24rem] p-3 space-y-2 bg-pearl/50">
+                {detail.messages.map((m) => {
+                  const isInbound = m.direction === "inbound";
+                  return (
+                    <div key={m.id} className={`flex ${isInbound ? "justify-start" : "justify-end"}`}>
+                      <div
+                        className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                          isInbound ? "bg-white border border-gold-200/50 text-jet" : "bg-aqua-700/10 text-jet"
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap break-words">{m.body ?? "—"}</p>
+                        <p className={`text-[10px] mt-1 ${m.status === "failed" ? "text-danger" : "text-jet/50"}`}>
+                          {new Date(m.createdAt).toLocaleString("es")}
+                          {!isInbound && ` · ${STATUS_LABELS[m.status] ?? m.status}`}
+                          {m.kind === "payment_reminder" && " · Recordatorio de pago"}
+                        </p>
+                        {m.status === "failed" && (m.errorCode != null || m.errorMessage) && (
+                          <p className="text-[10px] text-danger" title={m.errorMessage ?? undefined}>
+                            {formatWhatsAppError(m.errorMessage ?? "Error", m.errorCode)}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <form onSubmit={handleSendReply} className="p-3 border-t border-gold-200/50 space-y-2">
+                {error && <p className="text-danger text-xs">{error}</p>}
+                {detail.batches.length > 0 && (
+                  <select
+                    value={replyBatchId}
+                    onChange={(e) => setReplyBatchId(e.target.value)}
+                    className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-xs focus:outline-none focus:ring-2 focus:ring-aqua-500"
+                  >
+                    <option value="">Sin vincular a factura</option>
+                    {detail.batches.map((b) => (
+                      <option key={b.batchId} value={b.batchId}>
+                        Factura #{b.reference} — {b.tourNames.join(", ")}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <div className="flex gap-2">
+                  <textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="Escribe una respuesta"
+                    rows={2}
+                    maxLength={4096}
+                    className="flex-1 bg-white border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isSending || !reply.trim()}
+                    className="self-end bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+                  >
+                    {isSending ? "Enviando..." : "Responder"}
+                  </button>
+                </div>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
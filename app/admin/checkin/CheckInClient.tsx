@@ -0,0 +1,307 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { formatDate } from "@/lib/formatDate";
+import { formatMoney } from "@/lib/currency";
+import {
+  CHECK_IN_STATUS_LABELS,
+  MANIFEST_PASSENGER_LABELS,
+  type CheckInStatus,
+} from "@/lib/validation";
+import type { CheckInBookingDTO } from "@/lib/checkin";
+
+/** Minimal BarcodeDetector API (Chrome/Android); not in the TypeScript DOM lib yet. */
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+/** Interval between camera frames checked for a QR code (ms). */
+const SCAN_INTERVAL_MS = 300;
+
+/**
+ * Returns the browser's BarcodeDetector when available.
+ */
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+/**
+ * Fetches the booking for a scanned or typed code.
+ */
+async function fetchBooking(code: string): Promise<CheckInBookingDTO> {
+  const res = await fetch(`/api/checkin?code=${encodeURIComponent(code)}`);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? "Error al buscar la reserva");
+  return data as CheckInBookingDTO;
+}
+
+/**
+ * Check-in: scan the invoice QR (camera, where supported) or type the booking reference,
+ * then mark each passenger boarded or no-show for the selected tour.
+ */
+export function CheckInClient({ initialCode }: { initialCode: string }) {
+  const [code, setCode] = useState(initialCode);
+  const [booking, setBooking] = useState<CheckInBookingDTO | null>(null);
+  const [tourId, setTourId] = useState("");
+  const [loading, setLoading] = useState(Boolean(initialCode));
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const canScan = getBarcodeDetector() !== null;
+
+  /**
+   * Shows a looked-up booking and selects its first tour.
+   */
+  function showBooking(found: CheckInBookingDTO) {
+    setBooking(found);
+    setTourId((current) => (found.tours.some((t) => t.tourId === current) ? current : found.tours[0]?.tourId ?? ""));
+    setError(null);
+  }
+
+  useEffect(() => {
+    if (!initialCode) return;
+    fetchBooking(initialCode)
+      .then(showBooking)
+      .catch((err) => setError(err instanceof Error ? err.message : "Error al buscar la reserva"))
+      .finally(() => setLoading(false));
+  }, [initialCode]);
+
+  /**
+   * Stops the camera.
+   */
+  function stopScan() {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }
+
+  useEffect(() => {
+    if (!scanning) return;
+    const Detector = getBarcodeDetector();
+    const video = videoRef.current;
+    if (!Detector || !video) return;
+    const detector = new Detector({ formats: ["qr_code"] });
+    let busy = false;
+    const timer = setInterval(() => {
+      if (busy || video.readyState < 2) return;
+      busy = true;
+      detector
+        .detect(video)
+        .then((codes) => {
+          const value = codes[0]?.rawValue;
+          if (!value) return;
+          stopScan();
+          setCode(value);
+          setLoading(true);
+          return fetchBooking(value)
+            .then(showBooking)
+            .catch((err) => setError(err instanceof Error ? err.message : "Error al buscar la reserva"))
+            .finally(() => setLoading(false));
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          busy = false;
+        });
+    }, SCAN_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [scanning]);
+
+  // Release the camera when leaving the page
+  useEffect(() => () => streamRef.current?.getTracks().forEach((track) => track.stop()), []);
+
+  async function handleStartScan() {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      setScanning(true);
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+    } catch {
+      setError("No se pudo abrir la cámara. Escriba el número de factura.");
+      stopScan();
+    }
+  }
+
+  async function handleLookup(e: React.FormEvent) {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      showBooking(await fetchBooking(code.trim()));
+    } catch (err) {
+      setBooking(null);
+      setError(err instanceof Error ? err.message : "Error al buscar la reserva");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleMark(passengerIndex: number, status: CheckInStatus | null) {
+    if (!booking || !tourId) return;
+    setSavingIndex(passengerIndex);
+    setError(null);
+    try {
+      const res = await fetch("/api/checkin", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ batchId: booking.batchId, tourId, passengerIndex, status }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al registrar");
+      showBooking(data as CheckInBookingDTO);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error al registrar");
+    } finally {
+      setSavingIndex(null);
+    }
+  }
+
+  const boardedCount = booking?.passengers.filter((p) => p.statusByTour[tourId] === "boarded").length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleLookup} className="bg-porcelain rounded-xl border border-gold-200/50 p-4 space-y-3">
+        <label className="block text-sm font-medium text-jet/80">Código QR o número de factura</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Ej. 4F7K2Q9A"
+            autoCapitalize="characters"
+            autoComplete="off"
+            className="flex-1 min-w-0 bg-pearl border border-gold-200/50 rounded-lg px-3 py-3 text-jet text-base focus:outline-none focus:ring-2 focus:ring-aqua-500"
+          />
+          <button
+            type="submit"
+            disabled={loading || !code.trim()}
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-3 rounded-lg text-sm font-semibold disabled:opacity-50 min-h-[44px]"
+          >
+            {loading ? "..." : "Buscar"}
+          </button>
+        </div>
+        {canScan && (
+          <button
+            type="button"
+            onClick={scanning ? stopScan : handleStartScan}
+            className="w-full bg-aqua-700/10 text-aqua-700 py-3 rounded-lg text-sm font-semibold min-h-[44px]"
+          >
+            {scanning ? "Detener cámara" : "📷 Escanear QR"}
+          </button>
+        )}
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={`w-full rounded-lg bg-jet ${scanning ? "block" : "hidden"}`}
+        />
+      </form>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {booking && (
+        <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4 space-y-3">
+          <div>
+            <p className="text-base font-semibold text-jet">
+              Factura #{booking.reference} · {booking.customerName ?? "—"}
+            </p>
+            <p className="text-sm text-jet/60">
+              {booking.fechaVisita ? formatDate(booking.fechaVisita) : "Sin fecha"}
+              {" · "}
+              {boardedCount}/{booking.passengers.length} abordaron
+            </p>
+            {booking.isVoided && <p className="text-sm font-semibold text-danger mt-1">Factura anulada</p>}
+            {!booking.isVoided && booking.pendiente > 0 && (
+              <p className="text-sm font-semibold text-danger mt-1">
+                Saldo pendiente: {formatMoney(booking.pendiente, booking.currency)}
+              </p>
+            )}
+          </div>
+
+          {booking.tours.length > 1 && (
+            <select
+              value={tourId}
+              onChange={(e) => setTourId(e.target.value)}
+              className="w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500"
+            >
+              {booking.tours.map((t) => (
+                <option key={t.tourId} value={t.tourId}>
+                  {t.name} ({t.seats} plazas)
+                </option>
+              ))}
+            </select>
+          )}
+          {booking.tours.length === 1 && <p className="text-sm text-jet/80">{booking.tours[0].name}</p>}
+
+          <ul className="space-y-2">
+            {booking.passengers.map((p) => {
+              const status = p.statusByTour[tourId];
+              const isSaving = savingIndex === p.index;
+              return (
+                <li
+                  key={p.index}
+                  className={`rounded-lg border p-3 ${
+                    status === "boarded"
+                      ? "border-success/40 bg-success/5"
+                      : status === "no_show"
+                        ? "border-danger/30 bg-danger/5"
+                        : "border-gold-200/50 bg-pearl"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-jet truncate">{p.name || "Sin nombre"}</p>
+                      <p className="text-xs text-jet/60">
+                        {MANIFEST_PASSENGER_LABELS[p.type]}
+                        {p.cedulaPassport ? ` · ${p.cedulaPassport}` : ""}
+                      </p>
+                    </div>
+                    {status && (
+                      <span className={`text-xs font-semibold ${status === "boarded" ? "text-success" : "text-danger"}`}>
+                        {CHECK_IN_STATUS_LABELS[status]}
+                      </span>
+                    )}
+                  </div>
+                  {!booking.isVoided && (
+                    <div className="grid grid-cols-2 gap-2 mt-2">
+                      <button
+                        type="button"
+                        disabled={isSaving}
+                        onClick={() => handleMark(p.index, status === "boarded" ? null : "boarded")}
+                        className={`py-2.5 rounded-lg text-sm font-semibold min-h-[44px] disabled:opacity-50 ${
+                          status === "boarded" ? "bg-success text-white" : "bg-success/10 text-success"
+                        }`}
+                      >
+                        {CHECK_IN_STATUS_LABELS.boarded}
+                      </button>
+                      <button
+                        type="button"
+                        disabled={isSaving}
+                        onClick={() => handleMark(p.index, status === "no_show" ? null : "no_show")}
+                        className={`py-2.5 rounded-lg text-sm font-semibold min-h-[44px] disabled:opacity-50 ${
+                          status === "no_show" ? "bg-danger text-white" : "bg-danger/10 text-danger"
+                        }`}
+                      >
+                        {CHECK_IN_STATUS_LABELS.no_show}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { getSessionContext } from "@/lib/auth";
+import { CheckInClient } from "./CheckInClient";
+
+/** Force dynamic rendering to ensure fresh cookie reads. */
+export const dynamic = "force-dynamic";
+
+/**
+ * Day-of-tour check-in page (mobile-first). Opened from the invoice QR (?code=) or from the panel;
+ * scans or takes a typed code and marks each passenger boarded or no-show.
+ */
+export default async function CheckInPage({ searchParams }: { searchParams: Promise<{ code?: string }> }) {
+  const { code } = await searchParams;
+  const session = await getSessionContext();
+  if (!session.isValid) {
+    const back = code ? `/admin/checkin?code=${encodeURIComponent(code)}` : "/admin/checkin";
+    redirect(`/admin/login?redirect=${encodeURIComponent(back)}`);
+  }
+
+  return (
+    <main className="min-h-screen bg-pearl">
+      {/* Header */}
+      <header className="bg-porcelain border-b border-gold-200/50 sticky top-0 z-50 shadow-sm">
+        <div className="max-w-xl mx-auto px-4 py-3">
+          <div className="flex items-center gap-4">
+            <Link href="/admin" className="text-aqua-700 hover:text-aqua-500 text-sm">
+              ← Volver al panel
+            </Link>
+            <h1 className="text-lg font-semibold text-jet">Check-in</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-xl mx-auto px-4 py-4">
+        <CheckInClient initialCode={code ?? ""} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,178 @@
+import { redirect, notFound } from "next/navigation";
+import Link from "next/link";
+import { getSessionContext } from "@/lib/auth";
+import { getCustomerProfile } from "@/lib/customers";
+import { formatCurrencyAmounts, formatMoney } from "@/lib/currency";
+import { formatDate } from "@/lib/formatDate";
+import { formatPhoneForDisplay, formatPhoneForWhatsApp } from "@/lib/phone";
+
+/** Force dynamic rendering to ensure fresh data. */
+export const dynamic = "force-dynamic";
+
+/**
+ * Customer profile page: details, booking history, lifetime spend, outstanding balance and WhatsApp thread.
+ * Supervisors only see their own bookings of the customer.
+ */
+export default async function CustomerProfilePage({ params }: { params: Promise<{ id: string }> }) {
+  const session = await getSessionContext();
+  if (!session.isValid) redirect("/admin/login");
+
+  const { id } = await params;
+  const scope =
+    session.role === "supervisor" && session.supervisorName ? { supervisor: session.supervisorName } : {};
+  const profile = await getCustomerProfile(id, scope);
+  if (!profile) notFound();
+
+  const { customer, bookings, lifetimeSpend, outstanding, messages } = profile;
+  const hasOutstanding = Object.values(outstanding).some((amount) => amount > 0);
+  const location = [customer.municipio, customer.provincia].filter(Boolean).join(", ");
+
+  return (
+    <main className="min-h-screen bg-pearl">
+      {/* Header */}
+      <header className="bg-porcelain border-b border-gold-200/50 sticky top-0 z-50 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 md:py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/admin" className="text-aqua-700 hover:text-aqua-500 text-sm">
+              ← Volver al panel
+            </Link>
+            <h1 className="text-lg font-semibold text-jet">Cliente</h1>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 md:py-8 space-y-6">
+        <div className="bg-porcelain rounded-xl border border-gold-200/50 p-6">
+          <h2 className="text-xl font-semibold text-jet">{customer.name || "Sin nombre"}</h2>
+          <dl className="mt-3 grid grid-cols-1 tablet:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+            <div>
+              <dt className="text-jet/60">Teléfono</dt>
+              <dd className="text-jet">
+                {customer.phone ? (
+                  <a
+                    href={`https://wa.me/${formatPhoneForWhatsApp(customer.phone)}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-aqua-700 hover:text-aqua-500"
+                  >
+                    {formatPhoneForDisplay(customer.phone)}
+                  </a>
+                ) : (
+                  "—"
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-jet/60">Cédula/Pasaporte</dt>
+              <dd className="text-jet">{customer.cedula ?? "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-jet/60">Ubicación</dt>
+              <dd className="text-jet">{location || "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-jet/60">Dirección</dt>
+              <dd className="text-jet">{customer.address ?? "—"}</dd>
+            </div>
+          </dl>
+        </div>
+
+        <div className="grid grid-cols-1 tablet:grid-cols-3 gap-4">
+          <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+            <p className="text-xs text-jet/60 uppercase tracking-wider">Reservas</p>
+            <p className="text-2xl font-bold text-jet mt-1">{customer.bookingsCount}</p>
+          </div>
+          <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+            <p className="text-xs text-jet/60 uppercase tracking-wider">Total histórico</p>
+            <p className="text-lg font-bold text-jet mt-1">{formatCurrencyAmounts(lifetimeSpend)}</p>
+            <p className="text-xs text-jet/50">Sin facturas anuladas</p>
+          </div>
+          <div className="bg-porcelain rounded-xl border border-gold-200/50 p-4">
+            <p className="text-xs text-jet/60 uppercase tracking-wider">Saldo pendiente</p>
+            <p className={`text-lg font-bold mt-1 ${hasOutstanding ? "text-danger" : "text-success"}`}>
+              {formatCurrencyAmounts(outstanding)}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-porcelain rounded-xl border border-gold-200/50 overflow-x-auto">
+          <h3 className="text-sm font-semibold text-jet px-4 pt-4 pb-2">Historial de reservas</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-jet/60 uppercase tracking-wider border-b border-gold-200/50">
+                <th className="px-4 py-2">Factura</th>
+                <th className="px-4 py-2">Tours</th>
+                <th className="px-4 py-2">Fecha del tour</th>
+                <th className="px-4 py-2 text-right">Total</th>
+                <th className="px-4 py-2 text-right">Pendiente</th>
+                <th className="px-4 py-2">Estado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bookings.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-jet/50">Sin reservas.</td>
+                </tr>
+              ) : (
+                bookings.map((b) => (
+                  <tr key={b.batchId} className={`border-b border-gold-200/30 ${b.isVoided ? "opacity-60" : ""}`}>
+                    <td className="px-4 py-2.5 text-jet font-medium">
+                      #{b.reference}
+                      <span className="block text-xs text-jet/50 font-normal">{formatDate(b.createdAt)}</span>
+                    </td>
+                    <td className="px-4 py-2.5 text-jet/80">{b.tourNames.join(", ") || "—"}</td>
+                    <td className="px-4 py-2.5 text-jet/80">{b.fechaVisita ? formatDate(b.fechaVisita) : "—"}</td>
+                    <td className="px-4 py-2.5 text-right text-jet">{formatMoney(b.total, b.currency)}</td>
+                    <td className="px-4 py-2.5 text-right text-jet">
+                      {b.isVoided ? "—" : formatMoney(b.pendiente, b.currency)}
+                    </td>
+                    <td className="px-4 py-2.5">
+                      {b.isVoided ? (
+                        <span className="text-xs text-danger">Anulada</span>
+                      ) : b.isPaid ? (
+                        <span className="text-xs text-success">Pagada</span>
+                      ) : (
+                        <span className="text-xs text-gold-500">Pendiente</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-porcelain rounded-xl border border-gold-200/50">
+          <h3 className="text-sm font-semibold text-jet px-4 pt-4 pb-2">WhatsApp</h3>
+          {messages.length === 0 ? (
+            <p className="px-4 pb-4 text-sm text-jet/50">
+              {customer.phone ? "Sin mensajes con este cliente." : "El cliente no tiene teléfono registrado."}
+            </p>
+          ) : (
+            <div className="max-h-[28rem] overflow-y-auto p-3 space-y-2 bg-pearl/50 rounded-b-xl">
+              {messages.map((m) => {
+                const isInbound = m.direction === "inbound";
+                return (
+                  <div key={m.id} className={`flex ${isInbound ? "justify-start" : "justify-end"}`}>
+                    <div
+                      className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                        isInbound ? "bg-white border border-gold-200/50 text-jet" : "bg-aqua-700/10 text-jet"
+                      }`}
+                    >
+                      <p className="whitespace-pre-wrap break-words">{m.body ?? "—"}</p>
+                      <p className={`text-[10px] mt-1 ${m.status === "failed" ? "text-danger" : "text-jet/50"}`}>
+                        {m.createdAt.toLocaleString("es")}
+                        {m.status === "failed" && " · Fallido"}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
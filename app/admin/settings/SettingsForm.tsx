@@ -4,22 +4,33 @@ import { useActionState, useState, useRef } from "react";
 import type { AdminSettingsDTO } from "@/lib/settings";
 import { SellerManagementSection } from "@/components/SellerManagementSection";
 import { UserManagementSection } from "@/components/UserManagementSection";
+import { NcfSequenceSection } from "@/components/NcfSequenceSection";
+import { ExchangeRateSection } from "@/components/ExchangeRateSection";
+import { PromoCodeSection } from "@/components/PromoCodeSection";
+import { CustomerBackfillSection } from "@/components/CustomerBackfillSection";
 
 interface SettingsFormProps {
   initialSettings: AdminSettingsDTO;
   onChangePassword: (formData: FormData) => Promise<{ error?: string; success?: string }>;
   onUpdateSettings: (formData: FormData) => Promise<{ error?: string; success?: string }>;
+  onUpdateReminders: (formData: FormData) => Promise<{ error?: string; success?: string }>;
+  onUpdateFiscal: (formData: FormData) => Promise<{ error?: string; success?: string }>;
+  /** Reminder template used when none is saved. */
+  defaultReminderTemplate: string;
   role?: "admin" | "support";
 }
 
 /**
  * Client component for admin settings forms.
- * Handles password change, users, dashboard configuration, export and import.
+ * Handles password change, users, dashboard configuration, payment reminders, taxes and NCF, exchange rates, promo codes, export and import.
  */
 export function SettingsForm({
   initialSettings,
   onChangePassword,
   onUpdateSettings,
+  onUpdateReminders,
+  onUpdateFiscal,
+  defaultReminderTemplate,
   role = "admin",
 }: SettingsFormProps) {
   return (
@@ -31,6 +42,16 @@ export function SettingsForm({
       />
       <SellerManagementSection />
       <UserManagementSection />
+      <PaymentReminderSettingsForm
+        initialSettings={initialSettings}
+        defaultTemplate={defaultReminderTemplate}
+        action={onUpdateReminders}
+      />
+      <FiscalSettingsForm initialSettings={initialSettings} action={onUpdateFiscal} />
+      <NcfSequenceSection />
+      <ExchangeRateSection />
+      <PromoCodeSection />
+      <CustomerBackfillSection />
       <div className="lg:col-span-2">
         <ExportImportSection />
       </div>
@@ -227,6 +248,263 @@ function DashboardSettingsForm({
   );
 }
 
+/**
+ * WhatsApp payment-deadline reminder settings (cron /api/cron/payment-reminders).
+ */
+function PaymentReminderSettingsForm({
+  initialSettings,
+  defaultTemplate,
+  action,
+}: {
+  initialSettings: AdminSettingsDTO;
+  defaultTemplate: string;
+  action: (formData: FormData) => Promise<{ error?: string; success?: string }>;
+}) {
+  const [state, formAction, isPending] = useActionState(
+    async (_prevState: { error?: string; success?: string } | null, formData: FormData) => {
+      const result = await action(formData);
+      return result;
+    },
+    null
+  );
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-6 lg:col-span-2">
+      <h2 className="text-lg font-semibold text-jet mb-4">Recordatorios de Pago (WhatsApp)</h2>
+      <p className="text-jet/60 text-sm mb-6">
+        Envía un recordatorio automático a los clientes con saldo pendiente cuando se acerca o pasa la fecha límite de pago.
+      </p>
+
+      <form action={formAction} className="space-y-4">
+        {/* Success message */}
+        {state?.success && (
+          <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm">
+            {state.success}
+          </div>
+        )}
+
+        {/* Error message */}
+        {state?.error && (
+          <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">
+            {state.error}
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm font-medium text-jet/80">
+          <input
+            type="checkbox"
+            name="paymentReminderEnabled"
+            defaultChecked={initialSettings.paymentReminderEnabled}
+            className="w-4 h-4 rounded border-gold-200/50 text-aqua-700 focus:ring-aqua-500"
+          />
+          Activar recordatorios automáticos
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="paymentReminderLeadDays"
+              className="block text-sm font-medium text-jet/80 mb-1.5"
+            >
+              Días de anticipación
+            </label>
+            <p className="text-jet/50 text-xs mb-2">
+              Se recuerda desde estos días antes de la fecha límite (y después, mientras siga pendiente).
+            </p>
+            <input
+              type="number"
+              id="paymentReminderLeadDays"
+              name="paymentReminderLeadDays"
+              min={0}
+              max={60}
+              defaultValue={initialSettings.paymentReminderLeadDays}
+              required
+              className="w-full max-w-xs bg-pearl border border-gold-200/50 rounded-lg px-4 py-2.5 text-jet placeholder-jet/40 focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="paymentReminderIntervalDays"
+              className="block text-sm font-medium text-jet/80 mb-1.5"
+            >
+              Días entre recordatorios
+            </label>
+            <p className="text-jet/50 text-xs mb-2">
+              No se vuelve a recordar una factura ya recordada dentro de este plazo.
+            </p>
+            <input
+              type="number"
+              id="paymentReminderIntervalDays"
+              name="paymentReminderIntervalDays"
+              min={1}
+              max={60}
+              defaultValue={initialSettings.paymentReminderIntervalDays}
+              required
+              className="w-full max-w-xs bg-pearl border border-gold-200/50 rounded-lg px-4 py-2.5 text-jet placeholder-jet/40 focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="paymentReminderTemplateName"
+              className="block text-sm font-medium text-jet/80 mb-1.5"
+            >
+              Plantilla aprobada de WhatsApp
+            </label>
+            <p className="text-jet/50 text-xs mb-2">
+              Nombre en WhatsApp Manager. Parámetros del cuerpo: {"{{1}}"} nombre, {"{{2}}"} factura, {"{{3}}"} tour, {"{{4}}"} moneda, {"{{5}}"} pendiente, {"{{6}}"} fecha límite, {"{{7}}"} empresa.
+            </p>
+            <input
+              type="text"
+              id="paymentReminderTemplateName"
+              name="paymentReminderTemplateName"
+              maxLength={512}
+              placeholder="recordatorio_pago"
+              defaultValue={initialSettings.paymentReminderTemplateName ?? ""}
+              className="w-full max-w-xs bg-pearl border border-gold-200/50 rounded-lg px-4 py-2.5 text-jet placeholder-jet/40 focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="paymentReminderTemplateLanguage"
+              className="block text-sm font-medium text-jet/80 mb-1.5"
+            >
+              Idioma de la plantilla
+            </label>
+            <p className="text-jet/50 text-xs mb-2">
+              Código de idioma con el que se aprobó (p. ej. es, es_MX).
+            </p>
+            <input
+              type="text"
+              id="paymentReminderTemplateLanguage"
+              name="paymentReminderTemplateLanguage"
+              maxLength={15}
+              defaultValue={initialSettings.paymentReminderTemplateLanguage}
+              className="w-full max-w-xs bg-pearl border border-gold-200/50 rounded-lg px-4 py-2.5 text-jet placeholder-jet/40 focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="paymentReminderTemplate"
+            className="block text-sm font-medium text-jet/80 mb-1.5"
+          >
+            Texto del mensaje
+          </label>
+          <p className="text-jet/50 text-xs mb-2">
+            Texto de la plantilla aprobada, tal como se guarda en el historial del chat. Variables: {"{nombre}"}, {"{factura}"}, {"{tour}"}, {"{moneda}"}, {"{pendiente}"}, {"{fechaLimite}"}, {"{empresa}"}. Déjalo vacío para usar el texto por defecto.
+          </p>
+          <textarea
+            id="paymentReminderTemplate"
+            name="paymentReminderTemplate"
+            rows={4}
+            maxLength={1000}
+            defaultValue={initialSettings.paymentReminderTemplate ?? defaultTemplate}
+            className="w-full bg-pearl border border-gold-200/50 rounded-lg px-4 py-2.5 text-jet text-sm placeholder-jet/40 focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="pt-2">
+          <button
+            type="submit"
+            disabled={isPending}
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-6 py-2.5 rounded-lg text-sm font-semibold disabled:opacity-50 transition-colors"
+          >
+            {isPending ? "Guardando..." : "Guardar Recordatorios"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+/**
+ * ITBIS settings used when issuing comprobantes fiscales.
+ */
+function FiscalSettingsForm({
+  initialSettings,
+  action,
+}: {
+  initialSettings: AdminSettingsDTO;
+  action: (formData: FormData) => Promise<{ error?: string; success?: string }>;
+}) {
+  const [state, formAction, isPending] = useActionState(
+    async (_prevState: { error?: string; success?: string } | null, formData: FormData) => {
+      const result = await action(formData);
+      return result;
+    },
+    null
+  );
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-6 lg:col-span-2">
+      <h2 className="text-lg font-semibold text-jet mb-4">Impuestos (ITBIS)</h2>
+      <p className="text-jet/60 text-sm mb-6">
+        Tasa aplicada al emitir el comprobante fiscal de una factura. Los comprobantes ya emitidos conservan la tasa con la que se emitieron.
+      </p>
+
+      <form action={formAction} className="space-y-4">
+        {/* Success message */}
+        {state?.success && (
+          <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm">
+            {state.success}
+          </div>
+        )}
+
+        {/* Error message */}
+        {state?.error && (
+          <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm">
+            {state.error}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="itbisRate" className="block text-sm font-medium text-jet/80 mb-1.5">
+            Tasa de ITBIS (%)
+          </label>
+          <input
+            type="number"
+            id="itbisRate"
+            name="itbisRate"
+            min={0}
+            max={30}
+            step="0.01"
+            defaultValue={Math.round(initialSettings.itbisRate * 10000) / 100}
+            required
+            className="w-full max-w-xs bg-pearl border border-gold-200/50 rounded-lg px-4 py-2.5 text-jet placeholder-jet/40 focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent"
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm font-medium text-jet/80">
+          <input
+            type="checkbox"
+            name="pricesIncludeItbis"
+            defaultChecked={initialSettings.pricesIncludeItbis}
+            className="w-4 h-4 rounded border-gold-200/50 text-aqua-700 focus:ring-aqua-500"
+          />
+          Los precios de venta ya incluyen ITBIS
+        </label>
+        <p className="text-jet/50 text-xs">
+          Si está activo, el ITBIS se desglosa del total de la factura. Si no, no se pueden emitir comprobantes fiscales (el ITBIS superaría lo cobrado).
+        </p>
+
+        <div className="pt-2">
+          <button
+            type="submit"
+            disabled={isPending}
+            className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-6 py-2.5 rounded-lg text-sm font-semibold disabled:opacity-50 transition-colors"
+          >
+            {isPending ? "Guardando..." : "Guardar Impuestos"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
 /**
  * Export data (CSV download) and Import sales (CSV upload) section.
  * Export uses GET /api/export; import uses POST /api/import/sales.
@@ -240,14 +518,18 @@ function ExportImportSection() {
     error?: string;
   } | null>(null);
   const [importing, setImporting] = useState(false);
+  const [dgiiMonth, setDgiiMonth] = useState(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   /**
    * Triggers CSV download for the given export type.
    * Uses same API as dashboard export (sends cookies automatically).
    */
-  function handleExport(type: string) {
-    const url = `/api/export?type=${type}`;
+  function handleExport(type: string, params = "") {
+    const url = `/api/export?type=${type}${params}`;
     const link = document.createElement("a");
     link.href = url;
     link.download = "";
@@ -333,6 +615,38 @@ function ExportImportSection() {
           >
             Historial mensual
           </button>
+          <button
+            type="button"
+            onClick={() => handleExport("monthly_breakdown")}
+            className="bg-jet/10 hover:bg-jet/20 text-jet px-3 py-2 rounded-lg text-xs font-medium transition-colors"
+          >
+            Desglose mensual
+          </button>
+        </div>
+        <div className="flex flex-wrap items-end gap-2 mt-3">
+          <div>
+            <label htmlFor="dgii-month" className="block text-xs text-jet/60 mb-1">
+              Período 607 (DGII)
+            </label>
+            <input
+              id="dgii-month"
+              type="month"
+              value={dgiiMonth}
+              onChange={(e) => setDgiiMonth(e.target.value)}
+              className="bg-pearl border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-xs focus:outline-none focus:ring-2 focus:ring-aqua-500"
+            />
+          </div>
+          <button
+            type="button"
+            disabled={!dgiiMonth}
+            onClick={() => {
+              const [year, month] = dgiiMonth.split("-");
+              handleExport("607", `&year=${year}&month=${parseInt(month, 10)}`);
+            }}
+            className="bg-aqua-700/10 hover:bg-aqua-700/20 text-aqua-700 px-3 py-2 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+          >
+            Formato 607
+          </button>
         </div>
       </div>
 
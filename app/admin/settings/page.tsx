@@ -9,6 +9,8 @@ import {
 import { validatePassword } from "@/lib/passwordPolicy";
 import { checkRateLimit, getClientIp, RATE_LIMITS } from "@/lib/rateLimit";
 import { getAdminSettings, updateAdminSettings } from "@/lib/settings";
+import { DEFAULT_PAYMENT_REMINDER_TEMPLATE } from "@/lib/paymentReminders";
+import { WhatsAppTemplateSchema } from "@/lib/validation";
 import { SettingsForm } from "./SettingsForm";
 
 /** Force dynamic rendering to ensure fresh data. */
@@ -102,6 +104,81 @@ export default async function AdminSettingsPage() {
     return { success: "Configuración actualizada" };
   }
 
+  /**
+   * Server action to update WhatsApp payment-deadline reminder settings.
+   */
+  async function handleUpdateReminders(formData: FormData) {
+    "use server";
+
+    const currentSession = await getSessionContext();
+    if (!currentSession.isValid || (currentSession.role !== "admin" && currentSession.role !== "support")) {
+      return { error: "No autorizado" };
+    }
+
+    const paymentReminderEnabled = formData.get("paymentReminderEnabled") === "on";
+    const paymentReminderLeadDays = parseInt((formData.get("paymentReminderLeadDays") as string) ?? "", 10);
+    const paymentReminderIntervalDays = parseInt((formData.get("paymentReminderIntervalDays") as string) ?? "", 10);
+    const template = ((formData.get("paymentReminderTemplate") as string) || "").trim();
+    const templateName = ((formData.get("paymentReminderTemplateName") as string) || "").trim();
+    const templateLanguage = ((formData.get("paymentReminderTemplateLanguage") as string) || "").trim() || "es";
+
+    if (Number.isNaN(paymentReminderLeadDays) || paymentReminderLeadDays < 0 || paymentReminderLeadDays > 60) {
+      return { error: "Los días de anticipación deben estar entre 0 y 60" };
+    }
+    if (Number.isNaN(paymentReminderIntervalDays) || paymentReminderIntervalDays < 1 || paymentReminderIntervalDays > 60) {
+      return { error: "El intervalo entre recordatorios debe estar entre 1 y 60 días" };
+    }
+    if (template.length > 1000) {
+      return { error: "La plantilla no puede exceder 1000 caracteres" };
+    }
+    if (paymentReminderEnabled && !templateName) {
+      return { error: "Indica la plantilla aprobada de WhatsApp para enviar los recordatorios" };
+    }
+    const approvedTemplate = WhatsAppTemplateSchema.pick({ name: true, language: true }).safeParse({
+      name: templateName || "recordatorio_pago",
+      language: templateLanguage,
+    });
+    if (!approvedTemplate.success) {
+      return { error: "Nombre o idioma de plantilla de WhatsApp inválido (minúsculas, números y _)" };
+    }
+
+    await updateAdminSettings({
+      paymentReminderEnabled,
+      paymentReminderLeadDays,
+      paymentReminderIntervalDays,
+      // Store null when unchanged so future default wording updates apply
+      paymentReminderTemplate: template && template !== DEFAULT_PAYMENT_REMINDER_TEMPLATE ? template : null,
+      paymentReminderTemplateName: templateName || null,
+      paymentReminderTemplateLanguage: approvedTemplate.data.language,
+    });
+    return { success: "Recordatorios de pago actualizados" };
+  }
+
+  /**
+   * Server action to update ITBIS settings for comprobantes fiscales.
+   */
+  async function handleUpdateFiscal(formData: FormData) {
+    "use server";
+
+    const currentSession = await getSessionContext();
+    if (!currentSession.isValid || (currentSession.role !== "admin" && currentSession.role !== "support")) {
+      return { error: "No autorizado" };
+    }
+
+    const itbisPercent = parseFloat((formData.get("itbisRate") as string) ?? "");
+    const pricesIncludeItbis = formData.get("pricesIncludeItbis") === "on";
+
+    if (Number.isNaN(itbisPercent) || itbisPercent < 0 || itbisPercent > 30) {
+      return { error: "La tasa de ITBIS debe estar entre 0 y 30" };
+    }
+
+    await updateAdminSettings({
+      itbisRate: Math.round(itbisPercent * 100) / 10000,
+      pricesIncludeItbis,
+    });
+    return { success: "Impuestos actualizados" };
+  }
+
   return (
     <main className="min-h-screen bg-pearl">
       {/* Header */}
@@ -124,6 +201,9 @@ export default async function AdminSettingsPage() {
           initialSettings={settings}
           onChangePassword={handleChangePassword}
           onUpdateSettings={handleUpdateSettings}
+          onUpdateReminders={handleUpdateReminders}
+          onUpdateFiscal={handleUpdateFiscal}
+          defaultReminderTemplate={DEFAULT_PAYMENT_REMINDER_TEMPLATE}
           role={session.role ?? "admin"}
         />
       </div>
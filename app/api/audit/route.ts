@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { getAuditEvents } from "@/lib/audit";
+
+/**
+ * Parses a YYYY-MM-DD query param as the start (or end) of that UTC day.
+ */
+function parseDayParam(value: string | null, endOfDay: boolean): Date | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  return new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`);
+}
+
+/**
+ * GET /api/audit
+ * Lists audit events, newest first.
+ * Query params: action, entityType (invoice | tour), entityId, actor (name contains),
+ * from / to (YYYY-MM-DD), cursor (last event ID of the previous page), limit (default 50, max 200).
+ * Requires admin or support.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = await getAuditEvents({
+      action: searchParams.get("action") || undefined,
+      entityType: searchParams.get("entityType") || undefined,
+      entityId: searchParams.get("entityId")?.trim() || undefined,
+      actorName: searchParams.get("actor")?.trim() || undefined,
+      from: parseDayParam(searchParams.get("from"), false),
+      to: parseDayParam(searchParams.get("to"), true),
+      cursor: searchParams.get("cursor") || undefined,
+      limit: parseInt(searchParams.get("limit") ?? "50", 10) || 50,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Error fetching audit events:", err);
+    return NextResponse.json({ error: "Failed to fetch audit events" }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { applyRateLimit } from "@/lib/apiAuth";
+import { isImportOnlyProduct } from "@/lib/products";
+import { findDeparture, toDepartureDate } from "@/lib/departures";
+import { createSaleBatch, getBookingReference, validateSaleItems } from "@/lib/sales";
+import { CreateSaleSchema, PublicBookingSchema, formatZodError } from "@/lib/validation";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * POST /api/bookings
+ * Public self-service booking from the catalog (no auth; rate limited per IP).
+ * Books the adult/kid seats as one item priced from the tour's price/childPrice, validates it with CreateSaleSchema
+ * and the same seat checks as staff sales, and creates a pending batch tagged "web".
+ * fechaVisita must be an existing departure of the tour (fixed date or generated from its weekly schedule);
+ * public bookings never create departures. Seats taken meanwhile return 409.
+ * An optional promoCode is applied like in staff sales (400/409 when it cannot be used).
+ * @param request - Request with tour, date, passenger counts and customer/passenger details.
+ * @returns Booking reference and total.
+ */
+export async function POST(request: NextRequest) {
+  const { error: rateError } = await applyRateLimit("bookings:create", "publicBooking");
+  if (rateError) return rateError;
+
+  try {
+    const body = await request.json();
+    const parsed = PublicBookingSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: formatZodError(parsed.error) },
+        { status: 400 }
+      );
+    }
+    const booking = parsed.data;
+
+    const tour = await db.tour.findUnique({ where: { id: booking.tourId } });
+    if (!tour || !tour.isActive || isImportOnlyProduct(tour)) {
+      return NextResponse.json({ error: "Tour no disponible" }, { status: 404 });
+    }
+
+    const visitDate = toDepartureDate(booking.fechaVisita);
+    if (Number.isNaN(visitDate.getTime())) {
+      return NextResponse.json({ error: "Fecha del tour inválida" }, { status: 400 });
+    }
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    if (visitDate.getTime() < today.getTime()) {
+      return NextResponse.json({ error: "La fecha del tour ya pasó" }, { status: 400 });
+    }
+    // Only scheduled departures can be booked online; new dates are opened by staff
+    const departure = await findDeparture(db, tour.id, visitDate);
+    if (!departure) {
+      return NextResponse.json({ error: "No hay salida programada para la fecha seleccionada" }, { status: 400 });
+    }
+
+    // Totals are priced from the tour by createSaleBatch, never taken from the client; nothing is paid yet
+    const saleInput = CreateSaleSchema.safeParse({
+      items: [{ tourId: tour.id, adults: booking.adults, kids: booking.kids }],
+      customerName: booking.customerName.trim(),
+      customerPhone: booking.customerPhone.trim(),
+      cedula: booking.cedula,
+      provincia: booking.provincia,
+      personasAdditional: booking.personasAdditional.length > 0 ? booking.personasAdditional : undefined,
+      notes: booking.notes,
+      fechaVisita: visitDate.toISOString(),
+      isPaid: false,
+      promoCode: booking.promoCode,
+    });
+    if (!saleInput.success) {
+      return NextResponse.json(
+        { error: formatZodError(saleInput.error) },
+        { status: 400 }
+      );
+    }
+
+    const validationError = await validateSaleItems(saleInput.data.items, saleInput.data.fechaVisita);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const result = await createSaleBatch(saleInput.data, "web");
+
+    return NextResponse.json(
+      {
+        reference: getBookingReference(result.batchId),
+        total: result.sales.reduce((sum, s) => sum + s.total, 0),
+        discount: result.sales.reduce((sum, s) => sum + s.discount, 0),
+        currency: tour.currency,
+        message: "Reserva recibida",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating public booking:", error);
+    return NextResponse.json(
+      { error: "Error al procesar la reserva. Intenta de nuevo." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { getCashClosing } from "@/lib/cashClosings";
+import { generateCashClosingPdf } from "@/lib/cashClosingPdf";
+import { brandConfig } from "@/lib/brandConfig";
+
+/**
+ * GET /api/cash-closings/[id]?format=json|pdf
+ * Cash closing with the payments it locked; pdf is the printable summary signed at hand-in.
+ * Admin or support only.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    const format = new URL(request.url).searchParams.get("format") ?? "json";
+    if (!["json", "pdf"].includes(format)) {
+      return NextResponse.json({ error: "format: debe ser json o pdf" }, { status: 400 });
+    }
+
+    const closing = await getCashClosing(id);
+    if (!closing) {
+      return NextResponse.json({ error: "Cierre de caja no encontrado" }, { status: 404 });
+    }
+
+    if (format === "pdf") {
+      const pdfBuffer = generateCashClosingPdf(closing, brandConfig.logoPath);
+      return new NextResponse(Buffer.from(pdfBuffer), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="Cierre-caja-${closing.number}.pdf"`,
+        },
+      });
+    }
+    return NextResponse.json(closing);
+  } catch (err) {
+    console.error("Error fetching cash closing:", err);
+    return NextResponse.json({ error: "Error al cargar el cierre de caja" }, { status: 500 });
+  }
+}
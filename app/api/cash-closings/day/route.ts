@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { getCashDay } from "@/lib/cashClosings";
+import { CashDayQuerySchema, formatZodError } from "@/lib/validation";
+
+/**
+ * GET /api/cash-closings/day?date=YYYY-MM-DD
+ * Payments of the day (by paidAt) and cash refunds not closed yet, grouped by the staff user who collected them
+ * with totals per method and currency, and the closings already made that day.
+ * Admin or support only.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const parsed = CashDayQuerySchema.safeParse({
+      date: new URL(request.url).searchParams.get("date") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+    const day = await getCashDay(parsed.data.date);
+    return NextResponse.json(day);
+  } catch (err) {
+    console.error("Error fetching cash day:", err);
+    return NextResponse.json({ error: "Error al cargar los pagos del día" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport, getApiSessionContext } from "@/lib/apiAuth";
+import { getPaymentRecorder } from "@/lib/payments";
+import { createCashClosing, listCashClosings } from "@/lib/cashClosings";
+import { CashClosingListQuerySchema, CreateCashClosingSchema, formatZodError } from "@/lib/validation";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/cash-closings?from=YYYY-MM-DD&to=YYYY-MM-DD&collector=&discrepancies=1
+ * Cash closing history (newest day first), optionally only the closings with a cash difference.
+ * Admin or support only.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = CashClosingListQuerySchema.safeParse({
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+      collector: searchParams.get("collector") || undefined,
+      discrepancies: searchParams.get("discrepancies") || undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+    const closings = await listCashClosings(parsed.data);
+    return NextResponse.json(closings);
+  } catch (err) {
+    console.error("Error fetching cash closings:", err);
+    return NextResponse.json({ error: "Error al cargar los cierres de caja" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/cash-closings
+ * Closes a collector's day: their open payments and cash refunds of the day are locked in the closing with the
+ * cash counted per currency; any difference with the cash collected minus the cash refunded is flagged.
+ * Body: { date: YYYY-MM-DD, collectorUserId? (staff users), collector, countedCash: [{ currency, amount }], notes? }.
+ * Admin or support only.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CreateCashClosingSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const session = await getApiSessionContext();
+    const closing = await createCashClosing(parsed.data, getPaymentRecorder(session));
+    return NextResponse.json(closing, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error creating cash closing:", err);
+    return NextResponse.json({ error: "Error al registrar el cierre de caja" }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { getAuditActor } from "@/lib/audit";
+import { getCheckInBooking, resolveCheckInCode, setPassengerCheckIn } from "@/lib/checkin";
+import { CheckInSchema, formatZodError } from "@/lib/validation";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/checkin?code=
+ * Looks up a booking for day-of-tour check-in from the scanned QR (URL or token) or the typed
+ * booking reference. Returns its passengers with their boarded / no-show marks per tour.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const code = new URL(request.url).searchParams.get("code") ?? "";
+    if (!code.trim()) {
+      return NextResponse.json({ error: "Missing code" }, { status: 400 });
+    }
+    const batchId = await resolveCheckInCode(code, supervisorFilter);
+    const booking = await getCheckInBooking(batchId, supervisorFilter);
+    if (!booking) {
+      return NextResponse.json({ error: "Reserva no encontrada" }, { status: 404 });
+    }
+    return NextResponse.json(booking);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error looking up check-in:", err);
+    return NextResponse.json({ error: "Failed to look up booking" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/checkin
+ * Marks a passenger boarded or no-show on a tour of the booking; status null clears the mark.
+ * Body: { batchId, tourId, passengerIndex (0 = lead customer), status: "boarded" | "no_show" | null }.
+ * Audited as invoice.check_in. Returns the updated booking.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CheckInSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    await setPassengerCheckIn(parsed.data, getAuditActor(session), supervisorFilter);
+    const booking = await getCheckInBooking(parsed.data.batchId, supervisorFilter);
+    return NextResponse.json(booking);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error recording check-in:", err);
+    return NextResponse.json({ error: "Failed to record check-in" }, { status: 500 });
+  }
+}
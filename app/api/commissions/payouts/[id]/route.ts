@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { getCommissionPayoutStatement } from "@/lib/commissions";
+import { commissionStatementToCsvRows, generateCommissionStatementPdf } from "@/lib/commissionPdf";
+import { toCSV } from "@/lib/csv";
+import { brandConfig } from "@/lib/brandConfig";
+
+/**
+ * GET /api/commissions/payouts/[id]?format=json|pdf|csv
+ * Statement of a recorded commission payout: the sale lines it paid with the rule and amount of each.
+ * Admin or support only.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    const format = new URL(request.url).searchParams.get("format") ?? "json";
+    if (!["json", "pdf", "csv"].includes(format)) {
+      return NextResponse.json({ error: "format: debe ser json, pdf o csv" }, { status: 400 });
+    }
+
+    const statement = await getCommissionPayoutStatement(id);
+    if (!statement?.payout) {
+      return NextResponse.json({ error: "Liquidación no encontrada" }, { status: 404 });
+    }
+
+    const filename = `Liquidacion-comisiones-${statement.payout.number}`;
+    if (format === "pdf") {
+      const pdfBuffer = generateCommissionStatementPdf(statement, brandConfig.logoPath);
+      return new NextResponse(Buffer.from(pdfBuffer), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="${filename}.pdf"`,
+        },
+      });
+    }
+    if (format === "csv") {
+      const { headers, rows } = commissionStatementToCsvRows(statement);
+      return new NextResponse(toCSV(headers, rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json(statement);
+  } catch (err) {
+    console.error("Error building commission payout statement:", err);
+    return NextResponse.json({ error: "Error al generar la liquidación" }, { status: 500 });
+  }
+}
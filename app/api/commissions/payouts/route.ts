@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport, getApiSessionContext } from "@/lib/apiAuth";
+import { getAuditActor } from "@/lib/audit";
+import { CreateCommissionPayoutSchema, formatZodError } from "@/lib/validation";
+import { createCommissionPayout, listCommissionPayouts } from "@/lib/commissions";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/commissions/payouts?seller=
+ * Lists commission payouts (newest first), optionally of one seller.
+ * Admin or support only.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const seller = new URL(request.url).searchParams.get("seller")?.trim() || undefined;
+    const payouts = await listCommissionPayouts(seller);
+    return NextResponse.json(payouts);
+  } catch (err) {
+    console.error("Error fetching commission payouts:", err);
+    return NextResponse.json({ error: "Error al cargar liquidaciones" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/commissions/payouts
+ * Marks the pending commissions of a seller for a period as paid out. Lines already in a payout are skipped,
+ * so a sale is never paid twice.
+ * Body: { seller, from: YYYY-MM-DD, to: YYYY-MM-DD, notes? }.
+ * Admin or support only.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CreateCommissionPayoutSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const session = await getApiSessionContext();
+    const payout = await createCommissionPayout(parsed.data, getAuditActor(session).name ?? "admin");
+    return NextResponse.json(payout, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error creating commission payout:", err);
+    return NextResponse.json({ error: "Error al registrar la liquidación" }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { UpdateCommissionRuleSchema, formatZodError } from "@/lib/validation";
+import { deleteCommissionRule, updateCommissionRule } from "@/lib/commissions";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * PATCH /api/commissions/rules/[id]
+ * Changes the value of a commission rule or activates/deactivates it (paid-out lines keep their amounts).
+ * Body: { value?, isActive? }.
+ * Admin or support only.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = UpdateCommissionRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const rule = await updateCommissionRule(id, parsed.data);
+    return NextResponse.json(rule);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error updating commission rule:", err);
+    return NextResponse.json({ error: "Error al actualizar regla de comisión" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/commissions/rules/[id]
+ * Deletes a commission rule. Payouts keep a copy of the rule they were computed with.
+ * Admin or support only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    await deleteCommissionRule(id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error deleting commission rule:", err);
+    return NextResponse.json({ error: "Error al eliminar regla de comisión" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { CreateCommissionRuleSchema, formatZodError } from "@/lib/validation";
+import { createCommissionRule, listCommissionRules } from "@/lib/commissions";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/commissions/rules
+ * Lists seller commission rules.
+ * Admin or support only.
+ */
+export async function GET() {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const rules = await listCommissionRules();
+    return NextResponse.json(rules);
+  } catch (err) {
+    console.error("Error fetching commission rules:", err);
+    return NextResponse.json({ error: "Error al cargar reglas de comisión" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/commissions/rules
+ * Creates a commission rule for a seller, a tour, or a seller on a tour.
+ * Body: { sellerName?, tourId?, type: "percent" | "per_passenger", value, currency? (per_passenger), isActive? }.
+ * Admin or support only.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CreateCommissionRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const rule = await createCommissionRule(parsed.data);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error creating commission rule:", err);
+    return NextResponse.json({ error: "Error al crear regla de comisión" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { db } from "@/lib/db";
+import { buildCommissionStatement } from "@/lib/commissions";
+import { commissionStatementToCsvRows, generateCommissionStatementPdf } from "@/lib/commissionPdf";
+import { toCSV } from "@/lib/csv";
+import { brandConfig } from "@/lib/brandConfig";
+import { CommissionStatementQuerySchema, formatZodError } from "@/lib/validation";
+
+/**
+ * GET /api/commissions/statement?seller=&from=YYYY-MM-DD&to=YYYY-MM-DD&format=json|pdf|csv
+ * Commission statement of a seller for a period: lines of fully paid, non-voided invoices entered in the
+ * period that have a commission rule, with the commission still pending and the lines already paid out.
+ * Admin or support only.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = CommissionStatementQuerySchema.safeParse({
+      seller: searchParams.get("seller") ?? undefined,
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+      format: searchParams.get("format") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+    const { seller, from, to, format } = parsed.data;
+
+    const statement = await buildCommissionStatement(db, seller, from, to);
+
+    const filename = `Comisiones-${seller.replace(/[^\w-]+/g, "_").slice(0, 40)}-${from}-${to}`;
+    if (format === "pdf") {
+      const pdfBuffer = generateCommissionStatementPdf(statement, brandConfig.logoPath);
+      return new NextResponse(Buffer.from(pdfBuffer), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="${filename}.pdf"`,
+        },
+      });
+    }
+    if (format === "csv") {
+      const { headers, rows } = commissionStatementToCsvRows(statement);
+      return new NextResponse(toCSV(headers, rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json(statement);
+  } catch (err) {
+    console.error("Error building commission statement:", err);
+    return NextResponse.json({ error: "Error al generar el estado de comisiones" }, { status: 500 });
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { timingSafeEqual } from "crypto";
-import { createMonthlySnapshot } from "@/lib/monthlySnapshot";
+import {
+  backfillMonthlySnapshots,
+  createMonthlySnapshot,
+  getPreviousMonth,
+  getYearMonth,
+  parseYearMonth,
+} from "@/lib/monthlySnapshot";
+import { MonthlySnapshotBackfillSchema, formatZodError } from "@/lib/validation";
 
 /**
  * Performs timing-safe comparison of two strings.
@@ -19,7 +26,9 @@ function safeCompare(a: string, b: string): boolean {
 
 /**
  * POST /api/cron/monthly-snapshot
- * Creates a monthly snapshot (secured by CRON_SECRET only).
+ * Computes the snapshot of the month that just ended from its bookings (runs on the 1st).
+ * Body (optional, backfill): { from: "YYYY-MM", to: "YYYY-MM" } recomputes every month in the range instead
+ * (at most MAX_SNAPSHOT_BACKFILL_MONTHS); see scripts/backfill-monthly-snapshots.mjs, which sends one month at a time.
  * Requires Bearer token matching CRON_SECRET environment variable.
  * @param request - Incoming cron request with auth header.
  */
@@ -41,7 +50,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const summary = await createMonthlySnapshot();
+    const body = await request.json().catch(() => null);
+    if (body) {
+      const parsed = MonthlySnapshotBackfillSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+      }
+      const summaries = await backfillMonthlySnapshots(
+        parseYearMonth(parsed.data.from)!,
+        parseYearMonth(parsed.data.to)!
+      );
+      const months = summaries.map((s) => ({
+        year: s.year,
+        month: s.month,
+        totalBookings: s.totalBookings,
+        totalRevenue: s.totalRevenue,
+      }));
+      return NextResponse.json({ months }, { status: 201 });
+    }
+
+    const summary = await createMonthlySnapshot(getPreviousMonth(getYearMonth(new Date())));
     return NextResponse.json(summary, { status: 201 });
   } catch (error) {
     console.error("Cron snapshot error:", error);
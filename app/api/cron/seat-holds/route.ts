@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { releaseExpiredSeatHolds } from "@/lib/seatHolds";
+
+/**
+ * Performs timing-safe comparison of two strings.
+ * @param a - First string.
+ * @param b - Second string.
+ * @returns True if strings match, false otherwise.
+ */
+function safeCompare(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  try {
+    return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST /api/cron/seat-holds
+ * Voids temporary seat holds that expired without an abono, releasing their seats to the waitlist.
+ * Secured by CRON_SECRET. Run hourly.
+ * @param request - Incoming cron request with Bearer token.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    const authHeader = request.headers.get("authorization") || "";
+
+    if (!secret) {
+      console.error("CRON_SECRET environment variable is not set");
+      return NextResponse.json({ error: "Error de configuración del servidor" }, { status: 500 });
+    }
+
+    const expectedAuth = `Bearer ${secret}`;
+    if (!safeCompare(authHeader, expectedAuth)) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const result = await releaseExpiredSeatHolds();
+    return NextResponse.json({ ok: true, ...result }, { status: 200 });
+  } catch (error) {
+    console.error("Cron seat-holds error:", error);
+    return NextResponse.json(
+      { error: "Error al liberar las reservas temporales vencidas" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { expireWaitlistHolds } from "@/lib/waitlist";
+
+/**
+ * Performs timing-safe comparison of two strings.
+ * @param a - First string.
+ * @param b - Second string.
+ * @returns True if strings match, false otherwise.
+ */
+function safeCompare(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  try {
+    return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST /api/cron/waitlist-holds
+ * Expires waitlist offers whose hold ran out, releases their seats and offers them to the next entries.
+ * Secured by CRON_SECRET. Run hourly.
+ * @param request - Incoming cron request with Bearer token.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    const authHeader = request.headers.get("authorization") || "";
+
+    if (!secret) {
+      console.error("CRON_SECRET environment variable is not set");
+      return NextResponse.json({ error: "Error de configuración del servidor" }, { status: 500 });
+    }
+
+    const expectedAuth = `Bearer ${secret}`;
+    if (!safeCompare(authHeader, expectedAuth)) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const result = await expireWaitlistHolds();
+    return NextResponse.json({ ok: true, ...result }, { status: 200 });
+  } catch (error) {
+    console.error("Cron waitlist-holds error:", error);
+    return NextResponse.json(
+      { error: "Error al vencer las ofertas de la lista de espera" },
+      { status: 500 }
+    );
+  }
+}
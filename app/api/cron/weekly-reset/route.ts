@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { timingSafeEqual } from "crypto";
-import { runWeeklyRecurringReset } from "@/lib/weeklyReset";
+import { generateRecurringDepartures } from "@/lib/weeklyReset";
 
 /**
  * Performs timing-safe comparison of two strings.
@@ -19,7 +19,7 @@ function safeCompare(a: string, b: string): boolean {
 
 /**
  * POST /api/cron/weekly-reset
- * Resets seats and advances tourDate for tours with recurringWeeklyDay whose date has passed.
+ * Generates upcoming departures and advances tourDate for tours with recurringWeeklyDay.
  * Secured by CRON_SECRET. Run daily (e.g. 01:00 UTC).
  * @param request - Incoming cron request with Bearer token.
  */
@@ -38,12 +38,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No autorizado" }, { status: 401 });
     }
 
-    const resetCount = await runWeeklyRecurringReset();
-    return NextResponse.json({ ok: true, resetCount }, { status: 200 });
+    const createdCount = await generateRecurringDepartures();
+    return NextResponse.json({ ok: true, createdCount }, { status: 200 });
   } catch (error) {
     console.error("Cron weekly-reset error:", error);
     return NextResponse.json(
-      { error: "Error al ejecutar el reinicio semanal de plazas" },
+      { error: "Error al generar las salidas semanales" },
       { status: 500 }
     );
   }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { getCustomerProfile } from "@/lib/customers";
+
+/**
+ * GET /api/customers/[id]
+ * Returns a customer profile: details, booking history, lifetime spend and outstanding balance per currency,
+ * and the WhatsApp thread. Supervisors only see their own bookings (404 when they have none with this customer).
+ * Requires supervisor or above.
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { id } = await context.params;
+    const profile = await getCustomerProfile(id, supervisorFilter);
+    if (!profile) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+    return NextResponse.json(profile);
+  } catch (err) {
+    console.error("Error fetching customer:", err);
+    return NextResponse.json({ error: "Failed to fetch customer" }, { status: 500 });
+  }
+}
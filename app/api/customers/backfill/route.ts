@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { backfillCustomers } from "@/lib/customers";
+
+/**
+ * POST /api/customers/backfill
+ * Links existing sales without a customer to the directory (matched by normalized phone/cédula).
+ * Safe to run more than once. Returns { linkedSales, createdCustomers, skippedSales }.
+ * Admin or support only.
+ */
+export async function POST() {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const result = await backfillCustomers();
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Error backfilling customers:", err);
+    return NextResponse.json({ error: "Failed to link customers" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { searchCustomers } from "@/lib/customers";
+
+/** Max results per search. */
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/customers?search=&limit=
+ * Searches the customer directory by name, phone or cédula (most recently updated first).
+ * Used by the Clientes view and the SaleForm autocomplete. Supervisors only see customers with their sales.
+ * Requires supervisor or above.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get("search") ?? "";
+    const limitParam = parseInt(searchParams.get("limit") ?? "", 10);
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : 20;
+
+    const customers = await searchCustomers(search, supervisorFilter, limit);
+    return NextResponse.json({ customers });
+  } catch (err) {
+    console.error("Error searching customers:", err);
+    return NextResponse.json({ error: "Failed to fetch customers" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { deleteExchangeRate } from "@/lib/exchangeRates";
+
+/**
+ * DELETE /api/exchange-rates/[id]
+ * Deletes an exchange rate; sales on its dates fall back to the previous rate.
+ * Admin or support only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    const deleted = await deleteExchangeRate(id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Tasa no encontrada" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Error deleting exchange rate:", err);
+    return NextResponse.json({ error: "Error al eliminar tasa de cambio" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getApiSessionContext, requireAdminOrSupport } from "@/lib/apiAuth";
+import { CreateExchangeRateSchema, formatZodError } from "@/lib/validation";
+import { listExchangeRates, upsertExchangeRate } from "@/lib/exchangeRates";
+
+/**
+ * GET /api/exchange-rates
+ * Lists dated exchange rates to the base currency, newest first per currency.
+ * Admin or support only.
+ */
+export async function GET() {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const rates = await listExchangeRates();
+    return NextResponse.json(rates);
+  } catch (err) {
+    console.error("Error fetching exchange rates:", err);
+    return NextResponse.json({ error: "Error al cargar tasas de cambio" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/exchange-rates
+ * Records the rate of a currency from a day on; replaces the rate already set for that day.
+ * Body: { currency: "US$", rate, effectiveDate: YYYY-MM-DD }.
+ * Admin or support only.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CreateExchangeRateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const session = await getApiSessionContext();
+    const rate = await upsertExchangeRate(parsed.data, session.role);
+    return NextResponse.json(rate, { status: 201 });
+  } catch (err) {
+    console.error("Error saving exchange rate:", err);
+    return NextResponse.json({ error: "Error al guardar tasa de cambio" }, { status: 500 });
+  }
+}
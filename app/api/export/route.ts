@@ -1,42 +1,142 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { createMonthlySnapshot } from "@/lib/monthlySnapshot";
+import { createMonthlySnapshot, type MonthlyBreakdown } from "@/lib/monthlySnapshot";
 import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { loadCurrencyConverter } from "@/lib/exchangeRates";
+import { addCurrencyAmount, type CurrencyAmounts } from "@/lib/currency";
+import { BASE_CURRENCY, PASSENGER_TYPE_LABELS, type PassengerType } from "@/lib/validation";
+import { toCSV } from "@/lib/csv";
+
+/** Formats a date as YYYYMMDD (DGII report format). */
+function toDgiiDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** Formats an amount with 2 decimals (DGII report format). */
+function toDgiiAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+/** Spanish month names for the monthly exports. */
+const MONTH_NAMES = [
+  "Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio",
+  "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre",
+];
 
 /**
- * Escapes a value for CSV to prevent formula injection.
- * Prefixes potentially dangerous characters with a single quote.
- * @param value - The raw value.
- * @returns Escaped value safe for CSV.
+ * Formats a monthly snapshot's revenueByCurrency as "RD$ 1000; US$ 50" (empty for old snapshots).
  */
-function escapeFormulaInjection(value: string): string {
-  const dangerousChars = ["=", "+", "-", "@", "\t", "\r"];
-  if (dangerousChars.some((char) => value.startsWith(char))) {
-    return `'${value}`;
-  }
-  return value;
+function formatRevenueByCurrency(value: unknown): string {
+  if (!value || typeof value !== "object") return "";
+  return Object.entries(value as Record<string, number>)
+    .map(([currency, amount]) => `${currency} ${amount}`)
+    .join("; ");
 }
 
 /**
- * Converts data to CSV format.
- * @param headers - Column headers.
- * @param rows - Data rows.
- * @returns CSV string.
+ * Builds the 607 (ventas de bienes y servicios) rows for comprobantes fiscales issued in the period.
+ * Voided invoices are left out (they belong in the 608). Payment columns split the total by method;
+ * the unpaid rest is reported as venta a crédito. Invoices in another currency are reported in the base
+ * currency (RD$) at the rate effective on the issue date.
+ * @param from - Period start
+ * @param to - Period end
  */
-function toCSV(headers: string[], rows: string[][]): string {
-  const escapeCsvValue = (value: string) => {
-    // First escape formula injection
-    const safeValue = escapeFormulaInjection(value);
-    if (safeValue.includes(",") || safeValue.includes('"') || safeValue.includes("\n")) {
-      return `"${safeValue.replace(/"/g, '""')}"`;
-    }
-    return safeValue;
-  };
+async function buildDgii607(from: Date, to: Date): Promise<{ headers: string[]; rows: string[][] }> {
+  const fiscalInvoices = await db.fiscalInvoice.findMany({
+    where: { issuedAt: { gte: from, lte: to } },
+    orderBy: { ncf: "asc" },
+  });
+  const batchIds = fiscalInvoices.map((f) => f.batchId);
+  const [voidedSales, batchCurrencies, payments, converter] = await Promise.all([
+    db.sale.findMany({
+      where: { batchId: { in: batchIds }, voidedAt: { not: null } },
+      select: { batchId: true },
+      distinct: ["batchId"],
+    }),
+    db.sale.findMany({
+      where: { batchId: { in: batchIds } },
+      select: { batchId: true, currency: true },
+      distinct: ["batchId"],
+    }),
+    db.payment.groupBy({
+      by: ["batchId", "method"],
+      where: { batchId: { in: batchIds }, reversedAt: null },
+      _sum: { amount: true },
+    }),
+    loadCurrencyConverter(),
+  ]);
+  const voided = new Set(voidedSales.map((s) => s.batchId));
+  const currencyByBatch = new Map(batchCurrencies.map((s) => [s.batchId, s.currency]));
+  const paidByBatch = new Map<string, Record<string, number>>();
+  for (const p of payments) {
+    const byMethod = paidByBatch.get(p.batchId) ?? {};
+    byMethod[p.method] = (byMethod[p.method] ?? 0) + (p._sum.amount ?? 0);
+    paidByBatch.set(p.batchId, byMethod);
+  }
 
-  const headerLine = headers.map(escapeCsvValue).join(",");
-  const dataLines = rows.map((row) => row.map(escapeCsvValue).join(","));
+  const headers = [
+    "RNC/Cédula",
+    "Tipo Identificación",
+    "Número Comprobante Fiscal",
+    "NCF Modificado",
+    "Tipo de Ingreso",
+    "Fecha Comprobante",
+    "Fecha de Retención",
+    "Monto Facturado",
+    "ITBIS Facturado",
+    "ITBIS Retenido por Terceros",
+    "ITBIS Percibido",
+    "Retención Renta por Terceros",
+    "ISR Percibido",
+    "Impuesto Selectivo al Consumo",
+    "Otros Impuestos/Tasas",
+    "Monto Propina Legal",
+    "Efectivo",
+    "Cheque/Transferencia/Depósito",
+    "Tarjeta Débito/Crédito",
+    "Venta a Crédito",
+    "Bonos o Certificados de Regalo",
+    "Permuta",
+    "Otras Formas de Ventas",
+  ];
 
-  return [headerLine, ...dataLines].join("\n");
+  const rows = fiscalInvoices
+    .filter((f) => !voided.has(f.batchId))
+    .map((f) => {
+      const paid = paidByBatch.get(f.batchId) ?? {};
+      // Payments are capped at the comprobante total; anything unpaid is credit
+      let left = f.total;
+      const take = (amount: number) => {
+        const used = Math.min(Math.max(0, amount), left);
+        left -= used;
+        return used;
+      };
+      const cash = take(paid.cash ?? 0);
+      const transfer = take(paid.transfer ?? 0);
+      const card = take(paid.card ?? 0);
+      const currency = currencyByBatch.get(f.batchId) ?? BASE_CURRENCY;
+      const toDop = (amount: number) => converter.toBase(amount, currency, f.issuedAt);
+      const rnc = f.customerRnc ?? "";
+      return [
+        rnc,
+        rnc.length === 9 ? "1" : rnc.length === 11 ? "2" : "",
+        f.ncf,
+        "",
+        "01",
+        toDgiiDate(f.issuedAt),
+        "",
+        toDgiiAmount(toDop(f.subtotal)),
+        toDgiiAmount(toDop(f.itbis)),
+        "", "", "", "", "", "", "",
+        toDgiiAmount(toDop(cash)),
+        toDgiiAmount(toDop(transfer)),
+        toDgiiAmount(toDop(card)),
+        toDgiiAmount(toDop(left)),
+        "", "", "",
+      ];
+    });
+
+  return { headers, rows };
 }
 
 /**
@@ -44,9 +144,12 @@ function toCSV(headers: string[], rows: string[][]): string {
  * Exports data as CSV for Excel/Google Sheets.
  * Requires admin authentication.
  * Query params:
- *   - type: "products" | "sales" | "monthly"
- *   - month: MM (optional, for filtering)
+ *   - type: "products" | "sales" | "monthly" | "monthly_breakdown" | "summary" | "607"
+ *   - month: MM (optional, for filtering; required with year for "607")
+ * "monthly_breakdown" lists the per-tour, per-seller and per-supervisor rows of the monthly snapshots.
  *   - year: YYYY (optional, for filtering)
+ * "607" is the DGII sales report (ventas con NCF) for the period.
+ * The 606 (compras) is not exported: purchases are not recorded in this system.
  * @returns CSV file download.
  */
 export async function GET(request: NextRequest) {
@@ -74,10 +177,11 @@ export async function GET(request: NextRequest) {
         "Nombre",
         "Línea",
         "Descripción",
-        "Precio (RD$)",
-        "Stock",
+        "Moneda",
+        "Precio",
+        "Plazas por salida",
         "Vendido",
-        "Ingresos (RD$)",
+        "Ingresos",
         "Estado",
         "Fecha Creación",
       ];
@@ -87,6 +191,7 @@ export async function GET(request: NextRequest) {
         p.name,
         p.line,
         p.description,
+        p.currency,
         p.price.toString(),
         p.stock.toString(),
         p.sold.toString(),
@@ -117,18 +222,28 @@ export async function GET(request: NextRequest) {
         };
       }
 
-      const sales = await db.sale.findMany({
-        where: whereClause,
-        include: { tour: true },
-        orderBy: { createdAt: "desc" },
-      });
+      const [sales, converter] = await Promise.all([
+        db.sale.findMany({
+          where: whereClause,
+          include: { tour: true },
+          orderBy: { createdAt: "desc" },
+        }),
+        loadCurrencyConverter(),
+      ]);
 
       const headers = [
         "ID",
         "Producto",
         "Línea",
+        "Tipo",
         "Cantidad",
-        "Total (RD$)",
+        "Precio Unit.",
+        "Precio Lista",
+        "Motivo Cambio Precio",
+        "Descuento Promo",
+        "Moneda",
+        "Total",
+        `Total (${BASE_CURRENCY})`,
         "Notas",
         "Fecha",
       ];
@@ -137,8 +252,15 @@ export async function GET(request: NextRequest) {
         s.id,
         s.tour.name,
         s.tour.line,
+        PASSENGER_TYPE_LABELS[s.passengerType as PassengerType] ?? s.passengerType,
         s.quantity.toString(),
+        (s.quantity > 0 ? Math.round((s.total + s.discount) / s.quantity) : 0).toString(),
+        s.listPrice?.toString() ?? "",
+        s.priceOverrideReason ?? "",
+        s.discount.toString(),
+        s.currency,
         s.total.toString(),
+        converter.toBase(s.total, s.currency, s.createdAt).toString(),
         s.notes || "",
         s.createdAt.toISOString().split("T")[0],
       ]);
@@ -155,40 +277,102 @@ export async function GET(request: NextRequest) {
       const headers = [
         "Año",
         "Mes",
-        "Ingresos Totales (RD$)",
-        "Unidades Vendidas",
-        "Tours Activos",
-        "Fecha Registro",
-      ];
-
-      const monthNames = [
-        "Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio",
-        "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre",
+        `Ingresos Totales (${BASE_CURRENCY})`,
+        "Ingresos por Moneda",
+        `Cobrado (${BASE_CURRENCY})`,
+        `Pendiente (${BASE_CURRENCY})`,
+        "Reservas",
+        "Plazas Vendidas",
+        "Tours con Reservas",
+        "Calculado",
       ];
 
       const rows = summaries.map((s) => [
         s.year.toString(),
-        monthNames[s.month - 1],
+        MONTH_NAMES[s.month - 1],
         s.totalRevenue.toString(),
+        formatRevenueByCurrency(s.revenueByCurrency),
+        s.collectedRevenue.toString(),
+        s.pendingRevenue.toString(),
+        s.totalBookings.toString(),
         s.totalSold.toString(),
         s.totalTours.toString(),
-        s.createdAt.toISOString().split("T")[0],
+        s.computedAt.toISOString().split("T")[0],
       ]);
 
       csv = toCSV(headers, rows);
       filename = `resumen_mensual_${new Date().toISOString().split("T")[0]}.csv`;
+    } else if (type === "monthly_breakdown") {
+      // Per-tour, per-seller and per-supervisor rows of each monthly summary
+      const summaries = await db.monthlySummary.findMany({
+        where: year ? { year: parseInt(year, 10), ...(month ? { month: parseInt(month, 10) } : {}) } : {},
+        orderBy: [{ year: "desc" }, { month: "desc" }],
+      });
+
+      const headers = [
+        "Año",
+        "Mes",
+        "Desglose",
+        "Nombre",
+        "Reservas",
+        "Plazas",
+        `Ingresos (${BASE_CURRENCY})`,
+        "Ingresos por Moneda",
+        `Cobrado (${BASE_CURRENCY})`,
+        `Pendiente (${BASE_CURRENCY})`,
+      ];
+
+      const groups: [keyof MonthlyBreakdown, string][] = [
+        ["tours", "Tour"],
+        ["sellers", "Vendedor"],
+        ["supervisors", "Supervisor"],
+      ];
+      const rows: string[][] = [];
+      for (const s of summaries) {
+        const breakdown = s.breakdown as MonthlyBreakdown | null;
+        if (!breakdown) continue;
+        for (const [group, label] of groups) {
+          for (const row of breakdown[group] ?? []) {
+            rows.push([
+              s.year.toString(),
+              MONTH_NAMES[s.month - 1],
+              label,
+              row.name,
+              row.bookings.toString(),
+              row.seats.toString(),
+              row.revenue.toString(),
+              formatRevenueByCurrency(row.revenueByCurrency),
+              row.collected.toString(),
+              row.pending.toString(),
+            ]);
+          }
+        }
+      }
+
+      csv = toCSV(headers, rows);
+      filename = `desglose_mensual_${new Date().toISOString().split("T")[0]}.csv`;
     } else if (type === "summary") {
       // Export current summary snapshot
-      const tours = await db.tour.findMany();
+      const [tours, converter] = await Promise.all([db.tour.findMany(), loadCurrencyConverter()]);
 
-      const totalRevenue = tours.reduce((sum, p) => sum + p.price * p.sold, 0);
+      const now = new Date();
+      const revenueByCurrency: CurrencyAmounts = {};
+      for (const p of tours) addCurrencyAmount(revenueByCurrency, p.currency, p.price * p.sold);
+      const totalRevenue = Object.entries(revenueByCurrency).reduce(
+        (sum, [currency, amount]) => sum + converter.toBase(amount, currency, now),
+        0
+      );
       const totalSold = tours.reduce((sum, p) => sum + p.sold, 0);
       const totalStock = tours.reduce((sum, p) => sum + p.stock, 0);
       const activeTours = tours.filter((p) => p.isActive).length;
 
       const headers = ["Métrica", "Valor"];
       const rows = [
-        ["Ingresos Totales (RD$)", totalRevenue.toString()],
+        ...Object.entries(revenueByCurrency).map(([currency, amount]) => [
+          `Ingresos (${currency})`,
+          amount.toString(),
+        ]),
+        [`Ingresos Totales (${BASE_CURRENCY})`, totalRevenue.toString()],
         ["Total Unidades Vendidas", totalSold.toString()],
         ["Total en Inventario", totalStock.toString()],
         ["Tours Activos", activeTours.toString()],
@@ -198,6 +382,20 @@ export async function GET(request: NextRequest) {
 
       csv = toCSV(headers, rows);
       filename = `resumen_${new Date().toISOString().split("T")[0]}.csv`;
+    } else if (type === "607") {
+      // DGII 607: comprobantes fiscales issued in the month
+      if (!year || !month) {
+        return NextResponse.json(
+          { error: "El reporte 607 requiere mes y año (month, year)" },
+          { status: 400 }
+        );
+      }
+      const from = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, 1));
+      const to = new Date(Date.UTC(parseInt(year), parseInt(month), 0, 23, 59, 59, 999));
+      const report = await buildDgii607(from, to);
+
+      csv = toCSV(report.headers, report.rows);
+      filename = `607_${year}${month.padStart(2, "0")}.csv`;
     } else {
       return NextResponse.json(
         { error: "Invalid export type" },
@@ -223,9 +421,8 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/export/snapshot
- * Creates a monthly snapshot of current data.
+ * Computes the current month's snapshot from its bookings so far (recomputed by the cron once the month ends).
  * Requires admin authentication.
- * Should be called at end of each month.
  */
 export async function POST() {
   // Require admin authentication
@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireAdminOrSupport } from "@/lib/apiAuth";
 import { getSupervisorList } from "@/lib/supervisors";
+import { findOrCreateDeparture } from "@/lib/departures";
+import { recordPayment } from "@/lib/payments";
+import { linkCustomer } from "@/lib/customers";
 
 /**
  * Creates a deterministic hash from row content for idempotent imports.
@@ -279,11 +282,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const allTours = await db.tour.findMany({ select: { id: true, name: true, line: true } });
-    const tourByName = new Map<string, { id: string }>();
+    const allTours = await db.tour.findMany({ select: { id: true, name: true, line: true, currency: true } });
+    const tourByName = new Map<string, { id: string; currency: string }>();
     allTours.forEach((p) => {
       const key = normalizeProductKey(p.name ?? "");
-      if (key && !tourByName.has(key)) tourByName.set(key, { id: p.id });
+      if (key && !tourByName.has(key)) tourByName.set(key, { id: p.id, currency: p.currency });
     });
 
     const supervisorList = await getSupervisorList();
@@ -313,7 +316,7 @@ export async function POST(request: NextRequest) {
       const rowQty = quantityIdx !== undefined ? Math.floor(parseFloat(qtyStr) || 0) : 1;
       const qtyPerItem = items.length > 1 ? 1 : (rowQty < 1 ? 1 : rowQty);
 
-      const resolvedItems: Array<{ tourId: string; quantity: number; total: number }> = [];
+      const resolvedItems: Array<{ tourId: string; quantity: number; total: number; currency: string }> = [];
       for (let i = 0; i < items.length; i++) {
         const { lookupName, priceFromCell } = items[i];
         const total =
@@ -335,9 +338,17 @@ export async function POST(request: NextRequest) {
           errorByMessage.set(msg, rows);
           break;
         }
-        resolvedItems.push({ tourId: tour.id, quantity: qtyPerItem, total });
+        resolvedItems.push({ tourId: tour.id, quantity: qtyPerItem, total, currency: tour.currency });
       }
       if (resolvedItems.length !== items.length) continue;
+      // One currency per invoice: the row's total is in its tours' currency
+      if (new Set(resolvedItems.map((item) => item.currency)).size > 1) {
+        const msg = "La fila mezcla tours con monedas distintas";
+        const rows = errorByMessage.get(msg) ?? [];
+        if (!rows.includes(r + 1)) rows.push(r + 1);
+        errorByMessage.set(msg, rows);
+        continue;
+      }
 
       const dateStr = getCell(row, headerMap, ["date", "fecha"]);
       const fechaEntregaStr = getCell(row, headerMap, ["fechaEntrega", "date", "fecha"]);
@@ -386,17 +397,29 @@ export async function POST(request: NextRequest) {
       }
 
       await db.$transaction(async (tx) => {
+        const customerId = await linkCustomer(tx, {
+          customerName,
+          customerPhone,
+          cedula,
+          provincia,
+          municipio,
+          customerAddress,
+        });
         for (let i = 0; i < resolvedItems.length; i++) {
-          const { tourId, quantity, total } = resolvedItems[i];
+          const { tourId, quantity, total, currency } = resolvedItems[i];
           const isFirst = i === 0;
+          const departure = await findOrCreateDeparture(tx, tourId, fechaVisita);
           await tx.sale.create({
             data: {
               batchId,
               tourId,
+              departureId: departure.id,
               quantity,
               total,
+              currency,
               abono: isFirst ? (abono ?? null) : null,
               pendiente: isFirst ? (pendiente ?? null) : null,
+              customerId,
               customerName,
               customerPhone,
               cedula,
@@ -411,15 +434,25 @@ export async function POST(request: NextRequest) {
               isPaid,
             },
           });
-          const t = await tx.tour.findUnique({ where: { id: tourId }, select: { stock: true } });
-          if (t?.stock === -1) {
-            await tx.tour.update({ where: { id: tourId }, data: { sold: { increment: quantity } } });
-          } else {
-            await tx.tour.update({
-              where: { id: tourId },
-              data: { stock: { decrement: quantity }, sold: { increment: quantity } },
-            });
-          }
+          // Imported bookings already happened: count them on the departure without a capacity check
+          await tx.tourDeparture.update({
+            where: { id: departure.id },
+            data: { booked: { increment: quantity } },
+          });
+          await tx.tour.update({ where: { id: tourId }, data: { sold: { increment: quantity } } });
+        }
+
+        // What was already collected goes to the payment ledger (full total when marked paid)
+        const collected = isPaid
+          ? resolvedItems.reduce((sum, item) => sum + item.total, 0)
+          : abono ?? 0;
+        if (collected > 0) {
+          await recordPayment(
+            tx,
+            batchId,
+            { amount: collected, method: "cash", paidAt: fechaEntrega, reference: "Importado" },
+            { recordedBy: "Importación", recordedByRole: null }
+          );
         }
       });
       created += resolvedItems.length;
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { buildCreditNote, generateCreditNotePdf } from "@/lib/creditNotePdf";
+import { brandConfig } from "@/lib/brandConfig";
+
+/**
+ * GET /api/invoices/[batchId]/credit-notes/[refundId]/pdf
+ * Returns the credit note PDF of a cancellation refund, with the invoice's current balance.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ batchId: string; refundId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId, refundId } = await context.params;
+    const note = await buildCreditNote(batchId, refundId, supervisorFilter);
+    if (!note) {
+      return NextResponse.json({ error: "Credit note not found" }, { status: 404 });
+    }
+
+    const pdfBuffer = generateCreditNotePdf(note, brandConfig.logoPath);
+    return new NextResponse(Buffer.from(pdfBuffer), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${note.number}.pdf"`,
+      },
+    });
+  } catch (err) {
+    console.error("Error generating credit note PDF:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Failed to generate PDF" },
+      { status: 500 }
+    );
+  }
+}
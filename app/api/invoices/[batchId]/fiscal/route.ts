@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { IssueFiscalInvoiceSchema, formatZodError } from "@/lib/validation";
+import { getFiscalInvoice, issueFiscalInvoice, toFiscalInvoiceDTO } from "@/lib/fiscal";
+import { getAuditActor } from "@/lib/audit";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/invoices/[batchId]/fiscal
+ * Returns the comprobante fiscal (NCF) of the batch, or { fiscal: null } when none was issued.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    if (!batchId) {
+      return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+    }
+
+    const sale = await db.sale.findFirst({
+      where: { batchId, ...supervisorFilter },
+      select: { id: true },
+    });
+    if (!sale) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    const fiscal = await getFiscalInvoice(batchId);
+    return NextResponse.json({ fiscal: fiscal ? toFiscalInvoiceDTO(fiscal) : null });
+  } catch (err) {
+    console.error("Error fetching fiscal invoice:", err);
+    return NextResponse.json({ error: "Failed to fetch fiscal invoice" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/invoices/[batchId]/fiscal
+ * Finalizes the invoice as a comprobante fiscal: assigns the next NCF of the type atomically
+ * and fixes the ITBIS breakdown. Audited as invoice.issue_ncf.
+ * Body: { ncfType: "B01" | "B02", customerRnc?, customerName? } (RNC required for B01).
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    if (!batchId) {
+      return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = IssueFiscalInvoiceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const fiscal = await issueFiscalInvoice(batchId, parsed.data, getAuditActor(session), supervisorFilter);
+    return NextResponse.json({ fiscal }, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    // Unique NCF/batch constraint: another request issued it first
+    if (err && typeof err === "object" && "code" in err && err.code === "P2002") {
+      return NextResponse.json({ error: "La factura ya tiene comprobante fiscal" }, { status: 409 });
+    }
+    console.error("Error issuing fiscal invoice:", err);
+    return NextResponse.json({ error: "Failed to issue fiscal invoice" }, { status: 500 });
+  }
+}
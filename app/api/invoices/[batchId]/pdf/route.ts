@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
-import { db } from "@/lib/db";
-import { buildInvoiceFromSales, generateInvoicePdf } from "@/lib/invoicePdf";
+import { generateInvoicePdf, loadInvoiceDocument } from "@/lib/invoicePdf";
 import { brandConfig } from "@/lib/brandConfig";
 
 /**
  * GET /api/invoices/[batchId]/pdf
- * Returns a clean, concise PDF invoice for the given batch.
+ * Returns a clean, concise PDF invoice for the given batch, with the check-in QR code.
  * Requires supervisor or above. Respects supervisor filter (only own batches).
  */
 export async function GET(
@@ -28,18 +27,12 @@ export async function GET(
       return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
     }
 
-    const sales = await db.sale.findMany({
-      where: { batchId, voidedAt: null, ...supervisorFilter },
-      include: { tour: true },
-      orderBy: { createdAt: "asc" },
-    });
-    if (sales.length === 0) {
+    const document = await loadInvoiceDocument(batchId, supervisorFilter);
+    if (!document) {
       return NextResponse.json({ error: "Batch not found" }, { status: 404 });
     }
 
-    const invoice = buildInvoiceFromSales(sales, batchId);
-
-    const pdfBuffer = generateInvoicePdf(invoice, brandConfig.logoPath);
+    const pdfBuffer = generateInvoicePdf(document.invoice, brandConfig.logoPath);
     return new NextResponse(Buffer.from(pdfBuffer), {
       status: 200,
       headers: {
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { generateInvoicePdf, loadInvoiceDocument } from "@/lib/invoicePdf";
+import { brandConfig } from "@/lib/brandConfig";
+import { getBookingReference } from "@/lib/sales";
+import { normalizePhone, uploadWhatsAppMedia, WhatsAppApiError } from "@/lib/whatsapp";
+import { recordWhatsAppMessage, sendAndRecordWhatsApp } from "@/lib/whatsappInbox";
+import { z } from "zod";
+
+const SendInvoiceSchema = z.object({
+  to: z.string().max(50).optional(),
+  caption: z.string().max(1024).optional(),
+});
+
+/**
+ * POST /api/invoices/[batchId]/whatsapp
+ * Generates the invoice PDF and sends it to the customer as a WhatsApp document.
+ * Body (optional): { to?: string (defaults to the invoice phone), caption?: string }
+ * The send is logged in the customer's thread with the batchId (failures keep Meta's error code).
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = SendInvoiceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map((i) => i.message).join("; ") },
+        { status: 400 }
+      );
+    }
+
+    const document = await loadInvoiceDocument(batchId, supervisorFilter);
+    if (!document) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+    const { invoice, sales } = document;
+    const to = parsed.data.to?.trim() || sales[0].customerPhone;
+    if (!to || !normalizePhone(to)) {
+      return NextResponse.json({ error: "La factura no tiene teléfono del cliente" }, { status: 400 });
+    }
+
+    const pdf = generateInvoicePdf(invoice, brandConfig.logoPath);
+
+    const reference = getBookingReference(batchId);
+    const filename = `Factura-${reference}.pdf`;
+    const caption = parsed.data.caption?.trim() || `Factura #${reference} — ${brandConfig.brandName}`;
+    let mediaId: string;
+    try {
+      ({ mediaId } = await uploadWhatsAppMedia(pdf, "application/pdf", filename));
+    } catch (uploadError) {
+      await recordWhatsAppMessage({
+        direction: "outbound",
+        customerPhone: to,
+        body: `[Documento ${filename}] ${caption}`,
+        batchId,
+        tourId: sales[0].tourId,
+        messageType: "document",
+        status: "failed",
+        errorCode: uploadError instanceof WhatsAppApiError ? uploadError.code : null,
+        errorMessage: uploadError instanceof Error ? uploadError.message.slice(0, 500) : null,
+      });
+      throw uploadError;
+    }
+    const log = await sendAndRecordWhatsApp(
+      to,
+      { type: "document", media: { id: mediaId }, filename, caption },
+      { batchId, tourId: sales[0].tourId }
+    );
+    return NextResponse.json(log, { status: 201 });
+  } catch (err) {
+    console.error("Error sending invoice via WhatsApp:", err);
+    const code = err instanceof WhatsAppApiError ? err.code : null;
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Failed to send invoice", code },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { UpdateNcfSequenceSchema, formatZodError } from "@/lib/validation";
+import { deleteNcfSequence, updateNcfSequence } from "@/lib/fiscal";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * PATCH /api/ncf-sequences/[id]
+ * Activates/deactivates a sequence or extends its range or expiry.
+ * Body: { isActive?, rangeTo?, expiresAt?: YYYY-MM-DD }.
+ * Admin or support only.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = UpdateNcfSequenceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const sequence = await updateNcfSequence(id, parsed.data);
+    return NextResponse.json(sequence);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error updating NCF sequence:", err);
+    return NextResponse.json({ error: "Error al actualizar secuencia NCF" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/ncf-sequences/[id]
+ * Deletes a sequence that never assigned a number (used ones can only be deactivated).
+ * Admin or support only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    await deleteNcfSequence(id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error deleting NCF sequence:", err);
+    return NextResponse.json({ error: "Error al eliminar secuencia NCF" }, { status: 500 });
+  }
+}
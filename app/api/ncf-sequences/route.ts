@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { CreateNcfSequenceSchema, formatZodError } from "@/lib/validation";
+import { createNcfSequence, listNcfSequences } from "@/lib/fiscal";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/ncf-sequences
+ * Lists DGII NCF sequences (B01/B02) with remaining numbers and expiry.
+ * Admin or support only.
+ */
+export async function GET() {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const sequences = await listNcfSequences();
+    return NextResponse.json(sequences);
+  } catch (err) {
+    console.error("Error fetching NCF sequences:", err);
+    return NextResponse.json({ error: "Error al cargar secuencias NCF" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/ncf-sequences
+ * Registers an NCF sequence authorized by DGII.
+ * Body: { type: "B01" | "B02", rangeFrom, rangeTo, expiresAt: YYYY-MM-DD }.
+ * Admin or support only.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CreateNcfSequenceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const sequence = await createNcfSequence(parsed.data);
+    return NextResponse.json(sequence, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error creating NCF sequence:", err);
+    return NextResponse.json({ error: "Error al crear secuencia NCF" }, { status: 500 });
+  }
+}
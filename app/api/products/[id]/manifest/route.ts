@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { buildManifest, generateManifestPdf, manifestToCsvRows } from "@/lib/manifestPdf";
+import { toCSV } from "@/lib/csv";
+import { brandConfig } from "@/lib/brandConfig";
+import { ManifestQuerySchema, formatZodError } from "@/lib/validation";
+
+/**
+ * GET /api/products/[id]/manifest?date=YYYY-MM-DD&format=json|pdf|csv
+ * Passenger manifest of a tour date: every non-voided booking with its lead customer and additional
+ * persons, seller and payment status (pending balance). Supervisors only get their own bookings.
+ * Requires supervisor or above.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { id } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const parsed = ManifestQuerySchema.safeParse({
+      date: searchParams.get("date") ?? undefined,
+      format: searchParams.get("format") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+    const { date, format } = parsed.data;
+
+    const manifest = await buildManifest(id, date, supervisorFilter);
+    if (!manifest) {
+      return NextResponse.json({ error: "Tour not found" }, { status: 404 });
+    }
+
+    const filename = `Manifiesto-${date}-${manifest.tour.name.replace(/[^\w-]+/g, "_").slice(0, 40)}`;
+    if (format === "pdf") {
+      const pdfBuffer = generateManifestPdf(manifest, brandConfig.logoPath);
+      return new NextResponse(Buffer.from(pdfBuffer), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="${filename}.pdf"`,
+        },
+      });
+    }
+    if (format === "csv") {
+      const { headers, rows } = manifestToCsvRows(manifest);
+      return new NextResponse(toCSV(headers, rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json(manifest);
+  } catch (err) {
+    console.error("Error building manifest:", err);
+    return NextResponse.json({ error: "Failed to build manifest" }, { status: 500 });
+  }
+}
@@ -4,7 +4,8 @@ import {
   updateProduct,
   deleteProduct,
 } from "@/lib/products";
-import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { requireAdminOrSupport, getApiSessionContext } from "@/lib/apiAuth";
+import { getAuditActor } from "@/lib/audit";
 import { UpdateProductSchema, formatZodError } from "@/lib/validation";
 
 interface RouteParams {
@@ -44,7 +45,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 /**
  * PATCH /api/products/[id]
- * Updates a product. Requires admin authentication.
+ * Updates a product (audited as tour.update). Requires admin authentication.
  * @param request - The incoming request with partial product data.
  * @param params - Route parameters containing the product ID.
  * @returns The updated product.
@@ -67,7 +68,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const product = await updateProduct(id, parsed.data);
+    const session = await getApiSessionContext();
+    const product = await updateProduct(id, parsed.data, getAuditActor(session));
     return NextResponse.json(product);
   } catch (error) {
     console.error("Error updating product:", error);
@@ -80,7 +82,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
 /**
  * DELETE /api/products/[id]
- * Permanently deletes a product. Fails if product has sales or is import-only.
+ * Permanently deletes a product. Fails if product has sales or is import-only. Audited as tour.delete.
  * Requires admin authentication.
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
@@ -89,7 +91,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
   try {
     const { id } = await params;
-    const product = await deleteProduct(id);
+    const session = await getApiSessionContext();
+    const product = await deleteProduct(id, getAuditActor(session));
     return NextResponse.json(product);
   } catch (error) {
     const msg = error instanceof Error ? error.message : "Failed to delete product";
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { updateStock, recordSale } from "@/lib/products";
+import { db } from "@/lib/db";
+import { updateStock } from "@/lib/products";
+import { requireAdminOrSupport, getApiSessionContext } from "@/lib/apiAuth";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
+import { reserveDepartureSeats, updateDepartureCapacity } from "@/lib/departures";
+import { offerReleasedSeats } from "@/lib/waitlist";
+import { DomainError } from "@/lib/errors";
+import { UpdateStockSchema, formatZodError } from "@/lib/validation";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -7,39 +14,97 @@ interface RouteParams {
 
 /**
  * PATCH /api/products/[id]/stock
- * Updates product stock or records a sale.
- * Requires admin authentication.
+ * Updates seats for a tour or one of its departures.
+ * Requires admin authentication. Changes are audited as tour.update_stock.
+ * Added seats are offered to the waitlist (of that departure, or of every upcoming date for the default seats).
  *
  * Body options:
- * - { stock: number } - Sets absolute stock value
- * - { sold: number } - Records a sale and decrements stock
+ * - { stock: number } - Sets the tour's default seats per departure (used for new departures)
+ * - { departureId: string, capacity: number } - Sets the capacity of one departure
+ * - { departureId: string, sold: number } - Books seats on one departure
  *
  * @param request - The incoming request with stock data.
  * @param params - Route parameters containing the product ID.
- * @returns The updated product.
+ * @returns The updated product or departure.
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
   try {
     const { id } = await params;
-    const body = await request.json();
+    const parsed = UpdateStockSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+    const body = parsed.data;
+    const actor = getAuditActor(await getApiSessionContext());
 
-    // Handle absolute stock update
-    if (typeof body.stock === "number") {
-      const product = await updateStock(id, body.stock);
-      return NextResponse.json(product);
+    // Per-departure updates
+    if (body.departureId !== undefined) {
+      const departureId = body.departureId;
+      const departure = await db.tourDeparture.findUnique({
+        where: { id: departureId },
+        select: { tourId: true, capacity: true, booked: true, date: true },
+      });
+      if (!departure || departure.tourId !== id) {
+        return NextResponse.json({ error: "Departure not found" }, { status: 404 });
+      }
+
+      if (body.capacity !== undefined) {
+        const capacity = body.capacity;
+        const updated = await db.$transaction(async (tx) => {
+          const changed = await updateDepartureCapacity(tx, departureId, capacity);
+          await recordAuditEvent(tx, actor, {
+            action: "tour.update_stock",
+            entityType: "tour",
+            entityId: id,
+            changes: { capacity: { before: departure.capacity, after: changed.capacity } },
+            metadata: { departureId, date: departure.date.toISOString() },
+          });
+          return changed;
+        });
+        await offerReleasedSeats(id, departure.date);
+        return NextResponse.json(updated);
+      }
+
+      if (body.sold !== undefined) {
+        const sold = body.sold;
+        const updated = await db.$transaction(async (tx) => {
+          const reserved = await reserveDepartureSeats(tx, departureId, sold);
+          await recordAuditEvent(tx, actor, {
+            action: "tour.update_stock",
+            entityType: "tour",
+            entityId: id,
+            changes: { booked: { before: departure.booked, after: reserved.booked } },
+            metadata: { departureId, date: departure.date.toISOString() },
+          });
+          return reserved;
+        });
+        return NextResponse.json(updated);
+      }
+
+      return NextResponse.json(
+        { error: "Provide either capacity or sold quantity" },
+        { status: 400 }
+      );
     }
 
-    // Handle sale recording
-    if (typeof body.sold === "number") {
-      const product = await recordSale(id, body.sold);
+    // Handle default seats per departure
+    if (body.stock !== undefined) {
+      const product = await updateStock(id, body.stock, actor);
+      await offerReleasedSeats(id);
       return NextResponse.json(product);
     }
 
     return NextResponse.json(
-      { error: "Provide either stock or sold quantity" },
+      { error: "Provide either stock or departureId" },
       { status: 400 }
     );
   } catch (error) {
+    if (error instanceof DomainError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Error updating stock:", error);
     const message =
       error instanceof Error ? error.message : "Failed to update stock";
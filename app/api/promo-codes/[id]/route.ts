@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { UpdatePromoCodeSchema, formatZodError } from "@/lib/validation";
+import { deletePromoCode, updatePromoCode } from "@/lib/promoCodes";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * PATCH /api/promo-codes/[id]
+ * Activates/deactivates a promo code or changes its rules (bookings already discounted keep their amounts).
+ * Body: { description?, discountValue?, tourIds?, minPassengers?, maxUses? (null = unlimited),
+ * validFrom?, validUntil? (YYYY-MM-DD, null clears), isActive? }.
+ * Admin or support only.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = UpdatePromoCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const promo = await updatePromoCode(id, parsed.data);
+    return NextResponse.json(promo);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error updating promo code:", err);
+    return NextResponse.json({ error: "Error al actualizar código promocional" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/promo-codes/[id]
+ * Deletes a promo code that was never used (used ones can only be deactivated).
+ * Admin or support only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    await deletePromoCode(id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error deleting promo code:", err);
+    return NextResponse.json({ error: "Error al eliminar código promocional" }, { status: 500 });
+  }
+}
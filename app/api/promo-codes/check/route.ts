@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyRateLimit, getApiSessionContext } from "@/lib/apiAuth";
+import { CheckPromoCodeSchema, formatZodError } from "@/lib/validation";
+import { quotePromoCode } from "@/lib/promoCodes";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * POST /api/promo-codes/check
+ * Previews a promo code on a booking being entered (catalog checkout, SaleForm) without redeeming it.
+ * Body: { code, items: [{ tourId, adults, kids, adultPrice?, childPrice? }] }; prices are only taken from signed-in staff.
+ * Public (rate limited per IP). Returns { code, description, total, discount, netTotal, currency }.
+ */
+export async function POST(request: NextRequest) {
+  const { error: rateError } = await applyRateLimit("promo-codes:check", "promoCodeCheck");
+  if (rateError) return rateError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CheckPromoCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const session = await getApiSessionContext();
+    const input = session.isValid
+      ? parsed.data
+      : { ...parsed.data, items: parsed.data.items.map(({ tourId, adults, kids }) => ({ tourId, adults, kids })) };
+    const quote = await quotePromoCode(input);
+    return NextResponse.json(quote);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error checking promo code:", err);
+    return NextResponse.json({ error: "Error al validar el código promocional" }, { status: 500 });
+  }
+}
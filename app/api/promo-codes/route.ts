@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminOrSupport } from "@/lib/apiAuth";
+import { CreatePromoCodeSchema, formatZodError } from "@/lib/validation";
+import { createPromoCode, listPromoCodes } from "@/lib/promoCodes";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/promo-codes
+ * Lists promo codes with their rules and usage.
+ * Admin or support only.
+ */
+export async function GET() {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const promos = await listPromoCodes();
+    return NextResponse.json(promos);
+  } catch (err) {
+    console.error("Error fetching promo codes:", err);
+    return NextResponse.json({ error: "Error al cargar códigos promocionales" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/promo-codes
+ * Creates a promo code.
+ * Body: { code, description?, discountType: "percent" | "fixed", discountValue, currency? (fixed), tourIds?,
+ * minPassengers?, maxUses?, validFrom?: YYYY-MM-DD, validUntil?: YYYY-MM-DD, isActive? }.
+ * Admin or support only.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = CreatePromoCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const promo = await createPromoCode(parsed.data);
+    return NextResponse.json(promo, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error creating promo code:", err);
+    return NextResponse.json({ error: "Error al crear código promocional" }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { canArchiveVoidedInvoices } from "@/lib/permissions";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
+
+/**
+ * POST /api/sales/[batchId]/archive
+ * Archives a voided (anulada) invoice batch: it leaves the default invoice lists but is kept
+ * with its lines, payments and history. Voided invoices are never hard-deleted.
+ * Only allowed when all sales in the batch have voidedAt set. Audited as invoice.archive.
+ * Requires a role allowed by canArchiveVoidedInvoices (admin, support).
+ *
+ * @param _request - Incoming request (no body required).
+ * @param context - Route context containing params promise.
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  if (!canArchiveVoidedInvoices(session.role)) {
+    return NextResponse.json(
+      { error: "Forbidden - Insufficient permissions" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { batchId } = await context.params;
+    if (!batchId) {
+      return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+    }
+
+    const sales = await db.sale.findMany({
+      where: { batchId },
+      select: { id: true, voidedAt: true, archivedAt: true, total: true },
+    });
+
+    if (sales.length === 0) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    if (!sales.every((s) => s.voidedAt)) {
+      return NextResponse.json(
+        { error: "Only voided (anulada) invoices can be archived" },
+        { status: 400 }
+      );
+    }
+
+    if (sales.some((s) => s.archivedAt)) {
+      return NextResponse.json(
+        { error: "Invoice already archived" },
+        { status: 409 }
+      );
+    }
+
+    const actor = getAuditActor(session);
+    const archivedAt = new Date();
+    await db.$transaction(async (tx) => {
+      await tx.sale.updateMany({
+        where: { batchId },
+        data: { archivedAt, archivedBy: actor.name },
+      });
+
+      await recordAuditEvent(tx, actor, {
+        action: "invoice.archive",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: { archivedAt: { before: null, after: archivedAt.toISOString() } },
+        metadata: { total: sales.reduce((sum, s) => sum + s.total, 0) },
+      });
+    });
+
+    return NextResponse.json({
+      message: "Voided invoice archived",
+    });
+  } catch (error) {
+    console.error("Error archiving voided invoice:", error);
+    return NextResponse.json(
+      { error: "Failed to archive invoice" },
+      { status: 500 }
+    );
+  }
+}
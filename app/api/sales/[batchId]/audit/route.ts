@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { getAuditEvents } from "@/lib/audit";
+import { canSeeAudit } from "@/lib/permissions";
+
+/**
+ * GET /api/sales/[batchId]/audit
+ * Returns the change history (Historial) of one invoice, newest first.
+ * Query params: cursor, limit (default 50, max 200).
+ * Requires supervisor or above; supervisors only see their own invoices.
+ * Admin/support can also read the history of deleted invoices.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    if (!batchId) {
+      return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+    }
+
+    if (!canSeeAudit(session.role)) {
+      const sale = await db.sale.findFirst({
+        where: { batchId, ...supervisorFilter },
+        select: { id: true },
+      });
+      if (!sale) {
+        return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+      }
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await getAuditEvents({
+      entityType: "invoice",
+      entityId: batchId,
+      cursor: searchParams.get("cursor") || undefined,
+      limit: parseInt(searchParams.get("limit") ?? "50", 10) || 50,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Error fetching invoice history:", err);
+    return NextResponse.json({ error: "Failed to fetch invoice history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { getAuditActor } from "@/lib/audit";
+import { cancelBooking, quoteCancellation, toRefundDTO } from "@/lib/cancellations";
+import { CancelBookingSchema, formatZodError } from "@/lib/validation";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/sales/[batchId]/cancel?passengerIndex=
+ * Previews a cancellation under the tour's policy: seats released, abonos of the cancelled seats,
+ * refund percentage and amount, and the invoice balance left. Without passengerIndex the whole batch is quoted.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const rawIndex = new URL(request.url).searchParams.get("passengerIndex");
+    const parsed = CancelBookingSchema.safeParse({
+      passengerIndex: rawIndex ? Number(rawIndex) : undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const quote = await quoteCancellation(batchId, parsed.data.passengerIndex, supervisorFilter);
+    return NextResponse.json(quote);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error quoting cancellation:", err);
+    return NextResponse.json({ error: "Failed to quote cancellation" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/sales/[batchId]/cancel
+ * Cancels the booking, or one additional passenger, under the tour's cancellation policy:
+ * releases the seats, records the refund (credit note) and recomputes the invoice. Audited as invoice.cancel.
+ * Body: { passengerIndex?: n (personasAdditional[n - 1]), method?: "cash" | "transfer" | "card", reason? }.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = CancelBookingSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const refund = await cancelBooking(batchId, parsed.data, getAuditActor(session), supervisorFilter);
+    return NextResponse.json(toRefundDTO(refund), { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error cancelling booking:", err);
+    return NextResponse.json({ error: "Failed to cancel booking" }, { status: 500 });
+  }
+}
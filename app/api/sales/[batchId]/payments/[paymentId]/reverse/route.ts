@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAdminOrSupport, getApiSessionContext } from "@/lib/apiAuth";
+import { ReversePaymentSchema, formatZodError } from "@/lib/validation";
+import { getPaymentRecorder, reversePayment } from "@/lib/payments";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * POST /api/sales/[batchId]/payments/[paymentId]/reverse
+ * Reverses a payment: it stays in the history but no longer counts toward the batch.
+ * Recomputes pendiente / isPaid. Payments locked in a cash closing cannot be reversed.
+ * Audited as payment.reverse. Admin and support only.
+ * Body: { reason?: string }.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string; paymentId: string }> }
+) {
+  const authError = await requireAdminOrSupport();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+
+  try {
+    const { batchId, paymentId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = ReversePaymentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: formatZodError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const payment = await db.payment.findUnique({ where: { id: paymentId } });
+    if (!payment || payment.batchId !== batchId) {
+      return NextResponse.json({ error: "Pago no encontrado" }, { status: 404 });
+    }
+
+    const reversed = await db.$transaction(async (tx) => {
+      const updated = await reversePayment(tx, paymentId, getPaymentRecorder(session), parsed.data.reason);
+      await recordAuditEvent(tx, getAuditActor(session), {
+        action: "payment.reverse",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: { reversedAt: { before: null, after: updated.reversedAt?.toISOString() ?? null } },
+        metadata: {
+          paymentId,
+          amount: updated.amount,
+          method: updated.method,
+          reason: updated.reverseReason,
+        },
+      });
+      return updated;
+    });
+
+    return NextResponse.json(reversed);
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error reversing payment:", error);
+    return NextResponse.json({ error: "Failed to reverse payment" }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { RecordPaymentSchema, formatZodError } from "@/lib/validation";
+import { getBatchPayments, getPaymentRecorder, recordPayment } from "@/lib/payments";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
+
+/**
+ * GET /api/sales/[batchId]/payments
+ * Lists the payments (abonos) of an invoice batch, including reversed ones.
+ * Requires admin authentication.
+ * @returns JSON array of payments ordered by date.
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const sale = await db.sale.findFirst({
+      where: { batchId, ...supervisorFilter },
+      select: { id: true },
+    });
+    if (!sale) {
+      return NextResponse.json({ error: "Sale batch not found" }, { status: 404 });
+    }
+
+    const payments = await getBatchPayments(batchId);
+    return NextResponse.json(payments);
+  } catch (error) {
+    console.error("Error fetching payments:", error);
+    return NextResponse.json({ error: "Failed to fetch payments" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/sales/[batchId]/payments
+ * Records a payment (abono) on an invoice batch and recomputes pendiente / isPaid. Audited as payment.record.
+ * Requires admin authentication.
+ * Body: { amount, method: "cash" | "transfer" | "card", paidAt?: YYYY-MM-DD, reference? }.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = RecordPaymentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: formatZodError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const sales = await db.sale.findMany({
+      where: { batchId, ...supervisorFilter },
+      select: { voidedAt: true },
+    });
+    if (sales.length === 0) {
+      return NextResponse.json({ error: "Sale batch not found" }, { status: 404 });
+    }
+    if (sales.some((s) => s.voidedAt)) {
+      return NextResponse.json(
+        { error: "No se pueden registrar pagos en una factura anulada" },
+        { status: 400 }
+      );
+    }
+
+    const { amount, method, paidAt, reference } = parsed.data;
+    const payment = await db.$transaction(async (tx) => {
+      const created = await recordPayment(
+        tx,
+        batchId,
+        { amount, method, paidAt: paidAt ? new Date(paidAt) : undefined, reference },
+        getPaymentRecorder(session)
+      );
+      await recordAuditEvent(tx, getAuditActor(session), {
+        action: "payment.record",
+        entityType: "invoice",
+        entityId: batchId,
+        metadata: {
+          paymentId: created.id,
+          amount: created.amount,
+          method: created.method,
+          paidAt: created.paidAt.toISOString(),
+          reference: created.reference,
+        },
+      });
+      return created;
+    });
+
+    return NextResponse.json(payment, { status: 201 });
+  } catch (error) {
+    console.error("Error recording payment:", error);
+    return NextResponse.json({ error: "Failed to record payment" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { getAuditActor } from "@/lib/audit";
+import { quotePassengerRemoval, removePassenger } from "@/lib/cancellations";
+import { RemovePassengerSchema, formatZodError } from "@/lib/validation";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/sales/[batchId]/remove-passenger?passengerIndex=
+ * Previews removing an additional passenger without refund: seat price taken off each tour's line
+ * (adult or kid price), seats released and the invoice total and pendiente left.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const rawIndex = new URL(request.url).searchParams.get("passengerIndex");
+    const parsed = RemovePassengerSchema.safeParse({ passengerIndex: rawIndex ? Number(rawIndex) : undefined });
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const quote = await quotePassengerRemoval(batchId, parsed.data.passengerIndex, supervisorFilter);
+    return NextResponse.json(quote);
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error quoting passenger removal:", err);
+    return NextResponse.json({ error: "Failed to quote passenger removal" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/sales/[batchId]/remove-passenger
+ * Removes an additional passenger from the booking without refund: one seat released per tour, line quantity
+ * and total lowered by the passenger's adult/kid price, pendiente recomputed and the passenger kept in the
+ * invoice's removed-passenger history. Audited as invoice.remove_passenger.
+ * Body: { passengerIndex: n (personasAdditional[n - 1]), reason? }.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = RemovePassengerSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const removed = await removePassenger(batchId, parsed.data, getAuditActor(session), supervisorFilter);
+    return NextResponse.json({ success: true, id: removed.id }, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error removing passenger:", err);
+    return NextResponse.json({ error: "Failed to remove passenger" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { listRemovedPassengers } from "@/lib/cancellations";
+
+/**
+ * GET /api/sales/[batchId]/removed-passengers
+ * Lists the passengers removed from an invoice batch (plain removals and policy cancellations), oldest first.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { batchId } = await context.params;
+    const sale = await db.sale.findFirst({
+      where: { batchId, ...supervisorFilter },
+      select: { id: true },
+    });
+    if (!sale) {
+      return NextResponse.json({ error: "Sale batch not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await listRemovedPassengers(batchId));
+  } catch (error) {
+    console.error("Error fetching removed passengers:", error);
+    return NextResponse.json({ error: "Failed to fetch removed passengers" }, { status: 500 });
+  }
+}
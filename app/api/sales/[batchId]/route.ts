@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
-import { UpdateBatchItemsSchema, formatZodError } from "@/lib/validation";
+import { UpdateBatchItemsSchema, formatZodError, type PassengerType } from "@/lib/validation";
+import { applySeatDelta, findOrCreateDeparture } from "@/lib/departures";
+import { offerReleasedSeats } from "@/lib/waitlist";
+import { syncBatchPaymentTotals } from "@/lib/payments";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
+import { hasPriceOverride, priceSaleItem, recordPriceOverrides, type PricedSaleLine } from "@/lib/sales";
+import { canEditPrice } from "@/lib/permissions";
+import { reapplyPromoRedemption } from "@/lib/promoCodes";
+import { DomainError } from "@/lib/errors";
 
 /**
  * GET /api/sales/[batchId]
@@ -50,13 +58,25 @@ export async function GET(
 
 /**
  * PATCH /api/sales/[batchId]
- * Updates batch items (edit invoice: add/update/remove lines, change quantity/price).
+ * Updates batch items (edit invoice: add/update/remove lines, change seats/price).
  * Requires admin authentication.
- * Body: { items: [{ id?: string, tourId, quantity, total, abono?, pendiente? }] }.
- * - id present: update existing sale row (adjust product stock/sold by delta).
- * - id absent: add new sale row (decrement product stock / increment sold).
- * - Existing sale not in items: remove row (restore product stock / decrement sold).
- * Stock -1 (always available) is never changed.
+ * Body: { items: [{ id?, tourId, adults, kids, adultPrice?, childPrice?, priceOverrideReason? }] }.
+ * Items are priced like a new sale (see priceSaleItem): existing lines keep the tour price they were sold at,
+ * adultPrice/childPrice are manual prices that need a reason and a role allowed by canEditPrice (403 otherwise).
+ * - id present: the line of the item's passenger type with seats replaces that sale row (reserve/release seats by
+ *   delta); seats of the other type go to another row.
+ * - Lines without a row of their own take over a left-out or empty row of the same tour and passenger type;
+ *   otherwise a new row is added on the batch's tour date departure (reserve seats).
+ * - Existing sale not replaced: kept with quantity and total 0 (release its seats), never deleted, so payments,
+ *   commissions and history keep pointing to it. Lines left without seats by a passenger cancellation only
+ *   hold its retained fee and are kept as they are.
+ * - A promo code redeemed on the batch is recomputed over the edited lines (see reapplyPromoRedemption).
+ * Departures with capacity -1 (always available) never run out.
+ * Abono/pendiente are recomputed from the batch's payments (see /payments).
+ * Audited as invoice.update_items with the lines and total before/after; new or changed manual prices are
+ * also audited as invoice.price_override.
+ * Seats released by lower quantities or removed lines are offered to the waitlist of the tour date.
+ * Invoices with a comprobante fiscal (NCF) cannot be edited: its amounts are already reported.
  */
 export async function PATCH(
   request: NextRequest,
@@ -87,17 +107,29 @@ export async function PATCH(
     }
 
     const { items: newItems } = parsed.data;
+    if (hasPriceOverride(newItems) && !canEditPrice(session.role)) {
+      return NextResponse.json(
+        { error: "No tiene permiso para modificar precios" },
+        { status: 403 }
+      );
+    }
+
     const currentSales = await db.sale.findMany({
       where: { batchId, ...supervisorFilter },
       select: {
         id: true,
         tourId: true,
+        departureId: true,
         quantity: true,
         total: true,
-        abono: true,
-        pendiente: true,
+        discount: true,
+        passengerType: true,
+        listPrice: true,
+        currency: true,
+        fechaVisita: true,
         voidedAt: true,
       },
+      orderBy: { createdAt: "asc" },
     });
 
     if (currentSales.length === 0) {
@@ -110,126 +142,221 @@ export async function PATCH(
       );
     }
 
-    const currentById = new Map(currentSales.map((s) => [s.id, s]));
-    const idsInBody = new Set(newItems.map((i) => i.id).filter(Boolean));
+    const fiscal = await db.fiscalInvoice.findUnique({
+      where: { batchId },
+      select: { ncf: true },
+    });
+    if (fiscal) {
+      return NextResponse.json(
+        { error: `La factura ya tiene comprobante fiscal (${fiscal.ncf}); no se pueden editar las líneas` },
+        { status: 409 }
+      );
+    }
+
+    // Fee-only lines (no seats) are not part of the editable lines. Empty lines (removed or fully credited:
+    // no seats, nothing owed) can take a new line of their tour and type, so lines are never re-created.
+    const editableSales = currentSales.filter((s) => s.quantity > 0);
+    const emptySales = currentSales.filter((s) => s.quantity === 0 && s.total === 0);
+    const currentById = new Map(editableSales.map((s) => [s.id, s]));
+
+    // Lines must be in the invoice's currency (payments are recorded in it)
+    const batchCurrency = currentSales[0].currency;
+    const tours = await db.tour.findMany({
+      where: { id: { in: newItems.map((i) => i.tourId) } },
+      select: { id: true, name: true, currency: true, price: true, childPrice: true },
+    });
+    const tourById = new Map(tours.map((t) => [t.id, t]));
+    for (const item of newItems) {
+      const tour = tourById.get(item.tourId);
+      if (!tour) {
+        return NextResponse.json({ error: `Product not found: ${item.tourId}` }, { status: 404 });
+      }
+      const isCurrentTour = !!item.id && currentById.get(item.id)?.tourId === item.tourId;
+      if (!isCurrentTour && tour.currency !== batchCurrency) {
+        return NextResponse.json(
+          { error: `${tour.name} tiene precio en ${tour.currency}; la factura está en ${batchCurrency}` },
+          { status: 400 }
+        );
+      }
+    }
 
     await db.$transaction(async (tx) => {
-      for (let index = 0; index < newItems.length; index++) {
-        const item = newItems[index];
-        if (item.id && currentById.has(item.id)) {
-          const existing = currentById.get(item.id)!;
-          const deltaQty = item.quantity - existing.quantity;
-          const product = await tx.tour.findUnique({
-            where: { id: item.tourId },
-            select: { stock: true },
-          });
-          if (!product) {
-            throw new Error(`Product not found: ${item.tourId}`);
-          }
-          if (product.stock !== -1 && deltaQty > 0 && product.stock < deltaQty) {
-            throw new Error(`Insufficient stock for update`);
-          }
+      const template = await tx.sale.findFirst({
+        where: { batchId },
+        select: {
+          customerId: true,
+          customerName: true,
+          customerPhone: true,
+          cedula: true,
+          provincia: true,
+          municipio: true,
+          customerAddress: true,
+          personasAdditional: true,
+          notes: true,
+          fechaEntrega: true,
+          fechaVisita: true,
+          supervisor: true,
+          nombreVendedor: true,
+          isPaid: true,
+          source: true,
+          holdExpiresAt: true,
+        },
+        orderBy: { createdAt: "asc" },
+      });
+      const customerData = template ?? {};
+
+      type CurrentSale = (typeof currentSales)[number];
+      const replacedIds = new Set<string>();
+      const targets: { line: PricedSaleLine; replaces: CurrentSale | undefined }[] = [];
+      for (const item of newItems) {
+        const tour = tourById.get(item.tourId)!;
+        const current = item.id ? currentById.get(item.id) : undefined;
+        const existing = current?.tourId === item.tourId ? current : undefined;
+        // An existing line keeps the tour price it was sold at
+        const soldAt = (type: PassengerType) =>
+          existing?.passengerType === type && existing.listPrice != null ? existing.listPrice : null;
+        const lines = priceSaleItem(item, {
+          id: tour.id,
+          price: soldAt("adult") ?? tour.price,
+          childPrice: soldAt("kid") ?? tour.childPrice,
+        });
+        for (const line of lines) {
+          const replaces =
+            existing && existing.passengerType === line.passengerType && !replacedIds.has(existing.id)
+              ? existing
+              : undefined;
+          if (replaces) replacedIds.add(replaces.id);
+          targets.push({ line, replaces });
+        }
+      }
+      // Remaining lines take over a line of the same tour and type that was left out or is empty
+      for (const target of targets) {
+        if (target.replaces) continue;
+        target.replaces = [...editableSales, ...emptySales].find(
+          (s) =>
+            !replacedIds.has(s.id) &&
+            s.tourId === target.line.tourId &&
+            s.passengerType === target.line.passengerType
+        );
+        if (target.replaces) replacedIds.add(target.replaces.id);
+      }
 
+      const changedOverrides: PricedSaleLine[] = [];
+      for (const { line, replaces } of targets) {
+        const previousUnitPrice =
+          replaces && replaces.quantity > 0
+            ? Math.round((replaces.total + replaces.discount) / replaces.quantity)
+            : null;
+        if (line.unitPrice !== line.listPrice && line.unitPrice !== previousUnitPrice) {
+          changedOverrides.push(line);
+        }
+
+        if (replaces) {
+          const unchanged = line.quantity === replaces.quantity && line.unitPrice === previousUnitPrice;
           await tx.sale.update({
-            where: { id: item.id },
+            where: { id: replaces.id },
             data: {
-              quantity: item.quantity,
-              total: item.total,
-              abono: item.abono ?? null,
-              pendiente: item.pendiente ?? null,
+              quantity: line.quantity,
+              listPrice: line.listPrice,
+              priceOverrideReason: line.priceOverrideReason,
+              // A changed line is charged its new price; the promo discount is recomputed below
+              ...(unchanged ? {} : { total: line.total, discount: 0 }),
             },
           });
-
-          if (product.stock !== -1 && deltaQty !== 0) {
-            await tx.tour.update({
-              where: { id: item.tourId },
-              data: {
-                stock: { [deltaQty > 0 ? "decrement" : "increment"]: Math.abs(deltaQty) },
-                sold: { [deltaQty > 0 ? "increment" : "decrement"]: Math.abs(deltaQty) },
-              },
-            });
-          }
+          await applySeatDelta(tx, replaces, line.quantity - replaces.quantity);
           continue;
         }
 
-        if (!item.id) {
-          const product = await tx.tour.findUnique({
-            where: { id: item.tourId },
-            select: { stock: true },
-          });
-          if (!product) {
-            throw new Error(`Product not found: ${item.tourId}`);
-          }
-          if (product.stock !== -1 && product.stock < item.quantity) {
-            throw new Error(`Insufficient stock for ${item.tourId}`);
-          }
-
-          const template = await tx.sale.findFirst({
-            where: { batchId },
-            select: {
-              customerName: true,
-              customerPhone: true,
-              cedula: true,
-              provincia: true,
-              municipio: true,
-              customerAddress: true,
-              personasAdditional: true,
-              notes: true,
-              fechaEntrega: true,
-              fechaVisita: true,
-              supervisor: true,
-              nombreVendedor: true,
-              isPaid: true,
-            },
-          });
-          const customerData = template ?? {};
+        // New line books seats on the batch's tour date for that tour
+        const departure = template?.fechaVisita
+          ? await findOrCreateDeparture(tx, line.tourId, template.fechaVisita)
+          : null;
+        const departureId = departure?.id ?? null;
 
-          await tx.sale.create({
-            data: {
-              batchId,
-              tourId: item.tourId,
-              quantity: item.quantity,
-              total: item.total,
-              abono: item.abono ?? null,
-              pendiente: item.pendiente ?? null,
-              ...customerData,
-            },
-          });
+        await tx.sale.create({
+          data: {
+            batchId,
+            tourId: line.tourId,
+            departureId,
+            quantity: line.quantity,
+            total: line.total,
+            passengerType: line.passengerType,
+            listPrice: line.listPrice,
+            priceOverrideReason: line.priceOverrideReason,
+            currency: batchCurrency,
+            ...customerData,
+          },
+        });
 
-          if (product.stock !== -1) {
-            await tx.tour.update({
-              where: { id: item.tourId },
-              data: {
-                stock: { decrement: item.quantity },
-                sold: { increment: item.quantity },
-              },
-            });
-          }
-        }
+        await applySeatDelta(tx, { tourId: line.tourId, departureId }, line.quantity);
       }
 
-      for (const sale of currentSales) {
-        if (!idsInBody.has(sale.id)) {
-          const product = await tx.tour.findUnique({
-            where: { id: sale.tourId },
-            select: { stock: true },
+      // Lines left out stay in the batch (payments, commissions and history point to them) with nothing owed
+      for (const sale of editableSales) {
+        if (!replacedIds.has(sale.id)) {
+          await applySeatDelta(tx, sale, -sale.quantity);
+          await tx.sale.update({
+            where: { id: sale.id },
+            data: { quantity: 0, total: 0, discount: 0, priceOverrideReason: null },
           });
-          if (product?.stock !== -1) {
-            await tx.tour.update({
-              where: { id: sale.tourId },
-              data: {
-                stock: { increment: sale.quantity },
-                sold: { decrement: sale.quantity },
-              },
-            });
-          }
-          await tx.sale.delete({ where: { id: sale.id } });
         }
       }
+
+      // The batch's promo code is recomputed over the edited lines
+      await reapplyPromoRedemption(tx, batchId);
+
+      // New totals change what is still owed
+      await syncBatchPaymentTotals(tx, batchId);
+
+      const updatedSales = await tx.sale.findMany({
+        where: { batchId },
+        select: { tourId: true, quantity: true, total: true },
+        orderBy: { createdAt: "asc" },
+      });
+      const toAuditLine = (s: { tourId: string; quantity: number; total: number }) => ({
+        tourId: s.tourId,
+        quantity: s.quantity,
+        total: s.total,
+      });
+      const actor = getAuditActor(session);
+      await recordAuditEvent(tx, actor, {
+        action: "invoice.update_items",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: {
+          lines: {
+            before: currentSales.map(toAuditLine),
+            after: updatedSales.map(toAuditLine),
+          },
+          total: {
+            before: currentSales.reduce((sum, s) => sum + s.total, 0),
+            after: updatedSales.reduce((sum, s) => sum + s.total, 0),
+          },
+        },
+      });
+      await recordPriceOverrides(tx, actor, batchId, changedOverrides);
     });
 
+    // Tours whose seats went down (lower quantity or removed line)
+    const updatedQuantities = await db.sale.findMany({
+      where: { batchId, id: { in: editableSales.map((s) => s.id) } },
+      select: { id: true, quantity: true },
+    });
+    const quantityById = new Map(updatedQuantities.map((s) => [s.id, s.quantity]));
+    const releasedTourIds = new Set(
+      editableSales
+        .filter((s) => (quantityById.get(s.id) ?? 0) < s.quantity)
+        .map((s) => s.tourId)
+    );
+    for (const tourId of releasedTourIds) {
+      await offerReleasedSeats(tourId, currentSales[0].fechaVisita);
+    }
+
     return NextResponse.json({ success: true, message: "Batch updated" });
   } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("Error updating batch:", err);
     return NextResponse.json(
       { error: err instanceof Error ? err.message : "Failed to update batch" },
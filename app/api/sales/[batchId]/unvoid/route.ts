@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { VoidSaleSchema, formatZodError } from "@/lib/validation";
+import { canUnvoidInvoices } from "@/lib/permissions";
+import { applySeatDelta, getDepartureSeatsLeft } from "@/lib/departures";
+import { syncBatchPaymentTotals } from "@/lib/payments";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * POST /api/sales/[batchId]/unvoid
+ * Reverts the anulación of a sale batch: re-checks seat availability on each departure,
+ * re-reserves the seats and recomputes abono/pendiente from the batch's payments.
+ * Archived invoices are restored to the default lists as well; an expired temporary hold comes back as a regular booking.
+ * Cancellations with a credit note (lib/cancellations) cannot be reverted. Audited as invoice.unvoid.
+ * Requires a role allowed by canUnvoidInvoices (admin, support).
+ * Body: { reason?: string }.
+ * @param request - Incoming request with optional reason.
+ * @param context - Route context containing params promise.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  if (!canUnvoidInvoices(session.role)) {
+    return NextResponse.json(
+      { error: "Forbidden - Insufficient permissions" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { batchId } = await context.params;
+    if (!batchId) {
+      return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+    }
+
+    const rawBody = await request.json().catch(() => ({}));
+    const parsed = VoidSaleSchema.safeParse(rawBody);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: formatZodError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const sales = await db.sale.findMany({
+      where: { batchId },
+      include: { tour: { select: { name: true } } },
+    });
+
+    if (sales.length === 0) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    if (!sales.every((s) => s.voidedAt)) {
+      return NextResponse.json(
+        { error: "Invoice is not voided" },
+        { status: 409 }
+      );
+    }
+
+    // A cancellation already refunded the customer; book again instead of reverting it
+    const cancellation = await db.refund.findFirst({ where: { batchId, scope: "batch" }, select: { id: true } });
+    if (cancellation) {
+      return NextResponse.json(
+        { error: "La reserva fue cancelada con nota de crédito; no se puede revertir" },
+        { status: 409 }
+      );
+    }
+
+    // Seats may have been sold to someone else since the void
+    const seatsByDeparture = new Map<string, number>();
+    for (const sale of sales) {
+      if (!sale.departureId) continue;
+      seatsByDeparture.set(sale.departureId, (seatsByDeparture.get(sale.departureId) ?? 0) + sale.quantity);
+    }
+    for (const [departureId, seats] of seatsByDeparture) {
+      const departure = await db.tourDeparture.findUnique({
+        where: { id: departureId },
+        include: { tour: { select: { name: true } } },
+      });
+      if (!departure) continue;
+      const seatsLeft = getDepartureSeatsLeft(departure);
+      if (seatsLeft < seats) {
+        return NextResponse.json(
+          {
+            error: `Plazas insuficientes para ${departure.tour.name} el ${departure.date.toISOString().slice(0, 10)}. Disponibles: ${seatsLeft}, necesarias: ${seats}`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const first = sales[0];
+    await db.$transaction(async (tx) => {
+      for (const sale of sales) {
+        // Throws if the seats ran out between the check and the reservation
+        await applySeatDelta(tx, sale, sale.quantity);
+
+        await tx.sale.update({
+          where: { id: sale.id },
+          data: { voidedAt: null, voidReason: null, archivedAt: null, archivedBy: null, holdExpiresAt: null },
+        });
+      }
+
+      await syncBatchPaymentTotals(tx, batchId);
+
+      await recordAuditEvent(tx, getAuditActor(session), {
+        action: "invoice.unvoid",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: {
+          voidedAt: { before: first.voidedAt?.toISOString() ?? null, after: null },
+          voidReason: { before: first.voidReason, after: null },
+          ...(first.archivedAt
+            ? { archivedAt: { before: first.archivedAt.toISOString(), after: null } }
+            : {}),
+        },
+        metadata: {
+          seatsReserved: sales.reduce((sum, s) => sum + s.quantity, 0),
+          reason: parsed.data.reason?.trim() || null,
+        },
+      });
+    });
+
+    return NextResponse.json({
+      message: "Invoice restored and seats reserved",
+    });
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error un-voiding sale:", error);
+    return NextResponse.json(
+      { error: "Failed to restore invoice" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,11 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
 import { UpdateInvoiceSchema, formatZodError } from "@/lib/validation";
+import { diffFields, getAuditActor, recordAuditEvent } from "@/lib/audit";
+import { linkCustomer } from "@/lib/customers";
 
 /**
  * PATCH /api/sales/[batchId]/update-invoice
  * Updates customer and/or sale data for all sales in a batch.
  * Requires supervisor or above. All body fields are optional (partial update).
+ * Audited as invoice.update with the changed fields (before = first line of the batch).
+ * Changing customer fields re-links the batch to the customer directory (by phone/cédula).
  * @param request - Body with customer/sale fields to update.
  * @param context - Route context with batchId param.
  */
@@ -67,13 +71,27 @@ export async function PATCH(
     if (updates.supervisor !== undefined) data.supervisor = updates.supervisor;
     if (updates.nombreVendedor !== undefined) data.nombreVendedor = updates.nombreVendedor;
 
+    const customerFieldChanged = (
+      ["customerName", "customerPhone", "cedula", "provincia", "municipio", "customerAddress"] as const
+    ).some((key) => updates[key] !== undefined);
+
     await db.$transaction(async (tx) => {
+      if (customerFieldChanged) {
+        data.customerId = await linkCustomer(tx, { ...sales[0], ...data });
+      }
       for (const sale of sales) {
         await tx.sale.update({
           where: { id: sale.id },
           data,
         });
       }
+
+      await recordAuditEvent(tx, getAuditActor(session), {
+        action: "invoice.update",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: diffFields(sales[0] as unknown as Record<string, unknown>, data),
+      });
     });
 
     return NextResponse.json({ message: "Invoice updated successfully" });
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { PAYMENT_METHODS } from "@/lib/validation";
+import { getPaymentRecorder, recordPayment, syncBatchPaymentTotals } from "@/lib/payments";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
 import { z } from "zod";
 
 /**
@@ -8,13 +11,16 @@ import { z } from "zod";
  */
 const UpdatePaymentSchema = z.object({
   isPaid: z.boolean(),
+  method: z.enum(PAYMENT_METHODS).optional(),
 });
 
 /**
  * PATCH /api/sales/[batchId]/update-payment
- * Updates the payment status for all sales in a batch.
+ * Marks a batch as paid by recording a payment for the remaining balance (method defaults to cash).
+ * isPaid is derived from payments, so a batch cannot be marked pending here: reverse a payment instead.
+ * Audited as invoice.mark_paid.
  * Requires admin authentication.
- * @param request - Request with isPaid boolean.
+ * @param request - Request with isPaid boolean and optional method.
  * @param params - Route params containing batchId.
  * @returns Success message or error.
  */
@@ -44,7 +50,13 @@ export async function PATCH(
       );
     }
 
-    const { isPaid } = parsed.data;
+    const { isPaid, method } = parsed.data;
+    if (!isPaid) {
+      return NextResponse.json(
+        { error: "Para marcar como pendiente, anule el pago correspondiente" },
+        { status: 400 }
+      );
+    }
 
     const existingSales = await db.sale.findMany({
       where: { batchId, ...supervisorFilter },
@@ -66,14 +78,39 @@ export async function PATCH(
       );
     }
 
-    await db.sale.updateMany({
-      where: { batchId, ...supervisorFilter },
-      data: isPaid ? { isPaid: true, pendiente: 0 } : { isPaid: false },
+    const balance =
+      existingSales.reduce((sum, s) => sum + s.total, 0) -
+      existingSales.reduce((sum, s) => sum + (s.abono ?? 0), 0);
+
+    await db.$transaction(async (tx) => {
+      let paymentId: string | null = null;
+      if (balance > 0) {
+        const payment = await recordPayment(
+          tx,
+          batchId,
+          { amount: balance, method: method ?? "cash", reference: "Saldo pendiente" },
+          getPaymentRecorder(session)
+        );
+        paymentId = payment.id;
+      } else {
+        await syncBatchPaymentTotals(tx, batchId);
+      }
+
+      await recordAuditEvent(tx, getAuditActor(session), {
+        action: "invoice.mark_paid",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: {
+          isPaid: { before: existingSales.every((s) => s.isPaid), after: true },
+          pendiente: { before: Math.max(0, balance), after: 0 },
+        },
+        metadata: { paymentId, amount: Math.max(0, balance), method: method ?? "cash" },
+      });
     });
 
     return NextResponse.json({
       success: true,
-      message: isPaid ? "Factura marcada como pagada" : "Factura marcada como pendiente",
+      message: "Factura marcada como pagada",
     });
   } catch (error) {
     console.error("Error updating payment status:", error);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
 import { UpdatePhoneSchema, formatZodError } from "@/lib/validation";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
 
 /**
  * Updates the customer phone in notes field for all sales in a batch.
@@ -48,7 +49,7 @@ function updatePhoneInNotes(notes: string | null, newPhone: string): string {
 
 /**
  * PATCH /api/sales/[batchId]/update-phone
- * Updates customer phone number for a sale batch.
+ * Updates customer phone number for a sale batch. Audited as invoice.update_phone.
  * Requires admin authentication.
  * @param request - Request with new phone number.
  * @param context - Route context containing params promise.
@@ -102,6 +103,16 @@ export async function PATCH(
           data: { notes: updatedNotes || null },
         });
       }
+
+      await recordAuditEvent(tx, getAuditActor(session), {
+        action: "invoice.update_phone",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: {
+          notes: { before: sales[0].notes, after: updatePhoneInNotes(sales[0].notes, phone.trim()) || null },
+        },
+        metadata: { phone: phone.trim() },
+      });
     });
 
     return NextResponse.json({
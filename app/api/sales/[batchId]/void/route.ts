@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
 import { VoidSaleSchema, formatZodError } from "@/lib/validation";
+import { applySeatDelta } from "@/lib/departures";
+import { getAuditActor, recordAuditEvent } from "@/lib/audit";
+import { offerReleasedSeats } from "@/lib/waitlist";
 
 /**
  * POST /api/sales/[batchId]/void
- * Voids a sale batch and restores inventory.
+ * Voids a sale batch and releases its seats on each departure. Audited as invoice.void.
+ * Released seats are then offered to the waitlist of each tour date.
  * Requires admin authentication.
  * @param request - Incoming request with optional void reason.
  * @param context - Route context containing params promise.
@@ -57,36 +61,38 @@ export async function POST(
       );
     }
 
+    const voidedAt = new Date();
+    const voidReason = body.reason?.trim() || null;
     await db.$transaction(async (tx) => {
       for (const sale of sales) {
-        const tour = await tx.tour.findUnique({
-          where: { id: sale.tourId },
-        });
-
-        if (!tour) {
-          throw new Error(`Tour not found: ${sale.tourId}`);
-        }
-
-        const nextSold = Math.max(tour.sold - sale.quantity, 0);
-        const wasUnlimited = tour.stock === -1;
-
-        await tx.tour.update({
-          where: { id: sale.tourId },
-          data: wasUnlimited
-            ? { sold: { set: nextSold } }
-            : { stock: { increment: sale.quantity }, sold: { set: nextSold } },
-        });
+        // Release the line's seats on its departure (and the tour's booked total)
+        await applySeatDelta(tx, sale, -sale.quantity);
 
         await tx.sale.update({
           where: { id: sale.id },
-          data: {
-            voidedAt: new Date(),
-            voidReason: body.reason?.trim() || null,
-          },
+          data: { voidedAt, voidReason },
         });
       }
+
+      await recordAuditEvent(tx, getAuditActor(session), {
+        action: "invoice.void",
+        entityType: "invoice",
+        entityId: batchId,
+        changes: {
+          voidedAt: { before: null, after: voidedAt.toISOString() },
+          voidReason: { before: null, after: voidReason },
+        },
+        metadata: {
+          seatsReleased: sales.reduce((sum, s) => sum + s.quantity, 0),
+          total: sales.reduce((sum, s) => sum + s.total, 0),
+        },
+      });
     });
 
+    for (const tourId of new Set(sales.map((s) => s.tourId))) {
+      await offerReleasedSeats(tourId, sales[0].fechaVisita);
+    }
+
     return NextResponse.json({
       message: "Invoice voided and inventory restored",
     });
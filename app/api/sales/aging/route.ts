@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getApiSessionContext, requireSupervisorOrAbove } from "@/lib/apiAuth";
+import { buildReceivablesAging, receivablesAgingToCsvRows } from "@/lib/receivables";
+import { toCSV } from "@/lib/csv";
+import { ReceivablesAgingQuerySchema, formatZodError } from "@/lib/validation";
+
+/**
+ * GET /api/sales/aging?groupBy=supervisor|seller|tour&key=&format=json|csv
+ * Accounts-receivable aging: outstanding balances of unpaid, non-voided invoices bucketed by days past
+ * fechaLimitePago (al día, 1–7, 8–30, más de 30), grouped by supervisor, seller or tour. With key, the
+ * invoice list only covers that group (drill-down). CSV has one row per invoice.
+ * Requires supervisor or above. Respects supervisor filter (only own batches).
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = ReceivablesAgingQuerySchema.safeParse({
+      groupBy: searchParams.get("groupBy") ?? undefined,
+      key: searchParams.get("key") ?? undefined,
+      format: searchParams.get("format") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+    const { groupBy, key, format } = parsed.data;
+
+    const report = await buildReceivablesAging(groupBy, key, supervisorFilter);
+
+    if (format === "csv") {
+      const { headers, rows } = receivablesAgingToCsvRows(report);
+      return new NextResponse(toCSV(headers, rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="Cuentas-por-cobrar-${report.asOf}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Receivables aging error:", error);
+    return NextResponse.json(
+      { error: "Failed to build receivables aging report" },
+      { status: 500 }
+    );
+  }
+}
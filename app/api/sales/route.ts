@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
-import { IMPORT_ONLY_PRODUCT_NAME } from "@/lib/products";
 import { CreateSaleSchema, formatZodError } from "@/lib/validation";
+import { createSaleBatch, hasPriceOverride, validateSaleItems } from "@/lib/sales";
+import { getPaymentRecorder } from "@/lib/payments";
+import { getAuditActor } from "@/lib/audit";
+import { canEditPrice } from "@/lib/permissions";
+import { DomainError } from "@/lib/errors";
 
 /**
  * Default pagination values for sales.
@@ -20,6 +24,7 @@ const MAX_LIMIT = 100;
  *   - year: YYYY (optional)
  *   - page: Page number (default 1)
  *   - limit: Items per page (default 50, max 100)
+ *   - archived: "include" (all invoices) | "only" (archived voided invoices); default excludes archived
  * @returns JSON array of sales or paginated response.
  */
 export async function GET(request: NextRequest) {
@@ -40,7 +45,11 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get("limit") ?? String(DEFAULT_LIMIT), 10)));
     const usePagination = searchParams.has("page") || searchParams.has("limit");
 
-    const whereClause: Record<string, unknown> = { ...supervisorFilter };
+    const archived = searchParams.get("archived");
+    const whereClause: Record<string, unknown> = {
+      ...supervisorFilter,
+      ...(archived === "include" ? {} : { archivedAt: archived === "only" ? { not: null } : null }),
+    };
 
     if (year && month) {
       const startDate = new Date(parseInt(year), parseInt(month) - 1, 1);
@@ -112,7 +121,12 @@ export async function GET(request: NextRequest) {
  * POST /api/sales
  * Creates a new sale transaction.
  * Requires admin authentication.
- * Updates product stock and sold counts.
+ * Books seats on the tour's departure for fechaVisita (created on demand).
+ * Items carry adult and kid seats; totals come from the tour's price/childPrice. A manual adultPrice/childPrice
+ * needs a priceOverrideReason and a role allowed by canEditPrice (403 otherwise).
+ * With holdHours the batch is a temporary hold: seats stay booked until an abono is recorded or the
+ * seat-holds cron voids it at holdExpiresAt.
+ * An optional promoCode discounts the applicable lines (400/409 when it cannot be used).
  * @param request - Request with sale items and customer info.
  * @returns The created sale ID and details.
  */
@@ -132,103 +146,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const {
-      items,
-      customerName,
-      customerPhone,
-      cedula,
-      provincia,
-      municipio,
-      customerAddress,
-      personasAdditional,
-      notes,
-      fechaVisita,
-      fechaLimitePago,
-      isPaid,
-    } = parsed.data;
-    const supervisor = parsed.data.supervisor?.trim() || null;
-    const nombreVendedor = parsed.data.nombreVendedor?.trim() || null;
-
-    // Validate stock availability and sellability for all items
-    for (const item of items) {
-      const tour = await db.tour.findUnique({
-        where: { id: item.tourId },
-      });
+    const session = await getApiSessionContext();
+    if (hasPriceOverride(parsed.data.items) && !canEditPrice(session.role)) {
+      return NextResponse.json(
+        { error: "No tiene permiso para modificar precios" },
+        { status: 403 }
+      );
+    }
 
-      if (!tour) {
-        return NextResponse.json(
-          { error: `Tour not found: ${item.tourId}` },
-          { status: 400 }
-        );
-      }
-
-      if (tour.name === IMPORT_ONLY_PRODUCT_NAME) {
-        return NextResponse.json(
-          { error: `${IMPORT_ONLY_PRODUCT_NAME} is for import only and cannot be sold.` },
-          { status: 400 }
-        );
-      }
-
-      if (tour.stock !== -1 && tour.stock < item.quantity) {
-        return NextResponse.json(
-          { error: `Insufficient stock for ${tour.name}. Available: ${tour.stock}` },
-          { status: 400 }
-        );
-      }
+    const validationError = await validateSaleItems(parsed.data.items, parsed.data.fechaVisita);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
-    // Reservation date = creation time; tour date and payment deadline from request
-    const reservationDate = new Date();
-    const visitDate = new Date(fechaVisita);
-    const paymentDeadline = fechaLimitePago ? new Date(fechaLimitePago) : null;
-
-    // Create sale records and update products in a transaction
-    const result = await db.$transaction(async (tx) => {
-      const saleRecords = [];
-      
-      // Create a unique sale batch ID
-      const batchId = `sale_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      for (const item of items) {
-        // Create sale record with all customer and sale fields
-        const sale = await tx.sale.create({
-          data: {
-            batchId,
-            tourId: item.tourId,
-            quantity: item.quantity,
-            total: item.total,
-            abono: item.abono ?? null,
-            pendiente: item.pendiente ?? null,
-            customerName,
-            customerPhone,
-            cedula: cedula?.trim() || null,
-            provincia: provincia?.trim() || null,
-            municipio: municipio?.trim() || null,
-            customerAddress: customerAddress || null,
-            ...(personasAdditional != null ? { personasAdditional } : {}),
-            notes: notes || null,
-            fechaEntrega: reservationDate,
-            fechaVisita: visitDate,
-            fechaLimitePago: paymentDeadline,
-            supervisor,
-            nombreVendedor,
-            isPaid: isPaid ?? false,
-          },
-        });
-
-        saleRecords.push(sale);
-
-        // Update product: sold always; stock only when not "always available" (-1)
-        const tourForUpdate = await tx.tour.findUnique({ where: { id: item.tourId }, select: { stock: true } });
-        await tx.tour.update({
-          where: { id: item.tourId },
-          data: tourForUpdate?.stock === -1
-            ? { sold: { increment: item.quantity } }
-            : { stock: { decrement: item.quantity }, sold: { increment: item.quantity } },
-        });
-      }
-
-      return { batchId, sales: saleRecords };
+    // Create sale records, book seats and record the initial abono in a transaction
+    const result = await createSaleBatch(parsed.data, "staff", getPaymentRecorder(session), {
+      actor: getAuditActor(session),
     });
 
     return NextResponse.json(
@@ -240,6 +173,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof DomainError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Error creating sale:", error);
     return NextResponse.json(
       { error: "Failed to process sale" },
@@ -1,6 +1,26 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { db } from "@/lib/db";
 import { getApiSessionContext, requireSupervisorOrAbove } from "@/lib/apiAuth";
+import { loadCurrencyConverter } from "@/lib/exchangeRates";
+import {
+  activeLinesWhere,
+  countBatches,
+  getSalesTrend,
+  rangeWhere,
+  sumAttendance,
+  sumLines,
+  toBaseSums,
+  type StatsRange,
+} from "@/lib/salesAnalytics";
+import {
+  BASE_CURRENCY,
+  PASSENGER_TYPES,
+  SalesStatsQuerySchema,
+  formatZodError,
+  type PassengerType,
+} from "@/lib/validation";
+import { DAY_MS, startOfTodayUTC } from "@/lib/dates";
 
 /** Top tour by revenue and seats sold. */
 export interface TopTourStat {
@@ -8,14 +28,51 @@ export interface TopTourStat {
   tourName: string;
   revenue: number;
   seatsSold: number;
+  adultsSold: number;
+  kidsSold: number;
+}
+
+/** Seats sold and revenue of one passenger type (adults vs kids). */
+export interface PassengerTypeStat {
+  passengerType: PassengerType;
+  seatsSold: number;
+  revenue: number;
+}
+
+/** Redemptions of one promo code on non-voided bookings. */
+export interface PromoCodeStat {
+  code: string;
+  redemptions: number;
+  /** Discount given (base currency). */
+  discount: number;
+  /** Net revenue of the bookings that used it (base currency). */
+  revenue: number;
+}
+
+/** Revenue of one currency, before conversion. */
+export interface CurrencyStat {
+  currency: string;
+  /** Total of non-voided lines. */
+  bookedRevenue: number;
+  /** Full total of paid lines + abono of unpaid ones. */
+  paidRevenue: number;
+  pendingRevenue: number;
 }
 
 /**
- * GET /api/sales/stats
- * Returns revenue, units, and KPIs from sales/tours.
+ * GET /api/sales/stats?from=YYYY-MM-DD&to=YYYY-MM-DD&dateField=booking|tour&groupBy=day|week|month
+ * Returns revenue, units, and KPIs from sales/tours, aggregated in the database.
+ * With a range, every sales KPI only counts lines whose booking date (createdAt) or tour date (fechaVisita) is in it,
+ * and trend has the time series (revenue, passengers, collected, pending, bookings) grouped by day, week or month,
+ * compared with the previous period of the same length. Without a range the KPIs are all-time and trend is null.
+ * Money KPIs are in the base currency (each line converted at the rate of its sale date);
+ * currencyStats has the unconverted totals per currency and missingRates the currencies without a rate.
+ * attendanceStats has boarded / no-show counts per tour from QR check-in (bookings of the range); passengerTypeStats splits seats and
+ * revenue between adults and kids (also per tour in topTours). promoStats has redemptions, discount given and net
+ * revenue per promo code; promoDiscount is the total discount given. Occupancy covers upcoming departures.
  * Admin/Support only; supervisor gets 403 (no Resumen access).
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   const authError = await requireSupervisorOrAbove();
   if (authError) return authError;
 
@@ -27,120 +84,164 @@ export async function GET() {
     );
   }
 
+  const { searchParams } = new URL(request.url);
+  const parsed = SalesStatsQuerySchema.safeParse({
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+    dateField: searchParams.get("dateField") || undefined,
+    groupBy: searchParams.get("groupBy") || undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+  }
+  const query = parsed.data;
+  const range: StatsRange | null =
+    query.from && query.to
+      ? {
+          from: new Date(`${query.from}T00:00:00.000Z`),
+          to: new Date(new Date(`${query.to}T00:00:00.000Z`).getTime() + DAY_MS),
+          dateField: query.dateField,
+        }
+      : null;
+
   try {
+    const where = activeLinesWhere(range);
+    const promoJoin = Prisma.sql`JOIN "promo_redemptions" r ON r."batchId" = s."batchId"`;
+    const converter = await loadCurrencyConverter();
     const [
-      paid,
-      unpaidAbono,
-      sales,
-      provinciaSales,
-      pendingAgg,
-      voidedBatches,
-      validBatches,
-      paidBatches,
+      currencySums,
+      sellerSums,
+      sellerBookings,
+      provinciaSums,
+      tourSums,
+      promoSums,
+      promoBookings,
+      invoiceCounts,
       tourCapacity,
-      salesByTour,
+      attendanceStats,
+      trend,
     ] = await Promise.all([
-      db.sale.aggregate({
-        where: { isPaid: true, voidedAt: null },
-        _sum: { total: true, quantity: true },
-      }),
-      db.sale.aggregate({
-        where: { isPaid: false, voidedAt: null },
-        _sum: { abono: true },
-      }),
-      db.sale.findMany({
-        where: {
-          voidedAt: null,
-          nombreVendedor: { not: null },
-        },
-        select: { nombreVendedor: true, batchId: true, total: true },
-      }),
-      db.sale.findMany({
-        where: { voidedAt: null, provincia: { not: null } },
-        select: { provincia: true, total: true },
-      }),
-      db.sale.aggregate({
-        where: {
-          voidedAt: null,
-          isPaid: false,
-          pendiente: { not: null },
-        },
-        _sum: { pendiente: true },
-      }),
-      db.sale.findMany({
-        where: { voidedAt: { not: null } },
-        select: { batchId: true },
-        distinct: ["batchId"],
-      }),
-      db.sale.findMany({
-        where: { voidedAt: null },
-        select: { batchId: true },
-        distinct: ["batchId"],
-      }),
-      db.sale.findMany({
-        where: { isPaid: true, voidedAt: null },
-        select: { batchId: true },
-        distinct: ["batchId"],
-      }),
-      db.tour.aggregate({
-        where: { isActive: true },
-        _sum: { stock: true, sold: true },
-      }),
-      db.sale.groupBy({
-        by: ["tourId"],
-        where: { voidedAt: null },
-        _sum: { total: true, quantity: true },
+      sumLines({}, where),
+      sumLines({ seller: Prisma.sql`btrim(COALESCE(s."nombreVendedor", ''))` }, where),
+      countBatches({ seller: Prisma.sql`btrim(COALESCE(s."nombreVendedor", ''))` }, where),
+      sumLines({ provincia: Prisma.sql`btrim(COALESCE(s."provincia", ''))` }, where),
+      sumLines({ tourId: Prisma.sql`s."tourId"`, passengerType: Prisma.sql`s."passengerType"` }, where),
+      sumLines({ code: Prisma.sql`r."code"` }, where, promoJoin),
+      countBatches({ code: Prisma.sql`r."code"` }, where, promoJoin),
+      db.$queryRaw<{ voided: number; valid: number; paid: number }[]>`
+        SELECT
+          COUNT(DISTINCT s."batchId") FILTER (WHERE s."voidedAt" IS NOT NULL)::int AS "voided",
+          COUNT(DISTINCT s."batchId") FILTER (WHERE s."voidedAt" IS NULL)::int AS "valid",
+          COUNT(DISTINCT s."batchId") FILTER (WHERE s."voidedAt" IS NULL AND s."isPaid")::int AS "paid"
+        FROM "sales" s
+        WHERE ${rangeWhere(range)}`,
+      db.tourDeparture.aggregate({
+        where: { capacity: { not: -1 }, date: { gte: startOfTodayUTC() }, tour: { isActive: true } },
+        _sum: { capacity: true, booked: true },
       }),
+      sumAttendance(range),
+      range ? getSalesTrend(range, query.groupBy, converter) : Promise.resolve(null),
     ]);
 
-    const bySeller = new Map<
-      string,
-      { revenue: number; batchIds: Set<string> }
-    >();
-    for (const s of sales) {
-      const name = (s.nombreVendedor || "").trim();
-      if (!name) continue;
-      let entry = bySeller.get(name);
-      if (!entry) {
-        entry = { revenue: 0, batchIds: new Set<string>() };
-        bySeller.set(name, entry);
-      }
-      entry.revenue += s.total;
-      entry.batchIds.add(s.batchId);
+    // Amounts are kept per currency and converted to the base currency at the sale date's rate
+    const byCurrency = new Map<string, CurrencyStat>();
+    let paidRevenue = 0;
+    let pendingRevenue = 0;
+    let paidUnits = 0;
+    for (const row of currencySums) {
+      const base = toBaseSums(row, converter);
+      const currencyStat = byCurrency.get(row.currency) ?? {
+        currency: row.currency,
+        bookedRevenue: 0,
+        paidRevenue: 0,
+        pendingRevenue: 0,
+      };
+      currencyStat.bookedRevenue += row.revenue;
+      currencyStat.paidRevenue += row.collected;
+      currencyStat.pendingRevenue += row.pending;
+      byCurrency.set(row.currency, currencyStat);
+      /** Ingresos cobrados = full total for paid lines + abono (deposit) for unpaid. */
+      paidRevenue += base.collected;
+      pendingRevenue += base.pending;
+      paidUnits += row.paidSeats;
     }
 
-    const topSellers = Array.from(bySeller.entries())
-      .map(([nombreVendedor, data]) => ({
+    const sellerRevenue = new Map<string, number>();
+    for (const row of sellerSums) {
+      if (!row.seller) continue;
+      sellerRevenue.set(row.seller, (sellerRevenue.get(row.seller) ?? 0) + toBaseSums(row, converter).revenue);
+    }
+    const sellerInvoices = new Map(sellerBookings.map((r) => [r.seller, r.bookings]));
+    const topSellers = Array.from(sellerRevenue.entries())
+      .map(([nombreVendedor, revenue]) => ({
         nombreVendedor,
-        totalRevenue: data.revenue,
-        invoiceCount: data.batchIds.size,
+        totalRevenue: Math.round(revenue),
+        invoiceCount: sellerInvoices.get(nombreVendedor) ?? 0,
       }))
       .sort((a, b) => b.totalRevenue - a.totalRevenue);
 
     const byProvincia = new Map<string, number>();
-    for (const s of provinciaSales) {
-      const prov = (s.provincia || "").trim();
-      if (!prov) continue;
-      byProvincia.set(prov, (byProvincia.get(prov) ?? 0) + s.total);
+    for (const row of provinciaSums) {
+      if (!row.provincia) continue;
+      byProvincia.set(row.provincia, (byProvincia.get(row.provincia) ?? 0) + toBaseSums(row, converter).revenue);
     }
     const provinciaStats = Array.from(byProvincia.entries())
-      .map(([provincia, total]) => ({ provincia, total }))
+      .map(([provincia, total]) => ({ provincia, total: Math.round(total) }))
       .sort((a, b) => b.total - a.total);
 
-    const pendingRevenue = pendingAgg._sum.pendiente ?? 0;
-    const voidedInvoiceCount = voidedBatches.length;
-    const validInvoiceCount = validBatches.length;
-    const paidInvoiceCount = paidBatches.length;
+    const byTour = new Map<string, { revenue: number; seatsSold: number; adultsSold: number; kidsSold: number }>();
+    const byPassengerType = new Map<PassengerType, PassengerTypeStat>(
+      PASSENGER_TYPES.map((t) => [t, { passengerType: t, seatsSold: 0, revenue: 0 }])
+    );
+    for (const row of tourSums) {
+      const revenue = toBaseSums(row, converter).revenue;
+      const isKid = row.passengerType === "kid";
+      const tourEntry = byTour.get(row.tourId) ?? { revenue: 0, seatsSold: 0, adultsSold: 0, kidsSold: 0 };
+      tourEntry.revenue += revenue;
+      tourEntry.seatsSold += row.seats;
+      if (isKid) tourEntry.kidsSold += row.seats;
+      else tourEntry.adultsSold += row.seats;
+      byTour.set(row.tourId, tourEntry);
+
+      const typeEntry = byPassengerType.get(isKid ? "kid" : "adult")!;
+      typeEntry.seatsSold += row.seats;
+      typeEntry.revenue += revenue;
+    }
+
+    const byPromoCode = new Map<string, { discount: number; revenue: number }>();
+    let promoDiscount = 0;
+    for (const row of promoSums) {
+      const base = toBaseSums(row, converter);
+      const promoEntry = byPromoCode.get(row.code) ?? { discount: 0, revenue: 0 };
+      promoEntry.discount += base.discount;
+      promoEntry.revenue += base.revenue;
+      byPromoCode.set(row.code, promoEntry);
+      promoDiscount += base.discount;
+    }
+    const promoRedemptions = new Map(promoBookings.map((r) => [r.code, r.bookings]));
+    const promoStats: PromoCodeStat[] = Array.from(byPromoCode.entries())
+      .map(([code, data]) => ({
+        code,
+        redemptions: promoRedemptions.get(code) ?? 0,
+        discount: Math.round(data.discount),
+        revenue: Math.round(data.revenue),
+      }))
+      .sort((a, b) => b.redemptions - a.redemptions);
+
+    const voidedInvoiceCount = invoiceCounts[0]?.voided ?? 0;
+    const validInvoiceCount = invoiceCounts[0]?.valid ?? 0;
+    const paidInvoiceCount = invoiceCounts[0]?.paid ?? 0;
     const totalInvoices = voidedInvoiceCount + validInvoiceCount;
     const voidRate =
       totalInvoices > 0 ? (voidedInvoiceCount / totalInvoices) * 100 : 0;
 
-    const totalCapacity = tourCapacity._sum.stock ?? 0;
-    const totalSold = tourCapacity._sum.sold ?? 0;
+    // Occupancy over upcoming departures with limited capacity
+    const totalCapacity = tourCapacity._sum.capacity ?? 0;
+    const totalSold = tourCapacity._sum.booked ?? 0;
     const occupancyPercent =
       totalCapacity > 0 ? (totalSold / totalCapacity) * 100 : undefined;
 
-    const tourIds = salesByTour.map((g) => g.tourId);
+    const tourIds = Array.from(byTour.keys());
     const tours =
       tourIds.length > 0
         ? await db.tour.findMany({
@@ -150,31 +251,37 @@ export async function GET() {
         : [];
     const tourNameMap = new Map(tours.map((t) => [t.id, t.name]));
 
-    const topTours: TopTourStat[] = salesByTour
-      .map((g) => ({
-        tourId: g.tourId,
-        tourName: tourNameMap.get(g.tourId) ?? "—",
-        revenue: g._sum.total ?? 0,
-        seatsSold: g._sum.quantity ?? 0,
+    const topTours: TopTourStat[] = Array.from(byTour.entries())
+      .map(([tourId, data]) => ({
+        tourId,
+        tourName: tourNameMap.get(tourId) ?? "—",
+        revenue: Math.round(data.revenue),
+        seatsSold: data.seatsSold,
+        adultsSold: data.adultsSold,
+        kidsSold: data.kidsSold,
       }))
       .sort((a, b) => b.revenue - a.revenue)
       .slice(0, 10);
 
-    /** Ingresos cobrados = full total for paid invoices + abono (deposit) for unpaid. */
-    const paidRevenue =
-      (paid._sum.total ?? 0) + (unpaidAbono._sum.abono ?? 0);
-
     return NextResponse.json({
-      paidRevenue,
-      paidUnits: paid._sum.quantity ?? 0,
+      baseCurrency: BASE_CURRENCY,
+      paidRevenue: Math.round(paidRevenue),
+      paidUnits,
       topSellers,
       provinciaStats,
-      pendingRevenue,
+      pendingRevenue: Math.round(pendingRevenue),
       voidedInvoiceCount,
       paidInvoiceCount,
       occupancyPercent: occupancyPercent ?? null,
       topTours,
       voidRate,
+      currencyStats: Array.from(byCurrency.values()),
+      missingRates: Array.from(converter.missingCurrencies),
+      attendanceStats,
+      passengerTypeStats: Array.from(byPassengerType.values()).map((t) => ({ ...t, revenue: Math.round(t.revenue) })),
+      promoStats,
+      promoDiscount: Math.round(promoDiscount),
+      trend,
     });
   } catch (error) {
     console.error("Sales stats error:", error);
@@ -11,6 +11,7 @@ const MergeSchema = z.object({
 /**
  * POST /api/sellers/merge
  * Updates all Sale records: nombreVendedor from 'fromName' to 'toName'.
+ * Commission rules of 'fromName' move to 'toName'.
  * Optionally adds toName to Seller table if not present.
  * Admin or support only.
  */
@@ -44,6 +45,11 @@ export async function POST(request: NextRequest) {
       data: { nombreVendedor: toName },
     });
 
+    await db.commissionRule.updateMany({
+      where: { sellerName: { equals: fromName, mode: "insensitive" } },
+      data: { sellerName: toName },
+    });
+
     // Add toName to Seller table if not present (for sale form dropdown)
     const existing = await db.seller.findFirst({
       where: { name: { equals: toName, mode: "insensitive" } },
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { createSaleBatch } from "@/lib/sales";
+import { getPaymentRecorder } from "@/lib/payments";
+import { CreateSaleSchema, formatZodError } from "@/lib/validation";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * POST /api/waitlist/[id]/book
+ * Books an offered waitlist entry: creates a pending invoice for its seats at the tour's adult price
+ * on the held departure. Customer details can be completed later on the invoice.
+ * Requires supervisor or above; supervisors' bookings are assigned to them.
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    const entry = await db.waitlistEntry.findUnique({
+      where: { id },
+    });
+    if (!entry) {
+      return NextResponse.json({ error: "Entrada no encontrada" }, { status: 404 });
+    }
+    if (entry.status !== "offered") {
+      return NextResponse.json({ error: "Solo se pueden reservar entradas con plazas ofrecidas" }, { status: 409 });
+    }
+
+    // Seats are priced from the tour as adults; nothing is paid yet
+    const session = await getApiSessionContext();
+    const saleInput = CreateSaleSchema.safeParse({
+      items: [{ tourId: entry.tourId, adults: entry.seats }],
+      customerName: entry.customerName,
+      customerPhone: entry.customerPhone,
+      notes: entry.notes ?? undefined,
+      fechaVisita: entry.fechaVisita.toISOString(),
+      isPaid: false,
+      ...(session.role === "supervisor" && session.supervisorName ? { supervisor: session.supervisorName } : {}),
+    });
+    if (!saleInput.success) {
+      return NextResponse.json({ error: formatZodError(saleInput.error) }, { status: 400 });
+    }
+
+    const result = await createSaleBatch(saleInput.data, "staff", getPaymentRecorder(session), {
+      waitlistEntryId: entry.id,
+    });
+    return NextResponse.json({ batchId: result.batchId }, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error booking waitlist entry:", err);
+    return NextResponse.json({ error: "Failed to book waitlist entry" }, { status: 500 });
+  }
+}
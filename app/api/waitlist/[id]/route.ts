@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove } from "@/lib/apiAuth";
+import { cancelWaitlistEntry } from "@/lib/waitlist";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * DELETE /api/waitlist/[id]
+ * Cancels a waiting or offered entry; its held seats are offered to the next entry.
+ * Requires supervisor or above.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const { id } = await context.params;
+    await cancelWaitlistEntry(id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error cancelling waitlist entry:", err);
+    return NextResponse.json({ error: "Failed to cancel waitlist entry" }, { status: 500 });
+  }
+}
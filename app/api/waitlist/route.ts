@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyRateLimit, getApiSessionContext, requireSupervisorOrAbove } from "@/lib/apiAuth";
+import { joinWaitlist, listWaitlist } from "@/lib/waitlist";
+import { JoinWaitlistSchema, formatZodError } from "@/lib/validation";
+import { DomainError } from "@/lib/errors";
+
+/**
+ * GET /api/waitlist
+ * Lists waitlist entries. By default only waiting / offered entries of upcoming dates;
+ * ?all=true includes booked, expired and cancelled ones. Optional ?tourId=.
+ * Requires supervisor or above.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const entries = await listWaitlist({
+      tourId: searchParams.get("tourId") || undefined,
+      includeClosed: searchParams.get("all") === "true",
+    });
+    return NextResponse.json(entries);
+  } catch (err) {
+    console.error("Error listing waitlist:", err);
+    return NextResponse.json({ error: "Failed to fetch waitlist" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/waitlist
+ * Joins the waitlist of a sold-out tour date. Public (catalog form, rate limited per IP);
+ * entries added from the dashboard are tagged "staff".
+ */
+export async function POST(request: NextRequest) {
+  const session = await getApiSessionContext();
+  const isStaff = session.isValid && session.role !== null;
+  if (!isStaff) {
+    const { error: rateError } = await applyRateLimit("waitlist:join", "publicBooking");
+    if (rateError) return rateError;
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = JoinWaitlistSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const entry = await joinWaitlist(parsed.data, isStaff ? "staff" : "web");
+    return NextResponse.json({ id: entry.id, status: entry.status }, { status: 201 });
+  } catch (err) {
+    if (err instanceof DomainError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Error joining waitlist:", err);
+    return NextResponse.json({ error: "Error al unirse a la lista de espera" }, { status: 500 });
+  }
+}
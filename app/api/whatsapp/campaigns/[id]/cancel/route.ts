@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { db } from "@/lib/db";
+import { cancelCampaign } from "@/lib/campaigns";
+
+/**
+ * POST /api/whatsapp/campaigns/[id]/cancel
+ * Stops a queued or sending campaign; recipients not yet sent are marked cancelled.
+ * Requires supervisor or above. Supervisors can only cancel campaigns they created.
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const session = await getApiSessionContext();
+    const { id } = await context.params;
+    const campaign = await db.campaign.findUnique({ where: { id }, select: { createdBy: true } });
+    if (!campaign || (session.role === "supervisor" && campaign.createdBy !== session.supervisorName)) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    const cancelled = await cancelCampaign(id);
+    if (!cancelled) {
+      return NextResponse.json({ error: "La campaña ya terminó" }, { status: 400 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Error cancelling campaign:", err);
+    return NextResponse.json({ error: "Failed to cancel campaign" }, { status: 500 });
+  }
+}
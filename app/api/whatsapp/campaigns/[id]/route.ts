@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { getCampaignDetail } from "@/lib/campaigns";
+
+/**
+ * GET /api/whatsapp/campaigns/[id]
+ * Campaign with stats and its delivery rows (status, attempts, Meta error code).
+ * Requires supervisor or above. Supervisors only see campaigns they created.
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const session = await getApiSessionContext();
+    const { id } = await context.params;
+    const detail = await getCampaignDetail(id);
+    if (
+      !detail ||
+      (session.role === "supervisor" && detail.campaign.createdBy !== session.supervisorName)
+    ) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    return NextResponse.json(detail);
+  } catch (err) {
+    console.error("Error fetching campaign:", err);
+    return NextResponse.json({ error: "Failed to fetch campaign" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { resolveCampaignAudience } from "@/lib/campaigns";
+import { CampaignAudienceSchema, formatZodError } from "@/lib/validation";
+
+/**
+ * POST /api/whatsapp/campaigns/preview
+ * Counts the distinct phones an audience would reach (before creating the campaign).
+ * Body: { tourId?, fechaVisitaFrom?, fechaVisitaTo?, provincia?, paymentStatus? }
+ * Requires supervisor or above. Supervisors only count their own bookings.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const session = await getApiSessionContext();
+    const scope =
+      session.role === "supervisor" && session.supervisorName ? { supervisor: session.supervisorName } : {};
+    const body = await request.json();
+    const parsed = CampaignAudienceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+    const recipients = await resolveCampaignAudience(parsed.data, scope);
+    return NextResponse.json({ count: recipients.length });
+  } catch (err) {
+    console.error("Error previewing campaign audience:", err);
+    return NextResponse.json({ error: "Failed to preview audience" }, { status: 500 });
+  }
+}
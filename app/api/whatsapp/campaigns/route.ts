@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { createCampaign, getCampaignStats, listCampaigns, toCampaignDTO } from "@/lib/campaigns";
+import { getPaymentRecorder } from "@/lib/payments";
+import { CreateCampaignSchema, formatZodError } from "@/lib/validation";
+
+/**
+ * GET /api/whatsapp/campaigns
+ * Lists recent WhatsApp campaigns with progress and delivery/read stats.
+ * Supervisors only see campaigns they created.
+ * Requires supervisor or above.
+ */
+export async function GET() {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const session = await getApiSessionContext();
+    const where =
+      session.role === "supervisor" && session.supervisorName ? { createdBy: session.supervisorName } : {};
+    return NextResponse.json(await listCampaigns(where));
+  } catch (err) {
+    console.error("Error fetching campaigns:", err);
+    return NextResponse.json({ error: "Failed to fetch campaigns" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/whatsapp/campaigns
+ * Creates a campaign: resolves the audience to distinct phones and queues one delivery row per phone.
+ * Messages are sent in chunks by /api/cron/whatsapp-campaigns.
+ * Body: { name, audience: { tourId?, fechaVisitaFrom?, fechaVisitaTo?, provincia?, paymentStatus? },
+ *   type, message?, template?, mediaUrl?, caption?, filename? }
+ * Requires supervisor or above. Supervisors only reach customers of their own bookings.
+ */
+export async function POST(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const session = await getApiSessionContext();
+    const scope =
+      session.role === "supervisor" && session.supervisorName ? { supervisor: session.supervisorName } : {};
+    const body = await request.json();
+    const parsed = CreateCampaignSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: formatZodError(parsed.error) }, { status: 400 });
+    }
+
+    const campaign = await createCampaign(parsed.data, getPaymentRecorder(session).recordedBy, scope);
+    if (!campaign) {
+      return NextResponse.json({ error: "No hay clientes con teléfono para esa audiencia" }, { status: 400 });
+    }
+    const stats = await getCampaignStats([campaign.id]);
+    return NextResponse.json(toCampaignDTO(campaign, stats.get(campaign.id)!), { status: 201 });
+  } catch (err) {
+    console.error("Error creating campaign:", err);
+    return NextResponse.json({ error: "Failed to create campaign" }, { status: 500 });
+  }
+}
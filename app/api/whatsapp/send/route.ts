@@ -1,18 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireSupervisorOrAbove } from "@/lib/apiAuth";
-import { sendWhatsAppText } from "@/lib/whatsapp";
-import { db } from "@/lib/db";
-import { z } from "zod";
-
-const SendSchema = z.object({
-  to: z.string().min(1, "to is required"),
-  message: z.string().min(1, "message is required").max(4096),
-});
+import { toWhatsAppContent, WhatsAppApiError } from "@/lib/whatsapp";
+import { sendAndRecordWhatsApp } from "@/lib/whatsappInbox";
+import { SendWhatsAppSchema } from "@/lib/validation";
 
 /**
  * POST /api/whatsapp/send
- * Sends a single WhatsApp text message via Cloud API.
- * Body: { to: string (phone), message: string }
+ * Sends a single WhatsApp message via Cloud API: text, approved template, or image/document by URL.
+ * Body: { to: string (phone), type?: "text" | "template" | "image" | "document", message?: string,
+ *   template?: { name, language, parameters[] }, mediaUrl?: string, filename?: string, caption?: string }
+ * Failures are logged with Meta's error code and returned as { error, code }.
  * Requires supervisor or above.
  */
 export async function POST(request: NextRequest) {
@@ -21,26 +18,18 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const parsed = SendSchema.safeParse(body);
+    const parsed = SendWhatsAppSchema.safeParse(body);
     if (!parsed.success) {
       return NextResponse.json(
         { error: parsed.error.issues.map((i) => i.message).join("; ") },
         { status: 400 }
       );
     }
-    const { messageId } = await sendWhatsAppText(parsed.data.to, parsed.data.message);
-    await db.whatsAppMessageLog.create({
-      data: {
-        direction: "outbound",
-        externalId: messageId,
-        customerPhone: parsed.data.to.replace(/\D/g, ""),
-        body: parsed.data.message,
-        status: "sent",
-      },
-    });
-    return NextResponse.json({ messageId });
+    const log = await sendAndRecordWhatsApp(parsed.data.to, toWhatsAppContent(parsed.data));
+    return NextResponse.json({ messageId: log.externalId });
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Failed to send message";
-    return NextResponse.json({ error: msg }, { status: 500 });
+    const code = err instanceof WhatsAppApiError ? err.code : null;
+    return NextResponse.json({ error: msg, code }, { status: 500 });
   }
 }
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove } from "@/lib/apiAuth";
+import { markThreadRead } from "@/lib/whatsappInbox";
+
+/**
+ * POST /api/whatsapp/threads/[phone]/read
+ * Marks every inbound message of the thread as read (resets its unread count).
+ * Requires supervisor or above.
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ phone: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const { phone } = await context.params;
+    await markThreadRead(decodeURIComponent(phone));
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Error marking WhatsApp thread read:", err);
+    return NextResponse.json({ error: "Failed to mark thread read" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove } from "@/lib/apiAuth";
+import { WhatsAppApiError } from "@/lib/whatsapp";
+import { markThreadRead, sendAndRecordWhatsApp } from "@/lib/whatsappInbox";
+import { z } from "zod";
+
+const ReplySchema = z.object({
+  message: z.string().trim().min(1, "message is required").max(4096),
+  batchId: z.string().optional(),
+});
+
+/**
+ * POST /api/whatsapp/threads/[phone]/reply
+ * Sends a reply in the thread via Cloud API and marks the thread as read.
+ * Body: { message: string, batchId?: string (booking the reply is about) }
+ * Requires supervisor or above.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ phone: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const { phone: rawPhone } = await context.params;
+    const phone = decodeURIComponent(rawPhone);
+    const body = await request.json().catch(() => ({}));
+    const parsed = ReplySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map((i) => i.message).join("; ") },
+        { status: 400 }
+      );
+    }
+
+    const log = await sendAndRecordWhatsApp(
+      phone,
+      { type: "text", text: parsed.data.message },
+      { batchId: parsed.data.batchId ?? null }
+    );
+    await markThreadRead(phone);
+    return NextResponse.json(log, { status: 201 });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Failed to send reply";
+    const code = err instanceof WhatsAppApiError ? err.code : null;
+    return NextResponse.json({ error: msg, code }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove, getApiSessionContext } from "@/lib/apiAuth";
+import { db } from "@/lib/db";
+import { normalizePhone } from "@/lib/whatsapp";
+import { findBatchesForPhone, getThreadMessages } from "@/lib/whatsappInbox";
+
+/**
+ * GET /api/whatsapp/threads/[phone]
+ * Returns a thread: contact (profile name, unread count), messages in order and the sale batches
+ * linked by normalized phone (supervisors only see their own batches).
+ * Requires supervisor or above.
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ phone: string }> }
+) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  const session = await getApiSessionContext();
+  const supervisorFilter =
+    session.role === "supervisor" && session.supervisorName
+      ? { supervisor: session.supervisorName }
+      : {};
+
+  try {
+    const { phone: rawPhone } = await context.params;
+    const phone = normalizePhone(decodeURIComponent(rawPhone));
+    if (!phone) {
+      return NextResponse.json({ error: "Invalid phone" }, { status: 400 });
+    }
+
+    const [contact, messages, batches] = await Promise.all([
+      db.whatsAppContact.findUnique({ where: { phone } }),
+      getThreadMessages(phone),
+      findBatchesForPhone(phone, supervisorFilter),
+    ]);
+    return NextResponse.json({ phone, contact, messages, batches });
+  } catch (err) {
+    console.error("Error fetching WhatsApp thread:", err);
+    return NextResponse.json({ error: "Failed to fetch thread" }, { status: 500 });
+  }
+}
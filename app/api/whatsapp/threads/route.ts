@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSupervisorOrAbove } from "@/lib/apiAuth";
+import { getWhatsAppUnreadTotal, listWhatsAppThreads } from "@/lib/whatsappInbox";
+
+/**
+ * GET /api/whatsapp/threads
+ * Lists inbox threads (one per customer phone), most recent first, plus the total unread count.
+ * Query params: search (phone or profile name), unread=1 (only unread), limit (default 50, max 100).
+ * Requires supervisor or above.
+ */
+export async function GET(request: NextRequest) {
+  const authError = await requireSupervisorOrAbove();
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get("search") ?? undefined;
+    const unreadOnly = searchParams.get("unread") === "1";
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") ?? "50", 10) || 50));
+
+    const [threads, unreadTotal] = await Promise.all([
+      listWhatsAppThreads({ search, unreadOnly, limit }),
+      getWhatsAppUnreadTotal(),
+    ]);
+    return NextResponse.json({ threads, unreadTotal });
+  } catch (err) {
+    console.error("Error fetching WhatsApp threads:", err);
+    return NextResponse.json({ error: "Failed to fetch threads" }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { recordWhatsAppMessage } from "@/lib/whatsappInbox";
+import { applyCampaignStatusUpdate } from "@/lib/campaigns";
 
 /**
  * GET /api/whatsapp/webhook
@@ -20,8 +22,10 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/whatsapp/webhook
- * Handles incoming webhook events (messages, status updates).
- * Optionally logs to WhatsAppMessageLog for message interactions view.
+ * Handles incoming webhook events (messages, status updates; failed statuses keep Meta's error code).
+ * Status updates also advance campaign recipients (delivered/read stats).
+ * Inbound messages go to the inbox thread of the sender (with the profile name from `contacts`)
+ * and are linked to the sender's latest booking by phone.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -46,6 +50,7 @@ export async function POST(request: NextRequest) {
               recipient_id: string;
               status: "sent" | "delivered" | "read" | "failed";
               timestamp: string;
+              errors?: Array<{ code?: number; title?: string; message?: string }>;
             }>;
           };
           field?: string;
@@ -59,22 +64,43 @@ export async function POST(request: NextRequest) {
       for (const change of entry.changes ?? []) {
         const value = change.value;
         if (!value || value.messaging_product !== "whatsapp") continue;
+        const profileNames = new Map(
+          (value.contacts ?? [])
+            .filter((c) => c.wa_id && c.profile?.name)
+            .map((c) => [c.wa_id as string, c.profile?.name as string])
+        );
         for (const msg of value.messages ?? []) {
-          await db.whatsAppMessageLog.create({
-            data: {
-              direction: "inbound",
-              externalId: msg.id,
-              customerPhone: msg.from,
-              body: msg.text?.body ?? null,
-              status: "delivered",
-            },
+          const sentAt = new Date(Number(msg.timestamp) * 1000);
+          await recordWhatsAppMessage({
+            direction: "inbound",
+            externalId: msg.id,
+            customerPhone: msg.from,
+            body: msg.text?.body ?? (msg.type !== "text" ? `[${msg.type}]` : null),
+            status: "delivered",
+            messageType: msg.type,
+            profileName: profileNames.get(msg.from) ?? null,
+            createdAt: Number.isNaN(sentAt.getTime()) ? undefined : sentAt,
           });
         }
         for (const status of value.statuses ?? []) {
+          // Delivery failures (e.g. 131047 re-engagement) arrive here after the send was accepted
+          const error = status.status === "failed" ? status.errors?.[0] : undefined;
           await db.whatsAppMessageLog.updateMany({
             where: { externalId: status.id },
-            data: { status: status.status },
+            data: {
+              status: status.status,
+              ...(error
+                ? { errorCode: error.code ?? null, errorMessage: (error.message ?? error.title ?? null)?.slice(0, 500) }
+                : {}),
+            },
           });
+          const statusAt = new Date(Number(status.timestamp) * 1000);
+          await applyCampaignStatusUpdate(
+            status.id,
+            status.status,
+            Number.isNaN(statusAt.getTime()) ? new Date() : statusAt,
+            error ? { code: error.code, message: error.message ?? error.title ?? null } : undefined
+          );
         }
       }
     }
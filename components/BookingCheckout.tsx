@@ -0,0 +1,450 @@
+"use client";
+
+import { useState } from "react";
+import type { Product, ProductDeparture } from "./ProductCard";
+import { brandConfig, getWhatsAppUrl } from "@/lib/brandConfig";
+import { formatDate } from "@/lib/formatDate";
+import type { PromoQuote } from "@/lib/promoCodes";
+
+/** Sentinel for "always available" seats. */
+const UNLIMITED_STOCK = -1;
+
+/** Passenger beyond the lead customer; matches PersonaAdditionalSchema. */
+interface Passenger {
+  type: "adult" | "kid";
+  name: string;
+  dateOfBirth: string;
+  cedulaPassport: string;
+}
+
+interface BookingCheckoutProps {
+  product: Product;
+  /** Departure picked on the card, if any. */
+  initialDeparture?: ProductDeparture;
+  /** WhatsApp link for questions instead of booking online. */
+  whatsAppUrl: string;
+  onClose: () => void;
+}
+
+/**
+ * Seats left on a departure; null when unlimited.
+ */
+function seatsLeft(departure: ProductDeparture): number | null {
+  if (departure.capacity === UNLIMITED_STOCK) return null;
+  return Math.max(0, departure.capacity - departure.booked);
+}
+
+/** YYYY-MM-DD of a departure date (stored at noon UTC). */
+function departureDay(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Resizes the passenger list to (adults - 1) adults + kids, keeping what was already typed.
+ */
+function resizePassengers(current: Passenger[], adults: number, kids: number): Passenger[] {
+  const empty = (type: Passenger["type"]): Passenger => ({ type, name: "", dateOfBirth: "", cedulaPassport: "" });
+  const adultRows = current.filter((p) => p.type === "adult").slice(0, Math.max(0, adults - 1));
+  while (adultRows.length < adults - 1) adultRows.push(empty("adult"));
+  const kidRows = current.filter((p) => p.type === "kid").slice(0, kids);
+  while (kidRows.length < kids) kidRows.push(empty("kid"));
+  return [...adultRows, ...kidRows];
+}
+
+/**
+ * Public self-service checkout for a catalog tour: date, adults/kids, customer and passenger details.
+ * Submits to POST /api/bookings and shows the booking reference on success.
+ */
+export function BookingCheckout({ product, initialDeparture, whatsAppUrl, onClose }: BookingCheckoutProps) {
+  const departures = (product.departures ?? []).filter((d) => seatsLeft(d) !== 0);
+  const [fechaVisita, setFechaVisita] = useState(
+    initialDeparture ? departureDay(initialDeparture.date) : departures[0] ? departureDay(departures[0].date) : ""
+  );
+  const [adults, setAdults] = useState(1);
+  const [kids, setKids] = useState(0);
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [cedula, setCedula] = useState("");
+  const [passengers, setPassengers] = useState<Passenger[]>([]);
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reference, setReference] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState("");
+  /** Checked promo code and the passenger counts it was quoted for. */
+  const [promo, setPromo] = useState<{ quote: PromoQuote; adults: number; kids: number } | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
+
+  const kidPrice = product.childPrice ?? product.price;
+  const total = adults * product.price + kids * kidPrice;
+  // The quote only holds for the passengers it was checked with
+  const activePromo = promo && promo.adults === adults && promo.kids === kids ? promo.quote : null;
+  const discount = activePromo?.discount ?? 0;
+  const selectedDeparture = departures.find((d) => departureDay(d.date) === fechaVisita);
+  const maxSeats = selectedDeparture ? seatsLeft(selectedDeparture) : null;
+  const canAddSeat = maxSeats === null || adults + kids < maxSeats;
+
+  const updateCounts = (nextAdults: number, nextKids: number) => {
+    setAdults(nextAdults);
+    setKids(nextKids);
+    setPassengers((current) => resizePassengers(current, nextAdults, nextKids));
+  };
+
+  const applyPromo = async () => {
+    if (!promoCode.trim()) return;
+    setCheckingPromo(true);
+    setPromoError(null);
+    try {
+      const res = await fetch("/api/promo-codes/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: promoCode.trim(), items: [{ tourId: product.id, adults, kids }] }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setPromo(null);
+        setPromoError(data.error || "Código no válido.");
+        return;
+      }
+      setPromo({ quote: data as PromoQuote, adults, kids });
+    } catch {
+      setPromoError("Error de conexión. Intenta de nuevo.");
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  const updatePassenger = (index: number, field: keyof Omit<Passenger, "type">, value: string) => {
+    setPassengers((current) => current.map((p, i) => (i === index ? { ...p, [field]: value } : p)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!fechaVisita) {
+      setError("Selecciona la fecha del tour.");
+      return;
+    }
+    if (passengers.some((p) => !p.name.trim())) {
+      setError("Completa el nombre de todos los pasajeros.");
+      return;
+    }
+    if (promoCode.trim() && !activePromo) {
+      setError("Aplica el código promocional o bórralo.");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/bookings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tourId: product.id,
+          fechaVisita,
+          adults,
+          kids,
+          customerName: customerName.trim(),
+          customerPhone: customerPhone.trim(),
+          cedula: cedula.trim() || undefined,
+          personasAdditional: passengers.map((p) => ({
+            type: p.type,
+            name: p.name.trim(),
+            dateOfBirth: p.dateOfBirth || undefined,
+            cedulaPassport: p.cedulaPassport.trim() || undefined,
+          })),
+          notes: notes.trim() || undefined,
+          promoCode: activePromo?.code,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Error al enviar. Intenta de nuevo.");
+        return;
+      }
+      setReference(data.reference);
+    } catch {
+      setError("Error de conexión. Intenta de nuevo.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full border border-brand-border rounded-lg px-3 py-2 text-jet text-sm";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-jet/50 p-0 sm:p-4" role="dialog" aria-modal="true" aria-labelledby="booking-heading">
+      <div className="bg-white w-full sm:max-w-lg max-h-[92vh] overflow-y-auto rounded-t-2xl sm:rounded-2xl shadow-xl">
+        <div className="sticky top-0 bg-white border-b border-brand-border px-5 py-4 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 id="booking-heading" className="text-lg font-semibold text-brand-ink truncate">
+              Reservar: {product.name}
+            </h2>
+            <p className="text-brand-muted text-xs">{product.line}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-9 h-9 rounded-lg flex items-center justify-center text-brand-muted hover:bg-brand-canvas"
+            aria-label="Cerrar"
+          >
+            ×
+          </button>
+        </div>
+
+        {reference ? (
+          <div className="p-6 text-center space-y-4">
+            <p className="text-brand-ink text-base font-semibold">¡Reserva recibida!</p>
+            <p className="text-brand-muted text-sm">Tu número de referencia es:</p>
+            <p className="text-2xl font-bold tracking-widest text-brand-sky">{reference}</p>
+            <p className="text-brand-muted text-sm">
+              Tu reserva queda pendiente de pago. Te contactaremos para confirmar el abono.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2 justify-center pt-2">
+              <a
+                href={getWhatsAppUrl(
+                  brandConfig.whatsappNumber,
+                  `¡Hola! Hice la reserva ${reference} para "${product.name}" el ${formatDate(fechaVisita)}.`
+                ) || "#"}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="btn-primary px-5 py-2.5 rounded-full text-sm font-semibold"
+              >
+                Enviar por WhatsApp
+              </a>
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-5 py-2.5 rounded-full text-sm font-semibold border border-brand-border text-brand-ink"
+              >
+                Cerrar
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-5 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+            )}
+
+            {/* Date: departure chips; tours without open departures are booked by WhatsApp */}
+            <div>
+              <label htmlFor="booking-date" className="block text-sm font-medium text-brand-ink mb-1">
+                Fecha del tour
+              </label>
+              {departures.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5">
+                  {departures.map((d) => {
+                    const day = departureDay(d.date);
+                    const isSelected = day === fechaVisita;
+                    const seats = seatsLeft(d);
+                    return (
+                      <button
+                        key={d.id}
+                        type="button"
+                        onClick={() => {
+                          setFechaVisita(day);
+                          if (seats !== null && adults + kids > seats) updateCounts(1, 0);
+                        }}
+                        className={`px-3 py-1.5 rounded-full text-xs font-medium border ${
+                          isSelected ? "border-brand-sky bg-brand-sky text-white" : "border-brand-sand text-brand-ink"
+                        }`}
+                        aria-pressed={isSelected}
+                      >
+                        {formatDate(d.date)}
+                        {seats !== null ? ` · ${seats} plazas` : ""}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p id="booking-date" className="text-sm text-brand-muted">
+                  No hay salidas disponibles en línea para este tour.{" "}
+                  <a href={whatsAppUrl} target="_blank" rel="noopener noreferrer" className="text-brand-sky font-medium hover:underline">
+                    Consúltanos por WhatsApp
+                  </a>
+                </p>
+              )}
+            </div>
+
+            {/* Passenger counts */}
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                { label: "Adultos", price: product.price, value: adults, min: 1, onChange: (v: number) => updateCounts(v, kids) },
+                { label: "Niños", price: kidPrice, value: kids, min: 0, onChange: (v: number) => updateCounts(adults, v) },
+              ] as const).map((row) => (
+                <div key={row.label} className="border border-brand-border rounded-lg p-3">
+                  <p className="text-sm font-medium text-brand-ink">{row.label}</p>
+                  <p className="text-xs text-brand-muted mb-2">
+                    {product.currency} {row.price.toLocaleString()}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => row.onChange(row.value - 1)}
+                      disabled={row.value <= row.min}
+                      className="w-8 h-8 rounded-full bg-brand-canvas text-brand-ink disabled:opacity-30"
+                      aria-label={`Menos ${row.label.toLowerCase()}`}
+                    >
+                      −
+                    </button>
+                    <span className="w-6 text-center font-semibold text-brand-ink">{row.value}</span>
+                    <button
+                      type="button"
+                      onClick={() => row.onChange(row.value + 1)}
+                      disabled={!canAddSeat}
+                      className="w-8 h-8 rounded-full bg-brand-sky text-white disabled:opacity-30"
+                      aria-label={`Más ${row.label.toLowerCase()}`}
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Lead customer */}
+            <div className="space-y-3">
+              <p className="text-sm font-semibold text-brand-ink">Titular de la reserva</p>
+              <input
+                type="text"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                required
+                placeholder="Nombre completo"
+                className={inputClass}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="tel"
+                  value={customerPhone}
+                  onChange={(e) => setCustomerPhone(e.target.value)}
+                  required
+                  placeholder="Teléfono / WhatsApp"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={cedula}
+                  onChange={(e) => setCedula(e.target.value)}
+                  placeholder="Cédula (opcional)"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Additional passengers */}
+            {passengers.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-semibold text-brand-ink">Acompañantes</p>
+                {passengers.map((p, i) => (
+                  <div key={i} className="border border-brand-border rounded-lg p-3 space-y-2">
+                    <p className="text-xs font-medium text-brand-muted">{p.type === "kid" ? "Niño" : "Adulto"}</p>
+                    <input
+                      type="text"
+                      value={p.name}
+                      onChange={(e) => updatePassenger(i, "name", e.target.value)}
+                      required
+                      placeholder="Nombre completo"
+                      className={inputClass}
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="date"
+                        value={p.dateOfBirth}
+                        onChange={(e) => updatePassenger(i, "dateOfBirth", e.target.value)}
+                        aria-label="Fecha de nacimiento"
+                        className={inputClass}
+                      />
+                      <input
+                        type="text"
+                        value={p.cedulaPassport}
+                        onChange={(e) => updatePassenger(i, "cedulaPassport", e.target.value)}
+                        placeholder="Cédula / Pasaporte"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Notas (opcional)"
+              className={inputClass}
+            />
+
+            <div>
+              <label htmlFor="booking-promo" className="block text-sm font-medium text-brand-ink mb-1">
+                Código promocional
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="booking-promo"
+                  type="text"
+                  value={promoCode}
+                  onChange={(e) => {
+                    setPromoCode(e.target.value.toUpperCase());
+                    setPromo(null);
+                    setPromoError(null);
+                  }}
+                  maxLength={40}
+                  placeholder="Opcional"
+                  className={`${inputClass} font-mono`}
+                />
+                <button
+                  type="button"
+                  onClick={applyPromo}
+                  disabled={checkingPromo || !promoCode.trim()}
+                  className="px-4 py-2 rounded-lg text-sm font-semibold border border-brand-border text-brand-ink disabled:opacity-50"
+                >
+                  {checkingPromo ? "…" : "Aplicar"}
+                </button>
+              </div>
+              {promoError && <p className="text-red-700 text-xs mt-1">{promoError}</p>}
+              {activePromo && (
+                <p className="text-brand-sky text-xs mt-1">
+                  {activePromo.code}: −{product.currency} {activePromo.discount.toLocaleString()}
+                  {activePromo.description ? ` (${activePromo.description})` : ""}
+                </p>
+              )}
+              {promo && !activePromo && (
+                <p className="text-brand-muted text-xs mt-1">Cambiaste los pasajeros; aplica el código de nuevo.</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between border-t border-brand-border pt-4">
+              <div>
+                <p className="text-xs text-brand-muted">Total</p>
+                {discount > 0 && (
+                  <p className="text-xs text-brand-muted line-through">
+                    {product.currency} {total.toLocaleString()}
+                  </p>
+                )}
+                <p className="text-xl font-bold text-brand-ink">
+                  {product.currency} {(total - discount).toLocaleString()}
+                </p>
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || departures.length === 0}
+                className="btn-primary px-6 py-2.5 rounded-full text-sm font-semibold disabled:opacity-50"
+              >
+                {submitting ? "Enviando…" : "Confirmar reserva"}
+              </button>
+            </div>
+            <p className="text-center text-xs text-brand-muted">
+              ¿Tienes dudas?{" "}
+              <a href={whatsAppUrl} target="_blank" rel="noopener noreferrer" className="text-brand-sky font-medium hover:underline">
+                Escríbenos por WhatsApp
+              </a>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 "use client";
 
-import { ProductCard, type Product } from "./ProductCard";
+import { useState } from "react";
+import { BookingCheckout } from "./BookingCheckout";
+import { WaitlistForm } from "./WaitlistForm";
+import { ProductCard, type Product, type ProductDeparture } from "./ProductCard";
 import { brandConfig, getWhatsAppUrl as getBrandWhatsAppUrl } from "@/lib/brandConfig";
+import { formatDate } from "@/lib/formatDate";
 
 /**
  * Props for the CatalogClient component.
@@ -15,15 +19,19 @@ interface CatalogClientProps {
 /**
  * Generates WhatsApp URL with prefilled message for tour inquiry.
  * @param product - The tour to inquire about.
+ * @param departure - Selected departure date, when the tour has dated departures.
  * @returns The WhatsApp deep link URL.
  */
-function getWhatsAppUrl(product: Product): string {
-  const message = `¡Hola! Me interesa el tour "${product.name}". ¿Podrían darme más información o reservar?`;
+function getWhatsAppUrl(product: Product, departure?: ProductDeparture): string {
+  const dateText = departure ? ` para el ${formatDate(departure.date)}` : "";
+  const message = `¡Hola! Me interesa el tour "${product.name}"${dateText}. ¿Podrían darme más información o reservar?`;
   return getBrandWhatsAppUrl(brandConfig.whatsappNumber, message) || "#";
 }
 
 /**
  * Client component for the tours catalog (single grid).
+ * "Reservar" opens the self-service checkout for the tour and selected departure;
+ * sold-out tours open the waitlist form instead.
  * @param tours - Array of tours/experiences.
  * @returns The catalog element.
  */
@@ -31,8 +39,11 @@ export function CatalogClient({
   tours,
   defaultLowSeatsThreshold,
 }: CatalogClientProps) {
-  const handleContact = (product: Product) => {
-    window.open(getWhatsAppUrl(product), "_blank");
+  const [checkout, setCheckout] = useState<{ product: Product; departure?: ProductDeparture } | null>(null);
+  const [waitlistProduct, setWaitlistProduct] = useState<Product | null>(null);
+
+  const handleContact = (product: Product, departure?: ProductDeparture) => {
+    setCheckout({ product, departure });
   };
 
   if (tours.length === 0) {
@@ -46,15 +57,29 @@ export function CatalogClient({
   }
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-      {tours.map((product) => (
-        <ProductCard
-          key={product.id}
-          product={product}
-          onContact={handleContact}
-          defaultLowSeatsThreshold={defaultLowSeatsThreshold}
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+        {tours.map((product) => (
+          <ProductCard
+            key={product.id}
+            product={product}
+            onContact={handleContact}
+            onWaitlist={setWaitlistProduct}
+            defaultLowSeatsThreshold={defaultLowSeatsThreshold}
+          />
+        ))}
+      </div>
+      {checkout && (
+        <BookingCheckout
+          product={checkout.product}
+          initialDeparture={checkout.departure}
+          whatsAppUrl={getWhatsAppUrl(checkout.product, checkout.departure)}
+          onClose={() => setCheckout(null)}
         />
-      ))}
-    </div>
+      )}
+      {waitlistProduct && (
+        <WaitlistForm product={waitlistProduct} onClose={() => setWaitlistProduct(null)} />
+      )}
+    </>
   );
 }
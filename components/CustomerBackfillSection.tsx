@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import type { CustomerBackfillResult } from "@/lib/customers";
+
+/**
+ * Ajustes: links sales entered before the customer directory existed to customers (by phone/cédula).
+ * Safe to run more than once; already linked sales are left as they are.
+ */
+export function CustomerBackfillSection() {
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  async function handleBackfill() {
+    setRunning(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/customers/backfill", { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al vincular clientes");
+      const result = data as CustomerBackfillResult;
+      setSuccess(
+        `${result.linkedSales} ventas vinculadas, ${result.createdCustomers} clientes nuevos` +
+          (result.skippedSales > 0 ? `, ${result.skippedSales} sin teléfono ni cédula válidos` : "")
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-6 lg:col-span-2">
+      <h2 className="text-lg font-semibold text-jet mb-4">Directorio de Clientes</h2>
+      <p className="text-jet/60 text-sm mb-6">
+        Las reservas nuevas se vinculan solas a su cliente por teléfono o cédula. Use esta acción una vez para vincular las ventas anteriores; puede repetirse sin duplicar clientes.
+      </p>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm mb-4">
+          {success}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleBackfill}
+        disabled={running}
+        className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+      >
+        {running ? "Vinculando..." : "Vincular ventas existentes"}
+      </button>
+    </div>
+  );
+}
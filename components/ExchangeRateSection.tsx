@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatDate } from "@/lib/formatDate";
+import { BASE_CURRENCY, CURRENCIES, type Currency } from "@/lib/validation";
+import type { ExchangeRateDTO } from "@/lib/exchangeRates";
+
+/** Currencies that need a rate (every one except the base). */
+const FOREIGN_CURRENCIES = CURRENCIES.filter((c) => c !== BASE_CURRENCY);
+
+/**
+ * Dated exchange rates for Ajustes (Tasas de cambio).
+ * Stats, exports and monthly snapshots convert each sale to the base currency with the rate of its date.
+ */
+export function ExchangeRateSection() {
+  const [rates, setRates] = useState<ExchangeRateDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    currency: FOREIGN_CURRENCIES[0] as Currency,
+    rate: "",
+    effectiveDate: new Date().toISOString().slice(0, 10),
+  });
+
+  async function loadRates() {
+    try {
+      const res = await fetch("/api/exchange-rates");
+      if (!res.ok) throw new Error("Error al cargar tasas");
+      const data = await res.json();
+      setRates(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  /**
+   * Saves the rate for the selected currency and day (replaces that day's rate).
+   */
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/exchange-rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currency: form.currency,
+          rate: parseFloat(form.rate),
+          effectiveDate: form.effectiveDate,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al guardar tasa");
+      }
+      setForm((f) => ({ ...f, rate: "" }));
+      setSuccess("Tasa guardada");
+      await loadRates();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /**
+   * Deletes a rate.
+   */
+  async function handleDelete(rate: ExchangeRateDTO) {
+    if (!confirm(`¿Eliminar la tasa de ${rate.currency} del ${formatDate(rate.effectiveDate)}?`)) return;
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/exchange-rates/${rate.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al eliminar tasa");
+      }
+      setSuccess("Tasa eliminada");
+      await loadRates();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  const inputClass =
+    "w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent";
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-6 lg:col-span-2">
+      <h2 className="text-lg font-semibold text-jet mb-4">Tasas de Cambio</h2>
+      <p className="text-jet/60 text-sm mb-6">
+        Cuántos {BASE_CURRENCY} vale cada unidad de otra moneda desde una fecha. Los totales del resumen, las exportaciones y el historial mensual convierten cada venta con la tasa vigente en su fecha.
+      </p>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm mb-4">
+          {success}
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="mb-6 grid grid-cols-1 tablet:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-xs text-jet/60 mb-1">Moneda</label>
+          <select
+            value={form.currency}
+            onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value as Currency }))}
+            className={inputClass}
+          >
+            {FOREIGN_CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-jet/60 mb-1">Tasa ({BASE_CURRENCY} por 1 {form.currency})</label>
+          <input
+            type="number"
+            min={0}
+            step="0.0001"
+            value={form.rate}
+            onChange={(e) => setForm((f) => ({ ...f, rate: e.target.value }))}
+            required
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-jet/60 mb-1">Vigente desde</label>
+          <input
+            type="date"
+            value={form.effectiveDate}
+            onChange={(e) => setForm((f) => ({ ...f, effectiveDate: e.target.value }))}
+            required
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+        >
+          {saving ? "Guardando..." : "Guardar tasa"}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="text-jet/50 text-sm">Cargando...</p>
+      ) : rates.length === 0 ? (
+        <p className="text-jet/50 text-sm">
+          No hay tasas registradas. Las ventas en otra moneda no se incluyen en los totales en {BASE_CURRENCY} hasta registrar una.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-jet/60 text-xs uppercase tracking-wider">
+                <th className="py-2 pr-3">Moneda</th>
+                <th className="py-2 pr-3">Tasa</th>
+                <th className="py-2 pr-3">Vigente desde</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((r) => (
+                <tr key={r.id} className="border-t border-gold-200/30">
+                  <td className="py-2 pr-3 font-medium text-jet">{r.currency}</td>
+                  <td className="py-2 pr-3">
+                    {BASE_CURRENCY} {r.rate.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                  </td>
+                  <td className="py-2 pr-3">{formatDate(r.effectiveDate)}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(r)}
+                      className="text-danger text-xs hover:underline"
+                    >
+                      Eliminar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
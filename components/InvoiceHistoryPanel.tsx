@@ -9,6 +9,20 @@ import { getProvincias, getMunicipios } from "@/lib/locationData";
 import { formatDate, formatDateTime } from "@/lib/formatDate";
 import { formatPhoneForDisplay, formatPhoneForWhatsApp } from "@/lib/phone";
 import { brandConfig } from "@/lib/brandConfig";
+import {
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  NCF_TYPES,
+  NCF_TYPE_LABELS,
+  BASE_CURRENCY,
+  type PaymentMethod,
+  type NcfType,
+} from "@/lib/validation";
+import { formatAuditChanges, getAuditActionLabel } from "@/lib/auditFormat";
+import type { AuditEventDTO } from "@/lib/audit";
+import type { FiscalInvoiceDTO } from "@/lib/fiscal";
+import type { CancellationQuote, PassengerRemovalQuote, RefundDTO, RemovedPassengerDTO } from "@/lib/cancellations";
+import { describeCancellationPolicy } from "@/lib/cancellationPolicy";
 
 /**
  * Product info included in sale records.
@@ -45,6 +59,8 @@ interface SaleRecord {
   tourId: string;
   quantity: number;
   total: number;
+  /** Currency of total/abono/pendiente (same for every line of a batch). */
+  currency?: string;
   abono?: number | null;
   pendiente?: number | null;
   customerName: string;
@@ -61,9 +77,14 @@ interface SaleRecord {
   supervisor: string;
   nombreVendedor: string;
   isPaid: boolean;
+  /** "staff" (dashboard) | "web" (public catalog checkout) */
+  source?: string;
   createdAt: string;
   voidedAt?: string | null;
   voidReason?: string | null;
+  archivedAt?: string | null;
+  /** Temporary hold expiry (seats released automatically if no abono by then). */
+  holdExpiresAt?: string | null;
   tour?: ProductInfo;
 }
 
@@ -94,6 +115,10 @@ interface InvoiceSummary {
   supervisor: string;
   nombreVendedor: string;
   isPaid: boolean;
+  /** True when booked by the customer through the public catalog checkout. */
+  isWeb: boolean;
+  /** Currency of every amount of the invoice (e.g. "RD$", "US$"). */
+  currency: string;
   total: number;
   totalAbono: number;
   totalPendiente: number;
@@ -101,6 +126,10 @@ interface InvoiceSummary {
   isVoided: boolean;
   voidedAt?: string | null;
   voidReason?: string | null;
+  /** Voided invoice archived by admin/support; only listed under the "Archivada" filter. */
+  isArchived: boolean;
+  /** Expiry of a temporary hold without abono; null for regular reservations. */
+  holdExpiresAt: string | null;
   items: SaleRecord[];
   whatsappCount: number;
   callCount: number;
@@ -109,15 +138,20 @@ interface InvoiceSummary {
 export interface InvoiceHistoryPanelProps {
   onInvoiceVoided?: () => void;
   onPaymentUpdated?: () => void;
-  onInvoiceDeleted?: () => void;
+  onInvoiceArchived?: () => void;
+  onInvoiceUnvoided?: () => void;
   onEditInvoice?: (invoice: InvoiceSummary) => void;
   /** When this value changes, the invoice list is refetched (e.g. after saving an edit). */
   refreshTrigger?: number;
   limit?: number;
   showSearch?: boolean;
   showVoidActions?: boolean;
-  /** Admin/support only: show delete button for voided (anulada) invoices. */
-  showDeleteVoidedActions?: boolean;
+  /** Admin/support only: show archive button for voided (anulada) invoices. */
+  showArchiveVoidedActions?: boolean;
+  /** Admin/support only: allow reverting the anulación (re-reserves seats). */
+  canUnvoidInvoices?: boolean;
+  /** Admin/support only: allow reversing recorded payments in the invoice detail. */
+  canReversePayments?: boolean;
   showRefresh?: boolean;
   showMonthFilter?: boolean;
   showSupervisorFilter?: boolean;
@@ -213,6 +247,8 @@ function groupSalesByBatch(
         supervisor: sale.supervisor || "",
         nombreVendedor: sale.nombreVendedor || "",
         isPaid: sale.isPaid ?? false,
+        isWeb: sale.source === "web",
+        currency: sale.currency || sale.tour?.currency || BASE_CURRENCY,
         total: sale.total,
         totalAbono: sale.abono || 0,
         totalPendiente: sale.pendiente || 0,
@@ -220,6 +256,8 @@ function groupSalesByBatch(
         isVoided,
         voidedAt: sale.voidedAt ?? null,
         voidReason: sale.voidReason ?? null,
+        isArchived: Boolean(sale.archivedAt),
+        holdExpiresAt: sale.holdExpiresAt ?? null,
         items: [sale],
         whatsappCount: stats?.whatsappCount ?? 0,
         callCount: stats?.callCount ?? 0,
@@ -414,12 +452,15 @@ function FilterSelect({
 export function InvoiceHistoryPanel({
   onInvoiceVoided,
   onPaymentUpdated,
-  onInvoiceDeleted,
+  onInvoiceArchived,
+  onInvoiceUnvoided,
   refreshTrigger,
   limit,
   showSearch = true,
   showVoidActions = true,
-  showDeleteVoidedActions = false,
+  showArchiveVoidedActions = false,
+  canUnvoidInvoices = false,
+  canReversePayments = false,
   showRefresh = true,
   showMonthFilter = false,
   showSupervisorFilter = false,
@@ -436,7 +477,8 @@ export function InvoiceHistoryPanel({
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [voidingBatchId, setVoidingBatchId] = useState<string | null>(null);
-  const [deletingBatchId, setDeletingBatchId] = useState<string | null>(null);
+  const [archivingBatchId, setArchivingBatchId] = useState<string | null>(null);
+  const [unvoidingBatchId, setUnvoidingBatchId] = useState<string | null>(null);
   const [selectedMonth, setSelectedMonth] = useState<string>("all");
   const [monthDropdownOpen, setMonthDropdownOpen] = useState(false);
   const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
@@ -478,7 +520,8 @@ export function InvoiceHistoryPanel({
     setIsLoading(true);
     setError(null);
     try {
-      const res = await fetch("/api/sales");
+      // Archived invoices are included and only shown under the "Archivada" filter
+      const res = await fetch("/api/sales?archived=include");
       const data = await res.json().catch(() => ({}));
       if (!res.ok) {
         const msg = data?.detail || data?.error || "Error al cargar facturas";
@@ -527,36 +570,68 @@ export function InvoiceHistoryPanel({
   }
 
   /**
-   * Permanently deletes a voided (anulada) invoice. Admin/support only.
+   * Archives a voided (anulada) invoice: hidden from the default list, kept with its history. Admin/support only.
    * @param batchId - Invoice batch identifier.
    */
-  async function handleDeleteVoidedInvoice(batchId: string) {
+  async function handleArchiveVoidedInvoice(batchId: string) {
     if (
       !confirm(
-        "¿Eliminar esta factura anulada permanentemente? Esta acción no se puede deshacer."
+        "¿Archivar esta factura anulada? Dejará de aparecer en la lista (filtro Archivada para verla)."
       )
     ) {
       return;
     }
-    setDeletingBatchId(batchId);
+    setArchivingBatchId(batchId);
     setError(null);
     try {
-      const res = await fetch(`/api/sales/${batchId}/delete`, {
-        method: "DELETE",
+      const res = await fetch(`/api/sales/${batchId}/archive`, {
+        method: "POST",
       });
 
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || "Error al eliminar factura");
+        throw new Error(data.error || "Error al archivar factura");
       }
 
       await loadInvoices();
-      onInvoiceDeleted?.();
+      onInvoiceArchived?.();
       setSelectedBatchId(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Error desconocido");
     } finally {
-      setDeletingBatchId(null);
+      setArchivingBatchId(null);
+    }
+  }
+
+  /**
+   * Reverts the anulación of an invoice: seats are re-checked and reserved again. Admin/support only.
+   * @param batchId - Invoice batch identifier.
+   */
+  async function handleUnvoidInvoice(batchId: string) {
+    const reason = prompt("Motivo para revertir la anulación (opcional):");
+    if (reason === null) return;
+    setUnvoidingBatchId(batchId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sales/${batchId}/unvoid`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: reason.trim() || undefined }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al revertir anulación");
+      }
+
+      await loadInvoices();
+      onInvoiceUnvoided?.();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Error desconocido";
+      setError(message);
+      alert(message);
+    } finally {
+      setUnvoidingBatchId(null);
     }
   }
 
@@ -753,12 +828,18 @@ export function InvoiceHistoryPanel({
       );
     }
 
+    // Archived invoices only show under the "Archivada" status
+    filtered = filtered.filter((invoice) =>
+      selectedPaymentStatus === "archived" ? invoice.isArchived : !invoice.isArchived
+    );
+
     // Payment status filter
-    if (selectedPaymentStatus !== "all") {
+    if (selectedPaymentStatus !== "all" && selectedPaymentStatus !== "archived") {
       filtered = filtered.filter((invoice) => {
         if (selectedPaymentStatus === "voided") return invoice.isVoided;
         if (selectedPaymentStatus === "paid") return !invoice.isVoided && invoice.isPaid;
         if (selectedPaymentStatus === "pending") return !invoice.isVoided && !invoice.isPaid;
+        if (selectedPaymentStatus === "hold") return !invoice.isVoided && Boolean(invoice.holdExpiresAt);
         return true;
       });
     }
@@ -1000,8 +1081,10 @@ export function InvoiceHistoryPanel({
                 onChange={setSelectedPaymentStatus}
                 options={[
                   { value: "pending", label: "Pendiente" },
+                  { value: "hold", label: "Reserva temporal" },
                   { value: "paid", label: "Pagado" },
                   { value: "voided", label: "Anulada" },
+                  { value: "archived", label: "Archivada" },
                 ]}
                 allLabel="Todos los estados"
                 placeholder="Buscar estado..."
@@ -1052,7 +1135,9 @@ export function InvoiceHistoryPanel({
               className={`w-full text-left border rounded-lg p-3 transition-colors ${
                 invoice.isVoided
                   ? "border-danger/30 bg-danger/5 hover:bg-danger/10"
-                  : "border-gold-200/40 bg-white hover:bg-pearl"
+                  : invoice.holdExpiresAt
+                    ? "border-dashed border-aqua-700/50 bg-aqua-700/5 hover:bg-aqua-700/10"
+                    : "border-gold-200/40 bg-white hover:bg-pearl"
               }`}
             >
               <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
@@ -1063,7 +1148,20 @@ export function InvoiceHistoryPanel({
                         ANULADA
                       </span>
                     )}
-                    {!invoice.isVoided && (
+                    {invoice.isArchived && (
+                      <span className="bg-jet/10 text-jet/60 text-[10px] font-semibold px-2 py-0.5 rounded-full">
+                        ARCHIVADA
+                      </span>
+                    )}
+                    {!invoice.isVoided && invoice.holdExpiresAt && (
+                      <span
+                        className="bg-aqua-700/15 text-aqua-700 text-[10px] font-semibold px-2 py-0.5 rounded-full"
+                        title="Plazas reservadas sin abono; se liberan automáticamente al vencer"
+                      >
+                        RESERVA TEMPORAL · vence {formatDateTime(invoice.holdExpiresAt)}
+                      </span>
+                    )}
+                    {!invoice.isVoided && !invoice.holdExpiresAt && (
                       <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${
                         invoice.isPaid
                           ? "bg-success/20 text-success"
@@ -1072,6 +1170,11 @@ export function InvoiceHistoryPanel({
                         {invoice.isPaid ? "PAGADO" : "PENDIENTE"}
                       </span>
                     )}
+                    {invoice.isWeb && (
+                      <span className="bg-aqua-700/15 text-aqua-700 text-[10px] font-semibold px-2 py-0.5 rounded-full" title="Reserva hecha por el cliente desde la web">
+                        WEB
+                      </span>
+                    )}
                   </div>
                   <p className="text-jet font-semibold text-sm mt-0.5">
                     {invoice.customerLabel}
@@ -1097,10 +1200,10 @@ export function InvoiceHistoryPanel({
                 </div>
                 <div className="text-left sm:text-right shrink-0">
                   <p className={`font-semibold text-sm ${invoice.isVoided ? "text-jet/50 line-through" : "text-jet"}`}>
-                    RD$ {invoice.total.toLocaleString()}
+                    {invoice.currency} {invoice.total.toLocaleString()}
                   </p>
                   <p className="text-gold-500 text-xs mt-0.5">
-                    {invoice.isPaid ? "No debe nada (pagado)" : `Lo que debe: RD$ ${invoice.totalPendiente.toLocaleString()}`}
+                    {invoice.isPaid ? "No debe nada (pagado)" : `Lo que debe: ${invoice.currency} ${invoice.totalPendiente.toLocaleString()}`}
                   </p>
                 </div>
               </div>
@@ -1150,13 +1253,17 @@ export function InvoiceHistoryPanel({
           onClose={handleCloseModal}
           onEdit={onEditInvoice ? () => { onEditInvoice(selectedInvoice); handleCloseModal(); } : undefined}
           onVoid={(reason) => handleVoidInvoice(selectedInvoice.batchId, reason)}
-          onDeleteVoided={() => handleDeleteVoidedInvoice(selectedInvoice.batchId)}
+          onArchiveVoided={() => handleArchiveVoidedInvoice(selectedInvoice.batchId)}
+          onUnvoid={() => handleUnvoidInvoice(selectedInvoice.batchId)}
           isVoiding={voidingBatchId === selectedInvoice.batchId}
-          isDeleting={deletingBatchId === selectedInvoice.batchId}
+          isArchiving={archivingBatchId === selectedInvoice.batchId}
+          isUnvoiding={unvoidingBatchId === selectedInvoice.batchId}
           voidReason={voidReason}
           onVoidReasonChange={setVoidReason}
           showVoidActions={showVoidActions}
-          showDeleteVoidedActions={showDeleteVoidedActions}
+          showArchiveVoidedActions={showArchiveVoidedActions}
+          canUnvoid={canUnvoidInvoices}
+          canReversePayments={canReversePayments}
           showSupervisorFilter={showSupervisorFilter}
           supervisorOptions={supervisorOptions}
           sellerOptions={sellerOptions}
@@ -1173,6 +1280,914 @@ export function InvoiceHistoryPanel({
   );
 }
 
+/**
+ * Payment (abono) recorded on an invoice batch, as returned by /api/sales/[batchId]/payments.
+ */
+interface PaymentRecord {
+  id: string;
+  amount: number;
+  paidAt: string;
+  method: string;
+  reference?: string | null;
+  recordedBy: string;
+  reversedAt?: string | null;
+  reversedBy?: string | null;
+  reverseReason?: string | null;
+  /** Set once the payment is locked in a cash closing (cierre de caja). */
+  cashClosingId?: string | null;
+}
+
+/**
+ * Lists every payment of an invoice and lets staff record a new abono or reverse one (admin/support).
+ * Pendiente and PAGADO on the invoice are recomputed by the API from these payments.
+ */
+function InvoicePaymentsSection({
+  batchId,
+  currency,
+  totalPendiente,
+  isVoided,
+  canReverse,
+  onChanged,
+}: {
+  batchId: string;
+  /** Invoice currency; payments are recorded in it. */
+  currency: string;
+  totalPendiente: number;
+  isVoided: boolean;
+  canReverse: boolean;
+  onChanged: () => void;
+}) {
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({
+    amount: "",
+    method: "cash" as PaymentMethod,
+    paidAt: new Date().toISOString().slice(0, 10),
+    reference: "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [reversingId, setReversingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPayments = useCallback(
+    () =>
+      fetch(`/api/sales/${batchId}/payments`)
+        .then((res) => (res.ok ? res.json() : []))
+        .then((data) => setPayments(Array.isArray(data) ? data : []))
+        .catch(() => setPayments([])),
+    [batchId]
+  );
+
+  useEffect(() => {
+    void loadPayments();
+  }, [loadPayments]);
+
+  /** Opens the add form pre-filled with the remaining balance. */
+  function handleOpenForm() {
+    setForm((f) => ({ ...f, amount: totalPendiente > 0 ? String(totalPendiente) : "" }));
+    setError(null);
+    setShowForm(true);
+  }
+
+  /**
+   * Records a new payment on the batch.
+   */
+  async function handleAddPayment(e: React.FormEvent) {
+    e.preventDefault();
+    const amount = parseInt(form.amount, 10);
+    if (!amount || amount <= 0) {
+      setError("Ingrese un monto válido.");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sales/${batchId}/payments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount,
+          method: form.method,
+          paidAt: form.paidAt || undefined,
+          reference: form.reference.trim() || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al registrar pago");
+      }
+      setShowForm(false);
+      setForm((f) => ({ ...f, amount: "", reference: "" }));
+      await loadPayments();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error desconocido");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  /**
+   * Reverses a payment after asking for a reason.
+   */
+  async function handleReverse(payment: PaymentRecord) {
+    const reason = prompt(`Motivo para anular el pago de ${currency} ${payment.amount.toLocaleString()} (opcional):`);
+    if (reason === null) return;
+    setReversingId(payment.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sales/${batchId}/payments/${payment.id}/reverse`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: reason.trim() || undefined }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al anular pago");
+      }
+      await loadPayments();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error desconocido");
+    } finally {
+      setReversingId(null);
+    }
+  }
+
+  /** Abono number per active payment (reversed payments are not numbered). */
+  const abonoNumbers = new Map(
+    payments.filter((p) => !p.reversedAt).map((p, i) => [p.id, i + 1])
+  );
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gold-200/50 no-print">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-jet/60 text-xs uppercase tracking-wider">Pagos (abonos)</p>
+        {!isVoided && !showForm && totalPendiente > 0 && (
+          <button
+            type="button"
+            onClick={handleOpenForm}
+            className="text-aqua-700 text-xs hover:underline"
+          >
+            + Registrar pago
+          </button>
+        )}
+      </div>
+
+      {payments.length === 0 ? (
+        <p className="text-jet/50 text-sm">Sin pagos registrados.</p>
+      ) : (
+        <ul className="space-y-2">
+          {payments.map((p) => {
+            const isReversed = Boolean(p.reversedAt);
+            const methodLabel = PAYMENT_METHOD_LABELS[p.method as PaymentMethod] ?? p.method;
+            return (
+              <li key={p.id} className={`bg-pearl rounded-lg p-3 text-sm ${isReversed ? "opacity-60" : ""}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className={`text-jet font-medium ${isReversed ? "line-through" : ""}`}>
+                      {isReversed ? "Pago anulado" : `Abono ${abonoNumbers.get(p.id)}`} · {currency} {p.amount.toLocaleString()}
+                    </p>
+                    <p className="text-jet/60 text-xs">
+                      {formatDate(p.paidAt)} · {methodLabel}
+                      {p.reference ? ` · Ref ${p.reference}` : ""}
+                    </p>
+                    <p className="text-jet/50 text-xs">
+                      Registrado por {p.recordedBy}
+                      {p.cashClosingId ? " · En cierre de caja" : ""}
+                    </p>
+                    {isReversed && (
+                      <p className="text-danger text-xs">
+                        Anulado por {p.reversedBy ?? "—"} el {formatDate(p.reversedAt)}
+                        {p.reverseReason ? `: ${p.reverseReason}` : ""}
+                      </p>
+                    )}
+                  </div>
+                  {canReverse && !isReversed && !p.cashClosingId && (
+                    <button
+                      type="button"
+                      onClick={() => void handleReverse(p)}
+                      disabled={reversingId === p.id}
+                      className="text-danger text-xs hover:underline flex-shrink-0 disabled:opacity-50"
+                    >
+                      {reversingId === p.id ? "Anulando..." : "Anular"}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleAddPayment} className="mt-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-jet/60 mb-0.5">Monto ({currency})</label>
+              <input
+                type="number"
+                min={1}
+                value={form.amount}
+                onChange={(e) => setForm((f) => ({ ...f, amount: e.target.value }))}
+                className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-0.5">Método</label>
+              <select
+                value={form.method}
+                onChange={(e) => setForm((f) => ({ ...f, method: e.target.value as PaymentMethod }))}
+                className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+              >
+                {PAYMENT_METHODS.map((m) => (
+                  <option key={m} value={m}>
+                    {PAYMENT_METHOD_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-0.5">Fecha</label>
+              <input
+                type="date"
+                value={form.paidAt}
+                onChange={(e) => setForm((f) => ({ ...f, paidAt: e.target.value }))}
+                className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-0.5">Referencia</label>
+              <input
+                type="text"
+                value={form.reference}
+                onChange={(e) => setForm((f) => ({ ...f, reference: e.target.value }))}
+                placeholder="Opcional"
+                maxLength={100}
+                className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 bg-aqua-700 hover:bg-aqua-700/90 text-white py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              {isSaving ? "Guardando..." : "Registrar pago"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50 hover:bg-pearl"
+            >
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-danger text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Comprobante fiscal (NCF) of the invoice: shows the issued NCF and ITBIS breakdown,
+ * or a form to issue one. Once issued the NCF is final and line items can no longer be edited.
+ */
+function InvoiceFiscalSection({
+  batchId,
+  currency,
+  customerName,
+  isVoided,
+}: {
+  batchId: string;
+  currency: string;
+  customerName: string;
+  isVoided: boolean;
+}) {
+  const [fiscal, setFiscal] = useState<FiscalInvoiceDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ ncfType: "B02" as NcfType, customerRnc: "", customerName });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/invoices/${batchId}/fiscal`)
+      .then((res) => (res.ok ? res.json() : { fiscal: null }))
+      .then((data) => setFiscal(data.fiscal ?? null))
+      .catch(() => setFiscal(null))
+      .finally(() => setIsLoading(false));
+  }, [batchId]);
+
+  /**
+   * Issues the comprobante fiscal with the next NCF of the selected type.
+   */
+  async function handleIssue(e: React.FormEvent) {
+    e.preventDefault();
+    if (!confirm("¿Emitir el comprobante fiscal? El NCF asignado es definitivo y la factura no podrá editarse.")) {
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/invoices/${batchId}/fiscal`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ncfType: form.ncfType,
+          customerRnc: form.customerRnc.trim() || undefined,
+          customerName: form.customerName.trim() || undefined,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Error al emitir comprobante");
+      setFiscal(data.fiscal ?? null);
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error desconocido");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (isLoading) return null;
+  if (!fiscal && isVoided) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gold-200/50 no-print">
+      <p className="text-jet/60 text-xs uppercase tracking-wider mb-2">Comprobante fiscal</p>
+
+      {fiscal ? (
+        <div className="bg-pearl rounded-lg p-3 text-sm space-y-1">
+          <p className="text-jet font-medium">
+            NCF <span className="font-mono">{fiscal.ncf}</span>
+            <span className="text-jet/60 font-normal"> · {NCF_TYPE_LABELS[fiscal.ncfType as NcfType] ?? fiscal.ncfType}</span>
+          </p>
+          <p className="text-jet/70 text-xs">
+            {fiscal.customerName}
+            {fiscal.customerRnc ? ` · RNC/Cédula ${fiscal.customerRnc}` : ""}
+          </p>
+          <p className="text-jet/70 text-xs">
+            Sub-total {currency} {fiscal.subtotal.toLocaleString()} · ITBIS {Math.round(fiscal.itbisRate * 100)}% {currency} {fiscal.itbis.toLocaleString()} · Total {currency} {fiscal.total.toLocaleString()}
+          </p>
+          <p className="text-jet/50 text-xs">
+            Emitido {formatDateTime(fiscal.issuedAt)}
+            {fiscal.issuedBy ? ` por ${fiscal.issuedBy}` : ""} · Válido hasta {formatDate(fiscal.ncfExpiresAt)}
+          </p>
+        </div>
+      ) : showForm ? (
+        <form onSubmit={handleIssue} className="bg-pearl rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-1 tablet:grid-cols-3 gap-2">
+            <select
+              value={form.ncfType}
+              onChange={(e) => setForm((f) => ({ ...f, ncfType: e.target.value as NcfType }))}
+              className="bg-porcelain border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm"
+            >
+              {NCF_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type} — {NCF_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="numeric"
+              placeholder={form.ncfType === "B01" ? "RNC (obligatorio)" : "RNC/Cédula (opcional)"}
+              value={form.customerRnc}
+              onChange={(e) => setForm((f) => ({ ...f, customerRnc: e.target.value }))}
+              required={form.ncfType === "B01"}
+              className="bg-porcelain border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm"
+            />
+            <input
+              type="text"
+              placeholder="Nombre o razón social"
+              value={form.customerName}
+              onChange={(e) => setForm((f) => ({ ...f, customerName: e.target.value }))}
+              maxLength={200}
+              className="bg-porcelain border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm"
+            />
+          </div>
+          {error && <p className="text-danger text-xs">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              {isSaving ? "Emitiendo..." : "Emitir"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50"
+            >
+              Cancelar
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => {
+            setError(null);
+            setShowForm(true);
+          }}
+          className="text-aqua-700 text-sm font-medium hover:underline"
+        >
+          + Emitir comprobante fiscal (NCF)
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Cancellations under the tour's policy: credit notes already issued (with their PDF) and a form to cancel
+ * the whole booking or one additional passenger, previewing the refund before confirming.
+ */
+function InvoiceCancellationSection({
+  batchId,
+  currency,
+  passengers,
+  isVoided,
+  canCancel,
+  onChanged,
+}: {
+  batchId: string;
+  currency: string;
+  passengers: PersonaAdditional[];
+  isVoided: boolean;
+  canCancel: boolean;
+  onChanged: () => void;
+}) {
+  const [refunds, setRefunds] = useState<RefundDTO[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  /** "" = whole booking, else passenger index (n = personasAdditional[n - 1]). */
+  const [target, setTarget] = useState("");
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/sales/${batchId}/refunds`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setRefunds(Array.isArray(data) ? data : []))
+      .catch(() => setRefunds([]));
+  }, [batchId, reloadKey]);
+
+  useEffect(() => {
+    if (!showForm) return;
+    fetch(`/api/sales/${batchId}/cancel${target ? `?passengerIndex=${target}` : ""}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Error al calcular el reembolso");
+        return data as CancellationQuote;
+      })
+      .then((data) => {
+        setQuote(data);
+        setError(null);
+      })
+      .catch((err) => {
+        setQuote(null);
+        setError(err instanceof Error ? err.message : "Error desconocido");
+      });
+  }, [batchId, showForm, target, reloadKey]);
+
+  /**
+   * Cancels the booking or passenger after confirmation.
+   */
+  async function handleCancel(e: React.FormEvent) {
+    e.preventDefault();
+    if (!quote) return;
+    const what = quote.scope === "batch" ? "toda la reserva" : `a ${quote.passengerName}`;
+    if (!confirm(`¿Cancelar ${what}? Se reembolsan ${currency} ${quote.amount.toLocaleString()}.`)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sales/${batchId}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          passengerIndex: target ? Number(target) : undefined,
+          method: quote.amount > 0 ? method : undefined,
+          reason: reason.trim() || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al cancelar");
+      }
+      setShowForm(false);
+      setTarget("");
+      setReason("");
+      setReloadKey((k) => k + 1);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error desconocido");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (refunds.length === 0 && (!canCancel || isVoided)) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gold-200/50 no-print">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-jet/60 text-xs uppercase tracking-wider">Cancelaciones y notas de crédito</p>
+        {canCancel && !isVoided && !showForm && (
+          <button type="button" onClick={() => setShowForm(true)} className="text-danger text-xs hover:underline">
+            Cancelar según política
+          </button>
+        )}
+      </div>
+
+      {refunds.length > 0 && (
+        <ul className="space-y-2">
+          {refunds.map((r) => (
+            <li key={r.id} className="bg-pearl rounded-lg p-3 text-sm">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-jet font-medium">
+                    {r.creditNoteNumber} · {r.scope === "batch" ? "Reserva completa" : r.passengerName}
+                  </p>
+                  <p className="text-jet/60 text-xs">
+                    Reembolso {r.refundPercent}%: {r.currency} {r.amount.toLocaleString()}
+                    {r.retainedAmount > 0 ? ` · Retenido ${r.currency} ${r.retainedAmount.toLocaleString()}` : ""}
+                    {r.method ? ` · ${PAYMENT_METHOD_LABELS[r.method as PaymentMethod] ?? r.method}` : ""}
+                  </p>
+                  <p className="text-jet/50 text-xs">
+                    {formatDateTime(r.createdAt)} · {r.recordedBy} · {r.daysBefore} días antes del tour
+                  </p>
+                  {r.reason && <p className="text-jet/50 text-xs">Motivo: {r.reason}</p>}
+                </div>
+                <a
+                  href={`/api/invoices/${encodeURIComponent(batchId)}/credit-notes/${encodeURIComponent(r.id)}/pdf`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-aqua-700 text-xs hover:underline flex-shrink-0"
+                >
+                  PDF
+                </a>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCancel} className="mt-3 space-y-2">
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Qué se cancela</label>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            >
+              <option value="">Reserva completa</option>
+              {passengers.map((p, i) => (
+                <option key={i} value={String(i + 1)}>
+                  Pasajero: {p.name} ({p.type === "kid" ? "niño" : "adulto"})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {quote && (
+            <div className="bg-pearl rounded-lg p-3 text-xs text-jet/80 space-y-0.5">
+              <p>
+                {quote.daysBefore} días antes del tour · {quote.seatsReleased} cupo{quote.seatsReleased === 1 ? "" : "s"} liberado{quote.seatsReleased === 1 ? "" : "s"}
+              </p>
+              <p>Abonos de lo cancelado: {currency} {quote.paidAmount.toLocaleString()}</p>
+              <p className="text-jet font-semibold">
+                Reembolso ({quote.refundPercent}%): {currency} {quote.amount.toLocaleString()}
+              </p>
+              {quote.retainedAmount > 0 && (
+                <p>Retenido según política: {currency} {quote.retainedAmount.toLocaleString()}</p>
+              )}
+              {quote.scope === "passenger" && (
+                <p>
+                  Factura queda en {currency} {quote.remainingTotal.toLocaleString()} · Pendiente {currency}{" "}
+                  {quote.remainingPending.toLocaleString()}
+                </p>
+              )}
+              <p className="text-jet/50 pt-1">Política: {describeCancellationPolicy(quote.policy).join(" · ")}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {quote && quote.amount > 0 && (
+              <div>
+                <label className="block text-xs text-jet/60 mb-0.5">Forma de reembolso</label>
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                  className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+                >
+                  {PAYMENT_METHODS.map((m) => (
+                    <option key={m} value={m}>
+                      {PAYMENT_METHOD_LABELS[m]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className={quote && quote.amount > 0 ? "" : "col-span-2"}>
+              <label className="block text-xs text-jet/60 mb-0.5">Motivo</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Opcional"
+                maxLength={500}
+                className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || !quote}
+              className="flex-1 bg-danger hover:bg-danger/90 text-white py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              {isSaving ? "Cancelando..." : "Confirmar cancelación"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setError(null);
+              }}
+              className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50 hover:bg-pearl"
+            >
+              Cerrar
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-danger text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Passengers taken off the booking: history of removed passengers (plain removals and credit-note cancellations)
+ * and a form to remove one without refund, previewing the new total and pendiente before confirming.
+ */
+function InvoiceRemovedPassengersSection({
+  batchId,
+  currency,
+  passengers,
+  isVoided,
+  canRemove,
+  onChanged,
+}: {
+  batchId: string;
+  currency: string;
+  passengers: PersonaAdditional[];
+  isVoided: boolean;
+  canRemove: boolean;
+  onChanged: () => void;
+}) {
+  const [removed, setRemoved] = useState<RemovedPassengerDTO[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  /** Passenger index to remove (n = personasAdditional[n - 1]); "" = form closed. */
+  const [target, setTarget] = useState("");
+  const [quote, setQuote] = useState<PassengerRemovalQuote | null>(null);
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/sales/${batchId}/removed-passengers`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setRemoved(Array.isArray(data) ? data : []))
+      .catch(() => setRemoved([]));
+    // passengers.length: also reload after a passenger is cancelled with a credit note
+  }, [batchId, reloadKey, passengers.length]);
+
+  useEffect(() => {
+    if (!target) return;
+    fetch(`/api/sales/${batchId}/remove-passenger?passengerIndex=${target}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Error al calcular el ajuste");
+        return data as PassengerRemovalQuote;
+      })
+      .then((data) => {
+        setQuote(data);
+        setError(null);
+      })
+      .catch((err) => {
+        setQuote(null);
+        setError(err instanceof Error ? err.message : "Error desconocido");
+      });
+  }, [batchId, target]);
+
+  /**
+   * Removes the selected passenger after confirmation.
+   */
+  async function handleRemove(e: React.FormEvent) {
+    e.preventDefault();
+    if (!quote) return;
+    if (!confirm(`¿Retirar a ${quote.passengerName}? La factura baja ${currency} ${quote.amount.toLocaleString()}.`)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sales/${batchId}/remove-passenger`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passengerIndex: Number(target), reason: reason.trim() || undefined }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al retirar el pasajero");
+      }
+      setTarget("");
+      setQuote(null);
+      setReason("");
+      setReloadKey((k) => k + 1);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error desconocido");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const canShowForm = canRemove && !isVoided && passengers.length > 0;
+  if (removed.length === 0 && !canShowForm) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gold-200/50 no-print">
+      <p className="text-jet/60 text-xs uppercase tracking-wider mb-2">Pasajeros retirados</p>
+
+      {removed.length > 0 ? (
+        <ul className="space-y-2">
+          {removed.map((r) => (
+            <li key={r.id} className="bg-pearl rounded-lg p-3 text-sm">
+              <p className="text-jet font-medium">
+                {r.name} <span className="text-jet/50 font-normal">({r.type === "kid" ? "niño" : "adulto"})</span>
+              </p>
+              <p className="text-jet/60 text-xs">
+                −{currency} {r.amount.toLocaleString()} · {r.seatsReleased} cupo{r.seatsReleased === 1 ? "" : "s"} liberado{r.seatsReleased === 1 ? "" : "s"}
+                {r.creditNoteNumber ? ` · ${r.creditNoteNumber}` : " · Sin reembolso"}
+              </p>
+              <p className="text-jet/50 text-xs">
+                {formatDateTime(r.createdAt)} · {r.removedBy}
+                {r.cedulaPassport ? ` · Cédula/Pass: ${r.cedulaPassport}` : ""}
+              </p>
+              {r.reason && <p className="text-jet/50 text-xs">Motivo: {r.reason}</p>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-jet/50 text-xs">Ningún pasajero retirado.</p>
+      )}
+
+      {canShowForm && (
+        <form onSubmit={handleRemove} className="mt-3 space-y-2">
+          <div>
+            <label className="block text-xs text-jet/60 mb-0.5">Retirar pasajero (sin reembolso)</label>
+            <select
+              value={target}
+              onChange={(e) => {
+                setTarget(e.target.value);
+                setQuote(null);
+                setError(null);
+              }}
+              className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+            >
+              <option value="">Seleccionar pasajero…</option>
+              {passengers.map((p, i) => (
+                <option key={i} value={String(i + 1)}>
+                  {p.name} ({p.type === "kid" ? "niño" : "adulto"})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {target && quote && (
+            <>
+              <div className="bg-pearl rounded-lg p-3 text-xs text-jet/80 space-y-0.5">
+                {quote.lines.map((l) => (
+                  <p key={l.saleId}>
+                    {l.tourName}: −1 cupo · −{currency} {l.seatPrice.toLocaleString()}
+                  </p>
+                ))}
+                <p className="text-jet font-semibold">
+                  Factura queda en {currency} {quote.remainingTotal.toLocaleString()} · Pendiente {currency}{" "}
+                  {quote.remainingPending.toLocaleString()}
+                </p>
+              </div>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Motivo (opcional)"
+                maxLength={500}
+                className="w-full bg-white border border-gold-200/50 rounded-lg px-3 py-1.5 text-jet text-sm"
+              />
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="w-full bg-danger hover:bg-danger/90 text-white py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+              >
+                {isSaving ? "Retirando..." : "Retirar pasajero"}
+              </button>
+            </>
+          )}
+        </form>
+      )}
+
+      {error && <p className="text-danger text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Change history (Historial) of an invoice from the audit log: who changed what and when.
+ * Loaded when opened so the modal stays fast.
+ */
+function InvoiceAuditSection({ batchId }: { batchId: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<AuditEventDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Toggles the section, reloading the history every time it opens. */
+  function handleToggle() {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/sales/${batchId}/audit`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Error al cargar historial");
+        return res.json();
+      })
+      .then((data) => setEvents(Array.isArray(data.events) ? data.events : []))
+      .catch((err) => setError(err instanceof Error ? err.message : "Error desconocido"))
+      .finally(() => setIsLoading(false));
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gold-200/50 no-print">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="flex items-center justify-between w-full text-jet/60 text-xs uppercase tracking-wider"
+      >
+        <span>Historial de cambios</span>
+        <span className="text-aqua-700 normal-case tracking-normal">{isOpen ? "Ocultar" : "Ver"}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2">
+          {isLoading ? (
+            <p className="text-jet/50 text-sm">Cargando...</p>
+          ) : error ? (
+            <p className="text-danger text-xs">{error}</p>
+          ) : events.length === 0 ? (
+            <p className="text-jet/50 text-sm">Sin cambios registrados.</p>
+          ) : (
+            <ul className="space-y-2">
+              {events.map((event) => {
+                const changeLines = formatAuditChanges(event.changes);
+                return (
+                  <li key={event.id} className="bg-pearl rounded-lg p-3 text-sm">
+                    <p className="text-jet font-medium">{getAuditActionLabel(event.action)}</p>
+                    <p className="text-jet/60 text-xs">
+                      {formatDateTime(event.createdAt)} · {event.actorName ?? "sistema"}
+                    </p>
+                    {changeLines.map((line) => (
+                      <p key={line} className="text-jet/70 text-xs">
+                        {line}
+                      </p>
+                    ))}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Modal component for displaying invoice details.
  */
@@ -1181,13 +2196,17 @@ function InvoiceDetailModal({
   onClose,
   onEdit,
   onVoid,
-  onDeleteVoided,
+  onArchiveVoided,
+  onUnvoid,
   isVoiding,
-  isDeleting,
+  isArchiving,
+  isUnvoiding,
   voidReason,
   onVoidReasonChange,
   showVoidActions,
-  showDeleteVoidedActions,
+  showArchiveVoidedActions,
+  canUnvoid = false,
+  canReversePayments = false,
   showSupervisorFilter = true,
   supervisorOptions,
   sellerOptions,
@@ -1201,13 +2220,17 @@ function InvoiceDetailModal({
   onClose: () => void;
   onEdit?: () => void;
   onVoid: (reason: string) => void;
-  onDeleteVoided?: () => void;
+  onArchiveVoided?: () => void;
+  onUnvoid?: () => void;
   isVoiding: boolean;
-  isDeleting: boolean;
+  isArchiving: boolean;
+  isUnvoiding: boolean;
   voidReason: string;
   onVoidReasonChange: (value: string) => void;
   showVoidActions: boolean;
-  showDeleteVoidedActions: boolean;
+  showArchiveVoidedActions: boolean;
+  canUnvoid?: boolean;
+  canReversePayments?: boolean;
   showSupervisorFilter?: boolean;
   supervisorOptions: { value: string; label: string }[];
   sellerOptions: { value: string; label: string }[];
@@ -1223,8 +2246,9 @@ function InvoiceDetailModal({
   const [phoneError, setPhoneError] = useState<string | null>(null);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [isDownloadingServerPdf, setIsDownloadingServerPdf] = useState(false);
+  const [isSendingWhatsAppPdf, setIsSendingWhatsAppPdf] = useState(false);
+  const [whatsAppPdfStatus, setWhatsAppPdfStatus] = useState<{ ok: boolean; text: string } | null>(null);
   const [isUpdatingPayment, setIsUpdatingPayment] = useState(false);
-  const [currentIsPaid, setCurrentIsPaid] = useState(invoice.isPaid);
   const [whatsappCount, setWhatsappCount] = useState(invoice.whatsappCount ?? 0);
   const [callCount, setCallCount] = useState(invoice.callCount ?? 0);
   const [isEditingCliente, setIsEditingCliente] = useState(false);
@@ -1288,7 +2312,7 @@ function InvoiceDetailModal({
         const name = item.tour?.name || "Producto";
         const qty = item.quantity;
         const total = item.total;
-        return `• ${name} x${qty} — RD$ ${total.toLocaleString()}`;
+        return `• ${name} x${qty} — ${invoice.currency} ${total.toLocaleString()}`;
       })
       .join("\n");
 
@@ -1301,7 +2325,7 @@ function InvoiceDetailModal({
       "*Desglose:*",
       itemsList,
       "",
-      "Total factura: RD$ " + invoice.total.toLocaleString(),
+      "Total factura: " + invoice.currency + " " + invoice.total.toLocaleString(),
     ];
 
     if (!invoice.isVoided && invoice.isPaid) {
@@ -1309,7 +2333,7 @@ function InvoiceDetailModal({
       lines.push("*\uD83D\uDCB0 No debe nada (reservación pagada)*");
     } else if (!invoice.isVoided && invoice.totalPendiente > 0) {
       lines.push("");
-      lines.push("*\uD83D\uDCB0 Lo que debe (saldo pendiente): RD$ " + invoice.totalPendiente.toLocaleString() + "*");
+      lines.push("*\uD83D\uDCB0 Lo que debe (saldo pendiente): " + invoice.currency + " " + invoice.totalPendiente.toLocaleString() + "*");
     }
 
     lines.push("");
@@ -1454,19 +2478,22 @@ function InvoiceDetailModal({
   }
 
   /**
-   * Toggles the payment status for the invoice.
+   * Marks the invoice as paid by recording a payment for the remaining balance.
+   * Paid invoices go back to pending only by reversing a payment.
    */
-  async function handleTogglePayment() {
-    if (invoice.isVoided) return;
-    
+  async function handleMarkPaid() {
+    if (invoice.isVoided || invoice.isPaid) return;
+    if (!confirm(`¿Registrar un pago en efectivo por el saldo pendiente (${invoice.currency} ${invoice.totalPendiente.toLocaleString()}) y marcar como pagada?`)) {
+      return;
+    }
+
     setIsUpdatingPayment(true);
-    const newStatus = !currentIsPaid;
 
     try {
       const res = await fetch(`/api/sales/${invoice.batchId}/update-payment`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ isPaid: newStatus }),
+        body: JSON.stringify({ isPaid: true }),
       });
 
       if (!res.ok) {
@@ -1474,7 +2501,6 @@ function InvoiceDetailModal({
         throw new Error(data.error || "Error al actualizar estado de pago");
       }
 
-      setCurrentIsPaid(newStatus);
       onPaymentUpdated?.();
     } catch (err) {
       console.error("Error updating payment:", err);
@@ -1521,6 +2547,32 @@ function InvoiceDetailModal({
     }
   }
 
+  /**
+   * Sends the server-generated PDF invoice to the customer's WhatsApp as a document.
+   */
+  async function handleSendPdfWhatsApp() {
+    if (!invoice.customerPhone) return;
+    if (!confirm(`¿Enviar la factura PDF por WhatsApp a ${formatPhoneForDisplay(invoice.customerPhone)}?`)) return;
+    setIsSendingWhatsAppPdf(true);
+    setWhatsAppPdfStatus(null);
+    try {
+      const res = await fetch(`/api/invoices/${invoice.batchId}/whatsapp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(`${data.error || "Error al enviar la factura"}${data.code ? ` (código ${data.code})` : ""}`);
+      }
+      setWhatsAppPdfStatus({ ok: true, text: "Factura enviada por WhatsApp." });
+    } catch (e) {
+      setWhatsAppPdfStatus({ ok: false, text: e instanceof Error ? e.message : "Error al enviar la factura" });
+    } finally {
+      setIsSendingWhatsAppPdf(false);
+    }
+  }
+
   /**
    * Generates a PDF invoice and triggers download.
    * Uses html2canvas to capture the invoice HTML and jsPDF to create the PDF.
@@ -1592,6 +2644,11 @@ function InvoiceDetailModal({
                     ANULADA
                   </span>
                 )}
+                {invoice.isWeb && (
+                  <span className="bg-aqua-700/15 text-aqua-700 text-xs font-semibold px-2 py-0.5 rounded-full">
+                    WEB
+                  </span>
+                )}
               </div>
               <p className="text-jet/60 text-sm mt-0.5">{dateLabel}</p>
             </div>
@@ -1608,6 +2665,16 @@ function InvoiceDetailModal({
 
         {/* Content - Scrollable */}
         <div className="flex-1 overflow-y-auto p-4">
+          {/* Temporary hold banner */}
+          {!invoice.isVoided && invoice.holdExpiresAt && (
+            <div className="bg-aqua-700/10 border border-dashed border-aqua-700/40 rounded-lg p-3 mb-4">
+              <p className="text-aqua-700 font-semibold text-sm">Reserva temporal</p>
+              <p className="text-aqua-700/80 text-xs mt-0.5">
+                Las plazas se liberan el {formatDateTime(invoice.holdExpiresAt)} si no se registra un abono.
+              </p>
+            </div>
+          )}
+
           {/* Voided banner */}
           {invoice.isVoided && (
             <div className="bg-danger/10 border border-danger/30 rounded-lg p-3 mb-4">
@@ -1625,6 +2692,20 @@ function InvoiceDetailModal({
               <p className="text-danger/70 text-xs mt-2">
                 El inventario ha sido restaurado.
               </p>
+              {invoice.isArchived && (
+                <p className="text-jet/60 text-xs mt-1">Archivada: no aparece en la lista por defecto.</p>
+              )}
+              {canUnvoid && onUnvoid && (
+                <button
+                  type="button"
+                  onClick={onUnvoid}
+                  disabled={isUnvoiding}
+                  className="mt-3 bg-aqua-700 hover:bg-aqua-700/90 text-white px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors disabled:opacity-50 no-print"
+                  title="Vuelve a reservar las plazas si siguen disponibles"
+                >
+                  {isUnvoiding ? "Revirtiendo..." : "Revertir anulación"}
+                </button>
+              )}
             </div>
           )}
 
@@ -1647,19 +2728,21 @@ function InvoiceDetailModal({
                 <span className="text-[10px] font-semibold px-2 py-0.5 rounded-full bg-danger/20 text-danger">
                   ANULADA
                 </span>
+              ) : invoice.isPaid ? (
+                <span className="text-[10px] font-semibold px-2 py-0.5 rounded-full bg-success/20 text-success">
+                  ✓ PAGADO
+                </span>
               ) : (
                 <button
                   type="button"
-                  onClick={handleTogglePayment}
+                  onClick={handleMarkPaid}
                   disabled={isUpdatingPayment}
-                  className={`text-[10px] font-semibold px-2 py-0.5 rounded-full transition-colors ${
-                    currentIsPaid
-                      ? "bg-success/20 text-success hover:bg-success/30"
-                      : "bg-gold-500/20 text-gold-500 hover:bg-gold-500/30"
-                  } ${isUpdatingPayment ? "opacity-50 cursor-wait" : "cursor-pointer"}`}
-                  title="Click para cambiar estado de pago"
+                  className={`text-[10px] font-semibold px-2 py-0.5 rounded-full transition-colors bg-gold-500/20 text-gold-500 hover:bg-gold-500/30 ${
+                    isUpdatingPayment ? "opacity-50 cursor-wait" : "cursor-pointer"
+                  }`}
+                  title="Click para registrar el saldo pendiente como pagado"
                 >
-                  {isUpdatingPayment ? "..." : currentIsPaid ? "✓ PAGADO" : "PENDIENTE"}
+                  {isUpdatingPayment ? "..." : "PENDIENTE"}
                 </button>
               )}
             </div>
@@ -2165,14 +3248,14 @@ function InvoiceDetailModal({
                     </div>
                     <div className="text-right flex-shrink-0">
                       <p className={`text-jet font-semibold text-sm ${invoice.isVoided ? "line-through text-jet/50" : ""}`}>
-                        RD$ {item.total.toLocaleString()}
+                        {invoice.currency} {item.total.toLocaleString()}
                       </p>
                       {(() => {
                         const unitPrice = item.quantity ? Math.round(item.total / item.quantity) : 0;
                         const isKid = item.tour?.childPrice != null && unitPrice === item.tour.childPrice;
                         return (
                           <p className={`text-xs ${isKid ? "text-amber-600" : "text-jet/50"}`}>
-                            {item.quantity} × RD$ {unitPrice.toLocaleString()} ({isKid ? "Niño" : "Adulto"})
+                            {item.quantity} × {invoice.currency} {unitPrice.toLocaleString()} ({isKid ? "Niño" : "Adulto"})
                           </p>
                         );
                       })()}
@@ -2183,14 +3266,14 @@ function InvoiceDetailModal({
                     <div className="flex gap-4 mt-2 pt-2 border-t border-gold-200/30 text-xs">
                       {item.abono !== null && item.abono !== undefined && item.abono > 0 && (
                         <span className="text-success">
-                          Depósito: RD$ {item.abono.toLocaleString()}
+                          Depósito: {invoice.currency} {item.abono.toLocaleString()}
                         </span>
                       )}
                       {invoice.isPaid ? (
                         <span className="text-success">Pagado</span>
                       ) : item.pendiente !== null && item.pendiente !== undefined && item.pendiente > 0 ? (
                         <span className="text-gold-500">
-                          Lo que debe: RD$ {item.pendiente.toLocaleString()}
+                          Lo que debe: {invoice.currency} {item.pendiente.toLocaleString()}
                         </span>
                       ) : null}
                     </div>
@@ -2207,32 +3290,73 @@ function InvoiceDetailModal({
                 Total factura
               </p>
               <p className={`text-2xl font-bold ${invoice.isVoided ? "text-danger line-through" : "text-white"}`}>
-                RD$ {invoice.total.toLocaleString()}
+                {invoice.currency} {invoice.total.toLocaleString()}
               </p>
             </div>
             {!invoice.isVoided && (invoice.totalAbono > 0 || invoice.totalPendiente > 0 || invoice.isPaid) && (
               <div className="mt-2 pt-2 border-t border-white/20 text-sm space-y-1">
                 {invoice.totalAbono > 0 && (
                   <p className="text-white/90">
-                    Depósito (pagado al inicio): RD$ {invoice.totalAbono.toLocaleString()}
+                    Depósito (pagado al inicio): {invoice.currency} {invoice.totalAbono.toLocaleString()}
                   </p>
                 )}
                 {invoice.isPaid ? (
                   <p className="text-success font-medium">No debe nada (reservación pagada)</p>
                 ) : invoice.totalPendiente > 0 ? (
                   <p className="text-gold-500 font-medium">
-                    Lo que debe (saldo pendiente): RD$ {invoice.totalPendiente.toLocaleString()}
+                    Lo que debe (saldo pendiente): {invoice.currency} {invoice.totalPendiente.toLocaleString()}
                   </p>
                 ) : null}
                 {!invoice.isPaid && (invoice.totalAbono > 0 || invoice.totalPendiente > 0) && (
                   <p className="text-white/70 text-xs mt-1">
-                    Total = Depósito + Lo que debe → RD$ {(invoice.totalAbono + invoice.totalPendiente).toLocaleString()}
+                    Total = Depósito + Lo que debe → {invoice.currency} {(invoice.totalAbono + invoice.totalPendiente).toLocaleString()}
                   </p>
                 )}
               </div>
             )}
           </div>
 
+          {/* Payments ledger: every abono, add / reverse */}
+          <InvoicePaymentsSection
+            batchId={invoice.batchId}
+            currency={invoice.currency}
+            totalPendiente={invoice.isPaid ? 0 : invoice.totalPendiente}
+            isVoided={invoice.isVoided}
+            canReverse={canReversePayments}
+            onChanged={() => onPaymentUpdated?.()}
+          />
+
+          {/* Comprobante fiscal (NCF) */}
+          <InvoiceFiscalSection
+            batchId={invoice.batchId}
+            currency={invoice.currency}
+            customerName={invoice.customerLabel}
+            isVoided={invoice.isVoided}
+          />
+
+          {/* Cancellation under the tour's policy, with refunds / credit notes */}
+          <InvoiceCancellationSection
+            batchId={invoice.batchId}
+            currency={invoice.currency}
+            passengers={invoice.personasAdditional}
+            isVoided={invoice.isVoided}
+            canCancel={showVoidActions}
+            onChanged={() => onPaymentUpdated?.()}
+          />
+
+          {/* Passengers removed from the booking, and removal without refund */}
+          <InvoiceRemovedPassengersSection
+            batchId={invoice.batchId}
+            currency={invoice.currency}
+            passengers={invoice.personasAdditional}
+            isVoided={invoice.isVoided}
+            canRemove={showVoidActions}
+            onChanged={() => onPaymentUpdated?.()}
+          />
+
+          {/* Audit trail: who changed what on this invoice */}
+          <InvoiceAuditSection batchId={invoice.batchId} />
+
           {/* Edit invoice - add/update products or prices */}
           {onEdit && !invoice.isVoided && (
             <div className="mt-4 pt-4 border-t border-gold-200/50 no-print">
@@ -2292,6 +3416,11 @@ function InvoiceDetailModal({
 
         {/* Footer */}
         <div className="p-4 border-t border-gold-200/50 bg-pearl no-print">
+          {whatsAppPdfStatus && (
+            <p className={`text-xs mb-2 ${whatsAppPdfStatus.ok ? "text-success" : "text-danger"}`}>
+              {whatsAppPdfStatus.text}
+            </p>
+          )}
           <div className="flex flex-col-reverse sm:flex-row gap-2">
             <button
               type="button"
@@ -2300,15 +3429,15 @@ function InvoiceDetailModal({
             >
               Cerrar
             </button>
-            {invoice.isVoided && showDeleteVoidedActions && onDeleteVoided && (
+            {invoice.isVoided && !invoice.isArchived && showArchiveVoidedActions && onArchiveVoided && (
               <button
                 type="button"
-                onClick={onDeleteVoided}
-                disabled={isDeleting}
-                className="flex-1 bg-danger/80 hover:bg-danger text-white py-2.5 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
-                title="Eliminar factura anulada permanentemente"
+                onClick={onArchiveVoided}
+                disabled={isArchiving}
+                className="flex-1 bg-jet/70 hover:bg-jet text-white py-2.5 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+                title="Archivar factura anulada (se conserva con su historial)"
               >
-                {isDeleting ? "Eliminando..." : "Eliminar factura"}
+                {isArchiving ? "Archivando..." : "Archivar factura"}
               </button>
             )}
             <button
@@ -2320,6 +3449,15 @@ function InvoiceDetailModal({
             >
               {isDownloadingServerPdf ? "Descargando..." : "📄 Descargar PDF"}
             </button>
+            <button
+              type="button"
+              onClick={handleSendPdfWhatsApp}
+              disabled={isSendingWhatsAppPdf || invoice.isVoided || !invoice.customerPhone}
+              className="flex-1 bg-success/90 hover:bg-success text-white py-2.5 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+              title="Enviar la factura PDF al WhatsApp del cliente"
+            >
+              {isSendingWhatsAppPdf ? "Enviando..." : "Enviar por WhatsApp"}
+            </button>
             <button
               type="button"
               onClick={handleGeneratePdf}
@@ -2467,7 +3605,7 @@ function InvoiceDetailModal({
               <div style={{ marginTop: "8px", display: "flex", gap: "12px", fontSize: "11px" }}>
                 <span style={{ 
                   background: invoice.isPaid ? "#dcfce7" : "#fef3c7", 
-                  color: currentIsPaid ? "#166534" : "#92400e",
+                  color: invoice.isPaid ? "#166534" : "#92400e",
                   padding: "4px 12px",
                   borderRadius: "4px",
                   fontWeight: 600,
@@ -2476,7 +3614,7 @@ function InvoiceDetailModal({
                   justifyContent: "center",
                   lineHeight: 1
                 }}>
-                  {currentIsPaid ? "PAGADO" : "PENDIENTE"}
+                  {invoice.isPaid ? "PAGADO" : "PENDIENTE"}
                 </span>
               </div>
             </div>
@@ -2518,10 +3656,10 @@ function InvoiceDetailModal({
                       {item.quantity}
                     </td>
                     <td style={{ padding: "10px 6px", borderBottom: "1px solid #e5e7eb", textAlign: "right", color: isKid ? "#b45309" : "#111", fontSize: "12px" }}>
-                      RD$ {unitPrice.toLocaleString()} ({isKid ? "Niño" : "Adulto"})
+                      {invoice.currency} {unitPrice.toLocaleString()} ({isKid ? "Niño" : "Adulto"})
                     </td>
                     <td style={{ padding: "10px 6px", borderBottom: "1px solid #e5e7eb", textAlign: "right", fontWeight: 600, color: "#111", fontSize: "12px" }}>
-                      RD$ {item.total.toLocaleString()}
+                      {invoice.currency} {item.total.toLocaleString()}
                     </td>
                   </tr>
                 );
@@ -2549,7 +3687,7 @@ function InvoiceDetailModal({
                     textDecoration: invoice.isVoided ? "line-through" : "none",
                   }}
                 >
-                  RD$ {invoice.total.toLocaleString()}
+                  {invoice.currency} {invoice.total.toLocaleString()}
                 </span>
               </div>
             </div>
@@ -2560,16 +3698,16 @@ function InvoiceDetailModal({
             <div style={{ marginBottom: "24px", padding: "12px 16px", background: "#f9fafb", borderRadius: "8px", fontSize: "12px", color: "#374151" }}>
               <p style={{ margin: "0 0 4px 0", fontWeight: 600 }}>Resumen de pago</p>
               {invoice.totalAbono > 0 && (
-                <p style={{ margin: "0 0 2px 0" }}>Depósito (pagado al inicio): RD$ {invoice.totalAbono.toLocaleString()}</p>
+                <p style={{ margin: "0 0 2px 0" }}>Depósito (pagado al inicio): {invoice.currency} {invoice.totalAbono.toLocaleString()}</p>
               )}
               {invoice.isPaid ? (
                 <p style={{ margin: "0 0 2px 0", fontWeight: 600, color: "#16a34a" }}>No debe nada (reservación pagada)</p>
               ) : invoice.totalPendiente > 0 ? (
-                <p style={{ margin: "0 0 2px 0", fontWeight: 600, color: "#C8A96A" }}>Lo que debe (saldo pendiente): RD$ {invoice.totalPendiente.toLocaleString()}</p>
+                <p style={{ margin: "0 0 2px 0", fontWeight: 600, color: "#C8A96A" }}>Lo que debe (saldo pendiente): {invoice.currency} {invoice.totalPendiente.toLocaleString()}</p>
               ) : null}
               {!invoice.isPaid && (invoice.totalAbono > 0 || invoice.totalPendiente > 0) && (
                 <p style={{ margin: "4px 0 0 0", fontSize: "11px", color: "#6b7280" }}>
-                  Total = Depósito + Lo que debe → RD$ {(invoice.totalAbono + invoice.totalPendiente).toLocaleString()}
+                  Total = Depósito + Lo que debe → {invoice.currency} {(invoice.totalAbono + invoice.totalPendiente).toLocaleString()}
                 </p>
               )}
             </div>
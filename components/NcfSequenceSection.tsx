@@ -0,0 +1,294 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatDate } from "@/lib/formatDate";
+import { NCF_TYPES, NCF_TYPE_LABELS, type NcfType } from "@/lib/validation";
+import type { NcfSequenceDTO } from "@/lib/fiscal";
+
+/**
+ * Status label and classes for a sequence row.
+ */
+function getSequenceStatus(sequence: NcfSequenceDTO): { label: string; className: string } {
+  if (!sequence.isActive) return { label: "Inactiva", className: "bg-jet/10 text-jet/60" };
+  if (sequence.isExpired) return { label: "Vencida", className: "bg-danger/20 text-danger" };
+  if (sequence.remaining === 0) return { label: "Agotada", className: "bg-danger/20 text-danger" };
+  return { label: "Vigente", className: "bg-success/20 text-success" };
+}
+
+/**
+ * DGII NCF sequences for Ajustes (comprobantes fiscales B01/B02).
+ * Register authorized ranges with their expiry; numbers are taken in order when an invoice is finalized.
+ */
+export function NcfSequenceSection() {
+  const [sequences, setSequences] = useState<NcfSequenceDTO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [form, setForm] = useState({ type: "B02" as NcfType, rangeFrom: "", rangeTo: "", expiresAt: "" });
+
+  async function loadSequences() {
+    try {
+      const res = await fetch("/api/ncf-sequences");
+      if (!res.ok) throw new Error("Error al cargar secuencias");
+      const data = await res.json();
+      setSequences(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSequences();
+  }, []);
+
+  /**
+   * Registers a new sequence.
+   */
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/ncf-sequences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: form.type,
+          rangeFrom: parseInt(form.rangeFrom, 10),
+          rangeTo: parseInt(form.rangeTo, 10),
+          expiresAt: form.expiresAt,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al registrar secuencia");
+      }
+      setAdding(false);
+      setForm((f) => ({ ...f, rangeFrom: "", rangeTo: "", expiresAt: "" }));
+      setSuccess("Secuencia registrada");
+      await loadSequences();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /**
+   * Activates or deactivates a sequence.
+   */
+  async function handleToggle(sequence: NcfSequenceDTO) {
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/ncf-sequences/${sequence.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !sequence.isActive }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al actualizar secuencia");
+      }
+      await loadSequences();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  /**
+   * Deletes an unused sequence.
+   */
+  async function handleDelete(sequence: NcfSequenceDTO) {
+    if (!confirm(`¿Eliminar la secuencia ${sequence.type} ${sequence.rangeFrom}–${sequence.rangeTo}?`)) return;
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/ncf-sequences/${sequence.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al eliminar secuencia");
+      }
+      setSuccess("Secuencia eliminada");
+      await loadSequences();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  const inputClass =
+    "w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent";
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-6 lg:col-span-2">
+      <h2 className="text-lg font-semibold text-jet mb-4">Comprobantes Fiscales (NCF)</h2>
+      <p className="text-jet/60 text-sm mb-6">
+        Secuencias autorizadas por la DGII. Al emitir el comprobante de una factura se toma el siguiente número de la secuencia vigente más antigua del tipo.
+      </p>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm mb-4">
+          {success}
+        </div>
+      )}
+
+      {!adding ? (
+        <button
+          type="button"
+          onClick={() => {
+            setAdding(true);
+            setError(null);
+            setSuccess(null);
+          }}
+          className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium mb-6"
+        >
+          + Registrar secuencia
+        </button>
+      ) : (
+        <form onSubmit={handleAdd} className="mb-6 p-4 bg-pearl rounded-lg border border-gold-200/30 space-y-3">
+          <div className="grid grid-cols-2 tablet:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Tipo</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm((f) => ({ ...f, type: e.target.value as NcfType }))}
+                className={inputClass}
+              >
+                {NCF_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type} — {NCF_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Desde</label>
+              <input
+                type="number"
+                min={1}
+                value={form.rangeFrom}
+                onChange={(e) => setForm((f) => ({ ...f, rangeFrom: e.target.value }))}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Hasta</label>
+              <input
+                type="number"
+                min={1}
+                value={form.rangeTo}
+                onChange={(e) => setForm((f) => ({ ...f, rangeTo: e.target.value }))}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Vence</label>
+              <input
+                type="date"
+                value={form.expiresAt}
+                onChange={(e) => setForm((f) => ({ ...f, expiresAt: e.target.value }))}
+                required
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? "Guardando..." : "Guardar"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setAdding(false)}
+              className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50 hover:bg-porcelain"
+            >
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-jet/50 text-sm">Cargando...</p>
+      ) : sequences.length === 0 ? (
+        <p className="text-jet/50 text-sm">No hay secuencias registradas.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-jet/60 text-xs uppercase tracking-wider">
+                <th className="py-2 pr-3">Tipo</th>
+                <th className="py-2 pr-3">Rango</th>
+                <th className="py-2 pr-3">Siguiente</th>
+                <th className="py-2 pr-3">Disponibles</th>
+                <th className="py-2 pr-3">Vence</th>
+                <th className="py-2 pr-3">Estado</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sequences.map((s) => {
+                const status = getSequenceStatus(s);
+                const isUnused = s.nextNumber === s.rangeFrom;
+                return (
+                  <tr key={s.id} className="border-t border-gold-200/30">
+                    <td className="py-2 pr-3 font-medium text-jet">
+                      {s.type}
+                      <span className="block text-jet/50 text-xs font-normal">
+                        {NCF_TYPE_LABELS[s.type as NcfType] ?? s.type}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3">{s.rangeFrom}–{s.rangeTo}</td>
+                    <td className="py-2 pr-3 font-mono text-xs">
+                      {s.remaining > 0 ? `${s.type}${String(s.nextNumber).padStart(8, "0")}` : "—"}
+                    </td>
+                    <td className="py-2 pr-3">{s.remaining.toLocaleString()}</td>
+                    <td className="py-2 pr-3">{formatDate(s.expiresAt)}</td>
+                    <td className="py-2 pr-3">
+                      <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => handleToggle(s)}
+                        className="text-aqua-700 text-xs hover:underline mr-3"
+                      >
+                        {s.isActive ? "Desactivar" : "Activar"}
+                      </button>
+                      {isUnused && (
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(s)}
+                          className="text-danger text-xs hover:underline"
+                        >
+                          Eliminar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useCallback } from "react";
 import Image from "next/image";
+import { formatDate } from "@/lib/formatDate";
 
 /** Character limit before description becomes expandable. */
 const DESCRIPTION_EXPAND_THRESHOLD = 150;
@@ -28,8 +29,21 @@ export interface Product {
   stock?: number;
   /** Per-tour low-seats threshold; null = use default or hide badge. */
   lowSeatsThreshold?: number | null;
+  /** Upcoming dated departures; when present, seats are shown per departure. */
+  departures?: ProductDeparture[];
 }
 
+/** Dated departure of a tour (capacity -1 = unlimited). */
+export interface ProductDeparture {
+  id: string;
+  date: Date | string;
+  capacity: number;
+  booked: number;
+}
+
+/** Max departure dates shown on the card. */
+const MAX_DEPARTURES_SHOWN = 4;
+
 /** Sentinel for "always available" seats (never decremented, bookings only tracked). */
 const UNLIMITED_STOCK = -1;
 
@@ -57,9 +71,20 @@ function getSeatsStatus(
   return "in_stock";
 }
 
+/**
+ * Seats left on a departure (-1 = unlimited), matching the stock convention used by getSeatsStatus.
+ */
+function getDepartureSeats(departure: ProductDeparture): number {
+  if (departure.capacity === UNLIMITED_STOCK) return UNLIMITED_STOCK;
+  return Math.max(0, departure.capacity - departure.booked);
+}
+
 interface ProductCardProps {
   product: Product;
-  onContact: (product: Product) => void;
+  /** Called with the selected departure when the tour has dated departures. */
+  onContact: (product: Product, departure?: ProductDeparture) => void;
+  /** Called when a sold-out tour's "Lista de espera" button is clicked; hidden when not set. */
+  onWaitlist?: (product: Product) => void;
   /** Default low-seats threshold when product.lowSeatsThreshold is null (e.g. from settings). */
   defaultLowSeatsThreshold?: number;
 }
@@ -70,6 +95,7 @@ interface ProductCardProps {
  * Displays seats status (sold out / low seats) using per-tour or default threshold.
  * @param product - The tour data to display.
  * @param onContact - Callback when contact button is clicked.
+ * @param onWaitlist - Callback to join the waitlist when the tour is sold out.
  * @param defaultLowSeatsThreshold - Default threshold when product.lowSeatsThreshold is null.
  * @returns The product card element.
  */
@@ -84,6 +110,7 @@ function getProductImages(product: Product): string[] {
 export function ProductCard({
   product,
   onContact,
+  onWaitlist,
   defaultLowSeatsThreshold,
 }: ProductCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -127,8 +154,21 @@ export function ProductCard({
     [hasMultipleImages, images.length]
   );
 
+  // With departures, seats come from the selected (or first bookable) departure
+  const departures = (product.departures ?? []).slice(0, MAX_DEPARTURES_SHOWN);
+  const [selectedDepartureId, setSelectedDepartureId] = useState<string | null>(
+    () => departures.find((d) => getDepartureSeats(d) !== 0)?.id ?? null
+  );
+  const selectedDeparture = departures.find((d) => d.id === selectedDepartureId);
+  const seatsLeft =
+    departures.length > 0
+      ? selectedDeparture
+        ? getDepartureSeats(selectedDeparture)
+        : 0
+      : product.stock;
+
   const stockStatus = getSeatsStatus(
-    product.stock,
+    seatsLeft,
     product.lowSeatsThreshold,
     defaultLowSeatsThreshold
   );
@@ -241,7 +281,7 @@ export function ProductCard({
           </span>
           {isLowStock && (
             <span className="text-brand-coral text-[10px] sm:text-xs font-medium">
-              • Solo {product.stock} disponibles
+              • Solo {seatsLeft} disponibles
             </span>
           )}
         </div>
@@ -283,6 +323,41 @@ export function ProductCard({
           )}
         </div>
 
+        {/* Departure dates: pick one to see its seats and book it */}
+        {departures.length > 0 && (
+          <div className="mb-3 sm:mb-4">
+            <p className="text-brand-muted text-[10px] sm:text-xs font-medium uppercase tracking-wider mb-1.5">
+              Próximas salidas
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {departures.map((departure) => {
+                const seats = getDepartureSeats(departure);
+                const isFull = seats === 0;
+                const isSelected = departure.id === selectedDepartureId;
+                return (
+                  <button
+                    key={departure.id}
+                    type="button"
+                    disabled={isFull}
+                    onClick={() => setSelectedDepartureId(departure.id)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      isFull
+                        ? "border-brand-border text-brand-muted line-through cursor-not-allowed"
+                        : isSelected
+                          ? "border-brand-sky bg-brand-sky text-white"
+                          : "border-brand-sand text-brand-ink hover:border-brand-sky"
+                    }`}
+                    aria-pressed={isSelected}
+                  >
+                    {formatDate(departure.date)}
+                    {isFull ? " · Agotado" : ""}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Price and CTA: adult price; kid price when set (different color, labeled) */}
         <div className="flex items-center justify-between gap-2">
           <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
@@ -295,7 +370,14 @@ export function ProductCard({
               </span>
             )}
           </div>
-          {isSoldOut ? (
+          {isSoldOut && onWaitlist ? (
+            <button
+              onClick={() => onWaitlist(product)}
+              className="border border-brand-sky text-brand-sky hover:bg-brand-sky hover:text-white px-4 sm:px-5 py-2.5 sm:py-2 rounded-full text-sm font-semibold touch-manipulation flex-shrink-0 transition-colors"
+            >
+              Lista de espera
+            </button>
+          ) : isSoldOut ? (
             <button
               disabled
               className="bg-brand-border text-brand-muted px-4 sm:px-5 py-2.5 sm:py-2 rounded-full text-sm font-semibold cursor-not-allowed flex-shrink-0"
@@ -304,7 +386,7 @@ export function ProductCard({
             </button>
           ) : (
             <button
-              onClick={() => onContact(product)}
+              onClick={() => onContact(product, selectedDeparture)}
               className="btn-primary px-4 sm:px-5 py-2.5 sm:py-2 rounded-full text-sm font-semibold touch-manipulation flex-shrink-0"
             >
               Reservar
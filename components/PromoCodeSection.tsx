@@ -0,0 +1,435 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatDate } from "@/lib/formatDate";
+import {
+  CURRENCIES,
+  PROMO_DISCOUNT_TYPES,
+  PROMO_DISCOUNT_TYPE_LABELS,
+  type PromoDiscountType,
+} from "@/lib/validation";
+import type { PromoCodeDTO } from "@/lib/promoCodes";
+
+/** Tour option for the applicability checkboxes. */
+interface TourOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Status label and classes for a promo code row.
+ */
+function getPromoStatus(promo: PromoCodeDTO, now: Date): { label: string; className: string } {
+  if (!promo.isActive) return { label: "Inactivo", className: "bg-jet/10 text-jet/60" };
+  if (promo.validUntil && new Date(promo.validUntil) < now) {
+    return { label: "Vencido", className: "bg-danger/20 text-danger" };
+  }
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) {
+    return { label: "Agotado", className: "bg-danger/20 text-danger" };
+  }
+  if (promo.validFrom && new Date(promo.validFrom) > now) {
+    return { label: "Programado", className: "bg-gold-200/40 text-jet/70" };
+  }
+  return { label: "Vigente", className: "bg-success/20 text-success" };
+}
+
+/**
+ * Discount as shown in the list ("10%" or "RD$ 500").
+ */
+function formatPromoDiscount(promo: PromoCodeDTO): string {
+  return promo.discountType === "percent"
+    ? `${promo.discountValue}%`
+    : `${promo.currency ?? ""} ${promo.discountValue.toLocaleString()}`.trim();
+}
+
+const EMPTY_FORM = {
+  code: "",
+  description: "",
+  discountType: "percent" as PromoDiscountType,
+  discountValue: "",
+  currency: CURRENCIES[0] as string,
+  tourIds: [] as string[],
+  minPassengers: "1",
+  maxUses: "",
+  validFrom: "",
+  validUntil: "",
+};
+
+/**
+ * Promo codes for Ajustes: percentage or fixed discounts with validity dates, tours they apply to,
+ * usage limit and minimum passengers. Used in SaleForm and the public catalog checkout.
+ */
+export function PromoCodeSection() {
+  const [promos, setPromos] = useState<PromoCodeDTO[]>([]);
+  const [tours, setTours] = useState<TourOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  async function loadPromos() {
+    try {
+      const res = await fetch("/api/promo-codes");
+      if (!res.ok) throw new Error("Error al cargar códigos");
+      const data = await res.json();
+      setPromos(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadPromos();
+    fetch("/api/products?all=true")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setTours(Array.isArray(data) ? data.map((t: TourOption) => ({ id: t.id, name: t.name })) : []))
+      .catch(() => setTours([]));
+  }, []);
+
+  /**
+   * Creates a new promo code.
+   */
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/promo-codes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description || undefined,
+          discountType: form.discountType,
+          discountValue: parseInt(form.discountValue, 10),
+          currency: form.discountType === "fixed" ? form.currency : undefined,
+          tourIds: form.tourIds,
+          minPassengers: parseInt(form.minPassengers, 10) || 1,
+          maxUses: form.maxUses ? parseInt(form.maxUses, 10) : null,
+          validFrom: form.validFrom || null,
+          validUntil: form.validUntil || null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al crear código");
+      }
+      setAdding(false);
+      setForm(EMPTY_FORM);
+      setSuccess("Código creado");
+      await loadPromos();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /**
+   * Activates or deactivates a promo code.
+   */
+  async function handleToggle(promo: PromoCodeDTO) {
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/promo-codes/${promo.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !promo.isActive }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al actualizar código");
+      }
+      await loadPromos();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  /**
+   * Deletes an unused promo code.
+   */
+  async function handleDelete(promo: PromoCodeDTO) {
+    if (!confirm(`¿Eliminar el código ${promo.code}?`)) return;
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/promo-codes/${promo.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error al eliminar código");
+      }
+      setSuccess("Código eliminado");
+      await loadPromos();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error");
+    }
+  }
+
+  function toggleTour(tourId: string) {
+    setForm((f) => ({
+      ...f,
+      tourIds: f.tourIds.includes(tourId) ? f.tourIds.filter((id) => id !== tourId) : [...f.tourIds, tourId],
+    }));
+  }
+
+  const inputClass =
+    "w-full bg-pearl border border-gold-200/50 rounded-lg px-3 py-2 text-jet text-sm focus:outline-none focus:ring-2 focus:ring-aqua-500 focus:border-transparent";
+  const tourNameById = new Map(tours.map((t) => [t.id, t.name]));
+  const now = new Date();
+
+  return (
+    <div className="bg-porcelain rounded-xl border border-gold-200/50 p-6 lg:col-span-2">
+      <h2 className="text-lg font-semibold text-jet mb-4">Códigos Promocionales</h2>
+      <p className="text-jet/60 text-sm mb-6">
+        Descuentos por porcentaje o monto fijo que el cliente ingresa al reservar en el catálogo o el vendedor en una venta. El descuento se aplica solo a los tours del código y aparece como una línea en la factura.
+      </p>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-success/10 border border-success/30 text-success px-4 py-3 rounded-lg text-sm mb-4">
+          {success}
+        </div>
+      )}
+
+      {!adding ? (
+        <button
+          type="button"
+          onClick={() => {
+            setAdding(true);
+            setError(null);
+            setSuccess(null);
+          }}
+          className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium mb-6"
+        >
+          + Nuevo código
+        </button>
+      ) : (
+        <form onSubmit={handleAdd} className="mb-6 p-4 bg-pearl rounded-lg border border-gold-200/30 space-y-3">
+          <div className="grid grid-cols-2 tablet:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Código</label>
+              <input
+                type="text"
+                value={form.code}
+                onChange={(e) => setForm((f) => ({ ...f, code: e.target.value.toUpperCase() }))}
+                required
+                maxLength={40}
+                placeholder="VERANO10"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Tipo</label>
+              <select
+                value={form.discountType}
+                onChange={(e) => setForm((f) => ({ ...f, discountType: e.target.value as PromoDiscountType }))}
+                className={inputClass}
+              >
+                {PROMO_DISCOUNT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {PROMO_DISCOUNT_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">
+                {form.discountType === "percent" ? "Porcentaje" : "Monto por reserva"}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={form.discountType === "percent" ? 100 : undefined}
+                value={form.discountValue}
+                onChange={(e) => setForm((f) => ({ ...f, discountValue: e.target.value }))}
+                required
+                className={inputClass}
+              />
+            </div>
+            {form.discountType === "fixed" && (
+              <div>
+                <label className="block text-xs text-jet/60 mb-1">Moneda</label>
+                <select
+                  value={form.currency}
+                  onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value }))}
+                  className={inputClass}
+                >
+                  {CURRENCIES.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Mín. pasajeros</label>
+              <input
+                type="number"
+                min={1}
+                value={form.minPassengers}
+                onChange={(e) => setForm((f) => ({ ...f, minPassengers: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Límite de usos</label>
+              <input
+                type="number"
+                min={1}
+                value={form.maxUses}
+                onChange={(e) => setForm((f) => ({ ...f, maxUses: e.target.value }))}
+                placeholder="Sin límite"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Válido desde</label>
+              <input
+                type="date"
+                value={form.validFrom}
+                onChange={(e) => setForm((f) => ({ ...f, validFrom: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-jet/60 mb-1">Válido hasta</label>
+              <input
+                type="date"
+                value={form.validUntil}
+                onChange={(e) => setForm((f) => ({ ...f, validUntil: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Descripción</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              maxLength={200}
+              placeholder="Ej. Promoción de verano"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-jet/60 mb-1">Tours (ninguno marcado = todos)</label>
+            <div className="max-h-40 overflow-y-auto grid grid-cols-1 tablet:grid-cols-2 gap-1">
+              {tours.map((t) => (
+                <label key={t.id} className="flex items-center gap-2 text-sm text-jet/80">
+                  <input type="checkbox" checked={form.tourIds.includes(t.id)} onChange={() => toggleTour(t.id)} />
+                  {t.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-aqua-700 hover:bg-aqua-700/90 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? "Guardando..." : "Guardar"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setAdding(false)}
+              className="px-4 py-2 rounded-lg text-sm text-jet/70 border border-gold-200/50 hover:bg-porcelain"
+            >
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-jet/50 text-sm">Cargando...</p>
+      ) : promos.length === 0 ? (
+        <p className="text-jet/50 text-sm">No hay códigos promocionales.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-jet/60 text-xs uppercase tracking-wider">
+                <th className="py-2 pr-3">Código</th>
+                <th className="py-2 pr-3">Descuento</th>
+                <th className="py-2 pr-3">Tours</th>
+                <th className="py-2 pr-3">Mín. pax</th>
+                <th className="py-2 pr-3">Vigencia</th>
+                <th className="py-2 pr-3">Usos</th>
+                <th className="py-2 pr-3">Estado</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {promos.map((p) => {
+                const status = getPromoStatus(p, now);
+                return (
+                  <tr key={p.id} className="border-t border-gold-200/30">
+                    <td className="py-2 pr-3 font-mono font-medium text-jet">
+                      {p.code}
+                      {p.description && (
+                        <span className="block text-jet/50 text-xs font-sans font-normal">{p.description}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">{formatPromoDiscount(p)}</td>
+                    <td className="py-2 pr-3 text-xs">
+                      {p.tourIds.length === 0
+                        ? "Todos"
+                        : p.tourIds.map((id) => tourNameById.get(id) ?? id).join(", ")}
+                    </td>
+                    <td className="py-2 pr-3">{p.minPassengers}</td>
+                    <td className="py-2 pr-3 text-xs whitespace-nowrap">
+                      {p.validFrom || p.validUntil
+                        ? `${p.validFrom ? formatDate(p.validFrom) : "—"} – ${p.validUntil ? formatDate(p.validUntil) : "—"}`
+                        : "Siempre"}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {p.usedCount}
+                      {p.maxUses !== null ? ` / ${p.maxUses}` : ""}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => handleToggle(p)}
+                        className="text-aqua-700 text-xs hover:underline mr-3"
+                      >
+                        {p.isActive ? "Desactivar" : "Activar"}
+                      </button>
+                      {p.usedCount === 0 && (
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(p)}
+                          className="text-danger text-xs hover:underline"
+                        >
+                          Eliminar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
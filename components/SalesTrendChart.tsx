@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Legend, Tooltip } from "recharts";
+import { formatDate } from "@/lib/formatDate";
+import type { SalesTrend, TrendTotals } from "@/lib/salesAnalytics";
+
+/** Metrics that can be charted, with their label and whether they are amounts. */
+const METRICS: { key: keyof TrendTotals; label: string; money: boolean }[] = [
+  { key: "revenue", label: "Ventas", money: true },
+  { key: "collected", label: "Cobrado", money: true },
+  { key: "pending", label: "Pendiente", money: true },
+  { key: "passengers", label: "Pasajeros", money: false },
+  { key: "bookings", label: "Reservas", money: false },
+];
+
+interface SalesTrendChartProps {
+  trend: SalesTrend;
+  baseCurrency: string;
+}
+
+/**
+ * Change badge text, e.g. "+12.5%"; "—" when there is no previous figure.
+ */
+function formatChange(change: number | null): string {
+  if (change === null) return "—";
+  return `${change > 0 ? "+" : ""}${change}%`;
+}
+
+/**
+ * Period totals (with change against the previous period) and a line chart of one metric,
+ * current period vs previous period bucket by bucket.
+ */
+export function SalesTrendChart({ trend, baseCurrency }: SalesTrendChartProps) {
+  const [metric, setMetric] = useState<keyof TrendTotals>("revenue");
+  const selected = METRICS.find((m) => m.key === metric)!;
+  const formatValue = (value: number) =>
+    selected.money ? `${baseCurrency} ${value.toLocaleString()}` : value.toLocaleString();
+
+  // Buckets are aligned by position: the previous period has the same length
+  const chartData = trend.current.map((point, i) => ({
+    label: formatDate(point.start),
+    current: point[metric],
+    previous: trend.previous[i]?.[metric] ?? 0,
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {METRICS.map((m) => {
+          const change = trend.change[m.key];
+          // Less pending is good news, so its colors are reversed
+          const good = change !== null && (m.key === "pending" ? change < 0 : change > 0);
+          const bad = change !== null && (m.key === "pending" ? change > 0 : change < 0);
+          return (
+            <button
+              key={m.key}
+              type="button"
+              onClick={() => setMetric(m.key)}
+              className={`text-left rounded-lg border p-2 transition-colors ${
+                metric === m.key ? "border-aqua-700 bg-aqua-500/10" : "border-gold-200/50 bg-white hover:bg-gold-200/20"
+              }`}
+            >
+              <p className="text-xs text-jet/60">{m.label}</p>
+              <p className="text-sm font-semibold text-jet">
+                {m.money ? `${baseCurrency} ` : ""}
+                {trend.totals[m.key].toLocaleString()}
+              </p>
+              <p className={`text-xs ${good ? "text-success" : bad ? "text-danger" : "text-jet/50"}`}>
+                {formatChange(change)}{" "}
+                <span className="text-jet/50">
+                  vs {m.money ? `${baseCurrency} ` : ""}
+                  {trend.previousTotals[m.key].toLocaleString()}
+                </span>
+              </p>
+            </button>
+          );
+        })}
+      </div>
+      <div className="w-full">
+        <ResponsiveContainer width="100%" height={240}>
+          <LineChart data={chartData} margin={{ top: 8, right: 8, bottom: 4, left: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#D8C3A5" strokeOpacity={0.5} />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={16} />
+            <YAxis tick={{ fontSize: 11 }} width={56} tickFormatter={(v: number) => v.toLocaleString()} />
+            <Tooltip
+              formatter={(value?: number) => (value != null ? formatValue(value) : "")}
+              contentStyle={{
+                backgroundColor: "#FEFEFE",
+                border: "1px solid #D8C3A5",
+                borderRadius: "8px",
+                fontSize: "12px",
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: "12px" }} />
+            <Line
+              type="monotone"
+              dataKey="current"
+              name={`${formatDate(trend.from)} – ${formatDate(trend.to)}`}
+              stroke="#007C92"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="previous"
+              name={`${formatDate(trend.previousFrom)} – ${formatDate(trend.previousTo)}`}
+              stroke="#C8A96A"
+              strokeDasharray="4 4"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
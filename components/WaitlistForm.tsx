@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import type { Product, ProductDeparture } from "./ProductCard";
+import { formatDate } from "@/lib/formatDate";
+
+/** Sentinel for "always available" seats. */
+const UNLIMITED_STOCK = -1;
+
+interface WaitlistFormProps {
+  product: Product;
+  onClose: () => void;
+}
+
+/**
+ * Whether a departure has no seats left.
+ */
+function isFull(departure: ProductDeparture): boolean {
+  return departure.capacity !== UNLIMITED_STOCK && departure.capacity - departure.booked <= 0;
+}
+
+/** YYYY-MM-DD of a departure date (stored at noon UTC). */
+function departureDay(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Public waitlist form for a sold-out tour: date, seats, name and phone.
+ * Submits to POST /api/waitlist; customers are notified by WhatsApp when seats are released.
+ */
+export function WaitlistForm({ product, onClose }: WaitlistFormProps) {
+  const fullDepartures = (product.departures ?? []).filter(isFull);
+  const [fechaVisita, setFechaVisita] = useState(fullDepartures[0] ? departureDay(fullDepartures[0].date) : "");
+  const [seats, setSeats] = useState(1);
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [joined, setJoined] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!fechaVisita) {
+      setError("Selecciona la fecha del tour.");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tourId: product.id,
+          fechaVisita,
+          seats,
+          customerName: customerName.trim(),
+          customerPhone: customerPhone.trim(),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Error al enviar. Intenta de nuevo.");
+        return;
+      }
+      setJoined(true);
+    } catch {
+      setError("Error de conexión. Intenta de nuevo.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full border border-brand-border rounded-lg px-3 py-2 text-jet text-sm";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-jet/50 p-0 sm:p-4" role="dialog" aria-modal="true" aria-labelledby="waitlist-heading">
+      <div className="bg-white w-full sm:max-w-md max-h-[92vh] overflow-y-auto rounded-t-2xl sm:rounded-2xl shadow-xl">
+        <div className="sticky top-0 bg-white border-b border-brand-border px-5 py-4 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 id="waitlist-heading" className="text-lg font-semibold text-brand-ink truncate">
+              Lista de espera: {product.name}
+            </h2>
+            <p className="text-brand-muted text-xs">Te avisamos por WhatsApp si se liberan plazas</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-9 h-9 rounded-lg flex items-center justify-center text-brand-muted hover:bg-brand-canvas"
+            aria-label="Cerrar"
+          >
+            ×
+          </button>
+        </div>
+
+        {joined ? (
+          <div className="p-6 text-center space-y-4">
+            <p className="text-brand-ink text-base font-semibold">¡Estás en la lista de espera!</p>
+            <p className="text-brand-muted text-sm">
+              Si se liberan plazas para el {formatDate(fechaVisita)}, te escribiremos por WhatsApp y te las
+              guardaremos por tiempo limitado.
+            </p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-full text-sm font-semibold border border-brand-border text-brand-ink"
+            >
+              Cerrar
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-5 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+            )}
+
+            <div>
+              <label htmlFor="waitlist-date" className="block text-sm font-medium text-brand-ink mb-1">
+                Fecha del tour
+              </label>
+              {fullDepartures.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5">
+                  {fullDepartures.map((d) => {
+                    const day = departureDay(d.date);
+                    return (
+                      <button
+                        key={d.id}
+                        type="button"
+                        onClick={() => setFechaVisita(day)}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                          day === fechaVisita
+                            ? "border-brand-sky bg-brand-sky text-white"
+                            : "border-brand-sand text-brand-ink hover:border-brand-sky"
+                        }`}
+                        aria-pressed={day === fechaVisita}
+                      >
+                        {formatDate(d.date)}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <input
+                  id="waitlist-date"
+                  type="date"
+                  value={fechaVisita}
+                  min={new Date().toISOString().slice(0, 10)}
+                  onChange={(e) => setFechaVisita(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="waitlist-seats" className="block text-sm font-medium text-brand-ink mb-1">
+                Plazas
+              </label>
+              <input
+                id="waitlist-seats"
+                type="number"
+                min={1}
+                max={50}
+                value={seats}
+                onChange={(e) => setSeats(Math.max(1, Math.min(50, Number(e.target.value) || 1)))}
+                className={inputClass}
+              />
+            </div>
+
+            <input
+              type="text"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              placeholder="Nombre completo"
+              className={inputClass}
+              required
+            />
+            <input
+              type="tel"
+              value={customerPhone}
+              onChange={(e) => setCustomerPhone(e.target.value)}
+              placeholder="Teléfono / WhatsApp"
+              className={inputClass}
+              required
+            />
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="btn-primary w-full px-6 py-2.5 rounded-full text-sm font-semibold disabled:opacity-50"
+            >
+              {submitting ? "Enviando…" : "Unirme a la lista de espera"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ export { Hero } from "./Hero";
 export { About } from "./About";
 export { Catalog } from "./Catalog";
 export { CatalogClient } from "./CatalogClient";
+export { BookingCheckout } from "./BookingCheckout";
+export { WaitlistForm } from "./WaitlistForm";
 export { ProductCard, type Product } from "./ProductCard";
 export { Shipping } from "./Shipping";
 export { Contact } from "./Contact";
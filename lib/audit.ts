@@ -0,0 +1,171 @@
+import type { AuditEvent, Prisma } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import type { ApiAuthResult } from "./apiAuth";
+import type { AuditAction } from "./validation";
+
+/** Who performed a change (from the API session). */
+export interface AuditActor {
+  role: string | null;
+  userId: string | null;
+  name: string | null;
+}
+
+/** Entity an audit event refers to. */
+export type AuditEntityType = "invoice" | "tour";
+
+/** Field change stored in AuditEvent.changes. */
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/** Event to record. */
+export interface NewAuditEvent {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes?: Record<string, AuditFieldChange> | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+/** Audit event for the dashboard. */
+export interface AuditEventDTO {
+  id: string;
+  actorRole: string | null;
+  actorName: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  changes: Record<string, AuditFieldChange> | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+/** Filters for listing audit events. */
+export interface AuditEventFilters {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  actorName?: string;
+  from?: Date;
+  to?: Date;
+  /** Return events older than this event ID (pagination). */
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Builds the audit actor from the API session.
+ * Env-based admin/support have no name; the role is used instead.
+ */
+export function getAuditActor(session: ApiAuthResult): AuditActor {
+  return {
+    role: session.role ?? null,
+    userId: session.userId ?? null,
+    name: session.supervisorName || session.role || null,
+  };
+}
+
+/**
+ * JSON-safe value for the diff (dates as ISO strings).
+ */
+function toAuditValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+/**
+ * Returns the fields whose value differs between before and after.
+ * @param before - Previous values
+ * @param after - New values (only these keys are compared)
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  for (const key of Object.keys(after)) {
+    const prev = toAuditValue(before[key]);
+    const next = toAuditValue(after[key]);
+    if (JSON.stringify(prev) !== JSON.stringify(next)) {
+      changes[key] = { before: prev, after: next };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Records an audit event. Pass the transaction client so the event commits with the change.
+ * @param tx - Transaction client
+ * @param actor - Who made the change
+ * @param event - Action, entity, diff and metadata
+ */
+export async function recordAuditEvent(
+  tx: DbClient,
+  actor: AuditActor,
+  event: NewAuditEvent
+): Promise<AuditEvent> {
+  const changes = event.changes && Object.keys(event.changes).length > 0 ? event.changes : null;
+  return tx.auditEvent.create({
+    data: {
+      actorRole: actor.role,
+      actorUserId: actor.userId,
+      actorName: actor.name,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      changes: (changes ?? undefined) as Prisma.InputJsonValue | undefined,
+      metadata: (event.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+    },
+  });
+}
+
+/**
+ * Maps an audit row to its DTO.
+ */
+function toAuditEventDTO(event: AuditEvent): AuditEventDTO {
+  return {
+    id: event.id,
+    actorRole: event.actorRole,
+    actorName: event.actorName,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    changes: (event.changes as Record<string, AuditFieldChange> | null) ?? null,
+    metadata: (event.metadata as Record<string, unknown> | null) ?? null,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Lists audit events, newest first.
+ * @param filters - Action, entity, actor, date range and cursor pagination
+ * @returns Events and the cursor for the next page (null when there are no more)
+ */
+export async function getAuditEvents(
+  filters: AuditEventFilters = {}
+): Promise<{ events: AuditEventDTO[]; nextCursor: string | null }> {
+  const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+  const where: Prisma.AuditEventWhereInput = {
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(filters.entityType ? { entityType: filters.entityType } : {}),
+    ...(filters.entityId ? { entityId: filters.entityId } : {}),
+    ...(filters.actorName ? { actorName: { contains: filters.actorName, mode: "insensitive" as const } } : {}),
+    ...(filters.from || filters.to
+      ? { createdAt: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) } }
+      : {}),
+  };
+  const rows = await db.auditEvent.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+  });
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    events: page.map(toAuditEventDTO),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
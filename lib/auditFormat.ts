@@ -0,0 +1,81 @@
+/**
+ * Display helpers for audit events (Auditoría and invoice Historial).
+ * Client-safe: no database access.
+ */
+
+import { AUDIT_ACTION_LABELS, type AuditAction } from "./validation";
+import { formatDate } from "./formatDate";
+
+/** Spanish labels for audited fields; unknown keys are shown as-is. */
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  customerName: "Cliente",
+  customerId: "Ficha de cliente",
+  customerPhone: "Teléfono",
+  cedula: "Cédula",
+  provincia: "Provincia",
+  municipio: "Municipio",
+  customerAddress: "Dirección",
+  supervisor: "Supervisor",
+  nombreVendedor: "Vendedor",
+  fechaVisita: "Fecha del tour",
+  fechaEntrega: "Fecha de entrega",
+  fechaLimitePago: "Fecha límite de pago",
+  notes: "Notas",
+  isPaid: "Pagada",
+  pendiente: "Pendiente",
+  voidedAt: "Anulada",
+  voidReason: "Motivo",
+  reversedAt: "Anulado",
+  lines: "Líneas",
+  total: "Total",
+  name: "Nombre",
+  description: "Descripción",
+  price: "Precio",
+  childPrice: "Precio niño",
+  stock: "Plazas por salida",
+  capacity: "Capacidad",
+  booked: "Reservadas",
+  tourDate: "Fecha del tour",
+  isActive: "Activo",
+  lowSeatsThreshold: "Umbral de plazas bajas",
+  recurringWeeklyDay: "Día semanal",
+  imageUrls: "Imágenes",
+  cancellationPolicy: "Política de cancelación",
+  passenger: "Pasajero",
+};
+
+/**
+ * Label for an audit action (falls back to the raw action).
+ */
+export function getAuditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action;
+}
+
+/**
+ * Short display value for a changed field.
+ */
+function formatAuditValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Sí" : "No";
+  if (typeof value === "number") return value.toLocaleString();
+  if (typeof value === "string") {
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) return formatDate(value);
+    return value.length > 60 ? `${value.slice(0, 57)}...` : value;
+  }
+  if (Array.isArray(value)) return `${value.length} elemento(s)`;
+  return JSON.stringify(value);
+}
+
+/**
+ * One line per changed field, e.g. "Cliente: Ana → Ana María".
+ * @param changes - AuditEvent.changes ({ field: { before, after } })
+ */
+export function formatAuditChanges(
+  changes: Record<string, { before: unknown; after: unknown }> | null
+): string[] {
+  if (!changes) return [];
+  return Object.entries(changes).map(([field, change]) => {
+    const label = AUDIT_FIELD_LABELS[field] ?? field;
+    return `${label}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`;
+  });
+}
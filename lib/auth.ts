@@ -46,11 +46,11 @@ function getSessionSecret(): string {
 }
 
 /**
- * Creates an HMAC signature for session data.
+ * Creates an HMAC signature for session data (also used for check-in tokens, with their own prefix).
  * @param data - The data to sign.
  * @returns The HMAC signature.
  */
-function createSignature(data: string): string {
+export function createSignature(data: string): string {
   return createHmac("sha256", getSessionSecret()).update(data).digest("hex");
 }
 
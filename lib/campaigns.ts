@@ -0,0 +1,420 @@
+import type { Campaign, CampaignRecipient, Prisma } from "@prisma/client";
+import { db } from "./db";
+import {
+  describeWhatsAppContent,
+  normalizePhone,
+  toWhatsAppContent,
+  WhatsAppApiError,
+  type WhatsAppOutboundContent,
+} from "./whatsapp";
+import { sendAndRecordWhatsApp } from "./whatsappInbox";
+import type { CampaignAudience, CreateCampaignInput, WhatsAppMessageType } from "./validation";
+
+/** WhatsAppMessageLog.kind for campaign messages. */
+export const CAMPAIGN_MESSAGE_KIND = "campaign";
+
+/** Recipients sent per queue run (keeps each cron request well under the function timeout). */
+export const CAMPAIGN_CHUNK_SIZE = 50;
+
+/** Send attempts per recipient before it is marked failed. */
+export const CAMPAIGN_MAX_ATTEMPTS = 3;
+
+/** Delay between sends to avoid the Cloud API rate limit (ms). */
+const THROTTLE_MS = 150;
+
+/** Recipients left in "sending" longer than this (crashed run) are returned to the queue (ms). */
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+/** Base retry delay after a transient failure; doubles per attempt (ms). */
+const RETRY_BASE_MS = 5 * 60 * 1000;
+
+/** Meta error codes worth retrying: rate limits, throttling and temporary outages. */
+const TRANSIENT_ERROR_CODES = new Set([1, 2, 4, 80007, 130429, 131000, 131016, 131048, 131056, 133004]);
+
+/** Delivery status order; webhook updates never move a recipient backwards. */
+const DELIVERY_RANK: Record<string, number> = { sent: 1, delivered: 2, read: 3 };
+
+/** Content fields stored in Campaign.content. */
+type CampaignContent = Pick<CreateCampaignInput, "message" | "template" | "mediaUrl" | "caption" | "filename">;
+
+/** Recipient counts per status (sent includes delivered and read; delivered includes read). */
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  cancelled: number;
+}
+
+/** Campaign for the dashboard list/detail. */
+export interface CampaignDTO {
+  id: string;
+  name: string;
+  status: string;
+  audience: CampaignAudience;
+  messageType: string;
+  preview: string;
+  createdBy: string;
+  totalRecipients: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  stats: CampaignStats;
+}
+
+/** Result of a queue run. */
+export interface CampaignQueueRunResult {
+  processed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+  completedCampaigns: number;
+}
+
+/** Audience recipient before it is stored. */
+interface AudienceRecipient {
+  phone: string;
+  customerName: string | null;
+  batchId: string;
+}
+
+/**
+ * Builds the sale filter for an audience. Voided lines and lines without phone are excluded.
+ * @param audience - Audience filters
+ * @param scope - Extra filter (e.g. supervisor scope)
+ */
+function buildAudienceWhere(
+  audience: CampaignAudience,
+  scope: { supervisor?: string } = {}
+): Prisma.SaleWhereInput {
+  const fechaVisita: Prisma.DateTimeFilter = {};
+  if (audience.fechaVisitaFrom) fechaVisita.gte = new Date(`${audience.fechaVisitaFrom}T00:00:00.000Z`);
+  if (audience.fechaVisitaTo) fechaVisita.lte = new Date(`${audience.fechaVisitaTo}T23:59:59.999Z`);
+  return {
+    voidedAt: null,
+    customerPhone: { not: null },
+    ...scope,
+    ...(audience.tourId ? { tourId: audience.tourId } : {}),
+    ...(audience.fechaVisitaFrom || audience.fechaVisitaTo ? { fechaVisita } : {}),
+    ...(audience.provincia ? { provincia: audience.provincia } : {}),
+    ...(audience.paymentStatus ? { isPaid: audience.paymentStatus === "paid" } : {}),
+  };
+}
+
+/**
+ * Resolves an audience to distinct normalized phones (newest booking wins for name and batch).
+ * @param audience - Audience filters
+ * @param scope - Extra filter (e.g. supervisor scope)
+ */
+export async function resolveCampaignAudience(
+  audience: CampaignAudience,
+  scope: { supervisor?: string } = {}
+): Promise<AudienceRecipient[]> {
+  const sales = await db.sale.findMany({
+    where: buildAudienceWhere(audience, scope),
+    select: { customerPhone: true, customerName: true, batchId: true },
+    orderBy: { createdAt: "desc" },
+  });
+  const byPhone = new Map<string, AudienceRecipient>();
+  for (const sale of sales) {
+    const phone = normalizePhone(sale.customerPhone ?? "");
+    if (!phone || byPhone.has(phone)) continue;
+    byPhone.set(phone, { phone, customerName: sale.customerName, batchId: sale.batchId });
+  }
+  return Array.from(byPhone.values());
+}
+
+/**
+ * Creates a campaign and its recipient rows. Sending starts on the next queue run.
+ * @param input - Validated CreateCampaignSchema data
+ * @param createdBy - Supervisor name or role of the creator
+ * @param scope - Supervisor scope applied to the audience
+ * @returns The campaign, or null when the audience has no phones
+ */
+export async function createCampaign(
+  input: CreateCampaignInput,
+  createdBy: string,
+  scope: { supervisor?: string } = {}
+): Promise<Campaign | null> {
+  const recipients = await resolveCampaignAudience(input.audience, scope);
+  if (recipients.length === 0) return null;
+
+  const content: CampaignContent = {
+    message: input.message,
+    template: input.template,
+    mediaUrl: input.mediaUrl,
+    caption: input.caption,
+    filename: input.filename,
+  };
+  return db.$transaction(async (tx) => {
+    const campaign = await tx.campaign.create({
+      data: {
+        name: input.name,
+        audience: { ...input.audience, ...scope },
+        messageType: input.type,
+        content: content as Prisma.InputJsonValue,
+        createdBy,
+        totalRecipients: recipients.length,
+      },
+    });
+    await tx.campaignRecipient.createMany({
+      data: recipients.map((r) => ({ campaignId: campaign.id, ...r })),
+    });
+    return campaign;
+  });
+}
+
+/**
+ * Outbound content of a campaign.
+ */
+function getCampaignContent(campaign: Pick<Campaign, "messageType" | "content">): WhatsAppOutboundContent {
+  const content = (campaign.content ?? {}) as CampaignContent;
+  return toWhatsAppContent({ type: campaign.messageType as WhatsAppMessageType, ...content });
+}
+
+/**
+ * True when a send error is worth retrying (rate limits, network errors, Meta 5xx).
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof WhatsAppApiError) {
+    if (error.status != null && (error.status === 429 || error.status >= 500)) return true;
+    return error.code != null && TRANSIENT_ERROR_CODES.has(error.code);
+  }
+  // Network errors are transient; an invalid phone never succeeds
+  return !(error instanceof Error && error.message === "Invalid recipient phone");
+}
+
+/**
+ * Sends the next chunk of due recipients across queued/sending campaigns.
+ * Recipients are claimed (pending → sending) before sending so overlapping runs never double-send.
+ * Transient failures are retried with backoff up to CAMPAIGN_MAX_ATTEMPTS; campaigns with no
+ * pending recipients left are marked completed.
+ * @param now - Reference time (default now)
+ * @param limit - Max recipients this run (default CAMPAIGN_CHUNK_SIZE)
+ */
+export async function processCampaignQueue(
+  now: Date = new Date(),
+  limit = CAMPAIGN_CHUNK_SIZE
+): Promise<CampaignQueueRunResult> {
+  const result: CampaignQueueRunResult = { processed: 0, sent: 0, retried: 0, failed: 0, completedCampaigns: 0 };
+
+  await db.campaignRecipient.updateMany({
+    where: { status: "sending", updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+    data: { status: "pending" },
+  });
+
+  const due = await db.campaignRecipient.findMany({
+    where: {
+      status: "pending",
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      campaign: { status: { in: ["queued", "sending"] } },
+    },
+    include: { campaign: true },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  const startedCampaignIds = new Set<string>();
+  for (const [index, recipient] of due.entries()) {
+    const claimed = await db.campaignRecipient.updateMany({
+      where: { id: recipient.id, status: "pending" },
+      data: { status: "sending", attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) continue;
+    result.processed++;
+
+    const { campaign } = recipient;
+    if (campaign.status === "queued" && !startedCampaignIds.has(campaign.id)) {
+      startedCampaignIds.add(campaign.id);
+      await db.campaign.updateMany({
+        where: { id: campaign.id, status: "queued" },
+        data: { status: "sending", startedAt: now },
+      });
+    }
+
+    const attempts = recipient.attempts + 1;
+    const audience = campaign.audience as CampaignAudience;
+    try {
+      const log = await sendAndRecordWhatsApp(recipient.phone, getCampaignContent(campaign), {
+        batchId: recipient.batchId,
+        tourId: audience.tourId ?? null,
+        kind: CAMPAIGN_MESSAGE_KIND,
+      });
+      await db.campaignRecipient.update({
+        where: { id: recipient.id },
+        data: { status: "sent", externalId: log.externalId, sentAt: new Date(), errorCode: null, errorMessage: null },
+      });
+      result.sent++;
+    } catch (error) {
+      const retry = isTransientError(error) && attempts < CAMPAIGN_MAX_ATTEMPTS;
+      await db.campaignRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          status: retry ? "pending" : "failed",
+          nextAttemptAt: retry ? new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)) : null,
+          errorCode: error instanceof WhatsAppApiError ? error.code : null,
+          errorMessage: error instanceof Error ? error.message.slice(0, 500) : String(error),
+        },
+      });
+      if (retry) result.retried++;
+      else result.failed++;
+    }
+
+    if (index < due.length - 1) {
+      await new Promise((r) => setTimeout(r, THROTTLE_MS));
+    }
+  }
+
+  // Complete campaigns with nothing left to send (including those emptied by earlier runs)
+  const active = await db.campaign.findMany({
+    where: { status: { in: ["queued", "sending"] } },
+    select: { id: true },
+  });
+  for (const { id } of active) {
+    const remaining = await db.campaignRecipient.count({
+      where: { campaignId: id, status: { in: ["pending", "sending"] } },
+    });
+    if (remaining > 0) continue;
+    await db.campaign.update({ where: { id }, data: { status: "completed", completedAt: now } });
+    result.completedCampaigns++;
+  }
+
+  return result;
+}
+
+/**
+ * Applies a webhook status update to the campaign recipient with that Meta message ID.
+ * Delivered/read only move forward; failed keeps Meta's error code.
+ * @param externalId - Meta message ID
+ * @param status - "sent" | "delivered" | "read" | "failed"
+ * @param at - Status time from the webhook
+ * @param error - First error of a failed status
+ */
+export async function applyCampaignStatusUpdate(
+  externalId: string,
+  status: string,
+  at: Date,
+  error?: { code?: number; message?: string | null }
+): Promise<void> {
+  const recipient = await db.campaignRecipient.findFirst({ where: { externalId } });
+  if (!recipient) return;
+
+  if (status === "failed") {
+    await db.campaignRecipient.update({
+      where: { id: recipient.id },
+      data: { status: "failed", errorCode: error?.code ?? null, errorMessage: error?.message?.slice(0, 500) ?? null },
+    });
+    return;
+  }
+  if ((DELIVERY_RANK[status] ?? 0) <= (DELIVERY_RANK[recipient.status] ?? 0)) return;
+  await db.campaignRecipient.update({
+    where: { id: recipient.id },
+    data: {
+      status,
+      ...(status === "delivered" || status === "read" ? { deliveredAt: recipient.deliveredAt ?? at } : {}),
+      ...(status === "read" ? { readAt: at } : {}),
+    },
+  });
+}
+
+/**
+ * Cancels a campaign: recipients not yet sent are marked cancelled.
+ * @param campaignId - Campaign ID
+ * @returns False when the campaign does not exist or already finished
+ */
+export async function cancelCampaign(campaignId: string): Promise<boolean> {
+  return db.$transaction(async (tx) => {
+    const updated = await tx.campaign.updateMany({
+      where: { id: campaignId, status: { in: ["queued", "sending"] } },
+      data: { status: "cancelled", completedAt: new Date() },
+    });
+    if (updated.count === 0) return false;
+    await tx.campaignRecipient.updateMany({
+      where: { campaignId, status: "pending" },
+      data: { status: "cancelled" },
+    });
+    return true;
+  });
+}
+
+/**
+ * Recipient counts per status for the given campaigns. delivered includes read; sent includes both.
+ * @param campaignIds - Campaign IDs
+ */
+export async function getCampaignStats(campaignIds: string[]): Promise<Map<string, CampaignStats>> {
+  const groups = await db.campaignRecipient.groupBy({
+    by: ["campaignId", "status"],
+    where: { campaignId: { in: campaignIds } },
+    _count: { _all: true },
+  });
+  const stats = new Map<string, CampaignStats>();
+  for (const id of campaignIds) {
+    stats.set(id, { total: 0, pending: 0, sent: 0, delivered: 0, read: 0, failed: 0, cancelled: 0 });
+  }
+  for (const g of groups) {
+    const s = stats.get(g.campaignId);
+    if (!s) continue;
+    const n = g._count._all;
+    s.total += n;
+    if (g.status === "pending" || g.status === "sending") s.pending += n;
+    if (g.status === "failed") s.failed += n;
+    if (g.status === "cancelled") s.cancelled += n;
+    if (g.status === "sent" || g.status === "delivered" || g.status === "read") s.sent += n;
+    if (g.status === "delivered" || g.status === "read") s.delivered += n;
+    if (g.status === "read") s.read += n;
+  }
+  return stats;
+}
+
+/**
+ * Maps a campaign row and its stats to the dashboard DTO.
+ */
+export function toCampaignDTO(campaign: Campaign, stats: CampaignStats): CampaignDTO {
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    status: campaign.status,
+    audience: campaign.audience as CampaignAudience,
+    messageType: campaign.messageType,
+    preview: describeWhatsAppContent(getCampaignContent(campaign)).slice(0, 200),
+    createdBy: campaign.createdBy,
+    totalRecipients: campaign.totalRecipients,
+    startedAt: campaign.startedAt?.toISOString() ?? null,
+    completedAt: campaign.completedAt?.toISOString() ?? null,
+    createdAt: campaign.createdAt.toISOString(),
+    stats,
+  };
+}
+
+/**
+ * Lists campaigns (newest first) with stats.
+ * @param where - Optional filter (e.g. { createdBy } for supervisors)
+ * @param limit - Max campaigns (default 20)
+ */
+export async function listCampaigns(where: { createdBy?: string } = {}, limit = 20): Promise<CampaignDTO[]> {
+  const campaigns = await db.campaign.findMany({ where, orderBy: { createdAt: "desc" }, take: limit });
+  const stats = await getCampaignStats(campaigns.map((c) => c.id));
+  return campaigns.map((c) => toCampaignDTO(c, stats.get(c.id)!));
+}
+
+/**
+ * Campaign detail with stats and its recipients (grouped by status, max 500).
+ * @param campaignId - Campaign ID
+ */
+export async function getCampaignDetail(
+  campaignId: string
+): Promise<{ campaign: CampaignDTO; recipients: CampaignRecipient[] } | null> {
+  const campaign = await db.campaign.findUnique({ where: { id: campaignId } });
+  if (!campaign) return null;
+  const [stats, recipients] = await Promise.all([
+    getCampaignStats([campaignId]),
+    db.campaignRecipient.findMany({
+      where: { campaignId },
+      orderBy: [{ status: "asc" }, { createdAt: "asc" }],
+      take: 500,
+    }),
+  ]);
+  return { campaign: toCampaignDTO(campaign, stats.get(campaignId)!), recipients };
+}
@@ -0,0 +1,55 @@
+/**
+ * Cancellation policy tiers (Tour.cancellationPolicy) and their refund percentages.
+ * Client-safe: no database access (tour form, invoice cancel dialog, credit note).
+ */
+
+import { CancellationPolicySchema, type CancellationTier } from "./validation";
+
+/** Policy of tours without their own: 100% at 8+ days before the tour, 50% at 2–7 days, nothing after. */
+export const DEFAULT_CANCELLATION_POLICY: CancellationTier[] = [
+  { minDaysBefore: 8, refundPercent: 100 },
+  { minDaysBefore: 2, refundPercent: 50 },
+];
+
+/**
+ * Credit note number as printed (NC-000001).
+ */
+export function formatCreditNoteNumber(number: number): string {
+  return `NC-${String(number).padStart(6, "0")}`;
+}
+
+/**
+ * Tour's cancellation policy, best tier first. Missing or invalid policies fall back to the default.
+ * @param value - Tour.cancellationPolicy
+ */
+export function parseCancellationPolicy(value: unknown): CancellationTier[] {
+  const parsed = CancellationPolicySchema.safeParse(value);
+  const tiers = parsed.success && parsed.data.length > 0 ? parsed.data : DEFAULT_CANCELLATION_POLICY;
+  return [...tiers].sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+}
+
+/**
+ * Refund percentage for a cancellation daysBefore days before the tour (0 when no tier applies).
+ * @param policy - Tiers, best first
+ */
+export function getRefundPercent(policy: CancellationTier[], daysBefore: number): number {
+  return policy.find((t) => daysBefore >= t.minDaysBefore)?.refundPercent ?? 0;
+}
+
+/**
+ * Human-readable tiers for the dashboard and the credit note (e.g. "8 días o más antes: 100%").
+ * @param policy - Tiers, best first
+ */
+export function describeCancellationPolicy(policy: CancellationTier[]): string[] {
+  const lines = policy.map((t) =>
+    t.minDaysBefore === 0
+      ? `Hasta el día del tour: ${t.refundPercent}%`
+      : `${t.minDaysBefore} ${t.minDaysBefore === 1 ? "día" : "días"} o más antes: ${t.refundPercent}%`
+  );
+  const lowest = policy[policy.length - 1];
+  if (lowest && lowest.minDaysBefore > 0) {
+    lines.push(`Menos de ${lowest.minDaysBefore} ${lowest.minDaysBefore === 1 ? "día" : "días"}: 0%`);
+  }
+  return lines;
+}
+
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { computeQuote, type CancellableSale } from "./cancellations";
+
+const NOW = new Date("2026-03-01T10:00:00.000Z");
+const POLICY = [
+  { minDaysBefore: 7, refundPercent: 100 },
+  { minDaysBefore: 2, refundPercent: 50 },
+];
+
+function makeSale(overrides: Partial<CancellableSale> = {}): CancellableSale {
+  return {
+    id: "sale-1",
+    batchId: "batch-1",
+    tourId: "tour-1",
+    quantity: 2,
+    total: 2000,
+    discount: 0,
+    abono: 1000,
+    currency: "RD$",
+    passengerType: "adult",
+    fechaVisita: new Date("2026-03-04T00:00:00.000Z"),
+    personasAdditional: [{ type: "adult", name: "Ana" }],
+    tour: { name: "Isla Saona", cancellationPolicy: POLICY },
+    ...overrides,
+  } as CancellableSale;
+}
+
+describe("computeQuote", () => {
+  it("refunds the policy share of the abonos when the whole booking is cancelled", () => {
+    const quote = computeQuote([makeSale()], undefined, NOW);
+    expect(quote).toMatchObject({
+      scope: "batch",
+      daysBefore: 3,
+      seatsReleased: 2,
+      creditAmount: 2000,
+      paidAmount: 1000,
+      refundPercent: 50,
+      amount: 500,
+      retainedAmount: 500,
+      remainingTotal: 0,
+      remainingPending: 0,
+    });
+  });
+
+  it("refunds everything paid when cancelled early enough", () => {
+    const quote = computeQuote([makeSale({ fechaVisita: new Date("2026-03-11T00:00:00.000Z") })], undefined, NOW);
+    expect(quote).toMatchObject({ daysBefore: 10, refundPercent: 100, amount: 1000, retainedAmount: 0 });
+  });
+
+  it("credits one seat less the retained fee when one passenger is cancelled", () => {
+    const quote = computeQuote([makeSale()], 1, NOW);
+    expect(quote).toMatchObject({
+      scope: "passenger",
+      passengerName: "Ana",
+      seatsReleased: 1,
+      paidAmount: 500,
+      amount: 250,
+      retainedAmount: 250,
+      // Seat price 1000 less the 250 fee that stays charged
+      creditAmount: 750,
+      remainingTotal: 1250,
+      remainingPending: 500,
+    });
+  });
+
+  it("rejects cancelling a passenger of a single-seat booking or one that does not exist", () => {
+    expect(() => computeQuote([makeSale({ quantity: 1, total: 1000 })], 1, NOW)).toThrow(/un solo cupo/);
+    expect(() => computeQuote([makeSale()], 3, NOW)).toThrow(/Pasajero no encontrado/);
+  });
+});
@@ -0,0 +1,639 @@
+import type { Prisma, Refund, RemovedPassenger } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import { applySeatDelta, toDepartureDate } from "./departures";
+import { resolveCashCollector, syncBatchPaymentTotals } from "./payments";
+import { recordAuditEvent, type AuditActor } from "./audit";
+import { offerReleasedSeats } from "./waitlist";
+import { formatCreditNoteNumber, getRefundPercent, parseCancellationPolicy } from "./cancellationPolicy";
+import type { CancelBookingInput, CancellationTier, PersonaAdditional, RemovePassengerInput } from "./validation";
+import { DAY_MS } from "./dates";
+
+/** Refund owed on one invoice line. */
+export interface CancellationLineQuote {
+  saleId: string;
+  tourId: string;
+  tourName: string;
+  seats: number;
+  creditAmount: number;
+  paidAmount: number;
+  refundPercent: number;
+  amount: number;
+}
+
+/** What a cancellation would release and refund, and the invoice balance left afterwards. */
+export interface CancellationQuote {
+  scope: "batch" | "passenger";
+  passengerIndex: number | null;
+  passengerName: string | null;
+  daysBefore: number;
+  seatsReleased: number;
+  /** Amount removed from the invoice total (the cancellation fee stays on the invoice for one passenger). */
+  creditAmount: number;
+  /** Abonos attributable to the cancelled seats. */
+  paidAmount: number;
+  refundPercent: number;
+  /** Refund owed to the customer. */
+  amount: number;
+  /** Cancellation fee kept (paidAmount - amount). */
+  retainedAmount: number;
+  currency: string;
+  remainingTotal: number;
+  remainingPending: number;
+  /** Tiers of the first line's tour, best first. */
+  policy: CancellationTier[];
+  lines: CancellationLineQuote[];
+}
+
+/** Refund as listed on the invoice. */
+export interface RefundDTO {
+  id: string;
+  creditNoteNumber: string;
+  scope: string;
+  passengerName: string | null;
+  seatsReleased: number;
+  creditAmount: number;
+  paidAmount: number;
+  refundPercent: number;
+  daysBefore: number;
+  amount: number;
+  retainedAmount: number;
+  currency: string;
+  method: string | null;
+  reason: string | null;
+  recordedBy: string;
+  createdAt: string;
+}
+
+/** Seat a removed passenger leaves on one tour of the batch. */
+export interface PassengerRemovalLine {
+  saleId: string;
+  tourId: string;
+  tourName: string;
+  /** Unit price of the line, taken off its total. */
+  seatPrice: number;
+}
+
+/** What removing a passenger (without refund) takes off the invoice, and the balance left afterwards. */
+export interface PassengerRemovalQuote {
+  passengerIndex: number;
+  passengerName: string;
+  passengerType: "adult" | "kid";
+  seatsReleased: number;
+  amount: number;
+  currency: string;
+  remainingTotal: number;
+  remainingPending: number;
+  lines: PassengerRemovalLine[];
+}
+
+/** Removed passenger as listed on the invoice. */
+export interface RemovedPassengerDTO {
+  id: string;
+  name: string;
+  type: string;
+  dateOfBirth: string | null;
+  cedulaPassport: string | null;
+  phone: string | null;
+  seatsReleased: number;
+  amount: number;
+  /** Credit note number when cancelled under the policy. */
+  creditNoteNumber: string | null;
+  reason: string | null;
+  removedBy: string;
+  createdAt: string;
+}
+
+/** Invoice line with what the quote needs from its tour. */
+export type CancellableSale = Prisma.SaleGetPayload<{
+  include: { tour: { select: { name: true; cancellationPolicy: true } } };
+}>;
+
+/** Tour fields loaded with each line. */
+const CANCELLABLE_TOUR_SELECT = { name: true, cancellationPolicy: true } as const;
+
+/**
+ * Whole days from now to the tour date (negative once the tour has passed; 0 without a date).
+ * @param fechaVisita - Tour date of the booking
+ * @param now - Reference time (default now)
+ */
+export function daysBeforeTour(fechaVisita: Date | null, now: Date = new Date()): number {
+  if (!fechaVisita) return 0;
+  return Math.round((toDepartureDate(fechaVisita).getTime() - toDepartureDate(now).getTime()) / DAY_MS);
+}
+
+/**
+ * Additional passengers stored on a line.
+ */
+function getPersonas(sale: { personasAdditional: unknown }): PersonaAdditional[] {
+  return Array.isArray(sale.personasAdditional) ? (sale.personasAdditional as PersonaAdditional[]) : [];
+}
+
+/**
+ * Additional passenger n of the batch (n = personasAdditional[n - 1]).
+ * @throws DomainError 404 when there is no such passenger
+ */
+function getPassenger(sales: CancellableSale[], passengerIndex: number): PersonaAdditional {
+  const passenger = getPersonas(sales[0])[passengerIndex - 1];
+  if (!passenger) throw new DomainError("Pasajero no encontrado", 404);
+  return passenger;
+}
+
+/**
+ * Lines holding a passenger's seat: on each tour of the batch with more than one seat, the line of the
+ * passenger's type (adult or kid), else the line with the most seats.
+ * @throws DomainError when no tour has a seat besides the lead customer's
+ */
+function findPassengerLines(sales: CancellableSale[], passenger: PersonaAdditional): PassengerRemovalLine[] {
+  const byTour = new Map<string, CancellableSale[]>();
+  for (const sale of sales) {
+    byTour.set(sale.tourId, [...(byTour.get(sale.tourId) ?? []), sale]);
+  }
+  const unitPrice = (s: CancellableSale) => Math.round(s.total / s.quantity);
+
+  const lines: PassengerRemovalLine[] = [];
+  for (const tourSales of byTour.values()) {
+    // Lines left without seats only hold a retained cancellation fee
+    const tourLines = tourSales.filter((s) => s.quantity > 0);
+    if (tourLines.reduce((sum, s) => sum + s.quantity, 0) <= 1) continue;
+    const sale =
+      tourLines.find((s) => s.passengerType === passenger.type) ??
+      [...tourLines].sort((a, b) => b.quantity - a.quantity)[0];
+    lines.push({ saleId: sale.id, tourId: sale.tourId, tourName: sale.tour.name, seatPrice: unitPrice(sale) });
+  }
+  if (lines.length === 0) {
+    throw new DomainError("La reserva tiene un solo cupo por tour; cancele la reserva completa");
+  }
+  return lines;
+}
+
+/**
+ * Computes the refund of cancelling the batch or one additional passenger.
+ * Abonos are taken from each line's abono: the whole line for the batch, a per-seat share for one passenger
+ * (who gives up one seat on each tour, on the line of their adult/kid price). Each line uses its own tour's policy.
+ * @param sales - Non-voided lines of the batch, oldest first
+ * @param passengerIndex - Passenger to cancel (n = personasAdditional[n - 1]); undefined for the whole batch
+ * @param now - Reference time
+ * @throws DomainError when the passenger does not exist or the booking has a single seat
+ */
+export function computeQuote(sales: CancellableSale[], passengerIndex: number | undefined, now: Date): CancellationQuote {
+  const first = sales[0];
+  const daysBefore = daysBeforeTour(first.fechaVisita, now);
+  const batchTotal = sales.reduce((sum, s) => sum + s.total, 0);
+  const batchPaid = sales.reduce((sum, s) => sum + (s.abono ?? 0), 0);
+
+  let passengerName: string | null = null;
+  let lines: CancellationLineQuote[];
+  if (passengerIndex === undefined) {
+    lines = sales.map((s) => {
+      const refundPercent = getRefundPercent(parseCancellationPolicy(s.tour.cancellationPolicy), daysBefore);
+      const paidAmount = s.abono ?? 0;
+      return {
+        saleId: s.id,
+        tourId: s.tourId,
+        tourName: s.tour.name,
+        seats: s.quantity,
+        creditAmount: s.total,
+        paidAmount,
+        refundPercent,
+        amount: Math.round((paidAmount * refundPercent) / 100),
+      };
+    });
+  } else {
+    const passenger = getPassenger(sales, passengerIndex);
+    passengerName = passenger.name;
+    lines = findPassengerLines(sales, passenger).map(({ saleId, seatPrice }) => {
+      const s = sales.find((sale) => sale.id === saleId)!;
+      const refundPercent = getRefundPercent(parseCancellationPolicy(s.tour.cancellationPolicy), daysBefore);
+      const paidAmount = Math.min(seatPrice, Math.round((s.abono ?? 0) / s.quantity));
+      const amount = Math.round((paidAmount * refundPercent) / 100);
+      return {
+        saleId: s.id,
+        tourId: s.tourId,
+        tourName: s.tour.name,
+        seats: 1,
+        // The retained fee keeps being charged on the invoice
+        creditAmount: seatPrice - (paidAmount - amount),
+        paidAmount,
+        refundPercent,
+        amount,
+      };
+    });
+  }
+
+  const seatsReleased = lines.reduce((sum, l) => sum + l.seats, 0);
+  const creditAmount = lines.reduce((sum, l) => sum + l.creditAmount, 0);
+  const paidAmount = lines.reduce((sum, l) => sum + l.paidAmount, 0);
+  const amount = lines.reduce((sum, l) => sum + l.amount, 0);
+  const refundPercent = paidAmount > 0 ? Math.round((amount / paidAmount) * 100) : lines[0].refundPercent;
+  const isBatch = passengerIndex === undefined;
+  const remainingTotal = isBatch ? 0 : batchTotal - creditAmount;
+  return {
+    scope: isBatch ? "batch" : "passenger",
+    passengerIndex: passengerIndex ?? null,
+    passengerName,
+    daysBefore,
+    seatsReleased,
+    creditAmount,
+    paidAmount,
+    refundPercent,
+    amount,
+    retainedAmount: paidAmount - amount,
+    currency: first.currency,
+    remainingTotal,
+    remainingPending: isBatch ? 0 : Math.max(0, remainingTotal - (batchPaid - amount)),
+    policy: parseCancellationPolicy(first.tour.cancellationPolicy),
+    lines,
+  };
+}
+
+/**
+ * Loads the non-voided lines of a batch for a cancellation.
+ * @throws DomainError 404 when the batch does not exist, 409 when it is already voided
+ */
+async function loadCancellableSales(
+  tx: DbClient,
+  batchId: string,
+  scope: { supervisor?: string }
+): Promise<CancellableSale[]> {
+  const sales = await tx.sale.findMany({
+    where: { batchId, ...scope },
+    include: { tour: { select: CANCELLABLE_TOUR_SELECT } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (sales.length === 0) throw new DomainError("Reserva no encontrada", 404);
+  const active = sales.filter((s) => !s.voidedAt);
+  if (active.length === 0) throw new DomainError("La reserva ya está anulada", 409);
+  return active;
+}
+
+/**
+ * Takes a passenger off the batch: one seat less on each of their lines, the passenger leaves personasAdditional
+ * and later check-in marks move up one index. Lines are never deleted: a fully credited line is kept with
+ * total 0 (and its promo discount taken off the redemption); otherwise it keeps the retained fee, even with no seats left.
+ * @param lines - Lines holding the passenger's seat, with the amount each one's total drops
+ */
+async function detachPassenger(
+  tx: DbClient,
+  batchId: string,
+  sales: CancellableSale[],
+  passengerIndex: number,
+  lines: { saleId: string; creditAmount: number }[]
+): Promise<void> {
+  for (const sale of sales) {
+    const personas = getPersonas(sale).filter((_, i) => i !== passengerIndex - 1);
+    await tx.sale.update({ where: { id: sale.id }, data: { personasAdditional: personas } });
+  }
+  for (const line of lines) {
+    const sale = sales.find((s) => s.id === line.saleId)!;
+    await applySeatDelta(tx, sale, -1);
+    const fullyCredited = line.creditAmount === sale.total;
+    await tx.sale.update({
+      where: { id: sale.id },
+      data: {
+        quantity: sale.quantity - 1,
+        total: sale.total - line.creditAmount,
+        // A fully credited line stays in the batch (refund and commission history point to it) with nothing owed
+        ...(fullyCredited ? { discount: 0 } : {}),
+      },
+    });
+    if (fullyCredited && sale.discount > 0) {
+      await tx.promoRedemption.updateMany({
+        where: { batchId },
+        data: { amount: { decrement: sale.discount } },
+      });
+    }
+  }
+  // Check-in marks are keyed by passenger index: drop the passenger's, move later ones up (in order, unique key)
+  await tx.passengerCheckIn.deleteMany({ where: { batchId, passengerIndex } });
+  const later = await tx.passengerCheckIn.findMany({
+    where: { batchId, passengerIndex: { gt: passengerIndex } },
+    orderBy: { passengerIndex: "asc" },
+  });
+  for (const mark of later) {
+    await tx.passengerCheckIn.update({
+      where: { id: mark.id },
+      data: { passengerIndex: mark.passengerIndex - 1 },
+    });
+  }
+}
+
+/**
+ * Keeps a passenger taken off the batch in its removed-passenger history.
+ */
+async function recordRemovedPassenger(
+  tx: DbClient,
+  actor: AuditActor,
+  batchId: string,
+  passengerIndex: number,
+  passenger: PersonaAdditional,
+  data: { seatsReleased: number; amount: number; refundId: string | null; reason: string | null }
+): Promise<RemovedPassenger> {
+  return tx.removedPassenger.create({
+    data: {
+      batchId,
+      passengerIndex,
+      type: passenger.type,
+      name: passenger.name,
+      dateOfBirth: passenger.dateOfBirth || null,
+      cedulaPassport: passenger.cedulaPassport || null,
+      phone: passenger.phone || null,
+      ...data,
+      removedBy: actor.name ?? "sistema",
+      removedByRole: actor.role,
+    },
+  });
+}
+
+/**
+ * Previews the refund of cancelling the batch or one additional passenger, without changing anything.
+ * @param batchId - Invoice batch ID
+ * @param passengerIndex - Passenger to cancel (n = personasAdditional[n - 1]); undefined for the whole batch
+ * @param scope - Supervisor scope (only their bookings)
+ */
+export async function quoteCancellation(
+  batchId: string,
+  passengerIndex: number | undefined,
+  scope: { supervisor?: string } = {}
+): Promise<CancellationQuote> {
+  const sales = await loadCancellableSales(db, batchId, scope);
+  return computeQuote(sales, passengerIndex, new Date());
+}
+
+/**
+ * Cancels a booking under its tours' cancellation policy and records the refund (credit note).
+ * Whole batch: every line is voided and its seats released. One passenger: one seat is released on each tour
+ * (on the line of their adult/kid price), the line total drops by the credited amount, the passenger leaves
+ * personasAdditional for the removed-passenger history and later check-in marks move up one index.
+ * The refund no longer counts as paid on the batch.
+ * Audited as invoice.cancel; released seats are then offered to the waitlist.
+ * @param batchId - Invoice batch ID
+ * @param input - Validated CancelBookingSchema input
+ * @param actor - Who cancelled
+ * @param scope - Supervisor scope (only their bookings)
+ * @throws DomainError when the booking or passenger cannot be cancelled
+ */
+export async function cancelBooking(
+  batchId: string,
+  input: CancelBookingInput,
+  actor: AuditActor,
+  scope: { supervisor?: string } = {}
+): Promise<Refund> {
+  const now = new Date();
+  const { refund, quote, fechaVisita } = await db.$transaction(async (tx) => {
+    const sales = await loadCancellableSales(tx, batchId, scope);
+    const quote = computeQuote(sales, input.passengerIndex, now);
+    const reason = input.reason?.trim() || null;
+
+    if (quote.scope === "batch") {
+      const voidReason = reason ?? `Cancelación: reembolso ${quote.refundPercent}% según política`;
+      for (const sale of sales) {
+        await applySeatDelta(tx, sale, -sale.quantity);
+        await tx.sale.update({ where: { id: sale.id }, data: { voidedAt: now, voidReason } });
+      }
+    } else {
+      await detachPassenger(tx, batchId, sales, quote.passengerIndex!, quote.lines);
+    }
+
+    const refund = await tx.refund.create({
+      data: {
+        batchId,
+        scope: quote.scope,
+        passengerIndex: quote.passengerIndex,
+        passengerName: quote.passengerName,
+        seatsReleased: quote.seatsReleased,
+        creditAmount: quote.creditAmount,
+        paidAmount: quote.paidAmount,
+        refundPercent: quote.refundPercent,
+        daysBefore: quote.daysBefore,
+        amount: quote.amount,
+        retainedAmount: quote.retainedAmount,
+        currency: quote.currency,
+        method: quote.amount > 0 ? (input.method ?? "cash") : null,
+        reason,
+        recordedBy: actor.name ?? "sistema",
+        recordedByRole: actor.role,
+        // A cash refund is paid out of the collector's cash (cash closing)
+        ...(await resolveCashCollector(tx, batchId, {
+          recordedBy: actor.name ?? "sistema",
+          recordedByRole: actor.role,
+          userId: actor.userId,
+        })),
+      },
+    });
+    if (quote.scope === "passenger") {
+      await recordRemovedPassenger(tx, actor, batchId, quote.passengerIndex!, getPassenger(sales, quote.passengerIndex!), {
+        seatsReleased: quote.seatsReleased,
+        amount: quote.creditAmount,
+        refundId: refund.id,
+        reason,
+      });
+    }
+    await syncBatchPaymentTotals(tx, batchId);
+
+    await recordAuditEvent(tx, actor, {
+      action: "invoice.cancel",
+      entityType: "invoice",
+      entityId: batchId,
+      changes:
+        quote.scope === "batch"
+          ? { voidedAt: { before: null, after: now.toISOString() } }
+          : { passenger: { before: quote.passengerName, after: null } },
+      metadata: {
+        creditNote: formatCreditNoteNumber(refund.number),
+        scope: quote.scope,
+        seatsReleased: quote.seatsReleased,
+        creditAmount: quote.creditAmount,
+        paidAmount: quote.paidAmount,
+        refundPercent: quote.refundPercent,
+        refundAmount: quote.amount,
+        retainedAmount: quote.retainedAmount,
+        daysBefore: quote.daysBefore,
+        reason,
+      },
+    });
+    return { refund, quote, fechaVisita: sales[0].fechaVisita };
+  });
+
+  for (const tourId of new Set(quote.lines.map((l) => l.tourId))) {
+    await offerReleasedSeats(tourId, fechaVisita);
+  }
+  return refund;
+}
+
+/**
+ * Maps a refund row to the invoice DTO.
+ */
+export function toRefundDTO(refund: Refund): RefundDTO {
+  return {
+    id: refund.id,
+    creditNoteNumber: formatCreditNoteNumber(refund.number),
+    scope: refund.scope,
+    passengerName: refund.passengerName,
+    seatsReleased: refund.seatsReleased,
+    creditAmount: refund.creditAmount,
+    paidAmount: refund.paidAmount,
+    refundPercent: refund.refundPercent,
+    daysBefore: refund.daysBefore,
+    amount: refund.amount,
+    retainedAmount: refund.retainedAmount,
+    currency: refund.currency,
+    method: refund.method,
+    reason: refund.reason,
+    recordedBy: refund.recordedBy,
+    createdAt: refund.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Refunds (credit notes) of a batch, oldest first.
+ * @param batchId - Invoice batch ID
+ */
+export async function listRefunds(batchId: string): Promise<RefundDTO[]> {
+  const refunds = await db.refund.findMany({ where: { batchId }, orderBy: { createdAt: "asc" } });
+  return refunds.map(toRefundDTO);
+}
+
+/**
+ * Computes what removing a passenger without refund takes off the invoice: the seat price of each of their lines.
+ * @param sales - Non-voided lines of the batch, oldest first
+ * @param passengerIndex - Passenger to remove (n = personasAdditional[n - 1])
+ */
+function computeRemovalQuote(sales: CancellableSale[], passengerIndex: number): PassengerRemovalQuote {
+  const passenger = getPassenger(sales, passengerIndex);
+  const lines = findPassengerLines(sales, passenger);
+  const amount = lines.reduce((sum, l) => sum + l.seatPrice, 0);
+  const remainingTotal = sales.reduce((sum, s) => sum + s.total, 0) - amount;
+  const paid = sales.reduce((sum, s) => sum + (s.abono ?? 0), 0);
+  return {
+    passengerIndex,
+    passengerName: passenger.name,
+    passengerType: passenger.type,
+    seatsReleased: lines.length,
+    amount,
+    currency: sales[0].currency,
+    remainingTotal,
+    remainingPending: Math.max(0, remainingTotal - paid),
+    lines,
+  };
+}
+
+/**
+ * Invoices with a comprobante fiscal keep their reported amounts: passengers leave them through a credit note.
+ * @throws DomainError 409 when the batch has an NCF
+ */
+async function assertNoFiscalInvoice(tx: DbClient, batchId: string): Promise<void> {
+  const fiscal = await tx.fiscalInvoice.findUnique({ where: { batchId }, select: { ncf: true } });
+  if (fiscal) {
+    throw new DomainError(
+      `La factura ya tiene comprobante fiscal (${fiscal.ncf}); cancele al pasajero con nota de crédito`,
+      409
+    );
+  }
+}
+
+/**
+ * Previews removing one additional passenger, without changing anything.
+ * @param batchId - Invoice batch ID
+ * @param passengerIndex - Passenger to remove (n = personasAdditional[n - 1])
+ * @param scope - Supervisor scope (only their bookings)
+ */
+export async function quotePassengerRemoval(
+  batchId: string,
+  passengerIndex: number,
+  scope: { supervisor?: string } = {}
+): Promise<PassengerRemovalQuote> {
+  const sales = await loadCancellableSales(db, batchId, scope);
+  await assertNoFiscalInvoice(db, batchId);
+  return computeRemovalQuote(sales, passengerIndex);
+}
+
+/**
+ * Removes one additional passenger from a booking without refund (e.g. a family of five becomes four):
+ * on each tour one seat of the passenger's adult/kid price is released and taken off the line total,
+ * pendiente is recomputed from the batch's payments and the passenger is kept in the removed-passenger history.
+ * Audited as invoice.remove_passenger; the released seats are then offered to the waitlist.
+ * @param batchId - Invoice batch ID
+ * @param input - Validated RemovePassengerSchema input
+ * @param actor - Who removed the passenger
+ * @param scope - Supervisor scope (only their bookings)
+ * @throws DomainError when the passenger cannot be removed
+ */
+export async function removePassenger(
+  batchId: string,
+  input: RemovePassengerInput,
+  actor: AuditActor,
+  scope: { supervisor?: string } = {}
+): Promise<RemovedPassenger> {
+  const { removed, quote, fechaVisita } = await db.$transaction(async (tx) => {
+    const sales = await loadCancellableSales(tx, batchId, scope);
+    await assertNoFiscalInvoice(tx, batchId);
+    const quote = computeRemovalQuote(sales, input.passengerIndex);
+    const reason = input.reason?.trim() || null;
+
+    await detachPassenger(
+      tx,
+      batchId,
+      sales,
+      input.passengerIndex,
+      quote.lines.map((l) => ({ saleId: l.saleId, creditAmount: l.seatPrice }))
+    );
+    const removed = await recordRemovedPassenger(
+      tx,
+      actor,
+      batchId,
+      input.passengerIndex,
+      getPassenger(sales, input.passengerIndex),
+      { seatsReleased: quote.seatsReleased, amount: quote.amount, refundId: null, reason }
+    );
+    await syncBatchPaymentTotals(tx, batchId);
+
+    await recordAuditEvent(tx, actor, {
+      action: "invoice.remove_passenger",
+      entityType: "invoice",
+      entityId: batchId,
+      changes: {
+        passenger: { before: quote.passengerName, after: null },
+        total: { before: quote.remainingTotal + quote.amount, after: quote.remainingTotal },
+      },
+      metadata: {
+        passengerType: quote.passengerType,
+        seatsReleased: quote.seatsReleased,
+        amount: quote.amount,
+        reason,
+      },
+    });
+    return { removed, quote, fechaVisita: sales[0].fechaVisita };
+  });
+
+  for (const tourId of new Set(quote.lines.map((l) => l.tourId))) {
+    await offerReleasedSeats(tourId, fechaVisita);
+  }
+  return removed;
+}
+
+/**
+ * Removed passengers of a batch (plain removals and policy cancellations), oldest first.
+ * @param batchId - Invoice batch ID
+ */
+export async function listRemovedPassengers(batchId: string): Promise<RemovedPassengerDTO[]> {
+  const [removed, refunds] = await Promise.all([
+    db.removedPassenger.findMany({ where: { batchId }, orderBy: { createdAt: "asc" } }),
+    db.refund.findMany({ where: { batchId, scope: "passenger" }, select: { id: true, number: true } }),
+  ]);
+  const creditNotes = new Map(refunds.map((r) => [r.id, formatCreditNoteNumber(r.number)]));
+  return removed.map((r) => ({
+    id: r.id,
+    name: r.name,
+    type: r.type,
+    dateOfBirth: r.dateOfBirth,
+    cedulaPassport: r.cedulaPassport,
+    phone: r.phone,
+    seatsReleased: r.seatsReleased,
+    amount: r.amount,
+    creditNoteNumber: r.refundId ? creditNotes.get(r.refundId) ?? null : null,
+    reason: r.reason,
+    removedBy: r.removedBy,
+    createdAt: r.createdAt.toISOString(),
+  }));
+}
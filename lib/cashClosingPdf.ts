@@ -0,0 +1,268 @@
+/**
+ * Cash closing (cierre de caja) summary as PDF, signed at hand-in.
+ * Uses jsPDF (Letter landscape, 0.5" margins), like manifestPdf.
+ */
+
+import { jsPDF } from "jspdf";
+import { formatDate, formatDateTime } from "./formatDate";
+import { formatCurrency, loadLogoBase64 } from "./invoicePdf";
+import { brandConfig } from "./brandConfig";
+import type { CashClosingDetailDTO } from "./cashClosings";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from "./validation";
+
+/** 0.5 inch in points (Letter landscape). */
+const MARGIN = 36;
+const PAGE_W = 792;
+const PAGE_H = 612;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const LOGO_SIZE = 40;
+const ROW_H = 16;
+
+/** Summary columns: header, width (pt). */
+const SUMMARY_COLUMNS: [string, number][] = [
+  ["Método", 110],
+  ["Registrado", 110],
+  ["Contado", 110],
+  ["Diferencia", 110],
+];
+
+/** Per-seller columns: header, width (pt); one amount column per payment method. */
+const SELLER_COLUMNS: [string, number][] = [
+  ["Vendedor", 180],
+  ["Pagos", 60],
+  ...PAYMENT_METHODS.map((method): [string, number] => [PAYMENT_METHOD_LABELS[method], 140]),
+];
+
+/** Payment columns: header, width (pt). */
+const PAYMENT_COLUMNS: [string, number][] = [
+  ["Registrado", 96],
+  ["Factura", 62],
+  ["Cliente", 150],
+  ["Vendedor", 110],
+  ["Método", 80],
+  ["Referencia", 124],
+  ["Monto", 98],
+];
+
+/** Cash refund columns: header, width (pt). */
+const REFUND_COLUMNS: [string, number][] = [
+  ["Reembolsado", 96],
+  ["Factura", 62],
+  ["Nota de crédito", 110],
+  ["Pasajero", 150],
+  ["Monto", 98],
+];
+
+/**
+ * Cuts text to fit a column width, adding an ellipsis.
+ */
+function fitText(doc: jsPDF, text: string, width: number): string {
+  if (doc.getTextWidth(text) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && doc.getTextWidth(`${cut}…`) > width) cut = cut.slice(0, -1);
+  return `${cut}…`;
+}
+
+/**
+ * Signed amount with its currency, e.g. "+RD$ 500" or "-US$ 20".
+ */
+function formatDifference(amount: number, currency: string): string {
+  if (amount === 0) return formatCurrency(0, currency);
+  return `${amount > 0 ? "+" : "-"}${formatCurrency(Math.abs(amount), currency)}`;
+}
+
+/**
+ * Generates the cash closing PDF: header with collector and day, summary per method and currency
+ * (cash to hand in, net of cash refunds, vs counted and the difference), the amounts per seller, the payments
+ * and refunds it locked and signature lines.
+ * @param closing - Closing with its payments
+ * @param logoPath - Optional path to logo (e.g. brandConfig.logoPath) for server-side load.
+ * @returns PDF as Uint8Array.
+ */
+export function generateCashClosingPdf(closing: CashClosingDetailDTO, logoPath?: string): Uint8Array {
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "pt",
+    format: "letter",
+    hotfixes: ["px_scaling"],
+  });
+  let y = MARGIN;
+
+  // Header: logo, brand and title left; day and who closed it right
+  const logoData = logoPath ? loadLogoBase64(logoPath) : null;
+  let textX = MARGIN;
+  if (logoData) {
+    try {
+      doc.addImage(logoData, "PNG", MARGIN, y, LOGO_SIZE, LOGO_SIZE);
+      textX += LOGO_SIZE + 10;
+    } catch {
+      // ignore invalid image
+    }
+  }
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(process.env.NEXT_PUBLIC_BRAND_NAME ?? brandConfig.brandName, textX, y + 10);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(`Cierre de caja #${closing.number}`, textX, y + 26);
+  doc.setFontSize(11);
+  doc.text(fitText(doc, `Cobrador: ${closing.collector}`, CONTENT_W / 2), textX, y + 40);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  const rightLines = [
+    `Día: ${formatDate(closing.date)}`,
+    `Cerrado: ${formatDateTime(closing.createdAt)} por ${closing.closedBy}`,
+    `Pagos: ${closing.paymentCount}`,
+  ];
+  rightLines.forEach((line, i) => {
+    doc.text(line, PAGE_W - MARGIN - doc.getTextWidth(line), y + 10 + i * 14);
+  });
+  y += LOGO_SIZE + 24;
+
+  const drawHeader = (columns: [string, number][]) => {
+    const width = columns.reduce((sum, [, w]) => sum + w, 0);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setFillColor(0.9, 0.92, 0.96);
+    doc.rect(MARGIN, y - 11, width, ROW_H, "F");
+    let x = MARGIN + 3;
+    for (const [label, w] of columns) {
+      doc.text(label, x, y);
+      x += w;
+    }
+    y += ROW_H;
+    doc.setFont("helvetica", "normal");
+  };
+  const drawRow = (columns: [string, number][], cells: string[], boldColumn?: number) => {
+    let x = MARGIN + 3;
+    cells.forEach((cell, c) => {
+      const width = columns[c][1];
+      doc.setFont("helvetica", c === boldColumn ? "bold" : "normal");
+      doc.text(fitText(doc, cell, width - 6), x, y);
+      x += width;
+    });
+    doc.line(MARGIN, y + 5, MARGIN + columns.reduce((sum, [, w]) => sum + w, 0), y + 5);
+    y += ROW_H;
+  };
+
+  // Summary: every method as recorded, cash refunds, then the cash to hand in compared with what was counted
+  doc.setDrawColor(0.8, 0.8, 0.8);
+  drawHeader(SUMMARY_COLUMNS);
+  for (const method of PAYMENT_METHODS) {
+    for (const [currency, expected] of Object.entries(closing.expected[method])) {
+      drawRow(SUMMARY_COLUMNS, [`${PAYMENT_METHOD_LABELS[method]} (${currency})`, formatCurrency(expected, currency), "—", "—"]);
+    }
+  }
+  for (const [currency, refunded] of Object.entries(closing.cashRefunds)) {
+    drawRow(SUMMARY_COLUMNS, [`Reembolsos en efectivo (${currency})`, `-${formatCurrency(refunded, currency)}`, "—", "—"]);
+  }
+  const cashCurrencies = Array.from(new Set([...Object.keys(closing.expectedCash), ...Object.keys(closing.countedCash)]));
+  for (const currency of cashCurrencies) {
+    const difference = closing.difference[currency] ?? 0;
+    drawRow(
+      SUMMARY_COLUMNS,
+      [
+        `Efectivo a entregar (${currency})`,
+        formatCurrency(closing.expectedCash[currency] ?? 0, currency),
+        formatCurrency(closing.countedCash[currency] ?? 0, currency),
+        formatDifference(difference, currency),
+      ],
+      difference !== 0 ? 3 : undefined
+    );
+  }
+  y += 6;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  if (closing.hasDiscrepancy) {
+    doc.setTextColor(180, 30, 30);
+    doc.text("Diferencia en efectivo entre lo registrado y lo contado.", MARGIN, y);
+    doc.setTextColor(0, 0, 0);
+  } else {
+    doc.text("Efectivo cuadrado: lo contado coincide con lo registrado.", MARGIN, y);
+  }
+  y += 24;
+
+  // Amounts per seller of the bookings paid
+  if (closing.sellers.length > 0) {
+    drawHeader(SELLER_COLUMNS);
+    for (const s of closing.sellers) {
+      const amounts = PAYMENT_METHODS.map((method) =>
+        Object.entries(s.expected[method])
+          .map(([currency, amount]) => formatCurrency(amount, currency))
+          .join(" · ") || "—"
+      );
+      drawRow(SELLER_COLUMNS, [s.seller, String(s.paymentCount), ...amounts]);
+    }
+    y += 10;
+  }
+
+  // Payments locked in the closing
+  drawHeader(PAYMENT_COLUMNS);
+  for (const p of closing.payments) {
+    if (y > PAGE_H - MARGIN) {
+      doc.addPage();
+      y = MARGIN + 11;
+      drawHeader(PAYMENT_COLUMNS);
+    }
+    drawRow(
+      PAYMENT_COLUMNS,
+      [
+        formatDateTime(p.recordedAt),
+        `#${p.reference}`,
+        p.customerName ?? "—",
+        p.seller ?? "—",
+        PAYMENT_METHOD_LABELS[p.method],
+        p.paymentReference ?? "",
+        formatCurrency(p.amount, p.currency),
+      ],
+      6
+    );
+  }
+
+  // Cash refunds paid out by the collector
+  if (closing.refunds.length > 0) {
+    y += 10;
+    drawHeader(REFUND_COLUMNS);
+    for (const r of closing.refunds) {
+      if (y > PAGE_H - MARGIN) {
+        doc.addPage();
+        y = MARGIN + 11;
+        drawHeader(REFUND_COLUMNS);
+      }
+      drawRow(
+        REFUND_COLUMNS,
+        [formatDateTime(r.createdAt), `#${r.reference}`, r.creditNote, r.passengerName ?? "—", `-${formatCurrency(r.amount, r.currency)}`],
+        4
+      );
+    }
+  }
+
+  // Notes and signature lines
+  if (y > PAGE_H - MARGIN - 70) {
+    doc.addPage();
+    y = MARGIN + 11;
+  }
+  y += 10;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  if (closing.notes) doc.text(fitText(doc, `Notas: ${closing.notes}`, CONTENT_W), MARGIN, y);
+  y += 50;
+  doc.line(MARGIN, y, MARGIN + 200, y);
+  doc.text(`Entregado por: ${closing.collector}`, MARGIN, y + 12);
+  doc.line(PAGE_W - MARGIN - 200, y, PAGE_W - MARGIN, y);
+  doc.text("Recibido por", PAGE_W - MARGIN - 200, y + 12);
+
+  // Page numbers
+  const pages = doc.getNumberOfPages();
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    const label = `Página ${page} de ${pages}`;
+    doc.text(label, PAGE_W - MARGIN - doc.getTextWidth(label), PAGE_H - MARGIN / 2);
+  }
+
+  const buf = doc.output("arraybuffer");
+  return new Uint8Array(buf);
+}
@@ -0,0 +1,473 @@
+/**
+ * Daily cash closing (cierre de caja): a day's payments grouped by who holds the money (a staff user by
+ * Payment.collectorUserId, otherwise the seller or recorder in Payment.collectorName, see resolveCashCollector)
+ * and method, with a breakdown per seller, the cash refunds they paid out, the cash counted when it is handed in
+ * and the difference. A closing locks its payments and refunds: they are not offered for another closing and the
+ * payments can no longer be reversed.
+ */
+
+import { type CashClosing, type Payment, type Refund } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import { getBookingReference } from "./sales";
+import { addCurrencyAmount, type CurrencyAmounts } from "./currency";
+import { formatCreditNoteNumber } from "./cancellationPolicy";
+import type { PaymentRecorder } from "./payments";
+import {
+  BASE_CURRENCY,
+  PAYMENT_METHODS,
+  type CashClosingListQuery,
+  type CreateCashClosingInput,
+  type PaymentMethod,
+} from "./validation";
+
+/** Amounts per payment method and currency. */
+export type MethodAmounts = Record<PaymentMethod, CurrencyAmounts>;
+
+/** Payment of a cash day or closing. */
+export interface CashPaymentDTO {
+  id: string;
+  batchId: string;
+  /** Booking reference ("Factura #"). */
+  reference: string;
+  customerName: string | null;
+  seller: string | null;
+  supervisor: string | null;
+  amount: number;
+  /** Invoice currency. */
+  currency: string;
+  method: PaymentMethod;
+  /** Transfer/card reference or receipt number. */
+  paymentReference: string | null;
+  paidAt: string;
+  /** Who recorded it (Payment.recordedBy). */
+  recordedBy: string;
+  recordedAt: string;
+}
+
+/** Cash refund paid out by a collector (credit note). */
+export interface CashRefundDTO {
+  id: string;
+  batchId: string;
+  /** Booking reference ("Factura #"). */
+  reference: string;
+  /** Credit note number (NC-000001). */
+  creditNote: string;
+  passengerName: string | null;
+  amount: number;
+  currency: string;
+  createdAt: string;
+}
+
+/** Payments of one seller (Sale.nombreVendedor) within a collector's day or closing. */
+export interface CashSellerDTO {
+  /** Seller name; "Sin vendedor" for bookings without one. */
+  seller: string;
+  expected: MethodAmounts;
+  paymentCount: number;
+}
+
+/** Payments and cash refunds of one collector not closed yet. */
+export interface CashCollectorDayDTO {
+  /** Staff user (User.id) who collected them; null for sellers and shared logins (matched by collector). */
+  collectorUserId: string | null;
+  collector: string;
+  expected: MethodAmounts;
+  /** Cash refunds paid out per currency. */
+  cashRefunds: CurrencyAmounts;
+  /** Cash to hand in per currency: cash collected minus cash refunds. */
+  expectedCash: CurrencyAmounts;
+  paymentCount: number;
+  /** Payments per seller. */
+  sellers: CashSellerDTO[];
+  payments: CashPaymentDTO[];
+  refunds: CashRefundDTO[];
+}
+
+/** Cash closing summary (history and day screen). */
+export interface CashClosingDTO {
+  id: string;
+  number: number;
+  /** Day closed (YYYY-MM-DD). */
+  date: string;
+  collectorUserId: string | null;
+  collector: string;
+  expected: MethodAmounts;
+  cashRefunds: CurrencyAmounts;
+  /** Cash to hand in per currency: cash collected minus cash refunds. */
+  expectedCash: CurrencyAmounts;
+  countedCash: CurrencyAmounts;
+  /** Counted minus expected cash per currency (negative = short). */
+  difference: CurrencyAmounts;
+  hasDiscrepancy: boolean;
+  paymentCount: number;
+  notes: string | null;
+  closedBy: string;
+  createdAt: string;
+}
+
+/** Cash closing with its payments and refunds (detail and PDF). */
+export interface CashClosingDetailDTO extends CashClosingDTO {
+  /** Payments per seller. */
+  sellers: CashSellerDTO[];
+  payments: CashPaymentDTO[];
+  refunds: CashRefundDTO[];
+}
+
+/** Cash closing screen of a day. */
+export interface CashDayDTO {
+  date: string;
+  /** Payments and cash refunds not in a closing yet, per collector. */
+  open: CashCollectorDayDTO[];
+  /** Closings of the day, oldest first. */
+  closings: CashClosingDTO[];
+}
+
+/** Start and end of the given YYYY-MM-DD day (UTC). */
+function toDayRange(day: string): { gte: Date; lte: Date } {
+  return { gte: new Date(`${day}T00:00:00.000Z`), lte: new Date(`${day}T23:59:59.999Z`) };
+}
+
+/** Amounts with every method empty. */
+function emptyMethodAmounts(): MethodAmounts {
+  return { cash: {}, transfer: {}, card: {} };
+}
+
+/** Payment method of a stored payment (unknown values count as cash). */
+function toPaymentMethod(method: string): PaymentMethod {
+  return (PAYMENT_METHODS as readonly string[]).includes(method) ? (method as PaymentMethod) : "cash";
+}
+
+/**
+ * Adds invoice details (currency, customer, seller) to payments, oldest first.
+ */
+async function toCashPaymentDTOs(client: DbClient, payments: Payment[]): Promise<CashPaymentDTO[]> {
+  const batchIds = Array.from(new Set(payments.map((p) => p.batchId)));
+  const lines =
+    batchIds.length > 0
+      ? await client.sale.findMany({
+          where: { batchId: { in: batchIds } },
+          select: { batchId: true, currency: true, customerName: true, nombreVendedor: true, supervisor: true },
+          orderBy: { createdAt: "asc" },
+        })
+      : [];
+  const invoiceByBatch = new Map<string, (typeof lines)[number]>();
+  for (const line of lines) {
+    if (!invoiceByBatch.has(line.batchId)) invoiceByBatch.set(line.batchId, line);
+  }
+  return payments
+    .map((p) => {
+      const invoice = invoiceByBatch.get(p.batchId);
+      return {
+        id: p.id,
+        batchId: p.batchId,
+        reference: getBookingReference(p.batchId),
+        customerName: invoice?.customerName ?? null,
+        seller: invoice?.nombreVendedor ?? null,
+        supervisor: invoice?.supervisor ?? null,
+        amount: p.amount,
+        currency: invoice?.currency ?? BASE_CURRENCY,
+        method: toPaymentMethod(p.method),
+        paymentReference: p.reference,
+        paidAt: p.paidAt.toISOString(),
+        recordedBy: p.recordedBy,
+        recordedAt: p.createdAt.toISOString(),
+      };
+    })
+    .sort((a, b) => a.paidAt.localeCompare(b.paidAt) || a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/**
+ * Maps cash refunds to DTOs, oldest first.
+ */
+function toCashRefundDTOs(refunds: Refund[]): CashRefundDTO[] {
+  return refunds
+    .map((r) => ({
+      id: r.id,
+      batchId: r.batchId,
+      reference: getBookingReference(r.batchId),
+      creditNote: formatCreditNoteNumber(r.number),
+      passengerName: r.passengerName,
+      amount: r.amount,
+      currency: r.currency,
+      createdAt: r.createdAt.toISOString(),
+    }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Sums payments per method and currency.
+ */
+function sumByMethod(payments: CashPaymentDTO[]): MethodAmounts {
+  const expected = emptyMethodAmounts();
+  for (const p of payments) addCurrencyAmount(expected[p.method], p.currency, p.amount);
+  return expected;
+}
+
+/** Seller label of payments on bookings without a seller. */
+const NO_SELLER = "Sin vendedor";
+
+/**
+ * Groups payments per seller with their amounts per method, sellers by name.
+ */
+function sumBySeller(payments: CashPaymentDTO[]): CashSellerDTO[] {
+  const bySeller = new Map<string, CashPaymentDTO[]>();
+  for (const p of payments) {
+    const seller = p.seller?.trim() || NO_SELLER;
+    bySeller.set(seller, [...(bySeller.get(seller) ?? []), p]);
+  }
+  return Array.from(bySeller.entries())
+    .map(([seller, sellerPayments]) => ({
+      seller,
+      expected: sumByMethod(sellerPayments),
+      paymentCount: sellerPayments.length,
+    }))
+    .sort((a, b) => a.seller.localeCompare(b.seller));
+}
+
+/**
+ * Sums refunds per currency.
+ */
+function sumRefunds(refunds: CashRefundDTO[]): CurrencyAmounts {
+  const amounts: CurrencyAmounts = {};
+  for (const r of refunds) addCurrencyAmount(amounts, r.currency, r.amount);
+  return amounts;
+}
+
+/**
+ * Cash to hand in per currency: cash collected minus cash refunds paid out.
+ */
+function netCash(expected: MethodAmounts, cashRefunds: CurrencyAmounts): CurrencyAmounts {
+  const net: CurrencyAmounts = { ...expected.cash };
+  for (const [currency, amount] of Object.entries(cashRefunds)) addCurrencyAmount(net, currency, -amount);
+  return net;
+}
+
+/**
+ * Maps a stored closing to its DTO.
+ */
+function toCashClosingDTO(closing: CashClosing): CashClosingDTO {
+  const expected = { ...emptyMethodAmounts(), ...(closing.expected as Partial<MethodAmounts>) };
+  const cashRefunds = closing.cashRefunds as CurrencyAmounts;
+  return {
+    id: closing.id,
+    number: closing.number,
+    date: closing.date.toISOString().slice(0, 10),
+    collectorUserId: closing.collectorUserId,
+    collector: closing.collector,
+    expected,
+    cashRefunds,
+    expectedCash: netCash(expected, cashRefunds),
+    countedCash: closing.countedCash as CurrencyAmounts,
+    difference: closing.difference as CurrencyAmounts,
+    hasDiscrepancy: closing.hasDiscrepancy,
+    paymentCount: closing.paymentCount,
+    notes: closing.notes,
+    closedBy: closing.closedBy,
+    createdAt: closing.createdAt.toISOString(),
+  };
+}
+
+/** Collector of a closing: a staff user by ID, anyone else by collector name. */
+type CollectorFilter = Pick<CreateCashClosingInput, "collectorUserId" | "collector">;
+
+/**
+ * Where clause of one collector's payments or refunds; every one when no collector is given.
+ */
+function collectorWhere(collector?: CollectorFilter) {
+  if (!collector) return {};
+  return collector.collectorUserId
+    ? { collectorUserId: collector.collectorUserId }
+    : { collectorUserId: null, collectorName: collector.collector };
+}
+
+/**
+ * Active payments of a day (by paidAt) not in a closing yet, optionally of one collector.
+ */
+async function getOpenPayments(client: DbClient, day: string, collector?: CollectorFilter): Promise<Payment[]> {
+  return client.payment.findMany({
+    where: { paidAt: toDayRange(day), reversedAt: null, cashClosingId: null, ...collectorWhere(collector) },
+    orderBy: [{ paidAt: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Cash refunds of a day not in a closing yet, optionally of one collector.
+ */
+async function getOpenRefunds(client: DbClient, day: string, collector?: CollectorFilter): Promise<Refund[]> {
+  return client.refund.findMany({
+    where: {
+      createdAt: toDayRange(day),
+      method: "cash",
+      amount: { gt: 0 },
+      cashClosingId: null,
+      ...collectorWhere(collector),
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Cash closing screen of a day: payments and cash refunds still to close per collector, and the closings already made.
+ * @param day - YYYY-MM-DD (UTC)
+ */
+export async function getCashDay(day: string): Promise<CashDayDTO> {
+  const [payments, refunds, closings] = await Promise.all([
+    getOpenPayments(db, day),
+    getOpenRefunds(db, day),
+    db.cashClosing.findMany({ where: { date: toDayRange(day) }, orderBy: { createdAt: "asc" } }),
+  ]);
+  const dtos = await toCashPaymentDTOs(db, payments);
+
+  // Staff users are grouped by ID, sellers and shared logins by name
+  type CollectorGroup = {
+    collectorUserId: string | null;
+    collector: string;
+    payments: CashPaymentDTO[];
+    refunds: CashRefundDTO[];
+  };
+  const byCollector = new Map<string, CollectorGroup>();
+  const groupOf = (row: { collectorUserId: string | null; collectorName: string }) => {
+    const key = row.collectorUserId ? `user:${row.collectorUserId}` : `name:${row.collectorName}`;
+    const group = byCollector.get(key) ?? {
+      collectorUserId: row.collectorUserId,
+      collector: row.collectorName,
+      payments: [],
+      refunds: [],
+    };
+    byCollector.set(key, group);
+    return group;
+  };
+  const paymentById = new Map(payments.map((p) => [p.id, p]));
+  for (const dto of dtos) groupOf(paymentById.get(dto.id)!).payments.push(dto);
+  const refundById = new Map(refunds.map((r) => [r.id, r]));
+  for (const dto of toCashRefundDTOs(refunds)) groupOf(refundById.get(dto.id)!).refunds.push(dto);
+
+  return {
+    date: day,
+    open: Array.from(byCollector.values())
+      .map((group) => {
+        const expected = sumByMethod(group.payments);
+        const cashRefunds = sumRefunds(group.refunds);
+        return {
+          collectorUserId: group.collectorUserId,
+          collector: group.collector,
+          expected,
+          cashRefunds,
+          expectedCash: netCash(expected, cashRefunds),
+          paymentCount: group.payments.length,
+          sellers: sumBySeller(group.payments),
+          payments: group.payments,
+          refunds: group.refunds,
+        };
+      })
+      .sort((a, b) => a.collector.localeCompare(b.collector)),
+    closings: closings.map(toCashClosingDTO),
+  };
+}
+
+/**
+ * Closes a collector's day: takes their open payments and cash refunds of the day, compares the cash counted
+ * with the cash collected minus the cash refunded per currency and locks both in the closing. Payments and
+ * refunds recorded later for the same day are left for another closing.
+ * @param input - Validated CreateCashClosingSchema input
+ * @param closer - Who locks the closing
+ * @throws DomainError (409) when there is nothing to close or the payments changed meanwhile
+ */
+export async function createCashClosing(
+  input: CreateCashClosingInput,
+  closer: PaymentRecorder
+): Promise<CashClosingDTO> {
+  return db.$transaction(async (tx) => {
+    const [payments, refunds] = await Promise.all([
+      getOpenPayments(tx, input.date, input),
+      getOpenRefunds(tx, input.date, input),
+    ]);
+    if (payments.length === 0 && refunds.length === 0) {
+      throw new DomainError("No hay pagos pendientes de cierre para este cobrador en el día", 409);
+    }
+    const expected = sumByMethod(await toCashPaymentDTOs(tx, payments));
+    const cashRefunds = sumRefunds(toCashRefundDTOs(refunds));
+    const expectedCash = netCash(expected, cashRefunds);
+
+    const countedCash: CurrencyAmounts = {};
+    for (const { currency, amount } of input.countedCash) countedCash[currency] = amount;
+    const difference: CurrencyAmounts = {};
+    const currencies = new Set([...Object.keys(expectedCash), ...Object.keys(countedCash)]);
+    for (const currency of currencies) {
+      difference[currency] = (countedCash[currency] ?? 0) - (expectedCash[currency] ?? 0);
+    }
+
+    const closing = await tx.cashClosing.create({
+      data: {
+        date: new Date(`${input.date}T00:00:00.000Z`),
+        collector: payments[0]?.collectorName ?? refunds[0]?.collectorName ?? input.collector,
+        collectorUserId: input.collectorUserId ?? null,
+        expected,
+        cashRefunds,
+        countedCash,
+        difference,
+        hasDiscrepancy: Object.values(difference).some((d) => d !== 0),
+        paymentCount: payments.length,
+        notes: input.notes || null,
+        closedBy: closer.recordedBy,
+        closedByRole: closer.recordedByRole,
+      },
+    });
+    const locked = await tx.payment.updateMany({
+      where: { id: { in: payments.map((p) => p.id) }, reversedAt: null, cashClosingId: null },
+      data: { cashClosingId: closing.id },
+    });
+    const lockedRefunds = await tx.refund.updateMany({
+      where: { id: { in: refunds.map((r) => r.id) }, cashClosingId: null },
+      data: { cashClosingId: closing.id },
+    });
+    if (locked.count !== payments.length || lockedRefunds.count !== refunds.length) {
+      throw new DomainError("Los pagos del día cambiaron mientras se cerraba la caja; vuelva a cargar", 409);
+    }
+    return toCashClosingDTO(closing);
+  });
+}
+
+/**
+ * Lists cash closings, newest day first.
+ * @param query - Day range, collector (case-insensitive) and only closings with differences
+ */
+export async function listCashClosings(query: CashClosingListQuery): Promise<CashClosingDTO[]> {
+  const closings = await db.cashClosing.findMany({
+    where: {
+      ...(query.from || query.to
+        ? {
+            date: {
+              ...(query.from ? { gte: toDayRange(query.from).gte } : {}),
+              ...(query.to ? { lte: toDayRange(query.to).lte } : {}),
+            },
+          }
+        : {}),
+      ...(query.collector ? { collector: { equals: query.collector, mode: "insensitive" as const } } : {}),
+      ...(query.discrepancies === "1" ? { hasDiscrepancy: true } : {}),
+    },
+    orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+    take: 200,
+  });
+  return closings.map(toCashClosingDTO);
+}
+
+/**
+ * Cash closing with the payments and cash refunds it locked.
+ * @returns The closing, or null when it does not exist
+ */
+export async function getCashClosing(id: string): Promise<CashClosingDetailDTO | null> {
+  const closing = await db.cashClosing.findUnique({
+    where: { id },
+    include: { payments: { orderBy: [{ paidAt: "asc" }, { createdAt: "asc" }] }, refunds: true },
+  });
+  if (!closing) return null;
+  const payments = await toCashPaymentDTOs(db, closing.payments);
+  return {
+    ...toCashClosingDTO(closing),
+    sellers: sumBySeller(payments),
+    payments,
+    refunds: toCashRefundDTOs(closing.refunds),
+  };
+}
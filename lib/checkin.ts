@@ -0,0 +1,254 @@
+import { timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { db } from "./db";
+import { DomainError } from "./errors";
+import { createSignature } from "./auth";
+import { getBookingReference } from "./sales";
+import { recordAuditEvent, type AuditActor } from "./audit";
+import { brandConfig } from "./brandConfig";
+import type { CheckInInput, CheckInStatus, ManifestPassengerType, PersonaAdditional } from "./validation";
+
+/** Prefix of check-in tokens (also separates them from session signatures). */
+const TOKEN_PREFIX = "GTC";
+
+/** Hex characters of the signature kept in the token (128 bits; keeps the QR small). */
+const TOKEN_SIGNATURE_LENGTH = 32;
+
+/** Passenger of a booking with its check-in mark on each tour of the batch. */
+export interface CheckInPassengerDTO {
+  index: number;
+  type: ManifestPassengerType;
+  name: string;
+  cedulaPassport: string | null;
+  /** Status per tourId (missing = not marked yet). */
+  statusByTour: Record<string, CheckInStatus>;
+}
+
+/** Booking as shown on the check-in page. */
+export interface CheckInBookingDTO {
+  batchId: string;
+  reference: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  fechaVisita: string | null;
+  tours: { tourId: string; name: string; seats: number }[];
+  passengers: CheckInPassengerDTO[];
+  currency: string;
+  pendiente: number;
+  isVoided: boolean;
+}
+
+/**
+ * Signature of a batch for check-in tokens.
+ */
+function signBatch(batchId: string): string {
+  return createSignature(`checkin|${batchId}`).slice(0, TOKEN_SIGNATURE_LENGTH);
+}
+
+/**
+ * Signed check-in token of a booking, printed as a QR code on the invoice.
+ * Format: GTC.<batchId>.<signature>
+ * @param batchId - Invoice batch ID
+ */
+export function createCheckInToken(batchId: string): string {
+  return `${TOKEN_PREFIX}.${batchId}.${signBatch(batchId)}`;
+}
+
+/**
+ * Verifies a check-in token.
+ * @returns The batch ID, or null when the token is malformed or its signature does not match
+ */
+export function verifyCheckInToken(token: string): string | null {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX || !parts[1]) return null;
+  const [, batchId, signature] = parts;
+  const expected = signBatch(batchId);
+  if (signature.length !== expected.length) return null;
+  return timingSafeEqual(Buffer.from(signature), Buffer.from(expected)) ? batchId : null;
+}
+
+/**
+ * Check-in page URL for a booking; the QR encodes it so a phone camera opens the page directly.
+ * @param batchId - Invoice batch ID
+ */
+export function getCheckInUrl(batchId: string): string {
+  const base = brandConfig.siteUrl.replace(/\/$/, "");
+  return `${base}/admin/checkin?code=${encodeURIComponent(createCheckInToken(batchId))}`;
+}
+
+/**
+ * QR code (PNG data URL) of a booking's check-in URL, for the invoice PDF.
+ * @param batchId - Invoice batch ID
+ */
+export async function generateCheckInQr(batchId: string): Promise<string> {
+  return QRCode.toDataURL(getCheckInUrl(batchId), { errorCorrectionLevel: "M", margin: 1, width: 240 });
+}
+
+/**
+ * Resolves what was scanned or typed on the check-in page to a batch ID.
+ * Accepts the QR content (check-in URL or bare token) or the booking reference ("Factura #").
+ * @param code - Scanned or typed code
+ * @param scope - Supervisor scope (only their bookings)
+ * @throws DomainError 400 for an invalid QR, 404 when no booking matches
+ */
+export async function resolveCheckInCode(
+  code: string,
+  scope: { supervisor?: string } = {}
+): Promise<string> {
+  let value = code.trim();
+  const fromUrl = value.match(/[?&]code=([^&#]+)/);
+  if (fromUrl) value = decodeURIComponent(fromUrl[1]);
+
+  if (value.startsWith(`${TOKEN_PREFIX}.`)) {
+    const batchId = verifyCheckInToken(value);
+    if (!batchId) throw new DomainError("Código QR inválido");
+    const sale = await db.sale.findFirst({ where: { batchId, ...scope }, select: { batchId: true } });
+    if (!sale) throw new DomainError("Reserva no encontrada", 404);
+    return batchId;
+  }
+
+  const reference = value.replace(/^#/, "");
+  if (!/^[A-Za-z0-9]{8}$/.test(reference)) throw new DomainError("Escanee el código QR o escriba el número de factura");
+  const sale = await db.sale.findFirst({
+    where: { batchId: { endsWith: reference, mode: "insensitive" }, ...scope },
+    select: { batchId: true },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!sale) throw new DomainError("Reserva no encontrada", 404);
+  return sale.batchId;
+}
+
+/**
+ * Passengers of a booking: lead customer (index 0) then personasAdditional (index n = entry n - 1).
+ */
+function listPassengers(sale: {
+  customerName: string | null;
+  cedula: string | null;
+  personasAdditional: unknown;
+}): Omit<CheckInPassengerDTO, "statusByTour">[] {
+  const additional = Array.isArray(sale.personasAdditional)
+    ? (sale.personasAdditional as PersonaAdditional[])
+    : [];
+  return [
+    { index: 0, type: "lead", name: sale.customerName ?? "", cedulaPassport: sale.cedula },
+    ...additional.map((p, i) => ({
+      index: i + 1,
+      type: p.type,
+      name: p.name,
+      cedulaPassport: p.cedulaPassport || null,
+    })),
+  ];
+}
+
+/**
+ * Booking for the check-in page: passengers with their marks per tour and the pending balance.
+ * @param batchId - Invoice batch ID
+ * @param scope - Supervisor scope (only their bookings)
+ * @returns Booking, or null when not found
+ */
+export async function getCheckInBooking(
+  batchId: string,
+  scope: { supervisor?: string } = {}
+): Promise<CheckInBookingDTO | null> {
+  const sales = await db.sale.findMany({
+    where: { batchId, ...scope },
+    include: { tour: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (sales.length === 0) return null;
+
+  const checkIns = await db.passengerCheckIn.findMany({ where: { batchId } });
+  const first = sales[0];
+  const isVoided = sales.every((s) => s.voidedAt);
+  const activeSales = sales.filter((s) => !s.voidedAt);
+
+  const tours = new Map<string, { tourId: string; name: string; seats: number }>();
+  for (const sale of activeSales) {
+    const tour = tours.get(sale.tourId) ?? { tourId: sale.tourId, name: sale.tour?.name ?? "—", seats: 0 };
+    tour.seats += sale.quantity;
+    tours.set(sale.tourId, tour);
+  }
+
+  const passengers = listPassengers(first).map((p) => ({
+    ...p,
+    statusByTour: Object.fromEntries(
+      checkIns
+        .filter((c) => c.passengerIndex === p.index)
+        .map((c) => [c.tourId, c.status as CheckInStatus])
+    ),
+  }));
+
+  return {
+    batchId,
+    reference: getBookingReference(batchId),
+    customerName: first.customerName,
+    customerPhone: first.customerPhone,
+    fechaVisita: first.fechaVisita?.toISOString() ?? null,
+    tours: Array.from(tours.values()),
+    passengers,
+    currency: first.currency,
+    pendiente: activeSales.reduce((sum, s) => sum + (s.isPaid ? 0 : s.pendiente ?? s.total), 0),
+    isVoided,
+  };
+}
+
+/**
+ * Marks a passenger boarded or no-show on a tour of the batch (status null clears the mark).
+ * Audited as invoice.check_in.
+ * @param input - Validated CheckInSchema input
+ * @param actor - Who checked in
+ * @param scope - Supervisor scope (only their bookings)
+ * @throws DomainError 404 when the booking or passenger does not exist, 400 for voided bookings or other tours
+ */
+export async function setPassengerCheckIn(
+  input: CheckInInput,
+  actor: AuditActor,
+  scope: { supervisor?: string } = {}
+): Promise<void> {
+  const sales = await db.sale.findMany({
+    where: { batchId: input.batchId, ...scope },
+    orderBy: { createdAt: "asc" },
+  });
+  if (sales.length === 0) throw new DomainError("Reserva no encontrada", 404);
+  const activeSales = sales.filter((s) => !s.voidedAt);
+  if (activeSales.length === 0) throw new DomainError("La factura está anulada");
+  if (!activeSales.some((s) => s.tourId === input.tourId)) {
+    throw new DomainError("El tour no pertenece a esta reserva");
+  }
+  const passenger = listPassengers(sales[0]).find((p) => p.index === input.passengerIndex);
+  if (!passenger) throw new DomainError("Pasajero no encontrado", 404);
+
+  const key = {
+    batchId_tourId_passengerIndex: {
+      batchId: input.batchId,
+      tourId: input.tourId,
+      passengerIndex: input.passengerIndex,
+    },
+  };
+  await db.$transaction(async (tx) => {
+    const before = await tx.passengerCheckIn.findUnique({ where: key });
+    if (input.status === null) {
+      if (before) await tx.passengerCheckIn.delete({ where: key });
+    } else {
+      await tx.passengerCheckIn.upsert({
+        where: key,
+        create: {
+          batchId: input.batchId,
+          tourId: input.tourId,
+          passengerIndex: input.passengerIndex,
+          passengerName: passenger.name,
+          status: input.status,
+          recordedBy: actor.name ?? "admin",
+        },
+        update: { status: input.status, passengerName: passenger.name, recordedBy: actor.name ?? "admin" },
+      });
+    }
+    await recordAuditEvent(tx, actor, {
+      action: "invoice.check_in",
+      entityType: "invoice",
+      entityId: input.batchId,
+      changes: { checkIn: { before: before?.status ?? null, after: input.status } },
+      metadata: { tourId: input.tourId, passengerIndex: input.passengerIndex, passengerName: passenger.name },
+    });
+  });
+}
@@ -0,0 +1,232 @@
+/**
+ * Commission statement of a seller (period preview or recorded payout) as PDF and CSV.
+ * Uses jsPDF (Letter landscape, 0.5" margins), like manifestPdf.
+ */
+
+import { jsPDF } from "jspdf";
+import { formatDate } from "./formatDate";
+import { formatCurrency, loadLogoBase64 } from "./invoicePdf";
+import { formatCurrencyAmounts } from "./currency";
+import { brandConfig } from "./brandConfig";
+import type { CommissionStatementDTO, CommissionStatementLine } from "./commissions";
+import { COMMISSION_RULE_TYPE_LABELS } from "./validation";
+
+/** 0.5 inch in points (Letter landscape). */
+const MARGIN = 36;
+const PAGE_W = 792;
+const PAGE_H = 612;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const LOGO_SIZE = 40;
+const ROW_H = 16;
+
+/** Table columns: header, width (pt). */
+const COLUMNS: [string, number][] = [
+  ["Fecha", 62],
+  ["Factura", 62],
+  ["Cliente", 120],
+  ["Tour", 136],
+  ["Pax", 30],
+  ["Total venta", 82],
+  ["Regla", 96],
+  ["Comisión", 80],
+  ["Liquidación", 52],
+];
+
+/**
+ * Rule column text, e.g. "10%" or "US$ 5 por pasajero".
+ */
+function ruleLabel(line: CommissionStatementLine): string {
+  return line.ruleType === "percent"
+    ? `${line.ruleValue}%`
+    : `${formatCurrency(line.ruleValue, line.currency)} por pasajero`;
+}
+
+/**
+ * Statement as CSV rows (one per sale line).
+ * @returns Headers and rows for toCSV
+ */
+export function commissionStatementToCsvRows(statement: CommissionStatementDTO): {
+  headers: string[];
+  rows: string[][];
+} {
+  const headers = [
+    "Fecha",
+    "Factura",
+    "Cliente",
+    "Tour",
+    "Pasajeros",
+    "Moneda",
+    "Total Venta",
+    "Tipo de Comisión",
+    "Valor",
+    "Comisión",
+    "Estado",
+    "Liquidación",
+  ];
+  const rows = statement.lines.map((line) => [
+    line.createdAt.slice(0, 10),
+    line.reference,
+    line.customerName ?? "",
+    line.tourName,
+    String(line.quantity),
+    line.currency,
+    String(line.total),
+    COMMISSION_RULE_TYPE_LABELS[line.ruleType],
+    String(line.ruleValue),
+    String(line.amount),
+    line.payoutNumber === null ? "Pendiente" : "Pagada",
+    line.payoutNumber === null ? "" : String(line.payoutNumber),
+  ]);
+  return { headers, rows };
+}
+
+/**
+ * Cuts text to fit a column width, adding an ellipsis.
+ */
+function fitText(doc: jsPDF, text: string, width: number): string {
+  if (doc.getTextWidth(text) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && doc.getTextWidth(`${cut}…`) > width) cut = cut.slice(0, -1);
+  return `${cut}…`;
+}
+
+/**
+ * Generates the commission statement PDF: header with seller and period, totals, and one row per
+ * qualifying sale line (header repeated on each page). A payout statement also shows who paid it.
+ * @param statement - Statement data
+ * @param logoPath - Optional path to logo (e.g. brandConfig.logoPath) for server-side load.
+ * @returns PDF as Uint8Array.
+ */
+export function generateCommissionStatementPdf(statement: CommissionStatementDTO, logoPath?: string): Uint8Array {
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "pt",
+    format: "letter",
+    hotfixes: ["px_scaling"],
+  });
+  let y = MARGIN;
+
+  // Header: logo, brand and title left; period and totals right
+  const logoData = logoPath ? loadLogoBase64(logoPath) : null;
+  let textX = MARGIN;
+  if (logoData) {
+    try {
+      doc.addImage(logoData, "PNG", MARGIN, y, LOGO_SIZE, LOGO_SIZE);
+      textX += LOGO_SIZE + 10;
+    } catch {
+      // ignore invalid image
+    }
+  }
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(process.env.NEXT_PUBLIC_BRAND_NAME ?? brandConfig.brandName, textX, y + 10);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(
+    statement.payout ? `Liquidación de comisiones #${statement.payout.number}` : "Estado de comisiones",
+    textX,
+    y + 26
+  );
+  doc.setFontSize(11);
+  doc.text(fitText(doc, `Vendedor: ${statement.seller}`, CONTENT_W / 2), textX, y + 40);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  const rightLines = [`Período: ${formatDate(statement.from)} – ${formatDate(statement.to)}`];
+  if (statement.payout) {
+    rightLines.push(
+      `Pagada: ${formatDate(statement.payout.createdAt)} por ${statement.payout.paidBy}`,
+      `Total pagado: ${formatCurrencyAmounts(statement.payout.totals)}`
+    );
+  } else {
+    rightLines.push(
+      `Pendiente: ${formatCurrencyAmounts(statement.totals.pending)} (${statement.totals.pendingLines} líneas)`,
+      `Ya pagado: ${formatCurrencyAmounts(statement.totals.paidOut)}`
+    );
+  }
+  rightLines.forEach((line, i) => {
+    doc.text(line, PAGE_W - MARGIN - doc.getTextWidth(line), y + 10 + i * 14);
+  });
+  y += LOGO_SIZE + 20;
+
+  const drawTableHeader = () => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setFillColor(0.9, 0.92, 0.96);
+    doc.rect(MARGIN, y - 11, CONTENT_W, ROW_H, "F");
+    let x = MARGIN + 3;
+    for (const [label, width] of COLUMNS) {
+      doc.text(label, x, y);
+      x += width;
+    }
+    y += ROW_H;
+    doc.setFont("helvetica", "normal");
+  };
+
+  drawTableHeader();
+  if (statement.lines.length === 0) {
+    doc.text("No hay ventas pagadas con comisión en este período.", MARGIN + 3, y);
+  }
+
+  doc.setDrawColor(0.8, 0.8, 0.8);
+  for (const line of statement.lines) {
+    if (y > PAGE_H - MARGIN) {
+      doc.addPage();
+      y = MARGIN + 11;
+      drawTableHeader();
+    }
+    const cells = [
+      formatDate(line.createdAt),
+      `#${line.reference}`,
+      line.customerName ?? "—",
+      line.tourName,
+      String(line.quantity),
+      formatCurrency(line.total, line.currency),
+      ruleLabel(line),
+      formatCurrency(line.amount, line.currency),
+      line.payoutNumber === null ? "Pendiente" : `#${line.payoutNumber}`,
+    ];
+    let x = MARGIN + 3;
+    cells.forEach((cell, c) => {
+      const width = COLUMNS[c][1];
+      doc.setFont("helvetica", c === 7 ? "bold" : "normal");
+      doc.text(fitText(doc, cell, width - 6), x, y);
+      x += width;
+    });
+    doc.line(MARGIN, y + 5, PAGE_W - MARGIN, y + 5);
+    y += ROW_H;
+  }
+
+  // Totals and signature line of a payout
+  if (y > PAGE_H - MARGIN - 60) {
+    doc.addPage();
+    y = MARGIN + 11;
+  }
+  y += 10;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  const totalLabel = statement.payout
+    ? `Total pagado: ${formatCurrencyAmounts(statement.payout.totals)}`
+    : `Total pendiente: ${formatCurrencyAmounts(statement.totals.pending)}`;
+  doc.text(totalLabel, PAGE_W - MARGIN - doc.getTextWidth(totalLabel), y);
+  if (statement.payout) {
+    doc.setFont("helvetica", "normal");
+    if (statement.payout.notes) doc.text(fitText(doc, `Notas: ${statement.payout.notes}`, CONTENT_W / 2), MARGIN, y);
+    y += 40;
+    doc.line(MARGIN, y, MARGIN + 200, y);
+    doc.text("Recibido por el vendedor", MARGIN, y + 12);
+  }
+
+  // Page numbers
+  const pages = doc.getNumberOfPages();
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    const label = `Página ${page} de ${pages}`;
+    doc.text(label, PAGE_W - MARGIN - doc.getTextWidth(label), PAGE_H - MARGIN / 2);
+  }
+
+  const buf = doc.output("arraybuffer");
+  return new Uint8Array(buf);
+}
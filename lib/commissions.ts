@@ -0,0 +1,463 @@
+/**
+ * Seller commissions: rules per seller and/or tour, period statements and payouts.
+ * A sale line earns commission once its invoice is fully paid; a payout records the lines paid
+ * so the same sale is never paid out twice.
+ */
+
+import { Prisma, type CommissionRule } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import { getBookingReference } from "./sales";
+import { addCurrencyAmount, type CurrencyAmounts } from "./currency";
+import type {
+  CommissionRuleType,
+  CreateCommissionPayoutInput,
+  CreateCommissionRuleInput,
+  UpdateCommissionRuleInput,
+} from "./validation";
+
+/** Commission rule for Comisiones. */
+export interface CommissionRuleDTO {
+  id: string;
+  sellerName: string | null;
+  tourId: string | null;
+  tourName: string | null;
+  type: CommissionRuleType;
+  value: number;
+  currency: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+/** Sale line of a commission statement. */
+export interface CommissionStatementLine {
+  saleId: string;
+  batchId: string;
+  reference: string;
+  /** When the sale was entered (ISO). */
+  createdAt: string;
+  customerName: string | null;
+  tourId: string;
+  tourName: string;
+  quantity: number;
+  /** Line total (net of promo discounts). */
+  total: number;
+  currency: string;
+  ruleId: string | null;
+  ruleType: CommissionRuleType;
+  ruleValue: number;
+  amount: number;
+  /** Payout that paid this line; null while pending. */
+  payoutNumber: number | null;
+}
+
+/** Payout summary (history list and paid statements). */
+export interface CommissionPayoutDTO {
+  id: string;
+  number: number;
+  sellerName: string;
+  /** First and last day of the period (YYYY-MM-DD). */
+  from: string;
+  to: string;
+  totals: CurrencyAmounts;
+  lineCount: number;
+  paidBy: string;
+  notes: string | null;
+  createdAt: string;
+}
+
+/** Commission statement of a seller for a period, or of a recorded payout. */
+export interface CommissionStatementDTO {
+  seller: string;
+  /** First and last day of the period (YYYY-MM-DD). */
+  from: string;
+  to: string;
+  lines: CommissionStatementLine[];
+  totals: {
+    /** Commission not paid out yet, by currency. */
+    pending: CurrencyAmounts;
+    /** Commission already paid out, by currency. */
+    paidOut: CurrencyAmounts;
+    pendingLines: number;
+  };
+  /** Set when the statement is the one of a recorded payout. */
+  payout: CommissionPayoutDTO | null;
+}
+
+/** Sale line fields a rule is matched on. */
+type CommissionableLine = { tourId: string; quantity: number; total: number; currency: string };
+
+/** Start of the given YYYY-MM-DD day (UTC). */
+function toStartOfDay(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+/** End of the given YYYY-MM-DD day (UTC). */
+function toEndOfDay(day: string): Date {
+  return new Date(`${day}T23:59:59.999Z`);
+}
+
+/** Seller names are compared trimmed and case-insensitive, like the seller merge. */
+function sameSeller(a: string | null, b: string): boolean {
+  return a !== null && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Maps a rule row (with its tour name) to its DTO.
+ */
+function toCommissionRuleDTO(rule: CommissionRule & { tour: { name: string } | null }): CommissionRuleDTO {
+  return {
+    id: rule.id,
+    sellerName: rule.sellerName,
+    tourId: rule.tourId,
+    tourName: rule.tour?.name ?? null,
+    type: rule.type as CommissionRuleType,
+    value: rule.value,
+    currency: rule.currency,
+    isActive: rule.isActive,
+    createdAt: rule.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Maps a payout row to its DTO.
+ */
+function toCommissionPayoutDTO(payout: {
+  id: string;
+  number: number;
+  sellerName: string;
+  periodFrom: Date;
+  periodTo: Date;
+  totals: Prisma.JsonValue;
+  lineCount: number;
+  paidBy: string;
+  notes: string | null;
+  createdAt: Date;
+}): CommissionPayoutDTO {
+  return {
+    id: payout.id,
+    number: payout.number,
+    sellerName: payout.sellerName,
+    from: payout.periodFrom.toISOString().slice(0, 10),
+    to: payout.periodTo.toISOString().slice(0, 10),
+    totals: (payout.totals ?? {}) as CurrencyAmounts,
+    lineCount: payout.lineCount,
+    paidBy: payout.paidBy,
+    notes: payout.notes,
+    createdAt: payout.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Picks the rule of a sale line: seller + tour first, then seller-only, then tour-only.
+ * A per-passenger rule only applies to lines in its currency.
+ * @param rules - Active rules of the seller (sellerName set) and of every seller (sellerName null)
+ * @param seller - Seller of the line
+ * @param line - Sale line
+ * @returns The rule, or null when none applies
+ */
+export function resolveCommissionRule(
+  rules: CommissionRule[],
+  seller: string,
+  line: CommissionableLine
+): CommissionRule | null {
+  const applies = (rule: CommissionRule) =>
+    rule.isActive && (rule.type !== "per_passenger" || rule.currency === line.currency);
+  const candidates = [
+    (r: CommissionRule) => sameSeller(r.sellerName, seller) && r.tourId === line.tourId,
+    (r: CommissionRule) => sameSeller(r.sellerName, seller) && r.tourId === null,
+    (r: CommissionRule) => r.sellerName === null && r.tourId === line.tourId,
+  ];
+  for (const matches of candidates) {
+    const rule = rules.find((r) => matches(r) && applies(r));
+    if (rule) return rule;
+  }
+  return null;
+}
+
+/**
+ * Commission of a sale line under a rule: a percentage of the line total (rounded) or an amount per passenger.
+ */
+export function computeCommission(rule: Pick<CommissionRule, "type" | "value">, line: CommissionableLine): number {
+  return rule.type === "percent" ? Math.round((line.total * rule.value) / 100) : rule.value * line.quantity;
+}
+
+/**
+ * Builds a seller's commission statement for a period: lines of fully paid, non-voided invoices entered
+ * in the period that have an applicable rule. Lines already paid out show their payout number.
+ * @param client - Prisma client or transaction
+ * @param seller - Seller name (Sale.nombreVendedor, case-insensitive)
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ */
+export async function buildCommissionStatement(
+  client: DbClient,
+  seller: string,
+  from: string,
+  to: string
+): Promise<CommissionStatementDTO> {
+  const [sales, rules] = await Promise.all([
+    client.sale.findMany({
+      where: {
+        nombreVendedor: { equals: seller.trim(), mode: "insensitive" },
+        voidedAt: null,
+        isPaid: true,
+        createdAt: { gte: toStartOfDay(from), lte: toEndOfDay(to) },
+      },
+      include: { tour: { select: { name: true } } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    }),
+    client.commissionRule.findMany({
+      where: {
+        isActive: true,
+        OR: [{ sellerName: { equals: seller.trim(), mode: "insensitive" } }, { sellerName: null }],
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+  const paidLines = await client.commissionPayoutLine.findMany({
+    where: { saleId: { in: sales.map((s) => s.id) } },
+    include: { payout: { select: { number: true } } },
+  });
+  const paidBySale = new Map(paidLines.map((l) => [l.saleId, l]));
+
+  const lines: CommissionStatementLine[] = [];
+  const pending: CurrencyAmounts = {};
+  const paidOut: CurrencyAmounts = {};
+  let pendingLines = 0;
+  for (const sale of sales) {
+    const base = {
+      saleId: sale.id,
+      batchId: sale.batchId,
+      reference: getBookingReference(sale.batchId),
+      createdAt: sale.createdAt.toISOString(),
+      customerName: sale.customerName,
+      tourId: sale.tourId,
+      tourName: sale.tour.name,
+      quantity: sale.quantity,
+      total: sale.total,
+      currency: sale.currency,
+    };
+    // Paid-out lines keep the rule and amount they were paid with
+    const paid = paidBySale.get(sale.id);
+    if (paid) {
+      lines.push({
+        ...base,
+        ruleId: paid.ruleId,
+        ruleType: paid.ruleType as CommissionRuleType,
+        ruleValue: paid.ruleValue,
+        amount: paid.amount,
+        payoutNumber: paid.payout.number,
+      });
+      addCurrencyAmount(paidOut, paid.currency, paid.amount);
+      continue;
+    }
+    const rule = resolveCommissionRule(rules, seller, sale);
+    if (!rule) continue;
+    const amount = computeCommission(rule, sale);
+    lines.push({
+      ...base,
+      ruleId: rule.id,
+      ruleType: rule.type as CommissionRuleType,
+      ruleValue: rule.value,
+      amount,
+      payoutNumber: null,
+    });
+    addCurrencyAmount(pending, sale.currency, amount);
+    pendingLines += 1;
+  }
+
+  return { seller: seller.trim(), from, to, lines, totals: { pending, paidOut, pendingLines }, payout: null };
+}
+
+/**
+ * Marks a seller's pending commissions of a period as paid out. Each sale line can only be in one payout
+ * (unique saleId), so a concurrent payout of the same lines fails instead of paying twice.
+ * @param input - Validated CreateCommissionPayoutSchema input
+ * @param paidBy - Who records the payout (supervisor name or role)
+ * @throws DomainError (409) when there is nothing pending or the lines were paid meanwhile
+ */
+export async function createCommissionPayout(
+  input: CreateCommissionPayoutInput,
+  paidBy: string
+): Promise<CommissionPayoutDTO> {
+  try {
+    return await db.$transaction(async (tx) => {
+      const statement = await buildCommissionStatement(tx, input.seller, input.from, input.to);
+      const lines = statement.lines.filter((l) => l.payoutNumber === null);
+      if (lines.length === 0) {
+        throw new DomainError("No hay comisiones pendientes para este vendedor en el período", 409);
+      }
+      const payout = await tx.commissionPayout.create({
+        data: {
+          sellerName: statement.seller,
+          periodFrom: toStartOfDay(input.from),
+          periodTo: toEndOfDay(input.to),
+          totals: statement.totals.pending,
+          lineCount: lines.length,
+          paidBy,
+          notes: input.notes || null,
+          lines: {
+            create: lines.map((l) => ({
+              saleId: l.saleId,
+              batchId: l.batchId,
+              tourId: l.tourId,
+              quantity: l.quantity,
+              saleTotal: l.total,
+              currency: l.currency,
+              ruleId: l.ruleId,
+              ruleType: l.ruleType,
+              ruleValue: l.ruleValue,
+              amount: l.amount,
+            })),
+          },
+        },
+      });
+      return toCommissionPayoutDTO(payout);
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new DomainError("Algunas ventas ya fueron pagadas en otra liquidación; vuelva a cargar el estado", 409);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Lists commission payouts, newest first.
+ * @param seller - Only this seller's payouts (case-insensitive)
+ */
+export async function listCommissionPayouts(seller?: string): Promise<CommissionPayoutDTO[]> {
+  const payouts = await db.commissionPayout.findMany({
+    where: seller ? { sellerName: { equals: seller.trim(), mode: "insensitive" } } : {},
+    orderBy: { createdAt: "desc" },
+    take: 200,
+  });
+  return payouts.map(toCommissionPayoutDTO);
+}
+
+/**
+ * Statement of a recorded payout: the lines it paid, with the rule and amount they were paid with.
+ * @returns The statement, or null when the payout does not exist
+ */
+export async function getCommissionPayoutStatement(id: string): Promise<CommissionStatementDTO | null> {
+  const payout = await db.commissionPayout.findUnique({
+    where: { id },
+    include: { lines: true },
+  });
+  if (!payout) return null;
+  const sales = await db.sale.findMany({
+    where: { id: { in: payout.lines.map((l) => l.saleId) } },
+    select: { id: true, createdAt: true, customerName: true, tour: { select: { name: true } } },
+  });
+  const saleById = new Map(sales.map((s) => [s.id, s]));
+
+  const dto = toCommissionPayoutDTO(payout);
+  const lines = payout.lines
+    .map((l): CommissionStatementLine => {
+      const sale = saleById.get(l.saleId);
+      return {
+        saleId: l.saleId,
+        batchId: l.batchId,
+        reference: getBookingReference(l.batchId),
+        createdAt: (sale?.createdAt ?? payout.createdAt).toISOString(),
+        customerName: sale?.customerName ?? null,
+        tourId: l.tourId,
+        tourName: sale?.tour.name ?? "—",
+        quantity: l.quantity,
+        total: l.saleTotal,
+        currency: l.currency,
+        ruleId: l.ruleId,
+        ruleType: l.ruleType as CommissionRuleType,
+        ruleValue: l.ruleValue,
+        amount: l.amount,
+        payoutNumber: payout.number,
+      };
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return {
+    seller: payout.sellerName,
+    from: dto.from,
+    to: dto.to,
+    lines,
+    totals: { pending: {}, paidOut: dto.totals, pendingLines: 0 },
+    payout: dto,
+  };
+}
+
+/**
+ * Lists commission rules: active first, then by seller and tour.
+ */
+export async function listCommissionRules(): Promise<CommissionRuleDTO[]> {
+  const rules = await db.commissionRule.findMany({
+    include: { tour: { select: { name: true } } },
+    orderBy: [{ isActive: "desc" }, { sellerName: "asc" }, { createdAt: "desc" }],
+  });
+  return rules.map(toCommissionRuleDTO);
+}
+
+/**
+ * Creates a commission rule. Only one active rule per seller/tour/kind combination.
+ */
+export async function createCommissionRule(input: CreateCommissionRuleInput): Promise<CommissionRuleDTO> {
+  const sellerName = input.sellerName?.trim() || null;
+  const tourId = input.tourId || null;
+  if (tourId) {
+    const tour = await db.tour.findUnique({ where: { id: tourId }, select: { id: true } });
+    if (!tour) throw new DomainError("Tour no encontrado", 404);
+  }
+  const currency = input.type === "per_passenger" ? input.currency ?? null : null;
+  const duplicate = await db.commissionRule.findFirst({
+    where: {
+      isActive: true,
+      sellerName: sellerName ? { equals: sellerName, mode: "insensitive" } : null,
+      tourId,
+      type: input.type,
+      currency,
+    },
+  });
+  if (duplicate) {
+    throw new DomainError("Ya existe una regla activa igual; edítela o desactívela", 409);
+  }
+  const rule = await db.commissionRule.create({
+    data: {
+      sellerName,
+      tourId,
+      type: input.type,
+      value: input.value,
+      currency,
+      isActive: input.isActive ?? true,
+    },
+    include: { tour: { select: { name: true } } },
+  });
+  return toCommissionRuleDTO(rule);
+}
+
+/**
+ * Updates a commission rule. Lines already paid out keep the amount they were paid with.
+ */
+export async function updateCommissionRule(id: string, input: UpdateCommissionRuleInput): Promise<CommissionRuleDTO> {
+  const rule = await db.commissionRule.findUnique({ where: { id } });
+  if (!rule) throw new DomainError("Regla de comisión no encontrada", 404);
+  if (rule.type === "percent" && input.value !== undefined && input.value > 100) {
+    throw new DomainError("El porcentaje no puede ser mayor que 100");
+  }
+  const updated = await db.commissionRule.update({
+    where: { id },
+    data: {
+      ...(input.value !== undefined ? { value: input.value } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+    },
+    include: { tour: { select: { name: true } } },
+  });
+  return toCommissionRuleDTO(updated);
+}
+
+/**
+ * Deletes a commission rule. Payout lines keep a copy of the rule, so paid history is not affected.
+ */
+export async function deleteCommissionRule(id: string): Promise<void> {
+  const rule = await db.commissionRule.findUnique({ where: { id } });
+  if (!rule) throw new DomainError("Regla de comisión no encontrada", 404);
+  await db.commissionRule.delete({ where: { id } });
+}
@@ -0,0 +1,210 @@
+/**
+ * Credit note (nota de crédito) of a cancellation — what the customer receives when a booking or a
+ * passenger is cancelled: the policy tier applied, the refund and the invoice balance as it stands now.
+ * Uses jsPDF (Letter portrait, 0.5" margins), like invoicePdf.
+ */
+
+import { jsPDF } from "jspdf";
+import { db } from "./db";
+import { formatDate } from "./formatDate";
+import { getBookingReference } from "./sales";
+import { formatCurrency, getCompany, loadLogoBase64, type InvoiceCompany, type InvoiceCustomer } from "./invoicePdf";
+import { describeCancellationPolicy, formatCreditNoteNumber, parseCancellationPolicy } from "./cancellationPolicy";
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from "./validation";
+
+/** Credit note data for PDF generation. */
+export interface CreditNoteDTO {
+  number: string;
+  /** Booking reference of the invoice it credits. */
+  invoiceNo: string;
+  issueDate: string;
+  company: InvoiceCompany;
+  customer: InvoiceCustomer;
+  tourNames: string[];
+  fechaVisita: string;
+  /** "Reserva completa" or "Pasajero: <name>". */
+  scopeLabel: string;
+  seatsReleased: number;
+  daysBefore: number;
+  refundPercent: number;
+  policyLines: string[];
+  creditAmount: number;
+  paidAmount: number;
+  amount: number;
+  retainedAmount: number;
+  /** Payout method label; null when nothing is refunded. */
+  method: string | null;
+  reason: string | null;
+  /** Invoice balance today (after this and any later change); zeros once the booking is voided. */
+  invoiceTotal: number;
+  invoicePaid: number;
+  invoicePending: number;
+  currency: string;
+}
+
+/** 0.5 inch in points (Letter). */
+const MARGIN = 36;
+const PAGE_W = 612;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const LOGO_SIZE = 48;
+
+/**
+ * Builds the credit note of a refund with the invoice's current balance.
+ * @param batchId - Invoice batch ID
+ * @param refundId - Refund ID
+ * @param scope - Supervisor scope (only their bookings)
+ * @returns Credit note, or null when the refund does not belong to a visible batch
+ */
+export async function buildCreditNote(
+  batchId: string,
+  refundId: string,
+  scope: { supervisor?: string } = {}
+): Promise<CreditNoteDTO | null> {
+  const refund = await db.refund.findUnique({ where: { id: refundId } });
+  if (!refund || refund.batchId !== batchId) return null;
+  const sales = await db.sale.findMany({
+    where: { batchId, ...scope },
+    include: { tour: { select: { name: true, cancellationPolicy: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (sales.length === 0) return null;
+
+  const first = sales[0];
+  const active = sales.filter((s) => !s.voidedAt);
+  const invoiceTotal = active.reduce((sum, s) => sum + s.total, 0);
+  const invoicePaid = active.reduce((sum, s) => sum + (s.abono ?? 0), 0);
+  return {
+    number: formatCreditNoteNumber(refund.number),
+    invoiceNo: getBookingReference(batchId),
+    issueDate: formatDate(refund.createdAt),
+    company: getCompany(),
+    customer: {
+      name: first.customerName ?? "",
+      passport: first.cedula ?? "",
+      phone: first.customerPhone ?? "",
+    },
+    tourNames: Array.from(new Set(sales.map((s) => s.tour.name))),
+    fechaVisita: formatDate(first.fechaVisita),
+    scopeLabel: refund.scope === "passenger" ? `Pasajero: ${refund.passengerName ?? ""}` : "Reserva completa",
+    seatsReleased: refund.seatsReleased,
+    daysBefore: refund.daysBefore,
+    refundPercent: refund.refundPercent,
+    policyLines: describeCancellationPolicy(parseCancellationPolicy(first.tour.cancellationPolicy)),
+    creditAmount: refund.creditAmount,
+    paidAmount: refund.paidAmount,
+    amount: refund.amount,
+    retainedAmount: refund.retainedAmount,
+    method: refund.method ? PAYMENT_METHOD_LABELS[refund.method as PaymentMethod] ?? refund.method : null,
+    reason: refund.reason,
+    invoiceTotal,
+    invoicePaid,
+    invoicePending: Math.max(0, invoiceTotal - invoicePaid),
+    currency: refund.currency,
+  };
+}
+
+/**
+ * Generates the credit note PDF.
+ * @param note - Credit note data
+ * @param logoPath - Optional path to logo (e.g. brandConfig.logoPath) for server-side load.
+ * @returns PDF as Uint8Array.
+ */
+export function generateCreditNotePdf(note: CreditNoteDTO, logoPath?: string): Uint8Array {
+  const doc = new jsPDF({
+    orientation: "portrait",
+    unit: "pt",
+    format: "letter",
+    hotfixes: ["px_scaling"],
+  });
+  const money = (amount: number) => formatCurrency(amount, note.currency);
+  const right = (text: string, yPos: number) => doc.text(text, PAGE_W - MARGIN - doc.getTextWidth(text), yPos);
+  let y = MARGIN;
+
+  // Header: logo and company left; credit note number right
+  const logoData = logoPath ? loadLogoBase64(logoPath) : null;
+  let textX = MARGIN;
+  if (logoData) {
+    try {
+      doc.addImage(logoData, "PNG", MARGIN, y, LOGO_SIZE, LOGO_SIZE);
+      textX += LOGO_SIZE + 10;
+    } catch {
+      // ignore invalid image
+    }
+  }
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(note.company.name, textX, y + 10);
+  doc.text(note.company.address, textX, y + 22);
+  doc.text(`RNC: ${note.company.rnc}`, textX, y + 34);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  right("Nota de Crédito", y + 10);
+  doc.setFontSize(10);
+  right(note.number, y + 24);
+  doc.setFont("helvetica", "normal");
+  right(`Factura No. ${note.invoiceNo}`, y + 36);
+  right(`Fecha: ${note.issueDate}`, y + 48);
+  y += LOGO_SIZE + 28;
+
+  const drawRows = (title: string, rows: [string, string][]) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(title, MARGIN, y);
+    y += 8;
+    const boxH = rows.length * 16 + 8;
+    doc.setFillColor(0.9, 0.92, 0.96);
+    doc.rect(MARGIN, y, CONTENT_W, boxH, "F");
+    let rowY = y + 14;
+    for (const [label, value] of rows) {
+      doc.setFont("helvetica", "bold");
+      doc.text(label, MARGIN + 6, rowY);
+      doc.setFont("helvetica", "normal");
+      doc.text(value, PAGE_W - MARGIN - 6 - doc.getTextWidth(value), rowY);
+      rowY += 16;
+    }
+    y += boxH + 20;
+  };
+
+  drawRows("Cliente", [
+    ["Nombre", note.customer.name],
+    ["Cédula/Passaporte", note.customer.passport],
+    ["Teléfono", note.customer.phone],
+  ]);
+
+  drawRows("Cancelación", [
+    ["Tour", note.tourNames.join(", ")],
+    ["Fecha del tour", note.fechaVisita],
+    ["Cancelado", note.scopeLabel],
+    ["Cupos liberados", String(note.seatsReleased)],
+    ["Días antes del tour", String(note.daysBefore)],
+    ...(note.reason ? [["Motivo", note.reason] as [string, string]] : []),
+  ]);
+
+  drawRows("Reembolso", [
+    ["Monto acreditado a la factura", money(note.creditAmount)],
+    ["Abonos de lo cancelado", money(note.paidAmount)],
+    [`Reembolso (${note.refundPercent}%)`, money(note.amount)],
+    ["Retenido según política", money(note.retainedAmount)],
+    ...(note.method ? [["Forma de reembolso", note.method] as [string, string]] : []),
+  ]);
+
+  drawRows("Saldo actual de la factura", [
+    ["Total", money(note.invoiceTotal)],
+    ["Pagado (neto de reembolsos)", money(note.invoicePaid)],
+    ["Pendiente", money(note.invoicePending)],
+  ]);
+
+  doc.setFont("helvetica", "bold");
+  doc.text("Política de cancelación", MARGIN, y);
+  y += 14;
+  doc.setFont("helvetica", "normal");
+  for (const line of note.policyLines) {
+    doc.text(`• ${line}`, MARGIN, y);
+    y += 14;
+  }
+  y += 10;
+  doc.setFontSize(9);
+  doc.text("El porcentaje se aplica sobre los abonos recibidos por los cupos cancelados.", MARGIN, y);
+
+  const buf = doc.output("arraybuffer");
+  return new Uint8Array(buf);
+}
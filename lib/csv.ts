@@ -0,0 +1,39 @@
+/**
+ * CSV helpers for downloads (exports, manifests).
+ */
+
+/**
+ * Escapes a value for CSV to prevent formula injection.
+ * Prefixes potentially dangerous characters with a single quote.
+ * @param value - The raw value.
+ * @returns Escaped value safe for CSV.
+ */
+function escapeFormulaInjection(value: string): string {
+  const dangerousChars = ["=", "+", "-", "@", "\t", "\r"];
+  if (dangerousChars.some((char) => value.startsWith(char))) {
+    return `'${value}`;
+  }
+  return value;
+}
+
+/**
+ * Converts data to CSV format.
+ * @param headers - Column headers.
+ * @param rows - Data rows.
+ * @returns CSV string.
+ */
+export function toCSV(headers: string[], rows: string[][]): string {
+  const escapeCsvValue = (value: string) => {
+    // First escape formula injection
+    const safeValue = escapeFormulaInjection(value);
+    if (safeValue.includes(",") || safeValue.includes('"') || safeValue.includes("\n")) {
+      return `"${safeValue.replace(/"/g, '""')}"`;
+    }
+    return safeValue;
+  };
+
+  const headerLine = headers.map(escapeCsvValue).join(",");
+  const dataLines = rows.map((row) => row.map(escapeCsvValue).join(","));
+
+  return [headerLine, ...dataLines].join("\n");
+}
@@ -0,0 +1,33 @@
+import { BASE_CURRENCY } from "./validation";
+
+/** Amounts keyed by currency symbol, e.g. { "RD$": 12500, "US$": 340 }. */
+export type CurrencyAmounts = Record<string, number>;
+
+/**
+ * Formats an amount with its currency symbol (e.g. "US$ 1,240").
+ * Safe for client components.
+ * @param amount - Amount in the currency
+ * @param currency - Currency symbol (defaults to the base currency)
+ */
+export function formatMoney(amount: number, currency: string = BASE_CURRENCY): string {
+  return `${currency} ${amount.toLocaleString()}`;
+}
+
+/**
+ * Adds an amount to a per-currency map in place.
+ */
+export function addCurrencyAmount(amounts: CurrencyAmounts, currency: string, amount: number): void {
+  amounts[currency] = (amounts[currency] ?? 0) + amount;
+}
+
+/**
+ * Formats per-currency amounts as "RD$ 12,500 + US$ 340"; base currency first.
+ * @param amounts - Amounts by currency (zero entries are skipped)
+ */
+export function formatCurrencyAmounts(amounts: CurrencyAmounts): string {
+  const entries = Object.entries(amounts)
+    .filter(([, amount]) => amount !== 0)
+    .sort(([a], [b]) => (a === BASE_CURRENCY ? -1 : b === BASE_CURRENCY ? 1 : a.localeCompare(b)));
+  if (entries.length === 0) return formatMoney(0);
+  return entries.map(([currency, amount]) => formatMoney(amount, currency)).join(" + ");
+}
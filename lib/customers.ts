@@ -0,0 +1,347 @@
+import type { Customer, Prisma, WhatsAppMessageLog } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { normalizePhone } from "./whatsapp";
+import { getThreadMessages } from "./whatsappInbox";
+import { getBookingReference } from "./sales";
+import { addCurrencyAmount, type CurrencyAmounts } from "./currency";
+import { BASE_CURRENCY } from "./validation";
+
+
+/** Shortest normalized phone treated as a real number (shorter values are typos or placeholders). */
+const MIN_PHONE_DIGITS = 10;
+
+/** Shortest normalized cédula/passport treated as an identifier. */
+const MIN_CEDULA_LENGTH = 5;
+
+/** Sales read per page by the backfill. */
+const BACKFILL_PAGE = 1000;
+
+/** WhatsApp messages shown on a customer profile. */
+const PROFILE_MESSAGES = 50;
+
+/** Customer fields as entered on a booking (raw, before normalization). */
+export interface CustomerDetails {
+  customerName?: string | null;
+  customerPhone?: string | null;
+  cedula?: string | null;
+  provincia?: string | null;
+  municipio?: string | null;
+  customerAddress?: string | null;
+}
+
+/** Customer row for lists and the SaleForm autocomplete. */
+export interface CustomerDTO {
+  id: string;
+  name: string;
+  phone: string | null;
+  cedula: string | null;
+  provincia: string | null;
+  municipio: string | null;
+  address: string | null;
+  bookingsCount: number;
+  lastBookingAt: string | null;
+}
+
+/** Booking (invoice batch) on a customer profile. */
+export interface CustomerBookingDTO {
+  batchId: string;
+  reference: string;
+  tourNames: string[];
+  currency: string;
+  fechaVisita: string | null;
+  createdAt: string;
+  total: number;
+  pendiente: number;
+  isPaid: boolean;
+  isVoided: boolean;
+  supervisor: string | null;
+}
+
+/** Customer profile: details, booking history, totals per currency and WhatsApp thread. */
+export interface CustomerProfileDTO {
+  customer: CustomerDTO;
+  bookings: CustomerBookingDTO[];
+  /** Total of non-voided bookings per currency. */
+  lifetimeSpend: CurrencyAmounts;
+  /** Still owed on non-voided, unpaid bookings per currency. */
+  outstanding: CurrencyAmounts;
+  messages: WhatsAppMessageLog[];
+}
+
+/** Result of a backfill run. */
+export interface CustomerBackfillResult {
+  linkedSales: number;
+  createdCustomers: number;
+  /** Sales whose phone and cédula are both unusable (too short); left unlinked. */
+  skippedSales: number;
+}
+
+/**
+ * Normalizes a cédula/passport for matching: uppercase, letters and digits only.
+ * @returns The key, or null when too short to identify someone
+ */
+export function normalizeCedula(cedula: string | null | undefined): string | null {
+  const key = (cedula ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return key.length >= MIN_CEDULA_LENGTH ? key : null;
+}
+
+/**
+ * Normalizes a phone for matching (same digits as WhatsApp threads).
+ * @returns The key, or null when too short to identify someone
+ */
+export function normalizeCustomerPhone(phone: string | null | undefined): string | null {
+  const key = normalizePhone(phone ?? "");
+  return key.length >= MIN_PHONE_DIGITS ? key : null;
+}
+
+/**
+ * Trims a text field; empty values become null.
+ */
+function clean(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+/**
+ * Finds the customer for a booking's details or creates one, and refreshes the stored details.
+ * Matches by normalized phone first, then by cédula/passport. Non-empty values from the booking
+ * overwrite the stored ones (latest booking wins); phone/cédula are only added when no other customer has them.
+ * Unauthenticated bookings (overwrite false) only fill the fields the customer does not have yet, so a web
+ * booking with someone else's phone cannot change their details.
+ * @param tx - Transaction client
+ * @param details - Customer fields as entered on the booking
+ * @param options.overwrite - Whether booking values replace stored ones (default true; false for web bookings)
+ * @returns Customer ID, or null when the booking has neither a usable phone nor cédula
+ */
+export async function linkCustomer(
+  tx: DbClient,
+  details: CustomerDetails,
+  options: { overwrite?: boolean } = {}
+): Promise<string | null> {
+  const phone = normalizeCustomerPhone(details.customerPhone);
+  const cedula = normalizeCedula(details.cedula);
+  if (!phone && !cedula) return null;
+
+  const byPhone = phone ? await tx.customer.findUnique({ where: { phone } }) : null;
+  const byCedula = cedula ? await tx.customer.findUnique({ where: { cedula } }) : null;
+  const existing = byPhone ?? byCedula;
+
+  const name = clean(details.customerName);
+  const provincia = clean(details.provincia);
+  const municipio = clean(details.municipio);
+  const address = clean(details.customerAddress);
+
+  if (!existing) {
+    const created = await tx.customer.create({
+      data: { name: name ?? "", phone, cedula, provincia, municipio, address },
+    });
+    return created.id;
+  }
+
+  const overwrite = options.overwrite ?? true;
+  const data: Prisma.CustomerUpdateInput = {};
+  if (name && name !== existing.name && (overwrite || !existing.name)) data.name = name;
+  if (provincia && provincia !== existing.provincia && (overwrite || !existing.provincia)) data.provincia = provincia;
+  if (municipio && municipio !== existing.municipio && (overwrite || !existing.municipio)) data.municipio = municipio;
+  if (address && address !== existing.address && (overwrite || !existing.address)) data.address = address;
+  if (phone && !existing.phone && !byPhone) data.phone = phone;
+  // Cédula matched a different customer than the phone: keep both records, link by phone
+  if (cedula && !existing.cedula && !byCedula) data.cedula = cedula;
+  if (Object.keys(data).length > 0) {
+    await tx.customer.update({ where: { id: existing.id }, data });
+  }
+  return existing.id;
+}
+
+/**
+ * Supervisor scope for customer queries: customers with at least one sale of the supervisor.
+ */
+function scopeWhere(scope: { supervisor?: string }): Prisma.CustomerWhereInput {
+  return scope.supervisor ? { sales: { some: { supervisor: scope.supervisor } } } : {};
+}
+
+/**
+ * Maps customers to DTOs with booking counts (distinct batches) and last booking date.
+ */
+async function toCustomerDTOs(customers: Customer[], scope: { supervisor?: string }): Promise<CustomerDTO[]> {
+  if (customers.length === 0) return [];
+  const batches = await db.sale.groupBy({
+    by: ["customerId", "batchId"],
+    where: { customerId: { in: customers.map((c) => c.id) }, ...scope },
+    _max: { createdAt: true },
+  });
+  const stats = new Map<string, { count: number; last: Date | null }>();
+  for (const row of batches) {
+    if (!row.customerId) continue;
+    const entry = stats.get(row.customerId) ?? { count: 0, last: null };
+    entry.count += 1;
+    const createdAt = row._max.createdAt;
+    if (createdAt && (!entry.last || createdAt > entry.last)) entry.last = createdAt;
+    stats.set(row.customerId, entry);
+  }
+  return customers.map((c) => ({
+    id: c.id,
+    name: c.name,
+    phone: c.phone,
+    cedula: c.cedula,
+    provincia: c.provincia,
+    municipio: c.municipio,
+    address: c.address,
+    bookingsCount: stats.get(c.id)?.count ?? 0,
+    lastBookingAt: stats.get(c.id)?.last?.toISOString() ?? null,
+  }));
+}
+
+/**
+ * Searches the customer directory by name, phone or cédula (most recently updated first).
+ * @param query - Free text; digits also match normalized phone/cédula
+ * @param scope - Supervisor scope (only customers with their sales)
+ * @param limit - Max results
+ */
+export async function searchCustomers(
+  query: string,
+  scope: { supervisor?: string } = {},
+  limit = 20
+): Promise<CustomerDTO[]> {
+  const q = query.trim();
+  const digits = q.replace(/\D/g, "");
+  const idKey = q.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const or: Prisma.CustomerWhereInput[] = [];
+  if (q) or.push({ name: { contains: q, mode: "insensitive" } });
+  if (digits.length >= 3) or.push({ phone: { contains: digits } });
+  if (idKey.length >= 3) or.push({ cedula: { contains: idKey } });
+
+  const customers = await db.customer.findMany({
+    where: { ...(or.length > 0 ? { OR: or } : {}), ...scopeWhere(scope) },
+    orderBy: { updatedAt: "desc" },
+    take: limit,
+  });
+  return toCustomerDTOs(customers, scope);
+}
+
+/**
+ * Customer profile with booking history, lifetime spend, outstanding balance and WhatsApp messages.
+ * @param id - Customer ID
+ * @param scope - Supervisor scope (only their bookings; null when they have none with this customer)
+ * @returns Profile, or null when not found
+ */
+export async function getCustomerProfile(
+  id: string,
+  scope: { supervisor?: string } = {}
+): Promise<CustomerProfileDTO | null> {
+  const customer = await db.customer.findFirst({ where: { id, ...scopeWhere(scope) } });
+  if (!customer) return null;
+
+  const sales = await db.sale.findMany({
+    where: { customerId: id, ...scope },
+    include: { tour: { select: { name: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const bookings = new Map<string, CustomerBookingDTO>();
+  const lifetimeSpend: CurrencyAmounts = {};
+  const outstanding: CurrencyAmounts = {};
+  for (const sale of sales) {
+    const currency = sale.currency || BASE_CURRENCY;
+    const pendiente = sale.isPaid ? 0 : sale.pendiente ?? sale.total;
+    const isVoided = Boolean(sale.voidedAt);
+    if (!isVoided) {
+      addCurrencyAmount(lifetimeSpend, currency, sale.total);
+      addCurrencyAmount(outstanding, currency, pendiente);
+    }
+    const existing = bookings.get(sale.batchId);
+    if (!existing) {
+      bookings.set(sale.batchId, {
+        batchId: sale.batchId,
+        reference: getBookingReference(sale.batchId),
+        tourNames: sale.tour?.name ? [sale.tour.name] : [],
+        currency,
+        fechaVisita: sale.fechaVisita?.toISOString() ?? null,
+        createdAt: sale.createdAt.toISOString(),
+        total: sale.total,
+        pendiente,
+        isPaid: sale.isPaid,
+        isVoided,
+        supervisor: sale.supervisor,
+      });
+      continue;
+    }
+    existing.total += sale.total;
+    existing.pendiente += pendiente;
+    if (sale.tour?.name && !existing.tourNames.includes(sale.tour.name)) {
+      existing.tourNames.push(sale.tour.name);
+    }
+  }
+
+  const [dto] = await toCustomerDTOs([customer], scope);
+  const messages = customer.phone ? await getThreadMessages(customer.phone, PROFILE_MESSAGES) : [];
+
+  return {
+    customer: dto,
+    bookings: Array.from(bookings.values()),
+    lifetimeSpend,
+    outstanding,
+    messages,
+  };
+}
+
+/**
+ * Links existing sales without a customer to the directory. Batches are processed oldest first,
+ * so the latest booking's details win. Idempotent: already linked sales are left as they are.
+ * Sales with neither a usable phone nor cédula stay unlinked and are counted as skipped.
+ */
+export async function backfillCustomers(): Promise<CustomerBackfillResult> {
+  type PendingLine = CustomerDetails & { id: string; batchId: string; createdAt: Date };
+  const firstLineByBatch = new Map<string, PendingLine>();
+  let lastId: string | undefined;
+  for (;;) {
+    const page: PendingLine[] = await db.sale.findMany({
+      where: {
+        customerId: null,
+        OR: [{ customerPhone: { not: null } }, { cedula: { not: null } }],
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      select: {
+        id: true,
+        batchId: true,
+        createdAt: true,
+        customerName: true,
+        customerPhone: true,
+        cedula: true,
+        provincia: true,
+        municipio: true,
+        customerAddress: true,
+      },
+      orderBy: { id: "asc" },
+      take: BACKFILL_PAGE,
+    });
+    // All lines of a batch share the customer fields; keep the earliest line
+    for (const line of page) {
+      const current = firstLineByBatch.get(line.batchId);
+      if (!current || line.createdAt < current.createdAt) firstLineByBatch.set(line.batchId, line);
+    }
+    if (page.length < BACKFILL_PAGE) break;
+    lastId = page[page.length - 1].id;
+  }
+
+  const batches = Array.from(firstLineByBatch.entries()).sort(
+    ([, a], [, b]) => a.createdAt.getTime() - b.createdAt.getTime()
+  );
+  const customersBefore = await db.customer.count();
+  let linkedSales = 0;
+  let skippedSales = 0;
+  for (const [batchId, line] of batches) {
+    const linked = await db.$transaction(async (tx) => {
+      const id = await linkCustomer(tx, line);
+      const result = await tx.sale.updateMany({
+        where: { batchId, customerId: null },
+        data: { customerId: id },
+      });
+      return { id, count: result.count };
+    });
+    if (linked.id) linkedSales += linked.count;
+    else skippedSales += linked.count;
+  }
+  const createdCustomers = (await db.customer.count()) - customersBefore;
+
+  return { linkedSales, createdCustomers, skippedSales };
+}
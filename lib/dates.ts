@@ -0,0 +1,13 @@
+/**
+ * Date helpers shared by lib modules and API routes. Days are UTC calendar days.
+ */
+
+/** Milliseconds in a day. */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of today UTC (00:00:00.000). */
+export function startOfTodayUTC(): Date {
+  const d = new Date();
+  d.setUTCHours(0, 0, 0, 0);
+  return d;
+}
@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, type Prisma } from "@prisma/client";
 
 /**
  * When only DATABASE_URL is set (e.g. Neon single URL), derive DIRECT_URL for schema.
@@ -25,3 +25,6 @@ export const db = globalForPrisma.prisma ?? new PrismaClient();
 if (process.env.NODE_ENV !== "production") {
   globalForPrisma.prisma = db;
 }
+
+/** Prisma client or interactive transaction client (lib functions that also run inside db.$transaction). */
+export type DbClient = Prisma.TransactionClient;
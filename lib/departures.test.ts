@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { getDepartureSeatsLeft } from "./departures";
+
+describe("getDepartureSeatsLeft", () => {
+  it("returns the seats not booked yet", () => {
+    expect(getDepartureSeatsLeft({ capacity: 20, booked: 12 })).toBe(8);
+  });
+
+  it("never goes below 0 when the departure is overbooked", () => {
+    expect(getDepartureSeatsLeft({ capacity: 10, booked: 12 })).toBe(0);
+  });
+
+  it("is unlimited when capacity is -1", () => {
+    expect(getDepartureSeatsLeft({ capacity: -1, booked: 500 })).toBe(Infinity);
+  });
+});
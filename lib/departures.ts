@@ -0,0 +1,249 @@
+import type { TourDeparture } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import { UNLIMITED_STOCK } from "./validation";
+import { startOfTodayUTC } from "./dates";
+
+/** Departure data sent to client components (catalog, booking form, admin). */
+export interface DepartureDTO {
+  id: string;
+  tourId: string;
+  date: string;
+  capacity: number;
+  booked: number;
+  /** Seats left; null when capacity is unlimited. */
+  seatsLeft: number | null;
+}
+
+/**
+ * Normalizes a tour date to noon UTC of its calendar day (same convention as getNextOccurrence).
+ * Departures are unique per tour and normalized date.
+ * @param date - Date or ISO string (YYYY-MM-DD or full ISO)
+ */
+export function toDepartureDate(date: Date | string): Date {
+  const d = typeof date === "string" ? new Date(date) : new Date(date);
+  d.setUTCHours(12, 0, 0, 0);
+  return d;
+}
+
+/**
+ * Seats still available on a departure.
+ * @returns Seats left, or Infinity when capacity is unlimited (-1)
+ */
+export function getDepartureSeatsLeft(departure: { capacity: number; booked: number }): number {
+  if (departure.capacity === UNLIMITED_STOCK) return Infinity;
+  return Math.max(0, departure.capacity - departure.booked);
+}
+
+/**
+ * Maps a departure row to its client DTO.
+ */
+export function toDepartureDTO(departure: TourDeparture): DepartureDTO {
+  const seatsLeft = getDepartureSeatsLeft(departure);
+  return {
+    id: departure.id,
+    tourId: departure.tourId,
+    date: departure.date.toISOString(),
+    capacity: departure.capacity,
+    booked: departure.booked,
+    seatsLeft: Number.isFinite(seatsLeft) ? seatsLeft : null,
+  };
+}
+
+/**
+ * Lists departures of a tour from today on, ordered by date.
+ * @param tourId - Tour ID
+ * @param limit - Max departures to return (default 20)
+ */
+export async function getUpcomingDepartures(tourId: string, limit = 20): Promise<TourDeparture[]> {
+  return db.tourDeparture.findMany({
+    where: { tourId, date: { gte: startOfTodayUTC() } },
+    orderBy: { date: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Seats left for a tour on a date: the existing departure's seats, or the tour's default capacity
+ * when the departure has not been created yet.
+ * @param tourId - Tour ID
+ * @param date - Tour date
+ * @returns Seats left (Infinity when unlimited, 0 when the tour does not exist)
+ */
+export async function getSeatsLeftForDate(tourId: string, date: Date | string): Promise<number> {
+  const departure = await db.tourDeparture.findUnique({
+    where: { tourId_date: { tourId, date: toDepartureDate(date) } },
+  });
+  if (departure) return getDepartureSeatsLeft(departure);
+  const tour = await db.tour.findUnique({ where: { id: tourId }, select: { stock: true } });
+  if (!tour) return 0;
+  return getDepartureSeatsLeft({ capacity: tour.stock, booked: 0 });
+}
+
+/**
+ * Finds the departure of a tour on a date without creating it (public bookings only take scheduled dates).
+ * @param client - Prisma client or transaction client
+ * @param tourId - Tour ID
+ * @param date - Tour date (normalized to noon UTC)
+ * @returns The departure, or null when there is none that day
+ */
+export async function findDeparture(
+  client: DbClient,
+  tourId: string,
+  date: Date | string
+): Promise<TourDeparture | null> {
+  return client.tourDeparture.findUnique({
+    where: { tourId_date: { tourId, date: toDepartureDate(date) } },
+  });
+}
+
+/**
+ * Finds the departure for a tour and date, creating it with the tour's default capacity (Tour.stock) when missing.
+ * @param tx - Transaction client
+ * @param tourId - Tour ID
+ * @param date - Tour date (normalized to noon UTC)
+ */
+export async function findOrCreateDeparture(
+  tx: DbClient,
+  tourId: string,
+  date: Date | string
+): Promise<TourDeparture> {
+  const departureDate = toDepartureDate(date);
+  const existing = await tx.tourDeparture.findUnique({
+    where: { tourId_date: { tourId, date: departureDate } },
+  });
+  if (existing) return existing;
+
+  const tour = await tx.tour.findUnique({ where: { id: tourId }, select: { stock: true } });
+  if (!tour) throw new Error("Tour no encontrado");
+  return tx.tourDeparture.create({
+    data: { tourId, date: departureDate, capacity: tour.stock },
+  });
+}
+
+/**
+ * Reserves seats on a departure and increments the tour's booked total.
+ * The seat check and the increment are one conditional update, so concurrent bookings cannot overbook.
+ * @param tx - Transaction client
+ * @param departureId - Departure ID
+ * @param quantity - Seats to reserve
+ * @throws DomainError 404 when the departure does not exist, 409 when it does not have enough seats left
+ */
+export async function reserveDepartureSeats(
+  tx: DbClient,
+  departureId: string,
+  quantity: number
+): Promise<TourDeparture> {
+  const departure = await tx.tourDeparture.findUnique({ where: { id: departureId } });
+  if (!departure) throw new DomainError("Salida no encontrada", 404);
+  const reserved = await tx.tourDeparture.updateMany({
+    where: {
+      id: departureId,
+      ...(departure.capacity !== UNLIMITED_STOCK ? { booked: { lte: departure.capacity - quantity } } : {}),
+    },
+    data: { booked: { increment: quantity } },
+  });
+  if (reserved.count === 0) {
+    const current = await tx.tourDeparture.findUnique({ where: { id: departureId } });
+    const seatsLeft = getDepartureSeatsLeft(current ?? departure);
+    throw new DomainError(
+      `Plazas insuficientes para la salida del ${departure.date.toISOString().slice(0, 10)}. Disponibles: ${seatsLeft}`,
+      409
+    );
+  }
+  await tx.tour.update({
+    where: { id: departure.tourId },
+    data: { sold: { increment: quantity } },
+  });
+  return tx.tourDeparture.findUniqueOrThrow({ where: { id: departureId } });
+}
+
+/**
+ * Takes seats off a tour's sold total without reading it first, so a concurrent increment is never
+ * overwritten. The guarded decrement covers the usual case; when fewer seats are counted the total
+ * is floored at 0.
+ * @param tx - Transaction client
+ * @param tourId - Tour ID
+ * @param quantity - Seats to take off
+ */
+async function decrementTourSold(tx: DbClient, tourId: string, quantity: number): Promise<void> {
+  const released = await tx.tour.updateMany({
+    where: { id: tourId, sold: { gte: quantity } },
+    data: { sold: { decrement: quantity } },
+  });
+  if (released.count === 0) {
+    await tx.tour.updateMany({ where: { id: tourId, sold: { lt: quantity } }, data: { sold: 0 } });
+  }
+}
+
+/**
+ * Releases seats on a departure (void, removed line, lower quantity). Counters never go below 0.
+ * Both counters are decremented atomically so a concurrent reservation is never lost.
+ * @param tx - Transaction client
+ * @param departureId - Departure ID
+ * @param quantity - Seats to release
+ */
+export async function releaseDepartureSeats(
+  tx: DbClient,
+  departureId: string,
+  quantity: number
+): Promise<void> {
+  const departure = await tx.tourDeparture.findUnique({ where: { id: departureId }, select: { tourId: true } });
+  if (!departure) return;
+  const released = await tx.tourDeparture.updateMany({
+    where: { id: departureId, booked: { gte: quantity } },
+    data: { booked: { decrement: quantity } },
+  });
+  if (released.count === 0) {
+    await tx.tourDeparture.updateMany({ where: { id: departureId, booked: { lt: quantity } }, data: { booked: 0 } });
+  }
+  await decrementTourSold(tx, departure.tourId, quantity);
+}
+
+/**
+ * Sets the capacity of a departure. Capacity cannot drop below seats already booked.
+ * @param tx - Transaction client (the caller records the audit event in the same transaction)
+ * @param departureId - Departure ID
+ * @param capacity - New capacity (-1 = unlimited)
+ * @throws DomainError 404 when the departure does not exist, 400 when capacity is below the seats booked
+ */
+export async function updateDepartureCapacity(
+  tx: DbClient,
+  departureId: string,
+  capacity: number
+): Promise<TourDeparture> {
+  const departure = await tx.tourDeparture.findUnique({ where: { id: departureId } });
+  if (!departure) throw new DomainError("Salida no encontrada", 404);
+  if (capacity !== UNLIMITED_STOCK && capacity < departure.booked) {
+    throw new DomainError(`La capacidad no puede ser menor que las plazas reservadas (${departure.booked})`);
+  }
+  return tx.tourDeparture.update({
+    where: { id: departureId },
+    data: { capacity },
+  });
+}
+
+/**
+ * Applies a seat delta for a sale line: reserves (delta > 0) or releases (delta < 0) seats on its departure.
+ * Legacy lines without a departure only adjust the tour's booked total.
+ * @param tx - Transaction client
+ * @param line - Sale line's tourId and departureId
+ * @param delta - Seats to add (positive) or remove (negative)
+ */
+export async function applySeatDelta(
+  tx: DbClient,
+  line: { tourId: string; departureId: string | null },
+  delta: number
+): Promise<void> {
+  if (delta === 0) return;
+  if (line.departureId) {
+    if (delta > 0) await reserveDepartureSeats(tx, line.departureId, delta);
+    else await releaseDepartureSeats(tx, line.departureId, -delta);
+    return;
+  }
+  if (delta > 0) {
+    await tx.tour.updateMany({ where: { id: line.tourId }, data: { sold: { increment: delta } } });
+  } else {
+    await decrementTourSold(tx, line.tourId, -delta);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Business rule violation raised by lib functions (no NCF available, seats taken, already cancelled, ...).
+ * `status` is the HTTP status the API route returns with the message.
+ */
+export class DomainError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "DomainError";
+  }
+}
@@ -0,0 +1,126 @@
+import type { ExchangeRate } from "@prisma/client";
+import { db } from "./db";
+import { BASE_CURRENCY, type CreateExchangeRateInput } from "./validation";
+
+/** Exchange rate as returned by the API (Ajustes → Tasas de cambio). */
+export interface ExchangeRateDTO {
+  id: string;
+  currency: string;
+  rate: number;
+  /** YYYY-MM-DD */
+  effectiveDate: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * Converts amounts to the base currency with the rate effective on a given date.
+ * Currencies without any recorded rate are collected in `missingCurrencies` and converted as 0,
+ * so callers can warn that the base total is incomplete.
+ */
+export interface CurrencyConverter {
+  /**
+   * @param amount - Amount in `currency`
+   * @param currency - Currency symbol of the amount
+   * @param at - Date whose rate applies (sale date)
+   * @returns Amount in the base currency, rounded to cents
+   */
+  toBase(amount: number, currency: string, at: Date): number;
+  /** Currencies that had no rate at all. */
+  missingCurrencies: Set<string>;
+}
+
+/**
+ * Start (00:00 UTC) of a YYYY-MM-DD day; rates apply from the beginning of their day.
+ */
+function toEffectiveDate(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+/**
+ * Maps an exchange rate row to its DTO.
+ */
+function toExchangeRateDTO(rate: ExchangeRate): ExchangeRateDTO {
+  return {
+    id: rate.id,
+    currency: rate.currency,
+    rate: rate.rate,
+    effectiveDate: rate.effectiveDate.toISOString().slice(0, 10),
+    createdBy: rate.createdBy,
+    createdAt: rate.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Lists exchange rates, newest first per currency.
+ */
+export async function listExchangeRates(): Promise<ExchangeRateDTO[]> {
+  const rates = await db.exchangeRate.findMany({
+    orderBy: [{ currency: "asc" }, { effectiveDate: "desc" }],
+  });
+  return rates.map(toExchangeRateDTO);
+}
+
+/**
+ * Records the rate of a currency for a day; replaces the rate already set for that day.
+ * @param input - Validated CreateExchangeRateSchema input
+ * @param createdBy - Who recorded it (role)
+ */
+export async function upsertExchangeRate(
+  input: CreateExchangeRateInput,
+  createdBy: string | null
+): Promise<ExchangeRateDTO> {
+  const effectiveDate = toEffectiveDate(input.effectiveDate);
+  const rate = await db.exchangeRate.upsert({
+    where: { currency_effectiveDate: { currency: input.currency, effectiveDate } },
+    update: { rate: input.rate, createdBy },
+    create: { currency: input.currency, rate: input.rate, effectiveDate, createdBy },
+  });
+  return toExchangeRateDTO(rate);
+}
+
+/**
+ * Deletes an exchange rate.
+ * @returns false when it did not exist
+ */
+export async function deleteExchangeRate(id: string): Promise<boolean> {
+  const result = await db.exchangeRate.deleteMany({ where: { id } });
+  return result.count > 0;
+}
+
+/**
+ * Loads all rates and returns a converter to the base currency.
+ * Uses the latest rate effective on or before the date; dates before the first rate use the oldest one.
+ */
+export async function loadCurrencyConverter(): Promise<CurrencyConverter> {
+  const rates = await db.exchangeRate.findMany({
+    orderBy: { effectiveDate: "asc" },
+    select: { currency: true, rate: true, effectiveDate: true },
+  });
+  const byCurrency = new Map<string, { rate: number; from: number }[]>();
+  for (const r of rates) {
+    const list = byCurrency.get(r.currency) ?? [];
+    list.push({ rate: r.rate, from: r.effectiveDate.getTime() });
+    byCurrency.set(r.currency, list);
+  }
+
+  const missingCurrencies = new Set<string>();
+  return {
+    missingCurrencies,
+    toBase(amount, currency, at) {
+      if (currency === BASE_CURRENCY || amount === 0) return amount;
+      const list = byCurrency.get(currency);
+      if (!list || list.length === 0) {
+        missingCurrencies.add(currency);
+        return 0;
+      }
+      const time = at.getTime();
+      let rate = list[0].rate;
+      for (const entry of list) {
+        if (entry.from > time) break;
+        rate = entry.rate;
+      }
+      return Math.round(amount * rate * 100) / 100;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { computeItbis } from "./fiscal";
+
+describe("computeItbis", () => {
+  it("extracts ITBIS from a total that already includes it", () => {
+    expect(computeItbis(1180, 0.18, true)).toEqual({ subtotal: 1000, itbis: 180, total: 1180 });
+  });
+
+  it("keeps subtotal + ITBIS equal to the total when rounding", () => {
+    const { subtotal, itbis, total } = computeItbis(1000, 0.18, true);
+    expect(subtotal).toBe(847.46);
+    expect(itbis).toBe(152.54);
+    expect(subtotal + itbis).toBeCloseTo(total, 2);
+  });
+
+  it("adds ITBIS on top when prices exclude it", () => {
+    expect(computeItbis(1000, 0.18, false)).toEqual({ subtotal: 1000, itbis: 180, total: 1180 });
+  });
+
+  it("is all zero on a zero amount", () => {
+    expect(computeItbis(0, 0.18, true)).toEqual({ subtotal: 0, itbis: 0, total: 0 });
+  });
+});
@@ -0,0 +1,307 @@
+import type { FiscalInvoice, NcfSequence, Prisma } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import { getAdminSettings } from "./settings";
+import { recordAuditEvent, type AuditActor } from "./audit";
+import type {
+  CreateNcfSequenceInput,
+  IssueFiscalInvoiceInput,
+  NcfType,
+  UpdateNcfSequenceInput,
+} from "./validation";
+
+/** Attempts to claim a number before giving up (another invoice took the same one). */
+const MAX_CLAIM_ATTEMPTS = 5;
+
+/** NCF sequence for Ajustes. */
+export interface NcfSequenceDTO {
+  id: string;
+  type: string;
+  rangeFrom: number;
+  rangeTo: number;
+  nextNumber: number;
+  /** Numbers still available. */
+  remaining: number;
+  expiresAt: string;
+  isActive: boolean;
+  isExpired: boolean;
+  createdAt: string;
+}
+
+/** Comprobante fiscal of an invoice (invoice detail, PDF). */
+export interface FiscalInvoiceDTO {
+  batchId: string;
+  ncf: string;
+  ncfType: string;
+  ncfExpiresAt: string;
+  customerRnc: string | null;
+  customerName: string;
+  subtotal: number;
+  itbis: number;
+  itbisRate: number;
+  total: number;
+  issuedAt: string;
+  issuedBy: string | null;
+}
+
+/**
+ * Formats an NCF: type + 8-digit sequence number (e.g. B0100000001).
+ */
+export function formatNcf(type: string, number: number): string {
+  return `${type}${String(number).padStart(8, "0")}`;
+}
+
+/** Rounds to cents. */
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Splits an invoice amount into subtotal and ITBIS.
+ * @param amount - Invoice total as sold
+ * @param rate - ITBIS rate (e.g. 0.18)
+ * @param pricesIncludeItbis - When true, ITBIS is extracted from the amount; otherwise added on top
+ */
+export function computeItbis(
+  amount: number,
+  rate: number,
+  pricesIncludeItbis: boolean
+): { subtotal: number; itbis: number; total: number } {
+  if (pricesIncludeItbis) {
+    const subtotal = roundMoney(amount / (1 + rate));
+    return { subtotal, itbis: roundMoney(amount - subtotal), total: roundMoney(amount) };
+  }
+  const itbis = roundMoney(amount * rate);
+  return { subtotal: roundMoney(amount), itbis, total: roundMoney(amount + itbis) };
+}
+
+/** End of the given YYYY-MM-DD day (UTC) so a sequence is valid through its expiry date. */
+function toExpiryDate(day: string): Date {
+  return new Date(`${day}T23:59:59.999Z`);
+}
+
+/**
+ * Maps a sequence row to its DTO.
+ */
+function toNcfSequenceDTO(sequence: NcfSequence, now = new Date()): NcfSequenceDTO {
+  return {
+    id: sequence.id,
+    type: sequence.type,
+    rangeFrom: sequence.rangeFrom,
+    rangeTo: sequence.rangeTo,
+    nextNumber: sequence.nextNumber,
+    remaining: Math.max(0, sequence.rangeTo - sequence.nextNumber + 1),
+    expiresAt: sequence.expiresAt.toISOString(),
+    isActive: sequence.isActive,
+    isExpired: sequence.expiresAt < now,
+    createdAt: sequence.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Maps a fiscal invoice row to its DTO.
+ */
+export function toFiscalInvoiceDTO(fiscal: FiscalInvoice): FiscalInvoiceDTO {
+  return {
+    batchId: fiscal.batchId,
+    ncf: fiscal.ncf,
+    ncfType: fiscal.ncfType,
+    ncfExpiresAt: fiscal.ncfExpiresAt.toISOString(),
+    customerRnc: fiscal.customerRnc,
+    customerName: fiscal.customerName,
+    subtotal: fiscal.subtotal,
+    itbis: fiscal.itbis,
+    itbisRate: fiscal.itbisRate,
+    total: fiscal.total,
+    issuedAt: fiscal.issuedAt.toISOString(),
+    issuedBy: fiscal.issuedBy,
+  };
+}
+
+/**
+ * Lists NCF sequences, by type then oldest first (the order numbers are taken in).
+ */
+export async function listNcfSequences(): Promise<NcfSequenceDTO[]> {
+  const sequences = await db.ncfSequence.findMany({
+    orderBy: [{ type: "asc" }, { createdAt: "asc" }],
+  });
+  const now = new Date();
+  return sequences.map((s) => toNcfSequenceDTO(s, now));
+}
+
+/**
+ * Registers a new NCF sequence. Ranges of the same type cannot overlap.
+ */
+export async function createNcfSequence(input: CreateNcfSequenceInput): Promise<NcfSequenceDTO> {
+  const overlapping = await db.ncfSequence.findFirst({
+    where: {
+      type: input.type,
+      rangeFrom: { lte: input.rangeTo },
+      rangeTo: { gte: input.rangeFrom },
+    },
+  });
+  if (overlapping) {
+    throw new DomainError(
+      `El rango se solapa con otra secuencia ${input.type} (${overlapping.rangeFrom}–${overlapping.rangeTo})`,
+      409
+    );
+  }
+  const sequence = await db.ncfSequence.create({
+    data: {
+      type: input.type,
+      rangeFrom: input.rangeFrom,
+      rangeTo: input.rangeTo,
+      nextNumber: input.rangeFrom,
+      expiresAt: toExpiryDate(input.expiresAt),
+    },
+  });
+  return toNcfSequenceDTO(sequence);
+}
+
+/**
+ * Updates an NCF sequence. The range cannot shrink below numbers already assigned.
+ */
+export async function updateNcfSequence(
+  id: string,
+  input: UpdateNcfSequenceInput
+): Promise<NcfSequenceDTO> {
+  const sequence = await db.ncfSequence.findUnique({ where: { id } });
+  if (!sequence) throw new DomainError("Secuencia no encontrada", 404);
+  if (input.rangeTo !== undefined && input.rangeTo < sequence.nextNumber - 1) {
+    throw new DomainError(
+      `El rango final no puede ser menor que el último número asignado (${sequence.nextNumber - 1})`
+    );
+  }
+  const updated = await db.ncfSequence.update({
+    where: { id },
+    data: {
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+      ...(input.rangeTo !== undefined ? { rangeTo: input.rangeTo } : {}),
+      ...(input.expiresAt ? { expiresAt: toExpiryDate(input.expiresAt) } : {}),
+    },
+  });
+  return toNcfSequenceDTO(updated);
+}
+
+/**
+ * Deletes an NCF sequence. Only sequences that never assigned a number can be deleted.
+ */
+export async function deleteNcfSequence(id: string): Promise<void> {
+  const sequence = await db.ncfSequence.findUnique({ where: { id } });
+  if (!sequence) throw new DomainError("Secuencia no encontrada", 404);
+  if (sequence.nextNumber > sequence.rangeFrom) {
+    throw new DomainError("La secuencia ya tiene comprobantes emitidos; desactívala en su lugar", 409);
+  }
+  await db.ncfSequence.delete({ where: { id } });
+}
+
+/**
+ * Takes the next free number from the oldest active, unexpired sequence of the type.
+ * The increment only succeeds if nobody took the number first, so two invoices never share an NCF.
+ * @param tx - Transaction client
+ * @param type - NCF type
+ * @returns The sequence and the number assigned
+ */
+async function claimNextNcfNumber(
+  tx: DbClient,
+  type: NcfType
+): Promise<{ sequence: NcfSequence; number: number }> {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const candidates = await tx.ncfSequence.findMany({
+      where: { type, isActive: true, expiresAt: { gte: new Date() } },
+      orderBy: { createdAt: "asc" },
+    });
+    const sequence = candidates.find((s) => s.nextNumber <= s.rangeTo);
+    if (!sequence) {
+      throw new DomainError(`No hay secuencia ${type} vigente con números disponibles. Regístrala en Ajustes.`, 409);
+    }
+    const claimed = await tx.ncfSequence.updateMany({
+      where: { id: sequence.id, nextNumber: sequence.nextNumber },
+      data: { nextNumber: { increment: 1 } },
+    });
+    if (claimed.count === 1) return { sequence, number: sequence.nextNumber };
+  }
+  throw new DomainError("No se pudo asignar el NCF, intenta de nuevo", 409);
+}
+
+/**
+ * Finalizes an invoice as a comprobante fiscal: assigns the next NCF of the type and fixes
+ * subtotal / ITBIS / total from the batch's non-voided lines. One comprobante per batch.
+ * Only issued while sale prices include ITBIS, so the comprobante total is what the batch charges.
+ * @param batchId - Invoice batch ID
+ * @param input - NCF type, buyer RNC and razón social (defaults to the customer name)
+ * @param actor - Who issues it (audited as invoice.issue_ncf)
+ * @param scope - Sale filter (supervisor scope)
+ */
+export async function issueFiscalInvoice(
+  batchId: string,
+  input: IssueFiscalInvoiceInput,
+  actor: AuditActor,
+  scope: Prisma.SaleWhereInput = {}
+): Promise<FiscalInvoiceDTO> {
+  const settings = await getAdminSettings();
+  // ITBIS on top of the lines would make the comprobante exceed what the batch charges (Sale/Payment ledger)
+  if (!settings.pricesIncludeItbis) {
+    throw new DomainError(
+      "Los precios de venta no incluyen ITBIS: el comprobante superaría el total cobrado. Actívalo en Ajustes → Impuestos antes de emitir el NCF.",
+      409
+    );
+  }
+
+  const fiscal = await db.$transaction(async (tx) => {
+    const sales = await tx.sale.findMany({
+      where: { batchId, voidedAt: null, ...scope },
+      select: { total: true, customerName: true },
+    });
+    if (sales.length === 0) throw new DomainError("Factura no encontrada o anulada", 404);
+
+    const existing = await tx.fiscalInvoice.findUnique({ where: { batchId } });
+    if (existing) throw new DomainError(`La factura ya tiene el NCF ${existing.ncf}`, 409);
+
+    const amounts = computeItbis(
+      sales.reduce((sum, s) => sum + s.total, 0),
+      settings.itbisRate,
+      settings.pricesIncludeItbis
+    );
+    const { sequence, number } = await claimNextNcfNumber(tx, input.ncfType);
+    const created = await tx.fiscalInvoice.create({
+      data: {
+        batchId,
+        ncf: formatNcf(input.ncfType, number),
+        ncfType: input.ncfType,
+        ncfExpiresAt: sequence.expiresAt,
+        sequenceId: sequence.id,
+        customerRnc: input.customerRnc || null,
+        customerName: input.customerName || sales[0].customerName || "Consumidor final",
+        subtotal: amounts.subtotal,
+        itbis: amounts.itbis,
+        itbisRate: settings.itbisRate,
+        total: amounts.total,
+        issuedBy: actor.name,
+      },
+    });
+
+    await recordAuditEvent(tx, actor, {
+      action: "invoice.issue_ncf",
+      entityType: "invoice",
+      entityId: batchId,
+      metadata: {
+        ncf: created.ncf,
+        ncfType: created.ncfType,
+        customerRnc: created.customerRnc,
+        total: created.total,
+        itbis: created.itbis,
+      },
+    });
+    return created;
+  });
+
+  return toFiscalInvoiceDTO(fiscal);
+}
+
+/**
+ * Returns the comprobante fiscal of a batch, or null when none was issued.
+ */
+export async function getFiscalInvoice(batchId: string): Promise<FiscalInvoice | null> {
+  return db.fiscalInvoice.findUnique({ where: { batchId } });
+}
@@ -8,6 +8,9 @@ import { jsPDF } from "jspdf";
 import { formatDate } from "./formatDate";
 import { db } from "./db";
 import { brandConfig } from "./brandConfig";
+import { formatCreditNoteNumber } from "./cancellationPolicy";
+import { generateCheckInQr } from "./checkin";
+import { NCF_TYPE_LABELS, PAYMENT_METHOD_LABELS, type NcfType, type PaymentMethod } from "./validation";
 
 /** Company block for header. */
 export interface InvoiceCompany {
@@ -51,6 +54,24 @@ export interface InvoiceItem {
 export interface InvoicePaymentLine {
   label: string;
   amount: number;
+  /** Date, method and reference of the payment (e.g. "05/02/2026 · Transferencia · Ref 1234"). */
+  detail?: string;
+}
+
+/** Comprobante fiscal data (DGII) printed when the invoice has an NCF. */
+export interface InvoiceFiscalInfo {
+  ncf: string;
+  /** e.g. "Factura de Crédito Fiscal" */
+  title: string;
+  /** NCF sequence expiry (DD/MM/YYYY). */
+  ncfExpiresAt: string;
+  customerRnc: string | null;
+  customerName: string;
+  subtotal: number;
+  itbis: number;
+  /** Rate as a percentage label, e.g. "18%". */
+  itbisRateLabel: string;
+  total: number;
 }
 
 /** Full invoice DTO for PDF generation. */
@@ -62,17 +83,25 @@ export interface InvoiceDTO {
   dates: InvoiceDates;
   paymentTerms: string;
   items: InvoiceItem[];
+  /** Promo code discount, printed as a negative line before SUB-TOTAL (items are listed before it). */
+  discount?: InvoicePaymentLine;
   subTotal: number;
   payments: InvoicePaymentLine[];
   pending: number;
   totalPaid: number;
   sellerName?: string;
   footerNotes?: string[];
+  /** Currency symbol of every amount on the invoice (e.g. "RD$", "US$"). */
+  currency: string;
+  /** Set when a comprobante fiscal (NCF) was issued for the invoice. */
+  fiscal?: InvoiceFiscalInfo;
+  /** Check-in QR code (PNG data URL) scanned at boarding. */
+  checkInQr?: string;
 }
 
-/** Format currency as US$ 1,240.00 */
-export function formatCurrency(amount: number): string {
-  return `US$ ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+/** Format currency as RD$ 1,240.00 / US$ 1,240.00 */
+export function formatCurrency(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
 /** 0.5 inch in points (Letter). */
@@ -81,13 +110,14 @@ const PAGE_W = 612;
 const PAGE_H = 792;
 const CONTENT_W = PAGE_W - MARGIN * 2;
 const LOGO_SIZE = 48;
+const QR_SIZE = 90;
 
 /**
  * Loads logo from public folder (server-side). Returns base64 data URL or null.
  * @param logoPath - Path like /logo.png from brandConfig.
  * @returns "data:image/png;base64,..." or null.
  */
-function loadLogoBase64(logoPath: string): string | null {
+export function loadLogoBase64(logoPath: string): string | null {
   try {
     const path = require("path");
     const fs = require("fs");
@@ -118,6 +148,7 @@ export function generateInvoicePdf(invoice: InvoiceDTO, logoPath?: string): Uint
     format: "letter",
     hotfixes: ["px_scaling"],
   });
+  const money = (amount: number) => formatCurrency(amount, invoice.currency);
   let y = MARGIN;
 
   // Block 1 — Header: logo left (if available), company center, Factura No. right
@@ -145,19 +176,30 @@ export function generateInvoicePdf(invoice: InvoiceDTO, logoPath?: string): Uint
   y += 12;
   doc.text(`RNC: ${invoice.company.rnc}`, centerX - doc.getTextWidth(`RNC: ${invoice.company.rnc}`) / 2, y);
   y += 14;
-  doc.text(`Factura No. ${invoice.invoiceNo}`, PAGE_W - MARGIN - doc.getTextWidth(`Factura No. ${invoice.invoiceNo}`), MARGIN + (logoData ? 24 : 20));
+  const headerRightY = MARGIN + (logoData ? 24 : 20);
+  doc.text(`Factura No. ${invoice.invoiceNo}`, PAGE_W - MARGIN - doc.getTextWidth(`Factura No. ${invoice.invoiceNo}`), headerRightY);
+  if (invoice.fiscal) {
+    const ncfLine = `NCF: ${invoice.fiscal.ncf}`;
+    const expiryLine = `Válido hasta: ${invoice.fiscal.ncfExpiresAt}`;
+    doc.setFont("helvetica", "bold");
+    doc.text(ncfLine, PAGE_W - MARGIN - doc.getTextWidth(ncfLine), headerRightY + 12);
+    doc.setFont("helvetica", "normal");
+    doc.text(expiryLine, PAGE_W - MARGIN - doc.getTextWidth(expiryLine), headerRightY + 24);
+  }
   if (!logoData) y -= 14;
   y += 8;
   doc.setFont("helvetica", "bold");
   doc.setFontSize(14);
-  doc.text("Factura", centerX - doc.getTextWidth("Factura") / 2, y);
+  const title = invoice.fiscal?.title ?? "Factura";
+  doc.text(title, centerX - doc.getTextWidth(title) / 2, y);
   y += 24;
 
   // Block 2 — Customer / Reservation (boxed, 2-col)
   const col1W = 80;
   const col2W = CONTENT_W - col1W;
   const rows: [string, string][] = [
-    ["Cliente", invoice.customer.name],
+    ["Cliente", invoice.fiscal?.customerName ?? invoice.customer.name],
+    ...(invoice.fiscal?.customerRnc ? [["RNC/Cédula", invoice.fiscal.customerRnc] as [string, string]] : []),
     ["Cédula/Passaporte", invoice.customer.passport],
     ["Teléfono", invoice.customer.phone],
     ["Estatus", `${invoice.statusBlock.title}\n${invoice.statusBlock.dateRangeText}`],
@@ -218,28 +260,65 @@ export function generateInvoicePdf(invoice: InvoiceDTO, logoPath?: string): Uint
     doc.text(String(item.qty), MARGIN, y);
     doc.text(item.description.slice(0, 35) + (item.description.length > 35 ? "…" : ""), MARGIN + colCant, y);
     doc.text(item.unit, MARGIN + colCant + colDesc, y);
-    doc.text(formatCurrency(item.unitPrice), MARGIN + colCant + colDesc + colUnidad, y);
-    doc.text(formatCurrency(importe), MARGIN + CONTENT_W - colImporte, y);
+    doc.text(money(item.unitPrice), MARGIN + colCant + colDesc + colUnidad, y);
+    doc.text(money(importe), MARGIN + CONTENT_W - colImporte, y);
     y += 16;
   }
   y += 14;
 
-  // Block 5 — Totals (right-aligned)
+  // Block 5 — Totals (right-aligned); check-in QR on the left
   const totX = MARGIN + CONTENT_W - 120;
-  doc.text("SUB-TOTAL", totX, y);
-  doc.text(formatCurrency(invoice.subTotal), MARGIN + CONTENT_W - doc.getTextWidth(formatCurrency(invoice.subTotal)), y);
-  y += 14;
-  invoice.payments.forEach((p, i) => {
+  let qrBottom = y;
+  if (invoice.checkInQr) {
+    try {
+      doc.addImage(invoice.checkInQr, "PNG", MARGIN, y - 10, QR_SIZE, QR_SIZE);
+      doc.setFontSize(8);
+      doc.text("Check-in: presente este código al abordar", MARGIN, y + QR_SIZE + 2);
+      doc.setFontSize(10);
+      qrBottom = y + QR_SIZE + 12;
+    } catch {
+      // ignore invalid image
+    }
+  }
+  if (invoice.discount) {
+    doc.text(invoice.discount.label, totX, y);
+    const discountText = money(-invoice.discount.amount);
+    doc.text(discountText, MARGIN + CONTENT_W - doc.getTextWidth(discountText), y);
+    y += 14;
+  }
+  if (invoice.fiscal) {
+    // ITBIS breakdown fixed when the NCF was issued
+    const fiscalRows: [string, number][] = [
+      ["SUB-TOTAL", invoice.fiscal.subtotal],
+      [`ITBIS ${invoice.fiscal.itbisRateLabel}`, invoice.fiscal.itbis],
+      ["TOTAL", invoice.fiscal.total],
+    ];
+    for (const [label, amount] of fiscalRows) {
+      doc.text(label, totX, y);
+      doc.text(money(amount), MARGIN + CONTENT_W - doc.getTextWidth(money(amount)), y);
+      y += 14;
+    }
+  } else {
+    doc.text("SUB-TOTAL", totX, y);
+    doc.text(money(invoice.subTotal), MARGIN + CONTENT_W - doc.getTextWidth(money(invoice.subTotal)), y);
+    y += 14;
+  }
+  invoice.payments.forEach((p) => {
+    if (p.detail) {
+      doc.setFontSize(8);
+      doc.text(p.detail, totX - 12 - doc.getTextWidth(p.detail), y);
+      doc.setFontSize(10);
+    }
     doc.text(p.label, totX, y);
-    doc.text(formatCurrency(p.amount), MARGIN + CONTENT_W - doc.getTextWidth(formatCurrency(p.amount)), y);
+    doc.text(money(p.amount), MARGIN + CONTENT_W - doc.getTextWidth(money(p.amount)), y);
     y += 14;
   });
   doc.text("PENDIENTE", totX, y);
-  doc.text(formatCurrency(invoice.pending), MARGIN + CONTENT_W - doc.getTextWidth(formatCurrency(invoice.pending)), y);
+  doc.text(money(invoice.pending), MARGIN + CONTENT_W - doc.getTextWidth(money(invoice.pending)), y);
   y += 14;
   doc.text("TOTAL PAGADO", totX, y);
-  doc.text(formatCurrency(invoice.totalPaid), MARGIN + CONTENT_W - doc.getTextWidth(formatCurrency(invoice.totalPaid)), y);
-  y += 24;
+  doc.text(money(invoice.totalPaid), MARGIN + CONTENT_W - doc.getTextWidth(money(invoice.totalPaid)), y);
+  y = Math.max(y + 24, qrBottom + 10);
 
   // Block 6 — Short terms (clean & concise: 4–6 clauses on one page)
   doc.setFont("helvetica", "bold");
@@ -250,7 +329,7 @@ export function generateInvoicePdf(invoice: InvoiceDTO, logoPath?: string): Uint
   const shortTerms = [
     "1. El pago debe realizarse según las condiciones acordadas.",
     "2. Las cancelaciones están sujetas a la política de la empresa.",
-    "3. Los precios están en dólares estadounidenses (US$) salvo indicación.",
+    `3. Los montos de esta factura están expresados en ${invoice.currency}.`,
     "4. Para reclamaciones, contactar con la empresa en un plazo de 30 días.",
   ];
   for (const line of shortTerms) {
@@ -271,7 +350,7 @@ export function generateInvoicePdf(invoice: InvoiceDTO, logoPath?: string): Uint
 }
 
 /** Build company from env / brandConfig (Guloyas Tours). */
-function getCompany(): InvoiceCompany {
+export function getCompany(): InvoiceCompany {
   const street = process.env.NEXT_PUBLIC_ADDRESS_STREET ?? brandConfig.addressStreet;
   const city = process.env.NEXT_PUBLIC_ADDRESS_CITY ?? brandConfig.addressCity;
   const country = process.env.NEXT_PUBLIC_ADDRESS_COUNTRY ?? brandConfig.addressCountry;
@@ -296,6 +375,9 @@ export interface SaleWithTour {
   tourId: string;
   quantity: number;
   total: number;
+  /** Promo code discount already taken off total. */
+  discount: number;
+  currency: string;
   abono: number | null;
   pendiente: number | null;
   customerName: string | null;
@@ -310,20 +392,101 @@ export interface SaleWithTour {
   tour: { name: string } | null;
 }
 
+/** Comprobante fiscal row (from DB). */
+export interface InvoiceFiscalRecord {
+  ncf: string;
+  ncfType: string;
+  ncfExpiresAt: Date;
+  customerRnc: string | null;
+  customerName: string;
+  subtotal: number;
+  itbis: number;
+  itbisRate: number;
+  total: number;
+}
+
+/**
+ * Maps a comprobante fiscal row to the PDF fiscal block.
+ */
+function toInvoiceFiscalInfo(fiscal: InvoiceFiscalRecord): InvoiceFiscalInfo {
+  const typeLabel = NCF_TYPE_LABELS[fiscal.ncfType as NcfType] ?? fiscal.ncfType;
+  return {
+    ncf: fiscal.ncf,
+    title: `Factura de ${typeLabel}`,
+    ncfExpiresAt: formatDate(fiscal.ncfExpiresAt),
+    customerRnc: fiscal.customerRnc,
+    customerName: fiscal.customerName,
+    subtotal: fiscal.subtotal,
+    itbis: fiscal.itbis,
+    itbisRateLabel: `${Math.round(fiscal.itbisRate * 10000) / 100}%`,
+    total: fiscal.total,
+  };
+}
+
+/** Payment row (from DB) listed on the invoice. */
+export interface InvoicePaymentRecord {
+  amount: number;
+  paidAt: Date;
+  method: string;
+  reference: string | null;
+  reversedAt: Date | null;
+}
+
+/** Refund (credit note) row listed on the invoice. */
+export interface InvoiceRefundRecord {
+  number: number;
+  amount: number;
+  method: string | null;
+  createdAt: Date;
+}
+
 /**
  * Builds an Invoice DTO from a list of sales (e.g. for a batch).
- * Uses first sale for customer; aggregates items and payments.
+ * Uses first sale for customer; aggregates items. Lists every active payment as ABONO n and every
+ * refund as a negative REEMBOLSO line; without payment rows, falls back to the lines' abono total as a single ABONO 1.
+ * Lines are priced before their promo discount, which is shown as a DESCUENTO line; SUB-TOTAL is net of it.
  * @param sales - Sales with product (same batch).
  * @param batchId - Batch ID for invoice number.
+ * @param paymentRecords - Payments of the batch (reversed ones are skipped).
+ * @param fiscal - Comprobante fiscal of the batch (NCF, ITBIS), if issued.
+ * @param refundRecords - Refunds of cancelled passengers of the batch.
+ * @param promoCode - Promo code redeemed on the batch, if any.
  * @returns Invoice DTO.
  */
-export function buildInvoiceFromSales(sales: SaleWithTour[], batchId: string): InvoiceDTO {
+export function buildInvoiceFromSales(
+  sales: SaleWithTour[],
+  batchId: string,
+  paymentRecords: InvoicePaymentRecord[] = [],
+  fiscal?: InvoiceFiscalRecord | null,
+  refundRecords: InvoiceRefundRecord[] = [],
+  promoCode?: string | null
+): InvoiceDTO {
   const first = sales[0];
   const subTotal = sales.reduce((sum, s) => sum + s.total, 0);
+  const discount = sales.reduce((sum, s) => sum + s.discount, 0);
   const totalPaid = sales.reduce((sum, s) => sum + (s.abono ?? 0), 0);
   const pending = first.isPaid ? 0 : sales.reduce((sum, s) => sum + (s.pendiente ?? 0), 0);
-  const payments: InvoicePaymentLine[] = [];
-  if (totalPaid > 0) payments.push({ label: "ABONO 1", amount: totalPaid });
+  const activePayments = paymentRecords.filter((p) => !p.reversedAt);
+  const payments: InvoicePaymentLine[] = activePayments.map((p, i) => ({
+    label: `ABONO ${i + 1}`,
+    amount: p.amount,
+    detail: [
+      formatDate(p.paidAt),
+      PAYMENT_METHOD_LABELS[p.method as PaymentMethod] ?? p.method,
+      p.reference ? `Ref ${p.reference}` : "",
+    ].filter(Boolean).join(" · "),
+  }));
+  if (payments.length === 0 && totalPaid > 0) payments.push({ label: "ABONO 1", amount: totalPaid });
+  for (const r of refundRecords.filter((r) => r.amount > 0)) {
+    payments.push({
+      label: `REEMBOLSO ${formatCreditNoteNumber(r.number)}`,
+      amount: -r.amount,
+      detail: [
+        formatDate(r.createdAt),
+        r.method ? PAYMENT_METHOD_LABELS[r.method as PaymentMethod] ?? r.method : "",
+      ].filter(Boolean).join(" · "),
+    });
+  }
   const issueDate = formatDate(first.createdAt);
   const de = formatDate(first.fechaEntrega);
   const dv = formatDate(first.fechaVisita);
@@ -350,33 +513,62 @@ export function buildInvoiceFromSales(sales: SaleWithTour[], batchId: string): I
       expirationDate,
     },
     paymentTerms: first.isPaid ? "Pagado" : "Pago parcial / Pendiente",
-    items: sales.map((s) => ({
-      qty: s.quantity,
-      description: s.tour?.name ?? "",
-      unit: "PP",
-      unitPrice: s.total / s.quantity,
-    })),
+    items: sales.filter((s) => s.quantity > 0 || s.total > 0).map((s) =>
+      // A line left without seats by a passenger cancellation only holds the retained fee (fully credited ones are hidden)
+      s.quantity > 0
+        ? { qty: s.quantity, description: s.tour?.name ?? "", unit: "PP", unitPrice: (s.total + s.discount) / s.quantity }
+        : { qty: 1, description: `Cargo por cancelación - ${s.tour?.name ?? ""}`, unit: "", unitPrice: s.total + s.discount }
+    ),
+    ...(discount > 0 ? { discount: { label: promoCode ? `DESCUENTO ${promoCode}` : "DESCUENTO", amount: discount } } : {}),
     subTotal,
     payments,
     pending,
     totalPaid,
     sellerName: first.nombreVendedor ?? undefined,
     footerNotes: ["NO DEVOLVEMOS DINERO. NOTA DE CRÉDITO SEGÚN POLÍTICA."],
+    currency: first.currency,
+    ...(fiscal ? { fiscal: toInvoiceFiscalInfo(fiscal) } : {}),
   };
 }
 
+/** Invoice of a batch ready to render, with the sale lines it was built from. */
+export interface InvoiceDocument {
+  invoice: InvoiceDTO;
+  sales: SaleWithTour[];
+}
+
 /**
- * Builds an Invoice DTO from a sale batch (batchId).
- * Fetches sales with product; delegates to buildInvoiceFromSales.
+ * Loads everything an invoice PDF shows for a batch: non-voided lines with their tour, active payments,
+ * comprobante fiscal, refunds, promo code and the check-in QR. Shared by the PDF download and the WhatsApp send.
  * @param batchId - Invoice batch ID.
- * @returns Invoice DTO or null if batch not found.
+ * @param scope - Supervisor filter (supervisors only see their own batches)
+ * @returns Invoice and its lines, or null if the batch is not found (or voided).
  */
-export async function buildInvoiceFromBatch(batchId: string): Promise<InvoiceDTO | null> {
+export async function loadInvoiceDocument(
+  batchId: string,
+  scope: { supervisor?: string } = {}
+): Promise<InvoiceDocument | null> {
   const sales = await db.sale.findMany({
-    where: { batchId, voidedAt: null },
+    where: { batchId, voidedAt: null, ...scope },
     include: { tour: true },
     orderBy: { createdAt: "asc" },
   });
   if (sales.length === 0) return null;
-  return buildInvoiceFromSales(sales as SaleWithTour[], batchId);
+  const [payments, fiscal, checkInQr, refunds, promo] = await Promise.all([
+    db.payment.findMany({
+      where: { batchId, reversedAt: null },
+      orderBy: [{ paidAt: "asc" }, { createdAt: "asc" }],
+    }),
+    db.fiscalInvoice.findUnique({ where: { batchId } }),
+    generateCheckInQr(batchId),
+    db.refund.findMany({ where: { batchId }, orderBy: { createdAt: "asc" } }),
+    db.promoRedemption.findUnique({ where: { batchId }, select: { code: true } }),
+  ]);
+  return {
+    invoice: {
+      ...buildInvoiceFromSales(sales, batchId, payments, fiscal, refunds, promo?.code),
+      checkInQr,
+    },
+    sales,
+  };
 }
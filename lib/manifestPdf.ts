@@ -0,0 +1,370 @@
+/**
+ * Passenger manifest for a tour date — what the guide carries at boarding.
+ * One row per passenger (lead customer + personasAdditional) of every non-voided booking,
+ * with seller and payment status so pending balances can be collected before departure.
+ * Uses jsPDF (Letter landscape, 0.5" margins), like invoicePdf.
+ */
+
+import { jsPDF } from "jspdf";
+import { db } from "./db";
+import { formatDate } from "./formatDate";
+import { getBookingReference } from "./sales";
+import { formatCurrency, loadLogoBase64 } from "./invoicePdf";
+import { brandConfig } from "./brandConfig";
+import {
+  BASE_CURRENCY,
+  MANIFEST_PASSENGER_LABELS,
+  type ManifestPassengerType,
+  type PersonaAdditional,
+} from "./validation";
+
+/** One passenger of a booking. */
+export interface ManifestPassenger {
+  type: ManifestPassengerType;
+  name: string;
+  dateOfBirth: string | null;
+  cedulaPassport: string | null;
+  phone: string | null;
+}
+
+/** One booking (invoice batch) on the tour date. */
+export interface ManifestBooking {
+  batchId: string;
+  reference: string;
+  /** Seats booked on this tour (the batch may include other tours). */
+  seats: number;
+  passengers: ManifestPassenger[];
+  seller: string | null;
+  supervisor: string | null;
+  isPaid: boolean;
+  /** Still owed on the whole invoice. */
+  pendiente: number;
+  notes: string | null;
+}
+
+/** Manifest of a tour date. */
+export interface ManifestDTO {
+  tour: { id: string; name: string };
+  /** Tour date (YYYY-MM-DD). */
+  fechaVisita: string;
+  currency: string;
+  bookings: ManifestBooking[];
+  totals: {
+    bookings: number;
+    seats: number;
+    passengers: number;
+    /** Bookings with a pending balance. */
+    pendingBookings: number;
+    pendingAmount: number;
+  };
+}
+
+/** 0.5 inch in points (Letter landscape). */
+const MARGIN = 36;
+const PAGE_W = 792;
+const PAGE_H = 612;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const LOGO_SIZE = 40;
+const ROW_H = 16;
+
+/** Table columns: header, width (pt). */
+const COLUMNS: [string, number][] = [
+  ["#", 22],
+  ["Pasajero", 150],
+  ["Tipo", 46],
+  ["Nacimiento", 62],
+  ["Cédula/Pasaporte", 92],
+  ["Teléfono", 84],
+  ["Factura", 62],
+  ["Vendedor", 84],
+  ["Pago", 88],
+  ["Abordó", 30],
+];
+
+/**
+ * Builds the manifest of a tour for a tour date from non-voided sales.
+ * Lines of the same batch are merged; additional persons come from the batch's first line.
+ * @param tourId - Tour ID
+ * @param fechaVisita - Tour date (YYYY-MM-DD)
+ * @param scope - Supervisor scope (only their bookings)
+ * @returns Manifest, or null when the tour does not exist
+ */
+export async function buildManifest(
+  tourId: string,
+  fechaVisita: string,
+  scope: { supervisor?: string } = {}
+): Promise<ManifestDTO | null> {
+  const tour = await db.tour.findUnique({ where: { id: tourId }, select: { id: true, name: true, currency: true } });
+  if (!tour) return null;
+
+  const dayStart = new Date(`${fechaVisita}T00:00:00.000Z`);
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  const lines = await db.sale.findMany({
+    where: { tourId, voidedAt: null, fechaVisita: { gte: dayStart, lt: dayEnd }, ...scope },
+    orderBy: [{ customerName: "asc" }, { createdAt: "asc" }],
+  });
+
+  // Pending balance is per invoice, including its lines on other tours
+  const batchIds = Array.from(new Set(lines.map((l) => l.batchId)));
+  const batchLines = await db.sale.findMany({
+    where: { batchId: { in: batchIds }, voidedAt: null },
+    select: { batchId: true, total: true, pendiente: true, isPaid: true },
+  });
+  const pendingByBatch = new Map<string, number>();
+  for (const line of batchLines) {
+    const pendiente = line.isPaid ? 0 : line.pendiente ?? line.total;
+    pendingByBatch.set(line.batchId, (pendingByBatch.get(line.batchId) ?? 0) + pendiente);
+  }
+
+  const bookings = new Map<string, ManifestBooking>();
+  for (const line of lines) {
+    const existing = bookings.get(line.batchId);
+    if (existing) {
+      existing.seats += line.quantity;
+      continue;
+    }
+    const additional = Array.isArray(line.personasAdditional)
+      ? (line.personasAdditional as unknown as PersonaAdditional[])
+      : [];
+    const pendiente = pendingByBatch.get(line.batchId) ?? 0;
+    bookings.set(line.batchId, {
+      batchId: line.batchId,
+      reference: getBookingReference(line.batchId),
+      seats: line.quantity,
+      passengers: [
+        {
+          type: "lead",
+          name: line.customerName ?? "",
+          dateOfBirth: null,
+          cedulaPassport: line.cedula,
+          phone: line.customerPhone,
+        },
+        ...additional.map((p) => ({
+          type: p.type,
+          name: p.name,
+          dateOfBirth: p.dateOfBirth || null,
+          cedulaPassport: p.cedulaPassport || null,
+          phone: p.phone || null,
+        })),
+      ],
+      seller: line.nombreVendedor,
+      supervisor: line.supervisor,
+      isPaid: pendiente <= 0,
+      pendiente,
+      notes: line.notes,
+    });
+  }
+
+  const list = Array.from(bookings.values());
+  const pending = list.filter((b) => b.pendiente > 0);
+  return {
+    tour: { id: tour.id, name: tour.name },
+    fechaVisita,
+    currency: lines[0]?.currency ?? tour.currency ?? BASE_CURRENCY,
+    bookings: list,
+    totals: {
+      bookings: list.length,
+      seats: list.reduce((sum, b) => sum + b.seats, 0),
+      passengers: list.reduce((sum, b) => sum + b.passengers.length, 0),
+      pendingBookings: pending.length,
+      pendingAmount: pending.reduce((sum, b) => sum + b.pendiente, 0),
+    },
+  };
+}
+
+/**
+ * Payment column text: "Pagado" or the pending balance.
+ */
+function paymentLabel(booking: ManifestBooking, currency: string): string {
+  return booking.pendiente > 0 ? `Debe ${formatCurrency(booking.pendiente, currency)}` : "Pagado";
+}
+
+/**
+ * Manifest as CSV rows (one per passenger); payment columns are repeated on every row of a booking.
+ * @returns Headers and rows for toCSV
+ */
+export function manifestToCsvRows(manifest: ManifestDTO): { headers: string[]; rows: string[][] } {
+  const headers = [
+    "Factura",
+    "Tipo",
+    "Pasajero",
+    "Fecha de Nacimiento",
+    "Cédula/Pasaporte",
+    "Teléfono",
+    "Plazas",
+    "Vendedor",
+    "Supervisor",
+    "Estado",
+    `Pendiente (${manifest.currency})`,
+    "Notas",
+  ];
+  const rows: string[][] = [];
+  for (const booking of manifest.bookings) {
+    for (const p of booking.passengers) {
+      rows.push([
+        booking.reference,
+        MANIFEST_PASSENGER_LABELS[p.type],
+        p.name,
+        p.dateOfBirth ?? "",
+        p.cedulaPassport ?? "",
+        p.phone ?? "",
+        String(booking.seats),
+        booking.seller ?? "",
+        booking.supervisor ?? "",
+        booking.pendiente > 0 ? "Pendiente" : "Pagado",
+        String(booking.pendiente),
+        booking.notes ?? "",
+      ]);
+    }
+  }
+  return { headers, rows };
+}
+
+/**
+ * Cuts text to fit a column width, adding an ellipsis.
+ */
+function fitText(doc: jsPDF, text: string, width: number): string {
+  if (doc.getTextWidth(text) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && doc.getTextWidth(`${cut}…`) > width) cut = cut.slice(0, -1);
+  return `${cut}…`;
+}
+
+/**
+ * Generates the manifest PDF: header with tour and date, totals, and a passenger table
+ * (header repeated on each page) with a boarding checkbox per passenger.
+ * @param manifest - Manifest data
+ * @param logoPath - Optional path to logo (e.g. brandConfig.logoPath) for server-side load.
+ * @returns PDF as Uint8Array.
+ */
+export function generateManifestPdf(manifest: ManifestDTO, logoPath?: string): Uint8Array {
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "pt",
+    format: "letter",
+    hotfixes: ["px_scaling"],
+  });
+  let y = MARGIN;
+
+  // Header: logo, brand and title left; date and totals right
+  const logoData = logoPath ? loadLogoBase64(logoPath) : null;
+  let textX = MARGIN;
+  if (logoData) {
+    try {
+      doc.addImage(logoData, "PNG", MARGIN, y, LOGO_SIZE, LOGO_SIZE);
+      textX += LOGO_SIZE + 10;
+    } catch {
+      // ignore invalid image
+    }
+  }
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(process.env.NEXT_PUBLIC_BRAND_NAME ?? brandConfig.brandName, textX, y + 10);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text("Manifiesto de pasajeros", textX, y + 26);
+  doc.setFontSize(11);
+  doc.text(fitText(doc, manifest.tour.name, CONTENT_W / 2), textX, y + 40);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  const rightLines = [
+    `Fecha del tour: ${formatDate(manifest.fechaVisita)}`,
+    `Reservas: ${manifest.totals.bookings} · Plazas: ${manifest.totals.seats} · Pasajeros: ${manifest.totals.passengers}`,
+    manifest.totals.pendingBookings > 0
+      ? `Pendiente de cobro: ${manifest.totals.pendingBookings} reservas · ${formatCurrency(manifest.totals.pendingAmount, manifest.currency)}`
+      : "Todas las reservas están pagadas",
+  ];
+  rightLines.forEach((line, i) => {
+    doc.text(line, PAGE_W - MARGIN - doc.getTextWidth(line), y + 10 + i * 14);
+  });
+  y += LOGO_SIZE + 20;
+
+  const drawTableHeader = () => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setFillColor(0.9, 0.92, 0.96);
+    doc.rect(MARGIN, y - 11, CONTENT_W, ROW_H, "F");
+    let x = MARGIN + 3;
+    for (const [label, width] of COLUMNS) {
+      doc.text(label, x, y);
+      x += width;
+    }
+    y += ROW_H;
+    doc.setFont("helvetica", "normal");
+  };
+
+  drawTableHeader();
+  if (manifest.bookings.length === 0) {
+    doc.text("No hay reservas para esta fecha.", MARGIN + 3, y);
+  }
+
+  let rowNumber = 0;
+  doc.setDrawColor(0.8, 0.8, 0.8);
+  for (const booking of manifest.bookings) {
+    // Keep a booking's passengers together when they fit on a page
+    const bookingH = booking.passengers.length * ROW_H;
+    if (y + bookingH > PAGE_H - MARGIN && bookingH < PAGE_H - MARGIN * 3) {
+      doc.addPage();
+      y = MARGIN + 11;
+      drawTableHeader();
+    }
+    booking.passengers.forEach((p, i) => {
+      if (y > PAGE_H - MARGIN) {
+        doc.addPage();
+        y = MARGIN + 11;
+        drawTableHeader();
+      }
+      rowNumber += 1;
+      const isLead = i === 0;
+      const cells = [
+        String(rowNumber),
+        p.name || "—",
+        MANIFEST_PASSENGER_LABELS[p.type],
+        p.dateOfBirth ?? "",
+        p.cedulaPassport ?? "",
+        p.phone ?? "",
+        isLead ? `#${booking.reference}` : "",
+        isLead ? booking.seller ?? "" : "",
+        isLead ? paymentLabel(booking, manifest.currency) : "",
+      ];
+      doc.setFont("helvetica", isLead ? "bold" : "normal");
+      let x = MARGIN + 3;
+      cells.forEach((cell, c) => {
+        const width = COLUMNS[c][1];
+        if (c === 8 && isLead && booking.pendiente > 0) doc.setTextColor(180, 30, 30);
+        doc.text(fitText(doc, cell, width - 6), x, y);
+        doc.setTextColor(0, 0, 0);
+        x += width;
+      });
+      // Boarding checkbox
+      doc.rect(x + 8, y - 9, 10, 10, "S");
+      doc.line(MARGIN, y + 5, PAGE_W - MARGIN, y + 5);
+      y += ROW_H;
+    });
+    if (booking.seats > booking.passengers.length) {
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(8);
+      doc.text(
+        `#${booking.reference}: ${booking.seats} plazas, ${booking.passengers.length} pasajeros con nombre`,
+        MARGIN + COLUMNS[0][1] + 3,
+        y - 4
+      );
+      doc.setFontSize(9);
+      y += 8;
+    }
+  }
+
+  // Page numbers
+  const pages = doc.getNumberOfPages();
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    const label = `Página ${page} de ${pages}`;
+    doc.text(label, PAGE_W - MARGIN - doc.getTextWidth(label), PAGE_H - MARGIN / 2);
+  }
+
+  const buf = doc.output("arraybuffer");
+  return new Uint8Array(buf);
+}
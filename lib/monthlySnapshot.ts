@@ -1,42 +1,231 @@
 import { db } from "@/lib/db";
+import { addCurrencyAmount, type CurrencyAmounts } from "@/lib/currency";
+import { loadCurrencyConverter, type CurrencyConverter } from "@/lib/exchangeRates";
+import { getLineCollected } from "@/lib/salesAnalytics";
+
+/** Calendar month (month 1-12). */
+export interface YearMonth {
+  year: number;
+  month: number;
+}
+
+/** Bookings of one tour, seller or supervisor in a monthly snapshot. */
+export interface MonthlyBreakdownRow {
+  /** Tour ID, or the seller/supervisor name as entered ("" when none). */
+  key: string;
+  name: string;
+  /** Invoices (batches) with at least one line in this group. */
+  bookings: number;
+  seats: number;
+  /** Base currency (converted at each sale's date). */
+  revenue: number;
+  revenueByCurrency: CurrencyAmounts;
+  /** Base currency. */
+  collected: number;
+  /** Base currency. */
+  pending: number;
+}
+
+/** Breakdowns stored in MonthlySummary.breakdown; rows sorted by revenue, highest first. */
+export interface MonthlyBreakdown {
+  tours: MonthlyBreakdownRow[];
+  sellers: MonthlyBreakdownRow[];
+  supervisors: MonthlyBreakdownRow[];
+}
+
+/** Accumulates one breakdown row while the month's lines are read. */
+interface BreakdownAccumulator extends Omit<MonthlyBreakdownRow, "bookings"> {
+  batchIds: Set<string>;
+}
 
 /**
- * Creates or updates the monthly summary snapshot for a given date.
- * @param now - Date to use for month/year calculation.
+ * Month of a date (UTC), as used for snapshots.
  */
-export async function createMonthlySnapshot(now = new Date()) {
-  const year = now.getFullYear();
-  const month = now.getMonth() + 1;
+export function getYearMonth(date: Date): YearMonth {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1 };
+}
 
-  const tours = await db.tour.findMany({
-    where: { isActive: true },
-  });
+/**
+ * Month before the given one (the month the cron on the 1st closes).
+ */
+export function getPreviousMonth({ year, month }: YearMonth): YearMonth {
+  return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+}
+
+/**
+ * Parses "YYYY-MM" into a month, or null when invalid.
+ */
+export function parseYearMonth(value: string): YearMonth | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const month = parseInt(match[2], 10);
+  if (month < 1 || month > 12) return null;
+  return { year: parseInt(match[1], 10), month };
+}
+
+/**
+ * Adds a sale line to the row of its group.
+ */
+function addToBreakdown(
+  groups: Map<string, BreakdownAccumulator>,
+  key: string,
+  name: string,
+  line: { batchId: string; quantity: number; total: number; currency: string },
+  amounts: { revenue: number; collected: number; pending: number }
+): void {
+  const row =
+    groups.get(key) ??
+    { key, name, batchIds: new Set<string>(), seats: 0, revenue: 0, revenueByCurrency: {}, collected: 0, pending: 0 };
+  row.batchIds.add(line.batchId);
+  row.seats += line.quantity;
+  row.revenue += amounts.revenue;
+  addCurrencyAmount(row.revenueByCurrency, line.currency, line.total);
+  row.collected += amounts.collected;
+  row.pending += amounts.pending;
+  groups.set(key, row);
+}
+
+/**
+ * Finishes breakdown rows: rounds base amounts and sorts by revenue (then name).
+ */
+function toBreakdownRows(groups: Map<string, BreakdownAccumulator>): MonthlyBreakdownRow[] {
+  return Array.from(groups.values())
+    .map(({ batchIds, ...row }) => ({
+      ...row,
+      bookings: batchIds.size,
+      revenue: Math.round(row.revenue),
+      collected: Math.round(row.collected),
+      pending: Math.round(row.pending),
+    }))
+    .sort((a, b) => b.revenue - a.revenue || a.name.localeCompare(b.name));
+}
+
+/**
+ * Computes the monthly snapshot of a month from the non-voided sale lines created in it (UTC).
+ * Revenue is the line totals (net of promo discounts); collected is what the batch's payments cover on each line
+ * (getLineCollected, as in Resumen) and pending the rest. Base-currency amounts are converted at each
+ * sale's date.
+ * @param period - Month to compute
+ * @param converter - Currency converter (loaded when omitted)
+ */
+export async function computeMonthlySnapshot({ year, month }: YearMonth, converter?: CurrencyConverter) {
+  const start = new Date(Date.UTC(year, month - 1, 1));
+  const end = new Date(Date.UTC(year, month, 1));
+  const [lines, rates] = await Promise.all([
+    db.sale.findMany({
+      where: { voidedAt: null, createdAt: { gte: start, lt: end } },
+      select: {
+        batchId: true,
+        tourId: true,
+        quantity: true,
+        total: true,
+        currency: true,
+        abono: true,
+        isPaid: true,
+        nombreVendedor: true,
+        supervisor: true,
+        createdAt: true,
+        tour: { select: { name: true } },
+      },
+    }),
+    converter ? Promise.resolve(converter) : loadCurrencyConverter(),
+  ]);
+
+  const revenueByCurrency: CurrencyAmounts = {};
+  const collectedByCurrency: CurrencyAmounts = {};
+  const pendingByCurrency: CurrencyAmounts = {};
+  const tours = new Map<string, BreakdownAccumulator>();
+  const sellers = new Map<string, BreakdownAccumulator>();
+  const supervisors = new Map<string, BreakdownAccumulator>();
+  const batchIds = new Set<string>();
+  let totalRevenue = 0;
+  let collectedRevenue = 0;
+  let pendingRevenue = 0;
+  let totalSold = 0;
 
-  const totalRevenue = tours.reduce((sum, p) => sum + p.price * p.sold, 0);
-  const totalSold = tours.reduce((sum, p) => sum + p.sold, 0);
+  for (const line of lines) {
+    const collected = getLineCollected(line);
+    const pending = line.total - collected;
+    const amounts = {
+      revenue: rates.toBase(line.total, line.currency, line.createdAt),
+      collected: rates.toBase(collected, line.currency, line.createdAt),
+      pending: rates.toBase(pending, line.currency, line.createdAt),
+    };
+    batchIds.add(line.batchId);
+    totalSold += line.quantity;
+    totalRevenue += amounts.revenue;
+    collectedRevenue += amounts.collected;
+    pendingRevenue += amounts.pending;
+    addCurrencyAmount(revenueByCurrency, line.currency, line.total);
+    addCurrencyAmount(collectedByCurrency, line.currency, collected);
+    addCurrencyAmount(pendingByCurrency, line.currency, pending);
 
-  const topTour = tours.reduce(
-    (top, p) => (p.sold > top.sold ? p : top),
-    tours[0] || { id: null, sold: 0 }
+    const seller = line.nombreVendedor?.trim() ?? "";
+    const supervisor = line.supervisor?.trim() ?? "";
+    addToBreakdown(tours, line.tourId, line.tour.name, line, amounts);
+    addToBreakdown(sellers, seller, seller || "Sin vendedor", line, amounts);
+    addToBreakdown(supervisors, supervisor, supervisor || "Sin supervisor", line, amounts);
+  }
+
+  const breakdown: MonthlyBreakdown = {
+    tours: toBreakdownRows(tours),
+    sellers: toBreakdownRows(sellers),
+    supervisors: toBreakdownRows(supervisors),
+  };
+  const topTour = breakdown.tours.reduce<MonthlyBreakdownRow | null>(
+    (top, t) => (!top || t.seats > top.seats ? t : top),
+    null
   );
 
+  return {
+    year,
+    month,
+    totalRevenue: Math.round(totalRevenue),
+    revenueByCurrency,
+    totalSold,
+    totalTours: tours.size,
+    totalBookings: batchIds.size,
+    topTourId: topTour?.key ?? null,
+    topTourSold: topTour?.seats ?? 0,
+    collectedRevenue: Math.round(collectedRevenue),
+    pendingRevenue: Math.round(pendingRevenue),
+    collectedByCurrency,
+    pendingByCurrency,
+    breakdown,
+  };
+}
+
+/**
+ * Creates or recomputes the monthly summary snapshot of a month from its bookings.
+ * Safe to run again: the month's row is replaced with the current figures.
+ * @param period - Month to snapshot (default: current month, UTC)
+ * @param converter - Currency converter (loaded when omitted)
+ */
+export async function createMonthlySnapshot(
+  period: YearMonth = getYearMonth(new Date()),
+  converter?: CurrencyConverter
+) {
+  const { year, month, breakdown, ...figures } = await computeMonthlySnapshot(period, converter);
+  const data = { ...figures, breakdown: breakdown as object, computedAt: new Date() };
   return db.monthlySummary.upsert({
     where: { year_month: { year, month } },
-    update: {
-      totalRevenue,
-      totalSold,
-      totalTours: tours.length,
-      topTourId: topTour?.id || null,
-      topTourSold: topTour?.sold || 0,
-    },
-    create: {
-      year,
-      month,
-      totalRevenue,
-      totalSold,
-      totalTours: tours.length,
-      topTourId: topTour?.id || null,
-      topTourSold: topTour?.sold || 0,
-    },
+    update: data,
+    create: { year, month, ...data },
   });
 }
+
+/**
+ * Recomputes the snapshots of every month from `from` to `to` (inclusive), oldest first.
+ * Used to backfill past months (scripts/backfill-monthly-snapshots.mjs).
+ * @returns The snapshots written
+ */
+export async function backfillMonthlySnapshots(from: YearMonth, to: YearMonth) {
+  const converter = await loadCurrencyConverter();
+  const summaries = [];
+  let current = from;
+  while (current.year < to.year || (current.year === to.year && current.month <= to.month)) {
+    summaries.push(await createMonthlySnapshot(current, converter));
+    current = current.month === 12 ? { year: current.year + 1, month: 1 } : { year: current.year, month: current.month + 1 };
+  }
+  return summaries;
+}
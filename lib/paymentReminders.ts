@@ -0,0 +1,169 @@
+import { db } from "./db";
+import { brandConfig } from "./brandConfig";
+import { formatDate } from "./formatDate";
+import { getAdminSettings } from "./settings";
+import { getBookingReference } from "./sales";
+import { isWhatsAppConfigured, normalizePhone } from "./whatsapp";
+import { sendAndRecordWhatsApp } from "./whatsappInbox";
+import { DAY_MS } from "./dates";
+
+/** WhatsAppMessageLog.kind for payment-deadline reminders. */
+export const PAYMENT_REMINDER_KIND = "payment_reminder";
+
+/**
+ * Default reminder message. Placeholders: {nombre}, {factura}, {tour}, {moneda}, {pendiente}, {fechaLimite}, {empresa}.
+ */
+export const DEFAULT_PAYMENT_REMINDER_TEMPLATE =
+  "Hola {nombre}, te recordamos que tu reserva de {tour} (Factura #{factura}) tiene un saldo pendiente de {moneda} {pendiente}. " +
+  "Fecha límite de pago: {fechaLimite}. Si ya pagaste, ignora este mensaje. ¡Gracias! — {empresa}";
+
+/**
+ * Body parameters of the approved WhatsApp template, in order ({{1}} = nombre, {{2}} = factura, ...).
+ */
+export const PAYMENT_REMINDER_TEMPLATE_PARAMETERS = [
+  "nombre",
+  "factura",
+  "tour",
+  "moneda",
+  "pendiente",
+  "fechaLimite",
+  "empresa",
+] as const;
+
+/** Values that fill the reminder template. */
+export interface PaymentReminderVars {
+  nombre: string;
+  factura: string;
+  tour: string;
+  /** Invoice currency symbol, e.g. "RD$" */
+  moneda: string;
+  pendiente: string;
+  fechaLimite: string;
+  empresa: string;
+}
+
+/** Result of a reminder run. */
+export interface PaymentReminderRunResult {
+  enabled: boolean;
+  candidates: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Fills {placeholder} tokens in a reminder template. Unknown tokens are left as-is.
+ * @param template - Message template
+ * @param vars - Values per placeholder
+ */
+export function renderPaymentReminder(template: string, vars: PaymentReminderVars): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in vars ? vars[key as keyof PaymentReminderVars] : match
+  );
+}
+
+/**
+ * Sends WhatsApp reminders for unpaid, non-voided batches whose fechaLimitePago is within the lead days
+ * (or already past). Reminders go out as the approved template set in Ajustes (with PAYMENT_REMINDER_TEMPLATE_PARAMETERS
+ * as body parameters), since most customers are outside the 24-hour window for free-form text.
+ * Batches reminded within the interval are skipped. Each attempt is logged in WhatsAppMessageLog with the batchId
+ * and the rendered text (status "failed" with Meta's error when sending fails).
+ * @param now - Reference time (default now)
+ * @returns Counts of candidates, sent, skipped and failed reminders
+ */
+export async function runPaymentReminders(now: Date = new Date()): Promise<PaymentReminderRunResult> {
+  const settings = await getAdminSettings();
+  const result: PaymentReminderRunResult = {
+    enabled: settings.paymentReminderEnabled,
+    candidates: 0,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  if (!settings.paymentReminderEnabled) return result;
+  if (!isWhatsAppConfigured()) {
+    throw new Error("WhatsApp API not configured (WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN)");
+  }
+  const templateName = settings.paymentReminderTemplateName?.trim();
+  if (!templateName) {
+    throw new Error("Payment reminder WhatsApp template not configured (Ajustes → Recordatorios de pago)");
+  }
+
+  const deadlineCutoff = new Date(now.getTime() + settings.paymentReminderLeadDays * DAY_MS);
+  const lines = await db.sale.findMany({
+    where: {
+      isPaid: false,
+      voidedAt: null,
+      fechaLimitePago: { not: null, lte: deadlineCutoff },
+      customerPhone: { not: null },
+    },
+    include: { tour: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // One reminder per batch: group lines by invoice
+  const batches = new Map<string, typeof lines>();
+  for (const line of lines) {
+    batches.set(line.batchId, [...(batches.get(line.batchId) ?? []), line]);
+  }
+  result.candidates = batches.size;
+
+  const recentSince = new Date(now.getTime() - settings.paymentReminderIntervalDays * DAY_MS);
+  const recentlyReminded = await db.whatsAppMessageLog.findMany({
+    where: {
+      kind: PAYMENT_REMINDER_KIND,
+      batchId: { in: Array.from(batches.keys()) },
+      status: { not: "failed" },
+      createdAt: { gte: recentSince },
+    },
+    select: { batchId: true },
+  });
+  const remindedBatchIds = new Set(recentlyReminded.map((r) => r.batchId));
+
+  const template = settings.paymentReminderTemplate?.trim() || DEFAULT_PAYMENT_REMINDER_TEMPLATE;
+  for (const [batchId, batchLines] of batches) {
+    const first = batchLines[0];
+    const phone = normalizePhone(first.customerPhone ?? "");
+    const pending = batchLines.reduce((sum, l) => sum + (l.pendiente ?? l.total), 0);
+    if (remindedBatchIds.has(batchId) || !phone || pending <= 0) {
+      result.skipped++;
+      continue;
+    }
+
+    const vars: PaymentReminderVars = {
+      nombre: first.customerName ?? "",
+      factura: getBookingReference(batchId),
+      tour: Array.from(new Set(batchLines.map((l) => l.tour?.name).filter(Boolean))).join(", "),
+      moneda: first.currency,
+      pendiente: pending.toLocaleString(),
+      fechaLimite: formatDate(first.fechaLimitePago),
+      empresa: brandConfig.brandName,
+    };
+
+    try {
+      await sendAndRecordWhatsApp(
+        phone,
+        {
+          type: "template",
+          template: {
+            name: templateName,
+            language: settings.paymentReminderTemplateLanguage,
+            bodyParameters: PAYMENT_REMINDER_TEMPLATE_PARAMETERS.map((key) => vars[key]),
+          },
+        },
+        {
+          batchId,
+          tourId: first.tourId,
+          kind: PAYMENT_REMINDER_KIND,
+          body: renderPaymentReminder(template, vars),
+        }
+      );
+      result.sent++;
+    } catch (error) {
+      console.error(`Payment reminder failed for batch ${batchId}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
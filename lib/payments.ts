@@ -0,0 +1,194 @@
+import type { Payment } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import type { ApiAuthResult } from "./apiAuth";
+import type { PaymentMethod } from "./validation";
+
+/** Who recorded or reversed a payment. */
+export interface PaymentRecorder {
+  recordedBy: string;
+  recordedByRole: string | null;
+  /** Staff user (User.id) behind the session; they collect the money they record (cash closing). */
+  userId?: string | null;
+}
+
+/** Who holds the money of a payment or cash refund (cash closing). */
+export interface CashCollector {
+  /** Staff user (User.id); null when the money is held by a seller or shared login. */
+  collectorUserId: string | null;
+  collectorName: string;
+}
+
+/** Payment data for a new abono. */
+export interface NewPaymentInput {
+  amount: number;
+  method: PaymentMethod;
+  paidAt?: Date;
+  reference?: string | null;
+}
+
+/** Payment totals of a batch after recomputing its lines. */
+export interface BatchPaymentTotals {
+  total: number;
+  totalPaid: number;
+  pending: number;
+  isPaid: boolean;
+}
+
+/**
+ * Builds the recorder for a payment from the API session: supervisor name when present, else the role.
+ * Shared admin/support logins have no user, so what they record has no collector.
+ * @param session - Result of getApiSessionContext
+ */
+export function getPaymentRecorder(session: ApiAuthResult): PaymentRecorder {
+  return {
+    recordedBy: session.supervisorName || session.role || "sistema",
+    recordedByRole: session.role ?? null,
+    userId: session.userId ?? null,
+  };
+}
+
+/**
+ * Resolves who holds the money of a payment or cash refund on a batch, so every one reaches a cash closing:
+ * the staff user behind the session; otherwise (shared admin/support logins, web, imports) the batch's seller
+ * (Sale.nombreVendedor), or whoever recorded it when the batch has no seller.
+ * @param tx - Transaction client
+ * @param batchId - Invoice batch ID
+ * @param recorder - Who records the payment or refund
+ */
+export async function resolveCashCollector(
+  tx: DbClient,
+  batchId: string,
+  recorder: PaymentRecorder
+): Promise<CashCollector> {
+  if (recorder.userId) return { collectorUserId: recorder.userId, collectorName: recorder.recordedBy };
+  const first = await tx.sale.findFirst({
+    where: { batchId },
+    select: { nombreVendedor: true },
+    orderBy: { createdAt: "asc" },
+  });
+  return { collectorUserId: null, collectorName: first?.nombreVendedor?.trim() || recorder.recordedBy };
+}
+
+/**
+ * Lists payments of a batch (including reversed ones), oldest first.
+ * @param batchId - Invoice batch ID
+ */
+export async function getBatchPayments(batchId: string): Promise<Payment[]> {
+  return db.payment.findMany({
+    where: { batchId },
+    orderBy: [{ paidAt: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Recomputes abono, pendiente and isPaid on the batch's non-voided lines from its active payments,
+ * less the refunds of cancellations (lib/cancellations).
+ * The paid amount fills lines in order (each up to its total); any overpayment stays on the last line.
+ * @param tx - Transaction client
+ * @param batchId - Invoice batch ID
+ */
+export async function syncBatchPaymentTotals(tx: DbClient, batchId: string): Promise<BatchPaymentTotals> {
+  const lines = await tx.sale.findMany({
+    where: { batchId, voidedAt: null },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, total: true },
+  });
+  const paid = await tx.payment.aggregate({
+    where: { batchId, reversedAt: null },
+    _sum: { amount: true },
+  });
+  const refunded = await tx.refund.aggregate({
+    where: { batchId },
+    _sum: { amount: true },
+  });
+  const totalPaid = Math.max(0, (paid._sum.amount ?? 0) - (refunded._sum.amount ?? 0));
+  const total = lines.reduce((sum, l) => sum + l.total, 0);
+  const isPaid = lines.length > 0 && totalPaid >= total;
+
+  let remaining = totalPaid;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const isLast = i === lines.length - 1;
+    const abono = isLast ? remaining : Math.min(remaining, line.total);
+    remaining -= abono;
+    await tx.sale.update({
+      where: { id: line.id },
+      data: {
+        abono: abono > 0 ? abono : null,
+        pendiente: Math.max(0, line.total - abono),
+        isPaid,
+      },
+    });
+  }
+
+  return { total, totalPaid, pending: Math.max(0, total - totalPaid), isPaid };
+}
+
+/**
+ * Records a payment on a batch and recomputes its lines. A temporary hold on the batch becomes a regular booking.
+ * @param tx - Transaction client
+ * @param batchId - Invoice batch ID
+ * @param input - Amount, method, date and reference
+ * @param recorder - Who recorded it; the collector follows resolveCashCollector (cash closing)
+ */
+export async function recordPayment(
+  tx: DbClient,
+  batchId: string,
+  input: NewPaymentInput,
+  recorder: PaymentRecorder
+): Promise<Payment> {
+  const payment = await tx.payment.create({
+    data: {
+      batchId,
+      amount: input.amount,
+      method: input.method,
+      paidAt: input.paidAt ?? new Date(),
+      reference: input.reference?.trim() || null,
+      recordedBy: recorder.recordedBy,
+      recordedByRole: recorder.recordedByRole,
+      ...(await resolveCashCollector(tx, batchId, recorder)),
+    },
+  });
+  await syncBatchPaymentTotals(tx, batchId);
+  await tx.sale.updateMany({
+    where: { batchId, holdExpiresAt: { not: null } },
+    data: { holdExpiresAt: null },
+  });
+  return payment;
+}
+
+/**
+ * Reverses a payment (kept for history, no longer counted) and recomputes its batch.
+ * The reversal only applies while the payment is still active and outside a cash closing, so it cannot race a closing.
+ * @param tx - Transaction client
+ * @param paymentId - Payment ID
+ * @param reverser - Who reversed it
+ * @param reason - Optional reason
+ * @throws DomainError 404 when the payment does not exist, 409 when it was already reversed or is in a cash closing
+ */
+export async function reversePayment(
+  tx: DbClient,
+  paymentId: string,
+  reverser: PaymentRecorder,
+  reason?: string | null
+): Promise<Payment> {
+  const payment = await tx.payment.findUnique({ where: { id: paymentId } });
+  if (!payment) throw new DomainError("Pago no encontrado", 404);
+  if (payment.reversedAt) throw new DomainError("El pago ya fue anulado", 409);
+  if (payment.cashClosingId) throw new DomainError("El pago ya está en un cierre de caja y no se puede anular", 409);
+  const claimed = await tx.payment.updateMany({
+    where: { id: paymentId, reversedAt: null, cashClosingId: null },
+    data: {
+      reversedAt: new Date(),
+      reversedBy: reverser.recordedBy,
+      reverseReason: reason?.trim() || null,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new DomainError("El pago cambió mientras se anulaba (anulado o en un cierre de caja)", 409);
+  }
+  const reversed = await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  await syncBatchPaymentTotals(tx, payment.batchId);
+  return reversed;
+}
@@ -70,9 +70,49 @@ export function showSupervisorFilter(role: SessionRole | null): boolean {
 }
 
 /**
- * Whether the role can permanently delete voided (anulada) invoices.
+ * Whether the role can archive voided (anulada) invoices. Voided invoices are never hard-deleted.
  * Admin, Support: Yes (review/cleanup process); Supervisor: No.
  */
-export function canDeleteVoidedInvoices(role: SessionRole | null): boolean {
+export function canArchiveVoidedInvoices(role: SessionRole | null): boolean {
+  return role === "admin" || role === "support";
+}
+
+/**
+ * Whether the role can un-void (revert the anulación of) an invoice, re-reserving its seats.
+ * Admin, Support: Yes; Supervisor: No.
+ */
+export function canUnvoidInvoices(role: SessionRole | null): boolean {
+  return role === "admin" || role === "support";
+}
+
+/**
+ * Whether the role can reverse recorded payments (abonos) on invoices.
+ * Admin, Support: Yes; Supervisor: No (can only record payments).
+ */
+export function canReversePayments(role: SessionRole | null): boolean {
+  return role === "admin" || role === "support";
+}
+
+/**
+ * Whether the role can see the audit log (Auditoría).
+ * Admin, Support: Yes; Supervisor: No (they see the Historial of their own invoices only).
+ */
+export function canSeeAudit(role: SessionRole | null): boolean {
+  return role === "admin" || role === "support";
+}
+
+/**
+ * Whether the role can manage seller commissions (rules, statements, payouts).
+ * Admin, Support: Yes; Supervisor: No.
+ */
+export function canManageCommissions(role: SessionRole | null): boolean {
+  return role === "admin" || role === "support";
+}
+
+/**
+ * Whether the role can close the daily cash (cierre de caja) and see the closing history.
+ * Admin, Support: Yes; Supervisor: No (they hand in the cash).
+ */
+export function canManageCashClosings(role: SessionRole | null): boolean {
   return role === "admin" || role === "support";
 }
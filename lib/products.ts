@@ -1,9 +1,15 @@
 import { db } from "./db";
-import type { Tour } from "@prisma/client";
+import { Prisma, type Tour, type TourDeparture } from "@prisma/client";
+import { findOrCreateDeparture } from "./departures";
+import { generateRecurringDepartures } from "./weeklyReset";
+import { diffFields, recordAuditEvent, type AuditActor } from "./audit";
+import type { CancellationTier } from "./validation";
+import { startOfTodayUTC } from "./dates";
 
 /**
  * Tour data transfer object for create/update operations.
- * Matches form: name, description, tourDate, price, childPrice, stock, lowSeatsThreshold, imageUrls, recurringWeeklyDay.
+ * Matches form: name, description, tourDate, price, childPrice, stock, lowSeatsThreshold, imageUrls, recurringWeeklyDay,
+ * cancellationPolicy.
  */
 export interface ProductDTO {
   name: string;
@@ -19,12 +25,14 @@ export interface ProductDTO {
   sequence?: number;
   lowSeatsThreshold?: number | null;
   tourDate?: Date | string | null;
-  /** 0=Sunday..6=Saturday; when set, tour runs weekly and seats reset after that day. */
+  /** 0=Sunday..6=Saturday; when set, tour runs weekly and departures are generated ahead of time. */
   recurringWeeklyDay?: number | null;
+  /** Refund tiers applied when a booking is cancelled; null = default policy. */
+  cancellationPolicy?: CancellationTier[] | null;
 }
 
-/** Re-export Prisma Tour as Product for backward-compatible API/catalog types. */
-export type Product = Tour;
+/** Re-export Prisma Tour as Product for backward-compatible API/catalog types; departures = upcoming ones when loaded. */
+export type Product = Tour & { departures?: TourDeparture[] };
 
 /**
  * Pagination options for list queries.
@@ -62,35 +70,41 @@ export function isImportOnlyProduct(product: { name: string }): boolean {
 
 const excludeImportOnly = { name: { not: IMPORT_ONLY_PRODUCT_NAME } };
 
-/** Start of today UTC; tours with tourDate before this are excluded from public catalog. */
-function startOfTodayUTC(): Date {
-  const d = new Date();
-  d.setUTCHours(0, 0, 0, 0);
-  return d;
-}
-
-/** Where clause so only current/future-dated tours appear in catalog; recurring weekly tours always show (cron advances tourDate). */
+/** Where clause so only current/future-dated tours appear in catalog; recurring weekly tours always show (cron generates departures). */
 function catalogNotExpiredWhere() {
   return {
     OR: [
       { tourDate: null },
       { tourDate: { gte: startOfTodayUTC() } },
       { recurringWeeklyDay: { not: null } },
+      { departures: { some: { date: { gte: startOfTodayUTC() } } } },
     ],
   };
 }
 
+/** Include clause for a tour's upcoming departures (catalog date picker, booking form). */
+function upcomingDeparturesInclude() {
+  return {
+    departures: {
+      where: { date: { gte: startOfTodayUTC() } },
+      orderBy: { date: "asc" as const },
+      take: 12,
+    },
+  };
+}
+
 /**
- * Retrieves all active tours for public catalog.
+ * Retrieves all active tours for public catalog, with their upcoming departures.
  * Excludes import-only placeholder and tours whose tourDate has passed.
  */
-export async function getActiveProducts(): Promise<Tour[]> {
+export async function getActiveProducts(): Promise<Product[]> {
   return db.tour.findMany({
     where: {
       isActive: true,
       ...excludeImportOnly,
       ...catalogNotExpiredWhere(),
     },
+    include: upcomingDeparturesInclude(),
     orderBy: [{ sequence: "asc" }, { createdAt: "desc" }],
   });
 }
@@ -125,10 +139,11 @@ export async function getActiveProductsPaginated(
 }
 
 /**
- * Retrieves all tours (including inactive) for admin.
+ * Retrieves all tours (including inactive) for admin, with their upcoming departures.
  */
-export async function getAllProducts(): Promise<Tour[]> {
+export async function getAllProducts(): Promise<Product[]> {
   return db.tour.findMany({
+    include: upcomingDeparturesInclude(),
     orderBy: [{ sequence: "asc" }, { createdAt: "desc" }],
   });
 }
@@ -169,10 +184,10 @@ export async function getProductById(id: string): Promise<Tour | null> {
 }
 
 /**
- * Creates a new tour.
+ * Creates a new tour and its first departure(s).
  */
 export async function createProduct(data: ProductDTO): Promise<Tour> {
-  return db.tour.create({
+  const tour = await db.tour.create({
     data: {
       name: data.name,
       line: data.line ?? "Tour",
@@ -187,25 +202,64 @@ export async function createProduct(data: ProductDTO): Promise<Tour> {
       lowSeatsThreshold: data.lowSeatsThreshold ?? undefined,
       tourDate: data.tourDate != null ? (typeof data.tourDate === "string" ? new Date(data.tourDate) : data.tourDate) : undefined,
       recurringWeeklyDay: data.recurringWeeklyDay ?? undefined,
+      cancellationPolicy: data.cancellationPolicy ?? undefined,
     },
   });
+  await syncDepartures(tour);
+  return tour;
 }
 
 /**
- * Updates an existing tour.
+ * Updates an existing tour. A new tourDate or weekly day creates the matching departure(s).
+ * @param actor - When given, the change is audited as tour.update
  */
-export async function updateProduct(id: string, data: Partial<ProductDTO>): Promise<Tour> {
-  const { tourDate, imageUrls, recurringWeeklyDay, ...rest } = data;
+export async function updateProduct(
+  id: string,
+  data: Partial<ProductDTO>,
+  actor?: AuditActor
+): Promise<Tour> {
+  const { tourDate, imageUrls, recurringWeeklyDay, cancellationPolicy, ...rest } = data;
   const payload: Parameters<typeof db.tour.update>[0]["data"] = { ...rest };
   if (tourDate !== undefined) {
     payload.tourDate = tourDate == null ? null : (typeof tourDate === "string" ? new Date(tourDate) : tourDate);
   }
   if (imageUrls !== undefined) payload.imageUrls = imageUrls;
   if (recurringWeeklyDay !== undefined) payload.recurringWeeklyDay = recurringWeeklyDay ?? null;
-  return db.tour.update({
-    where: { id },
-    data: payload,
+  if (cancellationPolicy !== undefined) payload.cancellationPolicy = cancellationPolicy ?? Prisma.DbNull;
+  const tour = await db.$transaction(async (tx) => {
+    const before = await tx.tour.findUniqueOrThrow({ where: { id } });
+    const updated = await tx.tour.update({
+      where: { id },
+      data: payload,
+    });
+    if (actor) {
+      await recordAuditEvent(tx, actor, {
+        action: "tour.update",
+        entityType: "tour",
+        entityId: id,
+        // DbNull is a Prisma sentinel: audit a cleared policy as null
+        changes: diffFields(before, {
+          ...payload,
+          ...(cancellationPolicy !== undefined ? { cancellationPolicy } : {}),
+        } as Record<string, unknown>),
+        metadata: { name: updated.name },
+      });
+    }
+    return updated;
   });
+  if (tourDate !== undefined || recurringWeeklyDay !== undefined) await syncDepartures(tour);
+  return tour;
+}
+
+/**
+ * Makes sure a saved tour has departures: weekly ones for recurring tours, otherwise one for tourDate.
+ */
+async function syncDepartures(tour: Tour): Promise<void> {
+  if (tour.recurringWeeklyDay != null) {
+    await generateRecurringDepartures(tour.id);
+  } else if (tour.tourDate) {
+    await findOrCreateDeparture(db, tour.id, tour.tourDate);
+  }
 }
 
 /**
@@ -220,8 +274,9 @@ export async function deactivateProduct(id: string): Promise<Tour> {
 
 /**
  * Permanently deletes a tour. Fails if it has sales or is the import-only placeholder.
+ * @param actor - When given, the deletion is audited as tour.delete
  */
-export async function deleteProduct(id: string): Promise<Tour> {
+export async function deleteProduct(id: string, actor?: AuditActor): Promise<Tour> {
   const tour = await db.tour.findUnique({
     where: { id },
     include: { _count: { select: { sales: true } } },
@@ -229,28 +284,39 @@ export async function deleteProduct(id: string): Promise<Tour> {
   if (!tour) throw new Error("Product not found");
   if (isImportOnlyProduct(tour)) throw new Error("No se puede eliminar el producto de importación");
   if (tour._count.sales > 0) throw new Error("No se puede eliminar: tiene ventas registradas");
-  return db.tour.delete({ where: { id } });
-}
-
-/**
- * Updates tour stock and increments sold count (after a booking).
- */
-export async function recordSale(id: string, quantity: number): Promise<Tour> {
-  const tour = await db.tour.findUnique({ where: { id } });
-  if (!tour) throw new Error("Product not found");
-  if (tour.stock < quantity) throw new Error("Insufficient stock");
-  return db.tour.update({
-    where: { id },
-    data: { stock: { decrement: quantity }, sold: { increment: quantity } },
+  return db.$transaction(async (tx) => {
+    const deleted = await tx.tour.delete({ where: { id } });
+    if (actor) {
+      await recordAuditEvent(tx, actor, {
+        action: "tour.delete",
+        entityType: "tour",
+        entityId: id,
+        metadata: { name: deleted.name, price: deleted.price, stock: deleted.stock },
+      });
+    }
+    return deleted;
   });
 }
 
 /**
- * Updates tour stock (inventory management).
+ * Updates the tour's default seats per departure (used when a new departure is created).
+ * @param actor - When given, the change is audited as tour.update_stock
  */
-export async function updateStock(id: string, newStock: number): Promise<Tour> {
-  return db.tour.update({
-    where: { id },
-    data: { stock: newStock },
+export async function updateStock(id: string, newStock: number, actor?: AuditActor): Promise<Tour> {
+  return db.$transaction(async (tx) => {
+    const before = await tx.tour.findUniqueOrThrow({ where: { id }, select: { stock: true } });
+    const tour = await tx.tour.update({
+      where: { id },
+      data: { stock: newStock },
+    });
+    if (actor) {
+      await recordAuditEvent(tx, actor, {
+        action: "tour.update_stock",
+        entityType: "tour",
+        entityId: id,
+        changes: { stock: { before: before.stock, after: newStock } },
+      });
+    }
+    return tour;
   });
 }
@@ -0,0 +1,96 @@
+import type { PromoCode } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import { computePromoDiscount, splitPromoDiscount } from "./promoCodes";
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+function makePromo(overrides: Partial<PromoCode> = {}): PromoCode {
+  return {
+    id: "promo-1",
+    code: "VERANO",
+    description: null,
+    discountType: "percent",
+    discountValue: 10,
+    currency: null,
+    tourIds: [],
+    minPassengers: 1,
+    maxUses: null,
+    usedCount: 0,
+    validFrom: null,
+    validUntil: null,
+    isActive: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe("computePromoDiscount", () => {
+  it("splits a percent discount in proportion to the line totals", () => {
+    const discount = computePromoDiscount(
+      makePromo(),
+      [
+        { tourId: "a", quantity: 2, total: 1000 },
+        { tourId: "b", quantity: 1, total: 500 },
+      ],
+      "RD$",
+      NOW
+    );
+    expect(discount).toMatchObject({ subtotal: 1500, amount: 150, lineDiscounts: [100, 50] });
+  });
+
+  it("gives the rounding remainder to the last eligible line", () => {
+    const discount = computePromoDiscount(
+      makePromo({ discountType: "fixed", discountValue: 100, currency: "RD$" }),
+      [
+        { tourId: "a", quantity: 1, total: 300 },
+        { tourId: "a", quantity: 1, total: 300 },
+        { tourId: "a", quantity: 1, total: 300 },
+      ],
+      "RD$",
+      NOW
+    );
+    expect(discount.lineDiscounts).toEqual([33, 33, 34]);
+    expect(discount.lineDiscounts.reduce((sum, d) => sum + d, 0)).toBe(discount.amount);
+  });
+
+  it("only discounts lines of the code's tours", () => {
+    const discount = computePromoDiscount(
+      makePromo({ tourIds: ["b"] }),
+      [
+        { tourId: "a", quantity: 1, total: 1000 },
+        { tourId: "b", quantity: 1, total: 500 },
+      ],
+      "RD$",
+      NOW
+    );
+    expect(discount).toMatchObject({ subtotal: 500, amount: 50, lineDiscounts: [0, 50] });
+  });
+
+  it("never discounts more than the eligible subtotal", () => {
+    const discount = computePromoDiscount(
+      makePromo({ discountType: "fixed", discountValue: 5000, currency: "RD$" }),
+      [{ tourId: "a", quantity: 1, total: 800 }],
+      "RD$",
+      NOW
+    );
+    expect(discount.amount).toBe(800);
+  });
+
+  it("rejects bookings below minPassengers and codes at their usage limit", () => {
+    const lines = [{ tourId: "a", quantity: 1, total: 1000 }];
+    expect(() => computePromoDiscount(makePromo({ minPassengers: 2 }), lines, "RD$", NOW)).toThrow(/al menos 2/);
+    expect(() => computePromoDiscount(makePromo({ maxUses: 3, usedCount: 3 }), lines, "RD$", NOW)).toThrow(/límite/);
+  });
+});
+
+describe("splitPromoDiscount", () => {
+  it("recomputes the split without checking validity (a redeemed code may have expired since)", () => {
+    const split = splitPromoDiscount(makePromo({ isActive: false, discountValue: 20 }), [
+      { tourId: "a", quantity: 1, total: 700 },
+      { tourId: "a", quantity: 0, total: 0 },
+      { tourId: "a", quantity: 1, total: 300 },
+    ]);
+    expect(split).toEqual({ subtotal: 1000, amount: 200, lineDiscounts: [140, 0, 60] });
+  });
+});
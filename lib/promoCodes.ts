@@ -0,0 +1,396 @@
+import type { PromoCode } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import { priceSaleItem, type PricedSaleLine, type SaleSource } from "./sales";
+import type {
+  CheckPromoCodeInput,
+  CreatePromoCodeInput,
+  PromoDiscountType,
+  UpdatePromoCodeInput,
+} from "./validation";
+
+/** Promo code for Ajustes. */
+export interface PromoCodeDTO {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  currency: string | null;
+  tourIds: string[];
+  minPassengers: number;
+  maxUses: number | null;
+  usedCount: number;
+  validFrom: string | null;
+  validUntil: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+/** Discount of a promo code on the lines of a booking. */
+export interface PromoDiscount {
+  promoCodeId: string;
+  code: string;
+  /** Total of the lines the code applies to, before the discount. */
+  subtotal: number;
+  amount: number;
+  currency: string;
+  /** Discount taken off each line, in the order of the lines given. */
+  lineDiscounts: number[];
+}
+
+/** Promo code preview (SaleForm, catalog checkout). */
+export interface PromoQuote {
+  code: string;
+  description: string | null;
+  /** Booking total before the discount. */
+  total: number;
+  discount: number;
+  /** Booking total after the discount. */
+  netTotal: number;
+  currency: string;
+}
+
+/** Line fields the discount is computed from. */
+type DiscountableLine = Pick<PricedSaleLine, "tourId" | "quantity" | "total">;
+
+/**
+ * Normalizes a typed promo code the way it is stored (trimmed, uppercase).
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Start of the given YYYY-MM-DD day (UTC). */
+function toStartOfDay(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+/** End of the given YYYY-MM-DD day (UTC) so a code is valid through its last day. */
+function toEndOfDay(day: string): Date {
+  return new Date(`${day}T23:59:59.999Z`);
+}
+
+/**
+ * Maps a promo code row to its DTO.
+ */
+function toPromoCodeDTO(promo: PromoCode): PromoCodeDTO {
+  return {
+    id: promo.id,
+    code: promo.code,
+    description: promo.description,
+    discountType: promo.discountType as PromoDiscountType,
+    discountValue: promo.discountValue,
+    currency: promo.currency,
+    tourIds: promo.tourIds,
+    minPassengers: promo.minPassengers,
+    maxUses: promo.maxUses,
+    usedCount: promo.usedCount,
+    validFrom: promo.validFrom?.toISOString() ?? null,
+    validUntil: promo.validUntil?.toISOString() ?? null,
+    isActive: promo.isActive,
+    createdAt: promo.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Whether a line counts for a promo code: lines of the code's tours, or every line when it lists none.
+ */
+function isPromoEligible(promo: Pick<PromoCode, "tourIds">, line: DiscountableLine): boolean {
+  return promo.tourIds.length === 0 || promo.tourIds.includes(line.tourId);
+}
+
+/**
+ * Computes a promo code's amount on the eligible lines and splits it across them in proportion to their
+ * totals; the rounding remainder goes to the last eligible line. Does not check validity or minPassengers.
+ * @param promo - Promo code row
+ * @param lines - Lines before the discount
+ * @returns Subtotal of the eligible lines, the discount and each line's share (0 for lines it does not apply to)
+ */
+export function splitPromoDiscount(
+  promo: Pick<PromoCode, "discountType" | "discountValue" | "tourIds">,
+  lines: DiscountableLine[]
+): { subtotal: number; amount: number; lineDiscounts: number[] } {
+  const isEligible = (line: DiscountableLine) => isPromoEligible(promo, line);
+  const subtotal = lines.filter(isEligible).reduce((sum, l) => sum + l.total, 0);
+  const amount = Math.min(
+    subtotal,
+    promo.discountType === "percent" ? Math.round((subtotal * promo.discountValue) / 100) : promo.discountValue
+  );
+  const lastEligible = lines.findLastIndex(isEligible);
+  let assigned = 0;
+  const lineDiscounts = lines.map((line, i) => {
+    if (!isEligible(line) || subtotal === 0) return 0;
+    const share = i === lastEligible ? amount - assigned : Math.floor((amount * line.total) / subtotal);
+    assigned += share;
+    return share;
+  });
+  return { subtotal, amount, lineDiscounts };
+}
+
+/**
+ * Computes the discount of a promo code on a booking's lines.
+ * Only lines of the code's tours (every tour when it lists none) count, both for minPassengers and for the amount.
+ * The discount is split across those lines with splitPromoDiscount.
+ * @param promo - Promo code row
+ * @param lines - Priced lines of the booking
+ * @param currency - Currency of the booking
+ * @param now - Reference time for the validity window (default now)
+ * @throws DomainError when the code cannot be used on this booking
+ */
+export function computePromoDiscount(
+  promo: PromoCode,
+  lines: DiscountableLine[],
+  currency: string,
+  now: Date = new Date()
+): PromoDiscount {
+  if (!promo.isActive) throw new DomainError("El código promocional no está activo");
+  if (promo.validFrom && promo.validFrom > now) {
+    throw new DomainError("El código promocional aún no está vigente");
+  }
+  if (promo.validUntil && promo.validUntil < now) throw new DomainError("El código promocional está vencido");
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) {
+    throw new DomainError("El código promocional alcanzó su límite de usos", 409);
+  }
+  if (promo.discountType === "fixed" && promo.currency !== currency) {
+    throw new DomainError(`El código promocional solo aplica a reservas en ${promo.currency}`);
+  }
+
+  const eligible = lines.filter((line) => isPromoEligible(promo, line));
+  if (eligible.length === 0) throw new DomainError("El código promocional no aplica a los tours de esta reserva");
+  const seats = eligible.reduce((sum, l) => sum + l.quantity, 0);
+  if (seats < promo.minPassengers) {
+    throw new DomainError(`El código promocional requiere al menos ${promo.minPassengers} pasajeros`);
+  }
+
+  const { subtotal, amount, lineDiscounts } = splitPromoDiscount(promo, lines);
+  return { promoCodeId: promo.id, code: promo.code, subtotal, amount, currency, lineDiscounts };
+}
+
+/**
+ * Looks up a typed promo code and computes its discount on a booking's lines.
+ * @param client - Prisma client or transaction
+ * @param code - Code as typed
+ * @param lines - Priced lines of the booking
+ * @param currency - Currency of the booking
+ * @param now - Reference time (default now)
+ * @throws DomainError when the code does not exist or cannot be used
+ */
+export async function resolvePromoDiscount(
+  client: DbClient,
+  code: string,
+  lines: DiscountableLine[],
+  currency: string,
+  now: Date = new Date()
+): Promise<PromoDiscount> {
+  const promo = await client.promoCode.findUnique({ where: { code: normalizePromoCode(code) } });
+  if (!promo) throw new DomainError("Código promocional no válido");
+  return computePromoDiscount(promo, lines, currency, now);
+}
+
+/**
+ * Records the use of a promo code on a new batch. The usage count only increases while it is under maxUses,
+ * so two bookings cannot take the last use.
+ * @param tx - Transaction of the booking
+ * @param discount - Discount applied to the batch lines
+ * @param batchId - New invoice batch
+ * @param source - Where the booking was entered
+ * @throws DomainError (409) when the last use was taken meanwhile
+ */
+export async function redeemPromoCode(
+  tx: DbClient,
+  discount: PromoDiscount,
+  batchId: string,
+  source: SaleSource
+): Promise<void> {
+  const promo = await tx.promoCode.findUnique({
+    where: { id: discount.promoCodeId },
+    select: { maxUses: true },
+  });
+  const claimed = await tx.promoCode.updateMany({
+    where: {
+      id: discount.promoCodeId,
+      ...(promo?.maxUses != null ? { usedCount: { lt: promo.maxUses } } : {}),
+    },
+    data: { usedCount: { increment: 1 } },
+  });
+  if (claimed.count === 0) throw new DomainError("El código promocional alcanzó su límite de usos", 409);
+  await tx.promoRedemption.create({
+    data: {
+      batchId,
+      promoCodeId: discount.promoCodeId,
+      code: discount.code,
+      subtotal: discount.subtotal,
+      amount: discount.amount,
+      currency: discount.currency,
+      source,
+    },
+  });
+}
+
+/**
+ * Recomputes the promo discount of a batch after its lines were edited, in the caller's transaction.
+ * The code's use is already counted, so validity and maxUses are not checked again; when the edited lines
+ * no longer qualify (no eligible tour, fewer seats than minPassengers) the redemption is dropped and its use
+ * given back. Each seat line's total becomes its price before discount minus its new share.
+ * @param tx - Transaction of the edit
+ * @param batchId - Invoice batch
+ */
+export async function reapplyPromoRedemption(tx: DbClient, batchId: string): Promise<void> {
+  const redemption = await tx.promoRedemption.findUnique({
+    where: { batchId },
+    include: { promoCode: true },
+  });
+  if (!redemption) return;
+  const promo = redemption.promoCode;
+
+  // Fee-only and fully credited lines (no seats) keep their amounts
+  const lines = (
+    await tx.sale.findMany({
+      where: { batchId, voidedAt: null, quantity: { gt: 0 } },
+      select: { id: true, tourId: true, quantity: true, total: true, discount: true },
+      orderBy: { createdAt: "asc" },
+    })
+  ).map((s) => ({ ...s, total: s.total + s.discount }));
+
+  const seats = lines.filter((l) => isPromoEligible(promo, l)).reduce((sum, l) => sum + l.quantity, 0);
+  const qualifies = seats > 0 && seats >= promo.minPassengers;
+  const { subtotal, amount, lineDiscounts } = qualifies
+    ? splitPromoDiscount(promo, lines)
+    : { subtotal: 0, amount: 0, lineDiscounts: lines.map(() => 0) };
+
+  for (const [i, line] of lines.entries()) {
+    if (line.discount === lineDiscounts[i]) continue;
+    await tx.sale.update({
+      where: { id: line.id },
+      data: { discount: lineDiscounts[i], total: line.total - lineDiscounts[i] },
+    });
+  }
+
+  if (!qualifies) {
+    await tx.promoRedemption.delete({ where: { id: redemption.id } });
+    await tx.promoCode.updateMany({
+      where: { id: promo.id, usedCount: { gt: 0 } },
+      data: { usedCount: { decrement: 1 } },
+    });
+    return;
+  }
+  await tx.promoRedemption.update({ where: { id: redemption.id }, data: { subtotal, amount } });
+}
+
+/**
+ * Previews a promo code on a booking that is being entered: prices the items like createSaleBatch and
+ * computes the discount without redeeming the code.
+ * @param input - Validated CheckPromoCodeSchema input
+ * @throws DomainError when the code cannot be used on these items
+ */
+export async function quotePromoCode(input: CheckPromoCodeInput): Promise<PromoQuote> {
+  const tours = await db.tour.findMany({
+    where: { id: { in: input.items.map((i) => i.tourId) } },
+    select: { id: true, currency: true, price: true, childPrice: true },
+  });
+  const tourById = new Map(tours.map((t) => [t.id, t]));
+  const lines = input.items.flatMap((item) => {
+    const tour = tourById.get(item.tourId);
+    if (!tour) throw new DomainError(`Tour no encontrado: ${item.tourId}`, 404);
+    return priceSaleItem(item, tour);
+  });
+  if (lines.length === 0) throw new DomainError("Agregue pasajeros para aplicar el código");
+  const currency = tours[0].currency;
+
+  const discount = await resolvePromoDiscount(db, input.code, lines, currency);
+  const promo = await db.promoCode.findUnique({
+    where: { id: discount.promoCodeId },
+    select: { description: true },
+  });
+  const total = lines.reduce((sum, l) => sum + l.total, 0);
+  return {
+    code: discount.code,
+    description: promo?.description ?? null,
+    total,
+    discount: discount.amount,
+    netTotal: total - discount.amount,
+    currency,
+  };
+}
+
+/**
+ * Lists promo codes, active first then newest first.
+ */
+export async function listPromoCodes(): Promise<PromoCodeDTO[]> {
+  const promos = await db.promoCode.findMany({
+    orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+  });
+  return promos.map(toPromoCodeDTO);
+}
+
+/**
+ * Creates a promo code. Codes are unique regardless of case.
+ */
+export async function createPromoCode(input: CreatePromoCodeInput): Promise<PromoCodeDTO> {
+  const existing = await db.promoCode.findUnique({ where: { code: input.code } });
+  if (existing) throw new DomainError(`Ya existe el código ${input.code}`, 409);
+  const promo = await db.promoCode.create({
+    data: {
+      code: input.code,
+      description: input.description || null,
+      discountType: input.discountType,
+      discountValue: input.discountValue,
+      currency: input.discountType === "fixed" ? input.currency ?? null : null,
+      tourIds: input.tourIds ?? [],
+      minPassengers: input.minPassengers ?? 1,
+      maxUses: input.maxUses ?? null,
+      validFrom: input.validFrom ? toStartOfDay(input.validFrom) : null,
+      validUntil: input.validUntil ? toEndOfDay(input.validUntil) : null,
+      isActive: input.isActive ?? true,
+    },
+  });
+  return toPromoCodeDTO(promo);
+}
+
+/**
+ * Updates a promo code. Bookings already discounted keep their amounts.
+ */
+export async function updatePromoCode(id: string, input: UpdatePromoCodeInput): Promise<PromoCodeDTO> {
+  const promo = await db.promoCode.findUnique({ where: { id } });
+  if (!promo) throw new DomainError("Código promocional no encontrado", 404);
+  if (promo.discountType === "percent" && input.discountValue !== undefined && input.discountValue > 100) {
+    throw new DomainError("El porcentaje no puede ser mayor que 100");
+  }
+  if (input.maxUses != null && input.maxUses < promo.usedCount) {
+    throw new DomainError(`El límite de usos no puede ser menor que los usos registrados (${promo.usedCount})`);
+  }
+  const validFrom =
+    input.validFrom === undefined ? promo.validFrom : input.validFrom ? toStartOfDay(input.validFrom) : null;
+  const validUntil =
+    input.validUntil === undefined ? promo.validUntil : input.validUntil ? toEndOfDay(input.validUntil) : null;
+  if (validFrom && validUntil && validUntil < validFrom) {
+    throw new DomainError("La fecha final debe ser igual o posterior a la inicial");
+  }
+  const updated = await db.promoCode.update({
+    where: { id },
+    data: {
+      ...(input.description !== undefined ? { description: input.description || null } : {}),
+      ...(input.discountValue !== undefined ? { discountValue: input.discountValue } : {}),
+      ...(input.tourIds !== undefined ? { tourIds: input.tourIds } : {}),
+      ...(input.minPassengers !== undefined ? { minPassengers: input.minPassengers } : {}),
+      ...(input.maxUses !== undefined ? { maxUses: input.maxUses } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+      validFrom,
+      validUntil,
+    },
+  });
+  return toPromoCodeDTO(updated);
+}
+
+/**
+ * Deletes a promo code. Codes already used on a booking can only be deactivated.
+ */
+export async function deletePromoCode(id: string): Promise<void> {
+  const promo = await db.promoCode.findUnique({ where: { id } });
+  if (!promo) throw new DomainError("Código promocional no encontrado", 404);
+  if (promo.usedCount > 0) {
+    throw new DomainError("El código ya se usó en reservas; desactívalo en su lugar", 409);
+  }
+  await db.promoCode.delete({ where: { id } });
+}
@@ -63,6 +63,10 @@ export const RATE_LIMITS = {
   apiRead: { maxRequests: 100, windowMs: 60 * 1000 },
   /** File uploads: 10 per minute */
   upload: { maxRequests: 10, windowMs: 60 * 1000 },
+  /** Public catalog bookings: 5 per 10 minutes */
+  publicBooking: { maxRequests: 5, windowMs: 10 * 60 * 1000 },
+  /** Promo code checks: 10 per minute (keeps codes from being guessed) */
+  promoCodeCheck: { maxRequests: 10, windowMs: 60 * 1000 },
 } as const;
 
 /**
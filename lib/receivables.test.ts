@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { getAgingBucket } from "./receivables";
+
+describe("getAgingBucket", () => {
+  it("counts invoices without a deadline or not due yet as current", () => {
+    expect(getAgingBucket(null)).toBe("current");
+    expect(getAgingBucket(-3)).toBe("current");
+    expect(getAgingBucket(0)).toBe("current");
+  });
+
+  it("puts each day past due in its bucket, bounds inclusive", () => {
+    expect(getAgingBucket(1)).toBe("1_7");
+    expect(getAgingBucket(7)).toBe("1_7");
+    expect(getAgingBucket(8)).toBe("8_30");
+    expect(getAgingBucket(30)).toBe("8_30");
+    expect(getAgingBucket(31)).toBe("over_30");
+  });
+});
@@ -0,0 +1,260 @@
+import { db } from "./db";
+import { addCurrencyAmount, type CurrencyAmounts } from "./currency";
+import { loadCurrencyConverter } from "./exchangeRates";
+import { getBookingReference } from "./sales";
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  BASE_CURRENCY,
+  type AgingBucket,
+  type AgingGrouping,
+} from "./validation";
+import { DAY_MS } from "./dates";
+
+/** Outstanding balance split by aging bucket. */
+export interface AgingAmounts {
+  /** Invoices (batches) with a balance in this group. */
+  invoiceCount: number;
+  /** Base currency per bucket (converted at each sale's date). */
+  buckets: Record<AgingBucket, number>;
+  /** Base currency. */
+  total: number;
+  totalByCurrency: CurrencyAmounts;
+}
+
+/** One supervisor, seller or tour of the aging report. */
+export interface AgingGroupDTO extends AgingAmounts {
+  /** Supervisor/seller name as entered ("" when none) or tour ID. */
+  key: string;
+  name: string;
+}
+
+/** Outstanding balance of one invoice (only its lines in the selected group when drilling down). */
+export interface AgingInvoiceDTO {
+  batchId: string;
+  reference: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  supervisor: string | null;
+  seller: string | null;
+  tours: string[];
+  currency: string;
+  pending: number;
+  /** Base currency. */
+  pendingBase: number;
+  fechaLimitePago: string | null;
+  /** Days past fechaLimitePago (0 or less = not due yet); null without a deadline. */
+  daysPastDue: number | null;
+  bucket: AgingBucket;
+  createdAt: string;
+}
+
+/** Receivables aging report. */
+export interface ReceivablesAgingDTO {
+  /** Day the ages are counted to (YYYY-MM-DD, UTC). */
+  asOf: string;
+  groupBy: AgingGrouping;
+  /** Group drilled down to; null = every invoice. */
+  key: string | null;
+  baseCurrency: string;
+  totals: AgingAmounts;
+  /** Sorted by total, highest first. */
+  groups: AgingGroupDTO[];
+  /** Sorted by days past due, oldest first (invoices without a deadline last). */
+  invoices: AgingInvoiceDTO[];
+  missingRates: string[];
+}
+
+/** Amounts accumulator (invoices are counted once per group). */
+interface AgingAccumulator extends Omit<AgingAmounts, "invoiceCount"> {
+  batchIds: Set<string>;
+}
+
+/**
+ * Aging bucket of a number of days past the payment deadline (null = no deadline, counted as current).
+ */
+export function getAgingBucket(daysPastDue: number | null): AgingBucket {
+  if (daysPastDue === null || daysPastDue <= 0) return "current";
+  if (daysPastDue <= 7) return "1_7";
+  if (daysPastDue <= 30) return "8_30";
+  return "over_30";
+}
+
+/**
+ * Accumulator with every bucket at zero.
+ */
+function emptyAccumulator(): AgingAccumulator {
+  return {
+    batchIds: new Set<string>(),
+    buckets: { current: 0, "1_7": 0, "8_30": 0, over_30: 0 },
+    total: 0,
+    totalByCurrency: {},
+  };
+}
+
+/**
+ * Rounds base amounts and counts the invoices of an accumulator.
+ */
+function toAgingAmounts(row: AgingAccumulator): AgingAmounts {
+  const buckets = { ...row.buckets };
+  for (const bucket of AGING_BUCKETS) buckets[bucket] = Math.round(buckets[bucket]);
+  return {
+    invoiceCount: row.batchIds.size,
+    buckets,
+    total: Math.round(row.total),
+    totalByCurrency: row.totalByCurrency,
+  };
+}
+
+/**
+ * Builds the accounts-receivable aging report from the outstanding balance (Sale.pendiente) of unpaid,
+ * non-voided lines, aged by days past the invoice's fechaLimitePago (its earliest deadline when lines differ).
+ * Lines are grouped by supervisor, seller or tour; with a key, invoices only include that group's lines.
+ * @param groupBy - Grouping of the report
+ * @param key - Group to drill down to (undefined = all invoices)
+ * @param scope - Supervisor filter (supervisors only see their own portfolio)
+ * @param now - Reference time (default now)
+ */
+export async function buildReceivablesAging(
+  groupBy: AgingGrouping,
+  key?: string,
+  scope: { supervisor?: string } = {},
+  now: Date = new Date()
+): Promise<ReceivablesAgingDTO> {
+  const [lines, converter] = await Promise.all([
+    db.sale.findMany({
+      where: { isPaid: false, voidedAt: null, ...scope },
+      select: {
+        batchId: true,
+        tourId: true,
+        total: true,
+        abono: true,
+        pendiente: true,
+        currency: true,
+        customerName: true,
+        customerPhone: true,
+        supervisor: true,
+        nombreVendedor: true,
+        fechaLimitePago: true,
+        createdAt: true,
+        tour: { select: { name: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    loadCurrencyConverter(),
+  ]);
+
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+  const deadlines = new Map<string, Date>();
+  for (const line of lines) {
+    const current = deadlines.get(line.batchId);
+    if (line.fechaLimitePago && (!current || line.fechaLimitePago < current)) {
+      deadlines.set(line.batchId, line.fechaLimitePago);
+    }
+  }
+
+  const totals = emptyAccumulator();
+  const groups = new Map<string, AgingAccumulator & { key: string; name: string }>();
+  const invoices = new Map<string, AgingInvoiceDTO>();
+  for (const line of lines) {
+    const pending = Math.max(0, line.pendiente ?? line.total - (line.abono ?? 0));
+    if (pending <= 0) continue;
+    const pendingBase = converter.toBase(pending, line.currency, line.createdAt);
+    const deadline = deadlines.get(line.batchId) ?? null;
+    const daysPastDue = deadline ? Math.floor((today.getTime() - deadline.getTime()) / DAY_MS) : null;
+    const bucket = getAgingBucket(daysPastDue);
+
+    const supervisor = line.supervisor?.trim() ?? "";
+    const seller = line.nombreVendedor?.trim() ?? "";
+    const [groupKey, groupName] =
+      groupBy === "tour"
+        ? [line.tourId, line.tour.name]
+        : groupBy === "seller"
+          ? [seller, seller || "Sin vendedor"]
+          : [supervisor, supervisor || "Sin supervisor"];
+    const group = groups.get(groupKey) ?? { ...emptyAccumulator(), key: groupKey, name: groupName };
+    for (const row of [totals, group]) {
+      row.batchIds.add(line.batchId);
+      row.buckets[bucket] += pendingBase;
+      row.total += pendingBase;
+      addCurrencyAmount(row.totalByCurrency, line.currency, pending);
+    }
+    groups.set(groupKey, group);
+
+    if (key !== undefined && groupKey !== key) continue;
+    const invoice = invoices.get(line.batchId) ?? {
+      batchId: line.batchId,
+      reference: getBookingReference(line.batchId),
+      customerName: line.customerName,
+      customerPhone: line.customerPhone,
+      supervisor: line.supervisor,
+      seller: line.nombreVendedor,
+      tours: [],
+      currency: line.currency,
+      pending: 0,
+      pendingBase: 0,
+      fechaLimitePago: deadline?.toISOString() ?? null,
+      daysPastDue,
+      bucket,
+      createdAt: line.createdAt.toISOString(),
+    };
+    invoice.pending += pending;
+    invoice.pendingBase += pendingBase;
+    if (!invoice.tours.includes(line.tour.name)) invoice.tours.push(line.tour.name);
+    invoices.set(line.batchId, invoice);
+  }
+
+  return {
+    asOf: today.toISOString().slice(0, 10),
+    groupBy,
+    key: key ?? null,
+    baseCurrency: BASE_CURRENCY,
+    totals: toAgingAmounts(totals),
+    groups: Array.from(groups.values())
+      .map((group): AgingGroupDTO => ({ key: group.key, name: group.name, ...toAgingAmounts(group) }))
+      .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name)),
+    invoices: Array.from(invoices.values())
+      .map((invoice) => ({ ...invoice, pendingBase: Math.round(invoice.pendingBase) }))
+      .sort((a, b) => (b.daysPastDue ?? -Infinity) - (a.daysPastDue ?? -Infinity) || b.pendingBase - a.pendingBase),
+    missingRates: Array.from(converter.missingCurrencies),
+  };
+}
+
+/**
+ * Aging report invoices as CSV rows (one per invoice, with its bucket).
+ * @returns Headers and rows for toCSV
+ */
+export function receivablesAgingToCsvRows(report: ReceivablesAgingDTO): { headers: string[]; rows: string[][] } {
+  const headers = [
+    "Factura",
+    "Fecha",
+    "Cliente",
+    "Teléfono",
+    "Supervisor",
+    "Vendedor",
+    "Tours",
+    "Fecha Límite de Pago",
+    "Días Vencida",
+    "Antigüedad",
+    "Moneda",
+    "Pendiente",
+    `Pendiente (${report.baseCurrency})`,
+  ];
+  const rows = report.invoices.map((invoice) => [
+    invoice.reference,
+    invoice.createdAt.slice(0, 10),
+    invoice.customerName ?? "",
+    invoice.customerPhone ?? "",
+    invoice.supervisor ?? "",
+    invoice.seller ?? "",
+    invoice.tours.join(" | "),
+    invoice.fechaLimitePago?.slice(0, 10) ?? "",
+    invoice.daysPastDue === null ? "" : String(Math.max(0, invoice.daysPastDue)),
+    AGING_BUCKET_LABELS[invoice.bucket],
+    invoice.currency,
+    String(invoice.pending),
+    String(invoice.pendingBase),
+  ]);
+  return { headers, rows };
+}
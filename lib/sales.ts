@@ -0,0 +1,310 @@
+import type { Sale, Tour } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { IMPORT_ONLY_PRODUCT_NAME } from "./products";
+import { findDeparture, findOrCreateDeparture, getSeatsLeftForDate, reserveDepartureSeats } from "./departures";
+import { recordPayment, syncBatchPaymentTotals, type PaymentRecorder } from "./payments";
+import { linkCustomer } from "./customers";
+import { DomainError } from "./errors";
+import { claimWaitlistHold } from "./waitlist";
+import { recordAuditEvent, type AuditActor } from "./audit";
+import { redeemPromoCode, resolvePromoDiscount } from "./promoCodes";
+import { BASE_CURRENCY, type CreateSaleInput, type PassengerType, type SaleItemInput } from "./validation";
+
+/** Where a booking was entered: staff dashboard (SaleForm) or public catalog checkout. */
+export type SaleSource = "staff" | "web";
+
+/**
+ * Creates a new batch ID for a sale (invoice).
+ */
+export function createBatchId(): string {
+  return `sale_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Short reference shown to customers for a batch; same as the "Factura #" shown in the dashboard.
+ * @param batchId - Sale batch ID
+ */
+export function getBookingReference(batchId: string): string {
+  return batchId.slice(-8).toUpperCase();
+}
+
+/** Sale line priced from a sale item: one per passenger type with seats. */
+export interface PricedSaleLine {
+  tourId: string;
+  passengerType: PassengerType;
+  quantity: number;
+  unitPrice: number;
+  /** Tour price per seat for the passenger type. */
+  listPrice: number;
+  total: number;
+  /** Set when unitPrice differs from listPrice. */
+  priceOverrideReason: string | null;
+}
+
+/**
+ * Whether any item sets its own price instead of the tour's (needs canEditPrice).
+ * @param items - Sale items
+ */
+export function hasPriceOverride(items: Pick<SaleItemInput, "adultPrice" | "childPrice">[]): boolean {
+  return items.some((i) => i.adultPrice !== undefined || i.childPrice !== undefined);
+}
+
+/**
+ * Prices a sale item from its tour: adults at price, kids at childPrice (price when the tour has none),
+ * unless the item overrides them.
+ * @param item - Validated sale item
+ * @param tour - The item's tour
+ * @returns Adult and/or kid line, only for types with seats
+ */
+export function priceSaleItem(
+  item: SaleItemInput,
+  tour: Pick<Tour, "id" | "price" | "childPrice">
+): PricedSaleLine[] {
+  const kidListPrice = tour.childPrice ?? tour.price;
+  const seats: { passengerType: PassengerType; quantity: number; listPrice: number; override?: number }[] = [
+    { passengerType: "adult", quantity: item.adults, listPrice: tour.price, override: item.adultPrice },
+    { passengerType: "kid", quantity: item.kids, listPrice: kidListPrice, override: item.childPrice },
+  ];
+  return seats
+    .filter((s) => s.quantity > 0)
+    .map((s) => {
+      const unitPrice = s.override ?? s.listPrice;
+      return {
+        tourId: tour.id,
+        passengerType: s.passengerType,
+        quantity: s.quantity,
+        unitPrice,
+        listPrice: s.listPrice,
+        total: unitPrice * s.quantity,
+        priceOverrideReason: unitPrice !== s.listPrice ? item.priceOverrideReason?.trim() || null : null,
+      };
+    });
+}
+
+/**
+ * Audits lines charged a manual price as invoice.price_override (tour price vs charged total, with each reason).
+ * @param lines - Lines whose unitPrice was set by hand; nothing is recorded when empty
+ */
+export async function recordPriceOverrides(
+  tx: DbClient,
+  actor: AuditActor,
+  batchId: string,
+  lines: PricedSaleLine[]
+): Promise<void> {
+  if (lines.length === 0) return;
+  await recordAuditEvent(tx, actor, {
+    action: "invoice.price_override",
+    entityType: "invoice",
+    entityId: batchId,
+    changes: {
+      total: {
+        before: lines.reduce((sum, l) => sum + l.listPrice * l.quantity, 0),
+        after: lines.reduce((sum, l) => sum + l.total, 0),
+      },
+    },
+    metadata: {
+      lines: lines.map((l) => ({
+        tourId: l.tourId,
+        passengerType: l.passengerType,
+        quantity: l.quantity,
+        listPrice: l.listPrice,
+        unitPrice: l.unitPrice,
+        reason: l.priceOverrideReason,
+      })),
+    },
+  });
+}
+
+/**
+ * Checks that every item's tour can be sold and that its departure on fechaVisita has enough seats.
+ * Adult and kid lines of the same tour share seats. An invoice is in one currency, so its tours must share it.
+ * @param items - Sale items (tourId, adults, kids)
+ * @param fechaVisita - Tour date (YYYY-MM-DD or ISO)
+ * @returns Error message, or null when all items can be booked
+ */
+export async function validateSaleItems(
+  items: CreateSaleInput["items"],
+  fechaVisita: string
+): Promise<string | null> {
+  const tourNames = new Map<string, string>();
+  const currencies = new Set<string>();
+  for (const item of items) {
+    const tour = await db.tour.findUnique({
+      where: { id: item.tourId },
+    });
+
+    if (!tour) {
+      return `Tour not found: ${item.tourId}`;
+    }
+
+    if (tour.name === IMPORT_ONLY_PRODUCT_NAME) {
+      return `${IMPORT_ONLY_PRODUCT_NAME} is for import only and cannot be sold.`;
+    }
+    tourNames.set(tour.id, tour.name);
+    currencies.add(tour.currency);
+  }
+
+  if (currencies.size > 1) {
+    return `Una factura no puede mezclar monedas (${Array.from(currencies).join(", ")}). Crea una factura por moneda.`;
+  }
+
+  // Seats are checked per departure (tour + date)
+  const seatsByTour = new Map<string, number>();
+  for (const item of items) {
+    seatsByTour.set(item.tourId, (seatsByTour.get(item.tourId) ?? 0) + item.adults + item.kids);
+  }
+  for (const [tourId, seats] of seatsByTour) {
+    const seatsLeft = await getSeatsLeftForDate(tourId, fechaVisita);
+    if (seatsLeft < seats) {
+      return `Insufficient seats for ${tourNames.get(tourId)} on ${fechaVisita.slice(0, 10)}. Available: ${seatsLeft}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Creates the sale rows of a new batch and books seats on each tour's departure for fechaVisita.
+ * Each item becomes an adult and/or kid line priced from its tour (see priceSaleItem); manual prices are
+ * audited as invoice.price_override with their reason.
+ * Call validateSaleItems first; seat reservation throws DomainError (409) if seats ran out in the meantime.
+ * Web bookings (source "web") never create departures: the date must already have one (DomainError 400).
+ * The initial abono (sum of item abono up to the total, or the full total when isPaid) is recorded as a Payment.
+ * The batch is linked to the customer directory by phone/cédula (created when new).
+ * With holdHours the batch is a temporary hold: holdExpiresAt is set on every line (see releaseExpiredSeatHolds).
+ * With promoCode the discount is taken off the applicable lines (Sale.discount) and the code is redeemed for the batch;
+ * throws DomainError when the code cannot be used.
+ * @param data - Validated CreateSaleSchema input
+ * @param source - Where the booking was entered (default "staff")
+ * @param recorder - Who recorded the initial abono (defaults to the source)
+ * @param options.waitlistEntryId - Waitlist offer being booked; its held seats are released for the new lines
+ * @param options.actor - Who entered the sale (audit of price overrides; defaults to the recorder)
+ * @returns The new batch ID and created rows
+ */
+export async function createSaleBatch(
+  data: CreateSaleInput,
+  source: SaleSource = "staff",
+  recorder: PaymentRecorder = { recordedBy: source, recordedByRole: null },
+  options: { waitlistEntryId?: string; actor?: AuditActor } = {}
+): Promise<{ batchId: string; sales: Sale[] }> {
+  const {
+    items,
+    customerName,
+    customerPhone,
+    cedula,
+    provincia,
+    municipio,
+    customerAddress,
+    personasAdditional,
+    notes,
+    fechaVisita,
+    fechaLimitePago,
+    isPaid,
+    paymentMethod,
+    paymentReference,
+  } = data;
+  const supervisor = data.supervisor?.trim() || null;
+  const nombreVendedor = data.nombreVendedor?.trim() || null;
+
+  // Reservation date = creation time; tour date and payment deadline from request
+  const reservationDate = new Date();
+  const visitDate = new Date(fechaVisita);
+  const paymentDeadline = fechaLimitePago ? new Date(fechaLimitePago) : null;
+  const holdExpiresAt = data.holdHours
+    ? new Date(reservationDate.getTime() + data.holdHours * 60 * 60 * 1000)
+    : null;
+
+  return db.$transaction(async (tx) => {
+    const batchId = createBatchId();
+    const tours = await tx.tour.findMany({
+      where: { id: { in: items.map((i) => i.tourId) } },
+      select: { id: true, currency: true, price: true, childPrice: true },
+    });
+    const tourById = new Map(tours.map((t) => [t.id, t]));
+    const lines = items.flatMap((item) => {
+      const tour = tourById.get(item.tourId);
+      if (!tour) throw new Error(`Tour not found: ${item.tourId}`);
+      return priceSaleItem(item, tour);
+    });
+    const currency = tourById.get(lines[0]?.tourId)?.currency ?? BASE_CURRENCY;
+    const promo = data.promoCode
+      ? await resolvePromoDiscount(tx, data.promoCode, lines, currency, reservationDate)
+      : null;
+    const customerId = await linkCustomer(tx, data, { overwrite: source !== "web" });
+    if (options.waitlistEntryId) await claimWaitlistHold(tx, options.waitlistEntryId, batchId);
+
+    for (const [index, line] of lines.entries()) {
+      // Web bookings only take scheduled departures; staff may open a new date
+      const departure =
+        source === "web"
+          ? await findDeparture(tx, line.tourId, visitDate)
+          : await findOrCreateDeparture(tx, line.tourId, visitDate);
+      if (!departure) throw new DomainError("No hay salida programada para la fecha seleccionada");
+      const discount = promo?.lineDiscounts[index] ?? 0;
+
+      // Create sale record with all customer and sale fields
+      await tx.sale.create({
+        data: {
+          batchId,
+          tourId: line.tourId,
+          departureId: departure.id,
+          quantity: line.quantity,
+          total: line.total - discount,
+          discount,
+          passengerType: line.passengerType,
+          listPrice: line.listPrice,
+          priceOverrideReason: line.priceOverrideReason,
+          currency,
+          customerId,
+          customerName,
+          customerPhone,
+          cedula: cedula?.trim() || null,
+          provincia: provincia?.trim() || null,
+          municipio: municipio?.trim() || null,
+          customerAddress: customerAddress || null,
+          ...(personasAdditional != null ? { personasAdditional } : {}),
+          notes: notes || null,
+          fechaEntrega: reservationDate,
+          fechaVisita: visitDate,
+          fechaLimitePago: paymentDeadline,
+          supervisor,
+          nombreVendedor,
+          isPaid: isPaid ?? false,
+          source,
+          holdExpiresAt,
+        },
+      });
+
+      // Book seats on the departure for this tour and date
+      await reserveDepartureSeats(tx, departure.id, line.quantity);
+    }
+
+    await recordPriceOverrides(
+      tx,
+      options.actor ?? { role: recorder.recordedByRole, userId: null, name: recorder.recordedBy },
+      batchId,
+      lines.filter((l) => l.unitPrice !== l.listPrice)
+    );
+
+    if (promo) await redeemPromoCode(tx, promo, batchId, source);
+
+    // Initial abono goes to the payment ledger; line abono/pendiente/isPaid are derived from it
+    const batchTotal = lines.reduce((sum, l) => sum + l.total, 0) - (promo?.amount ?? 0);
+    const initialPayment = isPaid
+      ? batchTotal
+      : Math.min(batchTotal, items.reduce((sum, i) => sum + (i.abono ?? 0), 0));
+    if (initialPayment > 0) {
+      await recordPayment(
+        tx,
+        batchId,
+        { amount: initialPayment, method: paymentMethod ?? "cash", reference: paymentReference },
+        recorder
+      );
+    } else {
+      await syncBatchPaymentTotals(tx, batchId);
+    }
+
+    const sales = await tx.sale.findMany({ where: { batchId }, orderBy: { createdAt: "asc" } });
+    return { batchId, sales };
+  });
+}
@@ -0,0 +1,353 @@
+/**
+ * Database-side aggregation of sale lines for Resumen (/api/sales/stats).
+ * Lines are summed in SQL per group, sale day and currency, so only aggregates leave the database; amounts are
+ * then converted to the base currency with the rate of each sale day (rates apply from 00:00 UTC of a day).
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "./db";
+import type { CurrencyConverter } from "./exchangeRates";
+import type { StatsDateField, StatsGrouping } from "./validation";
+import { DAY_MS } from "./dates";
+
+/** Attendance of one tour over past and today's departures (Resumen). */
+export interface AttendanceStat {
+  tourId: string;
+  tourName: string;
+  /** Passengers named on non-voided bookings with a tour date up to today. */
+  expected: number;
+  boarded: number;
+  noShow: number;
+  /** Expected passengers without a mark. */
+  unmarked: number;
+}
+
+/** Date range of the stats: [from, to) on the booking or tour date. */
+export interface StatsRange {
+  from: Date;
+  /** Exclusive end (start of the day after the last day). */
+  to: Date;
+  dateField: StatsDateField;
+}
+
+/** Sums of non-voided lines of one group, sale day and currency (amounts before conversion). */
+export interface LineSums {
+  saleDay: Date;
+  currency: string;
+  revenue: number;
+  seats: number;
+  /** Full total of paid lines + abono (up to the line total) of unpaid ones; see getLineCollected. */
+  collected: number;
+  /** Line totals minus collected. */
+  pending: number;
+  /** Seats of paid lines. */
+  paidSeats: number;
+  discount: number;
+}
+
+/** Totals of a period in the base currency. */
+export interface TrendTotals {
+  revenue: number;
+  passengers: number;
+  collected: number;
+  pending: number;
+  bookings: number;
+}
+
+/** One bucket (day, week or month) of a time series. */
+export interface TrendPoint extends TrendTotals {
+  /** First day of the bucket (YYYY-MM-DD); the first bucket starts at the range start. */
+  start: string;
+}
+
+/** Time series of a range compared with the previous period of the same length. */
+export interface SalesTrend {
+  dateField: StatsDateField;
+  groupBy: StatsGrouping;
+  /** Inclusive YYYY-MM-DD days. */
+  from: string;
+  to: string;
+  previousFrom: string;
+  previousTo: string;
+  current: TrendPoint[];
+  previous: TrendPoint[];
+  totals: TrendTotals;
+  previousTotals: TrendTotals;
+  /** Percent change of each total against the previous period; null when the previous total is 0. */
+  change: Record<keyof TrendTotals, number | null>;
+}
+
+/**
+ * Part of a line its batch's payments cover: the whole line once paid, else its abono up to the line total.
+ * Pending is the rest of the line. Shared by Resumen and the monthly snapshots (see LINE_COLLECTED_SQL).
+ */
+export function getLineCollected(line: { isPaid: boolean; total: number; abono: number | null }): number {
+  return line.isPaid ? line.total : Math.min(line.abono ?? 0, line.total);
+}
+
+/** getLineCollected of a sales row (alias s) in SQL. */
+const LINE_COLLECTED_SQL = Prisma.sql`CASE WHEN s."isPaid" THEN s."total" ELSE LEAST(COALESCE(s."abono", 0), s."total") END`;
+
+/** Sales table column a range filters on (whitelisted, never user input). */
+function dateColumn(field: StatsDateField): Prisma.Sql {
+  return Prisma.raw(field === "tour" ? `s."fechaVisita"` : `s."createdAt"`);
+}
+
+/**
+ * WHERE clause of lines in a range (every line without one), voided or not.
+ */
+export function rangeWhere(range: StatsRange | null): Prisma.Sql {
+  if (!range) return Prisma.sql`TRUE`;
+  const column = dateColumn(range.dateField);
+  return Prisma.sql`${column} >= ${range.from} AND ${column} < ${range.to}`;
+}
+
+/**
+ * WHERE clause of non-voided lines, optionally limited to a range.
+ */
+export function activeLinesWhere(range: StatsRange | null): Prisma.Sql {
+  return Prisma.sql`s."voidedAt" IS NULL AND ${rangeWhere(range)}`;
+}
+
+/**
+ * Builds the "expr AS alias" select list of the grouping dimensions.
+ */
+function selectDimensions(dimensions: Record<string, Prisma.Sql>): Prisma.Sql[] {
+  return Object.entries(dimensions).map(([alias, expr]) => Prisma.sql`${expr} AS ${Prisma.raw(`"${alias}"`)}`);
+}
+
+/**
+ * Sums sale lines per dimension values, sale day and currency.
+ * @param dimensions - Group expressions keyed by result alias (e.g. { tourId: Prisma.sql`s."tourId"` })
+ * @param where - Line filter on the sales table (alias s)
+ * @param join - Extra JOIN (e.g. promo redemptions)
+ */
+export async function sumLines<K extends string>(
+  dimensions: Record<K, Prisma.Sql>,
+  where: Prisma.Sql,
+  join: Prisma.Sql = Prisma.empty
+): Promise<(LineSums & Record<K, string>)[]> {
+  const select = [
+    ...selectDimensions(dimensions),
+    Prisma.sql`date_trunc('day', s."createdAt") AS "saleDay"`,
+    Prisma.sql`s."currency" AS "currency"`,
+  ];
+  const groupBy = Prisma.raw(select.map((_, i) => i + 1).join(", "));
+  return db.$queryRaw<(LineSums & Record<K, string>)[]>`
+    SELECT ${Prisma.join(select)},
+      SUM(s."total")::float8 AS "revenue",
+      SUM(s."quantity")::float8 AS "seats",
+      SUM(${LINE_COLLECTED_SQL})::float8 AS "collected",
+      SUM(s."total" - ${LINE_COLLECTED_SQL})::float8 AS "pending",
+      SUM(CASE WHEN s."isPaid" THEN s."quantity" ELSE 0 END)::float8 AS "paidSeats",
+      SUM(s."discount")::float8 AS "discount"
+    FROM "sales" s ${join}
+    WHERE ${where}
+    GROUP BY ${groupBy}`;
+}
+
+/**
+ * Counts distinct invoices (batches) per dimension values.
+ * @param dimensions - Group expressions keyed by result alias
+ * @param where - Line filter on the sales table (alias s)
+ * @param join - Extra JOIN
+ */
+export async function countBatches<K extends string>(
+  dimensions: Record<K, Prisma.Sql>,
+  where: Prisma.Sql,
+  join: Prisma.Sql = Prisma.empty
+): Promise<(Record<K, string> & { bookings: number })[]> {
+  const select = selectDimensions(dimensions);
+  const groupBy = select.length > 0 ? Prisma.sql`GROUP BY ${Prisma.raw(select.map((_, i) => i + 1).join(", "))}` : Prisma.empty;
+  const columns = select.length > 0 ? Prisma.sql`${Prisma.join(select)},` : Prisma.empty;
+  return db.$queryRaw<(Record<K, string> & { bookings: number })[]>`
+    SELECT ${columns} COUNT(DISTINCT s."batchId")::int AS "bookings"
+    FROM "sales" s ${join}
+    WHERE ${where}
+    ${groupBy}`;
+}
+
+/**
+ * Attendance per tour from QR check-in over non-voided bookings of a range with a tour date up to today:
+ * expected passengers (lead + additional persons, once per batch and tour), boarded, no-show and unmarked.
+ * Only tours with at least one mark are returned, most expected first.
+ * @param range - Range of the bookings; all-time when null
+ */
+export async function sumAttendance(range: StatsRange | null): Promise<AttendanceStat[]> {
+  const endOfToday = new Date();
+  endOfToday.setUTCHours(23, 59, 59, 999);
+  const rows = await db.$queryRaw<Omit<AttendanceStat, "unmarked">[]>`
+    WITH bookings AS (
+      SELECT s."batchId", s."tourId",
+        MAX(CASE WHEN jsonb_typeof(s."personasAdditional") = 'array' THEN jsonb_array_length(s."personasAdditional") ELSE 0 END) AS "additional"
+      FROM "sales" s
+      WHERE ${activeLinesWhere(range)} AND s."fechaVisita" <= ${endOfToday}
+      GROUP BY 1, 2
+    ), marks AS (
+      SELECT c."batchId", c."tourId",
+        COUNT(*) FILTER (WHERE c."status" = 'boarded') AS "boarded",
+        COUNT(*) FILTER (WHERE c."status" = 'no_show') AS "noShow"
+      FROM "passenger_check_ins" c
+      GROUP BY 1, 2
+    )
+    SELECT b."tourId", COALESCE(t."name", '—') AS "tourName",
+      SUM(1 + b."additional")::int AS "expected",
+      COALESCE(SUM(m."boarded"), 0)::int AS "boarded",
+      COALESCE(SUM(m."noShow"), 0)::int AS "noShow"
+    FROM bookings b
+    LEFT JOIN "tours" t ON t."id" = b."tourId"
+    LEFT JOIN marks m ON m."batchId" = b."batchId" AND m."tourId" = b."tourId"
+    GROUP BY 1, 2
+    HAVING COALESCE(SUM(m."boarded" + m."noShow"), 0) > 0
+    ORDER BY 3 DESC`;
+  return rows.map((row) => ({ ...row, unmarked: Math.max(0, row.expected - row.boarded - row.noShow) }));
+}
+
+/**
+ * Converts a sums row to the base currency at its sale day.
+ */
+export function toBaseSums(row: LineSums, converter: CurrencyConverter) {
+  const toBase = (amount: number) => converter.toBase(amount, row.currency, row.saleDay);
+  return {
+    revenue: toBase(row.revenue),
+    collected: toBase(row.collected),
+    pending: toBase(row.pending),
+    discount: toBase(row.discount),
+  };
+}
+
+/** YYYY-MM-DD of a date (UTC). */
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Start of the bucket containing a date, like Postgres date_trunc (weeks start on Monday).
+ */
+function truncateDate(date: Date, groupBy: StatsGrouping): Date {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (groupBy === "week") d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  if (groupBy === "month") d.setUTCDate(1);
+  return d;
+}
+
+/**
+ * Bucket start following the given one.
+ */
+function nextBucket(date: Date, groupBy: StatsGrouping): Date {
+  const d = new Date(date);
+  if (groupBy === "day") d.setUTCDate(d.getUTCDate() + 1);
+  else if (groupBy === "week") d.setUTCDate(d.getUTCDate() + 7);
+  else d.setUTCMonth(d.getUTCMonth() + 1);
+  return d;
+}
+
+/**
+ * Empty points for every bucket of [from, to), keyed by bucket start day.
+ */
+function emptySeries(from: Date, to: Date, groupBy: StatsGrouping): Map<string, TrendPoint> {
+  const points = new Map<string, TrendPoint>();
+  for (let bucket = truncateDate(from, groupBy); bucket < to; bucket = nextBucket(bucket, groupBy)) {
+    const start = bucket < from ? from : bucket;
+    points.set(toDay(bucket), { start: toDay(start), revenue: 0, passengers: 0, collected: 0, pending: 0, bookings: 0 });
+  }
+  return points;
+}
+
+/**
+ * Sums a series into period totals (bookings are counted separately: an invoice can span buckets).
+ */
+function sumSeries(points: TrendPoint[], bookings: number): TrendTotals {
+  return {
+    revenue: Math.round(points.reduce((sum, p) => sum + p.revenue, 0)),
+    passengers: points.reduce((sum, p) => sum + p.passengers, 0),
+    collected: Math.round(points.reduce((sum, p) => sum + p.collected, 0)),
+    pending: Math.round(points.reduce((sum, p) => sum + p.pending, 0)),
+    bookings,
+  };
+}
+
+/**
+ * Percent change from a previous value; null when there is nothing to compare with.
+ */
+function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+/**
+ * Time series of revenue, passengers, collected and pending amounts and bookings of a range, grouped by day,
+ * week or month, with the previous period of the same length for comparison.
+ * @param range - Range and the date it filters on
+ * @param groupBy - Bucket size
+ * @param converter - Currency converter
+ */
+export async function getSalesTrend(
+  range: StatsRange,
+  groupBy: StatsGrouping,
+  converter: CurrencyConverter
+): Promise<SalesTrend> {
+  const length = range.to.getTime() - range.from.getTime();
+  const previousFrom = new Date(range.from.getTime() - length);
+  const column = dateColumn(range.dateField);
+  const unit = Prisma.raw(`'${groupBy}'`);
+  const where = activeLinesWhere({ ...range, from: previousFrom });
+  const dimensions = {
+    period: Prisma.sql`CASE WHEN ${column} >= ${range.from} THEN 'current' ELSE 'previous' END`,
+    bucket: Prisma.sql`to_char(date_trunc(${unit}, ${column}), 'YYYY-MM-DD')`,
+  };
+  const [sums, bucketBookings, periodBookings] = await Promise.all([
+    sumLines(dimensions, where),
+    countBatches(dimensions, where),
+    countBatches({ period: dimensions.period }, where),
+  ]);
+
+  const series = {
+    current: emptySeries(range.from, range.to, groupBy),
+    previous: emptySeries(previousFrom, range.from, groupBy),
+  };
+  for (const row of sums) {
+    const point = series[row.period as keyof typeof series].get(row.bucket);
+    if (!point) continue;
+    const base = toBaseSums(row, converter);
+    point.revenue += base.revenue;
+    point.collected += base.collected;
+    point.pending += base.pending;
+    point.passengers += row.seats;
+  }
+  for (const row of bucketBookings) {
+    const point = series[row.period as keyof typeof series].get(row.bucket);
+    if (point) point.bookings = row.bookings;
+  }
+  const round = (points: Map<string, TrendPoint>) =>
+    Array.from(points.values()).map((p) => ({
+      ...p,
+      revenue: Math.round(p.revenue),
+      collected: Math.round(p.collected),
+      pending: Math.round(p.pending),
+    }));
+  const current = round(series.current);
+  const previous = round(series.previous);
+  const bookingsOf = (period: string) => periodBookings.find((r) => r.period === period)?.bookings ?? 0;
+  const totals = sumSeries(current, bookingsOf("current"));
+  const previousTotals = sumSeries(previous, bookingsOf("previous"));
+
+  return {
+    dateField: range.dateField,
+    groupBy,
+    from: toDay(range.from),
+    to: toDay(new Date(range.to.getTime() - DAY_MS)),
+    previousFrom: toDay(previousFrom),
+    previousTo: toDay(new Date(range.from.getTime() - DAY_MS)),
+    current,
+    previous,
+    totals,
+    previousTotals,
+    change: {
+      revenue: percentChange(totals.revenue, previousTotals.revenue),
+      passengers: percentChange(totals.passengers, previousTotals.passengers),
+      collected: percentChange(totals.collected, previousTotals.collected),
+      pending: percentChange(totals.pending, previousTotals.pending),
+      bookings: percentChange(totals.bookings, previousTotals.bookings),
+    },
+  };
+}
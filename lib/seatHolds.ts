@@ -0,0 +1,108 @@
+import type { Sale } from "@prisma/client";
+import { db } from "./db";
+import { DomainError } from "./errors";
+import { applySeatDelta } from "./departures";
+import { recordAuditEvent, type AuditActor } from "./audit";
+import { offerReleasedSeats } from "./waitlist";
+
+/** Void reason stored on holds released by the cron. */
+export const SEAT_HOLD_EXPIRED_REASON = "Reserva temporal vencida sin abono";
+
+/** Audit actor of automatic releases. */
+const SYSTEM_ACTOR: AuditActor = { role: null, userId: null, name: "sistema" };
+
+/** Result of a hold-release run. */
+export interface SeatHoldReleaseResult {
+  released: number;
+  seatsReleased: number;
+}
+
+/**
+ * Voids temporary holds whose holdExpiresAt has passed without an abono, releasing their seats
+ * exactly like a manual void (audited as invoice.void by "sistema"), then offers the seats to the waitlist.
+ * Each batch is re-read, checked for active payments and claimed inside its own transaction, so a
+ * payment or edit that lands between the scan and the release is never voided.
+ * Batches that received a payment meanwhile only get their hold cleared.
+ * @param now - Reference time (default now)
+ */
+export async function releaseExpiredSeatHolds(now: Date = new Date()): Promise<SeatHoldReleaseResult> {
+  const expired = await db.sale.findMany({
+    where: { voidedAt: null, holdExpiresAt: { not: null, lte: now } },
+    select: { batchId: true },
+    distinct: ["batchId"],
+  });
+
+  const result: SeatHoldReleaseResult = { released: 0, seatsReleased: 0 };
+  for (const { batchId } of expired) {
+    let released: Sale[] | null;
+    try {
+      released = await releaseBatchHold(batchId, now);
+    } catch (err) {
+      // Another request changed the batch while it was being claimed; the next run retries it.
+      if (err instanceof DomainError) continue;
+      throw err;
+    }
+    if (!released) continue;
+
+    result.released++;
+    result.seatsReleased += released.reduce((sum, l) => sum + l.quantity, 0);
+    for (const tourId of new Set(released.map((l) => l.tourId))) {
+      await offerReleasedSeats(tourId, released[0].fechaVisita);
+    }
+  }
+  return result;
+}
+
+/**
+ * Releases one expired hold in a single transaction: re-reads its lines, clears the hold instead when
+ * the batch has an abono or an active payment, then claims the lines with a guarded update before
+ * releasing their seats.
+ * @param batchId - Invoice batch ID
+ * @param now - Reference time
+ * @returns The voided lines, or null when nothing was released
+ * @throws DomainError 409 when the lines changed between the read and the claim (rolled back)
+ */
+async function releaseBatchHold(batchId: string, now: Date): Promise<Sale[] | null> {
+  return db.$transaction(async (tx) => {
+    const expiredHold = { voidedAt: null, holdExpiresAt: { not: null, lte: now } };
+    const lines = await tx.sale.findMany({
+      where: { batchId, ...expiredHold },
+      orderBy: { createdAt: "asc" },
+    });
+    if (lines.length === 0) return null;
+
+    const activePayments = await tx.payment.count({ where: { batchId, reversedAt: null } });
+    if (activePayments > 0 || lines.some((l) => l.isPaid || (l.abono ?? 0) > 0)) {
+      await tx.sale.updateMany({ where: { batchId, voidedAt: null }, data: { holdExpiresAt: null } });
+      return null;
+    }
+
+    const claimed = await tx.sale.updateMany({
+      where: { id: { in: lines.map((l) => l.id) }, ...expiredHold },
+      data: { voidedAt: now, voidReason: SEAT_HOLD_EXPIRED_REASON },
+    });
+    if (claimed.count !== lines.length) {
+      throw new DomainError("La reserva cambió mientras se liberaba", 409);
+    }
+
+    const seats = lines.reduce((sum, l) => sum + l.quantity, 0);
+    for (const line of lines) {
+      await applySeatDelta(tx, line, -line.quantity);
+    }
+    await recordAuditEvent(tx, SYSTEM_ACTOR, {
+      action: "invoice.void",
+      entityType: "invoice",
+      entityId: batchId,
+      changes: {
+        voidedAt: { before: null, after: now.toISOString() },
+        voidReason: { before: null, after: SEAT_HOLD_EXPIRED_REASON },
+      },
+      metadata: {
+        seatsReleased: seats,
+        total: lines.reduce((sum, l) => sum + l.total, 0),
+        holdExpiresAt: lines[0].holdExpiresAt?.toISOString() ?? null,
+      },
+    });
+    return lines;
+  });
+}
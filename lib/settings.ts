@@ -7,6 +7,14 @@ const DEFAULT_SETTINGS_ID = "default";
  */
 export const DEFAULT_SETTINGS = {
   lowStockThreshold: 5,
+  paymentReminderEnabled: false,
+  paymentReminderLeadDays: 2,
+  paymentReminderIntervalDays: 3,
+  paymentReminderTemplate: null as string | null,
+  paymentReminderTemplateName: null as string | null,
+  paymentReminderTemplateLanguage: "es",
+  itbisRate: 0.18,
+  pricesIncludeItbis: true,
 };
 
 /**
@@ -14,6 +22,39 @@ export const DEFAULT_SETTINGS = {
  */
 export interface AdminSettingsDTO {
   lowStockThreshold: number;
+  /** WhatsApp payment-deadline reminders (cron /api/cron/payment-reminders). */
+  paymentReminderEnabled: boolean;
+  /** Days before fechaLimitePago when reminders start. */
+  paymentReminderLeadDays: number;
+  /** Minimum days between two reminders for the same batch. */
+  paymentReminderIntervalDays: number;
+  /** Custom reminder text (chat log copy of the approved template); null uses the default text. */
+  paymentReminderTemplate: string | null;
+  /** Approved WhatsApp template name reminders are sent with; null = reminders cannot be sent. */
+  paymentReminderTemplateName: string | null;
+  /** Language code of the approved template (e.g. "es"). */
+  paymentReminderTemplateLanguage: string;
+  /** ITBIS rate for comprobantes fiscales (e.g. 0.18). */
+  itbisRate: number;
+  /** Whether sale totals already include ITBIS. */
+  pricesIncludeItbis: boolean;
+}
+
+/**
+ * Maps a settings row to its DTO.
+ */
+function toSettingsDTO(settings: AdminSettingsDTO): AdminSettingsDTO {
+  return {
+    lowStockThreshold: settings.lowStockThreshold,
+    paymentReminderEnabled: settings.paymentReminderEnabled,
+    paymentReminderLeadDays: settings.paymentReminderLeadDays,
+    paymentReminderIntervalDays: settings.paymentReminderIntervalDays,
+    paymentReminderTemplate: settings.paymentReminderTemplate,
+    paymentReminderTemplateName: settings.paymentReminderTemplateName,
+    paymentReminderTemplateLanguage: settings.paymentReminderTemplateLanguage,
+    itbisRate: settings.itbisRate,
+    pricesIncludeItbis: settings.pricesIncludeItbis,
+  };
 }
 
 /**
@@ -31,14 +72,12 @@ export async function getAdminSettings(): Promise<AdminSettingsDTO> {
       settings = await db.adminSettings.create({
         data: {
           id: DEFAULT_SETTINGS_ID,
-          lowStockThreshold: DEFAULT_SETTINGS.lowStockThreshold,
+          ...DEFAULT_SETTINGS,
         },
       });
     }
 
-    return {
-      lowStockThreshold: settings.lowStockThreshold,
-    };
+    return toSettingsDTO(settings);
   } catch {
     // Return defaults if database is unavailable
     return DEFAULT_SETTINGS;
@@ -58,13 +97,12 @@ export async function updateAdminSettings(
     update: settings,
     create: {
       id: DEFAULT_SETTINGS_ID,
-      lowStockThreshold: settings.lowStockThreshold ?? DEFAULT_SETTINGS.lowStockThreshold,
+      ...DEFAULT_SETTINGS,
+      ...settings,
     },
   });
 
-  return {
-    lowStockThreshold: updated.lowStockThreshold,
-  };
+  return toSettingsDTO(updated);
 }
 
 /**
@@ -28,6 +28,37 @@ const imageUrlSchema = imageUrlElementSchema.nullable().optional();
  */
 export const UNLIMITED_STOCK = -1;
 
+/** Currencies a tour can be priced in (symbol as printed on invoices). */
+export const CURRENCIES = ["RD$", "US$"] as const;
+export type Currency = typeof CURRENCIES[number];
+
+/** Reporting currency: stats, exports and monthly snapshots convert totals to it. */
+export const BASE_CURRENCY: Currency = "RD$";
+
+/** Spanish labels for currencies (tour form, Ajustes). */
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  "RD$": "Pesos dominicanos (RD$)",
+  "US$": "Dólares estadounidenses (US$)",
+};
+
+/**
+ * One refund tier of a tour's cancellation policy: cancelling at least minDaysBefore days before the tour
+ * refunds refundPercent of the abonos. Cancellations matching no tier are not refunded.
+ */
+export const CancellationTierSchema = z.object({
+  minDaysBefore: z.number().int("Los días deben ser un número entero").min(0, "Los días no pueden ser negativos").max(365),
+  refundPercent: z.number().int("El porcentaje debe ser un número entero").min(0).max(100, "Máximo 100%"),
+});
+
+/** Cancellation policy of a tour (Tour.cancellationPolicy); null/absent = default policy. */
+export const CancellationPolicySchema = z
+  .array(CancellationTierSchema)
+  .max(10, "Máximo 10 tramos")
+  .refine(
+    (tiers) => new Set(tiers.map((t) => t.minDaysBefore)).size === tiers.length,
+    { message: "Cada tramo debe tener días distintos" }
+  );
+
 /**
  * Schema for creating a new product.
  * Validates all required fields with appropriate constraints.
@@ -55,7 +86,7 @@ export const CreateProductSchema = z.object({
     .max(10_000_000, "Child price exceeds maximum")
     .nullable()
     .optional(),
-  currency: z.string().max(10).optional(),
+  currency: z.enum(CURRENCIES).optional(),
   imageUrls: z.array(imageUrlElementSchema).max(20).optional(),
   stock: z
     .number()
@@ -82,7 +113,7 @@ export const CreateProductSchema = z.object({
     .optional(),
   /** Default tour date (ISO date string); pre-fills "Fecha del Tour" when booking. */
   tourDate: z.string().optional(),
-  /** 0=Sunday..6=Saturday; when set, tour runs weekly and seats reset after that day. */
+  /** 0=Sunday..6=Saturday; when set, tour runs weekly and departures are generated ahead of time. */
   recurringWeeklyDay: z
     .number()
     .int("El día debe ser un número entero")
@@ -90,6 +121,7 @@ export const CreateProductSchema = z.object({
     .max(6, "Día inválido (0=domingo … 6=sábado)")
     .nullable()
     .optional(),
+  cancellationPolicy: CancellationPolicySchema.nullable().optional(),
 });
 
 /**
@@ -121,7 +153,7 @@ export const UpdateProductSchema = z.object({
     .max(10_000_000, "Child price exceeds maximum")
     .nullable()
     .optional(),
-  currency: z.string().max(10).optional(),
+  currency: z.enum(CURRENCIES).optional(),
   imageUrls: z.array(imageUrlElementSchema).max(20).optional(),
   stock: z
     .number()
@@ -147,7 +179,7 @@ export const UpdateProductSchema = z.object({
     .nullable()
     .optional(),
   tourDate: z.string().nullable().optional(),
-  /** 0=Sunday..6=Saturday; when set, tour runs weekly and seats reset after that day. */
+  /** 0=Sunday..6=Saturday; when set, tour runs weekly and departures are generated ahead of time. */
   recurringWeeklyDay: z
     .number()
     .int("El día debe ser un número entero")
@@ -155,41 +187,163 @@ export const UpdateProductSchema = z.object({
     .max(6, "Día inválido (0=domingo … 6=sábado)")
     .nullable()
     .optional(),
+  cancellationPolicy: CancellationPolicySchema.nullable().optional(),
 });
 
 /**
- * Schema for a single sale item.
- * Includes abono (partial payment) and pendiente (pending amount) fields.
+ * Schema for PATCH /api/products/[id]/stock: the tour's default seats (stock), or the capacity of one
+ * departure, or seats booked on it (sold).
  */
-export const SaleItemSchema = z.object({
-  tourId: z.string().min(1, "Tour ID is required"),
-  quantity: z
-    .number()
-    .int("Quantity must be a whole number")
-    .min(1, "Quantity must be at least 1")
-    .max(1000, "Quantity exceeds maximum"),
-  total: z
+export const UpdateStockSchema = z.object({
+  stock: z
     .number()
-    .int("Total must be a whole number")
-    .min(0, "Total cannot be negative"),
-  abono: z
+    .int("Stock must be a whole number")
+    .min(UNLIMITED_STOCK, "Stock must be -1 (always available) or 0 or more")
+    .max(100_000, "Stock exceeds maximum")
+    .optional(),
+  departureId: z.string().min(1).optional(),
+  capacity: z
     .number()
-    .int("Abono must be a whole number")
-    .min(0, "Abono cannot be negative")
+    .int("Capacity must be a whole number")
+    .min(UNLIMITED_STOCK, "Capacity must be -1 (always available) or 0 or more")
+    .max(100_000, "Capacity exceeds maximum")
     .optional(),
-  pendiente: z
+  sold: z
     .number()
-    .int("Pendiente must be a whole number")
-    .min(0, "Pendiente cannot be negative")
+    .int("Sold must be a whole number")
+    .min(0, "Sold cannot be negative")
+    .max(100_000, "Sold exceeds maximum")
     .optional(),
 });
 
+/** Passenger types a sale line is priced for: tour price (adult) or childPrice (kid). */
+export const PASSENGER_TYPES = ["adult", "kid"] as const;
+export type PassengerType = typeof PASSENGER_TYPES[number];
+
+/** Spanish labels for sale line passenger types. */
+export const PASSENGER_TYPE_LABELS: Record<PassengerType, string> = {
+  adult: "Adulto",
+  kid: "Niño",
+};
+
+/**
+ * Adult and kid seats of one tour, with optional manual prices. Shared by sale items and invoice edit items.
+ */
+const SaleSeatsSchema = z.object({
+  tourId: z.string().min(1, "Tour ID is required"),
+  adults: z
+    .number()
+    .int("Adults must be a whole number")
+    .min(0, "Adults cannot be negative")
+    .max(1000, "Quantity exceeds maximum")
+    .default(0),
+  kids: z
+    .number()
+    .int("Kids must be a whole number")
+    .min(0, "Kids cannot be negative")
+    .max(1000, "Quantity exceeds maximum")
+    .default(0),
+  adultPrice: z.number().int("El precio debe ser un número entero").min(0, "El precio no puede ser negativo").optional(),
+  childPrice: z.number().int("El precio debe ser un número entero").min(0, "El precio no puede ser negativo").optional(),
+  priceOverrideReason: z.string().trim().max(300).optional(),
+});
+
+/**
+ * Adds the seat checks (at least one seat, at most 1000) and the reason required by manual prices.
+ * @param schema - Object schema extending SaleSeatsSchema
+ */
+function refineSaleSeats<T extends z.ZodType<z.output<typeof SaleSeatsSchema>>>(schema: T): T {
+  return schema
+    .refine((i) => i.adults + i.kids >= 1, { message: "Quantity must be at least 1", path: ["adults"] })
+    .refine((i) => i.adults + i.kids <= 1000, { message: "Quantity exceeds maximum", path: ["adults"] })
+    .refine(
+      (i) => (i.adultPrice === undefined && i.childPrice === undefined) || !!i.priceOverrideReason,
+      { message: "Indique el motivo del cambio de precio", path: ["priceOverrideReason"] }
+    );
+}
+
+/**
+ * Schema for a single sale item: adult and kid seats of one tour.
+ * Totals are computed server-side from the tour's price/childPrice. adultPrice/childPrice are manual
+ * overrides (roles with canEditPrice) and need a priceOverrideReason. abono is the item's share of the initial payment.
+ */
+export const SaleItemSchema = refineSaleSeats(
+  SaleSeatsSchema.extend({
+    abono: z
+      .number()
+      .int("Abono must be a whole number")
+      .min(0, "Abono cannot be negative")
+      .optional(),
+  })
+);
+
 /**
  * Valid supervisor options.
  */
 export const SUPERVISORS = [] as const;
 export type Supervisor = typeof SUPERVISORS[number];
 
+/**
+ * Payment (abono) methods.
+ */
+export const PAYMENT_METHODS = ["cash", "transfer", "card"] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+/** Spanish labels for payment methods (UI and invoice PDF). */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Efectivo",
+  transfer: "Transferencia",
+  card: "Tarjeta",
+};
+
+/**
+ * Audit actions recorded in AuditEvent.action.
+ */
+export const AUDIT_ACTIONS = [
+  "invoice.update",
+  "invoice.update_items",
+  "invoice.price_override",
+  "invoice.update_phone",
+  "invoice.mark_paid",
+  "invoice.void",
+  "invoice.cancel",
+  "invoice.remove_passenger",
+  "invoice.unvoid",
+  "invoice.archive",
+  "invoice.issue_ncf",
+  "invoice.check_in",
+  /** Hard delete of a voided invoice (before archiving replaced it); kept for past events. */
+  "invoice.delete",
+  "payment.record",
+  "payment.reverse",
+  "tour.update",
+  "tour.update_stock",
+  "tour.delete",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+/** Spanish labels for audit actions (audit viewer and invoice Historial). */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "invoice.update": "Datos de factura editados",
+  "invoice.update_items": "Líneas de factura editadas",
+  "invoice.price_override": "Precio modificado",
+  "invoice.update_phone": "Teléfono actualizado",
+  "invoice.mark_paid": "Marcada como pagada",
+  "invoice.void": "Factura anulada",
+  "invoice.cancel": "Cancelación con reembolso",
+  "invoice.remove_passenger": "Pasajero retirado",
+  "invoice.unvoid": "Anulación revertida",
+  "invoice.archive": "Factura archivada",
+  "invoice.issue_ncf": "Comprobante fiscal emitido",
+  "invoice.check_in": "Check-in de pasajero",
+  "invoice.delete": "Factura eliminada",
+  "payment.record": "Abono registrado",
+  "payment.reverse": "Abono anulado",
+  "tour.update": "Tour editado",
+  "tour.update_stock": "Plazas actualizadas",
+  "tour.delete": "Tour eliminado",
+};
+
 /**
  * Schema for one additional person in a reservation (kid or adult).
  * Stored in Sale.personasAdditional as an array of these objects.
@@ -202,6 +356,9 @@ export const PersonaAdditionalSchema = z.object({
   phone: z.string().max(50).optional(),
 });
 
+/** Longest temporary hold (hours) staff can put on a booking without an abono. */
+export const SEAT_HOLD_MAX_HOURS = 72;
+
 /**
  * Schema for creating a new sale.
  * Includes all required customer and sale information fields.
@@ -225,8 +382,201 @@ export const CreateSaleSchema = z.object({
   supervisor: z.string().max(200).optional(),
   nombreVendedor: z.string().max(200).optional(),
   isPaid: z.boolean().default(false),
+  paymentMethod: z.enum(PAYMENT_METHODS).optional(), /// Method of the initial abono (default cash)
+  paymentReference: z.string().max(100).optional(),
+  /** Temporary hold: seats are reserved for this many hours and released by cron unless an abono is recorded. */
+  holdHours: z.number().int().min(1).max(SEAT_HOLD_MAX_HOURS, `Máximo ${SEAT_HOLD_MAX_HOURS} horas`).optional(),
+  /** Promo code typed by the customer (see lib/promoCodes); discount is computed server-side. */
+  promoCode: z.string().trim().max(40).optional(),
+}).refine(
+  (s) => !s.holdHours || (!s.isPaid && s.items.every((i) => !i.abono)),
+  { message: "Una reserva temporal no lleva abono; registre el pago después", path: ["holdHours"] }
+);
+
+/**
+ * Schema for a public self-service booking from the catalog.
+ * Totals are computed server-side from the tour's price/childPrice; the lead passenger is the customer,
+ * so personasAdditional must hold the remaining adults and every kid.
+ */
+export const PublicBookingSchema = z
+  .object({
+    tourId: z.string().min(1, "Tour es requerido"),
+    fechaVisita: z.string().min(1, "Fecha del tour es requerida"),
+    adults: z.number().int().min(1, "Debe haber al menos un adulto").max(50),
+    kids: z.number().int().min(0).max(50).default(0),
+    customerName: z.string().min(1, "Nombre es requerido").max(200),
+    customerPhone: z.string().min(7, "Teléfono es requerido").max(50),
+    cedula: z.string().max(20).optional(),
+    provincia: z.string().max(100).optional(),
+    personasAdditional: z.array(PersonaAdditionalSchema).max(100).default([]),
+    notes: z.string().max(1000).optional(),
+    /** Promo code typed by the customer (see lib/promoCodes); discount is computed server-side. */
+    promoCode: z.string().trim().max(40).optional(),
+  })
+  .refine(
+    (b) =>
+      b.personasAdditional.filter((p) => p.type === "adult").length === b.adults - 1 &&
+      b.personasAdditional.filter((p) => p.type === "kid").length === b.kids,
+    { message: "Los datos de pasajeros no coinciden con la cantidad de adultos y niños", path: ["personasAdditional"] }
+  );
+
+/**
+ * Schema for recording a payment (abono) on an invoice batch.
+ */
+export const RecordPaymentSchema = z.object({
+  amount: z.number().int("El monto debe ser un número entero").min(1, "El monto debe ser mayor que 0"),
+  method: z.enum(PAYMENT_METHODS, { message: "Método de pago inválido" }),
+  paidAt: z.string().optional(), /// Date received (YYYY-MM-DD); defaults to now
+  reference: z.string().max(100).optional(),
+});
+
+/**
+ * Schema for reversing a payment.
+ */
+export const ReversePaymentSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Outbound WhatsApp message types (WhatsAppMessageLog.messageType).
+ */
+export const WHATSAPP_MESSAGE_TYPES = ["text", "template", "image", "document"] as const;
+export type WhatsAppMessageType = typeof WHATSAPP_MESSAGE_TYPES[number];
+
+/**
+ * Schema for an approved WhatsApp template (name/language as in WhatsApp Manager).
+ */
+export const WhatsAppTemplateSchema = z.object({
+  name: z.string().trim().min(1, "template name is required").max(512).regex(/^[a-z0-9_]+$/, "Invalid template name"),
+  language: z.string().trim().min(2).max(15).default("es"),
+  parameters: z.array(z.string().max(1024)).max(20).default([]),
 });
 
+/**
+ * Outbound WhatsApp content fields: text message, template, or image/document by public URL.
+ */
+const whatsAppContentFields = {
+  type: z.enum(WHATSAPP_MESSAGE_TYPES).default("text"),
+  message: z.string().max(4096).optional(),
+  template: WhatsAppTemplateSchema.optional(),
+  mediaUrl: z.string().url("mediaUrl must be a valid URL").optional(),
+  filename: z.string().max(240).optional(),
+  caption: z.string().max(1024).optional(),
+};
+
+/**
+ * Requires the field each message type needs (message, template or mediaUrl).
+ */
+function checkWhatsAppContent(
+  data: { type: WhatsAppMessageType; message?: string; template?: unknown; mediaUrl?: string },
+  ctx: z.RefinementCtx
+) {
+  if (data.type === "text" && !data.message?.trim()) {
+    ctx.addIssue({ code: "custom", message: "message is required", path: ["message"] });
+  }
+  if (data.type === "template" && !data.template) {
+    ctx.addIssue({ code: "custom", message: "template is required", path: ["template"] });
+  }
+  if ((data.type === "image" || data.type === "document") && !data.mediaUrl) {
+    ctx.addIssue({ code: "custom", message: "mediaUrl is required", path: ["mediaUrl"] });
+  }
+}
+
+/**
+ * Schema for sending one WhatsApp message to a phone.
+ */
+export const SendWhatsAppSchema = z
+  .object({ to: z.string().min(1, "to is required"), ...whatsAppContentFields })
+  .superRefine(checkWhatsAppContent);
+
+/** Calendar date as YYYY-MM-DD. */
+const isoDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha inválida (YYYY-MM-DD)");
+
+/**
+ * Campaign audience: customers of non-voided bookings matching every given filter.
+ */
+export const CampaignAudienceSchema = z.object({
+  tourId: z.string().min(1).optional(),
+  fechaVisitaFrom: isoDaySchema.optional(),
+  fechaVisitaTo: isoDaySchema.optional(),
+  provincia: z.string().max(100).optional(),
+  paymentStatus: z.enum(["paid", "pending"]).optional(),
+});
+
+/** Passenger role on a manifest: booking's lead customer or an additional person. */
+export type ManifestPassengerType = "lead" | "adult" | "kid";
+
+/** Spanish labels for manifest passenger roles. */
+export const MANIFEST_PASSENGER_LABELS: Record<ManifestPassengerType, string> = {
+  lead: "Titular",
+  adult: "Adulto",
+  kid: "Niño",
+};
+
+/** Day-of-tour check-in status of a passenger. */
+export const CHECK_IN_STATUSES = ["boarded", "no_show"] as const;
+export type CheckInStatus = typeof CHECK_IN_STATUSES[number];
+
+/** Spanish labels for check-in statuses. */
+export const CHECK_IN_STATUS_LABELS: Record<CheckInStatus, string> = {
+  boarded: "Abordó",
+  no_show: "No se presentó",
+};
+
+/**
+ * Schema for marking a passenger boarded / no-show (status null clears the mark).
+ */
+export const CheckInSchema = z.object({
+  batchId: z.string().min(1, "batchId is required"),
+  tourId: z.string().min(1, "tourId is required"),
+  passengerIndex: z.number().int().min(0).max(100),
+  status: z.enum(CHECK_IN_STATUSES).nullable(),
+});
+
+/** Waitlist entry status: waiting for seats, offered (seats held until the hold expires), then booked / expired / cancelled. */
+export const WAITLIST_STATUSES = ["waiting", "offered", "booked", "expired", "cancelled"] as const;
+export type WaitlistStatus = typeof WAITLIST_STATUSES[number];
+
+/** Spanish labels for waitlist statuses. */
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: "En espera",
+  offered: "Plazas ofrecidas",
+  booked: "Reservado",
+  expired: "Oferta vencida",
+  cancelled: "Cancelado",
+};
+
+/**
+ * Schema for joining the waitlist of a sold-out tour date (public catalog form or staff).
+ */
+export const JoinWaitlistSchema = z.object({
+  tourId: z.string().min(1, "Tour es requerido"),
+  fechaVisita: isoDaySchema,
+  customerName: z.string().trim().min(1, "Nombre es requerido").max(200),
+  customerPhone: z.string().min(7, "Teléfono es requerido").max(50),
+  seats: z.number().int().min(1, "Debe solicitar al menos una plaza").max(50),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Query for a tour's passenger manifest (GET /api/products/[id]/manifest).
+ */
+export const ManifestQuerySchema = z.object({
+  date: isoDaySchema,
+  format: z.enum(["json", "pdf", "csv"]).default("json"),
+});
+
+/**
+ * Schema for creating a bulk WhatsApp campaign.
+ */
+export const CreateCampaignSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required").max(120),
+    audience: CampaignAudienceSchema,
+    ...whatsAppContentFields,
+  })
+  .superRefine(checkWhatsAppContent);
+
 /**
  * Schema for voiding a sale.
  */
@@ -234,6 +584,24 @@ export const VoidSaleSchema = z.object({
   reason: z.string().max(500).optional(),
 });
 
+/**
+ * Schema for cancelling a booking (or one additional passenger) under the tour's cancellation policy.
+ * passengerIndex n cancels personasAdditional[n - 1]; without it the whole batch is cancelled.
+ */
+export const CancelBookingSchema = z.object({
+  passengerIndex: z.number().int().min(1, "El cliente principal no se cancela por separado").optional(),
+  method: z.enum(PAYMENT_METHODS, { message: "Método de pago inválido" }).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Schema for removing one additional passenger from a booking (n = personasAdditional[n - 1]) without a refund.
+ */
+export const RemovePassengerSchema = z.object({
+  passengerIndex: z.number().int().min(1, "El cliente principal no se puede retirar"),
+  reason: z.string().max(500).optional(),
+});
+
 /**
  * Schema for updating customer phone on a sale batch.
  */
@@ -262,22 +630,403 @@ export const UpdateInvoiceSchema = z.object({
 
 /**
  * Schema for updating batch items (edit invoice: add/update/remove lines).
+ * Each item is priced like a sale item; id is the existing line it replaces (the line of the same passenger type).
  */
 export const UpdateBatchItemsSchema = z.object({
+  items: z
+    .array(refineSaleSeats(SaleSeatsSchema.extend({ id: z.string().optional() })))
+    .min(1, "At least one item is required"),
+});
+
+/** DGII comprobante types: B01 = crédito fiscal, B02 = consumo. */
+export const NCF_TYPES = ["B01", "B02"] as const;
+export type NcfType = typeof NCF_TYPES[number];
+
+/** Spanish labels for NCF types (Ajustes, invoice detail, PDF title). */
+export const NCF_TYPE_LABELS: Record<NcfType, string> = {
+  B01: "Crédito fiscal",
+  B02: "Consumo",
+};
+
+/** Highest sequence number that fits the 8-digit NCF suffix. */
+const NCF_MAX_NUMBER = 99_999_999;
+
+/**
+ * Schema for registering an NCF sequence authorized by DGII.
+ */
+export const CreateNcfSequenceSchema = z
+  .object({
+    type: z.enum(NCF_TYPES),
+    rangeFrom: z.number().int().min(1).max(NCF_MAX_NUMBER),
+    rangeTo: z.number().int().min(1).max(NCF_MAX_NUMBER),
+    expiresAt: isoDaySchema,
+  })
+  .refine((d) => d.rangeTo >= d.rangeFrom, {
+    message: "El rango final debe ser mayor o igual al inicial",
+    path: ["rangeTo"],
+  });
+
+/**
+ * Schema for updating an NCF sequence (activate/deactivate, extend range or expiry).
+ */
+export const UpdateNcfSequenceSchema = z.object({
+  isActive: z.boolean().optional(),
+  rangeTo: z.number().int().min(1).max(NCF_MAX_NUMBER).optional(),
+  expiresAt: isoDaySchema.optional(),
+});
+
+/**
+ * Schema for issuing the comprobante fiscal of an invoice.
+ * RNC (9 digits) or cédula (11 digits) is required for crédito fiscal (B01).
+ */
+export const IssueFiscalInvoiceSchema = z
+  .object({
+    ncfType: z.enum(NCF_TYPES),
+    customerRnc: z
+      .string()
+      .max(20)
+      .transform((s) => s.replace(/\D/g, ""))
+      .refine((s) => s === "" || s.length === 9 || s.length === 11, "RNC debe tener 9 dígitos (o cédula de 11)")
+      .optional(),
+    customerName: z.string().trim().max(200).optional(),
+  })
+  .refine((d) => d.ncfType !== "B01" || Boolean(d.customerRnc), {
+    message: "El RNC del cliente es obligatorio para crédito fiscal (B01)",
+    path: ["customerRnc"],
+  });
+
+/**
+ * Schema for recording an exchange rate (Ajustes → Tasas de cambio).
+ * Rate = base-currency units per 1 unit of the currency; one rate per currency and day.
+ */
+export const CreateExchangeRateSchema = z.object({
+  currency: z
+    .enum(CURRENCIES)
+    .refine((c) => c !== BASE_CURRENCY, `La moneda base (${BASE_CURRENCY}) no necesita tasa`),
+  rate: z.number().positive("La tasa debe ser mayor que 0").max(100_000, "Tasa demasiado alta"),
+  effectiveDate: isoDaySchema,
+});
+
+/** Promo code discount kinds: percentage of the applicable lines or a fixed amount per booking. */
+export const PROMO_DISCOUNT_TYPES = ["percent", "fixed"] as const;
+export type PromoDiscountType = typeof PROMO_DISCOUNT_TYPES[number];
+
+/** Spanish labels for promo discount kinds (Ajustes → Códigos promocionales). */
+export const PROMO_DISCOUNT_TYPE_LABELS: Record<PromoDiscountType, string> = {
+  percent: "Porcentaje",
+  fixed: "Monto fijo",
+};
+
+/** Promo code as typed: letters, digits, dash and underscore (stored uppercase). */
+const promoCodeValueSchema = z
+  .string()
+  .trim()
+  .min(3, "El código debe tener al menos 3 caracteres")
+  .max(40)
+  .regex(/^[A-Za-z0-9_-]+$/, "El código solo puede tener letras, números, - y _")
+  .transform((c) => c.toUpperCase());
+
+/** Editable promo code fields; validity days are inclusive YYYY-MM-DD (null clears them on update). */
+const promoCodeFields = {
+  description: z.string().trim().max(200).optional(),
+  discountValue: z.number().int().min(1, "El descuento debe ser mayor que 0"),
+  tourIds: z.array(z.string().min(1)).max(200).optional(),
+  minPassengers: z.number().int().min(1).max(1000).optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  validFrom: isoDaySchema.nullable().optional(),
+  validUntil: isoDaySchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+/**
+ * Checks the percentage range, the currency of fixed discounts and the validity window.
+ */
+function checkPromoCodeRules(
+  data: {
+    discountType?: PromoDiscountType;
+    discountValue?: number;
+    currency?: string | null;
+    validFrom?: string | null;
+    validUntil?: string | null;
+  },
+  ctx: z.RefinementCtx
+) {
+  if (data.discountType === "percent" && data.discountValue !== undefined && data.discountValue > 100) {
+    ctx.addIssue({ code: "custom", message: "El porcentaje no puede ser mayor que 100", path: ["discountValue"] });
+  }
+  if (data.discountType === "fixed" && !data.currency) {
+    ctx.addIssue({ code: "custom", message: "Un descuento fijo necesita moneda", path: ["currency"] });
+  }
+  if (data.validFrom && data.validUntil && data.validUntil < data.validFrom) {
+    ctx.addIssue({ code: "custom", message: "La fecha final debe ser igual o posterior a la inicial", path: ["validUntil"] });
+  }
+}
+
+/**
+ * Schema for creating a promo code (Ajustes → Códigos promocionales).
+ * Empty tourIds = every tour; a fixed discount only applies to bookings in its currency.
+ */
+export const CreatePromoCodeSchema = z
+  .object({
+    code: promoCodeValueSchema,
+    discountType: z.enum(PROMO_DISCOUNT_TYPES),
+    currency: z.enum(CURRENCIES).nullable().optional(),
+    ...promoCodeFields,
+  })
+  .superRefine(checkPromoCodeRules);
+
+/**
+ * Schema for updating a promo code. The code itself and the discount kind cannot change once created.
+ */
+export const UpdatePromoCodeSchema = z
+  .object({
+    ...promoCodeFields,
+    discountValue: promoCodeFields.discountValue.optional(),
+  })
+  .refine((d) => !d.validFrom || !d.validUntil || d.validUntil >= d.validFrom, {
+    message: "La fecha final debe ser igual o posterior a la inicial",
+    path: ["validUntil"],
+  });
+
+/**
+ * Schema for previewing a promo code on a booking before it is created (SaleForm, catalog checkout).
+ * Prices are the staff overrides of SaleForm; the public catalog sends none.
+ */
+export const CheckPromoCodeSchema = z.object({
+  code: z.string().trim().min(1, "Ingrese un código").max(40),
   items: z
     .array(
       z.object({
-        id: z.string().optional(),
         tourId: z.string().min(1),
-        quantity: z.number().int().min(1).max(1000),
-        total: z.number().int().min(0),
-        abono: z.number().int().min(0).optional(),
-        pendiente: z.number().int().min(0).optional(),
+        adults: z.number().int().min(0).max(1000).default(0),
+        kids: z.number().int().min(0).max(1000).default(0),
+        adultPrice: z.number().int().min(0).optional(),
+        childPrice: z.number().int().min(0).optional(),
       })
     )
-    .min(1, "At least one item is required"),
+    .min(1)
+    .max(100),
 });
 
+export const COMMISSION_RULE_TYPES = ["percent", "per_passenger"] as const;
+export type CommissionRuleType = typeof COMMISSION_RULE_TYPES[number];
+
+/** Spanish labels for commission rule kinds (Comisiones). */
+export const COMMISSION_RULE_TYPE_LABELS: Record<CommissionRuleType, string> = {
+  percent: "Porcentaje",
+  per_passenger: "Fijo por pasajero",
+};
+
+/**
+ * Schema for creating a commission rule. A rule targets a seller, a tour, or a seller on a tour;
+ * a per-passenger amount only applies to lines in its currency.
+ */
+export const CreateCommissionRuleSchema = z
+  .object({
+    sellerName: z.string().trim().max(200).nullable().optional(),
+    tourId: z.string().min(1).nullable().optional(),
+    type: z.enum(COMMISSION_RULE_TYPES),
+    value: z.number().int().min(1, "La comisión debe ser mayor que 0"),
+    currency: z.enum(CURRENCIES).nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.sellerName && !data.tourId) {
+      ctx.addIssue({ code: "custom", message: "Indique un vendedor, un tour o ambos", path: ["sellerName"] });
+    }
+    if (data.type === "percent" && data.value > 100) {
+      ctx.addIssue({ code: "custom", message: "El porcentaje no puede ser mayor que 100", path: ["value"] });
+    }
+    if (data.type === "per_passenger" && !data.currency) {
+      ctx.addIssue({ code: "custom", message: "Una comisión por pasajero necesita moneda", path: ["currency"] });
+    }
+  });
+
+/**
+ * Schema for updating a commission rule. Seller, tour and kind cannot change; create a new rule instead.
+ */
+export const UpdateCommissionRuleSchema = z.object({
+  value: z.number().int().min(1, "La comisión debe ser mayor que 0").optional(),
+  isActive: z.boolean().optional(),
+});
+
+/** Seller and inclusive YYYY-MM-DD period of a commission statement. */
+const commissionPeriodFields = {
+  seller: z.string().trim().min(1, "Seleccione un vendedor").max(200),
+  from: isoDaySchema,
+  to: isoDaySchema,
+};
+
+/**
+ * Query for a seller's commission statement (Comisiones): sales created in the period.
+ */
+export const CommissionStatementQuerySchema = z
+  .object({
+    ...commissionPeriodFields,
+    format: z.enum(["json", "pdf", "csv"]).default("json"),
+  })
+  .refine((d) => d.to >= d.from, {
+    message: "La fecha final debe ser igual o posterior a la inicial",
+    path: ["to"],
+  });
+
+/**
+ * Schema for marking a seller's pending commissions of a period as paid out.
+ */
+export const CreateCommissionPayoutSchema = z
+  .object({
+    ...commissionPeriodFields,
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine((d) => d.to >= d.from, {
+    message: "La fecha final debe ser igual o posterior a la inicial",
+    path: ["to"],
+  });
+
+export const STATS_DATE_FIELDS = ["booking", "tour"] as const;
+export type StatsDateField = typeof STATS_DATE_FIELDS[number];
+
+/** Spanish labels for the date a Resumen range filters on. */
+export const STATS_DATE_FIELD_LABELS: Record<StatsDateField, string> = {
+  booking: "Fecha de reserva",
+  tour: "Fecha del tour",
+};
+
+export const STATS_GROUPINGS = ["day", "week", "month"] as const;
+export type StatsGrouping = typeof STATS_GROUPINGS[number];
+
+/** Spanish labels for the Resumen time-series grouping. */
+export const STATS_GROUPING_LABELS: Record<StatsGrouping, string> = {
+  day: "Día",
+  week: "Semana",
+  month: "Mes",
+};
+
+/**
+ * Query of the Resumen stats: optional inclusive YYYY-MM-DD range on the booking date (Sale.createdAt) or the
+ * tour date (Sale.fechaVisita), and the grouping of its time series. Without a range the stats are all-time.
+ */
+export const SalesStatsQuerySchema = z
+  .object({
+    from: isoDaySchema.optional(),
+    to: isoDaySchema.optional(),
+    dateField: z.enum(STATS_DATE_FIELDS).default("booking"),
+    groupBy: z.enum(STATS_GROUPINGS).default("day"),
+  })
+  .refine((d) => Boolean(d.from) === Boolean(d.to), {
+    message: "Indique las dos fechas del rango",
+    path: ["to"],
+  })
+  .refine((d) => !d.from || !d.to || d.to >= d.from, {
+    message: "La fecha final debe ser igual o posterior a la inicial",
+    path: ["to"],
+  });
+
+export const AGING_BUCKETS = ["current", "1_7", "8_30", "over_30"] as const;
+export type AgingBucket = typeof AGING_BUCKETS[number];
+
+/** Spanish labels for receivables aging buckets (days past Sale.fechaLimitePago). */
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Al día",
+  "1_7": "1–7 días",
+  "8_30": "8–30 días",
+  over_30: "Más de 30 días",
+};
+
+export const AGING_GROUPINGS = ["supervisor", "seller", "tour"] as const;
+export type AgingGrouping = typeof AGING_GROUPINGS[number];
+
+/** Spanish labels for the receivables aging grouping. */
+export const AGING_GROUPING_LABELS: Record<AgingGrouping, string> = {
+  supervisor: "Supervisor",
+  seller: "Vendedor",
+  tour: "Tour",
+};
+
+/**
+ * Query of the receivables aging report: grouping, optional group key to drill down to its invoices
+ * ("" = bookings without supervisor/seller) and output format.
+ */
+export const ReceivablesAgingQuerySchema = z.object({
+  groupBy: z.enum(AGING_GROUPINGS).default("supervisor"),
+  key: z.string().max(200).optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+/**
+ * Query of the cash closing screen (Cierre de caja): day whose payments are closed (by paidAt, UTC).
+ */
+export const CashDayQuerySchema = z.object({
+  date: isoDaySchema,
+});
+
+/**
+ * Schema for closing a collector's day: who hands in the money (Payment.collectorName, plus collectorUserId for
+ * staff users; sellers and shared logins are matched by name), cash counted per currency and optional notes.
+ */
+export const CreateCashClosingSchema = z.object({
+  date: isoDaySchema,
+  collectorUserId: z.string().trim().min(1).max(100).optional(),
+  collector: z.string().trim().min(1, "Indique quién entrega el dinero").max(100),
+  countedCash: z
+    .array(
+      z.object({
+        currency: z.enum(CURRENCIES, { message: "Moneda inválida" }),
+        amount: z.number().int().min(0, "El monto contado no puede ser negativo"),
+      })
+    )
+    .max(CURRENCIES.length),
+  notes: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Filters of the cash closing history: inclusive YYYY-MM-DD range, collector and only closings with differences.
+ */
+export const CashClosingListQuerySchema = z
+  .object({
+    from: isoDaySchema.optional(),
+    to: isoDaySchema.optional(),
+    collector: z.string().trim().max(100).optional(),
+    discrepancies: z.enum(["1", "0"]).optional(),
+  })
+  .refine((d) => !d.from || !d.to || d.to >= d.from, {
+    message: "La fecha final debe ser igual o posterior a la inicial",
+    path: ["to"],
+  });
+
+/** Calendar month as YYYY-MM. */
+const yearMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Mes inválido (YYYY-MM)");
+
+/** Most months one monthly snapshot cron request recomputes (keeps the request within the function timeout). */
+export const MAX_SNAPSHOT_BACKFILL_MONTHS = 12;
+
+/**
+ * Months from one YYYY-MM to another, both included.
+ */
+function countMonths(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+}
+
+/**
+ * Body of the monthly snapshot cron: months to (re)compute, inclusive, at most MAX_SNAPSHOT_BACKFILL_MONTHS.
+ * Without it the cron closes the previous month.
+ */
+export const MonthlySnapshotBackfillSchema = z
+  .object({
+    from: yearMonthSchema,
+    to: yearMonthSchema,
+  })
+  .refine((d) => d.to >= d.from, {
+    message: "El mes final debe ser igual o posterior al inicial",
+    path: ["to"],
+  })
+  .refine((d) => countMonths(d.from, d.to) <= MAX_SNAPSHOT_BACKFILL_MONTHS, {
+    message: `Como máximo ${MAX_SNAPSHOT_BACKFILL_MONTHS} meses por solicitud`,
+    path: ["to"],
+  });
+
 /**
  * Formats Zod validation errors into a user-friendly message.
  * @param error - Zod error object.
@@ -292,6 +1041,34 @@ export function formatZodError(error: z.ZodError): string {
 export type CreateProductInput = z.infer<typeof CreateProductSchema>;
 export type UpdateProductInput = z.infer<typeof UpdateProductSchema>;
 export type PersonaAdditional = z.infer<typeof PersonaAdditionalSchema>;
+export type SaleItemInput = z.infer<typeof SaleItemSchema>;
 export type CreateSaleInput = z.infer<typeof CreateSaleSchema>;
+export type PublicBookingInput = z.infer<typeof PublicBookingSchema>;
+export type RecordPaymentInput = z.infer<typeof RecordPaymentSchema>;
 export type VoidSaleInput = z.infer<typeof VoidSaleSchema>;
+export type CancellationTier = z.infer<typeof CancellationTierSchema>;
+export type CancelBookingInput = z.infer<typeof CancelBookingSchema>;
+export type RemovePassengerInput = z.infer<typeof RemovePassengerSchema>;
 export type UpdatePhoneInput = z.infer<typeof UpdatePhoneSchema>;
+export type WhatsAppTemplateInput = z.infer<typeof WhatsAppTemplateSchema>;
+export type SendWhatsAppInput = z.infer<typeof SendWhatsAppSchema>;
+export type CampaignAudience = z.infer<typeof CampaignAudienceSchema>;
+export type CreateCampaignInput = z.infer<typeof CreateCampaignSchema>;
+export type CreateNcfSequenceInput = z.infer<typeof CreateNcfSequenceSchema>;
+export type UpdateNcfSequenceInput = z.infer<typeof UpdateNcfSequenceSchema>;
+export type IssueFiscalInvoiceInput = z.infer<typeof IssueFiscalInvoiceSchema>;
+export type CreateExchangeRateInput = z.infer<typeof CreateExchangeRateSchema>;
+export type CreatePromoCodeInput = z.infer<typeof CreatePromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof UpdatePromoCodeSchema>;
+export type CheckPromoCodeInput = z.infer<typeof CheckPromoCodeSchema>;
+export type CreateCommissionRuleInput = z.infer<typeof CreateCommissionRuleSchema>;
+export type UpdateCommissionRuleInput = z.infer<typeof UpdateCommissionRuleSchema>;
+export type CommissionStatementQuery = z.infer<typeof CommissionStatementQuerySchema>;
+export type CreateCommissionPayoutInput = z.infer<typeof CreateCommissionPayoutSchema>;
+export type SalesStatsQuery = z.infer<typeof SalesStatsQuerySchema>;
+export type ReceivablesAgingQuery = z.infer<typeof ReceivablesAgingQuerySchema>;
+export type CreateCashClosingInput = z.infer<typeof CreateCashClosingSchema>;
+export type CashClosingListQuery = z.infer<typeof CashClosingListQuerySchema>;
+export type MonthlySnapshotBackfillInput = z.infer<typeof MonthlySnapshotBackfillSchema>;
+export type CheckInInput = z.infer<typeof CheckInSchema>;
+export type JoinWaitlistInput = z.infer<typeof JoinWaitlistSchema>;
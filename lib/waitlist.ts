@@ -0,0 +1,297 @@
+import type { WaitlistEntry } from "@prisma/client";
+import { db, type DbClient } from "./db";
+import { DomainError } from "./errors";
+import { brandConfig } from "./brandConfig";
+import { formatDate, formatDateTime } from "./formatDate";
+import { isImportOnlyProduct } from "./products";
+import { normalizeCustomerPhone } from "./customers";
+import {
+  findOrCreateDeparture,
+  getDepartureSeatsLeft,
+  getSeatsLeftForDate,
+  releaseDepartureSeats,
+  reserveDepartureSeats,
+  toDepartureDate,
+} from "./departures";
+import { isWhatsAppConfigured } from "./whatsapp";
+import { sendAndRecordWhatsApp } from "./whatsappInbox";
+import type { JoinWaitlistInput, WaitlistStatus } from "./validation";
+import { startOfTodayUTC } from "./dates";
+
+/** WhatsAppMessageLog.kind for waitlist seat offers. */
+export const WAITLIST_OFFER_KIND = "waitlist_offer";
+
+/** How long offered seats stay held for the customer before going to the next entry. */
+export const WAITLIST_HOLD_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Waitlist entry as shown in the dashboard. */
+export interface WaitlistEntryDTO {
+  id: string;
+  tourId: string;
+  tourName: string;
+  fechaVisita: string;
+  customerName: string;
+  customerPhone: string;
+  seats: number;
+  notes: string | null;
+  source: string;
+  status: WaitlistStatus;
+  /** Position among waiting entries of the same tour date (1 = next to be offered); null when not waiting. */
+  position: number | null;
+  offeredAt: string | null;
+  holdExpiresAt: string | null;
+  notifiedAt: string | null;
+  batchId: string | null;
+  createdAt: string;
+}
+
+/** Result of a hold-expiry run. */
+export interface WaitlistExpiryResult {
+  expired: number;
+  offered: number;
+}
+
+/**
+ * Adds a customer to the waitlist of a tour date.
+ * Rejected when the date already has the requested seats free (book directly instead).
+ * @param input - Validated JoinWaitlistSchema input
+ * @param source - "web" from the public catalog, "staff" from the dashboard
+ * @throws DomainError 404 for unavailable tours, 400 for past dates, invalid phones or free seats
+ */
+export async function joinWaitlist(input: JoinWaitlistInput, source: "staff" | "web"): Promise<WaitlistEntry> {
+  const tour = await db.tour.findUnique({ where: { id: input.tourId } });
+  if (!tour || !tour.isActive || isImportOnlyProduct(tour)) {
+    throw new DomainError("Tour no disponible", 404);
+  }
+  const fechaVisita = toDepartureDate(input.fechaVisita);
+  if (fechaVisita.getTime() < startOfTodayUTC().getTime()) {
+    throw new DomainError("La fecha del tour ya pasó");
+  }
+  const customerPhone = normalizeCustomerPhone(input.customerPhone);
+  if (!customerPhone) throw new DomainError("Teléfono inválido");
+
+  const seatsLeft = await getSeatsLeftForDate(tour.id, fechaVisita);
+  if (seatsLeft >= input.seats) {
+    throw new DomainError(`Hay ${Number.isFinite(seatsLeft) ? seatsLeft : "suficientes"} plazas disponibles para esa fecha; reserve directamente`);
+  }
+
+  const existing = await db.waitlistEntry.findFirst({
+    where: { tourId: tour.id, fechaVisita, customerPhone, status: { in: ["waiting", "offered"] } },
+    select: { id: true },
+  });
+  if (existing) throw new DomainError("Este teléfono ya está en la lista de espera para esa fecha", 409);
+
+  return db.waitlistEntry.create({
+    data: {
+      tourId: tour.id,
+      fechaVisita,
+      customerName: input.customerName,
+      customerPhone,
+      seats: input.seats,
+      notes: input.notes?.trim() || null,
+      source,
+    },
+  });
+}
+
+/**
+ * Offers free seats of one tour date to its waiting entries in join order, holding them on the departure.
+ * Stops at the first entry whose seats do not fit, so nobody is skipped by a smaller request.
+ * @returns Entries offered in this call
+ */
+async function offerSeatsForDate(tourId: string, fechaVisita: Date): Promise<WaitlistEntry[]> {
+  return db.$transaction(async (tx) => {
+    const waiting = await tx.waitlistEntry.findMany({
+      where: { tourId, fechaVisita, status: "waiting" },
+      orderBy: { createdAt: "asc" },
+    });
+    if (waiting.length === 0) return [];
+
+    const departure = await findOrCreateDeparture(tx, tourId, fechaVisita);
+    let seatsLeft = getDepartureSeatsLeft(departure);
+    const holdExpiresAt = new Date(Date.now() + WAITLIST_HOLD_HOURS * HOUR_MS);
+    const offered: WaitlistEntry[] = [];
+    for (const entry of waiting) {
+      if (entry.seats > seatsLeft) break;
+      await reserveDepartureSeats(tx, departure.id, entry.seats);
+      seatsLeft -= entry.seats;
+      offered.push(
+        await tx.waitlistEntry.update({
+          where: { id: entry.id },
+          data: { status: "offered", departureId: departure.id, offeredAt: new Date(), holdExpiresAt },
+        })
+      );
+    }
+    return offered;
+  });
+}
+
+/**
+ * Sends the WhatsApp offer for held seats and stamps notifiedAt. Failures are logged, not thrown.
+ */
+async function notifyWaitlistOffer(entry: WaitlistEntry): Promise<void> {
+  if (!isWhatsAppConfigured()) return;
+  const tour = await db.tour.findUnique({ where: { id: entry.tourId }, select: { name: true } });
+  const body =
+    `Hola ${entry.customerName}, se liberaron ${entry.seats} plaza(s) para ${tour?.name ?? "tu tour"} ` +
+    `el ${formatDate(entry.fechaVisita)}. Te las reservamos hasta el ${formatDateTime(entry.holdExpiresAt)}. ` +
+    `Responde a este mensaje para confirmar tu reserva. — ${brandConfig.brandName}`;
+  try {
+    await sendAndRecordWhatsApp(
+      entry.customerPhone,
+      { type: "text", text: body },
+      { tourId: entry.tourId, kind: WAITLIST_OFFER_KIND }
+    );
+    await db.waitlistEntry.update({ where: { id: entry.id }, data: { notifiedAt: new Date() } });
+  } catch (error) {
+    console.error(`Waitlist offer notification failed for entry ${entry.id}:`, error);
+  }
+}
+
+/**
+ * Offers released seats to the waitlist (after a void, a batch edit or a capacity increase) and
+ * notifies each offered customer by WhatsApp. Never throws: seat releases must not fail because of it.
+ * @param tourId - Tour whose seats were released
+ * @param fechaVisita - Tour date; omit to process every upcoming date of the tour with waiting entries
+ * @returns Number of entries offered
+ */
+export async function offerReleasedSeats(tourId: string, fechaVisita?: Date | null): Promise<number> {
+  try {
+    const dates = fechaVisita
+      ? [toDepartureDate(fechaVisita)]
+      : (
+          await db.waitlistEntry.findMany({
+            where: { tourId, status: "waiting", fechaVisita: { gte: startOfTodayUTC() } },
+            select: { fechaVisita: true },
+            distinct: ["fechaVisita"],
+          })
+        ).map((e) => e.fechaVisita);
+
+    let offeredCount = 0;
+    for (const date of dates) {
+      const offered = await offerSeatsForDate(tourId, date);
+      for (const entry of offered) await notifyWaitlistOffer(entry);
+      offeredCount += offered.length;
+    }
+    return offeredCount;
+  } catch (error) {
+    console.error(`Waitlist offer failed for tour ${tourId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Releases the held seats of an offered entry and moves it to a final status.
+ */
+async function releaseHold(tx: DbClient, entry: WaitlistEntry, status: WaitlistStatus): Promise<void> {
+  if (entry.status === "offered" && entry.departureId) {
+    await releaseDepartureSeats(tx, entry.departureId, entry.seats);
+  }
+  await tx.waitlistEntry.update({ where: { id: entry.id }, data: { status } });
+}
+
+/**
+ * Expires offers whose hold ran out: releases their seats and offers them to the next entries.
+ * @param now - Reference time (default now)
+ */
+export async function expireWaitlistHolds(now: Date = new Date()): Promise<WaitlistExpiryResult> {
+  const expiredEntries = await db.waitlistEntry.findMany({
+    where: { status: "offered", holdExpiresAt: { lte: now } },
+    orderBy: { holdExpiresAt: "asc" },
+  });
+
+  const released = new Map<string, { tourId: string; fechaVisita: Date }>();
+  for (const entry of expiredEntries) {
+    await db.$transaction((tx) => releaseHold(tx, entry, "expired"));
+    released.set(`${entry.tourId}|${entry.fechaVisita.toISOString()}`, entry);
+  }
+
+  let offered = 0;
+  for (const { tourId, fechaVisita } of released.values()) {
+    if (fechaVisita.getTime() >= startOfTodayUTC().getTime()) {
+      offered += await offerReleasedSeats(tourId, fechaVisita);
+    }
+  }
+  return { expired: expiredEntries.length, offered };
+}
+
+/**
+ * Cancels a waiting or offered entry; held seats go to the next entry.
+ * @throws DomainError 404 when not found, 409 when already booked or closed
+ */
+export async function cancelWaitlistEntry(id: string): Promise<void> {
+  const entry = await db.waitlistEntry.findUnique({ where: { id } });
+  if (!entry) throw new DomainError("Entrada no encontrada", 404);
+  if (entry.status !== "waiting" && entry.status !== "offered") {
+    throw new DomainError("La entrada ya no está activa", 409);
+  }
+  await db.$transaction((tx) => releaseHold(tx, entry, "cancelled"));
+  if (entry.status === "offered") await offerReleasedSeats(entry.tourId, entry.fechaVisita);
+}
+
+/**
+ * Turns an offer into a booking inside createSaleBatch's transaction: releases the held seats
+ * (the new sale lines reserve them again) and links the batch.
+ * @param tx - Transaction client of the booking
+ * @param id - Waitlist entry ID
+ * @param batchId - Batch being created
+ * @throws DomainError 409 when the entry is no longer offered
+ */
+export async function claimWaitlistHold(tx: DbClient, id: string, batchId: string): Promise<void> {
+  const entry = await tx.waitlistEntry.findUnique({ where: { id } });
+  if (!entry || entry.status !== "offered") {
+    throw new DomainError("La oferta de plazas ya no está vigente", 409);
+  }
+  if (entry.departureId) await releaseDepartureSeats(tx, entry.departureId, entry.seats);
+  await tx.waitlistEntry.update({ where: { id }, data: { status: "booked", batchId } });
+}
+
+/**
+ * Lists waitlist entries for the dashboard with each waiting entry's position in its queue.
+ * @param filters - Tour and/or status filters; by default only active (waiting / offered) entries of upcoming dates
+ */
+export async function listWaitlist(
+  filters: { tourId?: string; includeClosed?: boolean } = {}
+): Promise<WaitlistEntryDTO[]> {
+  const entries = await db.waitlistEntry.findMany({
+    where: {
+      ...(filters.tourId ? { tourId: filters.tourId } : {}),
+      ...(filters.includeClosed
+        ? {}
+        : { status: { in: ["waiting", "offered"] }, fechaVisita: { gte: startOfTodayUTC() } }),
+    },
+    include: { tour: { select: { name: true } } },
+    orderBy: [{ fechaVisita: "asc" }, { createdAt: "asc" }],
+    take: 500,
+  });
+
+  const positions = new Map<string, number>();
+  return entries.map((e) => {
+    let position: number | null = null;
+    if (e.status === "waiting") {
+      const key = `${e.tourId}|${e.fechaVisita.toISOString()}`;
+      position = (positions.get(key) ?? 0) + 1;
+      positions.set(key, position);
+    }
+    return {
+      id: e.id,
+      tourId: e.tourId,
+      tourName: e.tour.name,
+      fechaVisita: e.fechaVisita.toISOString(),
+      customerName: e.customerName,
+      customerPhone: e.customerPhone,
+      seats: e.seats,
+      notes: e.notes,
+      source: e.source,
+      status: e.status as WaitlistStatus,
+      position,
+      offeredAt: e.offeredAt?.toISOString() ?? null,
+      holdExpiresAt: e.holdExpiresAt?.toISOString() ?? null,
+      notifiedAt: e.notifiedAt?.toISOString() ?? null,
+      batchId: e.batchId,
+      createdAt: e.createdAt.toISOString(),
+    };
+  });
+}
@@ -1,4 +1,5 @@
 import { db } from "./db";
+import { startOfTodayUTC } from "./dates";
 
 /** Day of week: 0 = Sunday, 1 = Monday, … 6 = Saturday (matches JS Date.getDay()). */
 export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
@@ -30,48 +31,53 @@ export function getRecurringDayName(day: DayOfWeek): string {
 export function getNextOccurrence(dayOfWeek: DayOfWeek, after?: Date): Date {
   const ref = after ? new Date(after) : startOfTodayUTC();
   const refDay = ref.getUTCDay();
-  let daysAhead = (dayOfWeek - refDay + 7) % 7;
+  const daysAhead = (dayOfWeek - refDay + 7) % 7;
   const next = new Date(ref);
   next.setUTCDate(ref.getUTCDate() + daysAhead);
   next.setUTCHours(12, 0, 0, 0);
   return next;
 }
 
-/** Start of today UTC (00:00:00.000). */
-function startOfTodayUTC(): Date {
-  const d = new Date();
-  d.setUTCHours(0, 0, 0, 0);
-  return d;
-}
+/** Weeks of departures kept open ahead of time for recurring weekly tours. */
+export const RECURRING_WEEKS_AHEAD = 8;
 
 /**
- * For tours with recurringWeeklyDay set: if tourDate has passed (day is in the past),
- * resets sold to 0 and sets tourDate to the next occurrence of that weekday.
+ * For tours with recurringWeeklyDay set: creates the departures for the next RECURRING_WEEKS_AHEAD
+ * occurrences of that weekday (capacity = Tour.stock) and points tourDate at the next departure.
+ * Past departures keep their bookings; existing departures are left untouched.
  * Idempotent: safe to run daily.
- * @returns Count of tours that were reset
+ * @param tourId - Optional tour to limit the run to (e.g. right after saving a tour)
+ * @returns Count of departures created
  */
-export async function runWeeklyRecurringReset(): Promise<number> {
+export async function generateRecurringDepartures(tourId?: string): Promise<number> {
   const now = startOfTodayUTC();
   const tours = await db.tour.findMany({
-    where: { recurringWeeklyDay: { not: null } },
-    select: { id: true, tourDate: true, recurringWeeklyDay: true, sold: true },
+    where: { recurringWeeklyDay: { not: null }, ...(tourId ? { id: tourId } : {}) },
+    select: { id: true, tourDate: true, recurringWeeklyDay: true, stock: true },
   });
 
-  let resetCount = 0;
+  let createdCount = 0;
   for (const tour of tours) {
     const day = tour.recurringWeeklyDay as DayOfWeek;
-    const tourDate = tour.tourDate;
-    const tourDayStart = tourDate ? new Date(tourDate) : null;
-    if (tourDayStart) tourDayStart.setUTCHours(0, 0, 0, 0);
-    const hasPassed = !tourDayStart || tourDayStart.getTime() < now.getTime();
-    if (!hasPassed) continue;
-
     const nextDate = getNextOccurrence(day, now);
-    await db.tour.update({
-      where: { id: tour.id },
-      data: { sold: 0, tourDate: nextDate },
+
+    const dates = Array.from({ length: RECURRING_WEEKS_AHEAD }, (_, week) => {
+      const date = new Date(nextDate);
+      date.setUTCDate(nextDate.getUTCDate() + week * 7);
+      return date;
     });
-    resetCount++;
+    const result = await db.tourDeparture.createMany({
+      data: dates.map((date) => ({ tourId: tour.id, date, capacity: tour.stock })),
+      skipDuplicates: true,
+    });
+    createdCount += result.count;
+
+    if (tour.tourDate?.getTime() !== nextDate.getTime()) {
+      await db.tour.update({
+        where: { id: tour.id },
+        data: { tourDate: nextDate },
+      });
+    }
   }
-  return resetCount;
+  return createdCount;
 }
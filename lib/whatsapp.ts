@@ -1,35 +1,79 @@
 /**
  * WhatsApp Business Cloud API helpers.
- * Sends text messages via Meta Graph API. Requires env: WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN.
+ * Sends text, template, document and image messages via Meta Graph API. Requires env: WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN.
  */
 
+import { formatPhoneForWhatsApp } from "./phone";
+import type { SendWhatsAppInput } from "./validation";
+
 const GRAPH_API_VERSION = "v21.0";
 const BASE_URL = `https://graph.facebook.com/${GRAPH_API_VERSION}`;
 
 /**
  * Normalizes phone to E.164 digits only (no + or spaces).
- * @param phone - Raw phone (e.g. 18297188926 or +1 829 718-8926).
+ * 10-digit Dominican numbers (809/829/849) get the country code 1, so sale phones match webhook senders.
+ * @param phone - Raw phone (e.g. 18297188926, +1 829 718-8926 or 829-718-8926).
  * @returns Digits only.
  */
 export function normalizePhone(phone: string): string {
-  return phone.replace(/\D/g, "");
+  return formatPhoneForWhatsApp(phone);
+}
+
+/** Error returned by the Cloud API; code is Meta's error code (e.g. 131047 = outside the 24-hour window). */
+export class WhatsAppApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number | null = null,
+    public readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = "WhatsAppApiError";
+  }
+}
+
+/** Template message: name and language as approved in WhatsApp Manager; body parameters fill {{1}}, {{2}}, ... */
+export interface WhatsAppTemplateMessage {
+  name: string;
+  /** Template language code (e.g. "es", "es_MX", "en_US"). */
+  language: string;
+  bodyParameters?: string[];
 }
 
+/** Media for document/image messages: a public link or a media ID from uploadWhatsAppMedia. */
+export type WhatsAppMediaSource = { link: string } | { id: string };
+
+type GraphErrorBody = { error?: { message: string; code: number; error_data?: { details?: string } } };
+
 /**
- * Sends a text message via WhatsApp Cloud API.
- * @param to - Recipient phone (digits only or will be normalized).
- * @param body - Message text (max 4096 chars).
- * @returns Meta message ID or throws.
+ * Reads credentials from env or throws.
  */
-export async function sendWhatsAppText(
-  to: string,
-  body: string
-): Promise<{ messageId: string }> {
+function getCredentials(): { phoneNumberId: string; accessToken: string } {
   const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
   const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
   if (!phoneNumberId || !accessToken) {
     throw new Error("WhatsApp API not configured (WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN)");
   }
+  return { phoneNumberId, accessToken };
+}
+
+/**
+ * Throws a WhatsAppApiError with Meta's error code when the Graph response is not OK.
+ */
+function throwIfGraphError(res: Response, data: GraphErrorBody): void {
+  if (res.ok) return;
+  const details = data.error?.error_data?.details;
+  const msg = data.error?.message ?? `HTTP ${res.status}`;
+  throw new WhatsAppApiError(details ? `${msg}: ${details}` : msg, data.error?.code ?? null, res.status);
+}
+
+/**
+ * Posts a message payload (type + content) to the Cloud API messages endpoint.
+ * @param to - Recipient phone (normalized here).
+ * @param payload - Type-specific fields, e.g. { type: "text", text: {...} }.
+ * @returns Meta message ID or throws WhatsAppApiError.
+ */
+async function postMessage(to: string, payload: Record<string, unknown>): Promise<{ messageId: string }> {
+  const { phoneNumberId, accessToken } = getCredentials();
   const normalizedTo = normalizePhone(to);
   if (!normalizedTo) {
     throw new Error("Invalid recipient phone");
@@ -45,15 +89,11 @@ export async function sendWhatsAppText(
       messaging_product: "whatsapp",
       recipient_type: "individual",
       to: normalizedTo,
-      type: "text",
-      text: { body: body.slice(0, 4096) },
+      ...payload,
     }),
   });
-  const data = (await res.json()) as { error?: { message: string; code: number }; messages?: Array<{ id: string }> };
-  if (!res.ok) {
-    const msg = data.error?.message ?? `HTTP ${res.status}`;
-    throw new Error(msg);
-  }
+  const data = (await res.json()) as GraphErrorBody & { messages?: Array<{ id: string }> };
+  throwIfGraphError(res, data);
   const messageId = data.messages?.[0]?.id;
   if (!messageId) {
     throw new Error("No message ID in response");
@@ -61,6 +101,191 @@ export async function sendWhatsAppText(
   return { messageId };
 }
 
+/**
+ * Sends a text message via WhatsApp Cloud API.
+ * Only delivered inside the 24-hour customer service window; use sendWhatsAppTemplate otherwise.
+ * @param to - Recipient phone (digits only or will be normalized).
+ * @param body - Message text (max 4096 chars).
+ * @returns Meta message ID or throws.
+ */
+export async function sendWhatsAppText(
+  to: string,
+  body: string
+): Promise<{ messageId: string }> {
+  return postMessage(to, { type: "text", text: { body: body.slice(0, 4096) } });
+}
+
+/**
+ * Sends an approved template message (allowed outside the 24-hour window).
+ * @param to - Recipient phone.
+ * @param template - Template name, language and body parameters.
+ * @returns Meta message ID or throws.
+ */
+export async function sendWhatsAppTemplate(
+  to: string,
+  template: WhatsAppTemplateMessage
+): Promise<{ messageId: string }> {
+  const parameters = (template.bodyParameters ?? []).map((text) => ({ type: "text", text }));
+  return postMessage(to, {
+    type: "template",
+    template: {
+      name: template.name,
+      language: { code: template.language },
+      ...(parameters.length > 0 ? { components: [{ type: "body", parameters }] } : {}),
+    },
+  });
+}
+
+/**
+ * Sends a document (e.g. invoice PDF).
+ * @param to - Recipient phone.
+ * @param media - Public link or uploaded media ID.
+ * @param options - filename shown to the customer and optional caption.
+ * @returns Meta message ID or throws.
+ */
+export async function sendWhatsAppDocument(
+  to: string,
+  media: WhatsAppMediaSource,
+  options: { filename?: string; caption?: string } = {}
+): Promise<{ messageId: string }> {
+  return postMessage(to, {
+    type: "document",
+    document: {
+      ...media,
+      ...(options.filename ? { filename: options.filename } : {}),
+      ...(options.caption ? { caption: options.caption.slice(0, 1024) } : {}),
+    },
+  });
+}
+
+/**
+ * Sends an image (e.g. tour flyer).
+ * @param to - Recipient phone.
+ * @param media - Public link or uploaded media ID.
+ * @param caption - Optional caption.
+ * @returns Meta message ID or throws.
+ */
+export async function sendWhatsAppImage(
+  to: string,
+  media: WhatsAppMediaSource,
+  caption?: string
+): Promise<{ messageId: string }> {
+  return postMessage(to, {
+    type: "image",
+    image: { ...media, ...(caption ? { caption: caption.slice(0, 1024) } : {}) },
+  });
+}
+
+/**
+ * Uploads a file to the Cloud API media store (kept by Meta for 30 days).
+ * @param data - File bytes.
+ * @param mimeType - e.g. "application/pdf", "image/jpeg".
+ * @param filename - File name.
+ * @returns Media ID for sendWhatsAppDocument/sendWhatsAppImage.
+ */
+export async function uploadWhatsAppMedia(
+  data: Uint8Array,
+  mimeType: string,
+  filename: string
+): Promise<{ mediaId: string }> {
+  const { phoneNumberId, accessToken } = getCredentials();
+  const form = new FormData();
+  form.append("messaging_product", "whatsapp");
+  form.append("type", mimeType);
+  form.append("file", new Blob([Buffer.from(data)], { type: mimeType }), filename);
+  const res = await fetch(`${BASE_URL}/${phoneNumberId}/media`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: form,
+  });
+  const body = (await res.json()) as GraphErrorBody & { id?: string };
+  throwIfGraphError(res, body);
+  if (!body.id) {
+    throw new Error("No media ID in response");
+  }
+  return { mediaId: body.id };
+}
+
+/** Any outbound message the dashboard can send. */
+export type WhatsAppOutboundContent =
+  | { type: "text"; text: string }
+  | { type: "template"; template: WhatsAppTemplateMessage }
+  | { type: "image"; media: WhatsAppMediaSource; caption?: string }
+  | { type: "document"; media: WhatsAppMediaSource; filename?: string; caption?: string };
+
+/**
+ * Maps validated send input (SendWhatsAppSchema / SendWhatsAppTourSchema) to outbound content.
+ */
+export function toWhatsAppContent(
+  input: Pick<SendWhatsAppInput, "type" | "message" | "template" | "mediaUrl" | "filename" | "caption">
+): WhatsAppOutboundContent {
+  switch (input.type) {
+    case "template":
+      return {
+        type: "template",
+        template: {
+          name: input.template?.name ?? "",
+          language: input.template?.language ?? "es",
+          bodyParameters: input.template?.parameters ?? [],
+        },
+      };
+    case "image":
+      return { type: "image", media: { link: input.mediaUrl ?? "" }, caption: input.caption };
+    case "document":
+      return {
+        type: "document",
+        media: { link: input.mediaUrl ?? "" },
+        filename: input.filename,
+        caption: input.caption,
+      };
+    default:
+      return { type: "text", text: input.message ?? "" };
+  }
+}
+
+/**
+ * Sends any outbound content with the matching Cloud API message type.
+ * @param to - Recipient phone.
+ * @param content - Text, template, image or document.
+ * @returns Meta message ID or throws.
+ */
+export async function sendWhatsAppContent(
+  to: string,
+  content: WhatsAppOutboundContent
+): Promise<{ messageId: string }> {
+  switch (content.type) {
+    case "template":
+      return sendWhatsAppTemplate(to, content.template);
+    case "image":
+      return sendWhatsAppImage(to, content.media, content.caption);
+    case "document":
+      return sendWhatsAppDocument(to, content.media, { filename: content.filename, caption: content.caption });
+    default:
+      return sendWhatsAppText(to, content.text);
+  }
+}
+
+/**
+ * Human-readable body stored in WhatsAppMessageLog for non-text content (inbox preview).
+ * @param content - Outbound content.
+ */
+export function describeWhatsAppContent(content: WhatsAppOutboundContent): string {
+  switch (content.type) {
+    case "template": {
+      const params = content.template.bodyParameters ?? [];
+      return `[Plantilla ${content.template.name}]${params.length > 0 ? ` ${params.join(" · ")}` : ""}`;
+    }
+    case "image":
+      return `[Imagen]${content.caption ? ` ${content.caption}` : ""}`;
+    case "document": {
+      const label = content.filename ? `[Documento ${content.filename}]` : "[Documento]";
+      return content.caption ? `${label} ${content.caption}` : label;
+    }
+    default:
+      return content.text;
+  }
+}
+
 /**
  * Checks if WhatsApp Cloud API is configured (env vars set).
  */
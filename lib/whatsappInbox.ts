@@ -0,0 +1,261 @@
+import type { WhatsAppContact, WhatsAppMessageLog } from "@prisma/client";
+import { db } from "./db";
+import {
+  describeWhatsAppContent,
+  normalizePhone,
+  sendWhatsAppContent,
+  WhatsAppApiError,
+  type WhatsAppOutboundContent,
+} from "./whatsapp";
+import { getBookingReference } from "./sales";
+
+/** Characters of the latest message kept on the thread for the inbox list. */
+const PREVIEW_LENGTH = 120;
+
+/** Message to store in WhatsAppMessageLog (and its thread). */
+export interface NewWhatsAppMessage {
+  direction: "inbound" | "outbound";
+  customerPhone: string;
+  body?: string | null;
+  externalId?: string | null;
+  status: string;
+  batchId?: string | null;
+  tourId?: string | null;
+  kind?: string | null;
+  /** "text" | "template" | "document" | "image" (default "text"). */
+  messageType?: string;
+  /** Meta error code for failed sends. */
+  errorCode?: number | null;
+  errorMessage?: string | null;
+  /** Profile name from the webhook `contacts` payload (inbound only). */
+  profileName?: string | null;
+  createdAt?: Date;
+}
+
+/** Sale batch linked to a thread by phone. */
+export interface LinkedBatchDTO {
+  batchId: string;
+  reference: string;
+  customerName: string | null;
+  tourNames: string[];
+  fechaVisita: string | null;
+  total: number;
+  pendiente: number;
+  isPaid: boolean;
+  isVoided: boolean;
+}
+
+/**
+ * Finds sale batches whose customer phone matches the given phone after normalization.
+ * Newest first; voided batches are included (flagged).
+ * @param phone - Raw or E.164 phone
+ * @param where - Extra filter on sales (e.g. supervisor scope)
+ */
+export async function findBatchesForPhone(
+  phone: string,
+  where: { supervisor?: string } = {}
+): Promise<LinkedBatchDTO[]> {
+  const normalized = normalizePhone(phone);
+  if (normalized.length < 7) return [];
+
+  // Stored phones are free text: narrow by the last 4 digits, then compare normalized
+  const candidates = await db.sale.findMany({
+    where: { customerPhone: { contains: normalized.slice(-4) }, ...where },
+    include: { tour: { select: { name: true } } },
+    orderBy: { createdAt: "desc" },
+    take: 200,
+  });
+
+  const batches = new Map<string, LinkedBatchDTO>();
+  for (const sale of candidates) {
+    if (normalizePhone(sale.customerPhone ?? "") !== normalized) continue;
+    const existing = batches.get(sale.batchId);
+    if (!existing) {
+      batches.set(sale.batchId, {
+        batchId: sale.batchId,
+        reference: getBookingReference(sale.batchId),
+        customerName: sale.customerName,
+        tourNames: sale.tour?.name ? [sale.tour.name] : [],
+        fechaVisita: sale.fechaVisita?.toISOString() ?? null,
+        total: sale.total,
+        pendiente: sale.isPaid ? 0 : sale.pendiente ?? sale.total,
+        isPaid: sale.isPaid,
+        isVoided: Boolean(sale.voidedAt),
+      });
+      continue;
+    }
+    existing.total += sale.total;
+    existing.pendiente += sale.isPaid ? 0 : sale.pendiente ?? sale.total;
+    if (sale.tour?.name && !existing.tourNames.includes(sale.tour.name)) {
+      existing.tourNames.push(sale.tour.name);
+    }
+  }
+  return Array.from(batches.values());
+}
+
+/**
+ * Stores a WhatsApp message and updates its thread (last message, unread count, profile name).
+ * Inbound messages without a batchId are linked to the customer's most recent non-voided batch.
+ * @param message - Message data; customerPhone is normalized to E.164 digits
+ * @returns The created log row
+ */
+export async function recordWhatsAppMessage(message: NewWhatsAppMessage): Promise<WhatsAppMessageLog> {
+  const phone = normalizePhone(message.customerPhone);
+  const createdAt = message.createdAt ?? new Date();
+  const isInbound = message.direction === "inbound";
+
+  let batchId = message.batchId ?? null;
+  if (isInbound && !batchId) {
+    const linked = await findBatchesForPhone(phone);
+    batchId = linked.find((b) => !b.isVoided)?.batchId ?? null;
+  }
+
+  const log = await db.whatsAppMessageLog.create({
+    data: {
+      direction: message.direction,
+      externalId: message.externalId ?? null,
+      batchId,
+      tourId: message.tourId ?? null,
+      customerPhone: phone,
+      body: message.body ?? null,
+      status: message.status,
+      kind: message.kind ?? null,
+      messageType: message.messageType ?? "text",
+      errorCode: message.errorCode ?? null,
+      errorMessage: message.errorMessage ?? null,
+      createdAt,
+    },
+  });
+
+  const preview = message.body ? message.body.slice(0, PREVIEW_LENGTH) : null;
+  const profileName = message.profileName?.trim() || null;
+  await db.whatsAppContact.upsert({
+    where: { phone },
+    create: {
+      phone,
+      profileName,
+      lastMessageAt: createdAt,
+      lastMessagePreview: preview,
+      unreadCount: isInbound ? 1 : 0,
+    },
+    update: {
+      ...(profileName ? { profileName } : {}),
+      lastMessageAt: createdAt,
+      lastMessagePreview: preview,
+      ...(isInbound ? { unreadCount: { increment: 1 } } : {}),
+    },
+  });
+
+  return log;
+}
+
+/** Context of an outbound send stored with the log row. */
+export interface OutboundWhatsAppContext {
+  batchId?: string | null;
+  tourId?: string | null;
+  kind?: string | null;
+  /** Body stored in the log; defaults to the text or a description of the template/media. */
+  body?: string;
+}
+
+/**
+ * Sends outbound content and records it in the customer's thread. Failures are recorded
+ * with status "failed" and Meta's error code, then rethrown.
+ * @param to - Recipient phone
+ * @param content - Text, template, image or document
+ * @param context - batchId/tourId/kind for the log row
+ * @returns The created log row (status "sent")
+ */
+export async function sendAndRecordWhatsApp(
+  to: string,
+  content: WhatsAppOutboundContent,
+  context: OutboundWhatsAppContext = {}
+): Promise<WhatsAppMessageLog> {
+  if (!normalizePhone(to)) {
+    throw new Error("Invalid recipient phone");
+  }
+  const logged: NewWhatsAppMessage = {
+    direction: "outbound",
+    customerPhone: to,
+    body: context.body ?? describeWhatsAppContent(content),
+    batchId: context.batchId ?? null,
+    tourId: context.tourId ?? null,
+    kind: context.kind ?? null,
+    messageType: content.type,
+    status: "sent",
+  };
+  let messageId: string;
+  try {
+    ({ messageId } = await sendWhatsAppContent(to, content));
+  } catch (error) {
+    await recordWhatsAppMessage({
+      ...logged,
+      status: "failed",
+      errorCode: error instanceof WhatsAppApiError ? error.code : null,
+      errorMessage: error instanceof Error ? error.message.slice(0, 500) : String(error),
+    });
+    throw error;
+  }
+  return recordWhatsAppMessage({ ...logged, externalId: messageId });
+}
+
+/**
+ * Lists inbox threads, most recent first.
+ * @param options - search (phone digits or profile name), unreadOnly, limit (default 50)
+ */
+export async function listWhatsAppThreads(options: {
+  search?: string;
+  unreadOnly?: boolean;
+  limit?: number;
+} = {}): Promise<WhatsAppContact[]> {
+  const search = options.search?.trim();
+  const digits = search?.replace(/\D/g, "");
+  return db.whatsAppContact.findMany({
+    where: {
+      ...(options.unreadOnly ? { unreadCount: { gt: 0 } } : {}),
+      ...(search
+        ? {
+            OR: [
+              { profileName: { contains: search, mode: "insensitive" as const } },
+              ...(digits ? [{ phone: { contains: digits } }] : []),
+            ],
+          }
+        : {}),
+    },
+    orderBy: { lastMessageAt: { sort: "desc", nulls: "last" } },
+    take: options.limit ?? 50,
+  });
+}
+
+/**
+ * Total unread inbound messages across all threads.
+ */
+export async function getWhatsAppUnreadTotal(): Promise<number> {
+  const result = await db.whatsAppContact.aggregate({ _sum: { unreadCount: true } });
+  return result._sum.unreadCount ?? 0;
+}
+
+/**
+ * Messages of a thread in chronological order (latest `limit` messages).
+ * @param phone - Thread phone (normalized here)
+ * @param limit - Max messages (default 100)
+ */
+export async function getThreadMessages(phone: string, limit = 100): Promise<WhatsAppMessageLog[]> {
+  const messages = await db.whatsAppMessageLog.findMany({
+    where: { customerPhone: normalizePhone(phone) },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return messages.reverse();
+}
+
+/**
+ * Marks all messages of a thread as read.
+ * @param phone - Thread phone (normalized here)
+ */
+export async function markThreadRead(phone: string): Promise<void> {
+  await db.whatsAppContact.updateMany({
+    where: { phone: normalizePhone(phone) },
+    data: { unreadCount: 0 },
+  });
+}
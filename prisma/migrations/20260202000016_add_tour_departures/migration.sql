@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "tour_departures" (
+    "id" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "booked" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tour_departures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tour_departures_tourId_date_key" ON "tour_departures"("tourId", "date");
+
+-- CreateIndex
+CREATE INDEX "tour_departures_date_idx" ON "tour_departures"("date");
+
+-- AddForeignKey
+ALTER TABLE "tour_departures" ADD CONSTRAINT "tour_departures_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "departureId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sales_departureId_idx" ON "sales"("departureId");
+
+-- AddForeignKey
+ALTER TABLE "sales" ADD CONSTRAINT "sales_departureId_fkey" FOREIGN KEY ("departureId") REFERENCES "tour_departures"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: tours.stock was "seats left"; it now means seats per departure (default capacity).
+UPDATE "tours" SET "stock" = "stock" + "sold" WHERE "stock" <> -1;
+
+-- One departure per tour and visit day found in existing sales, plus each tour's current tourDate (noon UTC).
+INSERT INTO "tour_departures" ("id", "tourId", "date", "capacity", "booked", "updatedAt")
+SELECT 'dep_' || md5(d."tourId" || d."date"::text), d."tourId", d."date", t."stock", 0, CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT "tourId", date_trunc('day', "fechaVisita") + interval '12 hours' AS "date"
+    FROM "sales" WHERE "fechaVisita" IS NOT NULL
+    UNION
+    SELECT "id", date_trunc('day', "tourDate") + interval '12 hours'
+    FROM "tours" WHERE "tourDate" IS NOT NULL
+) d
+JOIN "tours" t ON t."id" = d."tourId";
+
+-- Link sales to their departure
+UPDATE "sales" s SET "departureId" = d."id"
+FROM "tour_departures" d
+WHERE d."tourId" = s."tourId"
+  AND d."date" = date_trunc('day', s."fechaVisita") + interval '12 hours';
+
+-- Booked = non-voided seats per departure
+UPDATE "tour_departures" d SET "booked" = b."booked"
+FROM (
+    SELECT "departureId", SUM("quantity")::INTEGER AS "booked"
+    FROM "sales"
+    WHERE "departureId" IS NOT NULL AND "voidedAt" IS NULL
+    GROUP BY "departureId"
+) b
+WHERE b."departureId" = d."id";
+
+-- Past weeks were booked against reset counters; never leave capacity below what was booked.
+UPDATE "tour_departures" SET "capacity" = "booked" WHERE "capacity" <> -1 AND "capacity" < "booked";
+
+-- tours.sold = seats booked across all departures (no longer reset weekly)
+UPDATE "tours" t SET "sold" = COALESCE(
+    (SELECT SUM(s."quantity")::INTEGER FROM "sales" s WHERE s."tourId" = t."id" AND s."voidedAt" IS NULL),
+    0
+);
@@ -0,0 +1,2 @@
+-- Where a booking was entered: "staff" (dashboard) or "web" (public catalog checkout)
+ALTER TABLE "sales" ADD COLUMN IF NOT EXISTS "source" TEXT NOT NULL DEFAULT 'staff';
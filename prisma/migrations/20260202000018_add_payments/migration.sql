@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "recordedBy" TEXT NOT NULL,
+    "recordedByRole" TEXT,
+    "reversedAt" TIMESTAMP(3),
+    "reversedBy" TEXT,
+    "reverseReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_batchId_idx" ON "payments"("batchId");
+
+-- CreateIndex
+CREATE INDEX "payments_paidAt_idx" ON "payments"("paidAt");
+
+-- Backfill: one payment per existing batch with what was already collected
+-- (full total for batches marked paid, otherwise the sum of abono)
+INSERT INTO "payments" ("id", "batchId", "amount", "paidAt", "method", "reference", "recordedBy")
+SELECT
+    'pay_' || md5("batchId"),
+    "batchId",
+    CASE WHEN bool_or("isPaid") THEN SUM("total") ELSE SUM(COALESCE("abono", 0)) END,
+    MIN(COALESCE("fechaEntrega", "createdAt")),
+    'cash',
+    'Saldo previo al registro de pagos',
+    'Migración'
+FROM "sales"
+GROUP BY "batchId"
+HAVING CASE WHEN bool_or("isPaid") THEN SUM("total") ELSE SUM(COALESCE("abono", 0)) END > 0;
+
+-- Align paid batches with the ledger: every line fully paid
+UPDATE "sales" SET "abono" = "total", "pendiente" = 0
+WHERE "batchId" IN (SELECT "batchId" FROM "sales" GROUP BY "batchId" HAVING bool_or("isPaid"));
+UPDATE "sales" SET "isPaid" = true
+WHERE "batchId" IN (SELECT "batchId" FROM "sales" GROUP BY "batchId" HAVING bool_or("isPaid"));
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "admin_settings" ADD COLUMN "paymentReminderEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "admin_settings" ADD COLUMN "paymentReminderLeadDays" INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE "admin_settings" ADD COLUMN "paymentReminderIntervalDays" INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE "admin_settings" ADD COLUMN "paymentReminderTemplate" TEXT;
+
+-- AlterTable
+ALTER TABLE "whatsapp_message_log" ADD COLUMN "kind" TEXT;
+
+-- CreateIndex
+CREATE INDEX "whatsapp_message_log_kind_idx" ON "whatsapp_message_log"("kind");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "whatsapp_contacts" (
+    "id" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "profileName" TEXT,
+    "lastMessageAt" TIMESTAMP(3),
+    "lastMessagePreview" TEXT,
+    "unreadCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "whatsapp_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "whatsapp_contacts_phone_key" ON "whatsapp_contacts"("phone");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_contacts_lastMessageAt_idx" ON "whatsapp_contacts"("lastMessageAt");
+
+-- Thread key is E.164 digits: add the country code to 10-digit Dominican numbers logged without it
+UPDATE "whatsapp_message_log"
+SET "customerPhone" = '1' || regexp_replace("customerPhone", '\D', '', 'g')
+WHERE length(regexp_replace("customerPhone", '\D', '', 'g')) = 10
+  AND left(regexp_replace("customerPhone", '\D', '', 'g'), 3) IN ('809', '829', '849');
+
+-- Backfill one thread per phone already in the log (existing messages count as read)
+INSERT INTO "whatsapp_contacts" ("id", "phone", "lastMessageAt", "lastMessagePreview", "updatedAt")
+SELECT DISTINCT ON ("customerPhone")
+    'wac_' || md5("customerPhone"),
+    "customerPhone",
+    "createdAt",
+    left("body", 120),
+    CURRENT_TIMESTAMP
+FROM "whatsapp_message_log"
+WHERE "customerPhone" <> ''
+ORDER BY "customerPhone", "createdAt" DESC;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "whatsapp_message_log" ADD COLUMN "messageType" TEXT NOT NULL DEFAULT 'text';
+ALTER TABLE "whatsapp_message_log" ADD COLUMN "errorCode" INTEGER;
+ALTER TABLE "whatsapp_message_log" ADD COLUMN "errorMessage" TEXT;
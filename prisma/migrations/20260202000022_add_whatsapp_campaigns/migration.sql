@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "whatsapp_campaigns" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "audience" JSONB NOT NULL,
+    "messageType" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "totalRecipients" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "whatsapp_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "whatsapp_campaign_recipients" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "customerName" TEXT,
+    "batchId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "externalId" TEXT,
+    "errorCode" INTEGER,
+    "errorMessage" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "whatsapp_campaign_recipients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "whatsapp_campaigns_status_createdAt_idx" ON "whatsapp_campaigns"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "whatsapp_campaign_recipients_campaignId_phone_key" ON "whatsapp_campaign_recipients"("campaignId", "phone");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_campaign_recipients_campaignId_status_idx" ON "whatsapp_campaign_recipients"("campaignId", "status");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_campaign_recipients_status_nextAttemptAt_idx" ON "whatsapp_campaign_recipients"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_campaign_recipients_externalId_idx" ON "whatsapp_campaign_recipients"("externalId");
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_campaign_recipients" ADD CONSTRAINT "whatsapp_campaign_recipients_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "whatsapp_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
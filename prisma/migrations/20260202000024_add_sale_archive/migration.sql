@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "archivedAt" TIMESTAMP(3),
+ADD COLUMN "archivedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sales_archivedAt_idx" ON "sales"("archivedAt");
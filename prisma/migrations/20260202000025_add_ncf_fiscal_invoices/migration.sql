@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "admin_settings" ADD COLUMN "itbisRate" DOUBLE PRECISION NOT NULL DEFAULT 0.18,
+ADD COLUMN "pricesIncludeItbis" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "ncf_sequences" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "rangeFrom" INTEGER NOT NULL,
+    "rangeTo" INTEGER NOT NULL,
+    "nextNumber" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ncf_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fiscal_invoices" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "ncf" TEXT NOT NULL,
+    "ncfType" TEXT NOT NULL,
+    "ncfExpiresAt" TIMESTAMP(3) NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "customerRnc" TEXT,
+    "customerName" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "itbis" DOUBLE PRECISION NOT NULL,
+    "itbisRate" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "issuedBy" TEXT,
+
+    CONSTRAINT "fiscal_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ncf_sequences_type_isActive_idx" ON "ncf_sequences"("type", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fiscal_invoices_batchId_key" ON "fiscal_invoices"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fiscal_invoices_ncf_key" ON "fiscal_invoices"("ncf");
+
+-- CreateIndex
+CREATE INDEX "fiscal_invoices_issuedAt_idx" ON "fiscal_invoices"("issuedAt");
+
+-- AddForeignKey
+ALTER TABLE "fiscal_invoices" ADD CONSTRAINT "fiscal_invoices_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "ncf_sequences"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
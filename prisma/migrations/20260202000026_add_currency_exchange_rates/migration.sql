@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'RD$';
+
+-- Backfill: existing lines take their tour's currency
+UPDATE "sales" s SET "currency" = t."currency" FROM "tours" t WHERE s."tourId" = t."id";
+
+-- AlterTable
+ALTER TABLE "monthly_summaries" ADD COLUMN "revenueByCurrency" JSONB;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_currency_effectiveDate_key" ON "exchange_rates"("currency", "effectiveDate");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "customers" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "cedula" TEXT,
+    "provincia" TEXT,
+    "municipio" TEXT,
+    "address" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customers_phone_key" ON "customers"("phone");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customers_cedula_key" ON "customers"("cedula");
+
+-- CreateIndex
+CREATE INDEX "customers_name_idx" ON "customers"("name");
+
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "customerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sales_customerId_idx" ON "sales"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "sales" ADD CONSTRAINT "sales_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
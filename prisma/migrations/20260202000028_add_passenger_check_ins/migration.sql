@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "passenger_check_ins" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "passengerIndex" INTEGER NOT NULL,
+    "passengerName" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "recordedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "passenger_check_ins_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "passenger_check_ins_batchId_tourId_passengerIndex_key" ON "passenger_check_ins"("batchId", "tourId", "passengerIndex");
+
+-- CreateIndex
+CREATE INDEX "passenger_check_ins_tourId_idx" ON "passenger_check_ins"("tourId");
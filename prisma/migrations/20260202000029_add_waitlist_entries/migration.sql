@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "fechaVisita" TIMESTAMP(3) NOT NULL,
+    "customerName" TEXT NOT NULL,
+    "customerPhone" TEXT NOT NULL,
+    "seats" INTEGER NOT NULL,
+    "notes" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'staff',
+    "status" TEXT NOT NULL DEFAULT 'waiting',
+    "departureId" TEXT,
+    "offeredAt" TIMESTAMP(3),
+    "holdExpiresAt" TIMESTAMP(3),
+    "notifiedAt" TIMESTAMP(3),
+    "batchId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_tourId_fechaVisita_status_createdAt_idx" ON "waitlist_entries"("tourId", "fechaVisita", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_status_holdExpiresAt_idx" ON "waitlist_entries"("status", "holdExpiresAt");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
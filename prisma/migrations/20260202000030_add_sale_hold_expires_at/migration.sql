@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "holdExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "sales_holdExpiresAt_idx" ON "sales"("holdExpiresAt");
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "tours" ADD COLUMN "cancellationPolicy" JSONB;
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "number" SERIAL NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "passengerIndex" INTEGER,
+    "passengerName" TEXT,
+    "seatsReleased" INTEGER NOT NULL,
+    "creditAmount" INTEGER NOT NULL,
+    "paidAmount" INTEGER NOT NULL,
+    "refundPercent" INTEGER NOT NULL,
+    "daysBefore" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "retainedAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "method" TEXT,
+    "reason" TEXT,
+    "recordedBy" TEXT NOT NULL,
+    "recordedByRole" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_number_key" ON "refunds"("number");
+
+-- CreateIndex
+CREATE INDEX "refunds_batchId_idx" ON "refunds"("batchId");
+
+-- CreateIndex
+CREATE INDEX "refunds_createdAt_idx" ON "refunds"("createdAt");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "removed_passengers" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "passengerIndex" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "dateOfBirth" TEXT,
+    "cedulaPassport" TEXT,
+    "phone" TEXT,
+    "seatsReleased" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "refundId" TEXT,
+    "reason" TEXT,
+    "removedBy" TEXT NOT NULL,
+    "removedByRole" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "removed_passengers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "removed_passengers_batchId_idx" ON "removed_passengers"("batchId");
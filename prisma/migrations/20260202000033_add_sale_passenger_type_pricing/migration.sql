@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "passengerType" TEXT NOT NULL DEFAULT 'adult',
+ADD COLUMN "listPrice" INTEGER,
+ADD COLUMN "priceOverrideReason" TEXT;
+
+-- Backfill: lines charged at the tour's child price are kid lines
+UPDATE "sales" s
+SET "passengerType" = 'kid'
+FROM "tours" t
+WHERE s."tourId" = t."id"
+  AND t."childPrice" IS NOT NULL
+  AND t."childPrice" <> t."price"
+  AND s."quantity" > 0
+  AND s."total" = s."quantity" * t."childPrice";
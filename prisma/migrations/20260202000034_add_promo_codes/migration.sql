@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "discount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" TEXT NOT NULL,
+    "discountValue" INTEGER NOT NULL,
+    "currency" TEXT,
+    "tourIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "minPassengers" INTEGER NOT NULL DEFAULT 1,
+    "maxUses" INTEGER,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promo_redemptions" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "subtotal" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "promo_codes"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_batchId_key" ON "promo_redemptions"("batchId");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_promoCodeId_idx" ON "promo_redemptions"("promoCodeId");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_createdAt_idx" ON "promo_redemptions"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "promo_codes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,78 @@
+-- CreateTable
+CREATE TABLE "commission_rules" (
+    "id" TEXT NOT NULL,
+    "sellerName" TEXT,
+    "tourId" TEXT,
+    "type" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "currency" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "commission_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "commission_payouts" (
+    "id" TEXT NOT NULL,
+    "number" SERIAL NOT NULL,
+    "sellerName" TEXT NOT NULL,
+    "periodFrom" TIMESTAMP(3) NOT NULL,
+    "periodTo" TIMESTAMP(3) NOT NULL,
+    "totals" JSONB NOT NULL,
+    "lineCount" INTEGER NOT NULL,
+    "paidBy" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "commission_payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "commission_payout_lines" (
+    "id" TEXT NOT NULL,
+    "payoutId" TEXT NOT NULL,
+    "saleId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "tourId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "saleTotal" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "ruleType" TEXT NOT NULL,
+    "ruleValue" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+
+    CONSTRAINT "commission_payout_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "commission_rules_sellerName_idx" ON "commission_rules"("sellerName");
+
+-- CreateIndex
+CREATE INDEX "commission_rules_tourId_idx" ON "commission_rules"("tourId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "commission_payouts_number_key" ON "commission_payouts"("number");
+
+-- CreateIndex
+CREATE INDEX "commission_payouts_sellerName_idx" ON "commission_payouts"("sellerName");
+
+-- CreateIndex
+CREATE INDEX "commission_payouts_createdAt_idx" ON "commission_payouts"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "commission_payout_lines_saleId_key" ON "commission_payout_lines"("saleId");
+
+-- CreateIndex
+CREATE INDEX "commission_payout_lines_payoutId_idx" ON "commission_payout_lines"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "commission_payout_lines_batchId_idx" ON "commission_payout_lines"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "commission_rules" ADD CONSTRAINT "commission_rules_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_payout_lines" ADD CONSTRAINT "commission_payout_lines_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "commission_payouts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "monthly_summaries" ADD COLUMN     "totalBookings" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "collectedRevenue" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pendingRevenue" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "collectedByCurrency" JSONB,
+ADD COLUMN     "pendingByCurrency" JSONB,
+ADD COLUMN     "breakdown" JSONB,
+ADD COLUMN     "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
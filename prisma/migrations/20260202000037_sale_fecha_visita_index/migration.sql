@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "sales_fechaVisita_idx" ON "sales"("fechaVisita");
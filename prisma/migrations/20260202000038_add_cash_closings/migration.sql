@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "cashClosingId" TEXT;
+
+-- CreateTable
+CREATE TABLE "cash_closings" (
+    "id" TEXT NOT NULL,
+    "number" SERIAL NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "collector" TEXT NOT NULL,
+    "expected" JSONB NOT NULL,
+    "countedCash" JSONB NOT NULL,
+    "difference" JSONB NOT NULL,
+    "hasDiscrepancy" BOOLEAN NOT NULL DEFAULT false,
+    "paymentCount" INTEGER NOT NULL,
+    "notes" TEXT,
+    "closedBy" TEXT NOT NULL,
+    "closedByRole" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cash_closings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_cashClosingId_idx" ON "payments"("cashClosingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cash_closings_number_key" ON "cash_closings"("number");
+
+-- CreateIndex
+CREATE INDEX "cash_closings_date_idx" ON "cash_closings"("date");
+
+-- CreateIndex
+CREATE INDEX "cash_closings_collector_idx" ON "cash_closings"("collector");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_cashClosingId_fkey" FOREIGN KEY ("cashClosingId") REFERENCES "cash_closings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "admin_settings" ADD COLUMN "paymentReminderTemplateName" TEXT;
+ALTER TABLE "admin_settings" ADD COLUMN "paymentReminderTemplateLanguage" TEXT NOT NULL DEFAULT 'es';
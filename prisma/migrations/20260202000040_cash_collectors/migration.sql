@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "collectorUserId" TEXT,
+ADD COLUMN     "collectorName" TEXT;
+
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN     "collectorUserId" TEXT,
+ADD COLUMN     "collectorName" TEXT,
+ADD COLUMN     "cashClosingId" TEXT;
+
+-- AlterTable
+ALTER TABLE "cash_closings" ADD COLUMN     "collectorUserId" TEXT,
+ADD COLUMN     "cashRefunds" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateIndex
+CREATE INDEX "payments_collectorUserId_idx" ON "payments"("collectorUserId");
+
+-- CreateIndex
+CREATE INDEX "refunds_cashClosingId_idx" ON "refunds"("cashClosingId");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_cashClosingId_fkey" FOREIGN KEY ("cashClosingId") REFERENCES "cash_closings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: supervisors recorded their supervisorName; match it when exactly one user has it
+UPDATE "payments" p
+SET "collectorUserId" = u."id", "collectorName" = u."supervisorName"
+FROM "users" u
+WHERE p."recordedByRole" = 'supervisor'
+  AND u."supervisorName" = p."recordedBy"
+  AND (SELECT COUNT(*) FROM "users" u2 WHERE u2."supervisorName" = p."recordedBy") = 1;
+
+UPDATE "refunds" r
+SET "collectorUserId" = u."id", "collectorName" = u."supervisorName"
+FROM "users" u
+WHERE r."recordedByRole" = 'supervisor'
+  AND u."supervisorName" = r."recordedBy"
+  AND (SELECT COUNT(*) FROM "users" u2 WHERE u2."supervisorName" = r."recordedBy") = 1;
+
+UPDATE "cash_closings" c
+SET "collectorUserId" = u."id"
+FROM "users" u
+WHERE u."supervisorName" = c."collector"
+  AND (SELECT COUNT(*) FROM "users" u2 WHERE u2."supervisorName" = c."collector") = 1;
@@ -0,0 +1,23 @@
+-- Backfill: money without a staff collector is held by the batch's seller, else whoever recorded it
+UPDATE "payments" p
+SET "collectorName" = COALESCE(
+  NULLIF(TRIM((SELECT s."nombreVendedor" FROM "sales" s WHERE s."batchId" = p."batchId" ORDER BY s."createdAt" ASC LIMIT 1)), ''),
+  p."recordedBy"
+)
+WHERE p."collectorName" IS NULL;
+
+UPDATE "refunds" r
+SET "collectorName" = COALESCE(
+  NULLIF(TRIM((SELECT s."nombreVendedor" FROM "sales" s WHERE s."batchId" = r."batchId" ORDER BY s."createdAt" ASC LIMIT 1)), ''),
+  r."recordedBy"
+)
+WHERE r."collectorName" IS NULL;
+
+-- AlterTable
+ALTER TABLE "payments" ALTER COLUMN "collectorName" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "refunds" ALTER COLUMN "collectorName" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "payments_collectorName_idx" ON "payments"("collectorName");
@@ -0,0 +1,52 @@
+/**
+ * Recomputes the monthly snapshots (MonthlySummary) of past months from their bookings.
+ * Calls the monthly-snapshot cron of a running deployment, which does the computation, one month per request
+ * so each request stays within the function timeout; a failed month stops the run and can be resumed from it.
+ *
+ * Usage: CRON_SECRET=... npm run backfill-snapshots -- 2025-01 2026-01
+ * (the second month defaults to the first). Targets APP_URL, else NEXT_PUBLIC_SITE_URL, else localhost:3000.
+ */
+import "dotenv/config";
+
+const [from, to = from] = process.argv.slice(2);
+const appUrl = (process.env.APP_URL || process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000").replace(/\/$/, "");
+const secret = process.env.CRON_SECRET;
+
+/**
+ * Months from one YYYY-MM to another, both included, oldest first.
+ */
+function listMonths(first, last) {
+  const months = [];
+  let [year, month] = first.split("-").map(Number);
+  for (let current = first; current <= last; ) {
+    months.push(current);
+    [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+    current = `${year}-${String(month).padStart(2, "0")}`;
+  }
+  return months;
+}
+
+async function main() {
+  if (!from || !/^\d{4}-\d{2}$/.test(from) || !/^\d{4}-\d{2}$/.test(to)) {
+    throw new Error("Usage: npm run backfill-snapshots -- YYYY-MM [YYYY-MM]");
+  }
+  if (!secret) throw new Error("CRON_SECRET is not set");
+
+  for (const month of listMonths(from, to)) {
+    const res = await fetch(`${appUrl}/api/cron/monthly-snapshot`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ from: month, to: month }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(`${month}: ${data.error || `backfill failed (${res.status})`}`);
+    for (const m of data.months) {
+      console.log(`${m.year}-${String(m.month).padStart(2, "0")}: ${m.totalBookings} booking(s), revenue ${m.totalRevenue}`);
+    }
+  }
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});